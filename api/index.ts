@@ -12,7 +12,7 @@ export default async (req: any, res: any) => {
     const app = await NestFactory.create(
       AppModule,
       new ExpressAdapter(server),
-      { logger: ['error', 'warn', 'log'] },
+      { logger: ['error', 'warn', 'log'], rawBody: true },
     );
 
     const configService = app.get(ConfigService);
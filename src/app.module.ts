@@ -1,6 +1,7 @@
 import { Module } from '@nestjs/common';
 import { ConfigModule } from '@nestjs/config';
 import { TypeOrmModule } from '@nestjs/typeorm';
+import { ScheduleModule } from '@nestjs/schedule';
 
 import { DatabaseModule } from './infrastructure/database/database.module';
 import { SharedModule } from './shared/shared.module';
@@ -12,6 +13,17 @@ import { configValidationSchema } from './shared/config/env.validation';
 import { AppController } from './app.controller';
 import { AppService } from './app.service';
 import { PaymentsModule } from './application/payments/payments.module';
+import { ShipmentsModule } from './application/shipments/shipments.module';
+import { ReturnsModule } from './application/returns/returns.module';
+import { InvoicesModule } from './application/invoices/invoices.module';
+import { TaxModule } from './application/taxes/tax.module';
+import { ShippingModule } from './application/shipping/shipping.module';
+import { PromotionsModule } from './application/promotions/promotions.module';
+import { StoreCreditModule } from './application/store-credit/store-credit.module';
+import { InventoryModule } from './application/inventory/inventory.module';
+import { CartModule } from './application/cart/cart.module';
+import { GuestCheckoutModule } from './application/guest-checkout/guest-checkout.module';
+import { WarehousesModule } from './application/warehouses/warehouses.module';
 
 @Module({
   imports: [
@@ -28,6 +40,9 @@ import { PaymentsModule } from './application/payments/payments.module';
     // Database configuration
     DatabaseModule,
 
+    // Scheduled jobs (cleanup de checkout sessions, etc.)
+    ScheduleModule.forRoot(),
+
     // Shared utilities and services
     SharedModule,
 
@@ -36,9 +51,20 @@ import { PaymentsModule } from './application/payments/payments.module';
 
     // Feature modules
     UserModule,
+    WarehousesModule,
     ProductModule,
+    TaxModule,
+    ShippingModule,
+    PromotionsModule,
+    StoreCreditModule,
     OrderModule,
+    InventoryModule,
     PaymentsModule,
+    CartModule,
+    GuestCheckoutModule,
+    ShipmentsModule,
+    ReturnsModule,
+    InvoicesModule,
   ],
   controllers: [AppController],
   providers: [AppService],
@@ -3,6 +3,7 @@ import {
   Post,
   Get,
   Body,
+  Headers,
   UseGuards,
   HttpCode,
   HttpStatus,
@@ -14,6 +15,7 @@ import {
   ApiResponse,
   ApiBearerAuth,
   ApiBody,
+  ApiHeader,
 } from '@nestjs/swagger';
 
 import { AuthService } from './auth.service';
@@ -21,6 +23,7 @@ import { LoginDto, RegisterDto, AuthResponseDto } from './dto';
 import { JwtAuthGuard } from './guards/jwt-auth.guard';
 import { GetUser } from './decorators/get-user.decorator';
 import { User } from '../../domain/entities/user.entity';
+import { CART_TOKEN_HEADER } from '../cart/cart-token.service';
 
 /**
  * AuthController - Controlador de autenticación
@@ -44,6 +47,12 @@ export class AuthController {
       'Crea una nueva cuenta de usuario en el sistema con validaciones de seguridad',
   })
   @ApiBody({ type: RegisterDto })
+  @ApiHeader({
+    name: CART_TOKEN_HEADER,
+    required: false,
+    description:
+      'Cart token del carrito de invitado; sus productos se combinan con el carrito del usuario',
+  })
   @ApiResponse({
     status: 201,
     description: 'Usuario registrado exitosamente',
@@ -57,8 +66,11 @@ export class AuthController {
     status: 400,
     description: 'Datos de entrada inválidos',
   })
-  async register(@Body() registerDto: RegisterDto): Promise<AuthResponseDto> {
-    return this.authService.register(registerDto);
+  async register(
+    @Body() registerDto: RegisterDto,
+    @Headers(CART_TOKEN_HEADER) cartToken?: string,
+  ): Promise<AuthResponseDto> {
+    return this.authService.register(registerDto, cartToken);
   }
 
   /**
@@ -73,6 +85,12 @@ export class AuthController {
       'Autentica un usuario con email y contraseña, retorna JWT token',
   })
   @ApiBody({ type: LoginDto })
+  @ApiHeader({
+    name: CART_TOKEN_HEADER,
+    required: false,
+    description:
+      'Cart token del carrito de invitado; sus productos se combinan con el carrito del usuario',
+  })
   @ApiResponse({
     status: 200,
     description: 'Autenticación exitosa',
@@ -86,8 +104,11 @@ export class AuthController {
     status: 400,
     description: 'Datos de entrada inválidos',
   })
-  async login(@Body() loginDto: LoginDto): Promise<AuthResponseDto> {
-    return this.authService.login(loginDto);
+  async login(
+    @Body() loginDto: LoginDto,
+    @Headers(CART_TOKEN_HEADER) cartToken?: string,
+  ): Promise<AuthResponseDto> {
+    return this.authService.login(loginDto, cartToken);
   }
 
   /**
@@ -9,6 +9,7 @@ import { AuthService } from './auth.service';
 import { AuthController } from './auth.controller';
 import { LocalStrategy } from './strategies/local.strategy';
 import { JwtStrategy } from './strategies/jwt.strategy';
+import { CartModule } from '../cart/cart.module';
 
 /**
  * AuthModule - Módulo de autenticación y autorización
@@ -41,6 +42,9 @@ import { JwtStrategy } from './strategies/jwt.strategy';
 
     // TypeORM para acceso a datos de usuarios
     TypeOrmModule.forFeature([User]),
+
+    // Carrito de invitado que se combina al iniciar sesión
+    CartModule,
   ],
   controllers: [AuthController],
   providers: [AuthService, LocalStrategy, JwtStrategy],
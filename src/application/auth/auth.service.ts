@@ -1,5 +1,6 @@
 import {
   Injectable,
+  Logger,
   UnauthorizedException,
   ConflictException,
   BadRequestException,
@@ -12,6 +13,7 @@ import * as bcrypt from 'bcryptjs';
 
 import { User, UserRole } from '../../domain/entities/user.entity';
 import { LoginDto, RegisterDto, AuthResponseDto, UserInfoDto } from './dto';
+import { CartService } from '../cart/cart.service';
 
 /**
  * AuthService - Servicio de autenticación y autorización
@@ -20,18 +22,25 @@ import { LoginDto, RegisterDto, AuthResponseDto, UserInfoDto } from './dto';
  */
 @Injectable()
 export class AuthService {
+  private readonly logger = new Logger(AuthService.name);
+
   constructor(
     @InjectRepository(User)
     private readonly userRepository: Repository<User>,
     private readonly jwtService: JwtService,
     private readonly configService: ConfigService,
+    private readonly cartService: CartService,
   ) {}
 
   /**
    * Registra un nuevo usuario en el sistema
    * Valida unicidad del email y hashea la contraseña de forma segura
+   * @param cartToken Cart token del carrito de invitado a combinar con el del usuario
    */
-  async register(registerDto: RegisterDto): Promise<AuthResponseDto> {
+  async register(
+    registerDto: RegisterDto,
+    cartToken?: string,
+  ): Promise<AuthResponseDto> {
     const { email, password, fullName, role } = registerDto;
 
     // Verificar si el usuario ya existe (OWASP A01: Broken Access Control)
@@ -56,6 +65,7 @@ export class AuthService {
     });
 
     const savedUser = await this.userRepository.save(newUser);
+    await this.mergeGuestCart(savedUser.id, cartToken);
 
     // Generar JWT token
     const token = await this.generateToken(savedUser);
@@ -66,8 +76,12 @@ export class AuthService {
   /**
    * Autentica un usuario con email y contraseña
    * Implementa protección contra ataques de fuerza bruta
+   * @param cartToken Cart token del carrito de invitado a combinar con el del usuario
    */
-  async login(loginDto: LoginDto): Promise<AuthResponseDto> {
+  async login(
+    loginDto: LoginDto,
+    cartToken?: string,
+  ): Promise<AuthResponseDto> {
     const { email, password } = loginDto;
 
     // Buscar usuario por email (incluir password para verificación)
@@ -88,6 +102,8 @@ export class AuthService {
       throw new UnauthorizedException('Credenciales inválidas');
     }
 
+    await this.mergeGuestCart(user.id, cartToken);
+
     // Generar JWT token
     const token = await this.generateToken(user);
 
@@ -196,4 +212,25 @@ export class AuthService {
   isAdmin(user: User): boolean {
     return user.role === UserRole.ADMIN;
   }
+
+  /**
+   * Combina el carrito de invitado con el del usuario
+   * Un fallo no impide iniciar sesión: el carrito de invitado sigue disponible
+   */
+  private async mergeGuestCart(
+    userId: string,
+    cartToken: string | undefined,
+  ): Promise<void> {
+    if (!cartToken) {
+      return;
+    }
+
+    try {
+      await this.cartService.mergeGuestCart(userId, cartToken);
+    } catch (error) {
+      this.logger.warn(
+        `No se pudo combinar el carrito de invitado del usuario ${userId}: ${error.message}`,
+      );
+    }
+  }
 }
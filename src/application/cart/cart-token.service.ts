@@ -0,0 +1,56 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { createHmac, timingSafeEqual } from 'crypto';
+
+export const CART_TOKEN_HEADER = 'x-cart-token';
+
+/**
+ * CartTokenService - Firma y verifica los cart tokens de los carritos de invitado
+ *
+ * El token es `<cartId>.<firma>`, con la firma HMAC-SHA256 del ID usando
+ * CART_TOKEN_SECRET (JWT_SECRET si no está definido). No es un JWT, así que
+ * JwtStrategy nunca lo acepta como token de acceso
+ */
+@Injectable()
+export class CartTokenService {
+  constructor(private readonly configService: ConfigService) {}
+
+  sign(cartId: string): string {
+    return `${cartId}.${this.signature(cartId)}`;
+  }
+
+  /**
+   * @returns ID del carrito o null si el token está mal formado o la firma no coincide
+   */
+  verify(token: string | undefined): string | null {
+    const [cartId, signature, ...rest] = token?.trim().split('.') ?? [];
+    if (!cartId || !signature || rest.length > 0 || !this.isValidUUID(cartId)) {
+      return null;
+    }
+
+    const expected = Buffer.from(this.signature(cartId));
+    const received = Buffer.from(signature);
+    if (
+      expected.length !== received.length ||
+      !timingSafeEqual(expected, received)
+    ) {
+      return null;
+    }
+    return cartId;
+  }
+
+  private signature(cartId: string): string {
+    const secret =
+      this.configService.get<string>('CART_TOKEN_SECRET') ||
+      this.configService.get<string>('JWT_SECRET');
+    return createHmac('sha256', secret)
+      .update(`cart:${cartId}`)
+      .digest('base64url');
+  }
+
+  private isValidUUID(uuid: string): boolean {
+    const uuidRegex =
+      /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+    return uuidRegex.test(uuid);
+  }
+}
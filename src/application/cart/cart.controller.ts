@@ -0,0 +1,218 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Patch,
+  Delete,
+  Body,
+  Param,
+  ParseIntPipe,
+  Request,
+  UseGuards,
+  UseInterceptors,
+  HttpCode,
+  HttpStatus,
+  ValidationPipe,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiHeader,
+  ApiParam,
+} from '@nestjs/swagger';
+import { CartService } from './cart.service';
+import {
+  AddCartItemDto,
+  CartCheckoutDto,
+  CartCheckoutResponseDto,
+  CartResponseDto,
+  UpdateCartItemDto,
+} from './dto/cart.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { UserRole } from '../../domain/entities/user.entity';
+import {
+  IDEMPOTENCY_KEY_HEADER,
+  IdempotencyInterceptor,
+} from '../../shared/idempotency/idempotency.interceptor';
+
+/**
+ * CartController - Carrito persistente del usuario autenticado
+ * Cada respuesta devuelve el carrito revalidado contra el catálogo
+ */
+@ApiTags('Carrito')
+@Controller('cart')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Roles(UserRole.ADMIN, UserRole.CLIENT)
+@ApiBearerAuth()
+export class CartController {
+  constructor(private readonly cartService: CartService) {}
+
+  /**
+   * Obtener mi carrito
+   */
+  @Get()
+  @ApiOperation({
+    summary: 'Obtener mi carrito',
+    description:
+      'Revalida precio y stock de cada línea e informa los cambios de precio desde la última lectura.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Carrito revalidado',
+    type: CartResponseDto,
+  })
+  async getCart(@Request() req: any): Promise<CartResponseDto> {
+    return this.cartService.getCart({ userId: req.user.sub });
+  }
+
+  /**
+   * Agregar producto al carrito
+   */
+  @Post('items')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Agregar producto al carrito',
+    description: 'Si el producto ya está en el carrito se suman las unidades.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Carrito actualizado',
+    type: CartResponseDto,
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Producto no encontrado',
+  })
+  @ApiResponse({
+    status: 422,
+    description: 'Stock insuficiente',
+  })
+  async addItem(
+    @Body(ValidationPipe) addCartItemDto: AddCartItemDto,
+    @Request() req: any,
+  ): Promise<CartResponseDto> {
+    return this.cartService.addItem({ userId: req.user.sub }, addCartItemDto);
+  }
+
+  /**
+   * Cambiar cantidad de una línea
+   */
+  @Patch('items/:productId')
+  @ApiOperation({ summary: 'Cambiar cantidad de una línea del carrito' })
+  @ApiParam({
+    name: 'productId',
+    type: 'number',
+    description: 'ID del producto',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Carrito actualizado',
+    type: CartResponseDto,
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'El producto no está en el carrito',
+  })
+  @ApiResponse({
+    status: 422,
+    description: 'Stock insuficiente',
+  })
+  async updateItem(
+    @Param('productId', ParseIntPipe) productId: number,
+    @Body(ValidationPipe) updateCartItemDto: UpdateCartItemDto,
+    @Request() req: any,
+  ): Promise<CartResponseDto> {
+    return this.cartService.updateItem(
+      { userId: req.user.sub },
+      productId,
+      updateCartItemDto,
+    );
+  }
+
+  /**
+   * Quitar producto del carrito
+   */
+  @Delete('items/:productId')
+  @ApiOperation({ summary: 'Quitar producto del carrito' })
+  @ApiParam({
+    name: 'productId',
+    type: 'number',
+    description: 'ID del producto',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Carrito actualizado',
+    type: CartResponseDto,
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'El producto no está en el carrito',
+  })
+  async removeItem(
+    @Param('productId', ParseIntPipe) productId: number,
+    @Request() req: any,
+  ): Promise<CartResponseDto> {
+    return this.cartService.removeItem({ userId: req.user.sub }, productId);
+  }
+
+  /**
+   * Vaciar carrito
+   */
+  @Delete()
+  @ApiOperation({ summary: 'Vaciar carrito' })
+  @ApiResponse({
+    status: 200,
+    description: 'Carrito vacío',
+    type: CartResponseDto,
+  })
+  async clear(@Request() req: any): Promise<CartResponseDto> {
+    return this.cartService.clear({ userId: req.user.sub });
+  }
+
+  /**
+   * Finalizar compra con el carrito
+   */
+  @Post('checkout')
+  @HttpCode(HttpStatus.CREATED)
+  @UseInterceptors(IdempotencyInterceptor)
+  @ApiOperation({
+    summary: 'Finalizar compra con el carrito',
+    description:
+      'mode=payment (por defecto) crea la sesión de pago; el carrito se vacía cuando el pago se confirma. mode=order crea la orden pendiente de pago y vacía el carrito.',
+  })
+  @ApiHeader({
+    name: IDEMPOTENCY_KEY_HEADER,
+    required: false,
+    description:
+      'Clave única por intento de compra. Un reintento con la misma clave devuelve el resultado original',
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Orden o sesión de pago creada',
+    type: CartCheckoutResponseDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Carrito vacío o datos de entrada inválidos',
+  })
+  @ApiResponse({
+    status: 409,
+    description:
+      'Algún precio cambió desde la última lectura (CART_PRICE_MISMATCH) o hay una petición en curso con el mismo Idempotency-Key',
+  })
+  @ApiResponse({
+    status: 422,
+    description:
+      'Productos sin stock o inexistentes (CART_ITEMS_UNAVAILABLE) o Idempotency-Key usado con otra petición',
+  })
+  async checkout(
+    @Body(ValidationPipe) cartCheckoutDto: CartCheckoutDto,
+    @Request() req: any,
+  ): Promise<CartCheckoutResponseDto> {
+    return this.cartService.checkout({ userId: req.user.sub }, cartCheckoutDto);
+  }
+}
@@ -0,0 +1,36 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { CartService } from './cart.service';
+import { CartController } from './cart.controller';
+import { GuestCartController } from './guest-cart.controller';
+import { CartTokenService } from './cart-token.service';
+import { GuestCartCleanupService } from './guest-cart-cleanup.service';
+import { ProductModule } from '../products/product.module';
+import { OrderModule } from '../orders/order.module';
+import { PaymentsModule } from '../payments/payments.module';
+import { InventoryModule } from '../inventory/inventory.module';
+import { Cart } from '../../domain/entities/cart.entity';
+import { CartItem } from '../../domain/entities/cart-item.entity';
+import { CartRepository } from '../../infrastructure/repositories/cart.repository';
+
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([Cart, CartItem]),
+    ProductModule,
+    OrderModule,
+    PaymentsModule,
+    InventoryModule,
+  ],
+  controllers: [CartController, GuestCartController],
+  providers: [
+    CartService,
+    CartTokenService,
+    GuestCartCleanupService,
+    {
+      provide: 'ICartRepository',
+      useClass: CartRepository,
+    },
+  ],
+  exports: [CartService],
+})
+export class CartModule {}
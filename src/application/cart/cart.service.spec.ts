@@ -0,0 +1,646 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import {
+  BadRequestException,
+  ConflictException,
+  NotFoundException,
+  UnprocessableEntityException,
+} from '@nestjs/common';
+import { CartService } from './cart.service';
+import { CartTokenService } from './cart-token.service';
+import {
+  CartCheckoutMode,
+  CartItemStatus,
+  CartMergeStrategy,
+} from './dto/cart.dto';
+import { OrderService } from '../orders/order.service';
+import { CheckoutService } from '../payments/checkout.service';
+import { InventoryService } from '../inventory/inventory.service';
+
+describe('CartService', () => {
+  let service: CartService;
+  let cartTokenService: CartTokenService;
+
+  const userId = '550e8400-e29b-41d4-a716-446655440001';
+  const cartId = '550e8400-e29b-41d4-a716-446655440070';
+  const guestCartId = '550e8400-e29b-41d4-a716-446655440071';
+  const owner = { userId };
+
+  const phone = {
+    id: 1,
+    name: 'Teléfono',
+    price: 1000,
+    stock: 10,
+    imageUrl: null,
+  };
+  const shirt = {
+    id: 2,
+    name: 'Camiseta',
+    price: 500,
+    stock: 1,
+    imageUrl: null,
+  };
+
+  const buildCart = (
+    items: Array<{
+      productId: number;
+      quantity: number;
+      unitPrice: number;
+      updatedAt?: Date;
+    }>,
+    overrides: { id?: string; userId?: string | null } = {},
+  ) => {
+    const id = overrides.id ?? cartId;
+    return {
+      id,
+      userId: overrides.userId === undefined ? userId : overrides.userId,
+      checkoutSessionId: null,
+      items: items.map((item) => ({ cartId: id, ...item })),
+    };
+  };
+
+  const mockCartRepository = {
+    findByUserId: jest.fn(),
+    findGuestCart: jest.fn(),
+    findOrCreateUserCart: jest.fn(),
+    createGuestCart: jest.fn(),
+    touchGuestCart: jest.fn(),
+    mergeGuestCart: jest.fn(),
+    setItem: jest.fn(),
+    removeItem: jest.fn(),
+    clear: jest.fn(),
+    updatePrices: jest.fn(),
+    linkCheckoutSession: jest.fn(),
+  };
+
+  const mockProductRepository = {
+    findById: jest.fn(),
+  };
+
+  const mockOrderService = {
+    create: jest.fn(),
+  };
+
+  const mockCheckoutService = {
+    createCheckoutSessionWithCart: jest.fn(),
+  };
+
+  // Sin reservas de otros dueños el disponible es el stock del producto
+  let reserved: Record<number, number>;
+  const mockInventoryService = {
+    getAvailableStock: jest.fn(async (productIds: number[]) => {
+      const available = new Map<number, number>();
+      for (const product of [phone, shirt]) {
+        if (productIds.includes(product.id)) {
+          available.set(
+            product.id,
+            product.stock - (reserved[product.id] ?? 0),
+          );
+        }
+      }
+      return available;
+    }),
+    reserveForCart: jest.fn(),
+    release: jest.fn(),
+  };
+
+  let config: Record<string, unknown>;
+  const mockConfigService = {
+    get: jest.fn((key: string, defaultValue?: unknown) =>
+      key in config ? config[key] : defaultValue,
+    ),
+  };
+
+  const checkoutDto = {
+    currency: 'usd',
+    successUrl: 'http://localhost:3000/success',
+    cancelUrl: 'http://localhost:3000/cancel',
+    deliveryAddress: 'Calle 123',
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        CartService,
+        { provide: 'ICartRepository', useValue: mockCartRepository },
+        { provide: 'IProductRepository', useValue: mockProductRepository },
+        { provide: OrderService, useValue: mockOrderService },
+        { provide: CheckoutService, useValue: mockCheckoutService },
+        { provide: InventoryService, useValue: mockInventoryService },
+        CartTokenService,
+        { provide: ConfigService, useValue: mockConfigService },
+      ],
+    }).compile();
+
+    service = module.get<CartService>(CartService);
+    cartTokenService = module.get<CartTokenService>(CartTokenService);
+
+    jest.clearAllMocks();
+
+    config = { CART_TOKEN_SECRET: 'cart-token-secret-for-tests-0123456789' };
+    reserved = {};
+
+    mockProductRepository.findById.mockImplementation(
+      async (id: number) => [phone, shirt].find((p) => p.id === id) ?? null,
+    );
+  });
+
+  describe('getCart', () => {
+    it('should report price changes and unavailable lines, then record the new prices as seen', async () => {
+      // Arrange
+      mockCartRepository.findByUserId.mockResolvedValue(
+        buildCart([
+          { productId: 1, quantity: 2, unitPrice: 900 },
+          { productId: 2, quantity: 3, unitPrice: 500 },
+          { productId: 99, quantity: 1, unitPrice: 700 },
+        ]),
+      );
+
+      // Act
+      const result = await service.getCart(owner);
+
+      // Assert
+      expect(result.items.map((item) => item.status)).toEqual([
+        CartItemStatus.PRICE_CHANGED,
+        CartItemStatus.INSUFFICIENT_STOCK,
+        CartItemStatus.UNAVAILABLE,
+      ]);
+      expect(result.items[0]).toEqual(
+        expect.objectContaining({
+          unitPriceInCents: 1000,
+          previousUnitPriceInCents: 900,
+          lineTotalInCents: 2000,
+        }),
+      );
+      expect(result.items[1].availableStock).toBe(1);
+      expect(result.subtotalInCents).toBe(3500);
+      expect(result.hasIssues).toBe(true);
+      expect(mockCartRepository.updatePrices).toHaveBeenCalledWith(cartId, [
+        { productId: 1, unitPrice: 1000 },
+      ]);
+    });
+
+    it('should return an empty cart for users without one', async () => {
+      // Arrange
+      mockCartRepository.findByUserId.mockResolvedValue(null);
+
+      // Act
+      const result = await service.getCart(owner);
+
+      // Assert
+      expect(result.items).toEqual([]);
+      expect(result.subtotal).toBe('0.00');
+      expect(result.hasIssues).toBe(false);
+      expect(mockCartRepository.updatePrices).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('addItem', () => {
+    it('should add units to the existing line at the current price', async () => {
+      // Arrange
+      mockCartRepository.findByUserId.mockResolvedValue(
+        buildCart([{ productId: 1, quantity: 2, unitPrice: 1000 }]),
+      );
+
+      // Act
+      await service.addItem(owner, { productId: 1, quantity: 3 });
+
+      // Assert
+      expect(mockCartRepository.setItem).toHaveBeenCalledWith(
+        cartId,
+        1,
+        5,
+        1000,
+      );
+    });
+
+    it('should reject quantities above the available stock', async () => {
+      // Arrange
+      mockCartRepository.findByUserId.mockResolvedValue(null);
+
+      // Act & Assert
+      await expect(
+        service.addItem(owner, { productId: 2, quantity: 2 }),
+      ).rejects.toThrow(UnprocessableEntityException);
+      expect(mockCartRepository.setItem).not.toHaveBeenCalled();
+    });
+
+    it('should throw NotFoundException for unknown products', async () => {
+      // Arrange
+      mockCartRepository.findByUserId.mockResolvedValue(null);
+
+      // Act & Assert
+      await expect(
+        service.addItem(owner, { productId: 99, quantity: 1 }),
+      ).rejects.toThrow(NotFoundException);
+    });
+  });
+
+  describe('updateItem', () => {
+    it('should throw NotFoundException when the product is not in the cart', async () => {
+      // Arrange
+      mockCartRepository.findByUserId.mockResolvedValue(buildCart([]));
+
+      // Act & Assert
+      await expect(
+        service.updateItem(owner, 1, { quantity: 2 }),
+      ).rejects.toThrow(NotFoundException);
+    });
+  });
+
+  describe('stock reservations', () => {
+    it('should not offer units reserved by other carts or checkout sessions', async () => {
+      // Arrange
+      reserved = { 1: 8 };
+      mockCartRepository.findByUserId.mockResolvedValue(
+        buildCart([{ productId: 1, quantity: 2, unitPrice: 1000 }]),
+      );
+
+      // Act & Assert
+      await expect(
+        service.addItem(owner, { productId: 1, quantity: 1 }),
+      ).rejects.toThrow(UnprocessableEntityException);
+      const result = await service.getCart(owner);
+
+      expect(mockInventoryService.getAvailableStock).toHaveBeenCalledWith(
+        [1],
+        [{ cartId }],
+      );
+      expect(result.items[0].availableStock).toBe(2);
+      expect(result.items[0].status).toBe(CartItemStatus.AVAILABLE);
+    });
+
+    it('should renew the reservation of the whole cart after each change', async () => {
+      // Arrange
+      mockCartRepository.findByUserId.mockResolvedValue(
+        buildCart([
+          { productId: 1, quantity: 2, unitPrice: 1000 },
+          { productId: 2, quantity: 1, unitPrice: 500 },
+        ]),
+      );
+
+      // Act
+      await service.updateItem(owner, 1, { quantity: 2 });
+
+      // Assert
+      expect(mockInventoryService.reserveForCart).toHaveBeenCalledWith(cartId, [
+        { productId: 1, quantity: 2 },
+        { productId: 2, quantity: 1 },
+      ]);
+    });
+
+    it('should stop reserving when a line is no longer available', async () => {
+      // Arrange
+      mockCartRepository.findByUserId.mockResolvedValue(
+        buildCart([{ productId: 1, quantity: 2, unitPrice: 1000 }]),
+      );
+      mockInventoryService.reserveForCart.mockRejectedValueOnce(
+        new UnprocessableEntityException(),
+      );
+
+      // Act
+      await service.addItem(owner, { productId: 1, quantity: 1 });
+
+      // Assert
+      expect(mockInventoryService.release).toHaveBeenCalledWith({ cartId });
+    });
+
+    it('should release the stock held by a previous checkout session of the cart', async () => {
+      // Arrange
+      mockCartRepository.findByUserId.mockResolvedValue({
+        ...buildCart([{ productId: 1, quantity: 2, unitPrice: 1000 }]),
+        checkoutSessionId: 'session-0',
+      });
+      mockCheckoutService.createCheckoutSessionWithCart.mockResolvedValue({
+        sessionId: 'session-1',
+        stripeUrl: 'https://stripe.test',
+      });
+
+      // Act
+      await service.checkout(owner, checkoutDto);
+
+      // Assert
+      expect(mockInventoryService.getAvailableStock).toHaveBeenCalledWith(
+        [1],
+        [{ cartId }, { checkoutSessionId: 'session-0' }],
+      );
+      expect(mockInventoryService.release).toHaveBeenCalledWith({
+        checkoutSessionId: 'session-0',
+      });
+    });
+  });
+
+  describe('guest carts', () => {
+    const guestCart = (
+      items: Array<{ productId: number; quantity: number; unitPrice: number }>,
+    ) => buildCart(items, { id: guestCartId, userId: null });
+
+    it('should create a guest cart on the first add and return its signed token', async () => {
+      // Arrange
+      mockCartRepository.createGuestCart.mockResolvedValue(guestCart([]));
+      mockCartRepository.findGuestCart.mockResolvedValue(
+        guestCart([{ productId: 1, quantity: 1, unitPrice: 1000 }]),
+      );
+
+      // Act
+      const result = await service.addItem({}, { productId: 1, quantity: 1 });
+
+      // Assert
+      expect(mockCartRepository.createGuestCart).toHaveBeenCalledWith(
+        expect.any(Date),
+      );
+      expect(mockCartRepository.setItem).toHaveBeenCalledWith(
+        guestCartId,
+        1,
+        1,
+        1000,
+      );
+      expect(result.userId).toBeNull();
+      expect(result.itemCount).toBe(1);
+      expect(cartTokenService.verify(result.cartToken)).toBe(guestCartId);
+    });
+
+    it('should extend the idle time of the guest cart on each use', async () => {
+      // Arrange
+      config.GUEST_CART_IDLE_HOURS = 2;
+      mockCartRepository.findGuestCart.mockResolvedValue(guestCart([]));
+      const before = Date.now();
+
+      // Act
+      await service.getCart({ cartToken: cartTokenService.sign(guestCartId) });
+
+      // Assert
+      const [id, expiresAt] = mockCartRepository.touchGuestCart.mock.calls[0];
+      expect(id).toBe(guestCartId);
+      expect(expiresAt.getTime()).toBeGreaterThanOrEqual(
+        before + 2 * 60 * 60 * 1000,
+      );
+    });
+
+    it('should throw NotFoundException for forged or expired cart tokens', async () => {
+      // Arrange
+      mockCartRepository.findGuestCart.mockResolvedValue(null);
+
+      // Act & Assert
+      await expect(
+        service.getCart({ cartToken: `${guestCartId}.forged` }),
+      ).rejects.toThrow(NotFoundException);
+      expect(mockCartRepository.findGuestCart).not.toHaveBeenCalled();
+
+      await expect(
+        service.addItem(
+          { cartToken: cartTokenService.sign(guestCartId) },
+          { productId: 1, quantity: 1 },
+        ),
+      ).rejects.toThrow(NotFoundException);
+      expect(mockCartRepository.createGuestCart).not.toHaveBeenCalled();
+      expect(mockCartRepository.setItem).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('mergeGuestCart', () => {
+    beforeEach(() => {
+      mockCartRepository.mergeGuestCart.mockResolvedValue(true);
+    });
+
+    it('should sum quantities, keep the user price and cap at stock', async () => {
+      // Arrange
+      mockCartRepository.findGuestCart.mockResolvedValue(
+        buildCart(
+          [
+            { productId: 1, quantity: 9, unitPrice: 900 },
+            { productId: 2, quantity: 3, unitPrice: 500 },
+            { productId: 99, quantity: 1, unitPrice: 700 },
+          ],
+          { id: guestCartId, userId: null },
+        ),
+      );
+      mockCartRepository.findOrCreateUserCart.mockResolvedValue(
+        buildCart([{ productId: 1, quantity: 2, unitPrice: 1000 }]),
+      );
+
+      // Act
+      await service.mergeGuestCart(userId, cartTokenService.sign(guestCartId));
+
+      // Assert
+      expect(mockCartRepository.mergeGuestCart).toHaveBeenCalledWith(
+        guestCartId,
+        cartId,
+        [
+          { productId: 1, quantity: 10, unitPrice: 1000 },
+          { productId: 2, quantity: 1, unitPrice: 500 },
+        ],
+      );
+    });
+
+    it('should cap at the stock not reserved by other carts or sessions', async () => {
+      // Arrange
+      reserved = { 1: 6 };
+      mockCartRepository.findGuestCart.mockResolvedValue(
+        buildCart([{ productId: 1, quantity: 5, unitPrice: 1000 }], {
+          id: guestCartId,
+          userId: null,
+        }),
+      );
+      mockCartRepository.findOrCreateUserCart.mockResolvedValue(
+        buildCart([{ productId: 1, quantity: 2, unitPrice: 1000 }]),
+      );
+
+      // Act
+      await service.mergeGuestCart(userId, cartTokenService.sign(guestCartId));
+
+      // Assert
+      expect(mockInventoryService.getAvailableStock).toHaveBeenCalledWith(
+        [1],
+        [{ cartId }, { cartId: guestCartId }],
+      );
+      expect(mockCartRepository.mergeGuestCart).toHaveBeenCalledWith(
+        guestCartId,
+        cartId,
+        [{ productId: 1, quantity: 4, unitPrice: 1000 }],
+      );
+    });
+
+    it('should keep the most recently modified line with the newest strategy', async () => {
+      // Arrange
+      config.CART_MERGE_STRATEGY = CartMergeStrategy.NEWEST;
+      config.CART_MERGE_CAP_AT_STOCK = false;
+      mockCartRepository.findGuestCart.mockResolvedValue(
+        buildCart(
+          [
+            {
+              productId: 1,
+              quantity: 5,
+              unitPrice: 1000,
+              updatedAt: new Date('2026-01-01'),
+            },
+            {
+              productId: 2,
+              quantity: 3,
+              unitPrice: 500,
+              updatedAt: new Date('2026-01-03'),
+            },
+          ],
+          { id: guestCartId, userId: null },
+        ),
+      );
+      mockCartRepository.findOrCreateUserCart.mockResolvedValue(
+        buildCart([
+          {
+            productId: 1,
+            quantity: 2,
+            unitPrice: 1000,
+            updatedAt: new Date('2026-01-02'),
+          },
+          {
+            productId: 2,
+            quantity: 1,
+            unitPrice: 500,
+            updatedAt: new Date('2026-01-01'),
+          },
+        ]),
+      );
+
+      // Act
+      await service.mergeGuestCart(userId, cartTokenService.sign(guestCartId));
+
+      // Assert
+      expect(mockCartRepository.mergeGuestCart).toHaveBeenCalledWith(
+        guestCartId,
+        cartId,
+        [{ productId: 2, quantity: 3, unitPrice: 500 }],
+      );
+    });
+
+    it('should ignore invalid cart tokens', async () => {
+      // Act
+      await service.mergeGuestCart(userId, 'not-a-cart-token');
+
+      // Assert
+      expect(mockCartRepository.findGuestCart).not.toHaveBeenCalled();
+      expect(mockCartRepository.findOrCreateUserCart).not.toHaveBeenCalled();
+      expect(mockCartRepository.mergeGuestCart).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('checkout', () => {
+    it('should open a payment session with the cart lines and link it to the cart', async () => {
+      // Arrange
+      mockCartRepository.findByUserId.mockResolvedValue(
+        buildCart([{ productId: 1, quantity: 2, unitPrice: 1000 }]),
+      );
+      mockCheckoutService.createCheckoutSessionWithCart.mockResolvedValue({
+        sessionId: 'session-1',
+        stripeUrl: 'https://stripe.test',
+      });
+
+      // Act
+      const result = await service.checkout(owner, checkoutDto);
+
+      // Assert
+      expect(
+        mockCheckoutService.createCheckoutSessionWithCart,
+      ).toHaveBeenCalledWith(
+        userId,
+        {
+          ...checkoutDto,
+          items: [{ productId: 1, quantity: 2, price: 1000 }],
+        },
+        undefined,
+        cartId,
+      );
+      expect(mockCartRepository.linkCheckoutSession).toHaveBeenCalledWith(
+        cartId,
+        'session-1',
+      );
+      expect(mockCartRepository.clear).not.toHaveBeenCalled();
+      expect(result).toEqual({
+        mode: CartCheckoutMode.PAYMENT,
+        sessionId: 'session-1',
+        stripeUrl: 'https://stripe.test',
+      });
+    });
+
+    it('should create the order and empty the cart in order mode', async () => {
+      // Arrange
+      mockCartRepository.findByUserId.mockResolvedValue(
+        buildCart([{ productId: 1, quantity: 2, unitPrice: 1000 }]),
+      );
+      mockOrderService.create.mockResolvedValue({ id: 'order-1' });
+
+      // Act
+      const result = await service.checkout(owner, {
+        mode: CartCheckoutMode.ORDER,
+        couponCode: 'VERANO10',
+      });
+
+      // Assert
+      expect(mockOrderService.create).toHaveBeenCalledWith(
+        userId,
+        {
+          couponCode: 'VERANO10',
+          items: [{ productId: 1, quantity: 2 }],
+        },
+        { guest: undefined, cartId },
+      );
+      expect(mockCartRepository.clear).toHaveBeenCalledWith(cartId);
+      expect(result).toEqual({
+        mode: CartCheckoutMode.ORDER,
+        order: { id: 'order-1' },
+      });
+    });
+
+    it('should reject prices the client has not seen and record them', async () => {
+      // Arrange
+      mockCartRepository.findByUserId.mockResolvedValue(
+        buildCart([{ productId: 1, quantity: 2, unitPrice: 900 }]),
+      );
+
+      // Act & Assert
+      const error = await service.checkout(owner, checkoutDto).catch((e) => e);
+
+      expect(error).toBeInstanceOf(ConflictException);
+      expect(error.getResponse()).toEqual(
+        expect.objectContaining({
+          code: 'CART_PRICE_MISMATCH',
+          changes: [
+            {
+              productId: 1,
+              clientPrice: 900,
+              currentPrice: 1000,
+              quantity: 2,
+            },
+          ],
+        }),
+      );
+      expect(mockCartRepository.updatePrices).toHaveBeenCalledWith(cartId, [
+        { productId: 1, unitPrice: 1000 },
+      ]);
+      expect(
+        mockCheckoutService.createCheckoutSessionWithCart,
+      ).not.toHaveBeenCalled();
+    });
+
+    it('should reject lines without stock', async () => {
+      // Arrange
+      mockCartRepository.findByUserId.mockResolvedValue(
+        buildCart([{ productId: 2, quantity: 3, unitPrice: 500 }]),
+      );
+
+      // Act & Assert
+      await expect(service.checkout(owner, checkoutDto)).rejects.toThrow(
+        UnprocessableEntityException,
+      );
+    });
+
+    it('should throw BadRequestException for an empty cart', async () => {
+      // Arrange
+      mockCartRepository.findByUserId.mockResolvedValue(buildCart([]));
+
+      // Act & Assert
+      await expect(service.checkout(owner, checkoutDto)).rejects.toThrow(
+        BadRequestException,
+      );
+    });
+  });
+});
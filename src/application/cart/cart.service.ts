@@ -0,0 +1,630 @@
+import {
+  Injectable,
+  Logger,
+  Inject,
+  NotFoundException,
+  BadRequestException,
+  ConflictException,
+  UnprocessableEntityException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { plainToClass } from 'class-transformer';
+import {
+  CartMergeLine,
+  ICartRepository,
+} from './interfaces/cart-repository.interface';
+import { IProductRepository } from '../products/interfaces/product-repository.interface';
+import { OrderService } from '../orders/order.service';
+import { OrderGuest } from '../orders/interfaces/order-repository.interface';
+import { CheckoutService } from '../payments/checkout.service';
+import { InventoryService } from '../inventory/inventory.service';
+import { ReservationOwner } from '../inventory/interfaces/inventory-reservation-repository.interface';
+import { CartTokenService } from './cart-token.service';
+import {
+  AddCartItemDto,
+  CartCheckoutDto,
+  CartCheckoutMode,
+  CartCheckoutResponseDto,
+  CartItemStatus,
+  CartMergeStrategy,
+  CartResponseDto,
+  UpdateCartItemDto,
+} from './dto/cart.dto';
+import { Cart } from '../../domain/entities/cart.entity';
+import { CartItem } from '../../domain/entities/cart-item.entity';
+import { Product } from '../../domain/entities/product.entity';
+
+/**
+ * Dueño del carrito: el usuario autenticado o el invitado que presenta su
+ * cart token (sin token todavía no tiene carrito)
+ */
+export type CartOwner = { userId: string } | { cartToken?: string };
+
+interface ValidatedCartLine {
+  item: CartItem;
+  product: Product | null;
+  price: number; // precio actual en centavos (el último visto si no existe)
+  available: number; // stock sin las reservas de otros carritos y sesiones
+  status: CartItemStatus;
+}
+
+/**
+ * CartService - Carrito persistente del usuario autenticado o de un invitado
+ *
+ * Cada lectura revalida las líneas contra Product (precio y stock disponible)
+ * e informa los cambios desde la lectura anterior. Con
+ * CART_RESERVATION_TTL_MINUTES cada modificación renueva la reserva de stock
+ * de todo el carrito. El checkout convierte el carrito en
+ * una orden o una sesión de pago con los mismos cálculos de POST /orders y
+ * POST /payments/checkout. Al iniciar sesión, el carrito de invitado se
+ * combina con el del usuario según CART_MERGE_STRATEGY
+ */
+@Injectable()
+export class CartService {
+  private readonly logger = new Logger(CartService.name);
+  private static readonly MAX_LINE_QUANTITY = 999;
+
+  constructor(
+    @Inject('ICartRepository')
+    private readonly cartRepository: ICartRepository,
+    @Inject('IProductRepository')
+    private readonly productRepository: IProductRepository,
+    private readonly orderService: OrderService,
+    private readonly checkoutService: CheckoutService,
+    private readonly inventoryService: InventoryService,
+    private readonly cartTokenService: CartTokenService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  /**
+   * Carrito revalidado; los precios informados quedan como vistos
+   * @throws NotFoundException si el cart token es inválido o el carrito expiró
+   */
+  async getCart(owner: CartOwner): Promise<CartResponseDto> {
+    return this.present(owner, await this.findCart(owner));
+  }
+
+  /**
+   * Agrega unidades de un producto (se suman a las existentes). Un invitado
+   * sin cart token recibe un carrito nuevo
+   * @throws NotFoundException si el producto no existe o el cart token es inválido
+   * @throws UnprocessableEntityException si no hay stock suficiente
+   */
+  async addItem(
+    owner: CartOwner,
+    dto: AddCartItemDto,
+  ): Promise<CartResponseDto> {
+    const cart = await this.findCart(owner);
+    const current =
+      cart?.items.find((item) => item.productId === dto.productId)?.quantity ??
+      0;
+
+    const saved = await this.saveItem(
+      owner,
+      cart,
+      dto.productId,
+      current + dto.quantity,
+    );
+    return this.present(owner, await this.hold(owner, saved));
+  }
+
+  /**
+   * Cambia la cantidad de una línea
+   * @throws NotFoundException si el producto no está en el carrito o ya no existe
+   * @throws UnprocessableEntityException si no hay stock suficiente
+   */
+  async updateItem(
+    owner: CartOwner,
+    productId: number,
+    dto: UpdateCartItemDto,
+  ): Promise<CartResponseDto> {
+    const cart = await this.findCart(owner);
+    if (!cart?.items.some((item) => item.productId === productId)) {
+      throw this.itemNotFound(productId);
+    }
+
+    await this.saveItem(owner, cart, productId, dto.quantity);
+    return this.present(owner, await this.hold(owner, cart));
+  }
+
+  /**
+   * Quita un producto del carrito
+   * @throws NotFoundException si el producto no está en el carrito
+   */
+  async removeItem(
+    owner: CartOwner,
+    productId: number,
+  ): Promise<CartResponseDto> {
+    const cart = await this.findCart(owner);
+    if (!cart || !(await this.cartRepository.removeItem(cart.id, productId))) {
+      throw this.itemNotFound(productId);
+    }
+    return this.present(owner, await this.hold(owner, cart));
+  }
+
+  /**
+   * Vacía el carrito
+   */
+  async clear(owner: CartOwner): Promise<CartResponseDto> {
+    const cart = await this.findCart(owner);
+    if (!cart) {
+      return this.present(owner, null);
+    }
+
+    await this.cartRepository.clear(cart.id);
+    await this.inventoryService.release({ cartId: cart.id });
+    return this.present(owner, await this.reload(owner, cart));
+  }
+
+  /**
+   * Combina el carrito de invitado con el del usuario que acaba de iniciar
+   * sesión y elimina el de invitado. Con CART_MERGE_STRATEGY=sum se suman las
+   * cantidades; con newest se conserva la línea modificada más recientemente.
+   * Con CART_MERGE_CAP_AT_STOCK el resultado se limita al stock disponible
+   * (sin reducir lo que el usuario ya tenía)
+   * Un token inválido o expirado se ignora: el inicio de sesión no depende del carrito
+   */
+  async mergeGuestCart(
+    userId: string,
+    cartToken: string | undefined,
+  ): Promise<void> {
+    const guestCartId = this.cartTokenService.verify(cartToken);
+    const guestCart = guestCartId
+      ? await this.cartRepository.findGuestCart(guestCartId)
+      : null;
+    if (!guestCart) {
+      if (cartToken) {
+        this.logger.debug(
+          `Cart token inválido o expirado al iniciar sesión el usuario ${userId}`,
+        );
+      }
+      return;
+    }
+
+    const userCart = await this.cartRepository.findOrCreateUserCart(userId);
+    const lines = await this.mergeLines(userCart, guestCart);
+    if (
+      await this.cartRepository.mergeGuestCart(guestCart.id, userCart.id, lines)
+    ) {
+      await this.inventoryService.release({ cartId: guestCart.id });
+      this.logger.log(
+        `Carrito de invitado ${guestCart.id} combinado con el carrito ${userCart.id} (${lines.length} líneas)`,
+      );
+    }
+  }
+
+  /**
+   * Convierte el carrito en una orden (mode=order) o en una sesión de pago
+   * (mode=payment, por defecto). La orden vacía el carrito al crearse; la
+   * sesión de pago, cuando el webhook la completa
+   * @param guest Comprador sin cuenta (obligatorio con un carrito de invitado)
+   * @throws BadRequestException si el carrito está vacío
+   * @throws NotFoundException si el cart token es inválido o el carrito expiró
+   * @throws UnprocessableEntityException si hay líneas sin stock o inexistentes
+   * @throws ConflictException si algún precio cambió desde la última lectura
+   */
+  async checkout(
+    owner: CartOwner,
+    dto: CartCheckoutDto,
+    guest?: OrderGuest,
+  ): Promise<CartCheckoutResponseDto> {
+    const userId = 'userId' in owner ? owner.userId : null;
+    if (!userId && !guest) {
+      throw new BadRequestException('Los datos del comprador son obligatorios');
+    }
+
+    const cart = await this.findCart(owner);
+    if (!cart || cart.items.length === 0) {
+      throw new BadRequestException('El carrito está vacío');
+    }
+
+    const lines = await this.validate(cart);
+    const unavailable = lines.filter(
+      (line) =>
+        line.status === CartItemStatus.UNAVAILABLE ||
+        line.status === CartItemStatus.INSUFFICIENT_STOCK,
+    );
+    if (unavailable.length > 0) {
+      throw new UnprocessableEntityException({
+        message: 'Algunos productos del carrito no están disponibles',
+        code: 'CART_ITEMS_UNAVAILABLE',
+        items: unavailable.map((line) => ({
+          productId: line.item.productId,
+          reason:
+            line.status === CartItemStatus.UNAVAILABLE
+              ? 'not_found'
+              : 'insufficient_stock',
+          available: line.available,
+          requested: line.item.quantity,
+        })),
+      });
+    }
+
+    // Nunca cobrar un precio que el cliente no vio: tras el 409 quedan como vistos
+    const changed = lines.filter(
+      (line) => line.status === CartItemStatus.PRICE_CHANGED,
+    );
+    if (changed.length > 0) {
+      await this.markPricesSeen(cart, lines);
+      throw new ConflictException({
+        message: 'Los precios del carrito han cambiado',
+        code: 'CART_PRICE_MISMATCH',
+        changes: changed.map((line) => ({
+          productId: line.item.productId,
+          clientPrice: line.item.unitPrice,
+          currentPrice: line.price,
+          quantity: line.item.quantity,
+        })),
+      });
+    }
+
+    const { mode, currency, successUrl, cancelUrl, ...orderData } = dto;
+    if (mode === CartCheckoutMode.ORDER) {
+      const order = await this.orderService.create(
+        userId,
+        {
+          ...orderData,
+          items: lines.map(({ item }) => ({
+            productId: item.productId,
+            quantity: item.quantity,
+          })),
+        },
+        { guest, cartId: cart.id },
+      );
+      await this.cartRepository.clear(cart.id);
+
+      this.logger.log(`Carrito ${cart.id} convertido en orden ${order.id}`);
+      return { mode: CartCheckoutMode.ORDER, order };
+    }
+
+    // Una sesión anterior del mismo carrito no debe competir por su stock
+    if (cart.checkoutSessionId) {
+      await this.inventoryService.release({
+        checkoutSessionId: cart.checkoutSessionId,
+      });
+    }
+    const session = await this.checkoutService.createCheckoutSessionWithCart(
+      userId,
+      {
+        ...orderData,
+        items: lines.map(({ item, price }) => ({
+          productId: item.productId,
+          quantity: item.quantity,
+          price,
+        })),
+        currency,
+        successUrl,
+        cancelUrl,
+      },
+      guest,
+      cart.id,
+    );
+    await this.cartRepository.linkCheckoutSession(cart.id, session.sessionId);
+
+    this.logger.log(
+      `Carrito ${cart.id} enviado a checkout session ${session.sessionId}`,
+    );
+    return { mode: CartCheckoutMode.PAYMENT, ...session };
+  }
+
+  /**
+   * Carrito del dueño; create=true crea el del usuario o uno de invitado si faltan
+   * Cada uso de un carrito de invitado extiende su vigencia
+   * @throws NotFoundException si el cart token es inválido o el carrito expiró
+   */
+  private async findCart(owner: CartOwner, create: true): Promise<Cart>;
+  private async findCart(owner: CartOwner): Promise<Cart | null>;
+  private async findCart(owner: CartOwner, create = false): Promise<Cart> {
+    if ('userId' in owner) {
+      return create
+        ? this.cartRepository.findOrCreateUserCart(owner.userId)
+        : this.cartRepository.findByUserId(owner.userId);
+    }
+
+    if (!owner.cartToken) {
+      return create
+        ? this.cartRepository.createGuestCart(this.guestCartExpiry())
+        : null;
+    }
+
+    const cartId = this.cartTokenService.verify(owner.cartToken);
+    const cart = cartId
+      ? await this.cartRepository.findGuestCart(cartId)
+      : null;
+    if (!cart) {
+      throw new NotFoundException(
+        'Carrito de invitado no encontrado o expirado',
+      );
+    }
+
+    await this.cartRepository.touchGuestCart(cart.id, this.guestCartExpiry());
+    return cart;
+  }
+
+  /**
+   * Vuelve a leer el carrito después de modificarlo
+   */
+  private async reload(owner: CartOwner, cart: Cart): Promise<Cart | null> {
+    return 'userId' in owner
+      ? this.cartRepository.findByUserId(owner.userId)
+      : this.cartRepository.findGuestCart(cart.id);
+  }
+
+  /**
+   * Vuelve a leer el carrito modificado y renueva su reserva de stock. Si
+   * alguna línea ya no tiene stock el carrito deja de reservar y la línea se
+   * informa como insufficient_stock
+   */
+  private async hold(owner: CartOwner, cart: Cart): Promise<Cart | null> {
+    const reloaded = await this.reload(owner, cart);
+    if (!reloaded) {
+      return reloaded;
+    }
+
+    try {
+      await this.inventoryService.reserveForCart(
+        reloaded.id,
+        reloaded.items.map(({ productId, quantity }) => ({
+          productId,
+          quantity,
+        })),
+      );
+    } catch (error) {
+      if (!(error instanceof UnprocessableEntityException)) {
+        throw error;
+      }
+      await this.inventoryService.release({ cartId: reloaded.id });
+    }
+    return reloaded;
+  }
+
+  /**
+   * Revalida el carrito, registra los precios como vistos y lo mapea
+   */
+  private async present(
+    owner: CartOwner,
+    cart: Cart | null,
+  ): Promise<CartResponseDto> {
+    const lines = await this.validate(cart);
+    await this.markPricesSeen(cart, lines);
+    return this.mapToCartDto(owner, cart, lines);
+  }
+
+  private guestCartExpiry(): Date {
+    const idleHours = this.configService.get<number>(
+      'GUEST_CART_IDLE_HOURS',
+      168,
+    );
+    return new Date(Date.now() + idleHours * 60 * 60 * 1000);
+  }
+
+  /**
+   * Guarda la cantidad final de una línea con el precio actual; el carrito se
+   * crea recién cuando la línea es válida
+   * @returns Carrito modificado
+   */
+  private async saveItem(
+    owner: CartOwner,
+    cart: Cart | null,
+    productId: number,
+    quantity: number,
+  ): Promise<Cart> {
+    const product = await this.productRepository.findById(productId);
+    if (!product) {
+      throw new NotFoundException(`Producto con ID ${productId} no encontrado`);
+    }
+
+    const available =
+      (
+        await this.inventoryService.getAvailableStock(
+          [productId],
+          this.ownReservations(cart),
+        )
+      ).get(productId) ?? 0;
+    if (available < quantity) {
+      throw new UnprocessableEntityException(
+        `Stock insuficiente para el producto ${productId}: disponible ${available}, solicitado ${quantity}`,
+      );
+    }
+
+    const target = cart ?? (await this.findCart(owner, true));
+    await this.cartRepository.setItem(
+      target.id,
+      productId,
+      quantity,
+      Math.round(product.price),
+    );
+    return target;
+  }
+
+  /**
+   * Resuelve los conflictos entre las líneas de invitado y las del usuario
+   * @returns Líneas del carrito del usuario que cambian con la combinación
+   */
+  private async mergeLines(
+    userCart: Cart,
+    guestCart: Cart,
+  ): Promise<CartMergeLine[]> {
+    const strategy = this.configService.get<CartMergeStrategy>(
+      'CART_MERGE_STRATEGY',
+      CartMergeStrategy.SUM,
+    );
+    const capAtStock =
+      String(this.configService.get('CART_MERGE_CAP_AT_STOCK', true)) !==
+      'false';
+
+    // Las reservas de ambos carritos no cuentan: las del usuario siguen con
+    // su carrito y las del invitado se liberan al combinarlo
+    const availableStock = capAtStock
+      ? await this.inventoryService.getAvailableStock(
+          guestCart.items.map((item) => item.productId),
+          [...this.ownReservations(userCart), { cartId: guestCart.id }],
+        )
+      : new Map<number, number>();
+
+    const lines: CartMergeLine[] = [];
+    for (const guestItem of guestCart.items) {
+      const userItem = userCart.items.find(
+        (item) => item.productId === guestItem.productId,
+      );
+      const product = await this.productRepository.findById(
+        guestItem.productId,
+      );
+      if (!product) {
+        continue;
+      }
+
+      let quantity = guestItem.quantity;
+      let unitPrice = guestItem.unitPrice;
+      if (userItem && strategy === CartMergeStrategy.NEWEST) {
+        if (userItem.updatedAt >= guestItem.updatedAt) {
+          continue;
+        }
+      } else if (userItem) {
+        quantity += userItem.quantity;
+        unitPrice = userItem.unitPrice;
+      }
+
+      if (capAtStock) {
+        quantity = Math.min(
+          quantity,
+          Math.max(
+            availableStock.get(product.id) ?? 0,
+            userItem?.quantity ?? 0,
+          ),
+        );
+      }
+      quantity = Math.min(quantity, CartService.MAX_LINE_QUANTITY);
+      if (
+        quantity < 1 ||
+        (userItem?.quantity === quantity && userItem.unitPrice === unitPrice)
+      ) {
+        continue;
+      }
+
+      lines.push({ productId: guestItem.productId, quantity, unitPrice });
+    }
+    return lines;
+  }
+
+  /**
+   * Compara cada línea con el precio y el stock disponible actuales del producto
+   */
+  private async validate(cart: Cart | null): Promise<ValidatedCartLine[]> {
+    const items = cart?.items ?? [];
+    const [products, availableStock] = await Promise.all([
+      Promise.all(
+        items.map((item) => this.productRepository.findById(item.productId)),
+      ),
+      this.inventoryService.getAvailableStock(
+        items.map((item) => item.productId),
+        this.ownReservations(cart),
+      ),
+    ]);
+
+    return items.map((item, index) => {
+      const product = products[index];
+      if (!product) {
+        return {
+          item,
+          product: null,
+          price: item.unitPrice,
+          available: 0,
+          status: CartItemStatus.UNAVAILABLE,
+        };
+      }
+
+      const price = Math.round(product.price);
+      const available = availableStock.get(product.id) ?? 0;
+      let status = CartItemStatus.AVAILABLE;
+      if (available < item.quantity) {
+        status = CartItemStatus.INSUFFICIENT_STOCK;
+      } else if (price !== item.unitPrice) {
+        status = CartItemStatus.PRICE_CHANGED;
+      }
+      return { item, product, price, available, status };
+    });
+  }
+
+  /**
+   * Reservas que no cuentan contra el carrito: las suyas y las de su sesión
+   * de pago abierta
+   */
+  private ownReservations(cart: Cart | null): ReservationOwner[] {
+    if (!cart) {
+      return [];
+    }
+    return [
+      { cartId: cart.id },
+      ...(cart.checkoutSessionId
+        ? [{ checkoutSessionId: cart.checkoutSessionId }]
+        : []),
+    ];
+  }
+
+  /**
+   * Registra como vistos los precios que cambiaron
+   */
+  private async markPricesSeen(
+    cart: Cart | null,
+    lines: ValidatedCartLine[],
+  ): Promise<void> {
+    const prices = lines
+      .filter((line) => line.product && line.price !== line.item.unitPrice)
+      .map((line) => ({
+        productId: line.item.productId,
+        unitPrice: line.price,
+      }));
+    if (cart && prices.length > 0) {
+      await this.cartRepository.updatePrices(cart.id, prices);
+    }
+  }
+
+  private itemNotFound(productId: number): NotFoundException {
+    return new NotFoundException(
+      `El producto ${productId} no está en el carrito`,
+    );
+  }
+
+  /**
+   * Mapea las líneas revalidadas a DTO de respuesta
+   */
+  private mapToCartDto(
+    owner: CartOwner,
+    cart: Cart | null,
+    lines: ValidatedCartLine[],
+  ): CartResponseDto {
+    const items = lines.map(({ item, product, price, available, status }) => ({
+      productId: item.productId,
+      productName: product?.name ?? null,
+      imageUrl: product?.imageUrl ?? null,
+      quantity: item.quantity,
+      unitPriceInCents: price,
+      previousUnitPriceInCents:
+        product && price !== item.unitPrice ? item.unitPrice : null,
+      lineTotalInCents: price * item.quantity,
+      availableStock: available,
+      status,
+    }));
+
+    return plainToClass(
+      CartResponseDto,
+      {
+        userId: 'userId' in owner ? owner.userId : null,
+        cartToken:
+          cart && !('userId' in owner)
+            ? this.cartTokenService.sign(cart.id)
+            : undefined,
+        items,
+        itemCount: items.reduce((sum, item) => sum + item.quantity, 0),
+        subtotalInCents: items
+          .filter((item) => item.status !== CartItemStatus.UNAVAILABLE)
+          .reduce((sum, item) => sum + item.lineTotalInCents, 0),
+        hasIssues: items.some(
+          (item) => item.status !== CartItemStatus.AVAILABLE,
+        ),
+      },
+      { excludeExtraneousValues: true },
+    );
+  }
+}
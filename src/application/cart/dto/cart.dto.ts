@@ -0,0 +1,228 @@
+import {
+  IsEnum,
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  Max,
+  MaxLength,
+  Min,
+  ValidateIf,
+} from 'class-validator';
+import { Expose, Transform, Type } from 'class-transformer';
+import { ApiProperty, ApiPropertyOptional, OmitType } from '@nestjs/swagger';
+import { CreateOrderDto } from '../../orders/dto/create-order.dto';
+import { OrderResponseDto } from '../../orders/dto/order-response.dto';
+
+export enum CartItemStatus {
+  AVAILABLE = 'available',
+  PRICE_CHANGED = 'price_changed', // el precio cambió desde la última lectura
+  INSUFFICIENT_STOCK = 'insufficient_stock',
+  UNAVAILABLE = 'unavailable', // el producto ya no existe
+}
+
+export enum CartMergeStrategy {
+  SUM = 'sum', // suma las cantidades del invitado y del usuario
+  NEWEST = 'newest', // conserva la línea modificada más recientemente
+}
+
+export enum CartCheckoutMode {
+  ORDER = 'order', // crea la orden pendiente de pago
+  PAYMENT = 'payment', // crea la sesión de pago; la orden la crea el webhook
+}
+
+export class AddCartItemDto {
+  @ApiProperty({ description: 'ID del producto', example: 1, minimum: 1 })
+  @IsInt({ message: 'El ID del producto debe ser un entero' })
+  @Min(1, { message: 'El ID del producto debe ser mayor a 0' })
+  productId: number;
+
+  @ApiProperty({
+    description:
+      'Unidades a agregar (se suman a las que ya estén en el carrito)',
+    example: 1,
+    minimum: 1,
+    maximum: 999,
+  })
+  @IsInt({ message: 'La cantidad debe ser un entero' })
+  @Min(1, { message: 'La cantidad debe ser mayor a 0' })
+  @Max(999, { message: 'La cantidad no puede exceder 999' })
+  quantity: number;
+}
+
+export class UpdateCartItemDto {
+  @ApiProperty({
+    description: 'Cantidad final de la línea',
+    example: 2,
+    minimum: 1,
+    maximum: 999,
+  })
+  @IsInt({ message: 'La cantidad debe ser un entero' })
+  @Min(1, { message: 'La cantidad debe ser mayor a 0' })
+  @Max(999, { message: 'La cantidad no puede exceder 999' })
+  quantity: number;
+}
+
+export class CartCheckoutDto extends OmitType(CreateOrderDto, [
+  'items',
+] as const) {
+  @ApiPropertyOptional({
+    description:
+      'order crea la orden pendiente de pago; payment crea la sesión de pago con el proveedor',
+    enum: CartCheckoutMode,
+    default: CartCheckoutMode.PAYMENT,
+  })
+  @IsOptional()
+  @IsEnum(CartCheckoutMode, { message: 'El modo debe ser order o payment' })
+  mode?: CartCheckoutMode;
+
+  @ApiPropertyOptional({
+    description: 'Moneda del cobro (obligatoria con mode=payment)',
+    example: 'usd',
+  })
+  @ValidateIf((dto) => dto.mode !== CartCheckoutMode.ORDER)
+  @IsNotEmpty({ message: 'La moneda es obligatoria' })
+  @IsString()
+  @MaxLength(3, { message: 'La moneda debe ser un código ISO de 3 letras' })
+  currency?: string;
+
+  @ApiPropertyOptional({
+    description: 'URL de retorno tras el pago (obligatoria con mode=payment)',
+    example: 'http://localhost:3000/success',
+  })
+  @ValidateIf((dto) => dto.mode !== CartCheckoutMode.ORDER)
+  @IsNotEmpty({ message: 'La URL de éxito es obligatoria' })
+  @IsString()
+  successUrl?: string;
+
+  @ApiPropertyOptional({
+    description:
+      'URL de retorno si se cancela el pago (obligatoria con mode=payment)',
+    example: 'http://localhost:3000/cancel',
+  })
+  @ValidateIf((dto) => dto.mode !== CartCheckoutMode.ORDER)
+  @IsNotEmpty({ message: 'La URL de cancelación es obligatoria' })
+  @IsString()
+  cancelUrl?: string;
+}
+
+export class CartItemResponseDto {
+  @ApiProperty({ description: 'ID del producto', example: 1 })
+  @Expose()
+  productId: number;
+
+  @ApiProperty({
+    description: 'Nombre del producto (null si ya no existe)',
+    example: 'iPhone 15 Pro Max',
+    nullable: true,
+  })
+  @Expose()
+  productName: string | null;
+
+  @ApiProperty({ nullable: true })
+  @Expose()
+  imageUrl: string | null;
+
+  @ApiProperty({ description: 'Cantidad en el carrito', example: 2 })
+  @Expose()
+  quantity: number;
+
+  @ApiProperty({
+    description: 'Precio unitario actual (formateado)',
+    example: '1299.99',
+  })
+  @Expose()
+  @Transform(({ obj }) => (obj.unitPriceInCents / 100).toFixed(2))
+  unitPrice: string;
+
+  @ApiProperty({ description: 'Precio unitario actual en centavos' })
+  @Expose()
+  unitPriceInCents: number;
+
+  @ApiProperty({
+    description:
+      'Precio que el cliente vio antes del cambio (solo si status=price_changed)',
+    nullable: true,
+  })
+  @Expose()
+  previousUnitPriceInCents: number | null;
+
+  @ApiProperty({ description: 'Precio actual por cantidad, en centavos' })
+  @Expose()
+  lineTotalInCents: number;
+
+  @ApiProperty({ description: 'Stock disponible', example: 10 })
+  @Expose()
+  availableStock: number;
+
+  @ApiProperty({ enum: CartItemStatus })
+  @Expose()
+  status: CartItemStatus;
+}
+
+export class CartResponseDto {
+  @ApiProperty({
+    description: 'Dueño del carrito (null en carritos de invitado)',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+    nullable: true,
+  })
+  @Expose()
+  userId: string | null;
+
+  @ApiPropertyOptional({
+    description:
+      'Cart token del carrito de invitado; enviarlo en X-Cart-Token en las siguientes peticiones y al iniciar sesión',
+  })
+  @Expose()
+  cartToken?: string;
+
+  @ApiProperty({ type: [CartItemResponseDto] })
+  @Expose()
+  @Type(() => CartItemResponseDto)
+  items: CartItemResponseDto[];
+
+  @ApiProperty({ description: 'Unidades en el carrito', example: 3 })
+  @Expose()
+  itemCount: number;
+
+  @ApiProperty({
+    description:
+      'Suma de las líneas disponibles a precio de catálogo, sin impuestos, envío ni descuentos (formateado)',
+    example: '2599.98',
+  })
+  @Expose()
+  @Transform(({ obj }) => (obj.subtotalInCents / 100).toFixed(2))
+  subtotal: string;
+
+  @ApiProperty({ example: 259998 })
+  @Expose()
+  subtotalInCents: number;
+
+  @ApiProperty({
+    description:
+      'Hay líneas sin stock o con cambios de precio desde la última lectura',
+  })
+  @Expose()
+  hasIssues: boolean;
+}
+
+export class CartCheckoutResponseDto {
+  @ApiProperty({ enum: CartCheckoutMode })
+  @Expose()
+  mode: CartCheckoutMode;
+
+  @ApiPropertyOptional({
+    description: 'Orden creada (mode=order)',
+    type: OrderResponseDto,
+  })
+  @Expose()
+  order?: OrderResponseDto;
+
+  @ApiPropertyOptional({ description: 'Sesión de pago (mode=payment)' })
+  @Expose()
+  sessionId?: string;
+
+  @ApiPropertyOptional({ description: 'URL de pago (mode=payment)' })
+  @Expose()
+  stripeUrl?: string;
+}
@@ -0,0 +1,31 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { ICartRepository } from './interfaces/cart-repository.interface';
+
+/**
+ * GuestCartCleanupService - Elimina periódicamente los carritos de invitado
+ * inactivos por más de GUEST_CART_IDLE_HOURS
+ */
+@Injectable()
+export class GuestCartCleanupService {
+  private readonly logger = new Logger(GuestCartCleanupService.name);
+
+  constructor(
+    @Inject('ICartRepository')
+    private readonly cartRepository: ICartRepository,
+  ) {}
+
+  /**
+   * @returns Cantidad de carritos eliminados
+   */
+  @Cron(CronExpression.EVERY_HOUR)
+  async purgeExpiredGuestCarts(): Promise<number> {
+    const purged = await this.cartRepository.deleteExpiredGuestCarts(
+      new Date(),
+    );
+    if (purged > 0) {
+      this.logger.log(`${purged} carritos de invitado expirados eliminados`);
+    }
+    return purged;
+  }
+}
@@ -0,0 +1,181 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Patch,
+  Delete,
+  Body,
+  Param,
+  Headers,
+  ParseIntPipe,
+  HttpCode,
+  HttpStatus,
+  ValidationPipe,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiHeader,
+  ApiParam,
+} from '@nestjs/swagger';
+import { CartService } from './cart.service';
+import { CART_TOKEN_HEADER } from './cart-token.service';
+import {
+  AddCartItemDto,
+  CartResponseDto,
+  UpdateCartItemDto,
+} from './dto/cart.dto';
+
+/**
+ * GuestCartController - Carrito de un visitante sin sesión
+ * El carrito se identifica con el cart token firmado que devuelve cada
+ * respuesta; al iniciar sesión o registrarse con ese token en X-Cart-Token se
+ * combina con el carrito del usuario
+ */
+@ApiTags('Carrito')
+@Controller('cart/guest')
+@ApiHeader({
+  name: CART_TOKEN_HEADER,
+  required: false,
+  description:
+    'Cart token devuelto por la primera respuesta (sin token aún no hay carrito)',
+})
+export class GuestCartController {
+  constructor(private readonly cartService: CartService) {}
+
+  /**
+   * Obtener carrito de invitado
+   */
+  @Get()
+  @ApiOperation({
+    summary: 'Obtener carrito de invitado',
+    description:
+      'Revalida precio y stock de cada línea. Sin cart token devuelve un carrito vacío.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Carrito revalidado',
+    type: CartResponseDto,
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Cart token inválido o carrito expirado',
+  })
+  async getCart(
+    @Headers(CART_TOKEN_HEADER) cartToken?: string,
+  ): Promise<CartResponseDto> {
+    return this.cartService.getCart({ cartToken });
+  }
+
+  /**
+   * Agregar producto al carrito de invitado
+   */
+  @Post('items')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Agregar producto al carrito de invitado',
+    description:
+      'Sin cart token crea el carrito y devuelve su token. Si el producto ya está en el carrito se suman las unidades.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Carrito actualizado',
+    type: CartResponseDto,
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Producto no encontrado o cart token inválido',
+  })
+  @ApiResponse({
+    status: 422,
+    description: 'Stock insuficiente',
+  })
+  async addItem(
+    @Body(ValidationPipe) addCartItemDto: AddCartItemDto,
+    @Headers(CART_TOKEN_HEADER) cartToken?: string,
+  ): Promise<CartResponseDto> {
+    return this.cartService.addItem({ cartToken }, addCartItemDto);
+  }
+
+  /**
+   * Cambiar cantidad de una línea
+   */
+  @Patch('items/:productId')
+  @ApiOperation({ summary: 'Cambiar cantidad de una línea del carrito' })
+  @ApiParam({
+    name: 'productId',
+    type: 'number',
+    description: 'ID del producto',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Carrito actualizado',
+    type: CartResponseDto,
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'El producto no está en el carrito o cart token inválido',
+  })
+  @ApiResponse({
+    status: 422,
+    description: 'Stock insuficiente',
+  })
+  async updateItem(
+    @Param('productId', ParseIntPipe) productId: number,
+    @Body(ValidationPipe) updateCartItemDto: UpdateCartItemDto,
+    @Headers(CART_TOKEN_HEADER) cartToken?: string,
+  ): Promise<CartResponseDto> {
+    return this.cartService.updateItem(
+      { cartToken },
+      productId,
+      updateCartItemDto,
+    );
+  }
+
+  /**
+   * Quitar producto del carrito de invitado
+   */
+  @Delete('items/:productId')
+  @ApiOperation({ summary: 'Quitar producto del carrito' })
+  @ApiParam({
+    name: 'productId',
+    type: 'number',
+    description: 'ID del producto',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Carrito actualizado',
+    type: CartResponseDto,
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'El producto no está en el carrito o cart token inválido',
+  })
+  async removeItem(
+    @Param('productId', ParseIntPipe) productId: number,
+    @Headers(CART_TOKEN_HEADER) cartToken?: string,
+  ): Promise<CartResponseDto> {
+    return this.cartService.removeItem({ cartToken }, productId);
+  }
+
+  /**
+   * Vaciar carrito de invitado
+   */
+  @Delete()
+  @ApiOperation({ summary: 'Vaciar carrito de invitado' })
+  @ApiResponse({
+    status: 200,
+    description: 'Carrito vacío',
+    type: CartResponseDto,
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Cart token inválido o carrito expirado',
+  })
+  async clear(
+    @Headers(CART_TOKEN_HEADER) cartToken?: string,
+  ): Promise<CartResponseDto> {
+    return this.cartService.clear({ cartToken });
+  }
+}
@@ -0,0 +1,103 @@
+import { Cart } from '../../../domain/entities/cart.entity';
+
+/**
+ * Precio visto por el cliente para una línea del carrito
+ */
+export interface CartItemPrice {
+  productId: number;
+  unitPrice: number; // en centavos
+}
+
+/**
+ * Línea resultante de combinar un carrito de invitado con el del usuario
+ */
+export interface CartMergeLine extends CartItemPrice {
+  quantity: number;
+}
+
+/**
+ * Abstracción del Repository Pattern para carritos (DIP)
+ * Modificar el carrito lo desvincula de la sesión de pago abierta, para que
+ * completarla no vacíe cambios posteriores
+ */
+export interface ICartRepository {
+  /**
+   * Carrito del usuario con sus líneas (las más antiguas primero)
+   * Si la sesión de pago abierta desde el carrito ya se completó, lo vacía antes
+   * @returns Promise<Cart | null> Carrito o null si el usuario nunca creó uno
+   */
+  findByUserId(userId: string): Promise<Cart | null>;
+
+  /**
+   * Carrito de invitado vigente con sus líneas
+   * @returns Promise<Cart | null> Carrito o null si no existe, expiró o ya
+   * pertenece a un usuario
+   */
+  findGuestCart(cartId: string): Promise<Cart | null>;
+
+  /**
+   * Carrito del usuario, creándolo vacío si todavía no existe
+   */
+  findOrCreateUserCart(userId: string): Promise<Cart>;
+
+  /**
+   * Crea un carrito de invitado vacío
+   * @param expiresAt Fin del período de inactividad
+   */
+  createGuestCart(expiresAt: Date): Promise<Cart>;
+
+  /**
+   * Extiende la vigencia de un carrito de invitado tras usarlo
+   */
+  touchGuestCart(cartId: string, expiresAt: Date): Promise<void>;
+
+  /**
+   * Crea o reemplaza una línea del carrito
+   * @param quantity Cantidad final de la línea
+   * @param unitPrice Precio actual del producto en centavos
+   */
+  setItem(
+    cartId: string,
+    productId: number,
+    quantity: number,
+    unitPrice: number,
+  ): Promise<void>;
+
+  /**
+   * @returns Promise<boolean> true si la línea existía
+   */
+  removeItem(cartId: string, productId: number): Promise<boolean>;
+
+  /**
+   * Elimina todas las líneas del carrito
+   */
+  clear(cartId: string): Promise<void>;
+
+  /**
+   * Registra los precios que el cliente acaba de ver
+   */
+  updatePrices(cartId: string, prices: CartItemPrice[]): Promise<void>;
+
+  /**
+   * Vincula el carrito a la sesión de pago creada a partir de él
+   */
+  linkCheckoutSession(cartId: string, checkoutSessionId: string): Promise<void>;
+
+  /**
+   * Escribe las líneas combinadas en el carrito del usuario y elimina el de
+   * invitado en una transacción
+   * @returns Promise<boolean> false si el carrito de invitado ya no existía
+   * (otro inicio de sesión lo combinó antes)
+   */
+  mergeGuestCart(
+    guestCartId: string,
+    userCartId: string,
+    lines: CartMergeLine[],
+  ): Promise<boolean>;
+
+  /**
+   * Elimina los carritos de invitado inactivos
+   * @returns Promise<number> Cantidad de carritos eliminados
+   */
+  deleteExpiredGuestCarts(now: Date): Promise<number>;
+}
@@ -0,0 +1,88 @@
+import {
+  IsEmail,
+  IsNotEmpty,
+  IsString,
+  MaxLength,
+  MinLength,
+} from 'class-validator';
+import { Expose, Transform } from 'class-transformer';
+import { ApiProperty, OmitType } from '@nestjs/swagger';
+import {
+  CartCheckoutDto,
+  CartCheckoutResponseDto,
+} from '../../cart/dto/cart.dto';
+
+/**
+ * Sin cuenta solo se compra pagando: la orden la crea el webhook del pago
+ */
+export class GuestCheckoutDto extends OmitType(CartCheckoutDto, [
+  'mode',
+  'couponCode',
+  'storeCreditAmount',
+  'deliveryAddress',
+] as const) {
+  @ApiProperty({
+    description:
+      'Email del comprador; al registrarse con el mismo email puede reclamar la orden',
+    example: 'juan.perez@example.com',
+    format: 'email',
+  })
+  @IsEmail({}, { message: 'El email debe tener un formato válido' })
+  @MaxLength(255, { message: 'El email no puede exceder 255 caracteres' })
+  @Transform(({ value }) => value?.trim().toLowerCase())
+  email: string;
+
+  @ApiProperty({
+    description: 'Nombre completo del comprador',
+    example: 'Juan Pérez',
+    maxLength: 100,
+  })
+  @IsString({ message: 'El nombre completo debe ser una cadena de texto' })
+  @MinLength(2, { message: 'El nombre debe tener al menos 2 caracteres' })
+  @MaxLength(100, { message: 'El nombre no puede exceder 100 caracteres' })
+  @Transform(({ value }) => value?.trim())
+  fullName: string;
+
+  @ApiProperty({
+    description: 'Dirección de entrega',
+    example: 'Calle 123 #45-67, Bogotá, Colombia',
+    maxLength: 500,
+  })
+  @IsNotEmpty({ message: 'La dirección de entrega es obligatoria' })
+  @IsString({ message: 'La dirección de entrega debe ser texto' })
+  @MaxLength(500, {
+    message: 'La dirección no debe exceder 500 caracteres',
+  })
+  deliveryAddress: string;
+}
+
+export class ClaimGuestOrdersDto {
+  @ApiProperty({
+    description: 'Order access token de la orden de invitado a reclamar',
+  })
+  @IsNotEmpty({ message: 'El order access token es obligatorio' })
+  @IsString({ message: 'El order access token debe ser texto' })
+  orderAccessToken: string;
+}
+
+export class GuestCheckoutResponseDto extends CartCheckoutResponseDto {
+  @ApiProperty({
+    description:
+      'Token para consultar la orden sin sesión (X-Order-Token). Solo se entrega una vez',
+  })
+  @Expose()
+  orderAccessToken: string;
+}
+
+export class ClaimGuestOrdersResponseDto {
+  @ApiProperty({ description: 'Comprador sin cuenta reclamado' })
+  @Expose()
+  guestCustomerId: string;
+
+  @ApiProperty({
+    description: 'Órdenes que pasaron a la cuenta (0 si ya era suya)',
+    example: 1,
+  })
+  @Expose()
+  claimedOrders: number;
+}
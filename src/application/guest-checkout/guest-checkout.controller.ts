@@ -0,0 +1,137 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Headers,
+  Request,
+  UseGuards,
+  HttpCode,
+  HttpStatus,
+  ValidationPipe,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiHeader,
+} from '@nestjs/swagger';
+import {
+  GuestCheckoutService,
+  ORDER_ACCESS_TOKEN_HEADER,
+} from './guest-checkout.service';
+import {
+  ClaimGuestOrdersDto,
+  ClaimGuestOrdersResponseDto,
+  GuestCheckoutDto,
+  GuestCheckoutResponseDto,
+} from './dto/guest-checkout.dto';
+import { OrderResponseDto } from '../orders/dto';
+import { CART_TOKEN_HEADER } from '../cart/cart-token.service';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+
+/**
+ * GuestCheckoutController - Compra sin cuenta y seguimiento con order access token
+ * Solo el reclamo de órdenes requiere sesión
+ */
+@ApiTags('Compra como invitado')
+@Controller('guest-checkout')
+export class GuestCheckoutController {
+  constructor(private readonly guestCheckoutService: GuestCheckoutService) {}
+
+  /**
+   * Comprar el carrito de invitado
+   */
+  @Post()
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Comprar el carrito de invitado',
+    description:
+      'Igual que POST /cart/checkout con mode=payment pero con los datos del comprador. No admite cupones, saldo a favor ni mode=order: la orden se crea al confirmarse el pago. Devuelve el order access token para consultar la orden.',
+  })
+  @ApiHeader({
+    name: CART_TOKEN_HEADER,
+    required: true,
+    description: 'Cart token del carrito de invitado',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Orden o sesión de pago creada',
+    type: GuestCheckoutResponseDto,
+  })
+  @ApiResponse({ status: 400, description: 'Carrito vacío o datos inválidos' })
+  @ApiResponse({
+    status: 404,
+    description: 'Cart token inválido o carrito expirado',
+  })
+  @ApiResponse({
+    status: 409,
+    description: 'Precios cambiados desde la última lectura',
+  })
+  @ApiResponse({ status: 422, description: 'Líneas sin stock o inexistentes' })
+  async checkout(
+    @Body(ValidationPipe) guestCheckoutDto: GuestCheckoutDto,
+    @Headers(CART_TOKEN_HEADER) cartToken?: string,
+  ): Promise<GuestCheckoutResponseDto> {
+    return this.guestCheckoutService.checkout(cartToken, guestCheckoutDto);
+  }
+
+  /**
+   * Consultar la orden de invitado
+   */
+  @Get('order')
+  @ApiOperation({
+    summary: 'Consultar la orden de invitado',
+    description:
+      'Devuelve la orden con su timeline. La orden aparece cuando se confirma el pago.',
+  })
+  @ApiHeader({
+    name: ORDER_ACCESS_TOKEN_HEADER,
+    required: true,
+    description: 'Order access token devuelto por la compra',
+  })
+  @ApiResponse({ status: 200, type: OrderResponseDto })
+  @ApiResponse({ status: 404, description: 'Orden no encontrada' })
+  async findOrder(
+    @Headers(ORDER_ACCESS_TOKEN_HEADER) orderAccessToken?: string,
+  ): Promise<OrderResponseDto> {
+    return this.guestCheckoutService.findOrder(orderAccessToken);
+  }
+
+  /**
+   * Reclamar órdenes de invitado
+   */
+  @Post('claim')
+  @HttpCode(HttpStatus.OK)
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'Reclamar órdenes de invitado',
+    description:
+      'Pasa a la cuenta la orden de invitado del order access token, si se hizo con el email de la cuenta. Cada orden se reclama con su propio token.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Órdenes reclamadas',
+    type: ClaimGuestOrdersResponseDto,
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'El email de la cuenta no es el de la compra',
+  })
+  @ApiResponse({ status: 404, description: 'Orden de invitado no encontrada' })
+  @ApiResponse({
+    status: 409,
+    description: 'Orden ya reclamada por otra cuenta',
+  })
+  async claim(
+    @Request() req: any,
+    @Body(ValidationPipe) claimGuestOrdersDto: ClaimGuestOrdersDto,
+  ): Promise<ClaimGuestOrdersResponseDto> {
+    return this.guestCheckoutService.claim(
+      req.user.sub,
+      claimGuestOrdersDto.orderAccessToken,
+    );
+  }
+}
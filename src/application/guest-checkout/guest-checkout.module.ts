@@ -0,0 +1,27 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { GuestCheckoutService } from './guest-checkout.service';
+import { GuestCheckoutController } from './guest-checkout.controller';
+import { CartModule } from '../cart/cart.module';
+import { OrderModule } from '../orders/order.module';
+import { UserModule } from '../users/user.module';
+import { GuestCustomer } from '../../domain/entities/guest-customer.entity';
+import { GuestCustomerRepository } from '../../infrastructure/repositories/guest-customer.repository';
+
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([GuestCustomer]),
+    CartModule,
+    OrderModule,
+    UserModule,
+  ],
+  controllers: [GuestCheckoutController],
+  providers: [
+    GuestCheckoutService,
+    {
+      provide: 'IGuestCustomerRepository',
+      useClass: GuestCustomerRepository,
+    },
+  ],
+})
+export class GuestCheckoutModule {}
@@ -0,0 +1,202 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import {
+  ConflictException,
+  ForbiddenException,
+  NotFoundException,
+} from '@nestjs/common';
+import { GuestCheckoutService } from './guest-checkout.service';
+import { CartService } from '../cart/cart.service';
+import { OrderService } from '../orders/order.service';
+import { CartCheckoutMode } from '../cart/dto/cart.dto';
+import { hashOrderAccessToken } from '../../domain/entities/order.entity';
+
+describe('GuestCheckoutService', () => {
+  let service: GuestCheckoutService;
+
+  const userId = '550e8400-e29b-41d4-a716-446655440001';
+  const guestCustomerId = '550e8400-e29b-41d4-a716-446655440080';
+  const guestCustomer = {
+    id: guestCustomerId,
+    email: 'juan.perez@example.com',
+    fullName: 'Juan Pérez',
+    claimedBy: null,
+  };
+
+  const mockGuestCustomerRepository = {
+    upsert: jest.fn(),
+    findByOrderAccessTokenHash: jest.fn(),
+    claim: jest.fn(),
+  };
+
+  const mockUserRepository = {
+    findById: jest.fn(),
+  };
+
+  const mockCartService = {
+    checkout: jest.fn(),
+  };
+
+  const mockOrderService = {
+    findByAccessToken: jest.fn(),
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        GuestCheckoutService,
+        {
+          provide: 'IGuestCustomerRepository',
+          useValue: mockGuestCustomerRepository,
+        },
+        { provide: 'IUserRepository', useValue: mockUserRepository },
+        { provide: CartService, useValue: mockCartService },
+        { provide: OrderService, useValue: mockOrderService },
+      ],
+    }).compile();
+
+    service = module.get<GuestCheckoutService>(GuestCheckoutService);
+
+    jest.clearAllMocks();
+  });
+
+  describe('checkout', () => {
+    it('should open a payment session for the guest customer and return the order access token', async () => {
+      // Arrange
+      mockGuestCustomerRepository.upsert.mockResolvedValue(guestCustomer);
+      mockCartService.checkout.mockResolvedValue({
+        mode: CartCheckoutMode.PAYMENT,
+        sessionId: 'session-1',
+        stripeUrl: 'https://stripe.test',
+      });
+
+      // Act
+      const result = await service.checkout('cart-token', {
+        currency: 'usd',
+        successUrl: 'http://localhost:3000/success',
+        cancelUrl: 'http://localhost:3000/cancel',
+        email: ' Juan.Perez@example.com',
+        fullName: 'Juan Pérez ',
+        deliveryAddress: 'Calle 123',
+      });
+
+      // Assert
+      expect(mockGuestCustomerRepository.upsert).toHaveBeenCalledWith(
+        'juan.perez@example.com',
+        'Juan Pérez',
+      );
+      expect(mockCartService.checkout).toHaveBeenCalledWith(
+        { cartToken: 'cart-token' },
+        {
+          mode: CartCheckoutMode.PAYMENT,
+          currency: 'usd',
+          successUrl: 'http://localhost:3000/success',
+          cancelUrl: 'http://localhost:3000/cancel',
+          deliveryAddress: 'Calle 123',
+        },
+        {
+          guestCustomerId,
+          accessTokenHash: hashOrderAccessToken(result.orderAccessToken),
+        },
+      );
+      expect(result).toEqual({
+        mode: CartCheckoutMode.PAYMENT,
+        sessionId: 'session-1',
+        stripeUrl: 'https://stripe.test',
+        orderAccessToken: expect.any(String),
+      });
+    });
+
+    it('should throw NotFoundException without a cart token', async () => {
+      // Act & Assert
+      await expect(
+        service.checkout(undefined, {
+          email: 'juan.perez@example.com',
+          fullName: 'Juan Pérez',
+          deliveryAddress: 'Calle 123',
+        }),
+      ).rejects.toThrow(NotFoundException);
+      expect(mockGuestCustomerRepository.upsert).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('claim', () => {
+    it('should move the order of the token to the user with the same email', async () => {
+      // Arrange
+      mockGuestCustomerRepository.findByOrderAccessTokenHash.mockResolvedValue(
+        guestCustomer,
+      );
+      mockUserRepository.findById.mockResolvedValue({
+        id: userId,
+        email: 'Juan.Perez@example.com',
+      });
+      mockGuestCustomerRepository.claim.mockResolvedValue({
+        claimed: true,
+        orders: 1,
+      });
+
+      // Act
+      const result = await service.claim(userId, 'order-token');
+
+      // Assert
+      expect(
+        mockGuestCustomerRepository.findByOrderAccessTokenHash,
+      ).toHaveBeenCalledWith(hashOrderAccessToken('order-token'));
+      expect(mockGuestCustomerRepository.claim).toHaveBeenCalledWith(
+        guestCustomerId,
+        hashOrderAccessToken('order-token'),
+        userId,
+      );
+      expect(result).toEqual({ guestCustomerId, claimedOrders: 1 });
+    });
+
+    it('should throw ForbiddenException when the account email differs', async () => {
+      // Arrange
+      mockGuestCustomerRepository.findByOrderAccessTokenHash.mockResolvedValue(
+        guestCustomer,
+      );
+      mockUserRepository.findById.mockResolvedValue({
+        id: userId,
+        email: 'otra.persona@example.com',
+      });
+
+      // Act & Assert
+      await expect(service.claim(userId, 'order-token')).rejects.toThrow(
+        ForbiddenException,
+      );
+      expect(mockGuestCustomerRepository.claim).not.toHaveBeenCalled();
+    });
+
+    it('should throw ConflictException when another account already claimed the order', async () => {
+      // Arrange
+      mockGuestCustomerRepository.findByOrderAccessTokenHash.mockResolvedValue(
+        guestCustomer,
+      );
+      mockUserRepository.findById.mockResolvedValue({
+        id: userId,
+        email: 'juan.perez@example.com',
+      });
+      mockGuestCustomerRepository.claim.mockResolvedValue({
+        claimed: false,
+        orders: 0,
+      });
+
+      // Act & Assert
+      await expect(service.claim(userId, 'order-token')).rejects.toThrow(
+        ConflictException,
+      );
+    });
+
+    it('should throw NotFoundException for unknown order access tokens', async () => {
+      // Arrange
+      mockGuestCustomerRepository.findByOrderAccessTokenHash.mockResolvedValue(
+        null,
+      );
+
+      // Act & Assert
+      await expect(service.claim(userId, 'order-token')).rejects.toThrow(
+        NotFoundException,
+      );
+      expect(mockUserRepository.findById).not.toHaveBeenCalled();
+    });
+  });
+});
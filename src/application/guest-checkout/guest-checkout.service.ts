@@ -0,0 +1,146 @@
+import {
+  Injectable,
+  Logger,
+  Inject,
+  NotFoundException,
+  ForbiddenException,
+  ConflictException,
+} from '@nestjs/common';
+import { randomBytes } from 'crypto';
+import { plainToClass } from 'class-transformer';
+import { IGuestCustomerRepository } from './interfaces/guest-customer-repository.interface';
+import { IUserRepository } from '../users/interfaces/user-repository.interface';
+import { CartService } from '../cart/cart.service';
+import { CartCheckoutMode } from '../cart/dto/cart.dto';
+import { OrderService } from '../orders/order.service';
+import { OrderResponseDto } from '../orders/dto';
+import {
+  ClaimGuestOrdersResponseDto,
+  GuestCheckoutDto,
+  GuestCheckoutResponseDto,
+} from './dto/guest-checkout.dto';
+import { hashOrderAccessToken } from '../../domain/entities/order.entity';
+
+export const ORDER_ACCESS_TOKEN_HEADER = 'x-order-token';
+
+/**
+ * GuestCheckoutService - Compra sin cuenta a partir del carrito de invitado
+ *
+ * El comprador queda registrado como GuestCustomer (uno por email) y recibe
+ * un order access token para consultar la orden sin sesión. Solo se guarda su
+ * hash, así que el token se entrega una única vez. Un usuario registrado con
+ * el mismo email reclama cada orden presentando su token
+ */
+@Injectable()
+export class GuestCheckoutService {
+  private readonly logger = new Logger(GuestCheckoutService.name);
+
+  constructor(
+    @Inject('IGuestCustomerRepository')
+    private readonly guestCustomerRepository: IGuestCustomerRepository,
+    @Inject('IUserRepository')
+    private readonly userRepository: IUserRepository,
+    private readonly cartService: CartService,
+    private readonly orderService: OrderService,
+  ) {}
+
+  /**
+   * Convierte el carrito de invitado en una sesión de pago a nombre del
+   * comprador (ver CartService.checkout); la orden se crea al pagar
+   * @throws NotFoundException si el cart token es inválido o el carrito expiró
+   * @throws BadRequestException si el carrito está vacío
+   * @throws UnprocessableEntityException si hay líneas sin stock o inexistentes
+   * @throws ConflictException si algún precio cambió desde la última lectura
+   */
+  async checkout(
+    cartToken: string | undefined,
+    dto: GuestCheckoutDto,
+  ): Promise<GuestCheckoutResponseDto> {
+    if (!cartToken) {
+      throw new NotFoundException(
+        'Carrito de invitado no encontrado o expirado',
+      );
+    }
+
+    const { email, fullName, ...checkoutData } = dto;
+    const guestCustomer = await this.guestCustomerRepository.upsert(
+      email.trim().toLowerCase(),
+      fullName.trim(),
+    );
+    const orderAccessToken = randomBytes(32).toString('base64url');
+
+    const result = await this.cartService.checkout(
+      { cartToken },
+      { ...checkoutData, mode: CartCheckoutMode.PAYMENT },
+      {
+        guestCustomerId: guestCustomer.id,
+        accessTokenHash: hashOrderAccessToken(orderAccessToken),
+      },
+    );
+
+    this.logger.log(
+      `Compra de invitado ${guestCustomer.id} (sesión ${result.sessionId})`,
+    );
+    return { ...result, orderAccessToken };
+  }
+
+  /**
+   * Orden de invitado con su timeline, consultada con el order access token
+   * Con mode=payment la orden existe recién cuando el pago se confirma
+   * @throws NotFoundException si el token no corresponde a ninguna orden
+   */
+  async findOrder(
+    orderAccessToken: string | undefined,
+  ): Promise<OrderResponseDto> {
+    return this.orderService.findByAccessToken(orderAccessToken ?? '');
+  }
+
+  /**
+   * Pasa a la cuenta del usuario la orden de invitado de ese order access
+   * token, si se hizo con su email. El token solo demuestra la autoría de su
+   * propia orden: las demás compras con el mismo email se reclaman con el suyo
+   * @throws NotFoundException si el token no corresponde a ninguna orden de invitado
+   * @throws ForbiddenException si el email de la cuenta no es el de la compra
+   * @throws ConflictException si otro usuario ya reclamó la orden
+   */
+  async claim(
+    userId: string,
+    orderAccessToken: string,
+  ): Promise<ClaimGuestOrdersResponseDto> {
+    const accessTokenHash = hashOrderAccessToken(orderAccessToken.trim());
+    const guestCustomer =
+      await this.guestCustomerRepository.findByOrderAccessTokenHash(
+        accessTokenHash,
+      );
+    if (!guestCustomer) {
+      throw new NotFoundException('Orden de invitado no encontrada');
+    }
+
+    const user = await this.userRepository.findById(userId);
+    if (!user || user.email.toLowerCase() !== guestCustomer.email) {
+      throw new ForbiddenException(
+        'El email de la cuenta no coincide con el de la compra',
+      );
+    }
+
+    const result = await this.guestCustomerRepository.claim(
+      guestCustomer.id,
+      accessTokenHash,
+      userId,
+    );
+    if (!result.claimed) {
+      throw new ConflictException(
+        'La orden de invitado ya fue reclamada por otra cuenta',
+      );
+    }
+
+    this.logger.log(
+      `Usuario ${userId} reclamó ${result.orders} orden(es) del invitado ${guestCustomer.id}`,
+    );
+    return plainToClass(
+      ClaimGuestOrdersResponseDto,
+      { guestCustomerId: guestCustomer.id, claimedOrders: result.orders },
+      { excludeExtraneousValues: true },
+    );
+  }
+}
@@ -0,0 +1,43 @@
+import { GuestCustomer } from '../../../domain/entities/guest-customer.entity';
+
+/**
+ * Resultado de reclamar una orden de invitado
+ * - claimed: false si otro usuario ya la había reclamado
+ * - orders: órdenes que pasaron al usuario (0 si ya era suya)
+ */
+export interface GuestClaimResult {
+  claimed: boolean;
+  orders: number;
+}
+
+/**
+ * Abstracción del Repository Pattern para compradores sin cuenta (DIP)
+ */
+export interface IGuestCustomerRepository {
+  /**
+   * Comprador con ese email, creándolo si no existe; conserva el nombre con
+   * el que se creó (nadie puede cambiarlo solo con conocer el email)
+   * @param email Email normalizado en minúsculas
+   */
+  upsert(email: string, fullName: string): Promise<GuestCustomer>;
+
+  /**
+   * Comprador de la orden con ese order access token
+   * @param accessTokenHash SHA-256 del token (ver hashOrderAccessToken)
+   * @returns Promise<GuestCustomer | null> Comprador o null si el token no
+   * corresponde a una orden de invitado
+   */
+  findByOrderAccessTokenHash(
+    accessTokenHash: string,
+  ): Promise<GuestCustomer | null>;
+
+  /**
+   * Asigna al usuario, en una transacción, la orden del invitado con ese
+   * order access token (el token solo demuestra la autoría de su orden)
+   */
+  claim(
+    guestCustomerId: string,
+    accessTokenHash: string,
+    userId: string,
+  ): Promise<GuestClaimResult>;
+}
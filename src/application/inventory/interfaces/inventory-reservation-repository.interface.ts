@@ -0,0 +1,66 @@
+/**
+ * Dueño de una reserva de inventario: una checkout session o un carrito
+ */
+export type ReservationOwner =
+  | { checkoutSessionId: string }
+  | { cartId: string };
+
+/**
+ * Unidades a reservar de un producto
+ */
+export interface ReservationLine {
+  productId: number;
+  quantity: number;
+}
+
+/**
+ * Línea que no se pudo reservar
+ * - available: stock menos las reservas activas de otros dueños (0 si el producto no existe)
+ */
+export interface ReservationShortfall extends ReservationLine {
+  available: number;
+}
+
+/**
+ * Abstracción del Repository Pattern para reservas de inventario (DIP)
+ * Una reserva está activa mientras su estado es active y no venció
+ */
+export interface IInventoryReservationRepository {
+  /**
+   * Reemplaza las reservas activas del dueño por las líneas indicadas, con
+   * los productos bloqueados para que dos dueños no aparten la misma unidad
+   * @param transferFrom Dueño cuyas reservas se liberan en la misma
+   * transacción (el carrito que pasa a una checkout session)
+   * @returns Promise<ReservationShortfall[]> Líneas sin stock suficiente; si
+   * hay alguna no se reserva nada y las reservas previas se conservan
+   */
+  reserve(
+    owner: ReservationOwner,
+    lines: ReservationLine[],
+    expiresAt: Date,
+    transferFrom?: ReservationOwner,
+  ): Promise<ReservationShortfall[]>;
+
+  /**
+   * Libera las reservas activas del dueño
+   * @returns Promise<number> Reservas liberadas
+   */
+  release(owner: ReservationOwner): Promise<number>;
+
+  /**
+   * Stock disponible por producto: stock menos las reservas activas
+   * @param exclude Dueños cuyas reservas no se descuentan (las propias)
+   * @returns Promise<Map<number, number>> Disponible por ID (los productos
+   * inexistentes no aparecen)
+   */
+  findAvailableStock(
+    productIds: number[],
+    exclude?: ReservationOwner[],
+  ): Promise<Map<number, number>>;
+
+  /**
+   * Marca como expiradas las reservas activas vencidas
+   * @returns Promise<number> Reservas expiradas
+   */
+  expireOverdue(now: Date): Promise<number>;
+}
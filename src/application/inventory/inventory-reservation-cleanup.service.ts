@@ -0,0 +1,29 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { IInventoryReservationRepository } from './interfaces/inventory-reservation-repository.interface';
+
+/**
+ * InventoryReservationCleanupService - Marca como expiradas las reservas
+ * vencidas (el stock disponible ya no las descuenta desde su vencimiento)
+ */
+@Injectable()
+export class InventoryReservationCleanupService {
+  private readonly logger = new Logger(InventoryReservationCleanupService.name);
+
+  constructor(
+    @Inject('IInventoryReservationRepository')
+    private readonly reservationRepository: IInventoryReservationRepository,
+  ) {}
+
+  /**
+   * @returns Cantidad de reservas expiradas
+   */
+  @Cron(CronExpression.EVERY_10_MINUTES)
+  async expireOverdueReservations(): Promise<number> {
+    const expired = await this.reservationRepository.expireOverdue(new Date());
+    if (expired > 0) {
+      this.logger.log(`${expired} reservas de inventario expiradas`);
+    }
+    return expired;
+  }
+}
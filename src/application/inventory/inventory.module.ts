@@ -0,0 +1,20 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { InventoryService } from './inventory.service';
+import { InventoryReservationCleanupService } from './inventory-reservation-cleanup.service';
+import { InventoryReservation } from '../../domain/entities/inventory-reservation.entity';
+import { InventoryReservationRepository } from '../../infrastructure/repositories/inventory-reservation.repository';
+
+@Module({
+  imports: [TypeOrmModule.forFeature([InventoryReservation])],
+  providers: [
+    InventoryService,
+    InventoryReservationCleanupService,
+    {
+      provide: 'IInventoryReservationRepository',
+      useClass: InventoryReservationRepository,
+    },
+  ],
+  exports: [InventoryService],
+})
+export class InventoryModule {}
@@ -0,0 +1,122 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { UnprocessableEntityException } from '@nestjs/common';
+import { InventoryService } from './inventory.service';
+
+describe('InventoryService', () => {
+  let service: InventoryService;
+
+  const checkoutSessionId = '550e8400-e29b-41d4-a716-446655440010';
+  const cartId = '550e8400-e29b-41d4-a716-446655440070';
+  const lines = [{ productId: 1, quantity: 2 }];
+
+  const mockReservationRepository = {
+    reserve: jest.fn(),
+    release: jest.fn(),
+    findAvailableStock: jest.fn(),
+    expireOverdue: jest.fn(),
+  };
+
+  let config: Record<string, unknown>;
+  const mockConfigService = {
+    get: jest.fn((key: string, defaultValue?: unknown) =>
+      key in config ? config[key] : defaultValue,
+    ),
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        InventoryService,
+        {
+          provide: 'IInventoryReservationRepository',
+          useValue: mockReservationRepository,
+        },
+        { provide: ConfigService, useValue: mockConfigService },
+      ],
+    }).compile();
+
+    service = module.get<InventoryService>(InventoryService);
+
+    jest.clearAllMocks();
+
+    config = {};
+    mockReservationRepository.reserve.mockResolvedValue([]);
+  });
+
+  describe('reserveForCheckout', () => {
+    it('should hold the lines until the session expires and take over the cart reservations', async () => {
+      // Arrange
+      const sessionExpiresAt = new Date(Date.now() + 60 * 60 * 1000);
+
+      // Act
+      await service.reserveForCheckout(
+        checkoutSessionId,
+        lines,
+        sessionExpiresAt,
+        cartId,
+      );
+
+      // Assert
+      expect(mockReservationRepository.reserve).toHaveBeenCalledWith(
+        { checkoutSessionId },
+        lines,
+        sessionExpiresAt,
+        { cartId },
+      );
+    });
+
+    it('should throw UnprocessableEntityException listing the lines without stock', async () => {
+      // Arrange
+      mockReservationRepository.reserve.mockResolvedValue([
+        { productId: 1, quantity: 2, available: 1 },
+      ]);
+
+      // Act & Assert
+      const error = await service
+        .reserveForCheckout(checkoutSessionId, lines, new Date())
+        .catch((e) => e);
+
+      expect(error).toBeInstanceOf(UnprocessableEntityException);
+      expect(error.getResponse()).toEqual(
+        expect.objectContaining({
+          code: 'CART_ITEMS_UNAVAILABLE',
+          items: [
+            {
+              productId: 1,
+              reason: 'insufficient_stock',
+              available: 1,
+              requested: 2,
+            },
+          ],
+        }),
+      );
+    });
+  });
+
+  describe('reserveForCart', () => {
+    it('should not reserve for carts unless CART_RESERVATION_TTL_MINUTES is set', async () => {
+      // Act
+      await service.reserveForCart(cartId, lines);
+
+      // Assert
+      expect(mockReservationRepository.reserve).not.toHaveBeenCalled();
+    });
+
+    it('should replace the cart reservations with its current lines', async () => {
+      // Arrange
+      config.CART_RESERVATION_TTL_MINUTES = 15;
+
+      // Act
+      await service.reserveForCart(cartId, lines);
+
+      // Assert
+      expect(mockReservationRepository.reserve).toHaveBeenCalledWith(
+        { cartId },
+        lines,
+        expect.any(Date),
+        undefined,
+      );
+    });
+  });
+});
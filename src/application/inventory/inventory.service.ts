@@ -0,0 +1,142 @@
+import {
+  Injectable,
+  Logger,
+  Inject,
+  UnprocessableEntityException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import {
+  IInventoryReservationRepository,
+  ReservationLine,
+  ReservationOwner,
+  ReservationShortfall,
+} from './interfaces/inventory-reservation-repository.interface';
+
+/**
+ * InventoryService - Reservas de stock mientras el cliente paga
+ *
+ * Una checkout session aparta sus unidades hasta su propio vencimiento (el
+ * mismo que recibe el proveedor de pagos) y un carrito, si
+ * CART_RESERVATION_TTL_MINUTES es mayor a 0, durante ese tiempo desde su
+ * última modificación. El stock disponible para los demás es el
+ * stock menos las reservas activas; la orden creada las consume y las
+ * sesiones canceladas o expiradas las liberan
+ */
+@Injectable()
+export class InventoryService {
+  private readonly logger = new Logger(InventoryService.name);
+
+  constructor(
+    @Inject('IInventoryReservationRepository')
+    private readonly reservationRepository: IInventoryReservationRepository,
+    private readonly configService: ConfigService,
+  ) {}
+
+  /**
+   * Reserva las líneas de una checkout session
+   * @param sessionExpiresAt Vencimiento de la sesión (y de la reserva)
+   * @param cartId Carrito del que sale la sesión: sus reservas pasan a la sesión
+   * @throws UnprocessableEntityException si alguna línea no tiene stock disponible
+   */
+  async reserveForCheckout(
+    checkoutSessionId: string,
+    lines: ReservationLine[],
+    sessionExpiresAt: Date,
+    cartId?: string,
+  ): Promise<void> {
+    await this.reserve(
+      { checkoutSessionId },
+      lines,
+      sessionExpiresAt,
+      cartId ? { cartId } : undefined,
+    );
+  }
+
+  /**
+   * Reemplaza las reservas del carrito por sus líneas actuales (no hace nada
+   * si CART_RESERVATION_TTL_MINUTES es 0)
+   * @throws UnprocessableEntityException si alguna línea no tiene stock disponible
+   */
+  async reserveForCart(
+    cartId: string,
+    lines: ReservationLine[],
+  ): Promise<void> {
+    const ttlMinutes = this.configService.get<number>(
+      'CART_RESERVATION_TTL_MINUTES',
+      0,
+    );
+    if (ttlMinutes <= 0) {
+      return;
+    }
+
+    await this.reserve(
+      { cartId },
+      lines,
+      new Date(Date.now() + ttlMinutes * 60 * 1000),
+    );
+  }
+
+  /**
+   * Libera las reservas activas de una checkout session o un carrito
+   */
+  async release(owner: ReservationOwner): Promise<void> {
+    const released = await this.reservationRepository.release(owner);
+    if (released > 0) {
+      this.logger.log(
+        `${released} reservas liberadas de ${this.describe(owner)}`,
+      );
+    }
+  }
+
+  /**
+   * Stock disponible por producto (stock menos reservas activas)
+   * @param exclude Dueños cuyas reservas no se descuentan (las propias)
+   */
+  async getAvailableStock(
+    productIds: number[],
+    exclude: ReservationOwner[] = [],
+  ): Promise<Map<number, number>> {
+    return this.reservationRepository.findAvailableStock(productIds, exclude);
+  }
+
+  /**
+   * @throws UnprocessableEntityException con las líneas sin stock disponible
+   */
+  private async reserve(
+    owner: ReservationOwner,
+    lines: ReservationLine[],
+    expiresAt: Date,
+    transferFrom?: ReservationOwner,
+  ): Promise<void> {
+    const shortfalls = await this.reservationRepository.reserve(
+      owner,
+      lines,
+      expiresAt,
+      transferFrom,
+    );
+    if (shortfalls.length > 0) {
+      throw this.insufficientStock(shortfalls);
+    }
+  }
+
+  private insufficientStock(
+    shortfalls: ReservationShortfall[],
+  ): UnprocessableEntityException {
+    return new UnprocessableEntityException({
+      message: 'Algunos productos del carrito no están disponibles',
+      code: 'CART_ITEMS_UNAVAILABLE',
+      items: shortfalls.map(({ productId, available, quantity }) => ({
+        productId,
+        reason: 'insufficient_stock',
+        available,
+        requested: quantity,
+      })),
+    });
+  }
+
+  private describe(owner: ReservationOwner): string {
+    return 'cartId' in owner
+      ? `carrito ${owner.cartId}`
+      : `checkout session ${owner.checkoutSessionId}`;
+  }
+}
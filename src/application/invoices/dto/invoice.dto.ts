@@ -0,0 +1,165 @@
+import { IsOptional, IsString, IsUUID, MaxLength } from 'class-validator';
+import { Expose, Type } from 'class-transformer';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { InvoiceType } from '../../../domain/entities/invoice.entity';
+
+export class CreateCreditNoteDto {
+  @ApiPropertyOptional({
+    description:
+      'Reembolso a acreditar. Sin reembolso se acredita el saldo de una orden cancelada',
+    example: '550e8400-e29b-41d4-a716-446655440000',
+  })
+  @IsOptional()
+  @IsUUID('4', { message: 'El ID del reembolso debe ser un UUID válido' })
+  refundId?: string;
+
+  @ApiPropertyOptional({
+    description: 'Motivo impreso en la nota de crédito',
+    example: 'Producto dañado en el transporte',
+    maxLength: 500,
+  })
+  @IsOptional()
+  @IsString({ message: 'El motivo debe ser texto' })
+  @MaxLength(500, { message: 'El motivo no debe exceder 500 caracteres' })
+  reason?: string;
+}
+
+export class InvoicePartyDto {
+  @ApiProperty({ description: 'ID del usuario' })
+  @Expose()
+  userId: string;
+
+  @ApiProperty({ description: 'Nombre completo', example: 'Juan Pérez' })
+  @Expose()
+  fullName: string;
+
+  @ApiProperty({ description: 'Email', example: 'juan@example.com' })
+  @Expose()
+  email: string;
+
+  @ApiProperty({
+    description: 'Dirección',
+    example: 'Calle 123 #45-67, Bogotá, Colombia',
+    nullable: true,
+  })
+  @Expose()
+  address: string | null;
+}
+
+export class InvoiceLineDto {
+  @ApiProperty({
+    description: 'ID del producto (null en líneas de ajuste)',
+    example: 1,
+    nullable: true,
+  })
+  @Expose()
+  productId: number | null;
+
+  @ApiProperty({ description: 'Descripción', example: 'iPhone 15 Pro' })
+  @Expose()
+  description: string;
+
+  @ApiProperty({ description: 'Cantidad', example: 2 })
+  @Expose()
+  quantity: number;
+
+  @ApiProperty({ description: 'Precio unitario en centavos', example: 129999 })
+  @Expose()
+  unitPrice: number;
+
+  @ApiProperty({ description: 'Neto en centavos', example: 259998 })
+  @Expose()
+  net: number;
+
+  @ApiProperty({ description: 'Impuesto en centavos', example: 0 })
+  @Expose()
+  tax: number;
+
+  @ApiProperty({
+    description: 'Total de la línea en centavos',
+    example: 259998,
+  })
+  @Expose()
+  gross: number;
+}
+
+export class InvoiceResponseDto {
+  @ApiProperty({ description: 'ID del documento' })
+  @Expose()
+  id: string;
+
+  @ApiProperty({ description: 'Tipo de documento', enum: InvoiceType })
+  @Expose()
+  type: InvoiceType;
+
+  @ApiProperty({
+    description: 'Número correlativo',
+    example: 'FAC-2026-000001',
+  })
+  @Expose()
+  number: string;
+
+  @ApiProperty({ description: 'ID de la orden' })
+  @Expose()
+  orderId: string;
+
+  @ApiProperty({
+    description: 'Número de la orden',
+    example: 'QC-2026-000123',
+    nullable: true,
+  })
+  @Expose()
+  orderNumber: string | null;
+
+  @ApiProperty({
+    description: 'Factura acreditada (solo notas de crédito)',
+    example: 'FAC-2026-000001',
+    nullable: true,
+  })
+  @Expose()
+  invoiceNumber: string | null;
+
+  @ApiProperty({
+    description: 'Reembolso acreditado (solo notas de crédito)',
+    nullable: true,
+  })
+  @Expose()
+  refundId: string | null;
+
+  @ApiProperty({ description: 'Motivo', nullable: true })
+  @Expose()
+  reason: string | null;
+
+  @ApiProperty({ description: 'Datos del comprador', type: InvoicePartyDto })
+  @Expose()
+  @Type(() => InvoicePartyDto)
+  buyer: InvoicePartyDto;
+
+  @ApiProperty({ description: 'Líneas', type: [InvoiceLineDto] })
+  @Expose()
+  @Type(() => InvoiceLineDto)
+  lines: InvoiceLineDto[];
+
+  @ApiProperty({ description: 'Subtotal neto en centavos', example: 259998 })
+  @Expose()
+  subtotal: number;
+
+  @ApiProperty({ description: 'Impuestos en centavos', example: 0 })
+  @Expose()
+  taxTotal: number;
+
+  @ApiProperty({ description: 'Total en centavos', example: 259998 })
+  @Expose()
+  total: number;
+
+  @ApiProperty({ description: 'Moneda', example: 'usd' })
+  @Expose()
+  currency: string;
+
+  @ApiProperty({
+    description: 'Fecha de emisión',
+    example: '2026-01-15T10:30:00.000Z',
+  })
+  @Expose()
+  issuedAt: Date;
+}
@@ -0,0 +1,15 @@
+import { Invoice } from '../../../domain/entities/invoice.entity';
+
+export interface RenderedInvoice {
+  contentType: string;
+  filename: string;
+  content: Buffer;
+}
+
+/**
+ * Abstracción del render de facturas (DIP)
+ * Debe ser determinista: el mismo documento produce siempre los mismos bytes
+ */
+export interface IInvoiceRenderer {
+  render(invoice: Invoice): RenderedInvoice;
+}
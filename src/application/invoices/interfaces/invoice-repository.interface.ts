@@ -0,0 +1,92 @@
+import { Order } from '../../../domain/entities/order.entity';
+import { Payment } from '../../../domain/entities/payment.entity';
+import { Refund } from '../../../domain/entities/refund.entity';
+import {
+  Invoice,
+  InvoiceLine,
+  InvoiceParty,
+} from '../../../domain/entities/invoice.entity';
+
+/**
+ * Datos de la orden leídos con la orden bloqueada al emitir un documento
+ */
+export interface InvoiceSource {
+  order: Order;
+  payment: Payment | null;
+  invoice: Invoice | null;
+  creditNotes: Invoice[];
+  refunds: Refund[];
+}
+
+/**
+ * Contenido de una factura o nota de crédito (montos en centavos)
+ * El número, el año fiscal y la fecha de emisión los asigna el repositorio
+ */
+export interface InvoiceDraft {
+  orderNumber: string | null;
+  invoiceId?: string | null;
+  invoiceNumber?: string | null;
+  refundId?: string | null;
+  reason?: string | null;
+  buyer: InvoiceParty;
+  lines: InvoiceLine[];
+  subtotal: number;
+  taxTotal: number;
+  total: number;
+  currency: string;
+  createdBy?: string | null;
+}
+
+/**
+ * Abstracción del Repository Pattern para facturas y notas de crédito (DIP)
+ * La numeración es correlativa y sin huecos por tipo y año fiscal
+ */
+export interface IInvoiceRepository {
+  /**
+   * Encuentra la factura de una orden
+   * @param orderId UUID de la orden
+   * @returns Promise<Invoice | null> Factura o null si no se emitió
+   */
+  findInvoiceByOrderId(orderId: string): Promise<Invoice | null>;
+
+  /**
+   * Encuentra las notas de crédito de una orden (más antigua primero)
+   * @param orderId UUID de la orden
+   * @returns Promise<Invoice[]> Notas de crédito
+   */
+  findCreditNotes(orderId: string): Promise<Invoice[]>;
+
+  /**
+   * Encuentra una nota de crédito de una orden
+   * @param orderId UUID de la orden
+   * @param creditNoteId UUID de la nota de crédito
+   * @returns Promise<Invoice | null> Nota de crédito o null
+   */
+  findCreditNote(
+    orderId: string,
+    creditNoteId: string,
+  ): Promise<Invoice | null>;
+
+  /**
+   * Emite la factura de una orden con la orden bloqueada (SELECT ... FOR UPDATE)
+   * Si la orden ya tiene factura la devuelve sin llamar al callback
+   * @param orderId UUID de la orden
+   * @param buildDraft Valida y calcula la factura (puede lanzar excepciones)
+   * @returns Promise<Invoice | null> Factura, o null si la orden no existe
+   */
+  issueInvoice(
+    orderId: string,
+    buildDraft: (source: InvoiceSource) => InvoiceDraft,
+  ): Promise<Invoice | null>;
+
+  /**
+   * Emite una nota de crédito con la orden bloqueada (SELECT ... FOR UPDATE)
+   * @param orderId UUID de la orden
+   * @param buildDraft Valida y calcula la nota de crédito (puede lanzar excepciones)
+   * @returns Promise<Invoice | null> Nota de crédito, o null si la orden no existe
+   */
+  issueCreditNote(
+    orderId: string,
+    buildDraft: (source: InvoiceSource) => InvoiceDraft,
+  ): Promise<Invoice | null>;
+}
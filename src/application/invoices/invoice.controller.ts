@@ -0,0 +1,254 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+  HttpCode,
+  HttpStatus,
+  Logger,
+  ValidationPipe,
+  Request,
+  StreamableFile,
+  BadRequestException,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiParam,
+  ApiQuery,
+  ApiProduces,
+} from '@nestjs/swagger';
+import { InvoiceService } from './invoice.service';
+import { CreateCreditNoteDto, InvoiceResponseDto } from './dto/invoice.dto';
+import { RenderedInvoice } from './interfaces/invoice-renderer.interface';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { UserRole } from '../../domain/entities/user.entity';
+
+/**
+ * InvoiceController - Facturas y notas de crédito de órdenes
+ * Los documentos se sirven en JSON (por defecto) o PDF (?format=pdf)
+ */
+@ApiTags('Órdenes')
+@Controller('orders')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@ApiBearerAuth()
+export class InvoiceController {
+  private readonly logger = new Logger(InvoiceController.name);
+
+  constructor(private readonly invoiceService: InvoiceService) {}
+
+  /**
+   * Obtener factura de una orden
+   */
+  @Get(':id/invoice')
+  @Roles(UserRole.ADMIN, UserRole.CLIENT)
+  @ApiOperation({
+    summary: 'Factura de la orden',
+    description:
+      'Factura de una orden pagada en JSON o PDF. Los clientes solo ven sus propias órdenes.',
+  })
+  @ApiParam({ name: 'id', type: 'string', description: 'ID de la orden' })
+  @ApiQuery({
+    name: 'format',
+    required: false,
+    enum: ['json', 'pdf'],
+    description: 'Formato del documento (json por defecto)',
+  })
+  @ApiProduces('application/json', 'application/pdf')
+  @ApiResponse({
+    status: 200,
+    description: 'Factura de la orden',
+    type: InvoiceResponseDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'ID de orden o formato inválido',
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'No tienes permisos para ver esta orden',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Orden no encontrada o sin pago capturado',
+  })
+  async getInvoice(
+    @Param('id') id: string,
+    @Query('format') format: string | undefined,
+    @Request() req: any,
+  ): Promise<InvoiceResponseDto | StreamableFile> {
+    const userRole = req.user.role;
+    const currentUserId = req.user.sub;
+
+    if (this.wantsPdf(format)) {
+      return this.toFile(
+        await this.invoiceService.getInvoicePdf(id, userRole, currentUserId),
+      );
+    }
+    return this.invoiceService.getInvoice(id, userRole, currentUserId);
+  }
+
+  /**
+   * Listar notas de crédito de una orden
+   */
+  @Get(':id/credit-notes')
+  @Roles(UserRole.ADMIN, UserRole.CLIENT)
+  @ApiOperation({
+    summary: 'Notas de crédito de la orden',
+    description: 'Los clientes solo ven sus propias órdenes.',
+  })
+  @ApiParam({ name: 'id', type: 'string', description: 'ID de la orden' })
+  @ApiResponse({
+    status: 200,
+    description: 'Notas de crédito de la orden',
+    type: [InvoiceResponseDto],
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'No tienes permisos para ver esta orden',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Orden no encontrada',
+  })
+  async findCreditNotes(
+    @Param('id') id: string,
+    @Request() req: any,
+  ): Promise<InvoiceResponseDto[]> {
+    return this.invoiceService.findCreditNotes(id, req.user.role, req.user.sub);
+  }
+
+  /**
+   * Obtener nota de crédito
+   */
+  @Get(':id/credit-notes/:creditNoteId')
+  @Roles(UserRole.ADMIN, UserRole.CLIENT)
+  @ApiOperation({
+    summary: 'Nota de crédito',
+    description: 'Nota de crédito en JSON o PDF.',
+  })
+  @ApiParam({ name: 'id', type: 'string', description: 'ID de la orden' })
+  @ApiParam({
+    name: 'creditNoteId',
+    type: 'string',
+    description: 'ID de la nota de crédito',
+  })
+  @ApiQuery({
+    name: 'format',
+    required: false,
+    enum: ['json', 'pdf'],
+    description: 'Formato del documento (json por defecto)',
+  })
+  @ApiProduces('application/json', 'application/pdf')
+  @ApiResponse({
+    status: 200,
+    description: 'Nota de crédito',
+    type: InvoiceResponseDto,
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'No tienes permisos para ver esta orden',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Orden o nota de crédito no encontrada',
+  })
+  async getCreditNote(
+    @Param('id') id: string,
+    @Param('creditNoteId') creditNoteId: string,
+    @Query('format') format: string | undefined,
+    @Request() req: any,
+  ): Promise<InvoiceResponseDto | StreamableFile> {
+    const userRole = req.user.role;
+    const currentUserId = req.user.sub;
+
+    if (this.wantsPdf(format)) {
+      return this.toFile(
+        await this.invoiceService.getCreditNotePdf(
+          id,
+          creditNoteId,
+          userRole,
+          currentUserId,
+        ),
+      );
+    }
+    return this.invoiceService.getCreditNote(
+      id,
+      creditNoteId,
+      userRole,
+      currentUserId,
+    );
+  }
+
+  /**
+   * Emitir nota de crédito (Solo Admin)
+   */
+  @Post(':id/credit-notes')
+  @Roles(UserRole.ADMIN)
+  @HttpCode(HttpStatus.CREATED)
+  @ApiOperation({
+    summary: 'Emitir nota de crédito',
+    description:
+      'Acredita un reembolso (refundId) o, sin reembolso, el saldo de una orden cancelada.',
+  })
+  @ApiParam({ name: 'id', type: 'string', description: 'ID de la orden' })
+  @ApiResponse({
+    status: 201,
+    description: 'Nota de crédito emitida',
+    type: InvoiceResponseDto,
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Solo los administradores pueden emitir notas de crédito',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Orden, factura o reembolso no encontrado',
+  })
+  @ApiResponse({
+    status: 409,
+    description: 'No hay saldo que acreditar o el reembolso ya fue acreditado',
+  })
+  async createCreditNote(
+    @Param('id') id: string,
+    @Body(ValidationPipe) createCreditNoteDto: CreateCreditNoteDto,
+    @Request() req: any,
+  ): Promise<InvoiceResponseDto> {
+    const currentUserId = req.user.sub;
+
+    this.logger.log(
+      `Usuario ${currentUserId} emitiendo nota de crédito de orden ${id}`,
+    );
+    return this.invoiceService.createCreditNote(
+      id,
+      createCreditNoteDto,
+      req.user.role,
+      currentUserId,
+    );
+  }
+
+  private wantsPdf(format: string | undefined): boolean {
+    if (format === undefined || format === 'json') {
+      return false;
+    }
+    if (format === 'pdf') {
+      return true;
+    }
+    throw new BadRequestException('El formato debe ser json o pdf');
+  }
+
+  private toFile(document: RenderedInvoice): StreamableFile {
+    return new StreamableFile(document.content, {
+      type: document.contentType,
+      disposition: `inline; filename="${document.filename}"`,
+      length: document.content.length,
+    });
+  }
+}
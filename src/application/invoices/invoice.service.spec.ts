@@ -0,0 +1,353 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import {
+  ConflictException,
+  ForbiddenException,
+  NotFoundException,
+} from '@nestjs/common';
+import { InvoiceService } from './invoice.service';
+import { OrderStateMachine } from '../orders/order-state-machine.service';
+import { PdfInvoiceRenderer } from '../../infrastructure/invoices/pdf-invoice.renderer';
+import { OrderStatus } from '../../domain/entities/order.entity';
+import { InvoiceType } from '../../domain/entities/invoice.entity';
+import { UserRole } from '../../domain/entities/user.entity';
+
+describe('InvoiceService', () => {
+  let service: InvoiceService;
+
+  const orderId = '550e8400-e29b-41d4-a716-446655440000';
+  const userId = '550e8400-e29b-41d4-a716-446655440001';
+  const adminId = '550e8400-e29b-41d4-a716-446655440003';
+  const invoiceId = '550e8400-e29b-41d4-a716-446655440020';
+  const refundId = '550e8400-e29b-41d4-a716-446655440030';
+
+  const order: any = {
+    id: orderId,
+    userId,
+    orderNumber: 'QC-2026-000001',
+    status: OrderStatus.PROCESSING,
+    deliveryAddress: 'Calle Falsa 123',
+    user: { fullName: 'Ana Pérez', email: 'ana@example.com' },
+    items: [
+      {
+        productId: 10,
+        quantity: 2,
+        priceAtPurchase: 2500,
+        product: { name: 'Café' },
+      },
+      {
+        productId: 20,
+        quantity: 1,
+        priceAtPurchase: 1000,
+        product: { name: 'Taza' },
+      },
+    ],
+  };
+
+  const invoice: any = {
+    id: invoiceId,
+    type: InvoiceType.INVOICE,
+    number: 'FAC-2026-000001',
+    orderId,
+    orderNumber: order.orderNumber,
+    buyer: {
+      userId,
+      fullName: 'Ana Pérez',
+      email: 'ana@example.com',
+      address: 'Calle Falsa 123',
+    },
+    lines: [
+      {
+        productId: 10,
+        description: 'Café',
+        quantity: 2,
+        unitPrice: 2500,
+        net: 5000,
+        tax: 0,
+        gross: 5000,
+      },
+      {
+        productId: 20,
+        description: 'Taza',
+        quantity: 1,
+        unitPrice: 1000,
+        net: 1000,
+        tax: 0,
+        gross: 1000,
+      },
+    ],
+    subtotal: 6000,
+    taxTotal: 0,
+    total: 6000,
+    currency: 'usd',
+    issuedAt: new Date('2026-01-15T10:00:00Z'),
+  };
+
+  const mockOrderRepository = {
+    findById: jest.fn(),
+  };
+
+  const mockInvoiceRepository = {
+    findInvoiceByOrderId: jest.fn(),
+    findCreditNotes: jest.fn(),
+    findCreditNote: jest.fn(),
+    issueInvoice: jest.fn(),
+    issueCreditNote: jest.fn(),
+  };
+
+  const mockOrderStateMachine = {
+    onTransition: jest.fn(),
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        InvoiceService,
+        { provide: 'IOrderRepository', useValue: mockOrderRepository },
+        { provide: 'IInvoiceRepository', useValue: mockInvoiceRepository },
+        { provide: 'IInvoiceRenderer', useClass: PdfInvoiceRenderer },
+        { provide: OrderStateMachine, useValue: mockOrderStateMachine },
+      ],
+    }).compile();
+
+    service = module.get<InvoiceService>(InvoiceService);
+
+    jest.clearAllMocks();
+  });
+
+  describe('onModuleInit', () => {
+    it('should issue the invoice when the order moves to Processing', async () => {
+      // Arrange
+      mockInvoiceRepository.findInvoiceByOrderId.mockResolvedValue(invoice);
+      service.onModuleInit();
+      const [listener] = mockOrderStateMachine.onTransition.mock.calls[0];
+
+      // Act
+      await listener({
+        order,
+        from: OrderStatus.PENDING,
+        to: OrderStatus.PROCESSING,
+        context: { role: UserRole.ADMIN },
+      });
+      await listener({
+        order,
+        from: OrderStatus.PROCESSING,
+        to: OrderStatus.SHIPPED,
+        context: { role: UserRole.ADMIN },
+      });
+
+      // Assert
+      expect(mockInvoiceRepository.findInvoiceByOrderId).toHaveBeenCalledTimes(
+        1,
+      );
+      expect(mockInvoiceRepository.findInvoiceByOrderId).toHaveBeenCalledWith(
+        orderId,
+      );
+      expect(mockInvoiceRepository.issueInvoice).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('issueForOrder', () => {
+    it('should freeze buyer, lines and totals from the paid order', async () => {
+      // Arrange
+      mockInvoiceRepository.findInvoiceByOrderId.mockResolvedValue(null);
+      mockInvoiceRepository.issueInvoice.mockImplementation(
+        async (_orderId, buildDraft) => ({
+          id: invoiceId,
+          type: InvoiceType.INVOICE,
+          number: 'FAC-2026-000001',
+          ...buildDraft({
+            order,
+            payment: { currency: 'usd' },
+            invoice: null,
+            creditNotes: [],
+            refunds: [],
+          }),
+        }),
+      );
+
+      // Act
+      const result = await service.issueForOrder(orderId);
+
+      // Assert
+      expect(result.number).toBe('FAC-2026-000001');
+      expect(result.total).toBe(6000);
+      expect(result.lines).toEqual([
+        expect.objectContaining({ description: 'Café', unitPrice: 2500 }),
+        expect.objectContaining({ description: 'Taza', gross: 1000 }),
+      ]);
+      expect(result.buyer.fullName).toBe('Ana Pérez');
+    });
+
+    it('should not invoice an order without captured payment', async () => {
+      // Arrange
+      mockInvoiceRepository.findInvoiceByOrderId.mockResolvedValue(null);
+      mockInvoiceRepository.issueInvoice.mockImplementation(
+        async (_orderId, buildDraft) =>
+          buildDraft({
+            order,
+            payment: null,
+            invoice: null,
+            creditNotes: [],
+            refunds: [],
+          }),
+      );
+
+      // Act & Assert
+      await expect(service.issueForOrder(orderId)).rejects.toThrow(
+        NotFoundException,
+      );
+    });
+  });
+
+  describe('getInvoicePdf', () => {
+    it('should render the same document every time', async () => {
+      // Arrange
+      mockOrderRepository.findById.mockResolvedValue(order);
+      mockInvoiceRepository.findInvoiceByOrderId.mockResolvedValue(invoice);
+
+      // Act
+      const first = await service.getInvoicePdf(
+        orderId,
+        UserRole.CLIENT,
+        userId,
+      );
+      const second = await service.getInvoicePdf(
+        orderId,
+        UserRole.CLIENT,
+        userId,
+      );
+
+      // Assert
+      expect(first.contentType).toBe('application/pdf');
+      expect(first.filename).toBe('FAC-2026-000001.pdf');
+      expect(first.content.subarray(0, 8).toString()).toBe('%PDF-1.4');
+      expect(first.content.equals(second.content)).toBe(true);
+      expect(mockInvoiceRepository.issueInvoice).not.toHaveBeenCalled();
+    });
+
+    it("should throw ForbiddenException for another client's order", async () => {
+      // Arrange
+      mockOrderRepository.findById.mockResolvedValue(order);
+
+      // Act & Assert
+      await expect(
+        service.getInvoicePdf(orderId, UserRole.CLIENT, adminId),
+      ).rejects.toThrow(ForbiddenException);
+    });
+  });
+
+  describe('createCreditNote', () => {
+    const refund = {
+      id: refundId,
+      amount: 2500,
+      reason: 'Producto dañado',
+      items: [{ productId: 10, quantity: 1, amount: 2500 }],
+    };
+
+    beforeEach(() => {
+      mockOrderRepository.findById.mockResolvedValue(order);
+      mockInvoiceRepository.findInvoiceByOrderId.mockResolvedValue(invoice);
+    });
+
+    it('should credit the lines of a refund', async () => {
+      // Arrange
+      mockInvoiceRepository.issueCreditNote.mockImplementation(
+        async (_orderId, buildDraft) => ({
+          id: '550e8400-e29b-41d4-a716-446655440040',
+          type: InvoiceType.CREDIT_NOTE,
+          number: 'NC-2026-000001',
+          ...buildDraft({
+            order,
+            payment: { currency: 'usd' },
+            invoice,
+            creditNotes: [],
+            refunds: [refund],
+          }),
+        }),
+      );
+
+      // Act
+      const result = await service.createCreditNote(
+        orderId,
+        { refundId },
+        UserRole.ADMIN,
+        adminId,
+      );
+
+      // Assert
+      expect(result.invoiceNumber).toBe('FAC-2026-000001');
+      expect(result.total).toBe(2500);
+      expect(result.reason).toBe('Producto dañado');
+      expect(result.lines).toEqual([
+        expect.objectContaining({ productId: 10, quantity: 1, gross: 2500 }),
+      ]);
+    });
+
+    it('should not credit the same refund twice', async () => {
+      // Arrange
+      mockInvoiceRepository.issueCreditNote.mockImplementation(
+        async (_orderId, buildDraft) =>
+          buildDraft({
+            order,
+            payment: { currency: 'usd' },
+            invoice,
+            creditNotes: [{ refundId, total: 2500, lines: [] }],
+            refunds: [refund],
+          }),
+      );
+
+      // Act & Assert
+      await expect(
+        service.createCreditNote(
+          orderId,
+          { refundId },
+          UserRole.ADMIN,
+          adminId,
+        ),
+      ).rejects.toThrow(ConflictException);
+    });
+
+    it('should credit the remaining units of a cancelled order', async () => {
+      // Arrange
+      const cancelled = { ...order, status: OrderStatus.CANCELLED };
+      mockInvoiceRepository.issueCreditNote.mockImplementation(
+        async (_orderId, buildDraft) =>
+          buildDraft({
+            order: cancelled,
+            payment: { currency: 'usd' },
+            invoice,
+            creditNotes: [
+              {
+                refundId,
+                total: 2500,
+                lines: [{ productId: 10, quantity: 1 }],
+              },
+            ],
+            refunds: [refund],
+          }),
+      );
+
+      // Act
+      const result = await service.createCreditNote(
+        orderId,
+        {},
+        UserRole.ADMIN,
+        adminId,
+      );
+
+      // Assert
+      expect(result.total).toBe(3500);
+      expect(result.lines).toEqual([
+        expect.objectContaining({ productId: 10, quantity: 1 }),
+        expect.objectContaining({ productId: 20, quantity: 1 }),
+      ]);
+    });
+
+    it('should throw ForbiddenException for clients', async () => {
+      // Act & Assert
+      await expect(
+        service.createCreditNote(orderId, {}, UserRole.CLIENT, userId),
+      ).rejects.toThrow(ForbiddenException);
+    });
+  });
+});
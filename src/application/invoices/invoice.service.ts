@@ -0,0 +1,481 @@
+import {
+  Injectable,
+  Logger,
+  Inject,
+  OnModuleInit,
+  NotFoundException,
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+} from '@nestjs/common';
+import { plainToClass } from 'class-transformer';
+import { IOrderRepository } from '../orders/interfaces/order-repository.interface';
+import { OrderStateMachine } from '../orders/order-state-machine.service';
+import {
+  IInvoiceRepository,
+  InvoiceDraft,
+  InvoiceSource,
+} from './interfaces/invoice-repository.interface';
+import {
+  IInvoiceRenderer,
+  RenderedInvoice,
+} from './interfaces/invoice-renderer.interface';
+import { CreateCreditNoteDto, InvoiceResponseDto } from './dto/invoice.dto';
+import { Order, OrderStatus } from '../../domain/entities/order.entity';
+import { Invoice, InvoiceLine } from '../../domain/entities/invoice.entity';
+import { UserRole } from '../../domain/entities/user.entity';
+
+/**
+ * InvoiceService - Facturas de órdenes pagadas y notas de crédito
+ *
+ * - La factura se emite al capturar el pago, al pasar la orden a Processing
+ *   (si aún no existía) o al pedirla por primera vez
+ * - Comprador, líneas (priceAtPurchase), impuestos y totales quedan congelados
+ * - Las notas de crédito acreditan un reembolso o el saldo de una orden cancelada
+ */
+@Injectable()
+export class InvoiceService implements OnModuleInit {
+  private readonly logger = new Logger(InvoiceService.name);
+
+  constructor(
+    @Inject('IOrderRepository')
+    private readonly orderRepository: IOrderRepository,
+    @Inject('IInvoiceRepository')
+    private readonly invoiceRepository: IInvoiceRepository,
+    @Inject('IInvoiceRenderer')
+    private readonly invoiceRenderer: IInvoiceRenderer,
+    private readonly orderStateMachine: OrderStateMachine,
+  ) {}
+
+  /**
+   * Emite la factura cuando la orden pasa a Processing (el guard
+   * paymentCaptured garantiza que ya está pagada)
+   */
+  onModuleInit(): void {
+    this.orderStateMachine.onTransition(async ({ order, to }) => {
+      if (to === OrderStatus.PROCESSING) {
+        await this.issueForOrder(order.id);
+      }
+    });
+  }
+
+  /**
+   * Emite la factura de una orden pagada (idempotente)
+   * @param orderId UUID de la orden
+   * @returns Promise<InvoiceResponseDto> Factura emitida o existente
+   * @throws NotFoundException si la orden no existe o no tiene pago capturado
+   */
+  async issueForOrder(orderId: string): Promise<InvoiceResponseDto> {
+    const invoice = await this.findOrIssueInvoice(orderId);
+    return this.mapToInvoiceDto(invoice);
+  }
+
+  /**
+   * Obtiene la factura de una orden
+   * @param orderId UUID de la orden
+   * @param userRole Rol del usuario
+   * @param currentUserId ID del usuario actual
+   * @returns Promise<InvoiceResponseDto> Factura
+   * @throws NotFoundException si la orden no existe o no tiene pago capturado
+   * @throws ForbiddenException si el cliente intenta acceder a orden ajena
+   */
+  async getInvoice(
+    orderId: string,
+    userRole: UserRole,
+    currentUserId?: string,
+  ): Promise<InvoiceResponseDto> {
+    await this.findOrderForUser(orderId, userRole, currentUserId);
+    return this.mapToInvoiceDto(await this.findOrIssueInvoice(orderId));
+  }
+
+  /**
+   * Renderiza la factura de una orden en PDF
+   */
+  async getInvoicePdf(
+    orderId: string,
+    userRole: UserRole,
+    currentUserId?: string,
+  ): Promise<RenderedInvoice> {
+    await this.findOrderForUser(orderId, userRole, currentUserId);
+    return this.invoiceRenderer.render(await this.findOrIssueInvoice(orderId));
+  }
+
+  /**
+   * Lista las notas de crédito de una orden
+   */
+  async findCreditNotes(
+    orderId: string,
+    userRole: UserRole,
+    currentUserId?: string,
+  ): Promise<InvoiceResponseDto[]> {
+    await this.findOrderForUser(orderId, userRole, currentUserId);
+    const creditNotes = await this.invoiceRepository.findCreditNotes(orderId);
+    return creditNotes.map((creditNote) => this.mapToInvoiceDto(creditNote));
+  }
+
+  /**
+   * Obtiene una nota de crédito de una orden
+   */
+  async getCreditNote(
+    orderId: string,
+    creditNoteId: string,
+    userRole: UserRole,
+    currentUserId?: string,
+  ): Promise<InvoiceResponseDto> {
+    return this.mapToInvoiceDto(
+      await this.findCreditNote(orderId, creditNoteId, userRole, currentUserId),
+    );
+  }
+
+  /**
+   * Renderiza una nota de crédito en PDF
+   */
+  async getCreditNotePdf(
+    orderId: string,
+    creditNoteId: string,
+    userRole: UserRole,
+    currentUserId?: string,
+  ): Promise<RenderedInvoice> {
+    return this.invoiceRenderer.render(
+      await this.findCreditNote(orderId, creditNoteId, userRole, currentUserId),
+    );
+  }
+
+  /**
+   * Emite una nota de crédito por un reembolso o por la cancelación de la orden
+   * @param orderId UUID de la orden
+   * @param dto Reembolso a acreditar (opcional) y motivo
+   * @param userRole Rol del usuario
+   * @param currentUserId ID del administrador
+   * @returns Promise<InvoiceResponseDto> Nota de crédito emitida
+   * @throws ForbiddenException si no es administrador
+   * @throws NotFoundException si la orden o el reembolso no existen
+   * @throws ConflictException si no hay nada que acreditar
+   */
+  async createCreditNote(
+    orderId: string,
+    dto: CreateCreditNoteDto,
+    userRole: UserRole,
+    currentUserId: string,
+  ): Promise<InvoiceResponseDto> {
+    this.logger.log(`Emitiendo nota de crédito de orden ${orderId}`);
+
+    if (userRole !== UserRole.ADMIN) {
+      throw new ForbiddenException(
+        'Solo los administradores pueden emitir notas de crédito',
+      );
+    }
+
+    await this.findOrderForUser(orderId, userRole, currentUserId);
+    await this.findOrIssueInvoice(orderId);
+
+    const creditNote = await this.invoiceRepository.issueCreditNote(
+      orderId,
+      (source) => this.buildCreditNoteDraft(source, dto, currentUserId),
+    );
+    if (!creditNote) {
+      throw new NotFoundException(`Orden con ID ${orderId} no encontrada`);
+    }
+
+    this.logger.log(
+      `Nota de crédito ${creditNote.number} emitida para orden ${orderId}`,
+    );
+    return this.mapToInvoiceDto(creditNote);
+  }
+
+  private async findOrIssueInvoice(orderId: string): Promise<Invoice> {
+    const existing = await this.invoiceRepository.findInvoiceByOrderId(orderId);
+    if (existing) {
+      return existing;
+    }
+
+    const invoice = await this.invoiceRepository.issueInvoice(
+      orderId,
+      (source) => this.buildInvoiceDraft(source),
+    );
+    if (!invoice) {
+      throw new NotFoundException(`Orden con ID ${orderId} no encontrada`);
+    }
+
+    this.logger.log(`Factura ${invoice.number} emitida para orden ${orderId}`);
+    return invoice;
+  }
+
+  /**
+   * Congela comprador, líneas y totales de la orden pagada
+   */
+  private buildInvoiceDraft(source: InvoiceSource): InvoiceDraft {
+    const { order, payment } = source;
+    if (!payment) {
+      throw new NotFoundException(
+        'La orden aún no tiene factura: no tiene un pago capturado',
+      );
+    }
+
+    // Órdenes anteriores al cálculo de impuestos: todo el importe es neto
+    const lines: InvoiceLine[] = order.items.map((item) => {
+      const amount = Math.round(item.priceAtPurchase * item.quantity);
+      return {
+        productId: item.productId,
+        description: item.product?.name ?? `Producto ${item.productId}`,
+        quantity: item.quantity,
+        unitPrice: item.priceAtPurchase,
+        net: item.netAmount ?? amount,
+        tax: item.taxAmount ?? 0,
+        gross: item.grossAmount ?? amount,
+      };
+    });
+
+    // El envío no tributa
+    if (order.shippingAmount > 0) {
+      lines.push({
+        productId: null,
+        description: `Envío: ${order.shippingMethodName ?? 'envío'}`,
+        quantity: 1,
+        unitPrice: order.shippingAmount,
+        net: order.shippingAmount,
+        tax: 0,
+        gross: order.shippingAmount,
+      });
+    }
+
+    return {
+      orderNumber: order.orderNumber ?? null,
+      buyer: {
+        userId: order.userId,
+        fullName: order.user?.fullName ?? order.guestCustomer?.fullName ?? '',
+        email: order.user?.email ?? order.guestCustomer?.email ?? '',
+        address: order.deliveryAddress ?? null,
+      },
+      lines,
+      ...this.sumLines(lines),
+      currency: payment.currency,
+    };
+  }
+
+  /**
+   * Calcula la nota de crédito con la orden bloqueada
+   * Nunca acredita más que el saldo de la factura
+   */
+  private buildCreditNoteDraft(
+    source: InvoiceSource,
+    dto: CreateCreditNoteDto,
+    createdBy: string,
+  ): InvoiceDraft {
+    const { order, invoice, creditNotes } = source;
+    if (!invoice) {
+      throw new ConflictException('La orden no tiene factura');
+    }
+
+    let lines: InvoiceLine[];
+    let reason: string;
+
+    if (dto.refundId) {
+      const refund = source.refunds.find((r) => r.id === dto.refundId);
+      if (!refund) {
+        throw new NotFoundException(
+          `Reembolso con ID ${dto.refundId} no encontrado en la orden`,
+        );
+      }
+      if (creditNotes.some((note) => note.refundId === refund.id)) {
+        throw new ConflictException('El reembolso ya tiene nota de crédito');
+      }
+
+      lines = refund.items.map((line) =>
+        this.creditLine(invoice, line.productId, line.quantity, line.amount),
+      );
+      // Un reembolso total puede no coincidir con la suma de sus líneas
+      const difference =
+        refund.amount - lines.reduce((sum, line) => sum + line.gross, 0);
+      if (difference !== 0) {
+        lines.push({
+          productId: null,
+          description: 'Ajuste',
+          quantity: 1,
+          unitPrice: difference,
+          net: difference,
+          tax: 0,
+          gross: difference,
+        });
+      }
+      reason = dto.reason ?? refund.reason ?? `Reembolso ${refund.id}`;
+    } else {
+      if (order.status !== OrderStatus.CANCELLED) {
+        throw new ConflictException(
+          'Sin reembolso solo se acreditan órdenes canceladas',
+        );
+      }
+
+      // Acreditar las unidades y cargos (envío) que ninguna nota anterior acreditó
+      const creditedUnits = new Map<number, number>();
+      const creditedCharges = new Set<string>();
+      for (const line of creditNotes.flatMap((note) => note.lines)) {
+        if (line.productId !== null) {
+          creditedUnits.set(
+            line.productId,
+            (creditedUnits.get(line.productId) ?? 0) + line.quantity,
+          );
+        } else {
+          creditedCharges.add(line.description);
+        }
+      }
+
+      lines = invoice.lines
+        .filter((line) => line.productId !== null)
+        .map((line) => ({
+          line,
+          remaining: line.quantity - (creditedUnits.get(line.productId) ?? 0),
+        }))
+        .filter(({ remaining }) => remaining > 0)
+        .map(({ line, remaining }) =>
+          this.creditLine(
+            invoice,
+            line.productId,
+            remaining,
+            Math.round((line.gross * remaining) / line.quantity),
+          ),
+        );
+      lines.push(
+        ...invoice.lines.filter(
+          (line) =>
+            line.productId === null && !creditedCharges.has(line.description),
+        ),
+      );
+      reason =
+        dto.reason ?? order.cancellationReason ?? 'Cancelación de la orden';
+    }
+
+    const totals = this.sumLines(lines);
+    const credited = creditNotes.reduce((sum, note) => sum + note.total, 0);
+    if (lines.length === 0 || totals.total <= 0) {
+      throw new ConflictException('La factura ya fue acreditada por completo');
+    }
+    if (credited + totals.total > invoice.total) {
+      throw new ConflictException({
+        message: 'La nota de crédito supera el saldo de la factura',
+        requested: totals.total,
+        remaining: invoice.total - credited,
+      });
+    }
+
+    return {
+      orderNumber: invoice.orderNumber,
+      invoiceId: invoice.id,
+      invoiceNumber: invoice.number,
+      refundId: dto.refundId ?? null,
+      reason,
+      buyer: invoice.buyer,
+      lines,
+      ...totals,
+      currency: invoice.currency,
+      createdBy,
+    };
+  }
+
+  /**
+   * Línea acreditada con la descripción y la proporción de impuesto facturadas
+   */
+  private creditLine(
+    invoice: Invoice,
+    productId: number,
+    quantity: number,
+    gross: number,
+  ): InvoiceLine {
+    const invoiced = invoice.lines.find((line) => line.productId === productId);
+    if (!invoiced) {
+      throw new BadRequestException(
+        `El producto ${productId} no figura en la factura ${invoice.number}`,
+      );
+    }
+
+    const tax =
+      invoiced.gross > 0
+        ? Math.round((gross * invoiced.tax) / invoiced.gross)
+        : 0;
+    return {
+      productId,
+      description: invoiced.description,
+      quantity,
+      unitPrice: invoiced.unitPrice,
+      net: gross - tax,
+      tax,
+      gross,
+    };
+  }
+
+  private sumLines(
+    lines: InvoiceLine[],
+  ): Pick<InvoiceDraft, 'subtotal' | 'taxTotal' | 'total'> {
+    return {
+      subtotal: lines.reduce((sum, line) => sum + line.net, 0),
+      taxTotal: lines.reduce((sum, line) => sum + line.tax, 0),
+      total: lines.reduce((sum, line) => sum + line.gross, 0),
+    };
+  }
+
+  private async findCreditNote(
+    orderId: string,
+    creditNoteId: string,
+    userRole: UserRole,
+    currentUserId?: string,
+  ): Promise<Invoice> {
+    await this.findOrderForUser(orderId, userRole, currentUserId);
+
+    if (!this.isValidUUID(creditNoteId)) {
+      throw new BadRequestException('ID de nota de crédito inválido');
+    }
+
+    const creditNote = await this.invoiceRepository.findCreditNote(
+      orderId,
+      creditNoteId,
+    );
+    if (!creditNote) {
+      throw new NotFoundException(
+        `Nota de crédito con ID ${creditNoteId} no encontrada`,
+      );
+    }
+    return creditNote;
+  }
+
+  private async findOrderForUser(
+    orderId: string,
+    userRole: UserRole,
+    currentUserId?: string,
+  ): Promise<Order> {
+    if (!this.isValidUUID(orderId)) {
+      throw new BadRequestException('ID de orden inválido');
+    }
+
+    const order = await this.orderRepository.findById(orderId);
+    if (!order) {
+      throw new NotFoundException(`Orden con ID ${orderId} no encontrada`);
+    }
+
+    // Verificar autorización para clientes
+    if (userRole === UserRole.CLIENT) {
+      if (!currentUserId || order.userId !== currentUserId) {
+        throw new ForbiddenException('No tienes permisos para ver esta orden');
+      }
+    }
+
+    return order;
+  }
+
+  /**
+   * Mapea una factura o nota de crédito a DTO de respuesta
+   */
+  private mapToInvoiceDto(invoice: Invoice): InvoiceResponseDto {
+    return plainToClass(InvoiceResponseDto, invoice, {
+      excludeExtraneousValues: true,
+    });
+  }
+
+  /**
+   * Valida si un string es un UUID válido
+   */
+  private isValidUUID(uuid: string): boolean {
+    const uuidRegex =
+      /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+    return uuidRegex.test(uuid);
+  }
+}
@@ -0,0 +1,26 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { InvoiceService } from './invoice.service';
+import { InvoiceController } from './invoice.controller';
+import { Invoice } from '../../domain/entities/invoice.entity';
+import { OrderModule } from '../orders/order.module';
+import { InvoiceRepository } from '../../infrastructure/repositories/invoice.repository';
+import { PdfInvoiceRenderer } from '../../infrastructure/invoices/pdf-invoice.renderer';
+
+@Module({
+  imports: [TypeOrmModule.forFeature([Invoice]), OrderModule],
+  controllers: [InvoiceController],
+  providers: [
+    InvoiceService,
+    {
+      provide: 'IInvoiceRepository',
+      useClass: InvoiceRepository,
+    },
+    {
+      provide: 'IInvoiceRenderer',
+      useClass: PdfInvoiceRenderer,
+    },
+  ],
+  exports: [InvoiceService],
+})
+export class InvoicesModule {}
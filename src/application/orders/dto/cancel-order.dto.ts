@@ -0,0 +1,24 @@
+import { IsBoolean, IsOptional, IsString, MaxLength } from 'class-validator';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+
+export class CancelOrderDto {
+  @ApiPropertyOptional({
+    description: 'Motivo de la cancelación',
+    example: 'Ya no necesito el producto',
+    maxLength: 500,
+  })
+  @IsOptional()
+  @IsString({ message: 'El motivo debe ser texto' })
+  @MaxLength(500, { message: 'El motivo no debe exceder 500 caracteres' })
+  reason?: string;
+
+  @ApiPropertyOptional({
+    description:
+      'Acreditar al saldo a favor lo que quede capturado del pago. El saldo a favor usado en la orden se devuelve siempre',
+    example: true,
+    default: false,
+  })
+  @IsOptional()
+  @IsBoolean({ message: 'refundToStoreCredit debe ser booleano' })
+  refundToStoreCredit?: boolean;
+}
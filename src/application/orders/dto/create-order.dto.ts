@@ -3,13 +3,18 @@ import {
   IsString,
   IsOptional,
   IsNumber,
+  IsInt,
   Min,
   ValidateNested,
   ArrayMinSize,
   MaxLength,
   IsNotEmpty,
+  Length,
+  Matches,
+  IsUUID,
+  ValidateIf,
 } from 'class-validator';
-import { Type } from 'class-transformer';
+import { Transform, Type } from 'class-transformer';
 import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
 
 export class CreateOrderItemDto {
@@ -58,4 +63,62 @@ export class CreateOrderDto {
     message: 'La dirección no debe exceder 500 caracteres',
   })
   deliveryAddress?: string;
+
+  @ApiPropertyOptional({
+    description:
+      'País de entrega (ISO 3166-1 alfa-2), determina impuestos y envío. Por defecto TAX_DEFAULT_COUNTRY; obligatorio con shippingMethodId',
+    example: 'CO',
+  })
+  @ValidateIf((o) => o.country !== undefined || !!o.shippingMethodId)
+  @IsNotEmpty({
+    message: 'El país es obligatorio al elegir un método de envío',
+  })
+  @IsString({ message: 'El país debe ser texto' })
+  @Length(2, 2, { message: 'El país debe ser un código ISO de 2 letras' })
+  @Matches(/^[A-Za-z]{2}$/, {
+    message: 'El país debe ser un código ISO de 2 letras',
+  })
+  @Transform(({ value }) => value?.trim().toUpperCase())
+  country?: string;
+
+  @ApiPropertyOptional({
+    description: 'Región o estado de entrega (tasas regionales)',
+    example: 'ANTIOQUIA',
+    maxLength: 100,
+  })
+  @IsOptional()
+  @IsString({ message: 'La región debe ser texto' })
+  @MaxLength(100, { message: 'La región no debe exceder 100 caracteres' })
+  @Transform(({ value }) => value?.trim().toUpperCase() || undefined)
+  region?: string;
+
+  @ApiPropertyOptional({
+    description: 'Método de envío elegido (ver GET /shipping/quote)',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @IsOptional()
+  @IsUUID('4', { message: 'El método de envío debe ser un UUID válido' })
+  shippingMethodId?: string;
+
+  @ApiPropertyOptional({
+    description: 'Código de cupón de descuento',
+    example: 'VERANO10',
+    maxLength: 50,
+  })
+  @IsOptional()
+  @IsString({ message: 'El cupón debe ser texto' })
+  @MaxLength(50, { message: 'El cupón no debe exceder 50 caracteres' })
+  @Transform(({ value }) => value?.trim().toUpperCase() || undefined)
+  couponCode?: string;
+
+  @ApiPropertyOptional({
+    description:
+      'Saldo a favor a aplicar en centavos (como máximo el total de la orden); el resto se cobra con el proveedor de pagos',
+    example: 5000,
+    minimum: 1,
+  })
+  @IsOptional()
+  @IsInt({ message: 'El saldo a favor debe ser un entero en centavos' })
+  @Min(1, { message: 'El saldo a favor debe ser mayor a 0' })
+  storeCreditAmount?: number;
 }
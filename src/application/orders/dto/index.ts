@@ -3,3 +3,13 @@ export { UpdateOrderDto } from './update-order.dto';
 export { OrderResponseDto, OrderItemResponseDto } from './order-response.dto';
 export { OrderQueryDto } from './order-query.dto';
 export { PaginatedOrderResponseDto } from './paginated-order-response.dto';
+export { UpdateOrderStatusDto } from './update-order-status.dto';
+export { CancelOrderDto } from './cancel-order.dto';
+export { OrderTimelineEntryDto } from './order-timeline.dto';
+export { OrderTransitionDto } from './order-transition.dto';
+export { OrderShipmentDto, OrderShipmentItemDto } from './order-shipment.dto';
+export {
+  OrderReturnDto,
+  OrderReturnItemDto,
+  OrderReturnHistoryDto,
+} from './order-return.dto';
@@ -57,6 +57,19 @@ export class OrderQueryDto {
   @MaxLength(36, { message: 'El ID de usuario no debe exceder 36 caracteres' })
   userId?: string;
 
+  @ApiPropertyOptional({
+    description: 'Buscar por número de orden (completo o parcial)',
+    example: 'QC-2026-000123',
+    maxLength: 20,
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(20, {
+    message: 'El número de orden no debe exceder 20 caracteres',
+  })
+  @Transform(({ value }) => value?.trim().toUpperCase())
+  orderNumber?: string;
+
   @ApiPropertyOptional({
     description: 'Monto mínimo total',
     example: 10000,
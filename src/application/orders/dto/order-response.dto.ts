@@ -1,6 +1,26 @@
-import { ApiProperty } from '@nestjs/swagger';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
 import { Expose, Transform, Type } from 'class-transformer';
 import { OrderStatus } from '../../../domain/entities/order.entity';
+import { TaxPricingMode } from '../../../domain/entities/tax-rate.entity';
+import { OrderTimelineEntryDto } from './order-timeline.dto';
+import { OrderShipmentDto } from './order-shipment.dto';
+import { OrderReturnDto } from './order-return.dto';
+
+export class OrderItemAllocationDto {
+  @ApiProperty({
+    description: 'Almacén del que salen las unidades',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @Expose()
+  warehouseId: string;
+
+  @ApiProperty({
+    description: 'Unidades asignadas al almacén',
+    example: 2,
+  })
+  @Expose()
+  quantity: number;
+}
 
 export class OrderItemResponseDto {
   @ApiProperty({
@@ -54,6 +74,50 @@ export class OrderItemResponseDto {
   @Transform(({ obj }) => ((obj.priceInCents * obj.quantity) / 100).toFixed(2))
   totalPrice: string;
 
+  @ApiProperty({
+    description: 'Descuento de la línea en centavos (antes de impuestos)',
+    example: 26000,
+  })
+  @Expose()
+  discountAmountInCents: number;
+
+  @ApiProperty({
+    description: 'Porcentaje de impuesto aplicado',
+    example: 19,
+  })
+  @Expose()
+  taxRate: number;
+
+  @ApiProperty({
+    description: 'Neto de la línea en centavos',
+    example: 259998,
+  })
+  @Expose()
+  netAmountInCents: number;
+
+  @ApiProperty({
+    description: 'Impuesto de la línea en centavos',
+    example: 49400,
+  })
+  @Expose()
+  taxAmountInCents: number;
+
+  @ApiProperty({
+    description: 'Bruto de la línea (neto + impuesto) en centavos',
+    example: 309398,
+  })
+  @Expose()
+  grossAmountInCents: number;
+
+  @ApiProperty({
+    description:
+      'Almacenes de los que sale el item (vacío en órdenes anteriores a los almacenes)',
+    type: [OrderItemAllocationDto],
+  })
+  @Expose()
+  @Type(() => OrderItemAllocationDto)
+  allocations: OrderItemAllocationDto[];
+
   constructor(partial: Partial<OrderItemResponseDto>) {
     Object.assign(this, partial);
   }
@@ -68,26 +132,103 @@ export class OrderResponseDto {
   id: string;
 
   @ApiProperty({
-    description: 'ID del usuario que realizó la orden',
+    description: 'Número de orden legible',
+    example: 'QC-2026-000123',
+    nullable: true,
+  })
+  @Expose()
+  orderNumber: string | null;
+
+  @ApiProperty({
+    description:
+      'ID del usuario que realizó la orden (null en órdenes de invitado no reclamadas)',
     example: '123e4567-e89b-12d3-a456-426614174001',
+    nullable: true,
   })
   @Expose()
-  userId: string;
+  userId: string | null;
 
   @ApiProperty({
-    description: 'Nombre completo del usuario',
+    description: 'Comprador sin cuenta que realizó la orden',
+    nullable: true,
+  })
+  @Expose()
+  guestCustomerId: string | null;
+
+  @ApiProperty({
+    description: 'Nombre completo del usuario o del invitado',
     example: 'Juan Pérez',
   })
   @Expose()
   userFullName: string;
 
   @ApiProperty({
-    description: 'Email del usuario',
+    description: 'Email del usuario o del invitado',
     example: 'juan@email.com',
   })
   @Expose()
   userEmail: string;
 
+  @ApiProperty({
+    description: 'Subtotal sin impuestos (formateado)',
+    example: '2184.86',
+  })
+  @Expose()
+  @Transform(({ obj }) => (obj.subtotalAmountInCents / 100).toFixed(2))
+  subtotalAmount: string;
+
+  @ApiProperty({
+    description: 'Subtotal sin impuestos en centavos',
+    example: 218486,
+  })
+  @Expose()
+  subtotalAmountInCents: number;
+
+  @ApiProperty({
+    description: 'Impuestos (formateado)',
+    example: '415.12',
+  })
+  @Expose()
+  @Transform(({ obj }) => (obj.taxAmountInCents / 100).toFixed(2))
+  taxAmount: string;
+
+  @ApiProperty({
+    description: 'Impuestos en centavos',
+    example: 41512,
+  })
+  @Expose()
+  taxAmountInCents: number;
+
+  @ApiProperty({
+    description: 'Descuentos del cupón, de líneas y envío (formateado)',
+    example: '260.00',
+  })
+  @Expose()
+  @Transform(({ obj }) => (obj.discountAmountInCents / 100).toFixed(2))
+  discountAmount: string;
+
+  @ApiProperty({
+    description: 'Descuentos del cupón en centavos',
+    example: 26000,
+  })
+  @Expose()
+  discountAmountInCents: number;
+
+  @ApiProperty({
+    description: 'Costo de envío (formateado)',
+    example: '15.00',
+  })
+  @Expose()
+  @Transform(({ obj }) => (obj.shippingAmountInCents / 100).toFixed(2))
+  shippingAmount: string;
+
+  @ApiProperty({
+    description: 'Costo de envío en centavos',
+    example: 1500,
+  })
+  @Expose()
+  shippingAmountInCents: number;
+
   @ApiProperty({
     description: 'Monto total de la orden (formateado)',
     example: '2599.98',
@@ -103,6 +244,77 @@ export class OrderResponseDto {
   @Expose()
   totalAmountInCents: number;
 
+  @ApiProperty({
+    description: 'Parte del total pagada con saldo a favor (formateado)',
+    example: '50.00',
+  })
+  @Expose()
+  @Transform(({ obj }) => (obj.storeCreditAmountInCents / 100).toFixed(2))
+  storeCreditAmount: string;
+
+  @ApiProperty({
+    description: 'Parte del total pagada con saldo a favor en centavos',
+    example: 5000,
+  })
+  @Expose()
+  storeCreditAmountInCents: number;
+
+  @ApiProperty({
+    description:
+      'Monto a cobrar con el proveedor de pagos en centavos (total menos saldo a favor)',
+    example: 254998,
+  })
+  @Expose()
+  amountDueInCents: number;
+
+  @ApiProperty({
+    description: 'Modo de precios con el que se calcularon los impuestos',
+    enum: TaxPricingMode,
+    nullable: true,
+  })
+  @Expose()
+  taxMode: TaxPricingMode | null;
+
+  @ApiProperty({
+    description: 'País de destino usado para los impuestos',
+    example: 'CO',
+    nullable: true,
+  })
+  @Expose()
+  taxCountry: string | null;
+
+  @ApiProperty({
+    description: 'Región de destino usada para los impuestos',
+    example: 'ANTIOQUIA',
+    nullable: true,
+  })
+  @Expose()
+  taxRegion: string | null;
+
+  @ApiProperty({
+    description: 'Método de envío elegido',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+    nullable: true,
+  })
+  @Expose()
+  shippingMethodId: string | null;
+
+  @ApiProperty({
+    description: 'Nombre del método de envío al momento de la compra',
+    example: 'Envío express (24h)',
+    nullable: true,
+  })
+  @Expose()
+  shippingMethodName: string | null;
+
+  @ApiProperty({
+    description: 'Cupón aplicado',
+    example: 'VERANO10',
+    nullable: true,
+  })
+  @Expose()
+  promotionCode: string | null;
+
   @ApiProperty({
     description: 'Estado de la orden',
     enum: OrderStatus,
@@ -119,6 +331,30 @@ export class OrderResponseDto {
   @Expose()
   deliveryAddress: string | null;
 
+  @ApiProperty({
+    description: 'ID del usuario que canceló la orden',
+    example: '123e4567-e89b-12d3-a456-426614174001',
+    nullable: true,
+  })
+  @Expose()
+  cancelledBy: string | null;
+
+  @ApiProperty({
+    description: 'Motivo de la cancelación',
+    example: 'Ya no necesito el producto',
+    nullable: true,
+  })
+  @Expose()
+  cancellationReason: string | null;
+
+  @ApiProperty({
+    description: 'Fecha de cancelación',
+    example: '2023-12-01T16:00:00.000Z',
+    nullable: true,
+  })
+  @Expose()
+  cancelledAt: Date | null;
+
   @ApiProperty({
     description: 'Items de la orden',
     type: [OrderItemResponseDto],
@@ -127,6 +363,30 @@ export class OrderResponseDto {
   @Type(() => OrderItemResponseDto)
   items: OrderItemResponseDto[];
 
+  @ApiPropertyOptional({
+    description: 'Envíos con transportista y número de seguimiento',
+    type: [OrderShipmentDto],
+  })
+  @Expose()
+  @Type(() => OrderShipmentDto)
+  shipments?: OrderShipmentDto[];
+
+  @ApiPropertyOptional({
+    description: 'Devoluciones con su estado e historial',
+    type: [OrderReturnDto],
+  })
+  @Expose()
+  @Type(() => OrderReturnDto)
+  returns?: OrderReturnDto[];
+
+  @ApiPropertyOptional({
+    description: 'Historial de estados (solo con ?include=timeline)',
+    type: [OrderTimelineEntryDto],
+  })
+  @Expose()
+  @Type(() => OrderTimelineEntryDto)
+  timeline?: OrderTimelineEntryDto[];
+
   @ApiProperty({
     description: 'Fecha de creación',
     example: '2023-12-01T10:30:00.000Z',
@@ -0,0 +1,99 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Expose, Type } from 'class-transformer';
+import {
+  ReturnItemCondition,
+  ReturnReason,
+  ReturnStatus,
+} from '../../../domain/entities/return-request.entity';
+
+export class OrderReturnItemDto {
+  @ApiProperty({ description: 'ID del producto', example: 1 })
+  @Expose()
+  productId: number;
+
+  @ApiProperty({ description: 'Unidades devueltas', example: 1 })
+  @Expose()
+  quantity: number;
+
+  @ApiPropertyOptional({
+    description: 'Condición asignada al recibir',
+    enum: ReturnItemCondition,
+  })
+  @Expose()
+  condition?: ReturnItemCondition;
+}
+
+export class OrderReturnHistoryDto {
+  @ApiProperty({ description: 'Estado', enum: ReturnStatus })
+  @Expose()
+  status: ReturnStatus;
+
+  @ApiProperty({
+    description: 'ID del usuario que hizo el cambio',
+    example: '123e4567-e89b-12d3-a456-426614174001',
+  })
+  @Expose()
+  actorId: string;
+
+  @ApiProperty({ description: 'Nota del cambio', nullable: true })
+  @Expose()
+  note: string | null;
+
+  @ApiProperty({
+    description: 'Fecha del cambio',
+    example: '2023-12-10T12:00:00.000Z',
+  })
+  @Expose()
+  at: string;
+}
+
+export class OrderReturnDto {
+  @ApiProperty({
+    description: 'ID de la devolución',
+    example: '550e8400-e29b-41d4-a716-446655440000',
+  })
+  @Expose()
+  id: string;
+
+  @ApiProperty({ description: 'Estado de la devolución', enum: ReturnStatus })
+  @Expose()
+  status: ReturnStatus;
+
+  @ApiProperty({ description: 'Motivo', enum: ReturnReason })
+  @Expose()
+  reasonCode: ReturnReason;
+
+  @ApiProperty({ description: 'Comentario del cliente', nullable: true })
+  @Expose()
+  comment: string | null;
+
+  @ApiProperty({
+    description: 'Unidades a devolver',
+    type: [OrderReturnItemDto],
+  })
+  @Expose()
+  @Type(() => OrderReturnItemDto)
+  items: OrderReturnItemDto[];
+
+  @ApiProperty({
+    description: 'Historial de estados de la devolución',
+    type: [OrderReturnHistoryDto],
+  })
+  @Expose()
+  @Type(() => OrderReturnHistoryDto)
+  history: OrderReturnHistoryDto[];
+
+  @ApiProperty({
+    description: 'ID del reembolso asociado',
+    nullable: true,
+  })
+  @Expose()
+  refundId: string | null;
+
+  @ApiProperty({
+    description: 'Fecha de solicitud',
+    example: '2023-12-08T09:00:00.000Z',
+  })
+  @Expose()
+  createdAt: Date;
+}
@@ -0,0 +1,60 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { Expose, Type } from 'class-transformer';
+import { ShipmentStatus } from '../../../domain/entities/shipment.entity';
+
+export class OrderShipmentItemDto {
+  @ApiProperty({ description: 'ID del producto', example: 1 })
+  @Expose()
+  productId: number;
+
+  @ApiProperty({ description: 'Unidades enviadas', example: 2 })
+  @Expose()
+  quantity: number;
+}
+
+export class OrderShipmentDto {
+  @ApiProperty({
+    description: 'ID del envío',
+    example: '550e8400-e29b-41d4-a716-446655440000',
+  })
+  @Expose()
+  id: string;
+
+  @ApiProperty({ description: 'Transportista', example: 'UPS' })
+  @Expose()
+  carrier: string;
+
+  @ApiProperty({
+    description: 'Número de seguimiento',
+    example: '1Z999AA10123456784',
+  })
+  @Expose()
+  trackingNumber: string;
+
+  @ApiProperty({ description: 'Estado del envío', enum: ShipmentStatus })
+  @Expose()
+  status: ShipmentStatus;
+
+  @ApiProperty({
+    description: 'Unidades incluidas en el envío',
+    type: [OrderShipmentItemDto],
+  })
+  @Expose()
+  @Type(() => OrderShipmentItemDto)
+  items: OrderShipmentItemDto[];
+
+  @ApiProperty({
+    description: 'Fecha de despacho',
+    example: '2023-12-02T10:00:00.000Z',
+  })
+  @Expose()
+  shippedAt: Date;
+
+  @ApiProperty({
+    description: 'Fecha de entrega',
+    example: '2023-12-04T18:30:00.000Z',
+    nullable: true,
+  })
+  @Expose()
+  deliveredAt: Date | null;
+}
@@ -0,0 +1,45 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { Expose } from 'class-transformer';
+import { OrderStatus } from '../../../domain/entities/order.entity';
+
+export class OrderTimelineEntryDto {
+  @ApiProperty({
+    description: 'Estado anterior (null al crear la orden)',
+    enum: OrderStatus,
+    nullable: true,
+    example: OrderStatus.PENDING,
+  })
+  @Expose()
+  fromStatus: OrderStatus | null;
+
+  @ApiProperty({
+    description: 'Estado nuevo',
+    enum: OrderStatus,
+    example: OrderStatus.PROCESSING,
+  })
+  @Expose()
+  toStatus: OrderStatus;
+
+  @ApiProperty({
+    description: 'ID del usuario que hizo el cambio (null = sistema)',
+    example: '123e4567-e89b-12d3-a456-426614174001',
+    nullable: true,
+  })
+  @Expose()
+  actorId: string | null;
+
+  @ApiProperty({
+    description: 'Nota del cambio',
+    example: 'Cliente solicitó la cancelación por teléfono',
+    nullable: true,
+  })
+  @Expose()
+  note: string | null;
+
+  @ApiProperty({
+    description: 'Fecha del cambio',
+    example: '2023-12-01T15:45:00.000Z',
+  })
+  @Expose()
+  createdAt: Date;
+}
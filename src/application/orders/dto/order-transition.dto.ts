@@ -0,0 +1,20 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { Expose } from 'class-transformer';
+import { OrderStatus } from '../../../domain/entities/order.entity';
+
+export class OrderTransitionDto {
+  @ApiProperty({
+    description: 'Estado destino',
+    enum: OrderStatus,
+    example: OrderStatus.SHIPPED,
+  })
+  @Expose()
+  to: OrderStatus;
+
+  @ApiProperty({
+    description: 'Descripción de la transición',
+    example: 'Marcar la orden como enviada',
+  })
+  @Expose()
+  description: string;
+}
@@ -0,0 +1,26 @@
+import { IsEnum, IsOptional, IsString, MaxLength } from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { OrderStatus } from '../../../domain/entities/order.entity';
+
+export class UpdateOrderStatusDto {
+  @ApiProperty({
+    description: 'Nuevo estado de la orden',
+    enum: OrderStatus,
+    example: OrderStatus.PROCESSING,
+  })
+  @IsEnum(OrderStatus, {
+    message: 'El estado debe ser uno de los valores válidos',
+  })
+  status: OrderStatus;
+
+  @ApiPropertyOptional({
+    description:
+      'Nota opcional del cambio (se usa como motivo si el estado es Cancelled)',
+    example: 'Cliente solicitó la cancelación por teléfono',
+    maxLength: 500,
+  })
+  @IsOptional()
+  @IsString({ message: 'La nota debe ser texto' })
+  @MaxLength(500, { message: 'La nota no debe exceder 500 caracteres' })
+  note?: string;
+}
@@ -1,10 +1,19 @@
-import { PartialType } from '@nestjs/swagger';
+import { OmitType, PartialType } from '@nestjs/swagger';
 import { IsOptional, IsEnum } from 'class-validator';
 import { ApiPropertyOptional } from '@nestjs/swagger';
 import { CreateOrderDto } from './create-order.dto';
 import { OrderStatus } from '../../../domain/entities/order.entity';
 
-export class UpdateOrderDto extends PartialType(CreateOrderDto) {
+// El destino fiscal, el cupón y el saldo a favor quedan fijos al crear la orden
+export class UpdateOrderDto extends PartialType(
+  OmitType(CreateOrderDto, [
+    'country',
+    'region',
+    'shippingMethodId',
+    'couponCode',
+    'storeCreditAmount',
+  ] as const),
+) {
   @ApiPropertyOptional({
     description: 'Estado de la orden',
     enum: OrderStatus,
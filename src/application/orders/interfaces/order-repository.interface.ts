@@ -1,7 +1,98 @@
 import { Order } from '../../../domain/entities/order.entity';
 import { OrderItem } from '../../../domain/entities/order-item.entity';
-import { CreateOrderDto, UpdateOrderDto, OrderQueryDto } from '../dto';
+import { OrderStatusHistory } from '../../../domain/entities/order-status-history.entity';
+import {
+  CreateOrderDto,
+  CreateOrderItemDto,
+  UpdateOrderDto,
+  OrderQueryDto,
+} from '../dto';
 import { OrderStatus } from '../../../domain/entities/order.entity';
+import { TaxSchedule } from '../../../domain/entities/tax-rate.entity';
+import { ShippingCharge } from '../../../domain/entities/shipping-method.entity';
+import { WarehouseAllocationStrategy } from '../../../domain/entities/warehouse.entity';
+import {
+  Promotion,
+  PromotionDiscount,
+} from '../../../domain/entities/promotion.entity';
+import { PromotionUsage } from '../../promotions/interfaces/promotion-repository.interface';
+import { ReservationOwner } from '../../inventory/interfaces/inventory-reservation-repository.interface';
+
+/**
+ * Reglas de precio de una orden: tasas del destino, envío elegido y cupón
+ */
+export interface OrderPricing {
+  taxes: TaxSchedule;
+  shipping: ShippingCharge | null;
+  promotion: PromotionDiscount | null;
+  // Precio unitario por producto ya cobrado (checkout pagado); sin él se usa Product.price
+  prices?: Record<number, number>;
+}
+
+/**
+ * Pago de una orden con saldo a favor
+ * - amount: saldo a aplicar (se limita al total de la orden)
+ * - checkoutSessionId: sesión de checkout que ya reservó el saldo; no se
+ *   vuelve a debitar
+ * - assertBalance: valida el saldo de la cuenta bloqueada (puede lanzar
+ *   excepciones)
+ */
+export interface OrderStoreCredit {
+  amount: number;
+  checkoutSessionId?: string | null;
+  assertBalance: (balance: number, amount: number) => void;
+}
+
+/**
+ * Comprador sin cuenta de una orden
+ * - accessTokenHash: hash del order access token con el que se consulta sin sesión
+ */
+export interface OrderGuest {
+  guestCustomerId: string;
+  accessTokenHash: string;
+}
+
+/**
+ * Datos de la cancelación
+ * - refundToStoreCredit: acredita lo que quede capturado del pago al saldo a
+ *   favor del cliente (el saldo a favor usado se devuelve siempre)
+ */
+export interface CancelOrderData {
+  cancelledBy?: string | null;
+  reason?: string | null;
+  refundToStoreCredit?: boolean;
+}
+
+/**
+ * Autor y nota de un cambio de estado (se guardan en order_status_history)
+ */
+export interface StatusChangeContext {
+  actorId?: string | null;
+  note?: string | null;
+}
+
+/**
+ * Condiciones de un cambio de estado
+ * - expectedStatus: solo se aplica si la orden sigue en ese estado
+ */
+export interface StatusUpdateOptions {
+  expectedStatus?: OrderStatus;
+}
+
+/**
+ * Cambio de una línea al editar los items de una orden
+ * - previousQuantity: 0 si el producto se agrega
+ * - quantity: 0 si el producto se quita
+ * - stock/price: stock disponible (sin las reservas activas) y precio actuales
+ *   del producto (null si no existe)
+ */
+export interface OrderItemChange {
+  productId: number;
+  previousQuantity: number;
+  quantity: number;
+  stock: number | null;
+  price: number | null;
+}
 
 /**
  * Abstracción del Repository Pattern para Orders (DIP - Dependency Inversion Principle)
@@ -35,6 +126,21 @@ export interface IOrderRepository {
    */
   findById(id: string): Promise<Order | null>;
 
+  /**
+   * Encuentra una orden por su número legible con las mismas relaciones que findById
+   * @param orderNumber Número de orden (QC-2026-000123)
+   * @returns Promise<Order | null> Orden encontrada o null
+   */
+  findByOrderNumber(orderNumber: string): Promise<Order | null>;
+
+  /**
+   * Encuentra una orden de invitado por el hash de su order access token con
+   * las mismas relaciones que findById
+   * @param accessTokenHash SHA-256 del token (ver hashOrderAccessToken)
+   * @returns Promise<Order | null> Orden encontrada o null
+   */
+  findByAccessTokenHash(accessTokenHash: string): Promise<Order | null>;
+
   /**
    * Encuentra órdenes de un usuario específico
    * @param userId UUID del usuario
@@ -45,34 +151,134 @@ export interface IOrderRepository {
 
   /**
    * Crea una nueva orden con transacción atómica
-   * @param userId UUID del usuario
+   * Asigna el número de orden desde la secuencia order_number_seq
+   * Cada línea guarda su descuento y su desglose neto/impuesto/bruto según
+   * las tasas, y el envío se suma al total
+   * Con cupón, bloquea la promoción, valida sus usos y registra el canje
+   * Con saldo a favor, lo debita con la cuenta bloqueada
+   * El stock se valida con los productos bloqueados descontando las reservas
+   * activas de otros dueños, y las del dueño indicado quedan consumidas
+   * @param userId UUID del usuario (null en órdenes de invitado)
    * @param createData Datos de la orden a crear
-   * @returns Promise<Order> Orden creada con items incluidos
+   * @param pricing Tasas del destino, envío elegido y descuento del cupón
+   * @param assertRedemption Valida la promoción bloqueada y sus usos (puede
+   * lanzar excepciones)
+   * @param storeCredit Saldo a favor a aplicar
+   * @param guest Comprador sin cuenta y hash de su order access token
+   * @param reservation Checkout session o carrito cuyas reservas consume la orden
+   * @param allocation Estrategia para repartir las líneas entre almacenes
+   * (priority por defecto)
+   * @returns Promise<Order> Orden creada con items y asignaciones incluidos
    */
-  create(userId: string, createData: CreateOrderDto): Promise<Order>;
+  create(
+    userId: string | null,
+    createData: CreateOrderDto,
+    pricing: OrderPricing,
+    assertRedemption?: (
+      promotion: Promotion | null,
+      usage: PromotionUsage,
+    ) => void,
+    storeCredit?: OrderStoreCredit,
+    guest?: OrderGuest,
+    reservation?: ReservationOwner,
+    allocation?: WarehouseAllocationStrategy,
+  ): Promise<Order>;
 
   /**
    * Actualiza una orden existente
+   * Si cambia el estado, registra la transición en el historial
    * @param id UUID de la orden
    * @param updateData Datos a actualizar
+   * @param context Autor y nota del cambio de estado
    * @returns Promise<Order | null> Orden actualizada o null si no existe
    */
-  update(id: string, updateData: UpdateOrderDto): Promise<Order | null>;
+  update(
+    id: string,
+    updateData: UpdateOrderDto,
+    context?: StatusChangeContext,
+  ): Promise<Order | null>;
 
   /**
-   * Actualiza el estado de una orden
+   * Reemplaza los items de una orden en una transacción atómica
+   * Con la orden y los productos bloqueados, calcula la diferencia entre los
+   * items actuales y los nuevos, ajusta el stock en ambos sentidos, vuelve a
+   * poner precio e impuestos a las líneas y recalcula los totales
+   * Si el saldo a favor aplicado supera el nuevo total, acredita la diferencia
+   * @param id UUID de la orden
+   * @param items Items completos de la orden tras la edición
+   * @param assertChanges Valida los cambios (puede lanzar excepciones)
+   * @param pricing Tasas del destino, envío y descuento recalculados
+   * @param options Estado esperado y autor (se guarda en los movimientos de stock)
+   * @param allocation Estrategia para asignar las unidades agregadas a almacenes
+   * @returns Promise<Order | null> Orden actualizada, o null si no existe o
+   * ya no está en el estado esperado
+   */
+  updateItems(
+    id: string,
+    items: CreateOrderItemDto[],
+    assertChanges: (changes: OrderItemChange[]) => void,
+    pricing: OrderPricing,
+    options?: StatusUpdateOptions & StatusChangeContext,
+    allocation?: WarehouseAllocationStrategy,
+  ): Promise<Order | null>;
+
+  /**
+   * Actualiza el estado de una orden y registra la transición en el historial
    * @param id UUID de la orden
    * @param status Nuevo estado
-   * @returns Promise<Order | null> Orden actualizada
+   * @param context Autor y nota del cambio de estado
+   * @param options Estado esperado
+   * @returns Promise<Order | null> Orden actualizada, o null si no existe o
+   * ya no está en el estado esperado
+   */
+  updateStatus(
+    id: string,
+    status: OrderStatus,
+    context?: StatusChangeContext,
+    options?: StatusUpdateOptions,
+  ): Promise<Order | null>;
+
+  /**
+   * Obtiene el historial de estados de una orden (más antiguo primero)
+   * @param orderId UUID de la orden
+   * @returns Promise<OrderStatusHistory[]> Transiciones registradas
    */
-  updateStatus(id: string, status: OrderStatus): Promise<Order | null>;
+  findStatusHistory(orderId: string): Promise<OrderStatusHistory[]>;
 
   /**
-   * Soft delete de una orden (cancelar)
+   * Cancela una orden en una transacción atómica
+   * Marca la orden como Cancelled, devuelve al stock las unidades de cada item
+   * (descontando las ya reembolsadas), devuelve el saldo a favor usado y
+   * registra quién canceló y por qué
    * @param id UUID de la orden
-   * @returns Promise<boolean> true si se canceló correctamente
+   * @param data Autor, motivo y si se reembolsa el pago a saldo a favor
+   * @returns Promise<boolean> true si se canceló, false si no existe o ya no es cancelable
+   */
+  cancel(id: string, data: CancelOrderData): Promise<boolean>;
+
+  /**
+   * Verifica si la orden tiene un pago capturado (aunque esté reembolsado en parte)
+   * o si se pagó por completo con saldo a favor
+   * @param orderId UUID de la orden
+   * @returns Promise<boolean> true si hay un pago capturado
+   */
+  hasCapturedPayment(orderId: string): Promise<boolean>;
+
+  /**
+   * Monto del pago capturado que todavía no se reembolsó (sin contar el
+   * saldo a favor, que la cancelación siempre devuelve)
+   * @param orderId UUID de la orden
+   * @returns Promise<number> Centavos reembolsables (0 si no hay pago)
+   */
+  getRefundablePaymentAmount(orderId: string): Promise<number>;
+
+  /**
+   * Verifica si los envíos cubren todas las unidades de la orden
+   * (las unidades reembolsadas no necesitan envío)
+   * @param orderId UUID de la orden
+   * @returns Promise<boolean> true si no quedan unidades pendientes de envío
    */
-  cancel(id: string): Promise<boolean>;
+  isFullyShipped(orderId: string): Promise<boolean>;
 
   /**
    * Obtiene órdenes por estado
@@ -104,7 +310,10 @@ export interface IOrderRepository {
   getStats(): Promise<{
     total: number;
     byStatus: { status: OrderStatus; count: number }[];
-    totalRevenue: number;
+    totalRevenue: number; // bruto, con impuestos
+    netRevenue: number; // sin impuestos
+    taxCollected: number;
+    shippingRevenue: number;
     averageOrderValue: number;
     recentOrders: number; // últimas 24 horas
   }>;
@@ -130,11 +339,14 @@ export interface IOrderRepository {
 
   /**
    * Verifica disponibilidad de productos antes de crear orden
+   * El disponible es el stock menos las reservas activas de otros dueños
    * @param items Items a verificar
+   * @param reservation Checkout session o carrito cuyas reservas no se descuentan
    * @returns Promise<{ productId: number; available: number }[]> Stock disponible por producto
    */
   checkProductsAvailability(
     items: { productId: number; quantity: number }[],
+    reservation?: ReservationOwner,
   ): Promise<{ productId: number; available: number; requested: number }[]>;
 
   /**
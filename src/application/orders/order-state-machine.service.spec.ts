@@ -0,0 +1,174 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { UnprocessableEntityException } from '@nestjs/common';
+import { OrderStateMachine } from './order-state-machine.service';
+import { OrderStatus } from '../../domain/entities/order.entity';
+import { UserRole } from '../../domain/entities/user.entity';
+
+describe('OrderStateMachine', () => {
+  let stateMachine: OrderStateMachine;
+
+  const orderId = '550e8400-e29b-41d4-a716-446655440000';
+  const adminId = '550e8400-e29b-41d4-a716-446655440003';
+
+  const processingOrder: any = {
+    id: orderId,
+    userId: '550e8400-e29b-41d4-a716-446655440001',
+    status: OrderStatus.PROCESSING,
+  };
+
+  const mockOrderRepository = {
+    findById: jest.fn(),
+    updateStatus: jest.fn(),
+    cancel: jest.fn(),
+    hasCapturedPayment: jest.fn(),
+    getRefundablePaymentAmount: jest.fn(),
+    isFullyShipped: jest.fn(),
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        OrderStateMachine,
+        {
+          provide: 'IOrderRepository',
+          useValue: mockOrderRepository,
+        },
+      ],
+    }).compile();
+
+    stateMachine = module.get<OrderStateMachine>(OrderStateMachine);
+
+    jest.clearAllMocks();
+  });
+
+  it('should not ship while units are pending shipment', async () => {
+    // Arrange
+    mockOrderRepository.isFullyShipped.mockResolvedValue(false);
+
+    // Act & Assert
+    await expect(
+      stateMachine.transition(processingOrder, OrderStatus.SHIPPED, {
+        role: UserRole.ADMIN,
+        actorId: adminId,
+      }),
+    ).rejects.toThrow(UnprocessableEntityException);
+    expect(mockOrderRepository.updateStatus).not.toHaveBeenCalled();
+  });
+
+  it('should ship a fully shipped order and notify listeners', async () => {
+    // Arrange
+    const shipped = { ...processingOrder, status: OrderStatus.SHIPPED };
+    mockOrderRepository.isFullyShipped.mockResolvedValue(true);
+    mockOrderRepository.updateStatus.mockResolvedValue(shipped);
+    const listener = jest.fn();
+    stateMachine.onTransition(listener);
+
+    // Act
+    const result = await stateMachine.transition(
+      processingOrder,
+      OrderStatus.SHIPPED,
+      { role: UserRole.ADMIN, actorId: adminId },
+    );
+
+    // Assert
+    expect(result).toBe(shipped);
+    expect(mockOrderRepository.updateStatus).toHaveBeenCalledWith(
+      orderId,
+      OrderStatus.SHIPPED,
+      { actorId: adminId, note: undefined },
+      { expectedStatus: OrderStatus.PROCESSING },
+    );
+    expect(listener).toHaveBeenCalledWith(
+      expect.objectContaining({
+        from: OrderStatus.PROCESSING,
+        to: OrderStatus.SHIPPED,
+      }),
+    );
+  });
+
+  it('should keep the transition when a listener fails', async () => {
+    // Arrange
+    mockOrderRepository.cancel.mockResolvedValue(true);
+    mockOrderRepository.findById.mockResolvedValue({
+      ...processingOrder,
+      status: OrderStatus.CANCELLED,
+    });
+    stateMachine.onTransition(() => {
+      throw new Error('SMTP caído');
+    });
+
+    // Act
+    const result = await stateMachine.transition(
+      processingOrder,
+      OrderStatus.CANCELLED,
+      { role: UserRole.ADMIN, actorId: adminId },
+    );
+
+    // Assert
+    expect(result.status).toBe(OrderStatus.CANCELLED);
+    expect(mockOrderRepository.cancel).toHaveBeenCalledWith(orderId, {
+      cancelledBy: adminId,
+      reason: null,
+    });
+  });
+
+  describe('client cancellation', () => {
+    const clientContext = {
+      role: UserRole.CLIENT,
+      actorId: processingOrder.userId,
+    };
+
+    beforeEach(() => {
+      mockOrderRepository.cancel.mockResolvedValue(true);
+      mockOrderRepository.findById.mockResolvedValue({
+        ...processingOrder,
+        status: OrderStatus.CANCELLED,
+      });
+    });
+
+    it('should not let a client cancel a paid order without returning the payment', async () => {
+      // Arrange
+      mockOrderRepository.getRefundablePaymentAmount.mockResolvedValue(2500);
+
+      // Act & Assert
+      await expect(
+        stateMachine.transition(
+          processingOrder,
+          OrderStatus.CANCELLED,
+          clientContext,
+        ),
+      ).rejects.toThrow(UnprocessableEntityException);
+      expect(mockOrderRepository.cancel).not.toHaveBeenCalled();
+    });
+
+    it('should let a client cancel a paid order crediting the payment', async () => {
+      // Act
+      await stateMachine.transition(processingOrder, OrderStatus.CANCELLED, {
+        ...clientContext,
+        refundToStoreCredit: true,
+      });
+
+      // Assert
+      expect(mockOrderRepository.cancel).toHaveBeenCalledWith(orderId, {
+        cancelledBy: processingOrder.userId,
+        reason: null,
+        refundToStoreCredit: true,
+      });
+    });
+
+    it('should let a client cancel an unpaid order', async () => {
+      // Arrange
+      mockOrderRepository.getRefundablePaymentAmount.mockResolvedValue(0);
+
+      // Act
+      await stateMachine.transition(
+        processingOrder,
+        OrderStatus.CANCELLED,
+        clientContext,
+      );
+
+      // Assert
+      expect(mockOrderRepository.cancel).toHaveBeenCalled();
+    });
+  });
+});
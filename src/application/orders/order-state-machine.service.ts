@@ -0,0 +1,249 @@
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  Inject,
+  Injectable,
+  Logger,
+  NotFoundException,
+  UnprocessableEntityException,
+} from '@nestjs/common';
+import { Order, OrderStatus } from '../../domain/entities/order.entity';
+import { UserRole } from '../../domain/entities/user.entity';
+import { IOrderRepository } from './interfaces/order-repository.interface';
+import {
+  AvailableOrderTransition,
+  ORDER_TRANSITIONS,
+  OrderTransitionContext,
+  OrderTransitionDefinition,
+  OrderTransitionGuard,
+  OrderTransitionListener,
+} from './order-state-machine';
+
+/**
+ * OrderStateMachine - Ejecuta las transiciones declaradas en ORDER_TRANSITIONS
+ *
+ * Responsabilidades:
+ * - Validar que la transición existe, que el rol puede dispararla y sus guards
+ * - Persistir el cambio (con devolución de stock si la transición lo declara)
+ * - Notificar a los listeners registrados una vez confirmado el cambio
+ */
+@Injectable()
+export class OrderStateMachine {
+  private readonly logger = new Logger(OrderStateMachine.name);
+  private readonly listeners: OrderTransitionListener[] = [];
+
+  private static readonly GUARD_MESSAGES: Record<OrderTransitionGuard, string> =
+    {
+      fullyShipped:
+        'Todas las unidades deben estar cubiertas por envíos con número de seguimiento',
+      paymentCaptured: 'La orden no tiene un pago capturado',
+      paymentReturned:
+        'La orden ya fue pagada: cancélala con refundToStoreCredit o solicita el reembolso a un administrador',
+    };
+
+  constructor(
+    @Inject('IOrderRepository')
+    private readonly orderRepository: IOrderRepository,
+  ) {}
+
+  /**
+   * Registra un listener que se ejecuta después de cada transición
+   */
+  onTransition(listener: OrderTransitionListener): void {
+    this.listeners.push(listener);
+  }
+
+  /**
+   * Transiciones que el usuario puede disparar ahora sobre la orden
+   * @param order Orden actual
+   * @param context Rol y usuario actual
+   */
+  async getAvailableTransitions(
+    order: Order,
+    context: OrderTransitionContext,
+  ): Promise<AvailableOrderTransition[]> {
+    const available: AvailableOrderTransition[] = [];
+
+    for (const transition of this.findTransitionsFrom(order.status)) {
+      if (!this.isActorAllowed(transition, order, context)) {
+        continue;
+      }
+      const failed = await this.failedGuards(transition, order, context);
+      if (failed.length === 0) {
+        available.push({
+          to: transition.to,
+          description: transition.description,
+        });
+      }
+    }
+
+    return available;
+  }
+
+  /**
+   * Valida y aplica una transición
+   * @param order Orden actual
+   * @param to Estado destino
+   * @param context Actor y nota del cambio
+   * @returns Promise<Order> Orden actualizada
+   * @throws ConflictException si la transición no existe desde el estado actual
+   * @throws ForbiddenException si el rol no puede dispararla
+   * @throws UnprocessableEntityException si algún guard no se cumple
+   */
+  async transition(
+    order: Order,
+    to: OrderStatus,
+    context: OrderTransitionContext,
+  ): Promise<Order> {
+    const transition = await this.assertCanTransition(order, to, context);
+    const from = order.status;
+
+    let updated: Order | null;
+    if (transition.effects?.includes('restock')) {
+      const cancelled = await this.orderRepository.cancel(order.id, {
+        cancelledBy: context.actorId ?? null,
+        reason: context.note ?? null,
+        ...(context.refundToStoreCredit && { refundToStoreCredit: true }),
+      });
+      if (!cancelled) {
+        throw new BadRequestException(
+          `Error al cancelar orden con ID ${order.id}`,
+        );
+      }
+      updated = await this.orderRepository.findById(order.id);
+      if (!updated) {
+        throw new NotFoundException(`Orden con ID ${order.id} no encontrada`);
+      }
+    } else {
+      // expectedStatus evita pisar un cambio concurrente
+      updated = await this.orderRepository.updateStatus(
+        order.id,
+        to,
+        { actorId: context.actorId, note: context.note },
+        { expectedStatus: from },
+      );
+      if (!updated) {
+        throw new ConflictException(
+          `La orden ${order.id} cambió de estado, vuelve a intentarlo`,
+        );
+      }
+    }
+
+    this.logger.log(`Orden ${order.id}: ${from} → ${to}`);
+    await this.notify(updated, from, to, context);
+    return updated;
+  }
+
+  /**
+   * Valida una transición sin aplicarla
+   */
+  async assertCanTransition(
+    order: Order,
+    to: OrderStatus,
+    context: OrderTransitionContext,
+  ): Promise<OrderTransitionDefinition> {
+    // Una misma transición puede declararse con guards distintos por rol
+    const candidates = this.findTransitionsFrom(order.status).filter(
+      (t) => t.to === to,
+    );
+    if (candidates.length === 0) {
+      throw new ConflictException(
+        `No se puede cambiar el estado de ${order.status} a ${to}`,
+      );
+    }
+
+    const transition = candidates.find((t) =>
+      this.isActorAllowed(t, order, context),
+    );
+    if (!transition) {
+      throw new ForbiddenException(
+        `No tienes permisos para cambiar la orden a ${to}`,
+      );
+    }
+
+    const failed = await this.failedGuards(transition, order, context);
+    if (failed.length > 0) {
+      throw new UnprocessableEntityException({
+        message: failed.map((guard) => OrderStateMachine.GUARD_MESSAGES[guard]),
+        error: 'Unprocessable Entity',
+        guards: failed,
+      });
+    }
+
+    return transition;
+  }
+
+  private findTransitionsFrom(
+    status: OrderStatus,
+  ): OrderTransitionDefinition[] {
+    return ORDER_TRANSITIONS.filter((t) => t.from.includes(status));
+  }
+
+  private isActorAllowed(
+    transition: OrderTransitionDefinition,
+    order: Order,
+    context: OrderTransitionContext,
+  ): boolean {
+    if (!transition.roles.includes(context.role)) {
+      return false;
+    }
+    if (context.role === UserRole.CLIENT) {
+      return !!context.actorId && order.userId === context.actorId;
+    }
+    return true;
+  }
+
+  private async failedGuards(
+    transition: OrderTransitionDefinition,
+    order: Order,
+    context: OrderTransitionContext,
+  ): Promise<OrderTransitionGuard[]> {
+    const failed: OrderTransitionGuard[] = [];
+
+    for (const guard of transition.guards ?? []) {
+      if (!(await this.checkGuard(guard, order, context))) {
+        failed.push(guard);
+      }
+    }
+
+    return failed;
+  }
+
+  private async checkGuard(
+    guard: OrderTransitionGuard,
+    order: Order,
+    context: OrderTransitionContext,
+  ): Promise<boolean> {
+    switch (guard) {
+      case 'fullyShipped':
+        return this.orderRepository.isFullyShipped(order.id);
+      case 'paymentCaptured':
+        return this.orderRepository.hasCapturedPayment(order.id);
+      case 'paymentReturned':
+        return (
+          !!context.refundToStoreCredit ||
+          (await this.orderRepository.getRefundablePaymentAmount(order.id)) ===
+            0
+        );
+    }
+  }
+
+  private async notify(
+    order: Order,
+    from: OrderStatus,
+    to: OrderStatus,
+    context: OrderTransitionContext,
+  ): Promise<void> {
+    for (const listener of this.listeners) {
+      try {
+        await listener({ order, from, to, context });
+      } catch (error) {
+        this.logger.error(
+          `Error en listener de transición ${from} → ${to} de la orden ${order.id}`,
+          error,
+        );
+      }
+    }
+  }
+}
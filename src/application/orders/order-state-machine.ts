@@ -0,0 +1,136 @@
+import { Order, OrderStatus } from '../../domain/entities/order.entity';
+import { UserRole } from '../../domain/entities/user.entity';
+
+/**
+ * Guards: condiciones que deben cumplirse para disparar una transición
+ * - fullyShipped: envíos con número de seguimiento cubren todas las unidades
+ * - paymentCaptured: la orden debe tener un pago capturado
+ * - paymentReturned: lo que quede capturado del pago debe devolverse con la
+ *   cancelación (refundToStoreCredit)
+ */
+export type OrderTransitionGuard =
+  | 'fullyShipped'
+  | 'paymentCaptured'
+  | 'paymentReturned';
+
+/**
+ * Efectos que cambian cómo se persiste la transición
+ * - restock: cancela en una transacción devolviendo el stock
+ */
+export type OrderTransitionEffect = 'restock';
+
+export interface OrderTransitionDefinition {
+  from: OrderStatus[];
+  to: OrderStatus;
+  /**
+   * Roles que pueden dispararla; CLIENT solo aplica a órdenes propias
+   */
+  roles: UserRole[];
+  guards?: OrderTransitionGuard[];
+  effects?: OrderTransitionEffect[];
+  description: string;
+}
+
+/**
+ * Transición disponible para el usuario actual
+ */
+export interface AvailableOrderTransition {
+  to: OrderStatus;
+  description: string;
+}
+
+/**
+ * Datos del actor y de la petición que disparan una transición
+ * - refundToStoreCredit: al cancelar, acredita lo capturado al saldo a favor
+ */
+export interface OrderTransitionContext {
+  role: UserRole;
+  actorId?: string;
+  note?: string;
+  refundToStoreCredit?: boolean;
+}
+
+/**
+ * Listener que se ejecuta después de confirmar una transición (notificaciones, etc.)
+ * Los errores se registran y no revierten el cambio de estado
+ */
+export type OrderTransitionListener = (event: {
+  order: Order;
+  from: OrderStatus;
+  to: OrderStatus;
+  context: OrderTransitionContext;
+}) => Promise<void> | void;
+
+/**
+ * Máquina de estados de la orden
+ * Pending → Processing → Shipped → Delivered; Cancelled desde cualquier estado
+ * abierto. Refunded y PartiallyRefunded los asigna el flujo de reembolsos
+ */
+export const ORDER_TRANSITIONS: OrderTransitionDefinition[] = [
+  {
+    from: [OrderStatus.PENDING],
+    to: OrderStatus.PROCESSING,
+    roles: [UserRole.ADMIN],
+    guards: ['paymentCaptured'],
+    description: 'Iniciar la preparación de la orden',
+  },
+  {
+    from: [OrderStatus.PROCESSING],
+    to: OrderStatus.SHIPPED,
+    roles: [UserRole.ADMIN],
+    guards: ['fullyShipped'],
+    description: 'Marcar la orden como enviada',
+  },
+  {
+    from: [OrderStatus.SHIPPED],
+    to: OrderStatus.DELIVERED,
+    roles: [UserRole.ADMIN],
+    description: 'Marcar la orden como entregada',
+  },
+  // Un reembolso parcial no detiene el fulfillment del resto de la orden
+  {
+    from: [OrderStatus.PARTIALLY_REFUNDED],
+    to: OrderStatus.PROCESSING,
+    roles: [UserRole.ADMIN],
+    guards: ['paymentCaptured'],
+    description: 'Continuar la preparación de la orden',
+  },
+  {
+    from: [OrderStatus.PARTIALLY_REFUNDED],
+    to: OrderStatus.SHIPPED,
+    roles: [UserRole.ADMIN],
+    guards: ['fullyShipped'],
+    description: 'Marcar la orden como enviada',
+  },
+  {
+    from: [OrderStatus.PARTIALLY_REFUNDED],
+    to: OrderStatus.DELIVERED,
+    roles: [UserRole.ADMIN],
+    guards: ['fullyShipped'],
+    description: 'Marcar la orden como entregada',
+  },
+  {
+    from: [OrderStatus.PENDING, OrderStatus.PROCESSING],
+    to: OrderStatus.CANCELLED,
+    roles: [UserRole.ADMIN],
+    effects: ['restock'],
+    description: 'Cancelar la orden y devolver el stock',
+  },
+  // El cliente no puede quedarse sin el pedido y sin el dinero: si ya pagó,
+  // la cancelación debe acreditarle lo capturado (o la reembolsa un admin)
+  {
+    from: [OrderStatus.PENDING, OrderStatus.PROCESSING],
+    to: OrderStatus.CANCELLED,
+    roles: [UserRole.CLIENT],
+    guards: ['paymentReturned'],
+    effects: ['restock'],
+    description: 'Cancelar la orden y devolver el stock',
+  },
+  {
+    from: [OrderStatus.SHIPPED, OrderStatus.PARTIALLY_REFUNDED],
+    to: OrderStatus.CANCELLED,
+    roles: [UserRole.ADMIN],
+    effects: ['restock'],
+    description: 'Cancelar la orden y devolver el stock',
+  },
+];
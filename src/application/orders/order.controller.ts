@@ -14,6 +14,7 @@ import {
   Put,
   ValidationPipe,
   Request,
+  UseInterceptors,
 } from '@nestjs/common';
 import {
   ApiTags,
@@ -22,6 +23,7 @@ import {
   ApiBearerAuth,
   ApiQuery,
   ApiParam,
+  ApiHeader,
 } from '@nestjs/swagger';
 import { OrderService } from './order.service';
 import {
@@ -30,12 +32,20 @@ import {
   OrderResponseDto,
   OrderQueryDto,
   PaginatedOrderResponseDto,
+  UpdateOrderStatusDto,
+  CancelOrderDto,
+  OrderTimelineEntryDto,
+  OrderTransitionDto,
 } from './dto';
 import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
 import { RolesGuard } from '../auth/guards/roles.guard';
 import { Roles } from '../auth/decorators/roles.decorator';
 import { UserRole } from '../../domain/entities/user.entity';
 import { OrderStatus } from '../../domain/entities/order.entity';
+import {
+  IDEMPOTENCY_KEY_HEADER,
+  IdempotencyInterceptor,
+} from '../../shared/idempotency/idempotency.interceptor';
 
 /**
  * OrderController - Gestión de órdenes para e-commerce
@@ -64,11 +74,18 @@ export class OrderController {
   @Post()
   @Roles(UserRole.CLIENT, UserRole.ADMIN)
   @HttpCode(HttpStatus.CREATED)
+  @UseInterceptors(IdempotencyInterceptor)
   @ApiOperation({
     summary: 'Crear orden',
     description:
       'Crear una nueva orden con items del carrito. Valida stock automáticamente.',
   })
+  @ApiHeader({
+    name: IDEMPOTENCY_KEY_HEADER,
+    required: false,
+    description:
+      'Clave única por intento de compra. Un reintento con la misma clave devuelve la orden ya creada',
+  })
   @ApiResponse({
     status: 201,
     description: 'Orden creada exitosamente',
@@ -82,9 +99,14 @@ export class OrderController {
     status: 401,
     description: 'No autorizado',
   })
+  @ApiResponse({
+    status: 409,
+    description: 'Hay una petición en curso con el mismo Idempotency-Key',
+  })
   @ApiResponse({
     status: 422,
-    description: 'Stock insuficiente para algunos productos',
+    description:
+      'Stock insuficiente para algunos productos o Idempotency-Key usado con otra petición',
   })
   async create(
     @Body(ValidationPipe) createOrderDto: CreateOrderDto,
@@ -191,7 +213,9 @@ export class OrderController {
             },
           },
         },
-        totalRevenue: { type: 'number' },
+        totalRevenue: { type: 'number', description: 'Con impuestos' },
+        netRevenue: { type: 'number', description: 'Sin impuestos' },
+        taxCollected: { type: 'number' },
         averageOrderValue: { type: 'number' },
         recentOrders: { type: 'number' },
       },
@@ -314,6 +338,72 @@ export class OrderController {
     );
   }
 
+  /**
+   * Obtener orden por número legible
+   */
+  @Get('by-number/:number')
+  @Roles(UserRole.ADMIN, UserRole.CLIENT)
+  @ApiOperation({
+    summary: 'Obtener orden por número',
+    description:
+      'Obtener una orden por su número legible (QC-2026-000123). Los clientes solo pueden ver sus propias órdenes.',
+  })
+  @ApiParam({
+    name: 'number',
+    type: 'string',
+    description: 'Número de la orden',
+    example: 'QC-2026-000123',
+  })
+  @ApiQuery({
+    name: 'include',
+    required: false,
+    type: String,
+    description: 'Relaciones extra separadas por coma (timeline)',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Orden encontrada',
+    type: OrderResponseDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Número de orden inválido',
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'No autorizado',
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'No tienes permisos para ver esta orden',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Orden no encontrada',
+  })
+  async findByNumber(
+    @Param('number') orderNumber: string,
+    @Query('include') include: string | undefined,
+    @Request() req: any,
+  ): Promise<OrderResponseDto> {
+    const userRole = req.user.role;
+    const currentUserId = req.user.sub;
+    const includeTimeline = (include ?? '')
+      .split(',')
+      .map((value) => value.trim())
+      .includes('timeline');
+
+    this.logger.log(
+      `Buscando orden con número: ${orderNumber}, usuario: ${currentUserId}`,
+    );
+    return this.orderService.findByOrderNumber(
+      orderNumber,
+      userRole,
+      currentUserId,
+      { includeTimeline },
+    );
+  }
+
   /**
    * Obtener orden por ID
    */
@@ -325,6 +415,12 @@ export class OrderController {
       'Obtener una orden específica por su ID. Los clientes solo pueden ver sus propias órdenes.',
   })
   @ApiParam({ name: 'id', type: 'string', description: 'ID de la orden' })
+  @ApiQuery({
+    name: 'include',
+    required: false,
+    type: String,
+    description: 'Relaciones extra separadas por coma (timeline)',
+  })
   @ApiResponse({
     status: 200,
     description: 'Orden encontrada',
@@ -348,13 +444,101 @@ export class OrderController {
   })
   async findOne(
     @Param('id') id: string,
+    @Query('include') include: string | undefined,
     @Request() req: any,
   ): Promise<OrderResponseDto> {
     const userRole = req.user.role;
     const currentUserId = req.user.sub;
+    const includeTimeline = (include ?? '')
+      .split(',')
+      .map((value) => value.trim())
+      .includes('timeline');
 
     this.logger.log(`Buscando orden con ID: ${id}, usuario: ${currentUserId}`);
-    return this.orderService.findOne(id, userRole, currentUserId);
+    return this.orderService.findOne(id, userRole, currentUserId, {
+      includeTimeline,
+    });
+  }
+
+  /**
+   * Obtener historial de estados de una orden
+   */
+  @Get(':id/timeline')
+  @Roles(UserRole.ADMIN, UserRole.CLIENT)
+  @ApiOperation({
+    summary: 'Timeline de la orden',
+    description:
+      'Historial de cambios de estado con autor, fecha y nota. Los clientes solo ven sus propias órdenes.',
+  })
+  @ApiParam({ name: 'id', type: 'string', description: 'ID de la orden' })
+  @ApiResponse({
+    status: 200,
+    description: 'Historial de estados',
+    type: [OrderTimelineEntryDto],
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'ID de orden inválido',
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'No tienes permisos para ver esta orden',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Orden no encontrada',
+  })
+  async getTimeline(
+    @Param('id') id: string,
+    @Request() req: any,
+  ): Promise<OrderTimelineEntryDto[]> {
+    const userRole = req.user.role;
+    const currentUserId = req.user.sub;
+
+    this.logger.log(`Obteniendo timeline de orden ${id}`);
+    return this.orderService.getTimeline(id, userRole, currentUserId);
+  }
+
+  /**
+   * Listar transiciones de estado disponibles para el usuario actual
+   */
+  @Get(':id/transitions')
+  @Roles(UserRole.ADMIN, UserRole.CLIENT)
+  @ApiOperation({
+    summary: 'Transiciones disponibles',
+    description:
+      'Estados a los que el usuario actual puede mover la orden según su rol y los guards de la máquina de estados.',
+  })
+  @ApiParam({ name: 'id', type: 'string', description: 'ID de la orden' })
+  @ApiResponse({
+    status: 200,
+    description: 'Transiciones disponibles',
+    type: [OrderTransitionDto],
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'ID de orden inválido',
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'No tienes permisos para ver esta orden',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Orden no encontrada',
+  })
+  async getTransitions(
+    @Param('id') id: string,
+    @Request() req: any,
+  ): Promise<OrderTransitionDto[]> {
+    const userRole = req.user.role;
+    const currentUserId = req.user.sub;
+
+    return this.orderService.getAvailableTransitions(
+      id,
+      userRole,
+      currentUserId,
+    );
   }
 
   /**
@@ -365,7 +549,7 @@ export class OrderController {
   @ApiOperation({
     summary: 'Actualizar orden',
     description:
-      'Actualizar una orden. Los clientes solo pueden editar órdenes PENDING propias.',
+      'Actualizar una orden. Los clientes solo pueden editar órdenes PENDING propias. Si se envían items, reemplazan a los actuales: se ajusta el stock, se vuelve a poner precio a las líneas y se recalcula el total (solo órdenes PENDING sin pago capturado).',
   })
   @ApiParam({ name: 'id', type: 'string', description: 'ID de la orden' })
   @ApiResponse({
@@ -389,6 +573,10 @@ export class OrderController {
     status: 409,
     description: 'La orden no se puede modificar en su estado actual',
   })
+  @ApiResponse({
+    status: 422,
+    description: 'Stock insuficiente para las unidades agregadas',
+  })
   async update(
     @Param('id') id: string,
     @Body(ValidationPipe) updateOrderDto: UpdateOrderDto,
@@ -442,14 +630,27 @@ export class OrderController {
     status: 409,
     description: 'Transición de estado inválida',
   })
+  @ApiResponse({
+    status: 422,
+    description:
+      'La transición no cumple sus guards (pago capturado, envíos completos)',
+  })
   async updateStatus(
     @Param('id') id: string,
-    @Body('status') status: OrderStatus,
+    @Body(ValidationPipe) updateOrderStatusDto: UpdateOrderStatusDto,
     @Request() req: any,
   ): Promise<OrderResponseDto> {
     const userRole = req.user.role;
+    const currentUserId = req.user.sub;
+    const { status, note } = updateOrderStatusDto;
     this.logger.log(`Admin actualizando estado de orden ${id} a: ${status}`);
-    return this.orderService.updateStatus(id, status, userRole);
+    return this.orderService.updateStatus(
+      id,
+      status,
+      userRole,
+      currentUserId,
+      note,
+    );
   }
 
   /**
@@ -461,7 +662,7 @@ export class OrderController {
   @ApiOperation({
     summary: 'Cancelar orden',
     description:
-      'Cancelar una orden (soft delete). Solo se pueden cancelar órdenes PENDING o PROCESSING.',
+      'Cancelar una orden y devolver su stock y el saldo a favor usado. Registra quién la canceló y el motivo opcional; refundToStoreCredit acredita lo pagado al saldo a favor (un cliente no puede cancelar una orden pagada sin él).',
   })
   @ApiParam({ name: 'id', type: 'string', description: 'ID de la orden' })
   @ApiResponse({
@@ -484,13 +685,27 @@ export class OrderController {
     status: 409,
     description: 'La orden no se puede cancelar en su estado actual',
   })
-  async cancel(@Param('id') id: string, @Request() req: any): Promise<void> {
+  @ApiResponse({
+    status: 422,
+    description: 'La orden ya fue pagada y no se pidió refundToStoreCredit',
+  })
+  async cancel(
+    @Param('id') id: string,
+    @Body(ValidationPipe) cancelOrderDto: CancelOrderDto,
+    @Request() req: any,
+  ): Promise<void> {
     const userRole = req.user.role;
     const currentUserId = req.user.sub;
 
     this.logger.log(
       `Cancelando orden con ID: ${id}, usuario: ${currentUserId}`,
     );
-    await this.orderService.cancel(id, userRole, currentUserId);
+    await this.orderService.cancel(
+      id,
+      userRole,
+      currentUserId,
+      cancelOrderDto.reason,
+      cancelOrderDto.refundToStoreCredit,
+    );
   }
 }
@@ -1,13 +1,20 @@
 import { Module } from '@nestjs/common';
 import { TypeOrmModule } from '@nestjs/typeorm';
 import { OrderService } from './order.service';
+import { OrderStateMachine } from './order-state-machine.service';
 import { OrderController } from './order.controller';
 import { OrderRepository } from '../../infrastructure/repositories/order.repository';
 import { Order } from '../../domain/entities/order.entity';
 import { OrderItem } from '../../domain/entities/order-item.entity';
+import { OrderStatusHistory } from '../../domain/entities/order-status-history.entity';
 import { Product } from '../../domain/entities/product.entity';
 import { User } from '../../domain/entities/user.entity';
 import { IOrderRepository } from './interfaces/order-repository.interface';
+import { TaxModule } from '../taxes/tax.module';
+import { ShippingModule } from '../shipping/shipping.module';
+import { PromotionsModule } from '../promotions/promotions.module';
+import { StoreCreditModule } from '../store-credit/store-credit.module';
+import { WarehousesModule } from '../warehouses/warehouses.module';
 
 /**
  * OrderModule - Módulo de gestión de órdenes
@@ -22,7 +29,20 @@ import { IOrderRepository } from './interfaces/order-repository.interface';
 @Module({
   imports: [
     // Configuración de TypeORM para las entidades relacionadas
-    TypeOrmModule.forFeature([Order, OrderItem, Product, User]),
+    TypeOrmModule.forFeature([
+      Order,
+      OrderItem,
+      OrderStatusHistory,
+      Product,
+      User,
+    ]),
+    // Cálculo de impuestos al crear y editar órdenes
+    TaxModule,
+    ShippingModule,
+    PromotionsModule,
+    StoreCreditModule,
+    // Estrategia de asignación de almacenes
+    WarehousesModule,
   ],
   controllers: [
     // REST API Controller con endpoints CRUD y RBAC
@@ -31,6 +51,8 @@ import { IOrderRepository } from './interfaces/order-repository.interface';
   providers: [
     // Servicio de lógica de negocio
     OrderService,
+    // Transiciones de estado declarativas (roles, guards y efectos)
+    OrderStateMachine,
     // Repository implementation binding to interface (DIP)
     {
       provide: 'IOrderRepository',
@@ -40,6 +62,7 @@ import { IOrderRepository } from './interfaces/order-repository.interface';
   exports: [
     // Exportar servicio para uso en otros módulos
     OrderService,
+    OrderStateMachine,
     // Exportar interface para dependency injection
     'IOrderRepository',
   ],
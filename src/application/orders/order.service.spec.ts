@@ -3,12 +3,22 @@ import {
   NotFoundException,
   BadRequestException,
   ForbiddenException,
+  ConflictException,
+  UnprocessableEntityException,
 } from '@nestjs/common';
 import { OrderService } from './order.service';
+import { OrderStateMachine } from './order-state-machine.service';
 import { IOrderRepository } from './interfaces/order-repository.interface';
 import { CreateOrderDto } from './dto/create-order.dto';
 import { OrderStatus } from '../../domain/entities/order.entity';
 import { UserRole } from '../../domain/entities/user.entity';
+import { TaxPricingMode } from '../../domain/entities/tax-rate.entity';
+import { TaxService } from '../taxes/tax.service';
+import { ShippingService } from '../shipping/shipping.service';
+import { PromotionService } from '../promotions/promotion.service';
+import { StoreCreditService } from '../store-credit/store-credit.service';
+import { WarehouseService } from '../warehouses/warehouse.service';
+import { WarehouseAllocationStrategy } from '../../domain/entities/warehouse.entity';
 
 describe('OrderService - Tests Básicos', () => {
   let service: OrderService;
@@ -22,6 +32,7 @@ describe('OrderService - Tests Básicos', () => {
 
   const mockOrder = {
     id: validOrderId,
+    orderNumber: 'QC-2026-000123',
     userId: validUserId,
     totalAmount: 20000, // en centavos = $200
     status: OrderStatus.PENDING,
@@ -39,21 +50,63 @@ describe('OrderService - Tests Básicos', () => {
   const mockOrderRepository = {
     create: jest.fn(),
     findById: jest.fn(),
+    findByOrderNumber: jest.fn(),
+    update: jest.fn(),
+    updateItems: jest.fn(),
     updateStatus: jest.fn(),
     cancel: jest.fn(),
+    findStatusHistory: jest.fn(),
+    hasCapturedPayment: jest.fn(),
+    getRefundablePaymentAmount: jest.fn(),
+    isFullyShipped: jest.fn(),
     checkProductsAvailability: jest.fn(),
     findWithFilters: jest.fn(),
     getStats: jest.fn(),
   };
 
+  const taxes = {
+    country: 'CO',
+    region: null,
+    mode: TaxPricingMode.EXCLUSIVE,
+    rates: { standard: 19 },
+  };
+
+  const mockTaxService = {
+    resolveSchedule: jest.fn(),
+  };
+
+  const mockShippingService = {
+    priceItems: jest.fn(),
+  };
+
+  const mockPromotionService = {
+    priceItems: jest.fn(),
+    repriceItems: jest.fn(),
+    assertRedeemable: jest.fn(),
+  };
+
+  const mockStoreCreditService = {
+    assertBalance: jest.fn(),
+  };
+
+  const mockWarehouseService = {
+    allocationStrategy: jest.fn(),
+  };
+
   beforeEach(async () => {
     const module: TestingModule = await Test.createTestingModule({
       providers: [
         OrderService,
+        OrderStateMachine,
         {
           provide: 'IOrderRepository',
           useValue: mockOrderRepository,
         },
+        { provide: TaxService, useValue: mockTaxService },
+        { provide: ShippingService, useValue: mockShippingService },
+        { provide: PromotionService, useValue: mockPromotionService },
+        { provide: StoreCreditService, useValue: mockStoreCreditService },
+        { provide: WarehouseService, useValue: mockWarehouseService },
       ],
     }).compile();
 
@@ -61,6 +114,12 @@ describe('OrderService - Tests Básicos', () => {
     orderRepository = module.get('IOrderRepository');
 
     jest.clearAllMocks();
+
+    mockOrderRepository.getRefundablePaymentAmount.mockResolvedValue(0);
+    mockTaxService.resolveSchedule.mockResolvedValue(taxes);
+    mockWarehouseService.allocationStrategy.mockReturnValue(
+      WarehouseAllocationStrategy.PRIORITY,
+    );
   });
 
   // Test básico: Crear una orden exitosamente
@@ -85,7 +144,244 @@ describe('OrderService - Tests Básicos', () => {
       expect(orderRepository.create).toHaveBeenCalledWith(
         validUserId,
         createOrderDto,
+        { taxes, shipping: null, promotion: null },
+        expect.any(Function),
+        undefined,
+        undefined,
+        undefined,
+        WarehouseAllocationStrategy.PRIORITY,
+      );
+      expect(mockShippingService.priceItems).not.toHaveBeenCalled();
+    });
+
+    it('should charge the chosen shipping method for the destination', async () => {
+      // Arrange
+      const shipping = {
+        methodId: '550e8400-e29b-41d4-a716-446655440020',
+        name: 'Envío express',
+        amount: 1500,
+      };
+      const createOrderDto: CreateOrderDto = {
+        items: [{ productId: 1, quantity: 2 }],
+        country: 'CO',
+        region: 'ANTIOQUIA',
+        shippingMethodId: shipping.methodId,
+      };
+      orderRepository.checkProductsAvailability.mockResolvedValue([
+        { productId: 1, available: 10, requested: 2 },
+      ]);
+      mockShippingService.priceItems.mockResolvedValue(shipping);
+      orderRepository.create.mockResolvedValue({
+        ...mockOrder,
+        shippingMethodId: shipping.methodId,
+        shippingMethodName: shipping.name,
+        shippingAmount: shipping.amount,
+      });
+
+      // Act
+      const result = await service.create(validUserId, createOrderDto);
+
+      // Assert
+      expect(mockShippingService.priceItems).toHaveBeenCalledWith(
+        shipping.methodId,
+        createOrderDto.items,
+        { country: 'CO', region: 'ANTIOQUIA' },
+      );
+      expect(orderRepository.create).toHaveBeenCalledWith(
+        validUserId,
+        createOrderDto,
+        { taxes, shipping, promotion: null },
+        expect.any(Function),
+        undefined,
+        undefined,
+        undefined,
+        WarehouseAllocationStrategy.PRIORITY,
       );
+      expect(result.shippingAmountInCents).toBe(1500);
+      expect(result.shippingMethodName).toBe('Envío express');
+    });
+
+    it('should create guest orders without a user', async () => {
+      // Arrange
+      const guest = {
+        guestCustomerId: '550e8400-e29b-41d4-a716-446655440080',
+        accessTokenHash: 'a'.repeat(64),
+      };
+      const createOrderDto: CreateOrderDto = {
+        items: [{ productId: 1, quantity: 2 }],
+        deliveryAddress: 'Test Address',
+      };
+      orderRepository.checkProductsAvailability.mockResolvedValue([
+        { productId: 1, available: 10, requested: 2 },
+      ]);
+      orderRepository.create.mockResolvedValue({
+        ...mockOrder,
+        userId: null,
+        guestCustomerId: guest.guestCustomerId,
+      });
+
+      // Act
+      const result = await service.create(null, createOrderDto, { guest });
+
+      // Assert
+      expect(orderRepository.create).toHaveBeenCalledWith(
+        null,
+        createOrderDto,
+        { taxes, shipping: null, promotion: null },
+        expect.any(Function),
+        undefined,
+        guest,
+        undefined,
+        WarehouseAllocationStrategy.PRIORITY,
+      );
+      expect(result.guestCustomerId).toBe(guest.guestCustomerId);
+    });
+
+    it('should not count the stock reserved by its own checkout session', async () => {
+      // Arrange
+      const checkoutSessionId = '550e8400-e29b-41d4-a716-446655440090';
+      const createOrderDto: CreateOrderDto = {
+        items: [{ productId: 1, quantity: 2 }],
+      };
+      orderRepository.checkProductsAvailability.mockResolvedValue([
+        { productId: 1, available: 2, requested: 2 },
+      ]);
+      orderRepository.create.mockResolvedValue(mockOrder);
+
+      // Act
+      await service.create(validUserId, createOrderDto, { checkoutSessionId });
+
+      // Assert
+      expect(orderRepository.checkProductsAvailability).toHaveBeenCalledWith(
+        createOrderDto.items,
+        { checkoutSessionId },
+      );
+      expect(orderRepository.create).toHaveBeenCalledWith(
+        validUserId,
+        createOrderDto,
+        { taxes, shipping: null, promotion: null },
+        expect.any(Function),
+        undefined,
+        undefined,
+        { checkoutSessionId },
+        WarehouseAllocationStrategy.PRIORITY,
+      );
+    });
+
+    it('should keep the pricing of a paid checkout without checking the coupon again', async () => {
+      // Arrange
+      const checkoutSessionId = '550e8400-e29b-41d4-a716-446655440090';
+      const pricing = {
+        taxes,
+        shipping: null,
+        promotion: {
+          promotionId: '550e8400-e29b-41d4-a716-446655440070',
+          code: 'VERANO10',
+          lines: [{ productId: 1, amount: 200 }],
+          shipping: 0,
+          total: 200,
+        },
+        prices: { 1: 1000 },
+      };
+      const createOrderDto: CreateOrderDto = {
+        items: [{ productId: 1, quantity: 2 }],
+        couponCode: 'VERANO10',
+      };
+      orderRepository.checkProductsAvailability.mockResolvedValue([
+        { productId: 1, available: 2, requested: 2 },
+      ]);
+      orderRepository.create.mockImplementation(
+        async (_userId, _dto, _pricing, assertRedemption) => {
+          assertRedemption(null, { total: 100, byUser: 1 });
+          return mockOrder;
+        },
+      );
+
+      // Act
+      await service.create(validUserId, createOrderDto, {
+        checkoutSessionId,
+        pricing,
+      });
+
+      // Assert
+      expect(orderRepository.create).toHaveBeenCalledWith(
+        validUserId,
+        createOrderDto,
+        pricing,
+        expect.any(Function),
+        undefined,
+        undefined,
+        { checkoutSessionId },
+        WarehouseAllocationStrategy.PRIORITY,
+      );
+      expect(mockTaxService.resolveSchedule).not.toHaveBeenCalled();
+      expect(mockPromotionService.priceItems).not.toHaveBeenCalled();
+      expect(mockPromotionService.assertRedeemable).not.toHaveBeenCalled();
+    });
+
+    it('should reject coupons on guest orders', async () => {
+      // Arrange
+      const guest = {
+        guestCustomerId: '550e8400-e29b-41d4-a716-446655440080',
+        accessTokenHash: 'a'.repeat(64),
+      };
+
+      // Act & Assert
+      await expect(
+        service.create(
+          null,
+          { items: [{ productId: 1, quantity: 2 }], couponCode: 'VERANO10' },
+          { guest },
+        ),
+      ).rejects.toThrow(BadRequestException);
+      expect(orderRepository.create).not.toHaveBeenCalled();
+    });
+
+    it('should apply the coupon after shipping and revalidate it when redeeming', async () => {
+      // Arrange
+      const promotion = {
+        promotionId: '550e8400-e29b-41d4-a716-446655440050',
+        code: 'VERANO10',
+        lines: [{ productId: 1, amount: 200 }],
+        shipping: 0,
+        total: 200,
+      };
+      const createOrderDto: CreateOrderDto = {
+        items: [{ productId: 1, quantity: 2 }],
+        couponCode: 'VERANO10',
+      };
+      orderRepository.checkProductsAvailability.mockResolvedValue([
+        { productId: 1, available: 10, requested: 2 },
+      ]);
+      mockPromotionService.priceItems.mockResolvedValue(promotion);
+      orderRepository.create.mockImplementation(
+        async (_userId, _dto, _pricing, assertRedemption) => {
+          assertRedemption(null, { total: 0, byUser: 0 });
+          return {
+            ...mockOrder,
+            promotionCode: 'VERANO10',
+            discountAmount: 200,
+          };
+        },
+      );
+
+      // Act
+      const result = await service.create(validUserId, createOrderDto);
+
+      // Assert
+      expect(mockPromotionService.priceItems).toHaveBeenCalledWith(
+        'VERANO10',
+        validUserId,
+        createOrderDto.items,
+        0,
+      );
+      expect(mockPromotionService.assertRedeemable).toHaveBeenCalledWith(
+        null,
+        { total: 0, byUser: 0 },
+        'VERANO10',
+      );
+      expect(result.promotionCode).toBe('VERANO10');
+      expect(result.discountAmountInCents).toBe(200);
     });
 
     it('should throw error when insufficient stock', async () => {
@@ -106,6 +402,114 @@ describe('OrderService - Tests Básicos', () => {
     });
   });
 
+  // Edición de items de órdenes Pending
+  describe('update items', () => {
+    const changes = [
+      {
+        productId: 1,
+        previousQuantity: 2,
+        quantity: 1,
+        stock: 0,
+        price: 10000,
+      },
+      { productId: 2, previousQuantity: 0, quantity: 3, stock: 3, price: 500 },
+    ];
+
+    it('should reconcile items of a pending order', async () => {
+      // Arrange
+      orderRepository.findById.mockResolvedValue(mockOrder);
+      orderRepository.hasCapturedPayment.mockResolvedValue(false);
+      orderRepository.updateItems.mockImplementation(
+        async (_id, _items, assertChanges) => {
+          assertChanges(changes);
+          return { ...mockOrder, totalAmount: 11500 };
+        },
+      );
+      const items = [
+        { productId: 1, quantity: 1 },
+        { productId: 2, quantity: 3 },
+      ];
+
+      // Act
+      const result = await service.update(
+        validOrderId,
+        { items },
+        UserRole.CLIENT,
+        validUserId,
+      );
+
+      // Assert
+      expect(result.totalAmountInCents).toBe(11500);
+      expect(orderRepository.updateItems).toHaveBeenCalledWith(
+        validOrderId,
+        items,
+        expect.any(Function),
+        { taxes, shipping: null, promotion: null },
+        { expectedStatus: OrderStatus.PENDING, actorId: validUserId },
+        WarehouseAllocationStrategy.PRIORITY,
+      );
+      expect(orderRepository.update).not.toHaveBeenCalled();
+    });
+
+    it('should reject additional units without stock', async () => {
+      // Arrange
+      orderRepository.findById.mockResolvedValue(mockOrder);
+      orderRepository.hasCapturedPayment.mockResolvedValue(false);
+      orderRepository.updateItems.mockImplementation(
+        async (_id, _items, assertChanges) => {
+          assertChanges([{ ...changes[1], stock: 2 }]);
+          return mockOrder;
+        },
+      );
+
+      // Act & Assert
+      await expect(
+        service.update(
+          validOrderId,
+          { items: [{ productId: 2, quantity: 3 }] },
+          UserRole.CLIENT,
+          validUserId,
+        ),
+      ).rejects.toThrow(UnprocessableEntityException);
+    });
+
+    it('should not edit items of a paid order', async () => {
+      // Arrange
+      orderRepository.findById.mockResolvedValue(mockOrder);
+      orderRepository.hasCapturedPayment.mockResolvedValue(true);
+
+      // Act & Assert
+      await expect(
+        service.update(
+          validOrderId,
+          { items: [{ productId: 1, quantity: 1 }] },
+          UserRole.CLIENT,
+          validUserId,
+        ),
+      ).rejects.toThrow(ConflictException);
+      expect(orderRepository.updateItems).not.toHaveBeenCalled();
+    });
+
+    it('should not edit items of orders that are no longer pending', async () => {
+      // Arrange
+      orderRepository.findById.mockResolvedValue({
+        ...mockOrder,
+        status: OrderStatus.PROCESSING,
+      });
+
+      // Act & Assert
+      await expect(
+        service.update(
+          validOrderId,
+          { items: [{ productId: 1, quantity: 1 }] },
+          UserRole.ADMIN,
+          validUserId,
+        ),
+      ).rejects.toThrow(ConflictException);
+      expect(orderRepository.updateItems).not.toHaveBeenCalled();
+    });
+  });
+
   // Test básico: Buscar una orden por ID
   describe('findOne', () => {
     it('should return order when found and user is owner', async () => {
@@ -146,11 +550,58 @@ describe('OrderService - Tests Básicos', () => {
     });
   });
 
+  describe('findByOrderNumber', () => {
+    it('should resolve the order by its number for the owner', async () => {
+      // Arrange
+      orderRepository.findByOrderNumber.mockResolvedValue(mockOrder);
+
+      // Act
+      const result = await service.findByOrderNumber(
+        'qc-2026-000123',
+        UserRole.CLIENT,
+        validUserId,
+      );
+
+      // Assert
+      expect(result.id).toBe(validOrderId);
+      expect(result.orderNumber).toBe('QC-2026-000123');
+      expect(orderRepository.findByOrderNumber).toHaveBeenCalledWith(
+        'QC-2026-000123',
+      );
+    });
+
+    it('should throw ForbiddenException when client looks up another user order', async () => {
+      // Arrange
+      orderRepository.findByOrderNumber.mockResolvedValue({
+        ...mockOrder,
+        userId: otherUserId,
+      });
+
+      // Act & Assert
+      await expect(
+        service.findByOrderNumber(
+          'QC-2026-000123',
+          UserRole.CLIENT,
+          validUserId,
+        ),
+      ).rejects.toThrow(ForbiddenException);
+    });
+
+    it('should throw BadRequestException for malformed numbers', async () => {
+      // Act & Assert
+      await expect(
+        service.findByOrderNumber('123', UserRole.ADMIN, validUserId),
+      ).rejects.toThrow(BadRequestException);
+      expect(orderRepository.findByOrderNumber).not.toHaveBeenCalled();
+    });
+  });
+
   // Test básico: Actualizar estado de orden
   describe('updateStatus', () => {
     it('should update order status successfully for admin', async () => {
       // Arrange
       orderRepository.findById.mockResolvedValue(mockOrder);
+      orderRepository.hasCapturedPayment.mockResolvedValue(true);
       const updatedOrder = { ...mockOrder, status: OrderStatus.PROCESSING };
       orderRepository.updateStatus.mockResolvedValue(updatedOrder);
 
@@ -166,10 +617,67 @@ describe('OrderService - Tests Básicos', () => {
       expect(orderRepository.updateStatus).toHaveBeenCalledWith(
         validOrderId,
         OrderStatus.PROCESSING,
+        { actorId: undefined, note: undefined },
+        { expectedStatus: OrderStatus.PENDING },
+      );
+    });
+
+    it('should reject Processing when the order has no captured payment', async () => {
+      // Arrange
+      orderRepository.findById.mockResolvedValue(mockOrder);
+      orderRepository.hasCapturedPayment.mockResolvedValue(false);
+
+      // Act & Assert
+      await expect(
+        service.updateStatus(
+          validOrderId,
+          OrderStatus.PROCESSING,
+          UserRole.ADMIN,
+        ),
+      ).rejects.toThrow(UnprocessableEntityException);
+      expect(orderRepository.updateStatus).not.toHaveBeenCalled();
+    });
+
+    it('should reject Pending to Delivered without going through shipping', async () => {
+      // Arrange
+      orderRepository.findById.mockResolvedValue(mockOrder);
+
+      // Act & Assert
+      await expect(
+        service.updateStatus(
+          validOrderId,
+          OrderStatus.DELIVERED,
+          UserRole.ADMIN,
+        ),
+      ).rejects.toThrow(ConflictException);
+    });
+
+    it('should cancel with restock when the new status is Cancelled', async () => {
+      // Arrange
+      orderRepository.findById.mockResolvedValue(mockOrder);
+      orderRepository.cancel.mockResolvedValue(true);
+
+      // Act
+      await service.updateStatus(
+        validOrderId,
+        OrderStatus.CANCELLED,
+        UserRole.ADMIN,
+        validUserId,
+        'Sin stock del proveedor',
       );
+
+      // Assert
+      expect(orderRepository.cancel).toHaveBeenCalledWith(validOrderId, {
+        cancelledBy: validUserId,
+        reason: 'Sin stock del proveedor',
+      });
+      expect(orderRepository.updateStatus).not.toHaveBeenCalled();
     });
 
     it('should throw ForbiddenException when client tries to update status', async () => {
+      // Arrange
+      orderRepository.findById.mockResolvedValue(mockOrder);
+
       // Act & Assert
       await expect(
         service.updateStatus(
@@ -196,7 +704,34 @@ describe('OrderService - Tests Básicos', () => {
       await expect(
         service.cancel(validOrderId, UserRole.ADMIN),
       ).resolves.not.toThrow();
-      expect(orderRepository.cancel).toHaveBeenCalledWith(validOrderId);
+      expect(orderRepository.cancel).toHaveBeenCalledWith(validOrderId, {
+        cancelledBy: null,
+        reason: null,
+      });
+    });
+
+    it('should record who cancelled the order and why', async () => {
+      // Arrange
+      const orderWithCancel = {
+        ...mockOrder,
+        canBeCancelled: jest.fn().mockReturnValue(true),
+      };
+      orderRepository.findById.mockResolvedValue(orderWithCancel);
+      orderRepository.cancel.mockResolvedValue(true);
+
+      // Act
+      await service.cancel(
+        validOrderId,
+        UserRole.CLIENT,
+        validUserId,
+        'Ya no lo necesito',
+      );
+
+      // Assert
+      expect(orderRepository.cancel).toHaveBeenCalledWith(validOrderId, {
+        cancelledBy: validUserId,
+        reason: 'Ya no lo necesito',
+      });
     });
 
     it('should throw NotFoundException when order not found', async () => {
@@ -208,6 +743,131 @@ describe('OrderService - Tests Básicos', () => {
         service.cancel(nonExistentId, UserRole.ADMIN),
       ).rejects.toThrow(NotFoundException);
     });
+
+    it('should not let a client cancel a shipped order', async () => {
+      // Arrange
+      orderRepository.findById.mockResolvedValue({
+        ...mockOrder,
+        status: OrderStatus.SHIPPED,
+      });
+
+      // Act & Assert
+      await expect(
+        service.cancel(validOrderId, UserRole.CLIENT, validUserId),
+      ).rejects.toThrow(ForbiddenException);
+      expect(orderRepository.cancel).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getAvailableTransitions', () => {
+    it('should not offer Shipped to admin until every unit is shipped', async () => {
+      // Arrange
+      orderRepository.findById.mockResolvedValue({
+        ...mockOrder,
+        status: OrderStatus.PROCESSING,
+      });
+      orderRepository.isFullyShipped.mockResolvedValue(false);
+
+      // Act
+      const result = await service.getAvailableTransitions(
+        validOrderId,
+        UserRole.ADMIN,
+        otherUserId,
+      );
+
+      // Assert
+      expect(result.map((t) => t.to)).toEqual([OrderStatus.CANCELLED]);
+    });
+
+    it('should only offer cancellation to the owner of a pending order', async () => {
+      // Arrange
+      orderRepository.findById.mockResolvedValue(mockOrder);
+
+      // Act
+      const result = await service.getAvailableTransitions(
+        validOrderId,
+        UserRole.CLIENT,
+        validUserId,
+      );
+
+      // Assert
+      expect(result.map((t) => t.to)).toEqual([OrderStatus.CANCELLED]);
+    });
+  });
+
+  describe('getTimeline', () => {
+    const history = [
+      {
+        id: 1,
+        orderId: validOrderId,
+        fromStatus: null,
+        toStatus: OrderStatus.PENDING,
+        actorId: validUserId,
+        note: null,
+        createdAt: new Date('2026-01-01T10:00:00Z'),
+      },
+      {
+        id: 2,
+        orderId: validOrderId,
+        fromStatus: OrderStatus.PENDING,
+        toStatus: OrderStatus.PROCESSING,
+        actorId: otherUserId,
+        note: 'Pago verificado',
+        createdAt: new Date('2026-01-01T11:00:00Z'),
+      },
+    ];
+
+    it('should return the timeline to the order owner', async () => {
+      // Arrange
+      orderRepository.findById.mockResolvedValue(mockOrder);
+      orderRepository.findStatusHistory.mockResolvedValue(history);
+
+      // Act
+      const result = await service.getTimeline(
+        validOrderId,
+        UserRole.CLIENT,
+        validUserId,
+      );
+
+      // Assert
+      expect(result).toHaveLength(2);
+      expect(result[1]).toEqual(
+        expect.objectContaining({
+          fromStatus: OrderStatus.PENDING,
+          toStatus: OrderStatus.PROCESSING,
+          actorId: otherUserId,
+          note: 'Pago verificado',
+        }),
+      );
+    });
+
+    it('should throw ForbiddenException when client reads another user timeline', async () => {
+      // Arrange
+      orderRepository.findById.mockResolvedValue(mockOrder);
+
+      // Act & Assert
+      await expect(
+        service.getTimeline(validOrderId, UserRole.CLIENT, otherUserId),
+      ).rejects.toThrow(ForbiddenException);
+      expect(orderRepository.findStatusHistory).not.toHaveBeenCalled();
+    });
+
+    it('should include the timeline in findOne when requested', async () => {
+      // Arrange
+      orderRepository.findById.mockResolvedValue(mockOrder);
+      orderRepository.findStatusHistory.mockResolvedValue(history);
+
+      // Act
+      const result = await service.findOne(
+        validOrderId,
+        UserRole.ADMIN,
+        otherUserId,
+        { includeTimeline: true },
+      );
+
+      // Assert
+      expect(result.timeline).toHaveLength(2);
+    });
   });
 
   // Test básico: Obtener estadísticas (solo admin)
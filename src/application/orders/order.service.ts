@@ -9,18 +9,40 @@ import {
   UnprocessableEntityException,
 } from '@nestjs/common';
 import { plainToClass } from 'class-transformer';
-import { IOrderRepository } from './interfaces/order-repository.interface';
+import {
+  IOrderRepository,
+  OrderGuest,
+  OrderItemChange,
+  OrderPricing,
+} from './interfaces/order-repository.interface';
 import {
   CreateOrderDto,
+  CreateOrderItemDto,
   UpdateOrderDto,
   OrderResponseDto,
   OrderQueryDto,
   PaginatedOrderResponseDto,
   OrderItemResponseDto,
+  OrderTimelineEntryDto,
+  OrderTransitionDto,
+  OrderShipmentDto,
+  OrderReturnDto,
 } from './dto';
-import { Order } from '../../domain/entities/order.entity';
+import { OrderStateMachine } from './order-state-machine.service';
+import {
+  Order,
+  ORDER_NUMBER_PATTERN,
+  hashOrderAccessToken,
+} from '../../domain/entities/order.entity';
+import { OrderStatusHistory } from '../../domain/entities/order-status-history.entity';
 import { OrderStatus } from '../../domain/entities/order.entity';
 import { UserRole } from '../../domain/entities/user.entity';
+import { TaxService } from '../taxes/tax.service';
+import { ShippingService } from '../shipping/shipping.service';
+import { PromotionService } from '../promotions/promotion.service';
+import { StoreCreditService } from '../store-credit/store-credit.service';
+import { WarehouseService } from '../warehouses/warehouse.service';
+import { ReservationOwner } from '../inventory/interfaces/inventory-reservation-repository.interface';
 
 @Injectable()
 export class OrderService {
@@ -29,6 +51,12 @@ export class OrderService {
   constructor(
     @Inject('IOrderRepository')
     private readonly orderRepository: IOrderRepository,
+    private readonly orderStateMachine: OrderStateMachine,
+    private readonly taxService: TaxService,
+    private readonly shippingService: ShippingService,
+    private readonly promotionService: PromotionService,
+    private readonly storeCreditService: StoreCreditService,
+    private readonly warehouseService: WarehouseService,
   ) {}
   async findWithFilters(
     query: OrderQueryDto,
@@ -90,6 +118,7 @@ export class OrderService {
    * @param id UUID de la orden
    * @param userRole Rol del usuario
    * @param currentUserId ID del usuario actual
+   * @param options includeTimeline: adjunta el historial de estados
    * @returns Promise<OrderResponseDto> Orden encontrada
    * @throws NotFoundException si la orden no existe
    * @throws ForbiddenException si el cliente intenta acceder a orden ajena
@@ -98,6 +127,7 @@ export class OrderService {
     id: string,
     userRole: UserRole,
     currentUserId?: string,
+    options: { includeTimeline?: boolean } = {},
   ): Promise<OrderResponseDto> {
     this.logger.log(`Buscando orden con ID: ${id}`);
 
@@ -111,6 +141,74 @@ export class OrderService {
       throw new NotFoundException(`Orden con ID ${id} no encontrada`);
     }
 
+    return this.buildOrderDetail(order, userRole, currentUserId, options);
+  }
+
+  /**
+   * Obtiene una orden por su número legible (QC-2026-000123)
+   * Aplica las mismas reglas de autorización que findOne
+   * @param orderNumber Número de orden
+   * @param userRole Rol del usuario
+   * @param currentUserId ID del usuario actual
+   * @param options Relaciones extra a incluir
+   * @returns Promise<OrderResponseDto> Orden encontrada
+   * @throws BadRequestException si el número no tiene el formato esperado
+   * @throws NotFoundException si la orden no existe
+   * @throws ForbiddenException si el cliente intenta acceder a orden ajena
+   */
+  async findByOrderNumber(
+    orderNumber: string,
+    userRole: UserRole,
+    currentUserId?: string,
+    options: { includeTimeline?: boolean } = {},
+  ): Promise<OrderResponseDto> {
+    this.logger.log(`Buscando orden con número: ${orderNumber}`);
+
+    const normalized = orderNumber.trim().toUpperCase();
+    if (!ORDER_NUMBER_PATTERN.test(normalized)) {
+      throw new BadRequestException('Número de orden inválido');
+    }
+
+    const order = await this.orderRepository.findByOrderNumber(normalized);
+    if (!order) {
+      throw new NotFoundException(`Orden ${normalized} no encontrada`);
+    }
+
+    return this.buildOrderDetail(order, userRole, currentUserId, options);
+  }
+
+  /**
+   * Obtiene una orden de invitado con su order access token, sin sesión
+   * @param accessToken Token entregado al crear la orden
+   * @returns Promise<OrderResponseDto> Orden con su timeline
+   * @throws NotFoundException si el token no corresponde a ninguna orden
+   */
+  async findByAccessToken(accessToken: string): Promise<OrderResponseDto> {
+    const order = accessToken
+      ? await this.orderRepository.findByAccessTokenHash(
+          hashOrderAccessToken(accessToken.trim()),
+        )
+      : null;
+    if (!order) {
+      throw new NotFoundException('Orden no encontrada');
+    }
+
+    const response = this.mapToOrderResponseDto(order);
+    response.timeline = this.mapToTimelineDto(
+      await this.orderRepository.findStatusHistory(order.id),
+    );
+    return response;
+  }
+
+  /**
+   * Verifica el acceso a la orden y la mapea con las relaciones pedidas
+   */
+  private async buildOrderDetail(
+    order: Order,
+    userRole: UserRole,
+    currentUserId: string | undefined,
+    options: { includeTimeline?: boolean },
+  ): Promise<OrderResponseDto> {
     // Verificar autorización para clientes
     if (userRole === UserRole.CLIENT) {
       if (!currentUserId || order.userId !== currentUserId) {
@@ -118,29 +216,100 @@ export class OrderService {
       }
     }
 
-    return this.mapToOrderResponseDto(order);
+    const response = this.mapToOrderResponseDto(order);
+    if (options.includeTimeline) {
+      response.timeline = this.mapToTimelineDto(
+        await this.orderRepository.findStatusHistory(order.id),
+      );
+    }
+    return response;
+  }
+
+  /**
+   * Obtiene el historial de estados de una orden
+   * @param id UUID de la orden
+   * @param userRole Rol del usuario
+   * @param currentUserId ID del usuario actual
+   * @returns Promise<OrderTimelineEntryDto[]> Transiciones, más antigua primero
+   * @throws NotFoundException si la orden no existe
+   * @throws ForbiddenException si el cliente intenta acceder a orden ajena
+   */
+  async getTimeline(
+    id: string,
+    userRole: UserRole,
+    currentUserId?: string,
+  ): Promise<OrderTimelineEntryDto[]> {
+    this.logger.log(`Obteniendo timeline de orden ${id}`);
+
+    if (!this.isValidUUID(id)) {
+      throw new BadRequestException('ID de orden inválido');
+    }
+
+    const order = await this.orderRepository.findById(id);
+    if (!order) {
+      throw new NotFoundException(`Orden con ID ${id} no encontrada`);
+    }
+
+    // Verificar autorización para clientes
+    if (userRole === UserRole.CLIENT) {
+      if (!currentUserId || order.userId !== currentUserId) {
+        throw new ForbiddenException('No tienes permisos para ver esta orden');
+      }
+    }
+
+    return this.mapToTimelineDto(
+      await this.orderRepository.findStatusHistory(id),
+    );
   }
 
   /**
    * Crea una nueva orden
-   * @param userId UUID del usuario que crea la orden
+   * @param userId UUID del usuario que crea la orden (null si compra un invitado)
    * @param createOrderDto Datos de la orden a crear
+   * @param options checkoutSessionId: sesión de checkout que ya reservó el
+   * saldo a favor y el stock; cartId: carrito que reservó el stock; guest:
+   * comprador sin cuenta y hash de su order access token; pricing: tasas,
+   * envío, cupón y precios de un checkout ya cobrado (no se recalculan ni se
+   * vuelven a validar los usos del cupón)
    * @returns Promise<OrderResponseDto> Orden creada
-   * @throws BadRequestException si los datos son inválidos
+   * @throws BadRequestException si los datos son inválidos, el método de
+   * envío no cubre el destino, el cupón no aplica o un invitado usa cupón o
+   * saldo a favor
+   * @throws ConflictException si el cupón alcanzó su límite de usos o el
+   * saldo a favor no alcanza
    * @throws UnprocessableEntityException si no hay stock suficiente
    */
   async create(
-    userId: string,
+    userId: string | null,
     createOrderDto: CreateOrderDto,
+    options: {
+      checkoutSessionId?: string;
+      cartId?: string;
+      guest?: OrderGuest;
+      pricing?: OrderPricing;
+    } = {},
   ): Promise<OrderResponseDto> {
-    this.logger.log(`Creando orden para usuario: ${userId}`);
+    this.logger.log(
+      userId
+        ? `Creando orden para usuario: ${userId}`
+        : `Creando orden para invitado: ${options.guest?.guestCustomerId}`,
+    );
 
     // Validaciones de negocio
     this.validateCreateOrderData(createOrderDto);
+    if (!userId) {
+      this.validateGuestOrderData(createOrderDto, options.guest);
+    }
 
-    // Verificar disponibilidad de productos
+    // Verificar disponibilidad de productos (sin contar las reservas propias)
+    const reservation: ReservationOwner | undefined = options.checkoutSessionId
+      ? { checkoutSessionId: options.checkoutSessionId }
+      : options.cartId
+        ? { cartId: options.cartId }
+        : undefined;
     const availability = await this.orderRepository.checkProductsAvailability(
       createOrderDto.items,
+      reservation,
     );
 
     // Verificar que todos los productos tengan stock suficiente
@@ -162,7 +331,34 @@ export class OrderService {
     }
 
     // Crear la orden (incluye reducir stock automáticamente)
-    const order = await this.orderRepository.create(userId, createOrderDto);
+    const pricing =
+      options.pricing ?? (await this.priceOrder(userId, createOrderDto));
+    const order = await this.orderRepository.create(
+      userId,
+      createOrderDto,
+      pricing,
+      (locked, usage) => {
+        // El cupón de un checkout cobrado se validó al crear la sesión
+        if (!options.pricing) {
+          this.promotionService.assertRedeemable(
+            locked,
+            usage,
+            pricing.promotion?.code,
+          );
+        }
+      },
+      createOrderDto.storeCreditAmount
+        ? {
+            amount: createOrderDto.storeCreditAmount,
+            checkoutSessionId: options.checkoutSessionId ?? null,
+            assertBalance: (balance, amount) =>
+              this.storeCreditService.assertBalance(balance, amount),
+          }
+        : undefined,
+      options.guest,
+      reservation,
+      this.warehouseService.allocationStrategy(),
+    );
 
     this.logger.log(`Orden creada exitosamente: ${order.id}`);
 
@@ -211,16 +407,51 @@ export class OrderService {
       }
     }
 
-    // Validar transición de estado si se está actualizando
-    if (updateOrderDto.status) {
-      this.validateStatusTransition(
-        existingOrder.status,
-        updateOrderDto.status,
+    const { status, items, ...changes } = updateOrderDto;
+    const context = { role: userRole, actorId: currentUserId };
+    const changesStatus = !!status && status !== existingOrder.status;
+
+    // El cambio de estado pasa por la máquina de estados (roles, guards y efectos)
+    if (changesStatus) {
+      await this.orderStateMachine.assertCanTransition(
+        existingOrder,
+        status,
+        context,
+      );
+    }
+
+    // Los items se concilian con el stock en su propia transacción
+    let updatedOrder: Order | null = null;
+    if (items) {
+      updatedOrder = await this.updateItems(
+        existingOrder,
+        items,
+        currentUserId,
+      );
+    }
+
+    if (changesStatus) {
+      if (Object.keys(changes).length > 0) {
+        await this.orderRepository.update(id, changes, {
+          actorId: currentUserId,
+        });
+      }
+      const transitioned = await this.orderStateMachine.transition(
+        existingOrder,
+        status,
+        context,
       );
+
+      this.logger.log(`Orden ${id} actualizada a ${status}`);
+      return this.mapToOrderResponseDto(transitioned);
     }
 
     // Realizar la actualización
-    const updatedOrder = await this.orderRepository.update(id, updateOrderDto);
+    if (Object.keys(changes).length > 0 || !updatedOrder) {
+      updatedOrder = await this.orderRepository.update(id, changes, {
+        actorId: currentUserId,
+      });
+    }
 
     if (!updatedOrder) {
       throw new NotFoundException(`Error al actualizar orden con ID ${id}`);
@@ -231,12 +462,109 @@ export class OrderService {
     return this.mapToOrderResponseDto(updatedOrder);
   }
 
+  /**
+   * Agrega, quita o cambia cantidades de los items de una orden Pending
+   * El stock se ajusta en ambos sentidos y las líneas toman el precio e impuesto actuales
+   * @throws ConflictException si la orden no está Pending o ya fue pagada
+   * @throws BadRequestException si algún producto no existe
+   * @throws UnprocessableEntityException si no hay stock para las unidades nuevas
+   */
+  private async updateItems(
+    order: Order,
+    items: CreateOrderItemDto[],
+    actorId?: string,
+  ): Promise<Order> {
+    this.validateCreateOrderData({ items });
+
+    if (order.status !== OrderStatus.PENDING) {
+      throw new ConflictException(
+        'Solo se pueden modificar los items de órdenes en estado PENDING',
+      );
+    }
+
+    // El pago capturado cubre el total original
+    if (await this.orderRepository.hasCapturedPayment(order.id)) {
+      throw new ConflictException(
+        'No se pueden modificar los items de una orden ya pagada',
+      );
+    }
+
+    // Las líneas se vuelven a gravar con las tasas vigentes del destino; el
+    // envío y el cupón ya canjeado se recalculan para el nuevo carrito
+    const taxes = await this.taxService.resolveSchedule(
+      order.taxCountry,
+      order.taxRegion,
+    );
+    const shipping = order.shippingMethodId
+      ? await this.shippingService.priceItems(
+          order.shippingMethodId,
+          items,
+          null,
+        )
+      : null;
+    const promotion = order.promotionId
+      ? await this.promotionService.repriceItems(
+          order.promotionId,
+          items,
+          shipping?.amount ?? 0,
+        )
+      : null;
+    const updated = await this.orderRepository.updateItems(
+      order.id,
+      items,
+      (changes) => this.assertItemChanges(changes),
+      { taxes, shipping, promotion },
+      { expectedStatus: OrderStatus.PENDING, actorId },
+      this.warehouseService.allocationStrategy(),
+    );
+    if (!updated) {
+      throw new ConflictException(
+        `La orden ${order.id} cambió de estado, vuelve a intentarlo`,
+      );
+    }
+
+    this.logger.log(`Items de orden ${order.id} actualizados`);
+    return updated;
+  }
+
+  /**
+   * Valida los cambios de items con los productos bloqueados
+   */
+  private assertItemChanges(changes: OrderItemChange[]): void {
+    const missing = changes.filter(
+      (change) => change.quantity > 0 && change.stock === null,
+    );
+    if (missing.length > 0) {
+      throw new BadRequestException(
+        `Productos no encontrados: ${missing.map((c) => c.productId).join(', ')}`,
+      );
+    }
+
+    // Solo las unidades adicionales consumen stock
+    const insufficientStock = changes.filter(
+      (change) => change.quantity - change.previousQuantity > change.stock,
+    );
+    if (insufficientStock.length > 0) {
+      const stockErrors = insufficientStock
+        .map(
+          (change) =>
+            `Producto ${change.productId}: disponible ${change.stock}, adicional solicitado ${change.quantity - change.previousQuantity}`,
+        )
+        .join('; ');
+
+      throw new UnprocessableEntityException(
+        `Stock insuficiente para los siguientes productos: ${stockErrors}`,
+      );
+    }
+  }
+
   /**
    * Actualiza el estado de una orden
    * @param id UUID de la orden
    * @param status Nuevo estado
    * @param userRole Rol del usuario
    * @param currentUserId ID del usuario actual
+   * @param note Nota opcional (motivo si se cancela)
    * @returns Promise<OrderResponseDto> Orden actualizada
    */
   async updateStatus(
@@ -244,44 +572,82 @@ export class OrderService {
     status: OrderStatus,
     userRole: UserRole,
     currentUserId?: string,
+    note?: string,
   ): Promise<OrderResponseDto> {
     this.logger.log(`Actualizando estado de orden ${id} a: ${status}`);
 
-    // Solo los ADMIN pueden cambiar estados
-    if (userRole !== UserRole.ADMIN) {
-      throw new ForbiddenException(
-        'Solo los administradores pueden cambiar el estado de las órdenes',
-      );
-    }
-
     const existingOrder = await this.orderRepository.findById(id);
     if (!existingOrder) {
       throw new NotFoundException(`Orden con ID ${id} no encontrada`);
     }
 
-    // Validar transición de estado
-    this.validateStatusTransition(existingOrder.status, status);
+    // Roles, guards y efectos (p. ej. devolución de stock) según la máquina de estados
+    const updatedOrder = await this.orderStateMachine.transition(
+      existingOrder,
+      status,
+      { role: userRole, actorId: currentUserId, note },
+    );
 
-    const updatedOrder = await this.orderRepository.updateStatus(id, status);
+    return this.mapToOrderResponseDto(updatedOrder);
+  }
 
-    if (!updatedOrder) {
-      throw new NotFoundException(`Error al actualizar estado de orden ${id}`);
+  /**
+   * Lista las transiciones que el usuario actual puede hacer sobre una orden
+   * @param id UUID de la orden
+   * @param userRole Rol del usuario
+   * @param currentUserId ID del usuario actual
+   * @returns Promise<OrderTransitionDto[]> Transiciones disponibles
+   * @throws NotFoundException si la orden no existe
+   * @throws ForbiddenException si el cliente intenta acceder a orden ajena
+   */
+  async getAvailableTransitions(
+    id: string,
+    userRole: UserRole,
+    currentUserId?: string,
+  ): Promise<OrderTransitionDto[]> {
+    if (!this.isValidUUID(id)) {
+      throw new BadRequestException('ID de orden inválido');
     }
 
-    return this.mapToOrderResponseDto(updatedOrder);
+    const order = await this.orderRepository.findById(id);
+    if (!order) {
+      throw new NotFoundException(`Orden con ID ${id} no encontrada`);
+    }
+
+    // Verificar autorización para clientes
+    if (userRole === UserRole.CLIENT) {
+      if (!currentUserId || order.userId !== currentUserId) {
+        throw new ForbiddenException('No tienes permisos para ver esta orden');
+      }
+    }
+
+    const transitions = await this.orderStateMachine.getAvailableTransitions(
+      order,
+      { role: userRole, actorId: currentUserId },
+    );
+
+    return transitions.map((transition) =>
+      plainToClass(OrderTransitionDto, transition, {
+        excludeExtraneousValues: true,
+      }),
+    );
   }
 
   /**
-   * Cancela una orden
+   * Cancela una orden y devuelve su stock
    * @param id UUID de la orden
    * @param userRole Rol del usuario
    * @param currentUserId ID del usuario actual
+   * @param reason Motivo de la cancelación
+   * @param refundToStoreCredit Acreditar lo capturado al saldo a favor
    * @returns Promise<void>
    */
   async cancel(
     id: string,
     userRole: UserRole,
     currentUserId?: string,
+    reason?: string,
+    refundToStoreCredit = false,
   ): Promise<void> {
     this.logger.log(`Cancelando orden con ID: ${id}`);
 
@@ -303,18 +669,18 @@ export class OrderService {
       }
     }
 
-    // Verificar que la orden se puede cancelar
-    if (!order.canBeCancelled()) {
-      throw new ConflictException(
-        `No se puede cancelar una orden en estado ${order.status}`,
+    if (refundToStoreCredit && !order.userId) {
+      throw new BadRequestException(
+        'Las órdenes de invitado no pueden reembolsarse a saldo a favor',
       );
     }
 
-    const cancelled = await this.orderRepository.cancel(id);
-
-    if (!cancelled) {
-      throw new BadRequestException(`Error al cancelar orden con ID ${id}`);
-    }
+    await this.orderStateMachine.transition(order, OrderStatus.CANCELLED, {
+      role: userRole,
+      actorId: currentUserId,
+      note: reason,
+      refundToStoreCredit,
+    });
 
     this.logger.log(`Orden ${id} cancelada exitosamente`);
   }
@@ -385,6 +751,35 @@ export class OrderService {
     return this.orderRepository.getStats();
   }
 
+  /**
+   * Tasas del destino, envío y descuento del cupón con los datos actuales
+   */
+  private async priceOrder(
+    userId: string | null,
+    createOrderDto: CreateOrderDto,
+  ): Promise<OrderPricing> {
+    const taxes = await this.taxService.resolveSchedule(
+      createOrderDto.country,
+      createOrderDto.region,
+    );
+    const shipping = createOrderDto.shippingMethodId
+      ? await this.shippingService.priceItems(
+          createOrderDto.shippingMethodId,
+          createOrderDto.items,
+          { country: createOrderDto.country, region: createOrderDto.region },
+        )
+      : null;
+    const promotion = createOrderDto.couponCode
+      ? await this.promotionService.priceItems(
+          createOrderDto.couponCode,
+          userId,
+          createOrderDto.items,
+          shipping?.amount ?? 0,
+        )
+      : null;
+    return { taxes, shipping, promotion };
+  }
+
   /**
    * Mapea una orden a DTO de respuesta
    */
@@ -399,6 +794,18 @@ export class OrderService {
             productName: item.product?.name || 'Producto no disponible',
             quantity: item.quantity,
             priceInCents: item.priceAtPurchase,
+            discountAmountInCents: item.discountAmount ?? 0,
+            taxRate: item.taxRate ?? 0,
+            netAmountInCents:
+              item.netAmount ?? item.priceAtPurchase * item.quantity,
+            taxAmountInCents: item.taxAmount ?? 0,
+            grossAmountInCents:
+              item.grossAmount ?? item.priceAtPurchase * item.quantity,
+            allocations:
+              item.allocations?.map((allocation) => ({
+                warehouseId: allocation.warehouseId,
+                quantity: allocation.quantity,
+              })) ?? [],
           },
           { excludeExtraneousValues: true },
         ),
@@ -408,13 +815,46 @@ export class OrderService {
       OrderResponseDto,
       {
         id: order.id,
-        userId: order.userId,
-        userFullName: order.user?.fullName || 'Usuario no disponible',
-        userEmail: order.user?.email || 'Email no disponible',
+        orderNumber: order.orderNumber ?? null,
+        userId: order.userId ?? null,
+        guestCustomerId: order.guestCustomerId ?? null,
+        userFullName:
+          order.user?.fullName ||
+          order.guestCustomer?.fullName ||
+          'Usuario no disponible',
+        userEmail:
+          order.user?.email ||
+          order.guestCustomer?.email ||
+          'Email no disponible',
+        subtotalAmountInCents: order.subtotalAmount ?? order.totalAmount,
+        taxAmountInCents: order.taxAmount ?? 0,
+        discountAmountInCents: order.discountAmount ?? 0,
+        shippingAmountInCents: order.shippingAmount ?? 0,
         totalAmountInCents: order.totalAmount,
+        storeCreditAmountInCents: order.storeCreditAmount ?? 0,
+        amountDueInCents: order.totalAmount - (order.storeCreditAmount ?? 0),
+        taxMode: order.taxMode ?? null,
+        taxCountry: order.taxCountry ?? null,
+        taxRegion: order.taxRegion ?? null,
+        shippingMethodId: order.shippingMethodId ?? null,
+        shippingMethodName: order.shippingMethodName ?? null,
+        promotionCode: order.promotionCode ?? null,
         status: order.status,
         deliveryAddress: order.deliveryAddress,
+        cancelledBy: order.cancelledBy,
+        cancellationReason: order.cancellationReason,
+        cancelledAt: order.cancelledAt,
         items,
+        shipments: order.shipments?.map((shipment) =>
+          plainToClass(OrderShipmentDto, shipment, {
+            excludeExtraneousValues: true,
+          }),
+        ),
+        returns: order.returns?.map((returnRequest) =>
+          plainToClass(OrderReturnDto, returnRequest, {
+            excludeExtraneousValues: true,
+          }),
+        ),
         createdAt: order.createdAt,
         updatedAt: order.updatedAt,
       },
@@ -422,6 +862,27 @@ export class OrderService {
     );
   }
 
+  /**
+   * Mapea el historial de estados a DTOs de timeline
+   */
+  private mapToTimelineDto(
+    history: OrderStatusHistory[],
+  ): OrderTimelineEntryDto[] {
+    return history.map((entry) =>
+      plainToClass(
+        OrderTimelineEntryDto,
+        {
+          fromStatus: entry.fromStatus,
+          toStatus: entry.toStatus,
+          actorId: entry.actorId,
+          note: entry.note,
+          createdAt: entry.createdAt,
+        },
+        { excludeExtraneousValues: true },
+      ),
+    );
+  }
+
   /**
    * Valida los datos de creación de orden
    */
@@ -458,35 +919,21 @@ export class OrderService {
   }
 
   /**
-   * Valida la transición de estados de orden
+   * Cupones y saldo a favor dependen de la cuenta del cliente
    */
-  private validateStatusTransition(
-    currentStatus: OrderStatus,
-    newStatus: OrderStatus,
+  private validateGuestOrderData(
+    createOrderDto: CreateOrderDto,
+    guest: OrderGuest | undefined,
   ): void {
-    // Permitir transición a Cancelled desde cualquier estado excepto Delivered y Cancelled
-    if (newStatus === OrderStatus.CANCELLED) {
-      if (
-        [OrderStatus.DELIVERED, OrderStatus.CANCELLED].includes(currentStatus)
-      ) {
-        throw new ConflictException(
-          `No se puede cancelar una orden en estado ${currentStatus}`,
-        );
-      }
-      return;
+    if (!guest) {
+      throw new BadRequestException(
+        'La orden debe pertenecer a un usuario o a un invitado',
+      );
     }
 
-    const validTransitions: Record<OrderStatus, OrderStatus[]> = {
-      [OrderStatus.PENDING]: [OrderStatus.PROCESSING, OrderStatus.DELIVERED],
-      [OrderStatus.PROCESSING]: [OrderStatus.SHIPPED, OrderStatus.DELIVERED],
-      [OrderStatus.SHIPPED]: [OrderStatus.DELIVERED],
-      [OrderStatus.DELIVERED]: [],
-      [OrderStatus.CANCELLED]: [],
-    };
-
-    if (!validTransitions[currentStatus]?.includes(newStatus)) {
-      throw new ConflictException(
-        `No se puede cambiar el estado de ${currentStatus} a ${newStatus}`,
+    if (createOrderDto.couponCode || createOrderDto.storeCreditAmount) {
+      throw new BadRequestException(
+        'Los cupones y el saldo a favor requieren una cuenta',
       );
     }
   }
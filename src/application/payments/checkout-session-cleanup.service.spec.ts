@@ -0,0 +1,160 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { CheckoutSessionCleanupService } from './checkout-session-cleanup.service';
+import { CheckoutSession } from '../../domain/entities/checkout-session.entity';
+import { StoreCreditService } from '../store-credit/store-credit.service';
+import { InventoryService } from '../inventory/inventory.service';
+
+describe('CheckoutSessionCleanupService', () => {
+  let service: CheckoutSessionCleanupService;
+
+  const mockCheckoutSessionRepo = {
+    find: jest.fn(),
+    update: jest.fn(),
+    delete: jest.fn(),
+  };
+
+  const mockPaymentProvider = {
+    name: 'fake',
+    getPaymentStatus: jest.fn(),
+    expireCheckoutSession: jest.fn(),
+  };
+
+  const mockStoreCreditService = {
+    releaseHold: jest.fn(),
+  };
+
+  const mockInventoryService = {
+    release: jest.fn(),
+  };
+
+  const overdueSession = {
+    id: '550e8400-e29b-41d4-a716-446655440010',
+    stripeSessionId: 'cs_test_123',
+    status: 'pending',
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        CheckoutSessionCleanupService,
+        {
+          provide: getRepositoryToken(CheckoutSession),
+          useValue: mockCheckoutSessionRepo,
+        },
+        {
+          provide: ConfigService,
+          useValue: {
+            get: jest.fn(
+              (_key: string, defaultValue?: unknown) => defaultValue,
+            ),
+          },
+        },
+        { provide: 'IPaymentProvider', useValue: mockPaymentProvider },
+        { provide: StoreCreditService, useValue: mockStoreCreditService },
+        { provide: InventoryService, useValue: mockInventoryService },
+      ],
+    }).compile();
+
+    service = module.get<CheckoutSessionCleanupService>(
+      CheckoutSessionCleanupService,
+    );
+
+    jest.clearAllMocks();
+  });
+
+  describe('expireOverdueSessions', () => {
+    it('should expire overdue sessions locally and in the payment provider and release their stock and store credit', async () => {
+      // Arrange
+      mockCheckoutSessionRepo.find.mockResolvedValue([overdueSession]);
+      mockPaymentProvider.getPaymentStatus.mockResolvedValue({
+        status: 'pending',
+      });
+      mockCheckoutSessionRepo.update.mockResolvedValue({ affected: 1 });
+
+      // Act
+      const expired = await service.expireOverdueSessions();
+
+      // Assert
+      expect(expired).toBe(1);
+      expect(mockPaymentProvider.expireCheckoutSession).toHaveBeenCalledWith(
+        'cs_test_123',
+      );
+      expect(mockCheckoutSessionRepo.update).toHaveBeenCalledWith(
+        { id: overdueSession.id, status: 'pending' },
+        { status: 'expired' },
+      );
+      expect(mockInventoryService.release).toHaveBeenCalledWith({
+        checkoutSessionId: overdueSession.id,
+      });
+      expect(mockStoreCreditService.releaseHold).toHaveBeenCalledWith(
+        overdueSession.id,
+      );
+    });
+
+    it('should leave paid sessions pending for the webhook', async () => {
+      // Arrange
+      mockCheckoutSessionRepo.find.mockResolvedValue([overdueSession]);
+      mockPaymentProvider.getPaymentStatus.mockResolvedValue({
+        status: 'paid',
+      });
+
+      // Act
+      const expired = await service.expireOverdueSessions();
+
+      // Assert
+      expect(expired).toBe(0);
+      expect(mockPaymentProvider.expireCheckoutSession).not.toHaveBeenCalled();
+      expect(mockCheckoutSessionRepo.update).not.toHaveBeenCalled();
+      expect(mockStoreCreditService.releaseHold).not.toHaveBeenCalled();
+      expect(mockInventoryService.release).not.toHaveBeenCalled();
+    });
+
+    it('should keep processing when the provider fails for one session', async () => {
+      // Arrange
+      mockCheckoutSessionRepo.find.mockResolvedValue([
+        overdueSession,
+        { ...overdueSession, id: 'other', stripeSessionId: null },
+      ]);
+      mockPaymentProvider.getPaymentStatus.mockRejectedValue(
+        new Error('Stripe caído'),
+      );
+      mockCheckoutSessionRepo.update.mockResolvedValue({ affected: 1 });
+
+      // Act
+      const expired = await service.expireOverdueSessions();
+
+      // Assert
+      expect(expired).toBe(1);
+      expect(mockCheckoutSessionRepo.update).toHaveBeenCalledWith(
+        { id: 'other', status: 'pending' },
+        { status: 'expired' },
+      );
+    });
+  });
+
+  describe('purgeOldSessions', () => {
+    it('should delete closed sessions older than the retention period', async () => {
+      // Arrange
+      mockCheckoutSessionRepo.delete.mockResolvedValue({ affected: 3 });
+
+      // Act
+      const purged = await service.purgeOldSessions();
+
+      // Assert
+      expect(purged).toBe(3);
+      const [criteria] = mockCheckoutSessionRepo.delete.mock.calls[0];
+      expect(criteria.status.value).toEqual([
+        'completed',
+        'expired',
+        'cancelled',
+      ]);
+      const cutoff: Date = criteria.createdAt.value;
+      const expectedCutoff = Date.now() - 30 * 24 * 60 * 60 * 1000;
+      expect(Math.abs(cutoff.getTime() - expectedCutoff)).toBeLessThan(
+        60 * 60 * 1000 + 1000,
+      );
+    });
+  });
+});
@@ -0,0 +1,114 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { InjectRepository } from '@nestjs/typeorm';
+import { In, LessThan, LessThanOrEqual, Repository } from 'typeorm';
+import { CheckoutSession } from '../../domain/entities/checkout-session.entity';
+import { IPaymentProvider } from './interfaces/payment-provider.interface';
+import { StoreCreditService } from '../store-credit/store-credit.service';
+import { InventoryService } from '../inventory/inventory.service';
+
+/**
+ * CheckoutSessionCleanupService - Tareas programadas sobre checkout sessions
+ * - Expira las sesiones pendientes cuyo expiresAt ya pasó (también en el proveedor)
+ *   y devuelve el stock y el saldo a favor que tenían reservados
+ * - Elimina las sesiones cerradas más antiguas que el período de retención
+ */
+@Injectable()
+export class CheckoutSessionCleanupService {
+  private readonly logger = new Logger(CheckoutSessionCleanupService.name);
+  private static readonly BATCH_SIZE = 100;
+
+  constructor(
+    @InjectRepository(CheckoutSession)
+    private readonly checkoutSessionRepo: Repository<CheckoutSession>,
+    private readonly configService: ConfigService,
+    @Inject('IPaymentProvider')
+    private readonly paymentProvider: IPaymentProvider,
+    private readonly storeCreditService: StoreCreditService,
+    private readonly inventoryService: InventoryService,
+  ) {}
+
+  /**
+   * Mover a 'expired' las sesiones pendientes vencidas
+   * Si el proveedor ya registró el pago no se expira: el webhook completará la orden
+   * @returns Cantidad de sesiones expiradas
+   */
+  @Cron(CronExpression.EVERY_10_MINUTES)
+  async expireOverdueSessions(): Promise<number> {
+    const overdue = await this.checkoutSessionRepo.find({
+      where: { status: 'pending', expiresAt: LessThanOrEqual(new Date()) },
+      order: { expiresAt: 'ASC' },
+      take: CheckoutSessionCleanupService.BATCH_SIZE,
+    });
+
+    let expired = 0;
+    for (const session of overdue) {
+      try {
+        if (session.stripeSessionId) {
+          const payment = await this.paymentProvider.getPaymentStatus(
+            session.stripeSessionId,
+          );
+          if (payment.status === 'paid') {
+            this.logger.warn(
+              `Checkout session ${session.id} vencida pero pagada, se espera el webhook`,
+            );
+            continue;
+          }
+          await this.paymentProvider.expireCheckoutSession(
+            session.stripeSessionId,
+          );
+        }
+
+        const result = await this.checkoutSessionRepo.update(
+          { id: session.id, status: 'pending' },
+          { status: 'expired' },
+        );
+        if (result.affected) {
+          await this.inventoryService.release({
+            checkoutSessionId: session.id,
+          });
+          await this.storeCreditService.releaseHold(session.id);
+        }
+        expired += result.affected ?? 0;
+      } catch (error) {
+        this.logger.error(
+          `Error expirando checkout session ${session.id}`,
+          error,
+        );
+      }
+    }
+
+    if (expired > 0) {
+      this.logger.log(`${expired} checkout sessions expiradas`);
+    }
+    return expired;
+  }
+
+  /**
+   * Eliminar sesiones cerradas más antiguas que la retención
+   * @returns Cantidad de sesiones eliminadas
+   */
+  @Cron(CronExpression.EVERY_DAY_AT_3AM)
+  async purgeOldSessions(): Promise<number> {
+    const retentionDays = this.configService.get<number>(
+      'CHECKOUT_SESSION_RETENTION_DAYS',
+      30,
+    );
+    const cutoff = new Date();
+    cutoff.setDate(cutoff.getDate() - retentionDays);
+
+    const result = await this.checkoutSessionRepo.delete({
+      status: In(['completed', 'expired', 'cancelled']),
+      createdAt: LessThan(cutoff),
+    });
+
+    const purged = result.affected ?? 0;
+    if (purged > 0) {
+      this.logger.log(
+        `${purged} checkout sessions eliminadas (retención: ${retentionDays} días)`,
+      );
+    }
+    return purged;
+  }
+}
@@ -0,0 +1,167 @@
+import {
+  Controller,
+  Post,
+  Get,
+  Body,
+  Param,
+  UseGuards,
+  HttpCode,
+  HttpStatus,
+  ParseUUIDPipe,
+  Request,
+  UseInterceptors,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiHeader,
+} from '@nestjs/swagger';
+import { CheckoutService } from './checkout.service';
+import {
+  CreateCheckoutSessionDto,
+  CheckoutSessionResponseDto,
+  CheckoutSessionStatusDto,
+} from './dto/checkout-session.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import {
+  IDEMPOTENCY_KEY_HEADER,
+  IdempotencyInterceptor,
+} from '../../shared/idempotency/idempotency.interceptor';
+
+@ApiTags('Payments')
+@Controller('payments')
+@UseGuards(JwtAuthGuard)
+@ApiBearerAuth()
+export class CheckoutController {
+  constructor(private readonly checkoutService: CheckoutService) {}
+
+  @Post('checkout')
+  @HttpCode(HttpStatus.CREATED)
+  @UseInterceptors(IdempotencyInterceptor)
+  @ApiOperation({
+    summary: 'Crear sesión de checkout con persistencia del carrito',
+  })
+  @ApiHeader({
+    name: IDEMPOTENCY_KEY_HEADER,
+    required: false,
+    description:
+      'Clave única por intento de pago. Un reintento con la misma clave devuelve la sesión ya creada',
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Sesión de checkout creada exitosamente',
+    type: CheckoutSessionResponseDto,
+  })
+  @ApiResponse({
+    status: 409,
+    description: 'Hay una petición en curso con el mismo Idempotency-Key',
+  })
+  @ApiResponse({
+    status: 422,
+    description: 'Idempotency-Key usado con otra petición',
+  })
+  async createCheckout(
+    @Body() dto: CreateCheckoutSessionDto,
+    @Request() req: any,
+  ): Promise<CheckoutSessionResponseDto> {
+    const userId = req.user.sub;
+    return this.checkoutService.createCheckoutSessionWithCart(userId, dto);
+  }
+
+  @Get('session/:sessionId')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Obtener datos del carrito por sessionId' })
+  @ApiResponse({
+    status: 200,
+    description: 'Datos del carrito recuperados exitosamente',
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'No tienes permisos para ver esta sesión',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Sesión no encontrada o expirada',
+  })
+  async getCheckoutSession(
+    @Param('sessionId', ParseUUIDPipe) sessionId: string,
+    @Request() req: any,
+  ) {
+    const userRole = req.user.role;
+    const currentUserId = req.user.sub;
+    return this.checkoutService.getCheckoutSession(
+      sessionId,
+      userRole,
+      currentUserId,
+    );
+  }
+
+  @Post('session/:sessionId/cancel')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({
+    summary: 'Cancelar una sesión de checkout pendiente',
+    description:
+      'Para cuando el cliente abandona el pago: expira la sesión en el proveedor y libera el stock y el saldo a favor reservados.',
+  })
+  @ApiResponse({ status: 204, description: 'Sesión cancelada' })
+  @ApiResponse({
+    status: 403,
+    description: 'No tienes permisos para cancelar esta sesión',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Sesión no encontrada o expirada',
+  })
+  @ApiResponse({
+    status: 409,
+    description: 'El pago ya fue registrado por el proveedor',
+  })
+  async cancelCheckoutSession(
+    @Param('sessionId', ParseUUIDPipe) sessionId: string,
+    @Request() req: any,
+  ): Promise<void> {
+    const userRole = req.user.role;
+    const currentUserId = req.user.sub;
+    await this.checkoutService.cancelCheckoutSession(
+      sessionId,
+      userRole,
+      currentUserId,
+    );
+  }
+
+  @Post('session/:sessionId/complete')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Consultar el estado de la sesión (después del pago)',
+    description:
+      'Obsoleto y de solo lectura: el webhook del proveedor de pagos crea la orden y completa la sesión al confirmarse el pago. Devuelve el estado actual y la orden, si ya existe.',
+    deprecated: true,
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Estado de la sesión',
+    type: CheckoutSessionStatusDto,
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'No tienes permisos para ver esta sesión',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Sesión no encontrada',
+  })
+  async completeCheckoutSession(
+    @Param('sessionId', ParseUUIDPipe) sessionId: string,
+    @Request() req: any,
+  ): Promise<CheckoutSessionStatusDto> {
+    const userRole = req.user.role;
+    const currentUserId = req.user.sub;
+    return this.checkoutService.getCheckoutSessionStatus(
+      sessionId,
+      userRole,
+      currentUserId,
+    );
+  }
+}
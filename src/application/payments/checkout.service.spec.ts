@@ -0,0 +1,1062 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  NotFoundException,
+  UnprocessableEntityException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { CheckoutService } from './checkout.service';
+import { RefundService } from './refund.service';
+import { CheckoutSession } from '../../domain/entities/checkout-session.entity';
+import { OrderService } from '../orders/order.service';
+import { InvoiceService } from '../invoices/invoice.service';
+import { TaxService } from '../taxes/tax.service';
+import { ShippingService } from '../shipping/shipping.service';
+import { PromotionService } from '../promotions/promotion.service';
+import { StoreCreditService } from '../store-credit/store-credit.service';
+import { InventoryService } from '../inventory/inventory.service';
+import { TaxPricingMode } from '../../domain/entities/tax-rate.entity';
+import { UserRole } from '../../domain/entities/user.entity';
+
+describe('CheckoutService - Checkout y Webhooks', () => {
+  let service: CheckoutService;
+
+  const validSessionId = '550e8400-e29b-41d4-a716-446655440010';
+  const validUserId = '550e8400-e29b-41d4-a716-446655440001';
+  const otherUserId = '550e8400-e29b-41d4-a716-446655440002';
+
+  const mockCheckoutSession = {
+    id: validSessionId,
+    userId: validUserId,
+    stripeSessionId: 'cs_test_123',
+    cartData: {
+      items: [{ productId: 1, quantity: 2, price: 1000 }],
+      total: 2000,
+    },
+    metadata: { currency: 'usd', deliveryAddress: 'Test Address' },
+    status: 'pending',
+  };
+
+  const mockCheckoutSessionRepo = {
+    create: jest.fn(),
+    save: jest.fn(),
+    findOne: jest.fn(),
+    update: jest.fn(),
+  };
+
+  const mockOrderService = {
+    create: jest.fn(),
+  };
+
+  const mockPaymentRepository = {
+    create: jest.fn(),
+  };
+
+  const mockInvoiceService = {
+    issueForOrder: jest.fn(),
+  };
+
+  const mockTaxService = {
+    resolveSchedule: jest.fn(),
+  };
+
+  const mockShippingService = {
+    priceLines: jest.fn(),
+  };
+
+  const mockPromotionService = {
+    priceLines: jest.fn(),
+  };
+
+  const mockStoreCreditService = {
+    getBalance: jest.fn(),
+    assertBalance: jest.fn(),
+    hold: jest.fn(),
+    releaseHold: jest.fn(),
+  };
+
+  const mockInventoryService = {
+    reserveForCheckout: jest.fn(),
+    release: jest.fn(),
+  };
+
+  const mockRefundService = {
+    handleRefundUpdated: jest.fn(),
+  };
+
+  const noTaxes = {
+    country: null,
+    region: null,
+    mode: TaxPricingMode.EXCLUSIVE,
+    rates: {},
+  };
+
+  const mockProductRepository = {
+    findById: jest.fn(),
+  };
+
+  const mockProduct = {
+    id: 1,
+    name: 'Test Product',
+    price: 1000,
+    stock: 10,
+    taxCategory: 'standard',
+    imageUrl: null,
+  };
+
+  const mockPaymentProvider = {
+    name: 'fake',
+    createCheckoutSession: jest.fn(),
+    getPaymentStatus: jest.fn(),
+    expireCheckoutSession: jest.fn(),
+    refund: jest.fn(),
+    parseWebhookEvent: jest.fn(),
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        CheckoutService,
+        {
+          provide: getRepositoryToken(CheckoutSession),
+          useValue: mockCheckoutSessionRepo,
+        },
+        {
+          provide: ConfigService,
+          useValue: {
+            get: jest.fn((key: string, defaultValue?: unknown) => {
+              const config = {
+                SESSION_EXPIRATION_HOURS: 1,
+              };
+              return config[key] ?? defaultValue;
+            }),
+          },
+        },
+        { provide: 'IProductRepository', useValue: mockProductRepository },
+        { provide: OrderService, useValue: mockOrderService },
+        { provide: 'IPaymentProvider', useValue: mockPaymentProvider },
+        { provide: 'IPaymentRepository', useValue: mockPaymentRepository },
+        { provide: InvoiceService, useValue: mockInvoiceService },
+        { provide: TaxService, useValue: mockTaxService },
+        { provide: ShippingService, useValue: mockShippingService },
+        { provide: PromotionService, useValue: mockPromotionService },
+        { provide: StoreCreditService, useValue: mockStoreCreditService },
+        { provide: InventoryService, useValue: mockInventoryService },
+        { provide: RefundService, useValue: mockRefundService },
+      ],
+    }).compile();
+
+    service = module.get<CheckoutService>(CheckoutService);
+
+    jest.clearAllMocks();
+
+    mockTaxService.resolveSchedule.mockResolvedValue(noTaxes);
+  });
+
+  describe('createCheckoutSessionWithCart', () => {
+    const checkoutDto = {
+      items: [{ productId: 1, quantity: 2, price: 1000 }],
+      total: 2000,
+      currency: 'usd',
+      successUrl: 'http://localhost:3000/success',
+      cancelUrl: 'http://localhost:3000/cancel',
+    };
+
+    it('should store server-side prices and send them to the payment provider', async () => {
+      // Arrange
+      mockProductRepository.findById.mockResolvedValue(mockProduct);
+      mockCheckoutSessionRepo.create.mockImplementation((data) => ({
+        id: validSessionId,
+        ...data,
+      }));
+      mockPaymentProvider.createCheckoutSession.mockResolvedValue({
+        providerSessionId: 'cs_test_123',
+        url: 'https://stripe.test',
+      });
+
+      // Act
+      const result = await service.createCheckoutSessionWithCart(
+        validUserId,
+        checkoutDto,
+      );
+
+      // Assert
+      expect(result).toEqual({
+        sessionId: validSessionId,
+        stripeUrl: 'https://stripe.test',
+      });
+      expect(mockCheckoutSessionRepo.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          userId: validUserId,
+          cartData: {
+            items: [{ productId: 1, quantity: 2, price: 1000, taxAmount: 0 }],
+            subtotal: 2000,
+            taxAmount: 0,
+            total: 2000,
+            pricing: { taxes: noTaxes, shipping: null, promotion: null },
+          },
+        }),
+      );
+      expect(mockPaymentProvider.createCheckoutSession).toHaveBeenCalledWith(
+        expect.objectContaining({
+          checkoutSessionId: validSessionId,
+          lineItems: [
+            expect.objectContaining({ unitAmount: 1000, quantity: 2 }),
+          ],
+        }),
+      );
+      expect(mockCheckoutSessionRepo.save).toHaveBeenLastCalledWith(
+        expect.objectContaining({ stripeSessionId: 'cs_test_123' }),
+      );
+      // La reserva y la sesión de pago vencen junto con la sesión local
+      const { expiresAt } = mockCheckoutSessionRepo.create.mock.calls[0][0];
+      expect(mockInventoryService.reserveForCheckout).toHaveBeenCalledWith(
+        validSessionId,
+        [{ productId: 1, quantity: 2 }],
+        expiresAt,
+        undefined,
+      );
+      expect(mockPaymentProvider.createCheckoutSession).toHaveBeenCalledWith(
+        expect.objectContaining({ expiresAt }),
+      );
+    });
+
+    it('should add exclusive taxes to the total and charge them as a separate line', async () => {
+      // Arrange
+      mockTaxService.resolveSchedule.mockResolvedValue({
+        ...noTaxes,
+        country: 'CO',
+        rates: { standard: 19 },
+      });
+      mockProductRepository.findById.mockResolvedValue(mockProduct);
+      mockCheckoutSessionRepo.create.mockImplementation((data) => ({
+        id: validSessionId,
+        ...data,
+      }));
+      mockPaymentProvider.createCheckoutSession.mockResolvedValue({
+        providerSessionId: 'cs_test_123',
+        url: 'https://stripe.test',
+      });
+
+      // Act
+      await service.createCheckoutSessionWithCart(validUserId, {
+        ...checkoutDto,
+        country: 'co',
+        total: 2380,
+      });
+
+      // Assert
+      expect(mockTaxService.resolveSchedule).toHaveBeenCalledWith(
+        'co',
+        undefined,
+      );
+      expect(mockCheckoutSessionRepo.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          cartData: expect.objectContaining({
+            subtotal: 2000,
+            taxAmount: 380,
+            total: 2380,
+          }),
+          metadata: expect.objectContaining({ country: 'CO' }),
+        }),
+      );
+      expect(mockPaymentProvider.createCheckoutSession).toHaveBeenCalledWith(
+        expect.objectContaining({
+          lineItems: [
+            expect.objectContaining({ unitAmount: 1000, quantity: 2 }),
+            { name: 'Impuestos', unitAmount: 380, quantity: 1 },
+          ],
+        }),
+      );
+    });
+
+    it('should add the chosen shipping method to the total and as a line item', async () => {
+      // Arrange
+      const methodId = '550e8400-e29b-41d4-a716-446655440020';
+      mockShippingService.priceLines.mockResolvedValue({
+        methodId,
+        name: 'Express 24h',
+        amount: 500,
+      });
+      mockProductRepository.findById.mockResolvedValue(mockProduct);
+      mockCheckoutSessionRepo.create.mockImplementation((data) => ({
+        id: validSessionId,
+        ...data,
+      }));
+      mockPaymentProvider.createCheckoutSession.mockResolvedValue({
+        providerSessionId: 'cs_test_123',
+        url: 'https://stripe.test',
+      });
+
+      // Act
+      await service.createCheckoutSessionWithCart(validUserId, {
+        ...checkoutDto,
+        country: 'CO',
+        shippingMethodId: methodId,
+        total: 2500,
+      });
+
+      // Assert
+      expect(mockShippingService.priceLines).toHaveBeenCalledWith(
+        methodId,
+        [expect.objectContaining({ productId: 1, quantity: 2 })],
+        { country: 'CO', region: undefined },
+      );
+      expect(mockCheckoutSessionRepo.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          cartData: expect.objectContaining({
+            shippingMethodId: methodId,
+            shippingAmount: 500,
+            total: 2500,
+          }),
+        }),
+      );
+      expect(mockPaymentProvider.createCheckoutSession).toHaveBeenCalledWith(
+        expect.objectContaining({
+          lineItems: [
+            expect.objectContaining({ unitAmount: 1000, quantity: 2 }),
+            { name: 'Envío: Express 24h', unitAmount: 500, quantity: 1 },
+          ],
+        }),
+      );
+    });
+
+    it('should tax the discounted lines and send the coupon as a session discount', async () => {
+      // Arrange
+      mockTaxService.resolveSchedule.mockResolvedValue({
+        ...noTaxes,
+        country: 'CO',
+        rates: { standard: 10 },
+      });
+      mockPromotionService.priceLines.mockResolvedValue({
+        promotionId: '550e8400-e29b-41d4-a716-446655440050',
+        code: 'VERANO10',
+        lines: [{ productId: 1, amount: 200 }],
+        shipping: 0,
+        total: 200,
+      });
+      mockProductRepository.findById.mockResolvedValue(mockProduct);
+      mockCheckoutSessionRepo.create.mockImplementation((data) => ({
+        id: validSessionId,
+        ...data,
+      }));
+      mockPaymentProvider.createCheckoutSession.mockResolvedValue({
+        providerSessionId: 'cs_test_123',
+        url: 'https://stripe.test',
+      });
+
+      // Act: (2000 - 200) + 10% = 1980
+      await service.createCheckoutSessionWithCart(validUserId, {
+        ...checkoutDto,
+        country: 'CO',
+        couponCode: 'VERANO10',
+        total: 1980,
+      });
+
+      // Assert
+      expect(mockPromotionService.priceLines).toHaveBeenCalledWith(
+        'VERANO10',
+        validUserId,
+        [expect.objectContaining({ productId: 1, quantity: 2 })],
+        0,
+      );
+      expect(mockCheckoutSessionRepo.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          cartData: expect.objectContaining({
+            subtotal: 1800,
+            taxAmount: 180,
+            couponCode: 'VERANO10',
+            discountAmount: 200,
+            total: 1980,
+          }),
+        }),
+      );
+      expect(mockPaymentProvider.createCheckoutSession).toHaveBeenCalledWith(
+        expect.objectContaining({
+          lineItems: [
+            expect.objectContaining({ unitAmount: 1000, quantity: 2 }),
+            { name: 'Impuestos', unitAmount: 180, quantity: 1 },
+          ],
+          discount: { name: 'Cupón VERANO10', amount: 200 },
+        }),
+      );
+    });
+
+    it('should hold the applied store credit and charge only the remainder', async () => {
+      // Arrange
+      mockStoreCreditService.getBalance.mockResolvedValue(5000);
+      mockProductRepository.findById.mockResolvedValue(mockProduct);
+      mockCheckoutSessionRepo.create.mockImplementation((data) => ({
+        id: validSessionId,
+        ...data,
+      }));
+      mockPaymentProvider.createCheckoutSession.mockResolvedValue({
+        providerSessionId: 'cs_test_123',
+        url: 'https://stripe.test',
+      });
+
+      // Act
+      await service.createCheckoutSessionWithCart(validUserId, {
+        ...checkoutDto,
+        storeCreditAmount: 500,
+      });
+
+      // Assert
+      expect(mockStoreCreditService.assertBalance).toHaveBeenCalledWith(
+        5000,
+        500,
+      );
+      expect(mockCheckoutSessionRepo.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          cartData: expect.objectContaining({
+            storeCreditAmount: 500,
+            total: 2000,
+          }),
+        }),
+      );
+      expect(mockStoreCreditService.hold).toHaveBeenCalledWith(
+        validUserId,
+        500,
+        validSessionId,
+      );
+      expect(mockPaymentProvider.createCheckoutSession).toHaveBeenCalledWith(
+        expect.objectContaining({
+          discount: { name: 'Saldo a favor', amount: 500 },
+        }),
+      );
+    });
+
+    it('should release the held stock and store credit when the payment session cannot be created', async () => {
+      // Arrange
+      mockStoreCreditService.getBalance.mockResolvedValue(5000);
+      mockProductRepository.findById.mockResolvedValue(mockProduct);
+      mockCheckoutSessionRepo.create.mockImplementation((data) => ({
+        id: validSessionId,
+        ...data,
+      }));
+      mockCheckoutSessionRepo.update.mockResolvedValue({ affected: 1 });
+      mockPaymentProvider.createCheckoutSession.mockRejectedValue(
+        new Error('Provider down'),
+      );
+
+      // Act & Assert
+      await expect(
+        service.createCheckoutSessionWithCart(validUserId, {
+          ...checkoutDto,
+          storeCreditAmount: 500,
+        }),
+      ).rejects.toThrow('Provider down');
+      expect(mockCheckoutSessionRepo.update).toHaveBeenCalledWith(
+        { id: validSessionId, status: 'pending' },
+        { status: 'expired' },
+      );
+      expect(mockInventoryService.release).toHaveBeenCalledWith({
+        checkoutSessionId: validSessionId,
+      });
+      expect(mockStoreCreditService.releaseHold).toHaveBeenCalledWith(
+        validSessionId,
+      );
+    });
+
+    it('should not open the payment session when the stock is already reserved', async () => {
+      // Arrange
+      mockProductRepository.findById.mockResolvedValue(mockProduct);
+      mockCheckoutSessionRepo.create.mockImplementation((data) => ({
+        id: validSessionId,
+        ...data,
+      }));
+      mockCheckoutSessionRepo.update.mockResolvedValue({ affected: 1 });
+      mockInventoryService.reserveForCheckout.mockRejectedValueOnce(
+        new UnprocessableEntityException({
+          code: 'CART_ITEMS_UNAVAILABLE',
+        }),
+      );
+
+      // Act & Assert
+      await expect(
+        service.createCheckoutSessionWithCart(validUserId, checkoutDto),
+      ).rejects.toThrow(UnprocessableEntityException);
+      expect(mockPaymentProvider.createCheckoutSession).not.toHaveBeenCalled();
+      expect(mockCheckoutSessionRepo.update).toHaveBeenCalledWith(
+        { id: validSessionId, status: 'pending' },
+        { status: 'expired' },
+      );
+    });
+
+    it('should reject store credit that covers the whole total', async () => {
+      // Arrange
+      mockProductRepository.findById.mockResolvedValue(mockProduct);
+
+      // Act & Assert
+      await expect(
+        service.createCheckoutSessionWithCart(validUserId, {
+          ...checkoutDto,
+          storeCreditAmount: 2000,
+        }),
+      ).rejects.toThrow(BadRequestException);
+      expect(mockStoreCreditService.hold).not.toHaveBeenCalled();
+    });
+
+    it('should throw ConflictException listing changed lines when prices differ', async () => {
+      // Arrange
+      mockProductRepository.findById.mockResolvedValue(mockProduct);
+
+      // Act & Assert
+      const error = await service
+        .createCheckoutSessionWithCart(validUserId, {
+          ...checkoutDto,
+          items: [{ productId: 1, quantity: 2, price: 1 }],
+          total: 2,
+        })
+        .catch((e) => e);
+
+      expect(error).toBeInstanceOf(ConflictException);
+      expect(error.getResponse()).toEqual(
+        expect.objectContaining({
+          code: 'CART_PRICE_MISMATCH',
+          total: 2000,
+          changes: [
+            { productId: 1, clientPrice: 1, currentPrice: 1000, quantity: 2 },
+          ],
+        }),
+      );
+      expect(mockCheckoutSessionRepo.save).not.toHaveBeenCalled();
+    });
+
+    it('should throw UnprocessableEntityException for unknown or out-of-stock products', async () => {
+      // Arrange
+      mockProductRepository.findById
+        .mockResolvedValueOnce(null)
+        .mockResolvedValueOnce({ ...mockProduct, id: 2, stock: 0 });
+
+      // Act & Assert
+      await expect(
+        service.createCheckoutSessionWithCart(validUserId, {
+          ...checkoutDto,
+          items: [
+            { productId: 1, quantity: 1, price: 1000 },
+            { productId: 2, quantity: 1, price: 1000 },
+          ],
+        }),
+      ).rejects.toThrow(UnprocessableEntityException);
+    });
+  });
+
+  describe('getCheckoutSession', () => {
+    it('should return the session to its owner', async () => {
+      // Arrange
+      mockCheckoutSessionRepo.findOne.mockResolvedValue(mockCheckoutSession);
+
+      // Act
+      const result = await service.getCheckoutSession(
+        validSessionId,
+        UserRole.CLIENT,
+        validUserId,
+      );
+
+      // Assert
+      expect(result).toBe(mockCheckoutSession);
+    });
+
+    it('should only look up pending sessions that have not expired', async () => {
+      // Arrange
+      mockCheckoutSessionRepo.findOne.mockResolvedValue(null);
+
+      // Act & Assert
+      await expect(
+        service.getCheckoutSession(
+          validSessionId,
+          UserRole.CLIENT,
+          validUserId,
+        ),
+      ).rejects.toThrow(NotFoundException);
+      expect(mockCheckoutSessionRepo.findOne).toHaveBeenCalledWith({
+        where: {
+          id: validSessionId,
+          status: 'pending',
+          expiresAt: expect.objectContaining({ _type: 'moreThan' }),
+        },
+      });
+    });
+
+    it('should allow admins to read any session', async () => {
+      // Arrange
+      mockCheckoutSessionRepo.findOne.mockResolvedValue(mockCheckoutSession);
+
+      // Act & Assert
+      await expect(
+        service.getCheckoutSession(validSessionId, UserRole.ADMIN, otherUserId),
+      ).resolves.toBe(mockCheckoutSession);
+    });
+
+    it('should throw ForbiddenException when a client reads another user session', async () => {
+      // Arrange
+      mockCheckoutSessionRepo.findOne.mockResolvedValue(mockCheckoutSession);
+
+      // Act & Assert
+      await expect(
+        service.getCheckoutSession(
+          validSessionId,
+          UserRole.CLIENT,
+          otherUserId,
+        ),
+      ).rejects.toThrow(ForbiddenException);
+    });
+
+    it('should cancel a pending session and release its reservations', async () => {
+      // Arrange
+      mockCheckoutSessionRepo.findOne.mockResolvedValue(mockCheckoutSession);
+      mockPaymentProvider.getPaymentStatus.mockResolvedValue({
+        status: 'pending',
+      });
+      mockCheckoutSessionRepo.update.mockResolvedValue({ affected: 1 });
+
+      // Act
+      await service.cancelCheckoutSession(
+        validSessionId,
+        UserRole.CLIENT,
+        validUserId,
+      );
+
+      // Assert
+      expect(mockPaymentProvider.expireCheckoutSession).toHaveBeenCalledWith(
+        'cs_test_123',
+      );
+      expect(mockCheckoutSessionRepo.update).toHaveBeenCalledWith(
+        { id: validSessionId, status: 'pending' },
+        { status: 'cancelled' },
+      );
+      expect(mockInventoryService.release).toHaveBeenCalledWith({
+        checkoutSessionId: validSessionId,
+      });
+      expect(mockStoreCreditService.releaseHold).toHaveBeenCalledWith(
+        validSessionId,
+      );
+    });
+
+    it('should not cancel a session the provider already charged', async () => {
+      // Arrange
+      mockCheckoutSessionRepo.findOne.mockResolvedValue(mockCheckoutSession);
+      mockPaymentProvider.getPaymentStatus.mockResolvedValue({
+        status: 'paid',
+      });
+
+      // Act & Assert
+      await expect(
+        service.cancelCheckoutSession(
+          validSessionId,
+          UserRole.CLIENT,
+          validUserId,
+        ),
+      ).rejects.toThrow(ConflictException);
+      expect(mockCheckoutSessionRepo.update).not.toHaveBeenCalled();
+      expect(mockInventoryService.release).not.toHaveBeenCalled();
+    });
+
+    it('should not show a session owned by another user', async () => {
+      // Arrange
+      mockCheckoutSessionRepo.findOne.mockResolvedValue(mockCheckoutSession);
+
+      // Act & Assert
+      await expect(
+        service.getCheckoutSessionStatus(
+          validSessionId,
+          UserRole.CLIENT,
+          otherUserId,
+        ),
+      ).rejects.toThrow(ForbiddenException);
+    });
+
+    it('should report the status without moving the session out of pending', async () => {
+      // Arrange
+      mockCheckoutSessionRepo.findOne.mockResolvedValue(mockCheckoutSession);
+
+      // Act
+      const result = await service.getCheckoutSessionStatus(
+        validSessionId,
+        UserRole.CLIENT,
+        validUserId,
+      );
+
+      // Assert
+      expect(result).toEqual({
+        sessionId: validSessionId,
+        status: 'pending',
+        orderId: null,
+      });
+      expect(mockCheckoutSessionRepo.save).not.toHaveBeenCalled();
+      expect(mockCheckoutSessionRepo.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('constructWebhookEvent', () => {
+    it('should delegate signature verification to the payment provider', () => {
+      // Arrange
+      const rawBody = Buffer.from('{}');
+      const headers = { 'stripe-signature': 't=1,v1=abc' };
+      mockPaymentProvider.parseWebhookEvent.mockImplementation(() => {
+        throw new BadRequestException('Firma del webhook inválida');
+      });
+
+      // Act & Assert
+      expect(() => service.constructWebhookEvent(rawBody, headers)).toThrow(
+        BadRequestException,
+      );
+      expect(mockPaymentProvider.parseWebhookEvent).toHaveBeenCalledWith(
+        rawBody,
+        headers,
+      );
+    });
+  });
+
+  describe('handleWebhookEvent', () => {
+    it('should create the order and complete the session on checkout.completed', async () => {
+      // Arrange
+      mockCheckoutSessionRepo.findOne.mockResolvedValue(mockCheckoutSession);
+      mockCheckoutSessionRepo.update.mockResolvedValue({ affected: 1 });
+      mockOrderService.create.mockResolvedValue({ id: 'order-1' });
+
+      // Act
+      await service.handleWebhookEvent({
+        type: 'checkout.completed',
+        checkoutSessionId: validSessionId,
+        providerSessionId: 'cs_test_123',
+        paymentReference: 'pi_test_123',
+        paid: true,
+      });
+
+      // Assert
+      expect(mockCheckoutSessionRepo.update).toHaveBeenCalledWith(
+        { id: validSessionId, status: 'pending' },
+        { status: 'completed' },
+      );
+      expect(mockOrderService.create).toHaveBeenCalledWith(
+        validUserId,
+        {
+          items: [{ productId: 1, quantity: 2 }],
+          deliveryAddress: 'Test Address',
+        },
+        { checkoutSessionId: validSessionId },
+      );
+      expect(mockPaymentRepository.create).toHaveBeenCalledWith({
+        orderId: 'order-1',
+        provider: 'fake',
+        providerSessionId: 'cs_test_123',
+        providerReference: 'pi_test_123',
+        amount: 2000,
+        storeCreditAmount: 0,
+        currency: 'usd',
+      });
+      expect(mockCheckoutSessionRepo.update).toHaveBeenLastCalledWith(
+        { id: validSessionId },
+        expect.objectContaining({
+          metadata: expect.objectContaining({
+            orderId: 'order-1',
+            paymentReference: 'pi_test_123',
+          }),
+        }),
+      );
+    });
+
+    it('should keep the session completed when the order exists but the payment cannot be recorded', async () => {
+      // Arrange
+      mockCheckoutSessionRepo.findOne.mockResolvedValue(mockCheckoutSession);
+      mockCheckoutSessionRepo.update.mockResolvedValue({ affected: 1 });
+      mockOrderService.create.mockResolvedValue({ id: 'order-1' });
+      mockPaymentRepository.create.mockRejectedValue(new Error('DB caída'));
+
+      // Act
+      await service.handleWebhookEvent({
+        type: 'checkout.completed',
+        checkoutSessionId: validSessionId,
+        providerSessionId: 'cs_test_123',
+        paid: true,
+      });
+
+      // Assert
+      expect(mockCheckoutSessionRepo.update).not.toHaveBeenCalledWith(
+        { id: validSessionId },
+        expect.objectContaining({ status: 'pending' }),
+      );
+    });
+
+    it('should ignore completed sessions that are not paid', async () => {
+      // Act
+      await service.handleWebhookEvent({
+        type: 'checkout.completed',
+        checkoutSessionId: validSessionId,
+        providerSessionId: 'cs_test_123',
+        paid: false,
+      });
+
+      // Assert
+      expect(mockCheckoutSessionRepo.update).not.toHaveBeenCalled();
+      expect(mockOrderService.create).not.toHaveBeenCalled();
+    });
+
+    it('should not create a second order when the session was already completed', async () => {
+      // Arrange
+      mockCheckoutSessionRepo.findOne.mockResolvedValue({
+        ...mockCheckoutSession,
+        status: 'completed',
+      });
+      mockCheckoutSessionRepo.update.mockResolvedValue({ affected: 0 });
+
+      // Act
+      await service.handleWebhookEvent({
+        type: 'checkout.completed',
+        checkoutSessionId: validSessionId,
+        providerSessionId: 'cs_test_123',
+        paid: true,
+      });
+
+      // Assert
+      expect(mockOrderService.create).not.toHaveBeenCalled();
+    });
+
+    it('should return the session to pending when the order creation fails unexpectedly', async () => {
+      // Arrange
+      mockCheckoutSessionRepo.findOne.mockResolvedValue(mockCheckoutSession);
+      mockCheckoutSessionRepo.update.mockResolvedValue({ affected: 1 });
+      mockOrderService.create.mockRejectedValue(
+        new Error('Stock insuficiente'),
+      );
+
+      // Act & Assert
+      await expect(
+        service.handleWebhookEvent({
+          type: 'checkout.completed',
+          checkoutSessionId: validSessionId,
+          providerSessionId: 'cs_test_123',
+          paid: true,
+        }),
+      ).rejects.toThrow('Stock insuficiente');
+      expect(mockCheckoutSessionRepo.update).toHaveBeenLastCalledWith(
+        { id: validSessionId },
+        expect.objectContaining({
+          status: 'pending',
+          metadata: expect.objectContaining({ orderAttempts: 1 }),
+        }),
+      );
+      expect(mockPaymentProvider.refund).not.toHaveBeenCalled();
+    });
+
+    it('should create the order with the prices, taxes and coupon that were charged', async () => {
+      // Arrange
+      const pricing = {
+        taxes: noTaxes,
+        shipping: null,
+        promotion: {
+          promotionId: '550e8400-e29b-41d4-a716-446655440070',
+          code: 'VERANO10',
+          lines: [{ productId: 1, amount: 200 }],
+          shipping: 0,
+          total: 200,
+        },
+      };
+      mockCheckoutSessionRepo.findOne.mockResolvedValue({
+        ...mockCheckoutSession,
+        cartData: {
+          ...mockCheckoutSession.cartData,
+          couponCode: 'VERANO10',
+          total: 1800,
+          pricing,
+        },
+      });
+      mockCheckoutSessionRepo.update.mockResolvedValue({ affected: 1 });
+      mockOrderService.create.mockResolvedValue({ id: 'order-1' });
+
+      // Act
+      await service.handleWebhookEvent({
+        type: 'checkout.completed',
+        checkoutSessionId: validSessionId,
+        providerSessionId: 'cs_test_123',
+        paymentReference: 'pi_test_123',
+        paid: true,
+      });
+
+      // Assert
+      expect(mockOrderService.create).toHaveBeenCalledWith(
+        validUserId,
+        expect.objectContaining({ couponCode: 'VERANO10' }),
+        {
+          checkoutSessionId: validSessionId,
+          pricing: { ...pricing, prices: { 1: 1000 } },
+        },
+      );
+      expect(mockPaymentRepository.create).toHaveBeenCalledWith(
+        expect.objectContaining({ amount: 1800 }),
+      );
+    });
+
+    it('should record the store-credit part of the payment', async () => {
+      // Arrange
+      mockCheckoutSessionRepo.findOne.mockResolvedValue({
+        ...mockCheckoutSession,
+        cartData: { ...mockCheckoutSession.cartData, storeCreditAmount: 500 },
+      });
+      mockCheckoutSessionRepo.update.mockResolvedValue({ affected: 1 });
+      mockOrderService.create.mockResolvedValue({ id: 'order-1' });
+
+      // Act
+      await service.handleWebhookEvent({
+        type: 'checkout.completed',
+        checkoutSessionId: validSessionId,
+        providerSessionId: 'cs_test_123',
+        paymentReference: 'pi_test_123',
+        paid: true,
+      });
+
+      // Assert
+      expect(mockPaymentRepository.create).toHaveBeenCalledWith(
+        expect.objectContaining({ amount: 1500, storeCreditAmount: 500 }),
+      );
+    });
+
+    it('should refund the payment when the order is rejected after capture', async () => {
+      // Arrange
+      mockCheckoutSessionRepo.findOne.mockResolvedValue(mockCheckoutSession);
+      mockCheckoutSessionRepo.update.mockResolvedValue({ affected: 1 });
+      mockOrderService.create.mockRejectedValue(
+        new UnprocessableEntityException('Stock insuficiente'),
+      );
+      mockPaymentProvider.refund.mockResolvedValue({
+        refundId: 're_test_123',
+        status: 'succeeded',
+        amount: 2000,
+      });
+
+      // Act
+      await service.handleWebhookEvent({
+        type: 'checkout.completed',
+        checkoutSessionId: validSessionId,
+        providerSessionId: 'cs_test_123',
+        paymentReference: 'pi_test_123',
+        paid: true,
+      });
+
+      // Assert
+      expect(mockPaymentProvider.refund).toHaveBeenCalledWith(
+        expect.objectContaining({
+          paymentReference: 'pi_test_123',
+          amount: 2000,
+        }),
+      );
+      expect(mockCheckoutSessionRepo.update).toHaveBeenLastCalledWith(
+        { id: validSessionId },
+        expect.objectContaining({
+          status: 'cancelled',
+          metadata: expect.objectContaining({ refundId: 're_test_123' }),
+        }),
+      );
+      expect(mockInventoryService.release).toHaveBeenCalledWith({
+        checkoutSessionId: validSessionId,
+      });
+      expect(mockStoreCreditService.releaseHold).toHaveBeenCalledWith(
+        validSessionId,
+      );
+    });
+
+    it('should flag the session for review when the refund fails', async () => {
+      // Arrange
+      mockCheckoutSessionRepo.findOne.mockResolvedValue({
+        ...mockCheckoutSession,
+        metadata: { ...mockCheckoutSession.metadata, orderAttempts: 2 },
+      });
+      mockCheckoutSessionRepo.update.mockResolvedValue({ affected: 1 });
+      mockOrderService.create.mockRejectedValue(new Error('DB caída'));
+      mockPaymentProvider.refund.mockRejectedValue(
+        new Error('Proveedor no disponible'),
+      );
+
+      // Act
+      await service.handleWebhookEvent({
+        type: 'checkout.completed',
+        checkoutSessionId: validSessionId,
+        providerSessionId: 'cs_test_123',
+        paymentReference: 'pi_test_123',
+        paid: true,
+      });
+
+      // Assert
+      expect(mockCheckoutSessionRepo.update).toHaveBeenLastCalledWith(
+        { id: validSessionId },
+        expect.objectContaining({
+          status: 'cancelled',
+          metadata: expect.objectContaining({ requiresAttention: true }),
+        }),
+      );
+    });
+
+    it('should expire the session and release its stock and store credit on checkout.expired', async () => {
+      // Arrange
+      mockCheckoutSessionRepo.findOne.mockResolvedValue(mockCheckoutSession);
+      mockCheckoutSessionRepo.update.mockResolvedValue({ affected: 1 });
+
+      // Act
+      await service.handleWebhookEvent({
+        type: 'checkout.expired',
+        providerSessionId: 'cs_test_123',
+      });
+
+      // Assert
+      expect(mockCheckoutSessionRepo.findOne).toHaveBeenCalledWith({
+        where: { stripeSessionId: 'cs_test_123' },
+      });
+      expect(mockCheckoutSessionRepo.update).toHaveBeenCalledWith(
+        { id: validSessionId, status: 'pending' },
+        { status: 'expired' },
+      );
+      expect(mockInventoryService.release).toHaveBeenCalledWith({
+        checkoutSessionId: validSessionId,
+      });
+      expect(mockStoreCreditService.releaseHold).toHaveBeenCalledWith(
+        validSessionId,
+      );
+    });
+
+    it('should record the error on payment.failed', async () => {
+      // Arrange
+      mockCheckoutSessionRepo.findOne.mockResolvedValue({
+        ...mockCheckoutSession,
+      });
+
+      // Act
+      await service.handleWebhookEvent({
+        type: 'payment.failed',
+        checkoutSessionId: validSessionId,
+        paymentReference: 'pi_test_123',
+        errorMessage: 'Your card was declined.',
+      });
+
+      // Assert
+      expect(mockCheckoutSessionRepo.save).toHaveBeenCalledWith(
+        expect.objectContaining({
+          status: 'pending',
+          metadata: expect.objectContaining({
+            lastPaymentError: 'Your card was declined.',
+          }),
+        }),
+      );
+    });
+
+    it('should hand refund.updated events to the refund service', async () => {
+      // Arrange
+      const event = {
+        type: 'refund.updated' as const,
+        refundId: 'refund-1',
+        providerRefundId: 're_1',
+        status: 'succeeded' as const,
+      };
+
+      // Act
+      await service.handleWebhookEvent(event);
+
+      // Assert
+      expect(mockRefundService.handleRefundUpdated).toHaveBeenCalledWith(event);
+    });
+  });
+});
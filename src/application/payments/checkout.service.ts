@@ -0,0 +1,924 @@
+import {
+  Injectable,
+  Logger,
+  NotFoundException,
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  HttpException,
+  Inject,
+  UnprocessableEntityException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { MoreThan, Repository } from 'typeorm';
+import { IncomingHttpHeaders } from 'http';
+import {
+  CheckoutSessionStatusDto,
+  CreateCheckoutSessionDto,
+} from './dto/checkout-session.dto';
+import { CheckoutSession } from '../../domain/entities/checkout-session.entity';
+import { Product } from '../../domain/entities/product.entity';
+import { UserRole } from '../../domain/entities/user.entity';
+import { IProductRepository } from '../products/interfaces/product-repository.interface';
+import { OrderService } from '../orders/order.service';
+import { InvoiceService } from '../invoices/invoice.service';
+import { TaxService } from '../taxes/tax.service';
+import { ShippingService } from '../shipping/shipping.service';
+import { PromotionService } from '../promotions/promotion.service';
+import { StoreCreditService } from '../store-credit/store-credit.service';
+import { InventoryService } from '../inventory/inventory.service';
+import {
+  LineTax,
+  TaxPricingMode,
+  TaxSchedule,
+  calculateLineTax,
+} from '../../domain/entities/tax-rate.entity';
+import { ShippingCharge } from '../../domain/entities/shipping-method.entity';
+import { PromotionDiscount } from '../../domain/entities/promotion.entity';
+import {
+  IPaymentProvider,
+  PaymentDiscount,
+  PaymentLineItem,
+  PaymentWebhookEvent,
+  RefundResult,
+} from './interfaces/payment-provider.interface';
+import { IPaymentRepository } from './interfaces/payment-repository.interface';
+import { RefundService } from './refund.service';
+import { OrderGuest } from '../orders/interfaces/order-repository.interface';
+
+interface PricedCartLine {
+  productId: number;
+  quantity: number;
+  price: number; // precio autoritativo en centavos
+  clientPrice?: number;
+  product: Product;
+  discount: number;
+  tax: LineTax;
+}
+
+interface PricedCart {
+  lines: PricedCartLine[];
+  taxes: TaxSchedule;
+  subtotal: number;
+  taxAmount: number;
+  shipping: ShippingCharge | null;
+  promotion: PromotionDiscount | null;
+  shippingAmount: number; // con el descuento de envío
+  total: number; // con impuestos, envío y descuentos
+  storeCreditAmount: number; // parte del total pagada con saldo a favor
+}
+
+type CheckoutCompletedEvent = Extract<
+  PaymentWebhookEvent,
+  { type: 'checkout.completed' }
+>;
+type CheckoutExpiredEvent = Extract<
+  PaymentWebhookEvent,
+  { type: 'checkout.expired' }
+>;
+type PaymentFailedEvent = Extract<
+  PaymentWebhookEvent,
+  { type: 'payment.failed' }
+>;
+
+/**
+ * CheckoutService - Flujo de checkout independiente del proveedor de pagos
+ * Persiste el carrito, reserva su stock, crea la sesión de pago a través de
+ * IPaymentProvider y convierte los webhooks de pago confirmados en órdenes
+ */
+@Injectable()
+export class CheckoutService {
+  private readonly logger = new Logger(CheckoutService.name);
+  private static readonly MAX_ORDER_ATTEMPTS = 3;
+
+  constructor(
+    @InjectRepository(CheckoutSession)
+    private readonly checkoutSessionRepo: Repository<CheckoutSession>,
+    private readonly configService: ConfigService,
+    @Inject('IProductRepository')
+    private readonly productRepository: IProductRepository,
+    private readonly orderService: OrderService,
+    @Inject('IPaymentProvider')
+    private readonly paymentProvider: IPaymentProvider,
+    @Inject('IPaymentRepository')
+    private readonly paymentRepository: IPaymentRepository,
+    private readonly invoiceService: InvoiceService,
+    private readonly taxService: TaxService,
+    private readonly shippingService: ShippingService,
+    private readonly promotionService: PromotionService,
+    private readonly storeCreditService: StoreCreditService,
+    private readonly inventoryService: InventoryService,
+    private readonly refundService: RefundService,
+  ) {}
+
+  /**
+   * Guardar datos temporales del carrito y crear la sesión en el proveedor de pagos
+   * Precios, descuentos, impuestos y envío se recalculan en el servidor a partir de Product.price
+   * El stock y el saldo a favor aplicado quedan reservados hasta que la
+   * sesión se pague, se cancele o expire
+   * @param userId ID del usuario autenticado (sub del JWT; null si compra un invitado)
+   * @param guest Comprador sin cuenta: la orden del webhook queda a su nombre
+   * @param cartId Carrito del que sale la sesión: sus reservas de stock pasan a la sesión
+   * @throws UnprocessableEntityException si otra reserva ya apartó el stock
+   */
+  async createCheckoutSessionWithCart(
+    userId: string | null,
+    dto: CreateCheckoutSessionDto,
+    guest?: OrderGuest,
+    cartId?: string,
+  ) {
+    // 1. Recalcular precios, descuentos, impuestos, envío y total con los datos del catálogo
+    const pricedCart = await this.priceCart(userId, dto);
+
+    let checkoutSession: CheckoutSession | undefined;
+    try {
+      // 2. Calcular fecha de expiración basada en configuración
+      const expirationHours = this.configService.get<number>(
+        'SESSION_EXPIRATION_HOURS',
+        1,
+      );
+      const expiresAt = new Date();
+      expiresAt.setHours(expiresAt.getHours() + expirationHours);
+
+      // 3. Guardar el carrito con los precios autoritativos
+      checkoutSession = this.checkoutSessionRepo.create({
+        userId,
+        guestCustomerId: guest?.guestCustomerId ?? null,
+        cartData: {
+          items: pricedCart.lines.map(
+            ({ productId, quantity, price, discount, tax }) => ({
+              productId,
+              quantity,
+              price,
+              ...(discount > 0 && { discountAmount: discount }),
+              taxAmount: tax.tax,
+            }),
+          ),
+          subtotal: pricedCart.subtotal,
+          taxAmount: pricedCart.taxAmount,
+          ...(pricedCart.shipping && {
+            shippingMethodId: pricedCart.shipping.methodId,
+            shippingAmount: pricedCart.shippingAmount,
+          }),
+          ...(pricedCart.promotion && {
+            couponCode: pricedCart.promotion.code,
+            discountAmount: pricedCart.promotion.total,
+          }),
+          ...(pricedCart.storeCreditAmount > 0 && {
+            storeCreditAmount: pricedCart.storeCreditAmount,
+          }),
+          total: pricedCart.total,
+          pricing: {
+            taxes: pricedCart.taxes,
+            shipping: pricedCart.shipping,
+            promotion: pricedCart.promotion,
+          },
+        },
+        metadata: {
+          currency: dto.currency,
+          ...(dto.deliveryAddress && { deliveryAddress: dto.deliveryAddress }),
+          ...(pricedCart.taxes.country && {
+            country: pricedCart.taxes.country,
+          }),
+          ...(pricedCart.taxes.region && { region: pricedCart.taxes.region }),
+          ...(pricedCart.shipping && {
+            shippingMethodId: pricedCart.shipping.methodId,
+          }),
+          ...(guest && { orderAccessTokenHash: guest.accessTokenHash }),
+        },
+        status: 'pending',
+        expiresAt,
+      });
+      await this.checkoutSessionRepo.save(checkoutSession);
+
+      // 4. Reservar el stock (falla si otra sesión o carrito apartó las unidades)
+      await this.inventoryService.reserveForCheckout(
+        checkoutSession.id,
+        pricedCart.lines.map(({ productId, quantity }) => ({
+          productId,
+          quantity,
+        })),
+        expiresAt,
+        cartId,
+      );
+
+      // 5. Reservar el saldo a favor (falla si otro canje ya lo consumió)
+      if (pricedCart.storeCreditAmount > 0) {
+        await this.storeCreditService.hold(
+          userId,
+          pricedCart.storeCreditAmount,
+          checkoutSession.id,
+        );
+      }
+
+      // 6. Crear la sesión de pago (el sessionId viaja en las URLs de retorno)
+      const paymentSession = await this.paymentProvider.createCheckoutSession({
+        checkoutSessionId: checkoutSession.id,
+        currency: dto.currency,
+        lineItems: this.toPaymentLineItems(pricedCart),
+        discount: this.toPaymentDiscount(pricedCart),
+        successUrl: `${dto.successUrl}?sessionId=${checkoutSession.id}`,
+        cancelUrl: `${dto.cancelUrl}?sessionId=${checkoutSession.id}`,
+        expiresAt,
+      });
+
+      // 7. Actualizar checkoutSession con el ID del proveedor
+      checkoutSession.stripeSessionId = paymentSession.providerSessionId;
+      await this.checkoutSessionRepo.save(checkoutSession);
+
+      return {
+        sessionId: checkoutSession.id,
+        stripeUrl: paymentSession.url,
+      };
+    } catch (error) {
+      this.logger.error('Error creating checkout session', error);
+
+      // Sin sesión de pago no hay nada que cobrar: devolver stock y saldo reservados
+      if (checkoutSession?.id) {
+        await this.closeSession(checkoutSession.id, 'expired');
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Recuperar datos del carrito por sessionId
+   * Una sesión pendiente con expiresAt vencido se considera expirada
+   * @throws NotFoundException si la sesión no existe, no está pendiente o venció
+   * @throws ForbiddenException si el cliente intenta acceder a una sesión ajena
+   */
+  async getCheckoutSession(
+    sessionId: string,
+    userRole: UserRole,
+    currentUserId?: string,
+  ) {
+    const session = await this.checkoutSessionRepo.findOne({
+      where: {
+        id: sessionId,
+        status: 'pending',
+        expiresAt: MoreThan(new Date()),
+      },
+    });
+
+    if (!session) {
+      throw new NotFoundException('Checkout session not found or expired');
+    }
+
+    // Verificar autorización para clientes
+    if (userRole === UserRole.CLIENT) {
+      if (!currentUserId || session.userId !== currentUserId) {
+        throw new ForbiddenException(
+          'No tienes permisos para ver esta sesión de checkout',
+        );
+      }
+    }
+
+    return session;
+  }
+
+  /**
+   * Cancelar una sesión pendiente (el cliente abandonó el pago): la expira en
+   * el proveedor y devuelve el stock y el saldo a favor reservados
+   * @throws NotFoundException si la sesión no existe, no está pendiente o venció
+   * @throws ForbiddenException si el cliente intenta cancelar una sesión ajena
+   * @throws ConflictException si el proveedor ya registró el pago
+   */
+  async cancelCheckoutSession(
+    sessionId: string,
+    userRole: UserRole,
+    currentUserId?: string,
+  ): Promise<void> {
+    const session = await this.getCheckoutSession(
+      sessionId,
+      userRole,
+      currentUserId,
+    );
+
+    if (session.stripeSessionId) {
+      const payment = await this.paymentProvider.getPaymentStatus(
+        session.stripeSessionId,
+      );
+      if (payment.status === 'paid') {
+        throw new ConflictException(
+          'La sesión ya fue pagada; la orden se creará al confirmarse el pago',
+        );
+      }
+      await this.paymentProvider.expireCheckoutSession(session.stripeSessionId);
+    }
+
+    if (await this.closeSession(session.id, 'cancelled')) {
+      this.logger.log(`Checkout session ${session.id} cancelada`);
+    }
+  }
+
+  /**
+   * Estado de una sesión (para la página de retorno del pago). Solo lectura:
+   * únicamente el webhook del proveedor saca una sesión de pending
+   * @throws NotFoundException si la sesión no existe
+   * @throws ForbiddenException si el cliente intenta consultar una sesión ajena
+   */
+  async getCheckoutSessionStatus(
+    sessionId: string,
+    userRole: UserRole,
+    currentUserId?: string,
+  ): Promise<CheckoutSessionStatusDto> {
+    const session = await this.checkoutSessionRepo.findOne({
+      where: { id: sessionId },
+    });
+    if (!session) {
+      throw new NotFoundException('Checkout session not found');
+    }
+
+    if (userRole === UserRole.CLIENT) {
+      if (!currentUserId || session.userId !== currentUserId) {
+        throw new ForbiddenException(
+          'No tienes permisos para ver esta sesión de checkout',
+        );
+      }
+    }
+
+    return {
+      sessionId: session.id,
+      status: session.status,
+      orderId: (session.metadata?.orderId as string | undefined) ?? null,
+    };
+  }
+
+  /**
+   * Líneas a cobrar con el desglose de impuestos y el envío
+   * - exclusive: productos a precio neto más una línea con los impuestos
+   * - inclusive: productos a precio final indicando el impuesto incluido
+   * Los productos van a precio de catálogo: su descuento viaja aparte (ver
+   * toPaymentDiscount); el envío ya va descontado
+   */
+  private toPaymentLineItems(cart: PricedCart): PaymentLineItem[] {
+    const inclusive = cart.taxes.mode === TaxPricingMode.INCLUSIVE;
+    const lineItems: PaymentLineItem[] = cart.lines.map((line) => ({
+      name: line.product.name,
+      imageUrl: line.product.imageUrl,
+      unitAmount: line.price,
+      quantity: line.quantity,
+      ...(inclusive &&
+        line.tax.tax > 0 && {
+          description: `Incluye ${line.tax.rate}% de impuestos (${(line.tax.tax / 100).toFixed(2)})`,
+        }),
+    }));
+
+    if (!inclusive && cart.taxAmount > 0) {
+      lineItems.push({
+        name: 'Impuestos',
+        unitAmount: cart.taxAmount,
+        quantity: 1,
+      });
+    }
+
+    if (cart.shipping && cart.shippingAmount > 0) {
+      lineItems.push({
+        name: `Envío: ${cart.shipping.name}`,
+        unitAmount: cart.shippingAmount,
+        quantity: 1,
+      });
+    }
+    return lineItems;
+  }
+
+  /**
+   * Descuento de línea del cupón (el de envío ya se restó a su línea) más el
+   * saldo a favor aplicado
+   */
+  private toPaymentDiscount(cart: PricedCart): PaymentDiscount | undefined {
+    const couponAmount = cart.promotion
+      ? cart.lines.reduce((sum, line) => sum + line.discount, 0)
+      : 0;
+    const names = [
+      ...(couponAmount > 0 ? [`Cupón ${cart.promotion.code}`] : []),
+      ...(cart.storeCreditAmount > 0 ? ['Saldo a favor'] : []),
+    ];
+    if (names.length === 0) {
+      return undefined;
+    }
+    return {
+      name: names.join(' + '),
+      amount: couponAmount + cart.storeCreditAmount,
+    };
+  }
+
+  /**
+   * Re-precia cada línea del carrito con Product.price y valida stock
+   * @throws BadRequestException si hay productos duplicados, el método de
+   * envío no cubre el destino, el cupón no aplica, el saldo a favor cubre
+   * todo el total o un invitado usa cupón o saldo a favor
+   * @throws UnprocessableEntityException si hay productos inexistentes o sin stock
+   * @throws ConflictException si los precios o el total del cliente no
+   * coinciden o el saldo a favor no alcanza
+   */
+  private async priceCart(
+    userId: string | null,
+    dto: CreateCheckoutSessionDto,
+  ): Promise<PricedCart> {
+    if (!userId && (dto.couponCode || dto.storeCreditAmount)) {
+      throw new BadRequestException(
+        'Los cupones y el saldo a favor requieren una cuenta',
+      );
+    }
+
+    const taxes = await this.taxService.resolveSchedule(
+      dto.country,
+      dto.region,
+    );
+    const productIds = dto.items.map((item) => item.productId);
+    if (new Set(productIds).size !== productIds.length) {
+      throw new BadRequestException(
+        'No se pueden incluir productos duplicados en el carrito',
+      );
+    }
+
+    const products = await Promise.all(
+      dto.items.map((item) => this.productRepository.findById(item.productId)),
+    );
+
+    const unavailable: Array<{
+      productId: number;
+      reason: 'not_found' | 'insufficient_stock';
+      available?: number;
+      requested?: number;
+    }> = [];
+    const lines: Omit<PricedCartLine, 'discount' | 'tax'>[] = [];
+
+    dto.items.forEach((item, index) => {
+      const product = products[index];
+      if (!product) {
+        unavailable.push({ productId: item.productId, reason: 'not_found' });
+        return;
+      }
+
+      if (product.stock < item.quantity) {
+        unavailable.push({
+          productId: item.productId,
+          reason: 'insufficient_stock',
+          available: product.stock,
+          requested: item.quantity,
+        });
+        return;
+      }
+
+      const price = Math.round(product.price);
+      lines.push({
+        productId: item.productId,
+        quantity: item.quantity,
+        price,
+        clientPrice: item.price,
+        product,
+      });
+    });
+
+    if (unavailable.length > 0) {
+      throw new UnprocessableEntityException({
+        message: 'Algunos productos del carrito no están disponibles',
+        code: 'CART_ITEMS_UNAVAILABLE',
+        items: unavailable,
+      });
+    }
+
+    const shipping = dto.shippingMethodId
+      ? await this.shippingService.priceLines(dto.shippingMethodId, lines, {
+          country: dto.country,
+          region: dto.region,
+        })
+      : null;
+    const promotion = dto.couponCode
+      ? await this.promotionService.priceLines(
+          dto.couponCode,
+          userId,
+          lines,
+          shipping?.amount ?? 0,
+        )
+      : null;
+
+    // El descuento de cada línea se aplica antes de impuestos
+    const pricedLines: PricedCartLine[] = lines.map((line) => {
+      const discount =
+        promotion?.lines.find((l) => l.productId === line.productId)?.amount ??
+        0;
+      return {
+        ...line,
+        discount,
+        tax: calculateLineTax(
+          taxes,
+          line.product.taxCategory,
+          line.price,
+          line.quantity,
+          discount,
+        ),
+      };
+    });
+
+    const subtotal = pricedLines.reduce((sum, line) => sum + line.tax.net, 0);
+    const taxAmount = pricedLines.reduce((sum, line) => sum + line.tax.tax, 0);
+    const shippingAmount = Math.max(
+      (shipping?.amount ?? 0) - (promotion?.shipping ?? 0),
+      0,
+    );
+    const total =
+      pricedLines.reduce((sum, line) => sum + line.tax.gross, 0) +
+      shippingAmount;
+
+    const changes = lines
+      .filter(
+        (line) =>
+          line.clientPrice !== undefined && line.clientPrice !== line.price,
+      )
+      .map((line) => ({
+        productId: line.productId,
+        clientPrice: line.clientPrice,
+        currentPrice: line.price,
+        quantity: line.quantity,
+      }));
+
+    if (
+      changes.length > 0 ||
+      (dto.total !== undefined && dto.total !== total)
+    ) {
+      throw new ConflictException({
+        message: 'Los precios del carrito han cambiado',
+        code: 'CART_PRICE_MISMATCH',
+        clientTotal: dto.total,
+        subtotal,
+        taxAmount,
+        discountAmount: promotion?.total ?? 0,
+        shippingAmount,
+        total,
+        changes,
+      });
+    }
+
+    // El proveedor necesita un resto a cobrar; si el saldo cubre todo se usa POST /orders
+    const storeCreditAmount = dto.storeCreditAmount ?? 0;
+    if (storeCreditAmount >= total && storeCreditAmount > 0) {
+      throw new BadRequestException(
+        'El saldo a favor cubre el total; crea la orden directamente con storeCreditAmount',
+      );
+    }
+    if (storeCreditAmount > 0) {
+      this.storeCreditService.assertBalance(
+        await this.storeCreditService.getBalance(userId),
+        storeCreditAmount,
+      );
+    }
+
+    return {
+      lines: pricedLines,
+      taxes,
+      subtotal,
+      taxAmount,
+      shipping,
+      promotion,
+      shippingAmount,
+      total,
+      storeCreditAmount,
+    };
+  }
+
+  /**
+   * Verificar la firma de un webhook y construir el evento normalizado
+   */
+  constructWebhookEvent(
+    rawBody: Buffer | undefined,
+    headers: IncomingHttpHeaders,
+  ): PaymentWebhookEvent {
+    return this.paymentProvider.parseWebhookEvent(rawBody, headers);
+  }
+
+  /**
+   * Procesar un evento de pago ya verificado
+   */
+  async handleWebhookEvent(event: PaymentWebhookEvent): Promise<void> {
+    this.logger.log(
+      `Webhook de ${this.paymentProvider.name} recibido: ${event.type}`,
+    );
+
+    switch (event.type) {
+      case 'checkout.completed':
+        await this.handleCheckoutCompleted(event);
+        break;
+      case 'checkout.expired':
+        await this.handleCheckoutExpired(event);
+        break;
+      case 'payment.failed':
+        await this.handlePaymentFailed(event);
+        break;
+      case 'refund.updated':
+        await this.refundService.handleRefundUpdated(event);
+        break;
+      default:
+        this.logger.debug(
+          `Evento de pago ignorado: ${event.providerEventType}`,
+        );
+    }
+  }
+
+  /**
+   * Pago confirmado: convertir el carrito guardado en una orden
+   */
+  private async handleCheckoutCompleted(
+    event: CheckoutCompletedEvent,
+  ): Promise<void> {
+    if (!event.paid) {
+      this.logger.log(
+        `Sesión ${event.providerSessionId} completada sin pago confirmado`,
+      );
+      return;
+    }
+
+    const session = await this.findSessionForEvent(event);
+    if (!session) {
+      this.logger.warn(
+        `No existe checkout session para la sesión de pago ${event.providerSessionId}`,
+      );
+      return;
+    }
+
+    // Reclamar la sesión de forma atómica para que los reintentos del
+    // proveedor no generen órdenes duplicadas
+    const claim = await this.checkoutSessionRepo.update(
+      { id: session.id, status: 'pending' },
+      { status: 'completed' },
+    );
+    if (!claim.affected) {
+      this.logger.log(`Checkout session ${session.id} ya estaba procesada`);
+      return;
+    }
+
+    // La orden se crea con los precios, tasas, envío y cupón que se cobraron
+    const { items, pricing } = session.cartData;
+    const frozenPricing = pricing && {
+      ...pricing,
+      prices: Object.fromEntries(
+        items.map((item) => [item.productId, item.price]),
+      ),
+    };
+
+    let orderId: string | undefined;
+    try {
+      const order = await this.orderService.create(
+        session.userId,
+        {
+          items: session.cartData.items.map((item) => ({
+            productId: item.productId,
+            quantity: item.quantity,
+          })),
+          deliveryAddress: session.metadata?.deliveryAddress as
+            | string
+            | undefined,
+          country: session.metadata?.country as string | undefined,
+          region: session.metadata?.region as string | undefined,
+          shippingMethodId: session.cartData.shippingMethodId,
+          couponCode: session.cartData.couponCode,
+          storeCreditAmount: session.cartData.storeCreditAmount,
+        },
+        {
+          checkoutSessionId: session.id,
+          pricing: frozenPricing,
+          // Si el invitado ya reclamó sus órdenes, session.userId es su usuario
+          ...(session.guestCustomerId && {
+            guest: {
+              guestCustomerId: session.guestCustomerId,
+              accessTokenHash: session.metadata?.orderAccessTokenHash as string,
+            },
+          }),
+        },
+      );
+      orderId = order.id;
+
+      // Registrar el pago capturado (necesario para reembolsos); el saldo a
+      // favor no pasó por el proveedor, pero se registra para devolverlo
+      const storeCreditAmount = session.cartData.storeCreditAmount ?? 0;
+      await this.paymentRepository.create({
+        orderId: order.id,
+        provider: this.paymentProvider.name,
+        providerSessionId: event.providerSessionId,
+        providerReference: event.paymentReference ?? null,
+        amount: session.cartData.total - storeCreditAmount,
+        storeCreditAmount,
+        currency: (session.metadata?.currency as string | undefined) ?? 'usd',
+      });
+
+      await this.checkoutSessionRepo.update(
+        { id: session.id },
+        {
+          stripeSessionId: event.providerSessionId,
+          metadata: {
+            ...(session.metadata ?? {}),
+            orderId: order.id,
+            paymentProvider: this.paymentProvider.name,
+            ...(event.paymentReference && {
+              paymentReference: event.paymentReference,
+            }),
+          },
+        },
+      );
+
+      this.logger.log(
+        `Orden ${order.id} creada desde checkout session ${session.id}`,
+      );
+
+      // La factura se emite con el pago; si falla se emite al pedirla
+      try {
+        await this.invoiceService.issueForOrder(order.id);
+      } catch (error) {
+        this.logger.error(
+          `Error emitiendo factura de orden ${order.id}`,
+          error,
+        );
+      }
+    } catch (error) {
+      this.logger.error(
+        `Error creando orden para checkout session ${session.id}`,
+        error,
+      );
+
+      // Si la orden ya existe no se reintenta (evita órdenes duplicadas)
+      if (orderId) {
+        await this.checkoutSessionRepo.update(
+          { id: session.id },
+          {
+            metadata: {
+              ...(session.metadata ?? {}),
+              orderId,
+              paymentError: error.message,
+            },
+          },
+        );
+        return;
+      }
+
+      // El pago ya se capturó: si la orden fue rechazada (stock, datos) un
+      // reintento tampoco la crearía, así que se reembolsa; los errores
+      // inesperados se reintentan con el webhook hasta MAX_ORDER_ATTEMPTS
+      const attempts = Number(session.metadata?.orderAttempts ?? 0) + 1;
+      if (
+        error instanceof HttpException ||
+        attempts >= CheckoutService.MAX_ORDER_ATTEMPTS
+      ) {
+        await this.refundUnfulfilledSession(session, event, error);
+        return;
+      }
+
+      // Devolver la sesión a pending para que el reintento del proveedor vuelva a procesarla
+      await this.checkoutSessionRepo.update(
+        { id: session.id },
+        {
+          status: 'pending',
+          metadata: {
+            ...(session.metadata ?? {}),
+            orderError: error.message,
+            orderAttempts: attempts,
+          },
+        },
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Reembolsa el cobro de una sesión pagada cuya orden no pudo crearse y
+   * devuelve el stock y el saldo a favor reservados. Si el reembolso falla,
+   * la sesión queda marcada con requiresAttention para que un administrador
+   * lo resuelva
+   */
+  private async refundUnfulfilledSession(
+    session: CheckoutSession,
+    event: CheckoutCompletedEvent,
+    error: Error,
+  ): Promise<void> {
+    const amount =
+      session.cartData.total - (session.cartData.storeCreditAmount ?? 0);
+    let refund: RefundResult | null = null;
+    if (event.paymentReference) {
+      try {
+        refund = await this.paymentProvider.refund({
+          paymentReference: event.paymentReference,
+          amount,
+          reason: 'No se pudo crear la orden del pago',
+        });
+      } catch (refundError) {
+        this.logger.error(
+          `Error reembolsando checkout session ${session.id}`,
+          refundError,
+        );
+      }
+    }
+    const refunded = refund !== null && refund.status !== 'failed';
+
+    await this.checkoutSessionRepo.update(
+      { id: session.id },
+      {
+        status: 'cancelled',
+        stripeSessionId: event.providerSessionId,
+        metadata: {
+          ...(session.metadata ?? {}),
+          orderError: error.message,
+          ...(event.paymentReference && {
+            paymentReference: event.paymentReference,
+          }),
+          ...(refund && {
+            refundId: refund.refundId,
+            refundStatus: refund.status,
+          }),
+          ...(!refunded && { requiresAttention: true }),
+        },
+      },
+    );
+    await this.inventoryService.release({ checkoutSessionId: session.id });
+    await this.storeCreditService.releaseHold(session.id);
+
+    if (refunded) {
+      this.logger.warn(
+        `Checkout session ${session.id} reembolsada (${amount}): ${error.message}`,
+      );
+    } else {
+      this.logger.error(
+        `Checkout session ${session.id} cobrada sin orden ni reembolso, requiere revisión: ${error.message}`,
+      );
+    }
+  }
+
+  /**
+   * Sesión de pago expirada sin pago: devuelve el saldo a favor reservado
+   */
+  private async handleCheckoutExpired(
+    event: CheckoutExpiredEvent,
+  ): Promise<void> {
+    const session = await this.findSessionForEvent(event);
+    if (!session) {
+      return;
+    }
+
+    await this.closeSession(session.id, 'expired');
+    this.logger.log(`Checkout session ${session.id} marcada como expirada`);
+  }
+
+  /**
+   * Pago rechazado: la sesión sigue pendiente (el cliente puede reintentar)
+   */
+  private async handlePaymentFailed(event: PaymentFailedEvent): Promise<void> {
+    if (!event.checkoutSessionId) {
+      return;
+    }
+
+    const session = await this.checkoutSessionRepo.findOne({
+      where: { id: event.checkoutSessionId },
+    });
+    if (!session) {
+      return;
+    }
+
+    session.metadata = {
+      ...(session.metadata ?? {}),
+      lastPaymentError: event.errorMessage,
+      lastPaymentFailedAt: new Date().toISOString(),
+    };
+    await this.checkoutSessionRepo.save(session);
+    this.logger.warn(`Pago fallido para checkout session ${session.id}`);
+  }
+
+  /**
+   * Cierra una sesión pendiente sin pago y devuelve el stock y el saldo a
+   * favor que tenía reservados
+   * @returns false si la sesión ya no estaba pendiente
+   */
+  private async closeSession(
+    sessionId: string,
+    status: 'expired' | 'cancelled',
+  ): Promise<boolean> {
+    const result = await this.checkoutSessionRepo.update(
+      { id: sessionId, status: 'pending' },
+      { status },
+    );
+    if (!result.affected) {
+      return false;
+    }
+
+    await this.inventoryService.release({ checkoutSessionId: sessionId });
+    await this.storeCreditService.releaseHold(sessionId);
+    return true;
+  }
+
+  /**
+   * Localizar la checkout session local a partir del evento del proveedor
+   */
+  private async findSessionForEvent(
+    event: CheckoutCompletedEvent | CheckoutExpiredEvent,
+  ): Promise<CheckoutSession | null> {
+    if (event.checkoutSessionId) {
+      return this.checkoutSessionRepo.findOne({
+        where: { id: event.checkoutSessionId },
+      });
+    }
+
+    return this.checkoutSessionRepo.findOne({
+      where: { stripeSessionId: event.providerSessionId },
+    });
+  }
+}
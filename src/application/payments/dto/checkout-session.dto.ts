@@ -2,12 +2,17 @@ import {
   IsArray,
   IsInt,
   IsNotEmpty,
+  IsOptional,
   IsString,
   IsUUID,
+  Length,
+  MaxLength,
   Min,
+  ValidateIf,
   ValidateNested,
 } from 'class-validator';
-import { Type } from 'class-transformer';
+import { Transform, Type } from 'class-transformer';
+import { CheckoutSession } from '../../../domain/entities/checkout-session.entity';
 
 export class CartItemDto {
   @IsInt()
@@ -18,15 +23,13 @@ export class CartItemDto {
   @Min(1)
   quantity: number;
 
+  @IsOptional()
   @IsInt()
   @Min(0)
-  price: number; // en centavos
+  price?: number; // en centavos, precio mostrado al cliente (solo para detectar cambios)
 }
 
 export class CreateCheckoutSessionDto {
-  @IsUUID()
-  userId: string;
-
   @IsArray()
   @ValidateNested({ each: true })
   @Type(() => CartItemDto)
@@ -34,7 +37,7 @@ export class CreateCheckoutSessionDto {
 
   @IsInt()
   @Min(1)
-  total: number; // en centavos
+  total?: number; // en centavos con impuestos, envío y descuentos, debe coincidir con el total recalculado en el servidor (obligatorio en la API; lo omite el carrito del servidor)
 
   @IsString()
   @IsNotEmpty()
@@ -45,9 +48,47 @@ export class CreateCheckoutSessionDto {
 
   @IsString()
   cancelUrl: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  deliveryAddress?: string; // se usa al crear la orden desde el webhook
+
+  @ValidateIf((o) => o.country !== undefined || !!o.shippingMethodId)
+  @IsString()
+  @Length(2, 2)
+  @Transform(({ value }) => value?.trim().toUpperCase())
+  country?: string; // ISO 3166-1 alfa-2, determina impuestos y envío
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  @Transform(({ value }) => value?.trim().toUpperCase() || undefined)
+  region?: string;
+
+  @IsOptional()
+  @IsUUID('4')
+  shippingMethodId?: string; // requiere country
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(50)
+  @Transform(({ value }) => value?.trim().toUpperCase() || undefined)
+  couponCode?: string;
+
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  storeCreditAmount?: number; // centavos; debe quedar un resto a cobrar
 }
 
 export class CheckoutSessionResponseDto {
   sessionId: string;
   stripeUrl: string;
 }
+
+export class CheckoutSessionStatusDto {
+  sessionId: string;
+  status: CheckoutSession['status'];
+  orderId: string | null; // la crea el webhook al confirmarse el pago
+}
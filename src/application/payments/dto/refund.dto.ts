@@ -0,0 +1,153 @@
+import {
+  IsArray,
+  IsString,
+  IsOptional,
+  IsNumber,
+  Min,
+  Max,
+  ValidateNested,
+  ArrayMinSize,
+  MaxLength,
+  IsNotEmpty,
+  IsEnum,
+} from 'class-validator';
+import { Type, Expose, Transform } from 'class-transformer';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  RefundMethod,
+  RefundStatus,
+} from '../../../domain/entities/refund.entity';
+import { OrderStatus } from '../../../domain/entities/order.entity';
+
+export class RefundItemDto {
+  @ApiProperty({
+    description: 'ID del producto de la orden a reembolsar',
+    example: 1,
+    minimum: 1,
+  })
+  @IsNotEmpty({ message: 'El ID del producto es obligatorio' })
+  @IsNumber({}, { message: 'El ID del producto debe ser un número válido' })
+  @Min(1, { message: 'El ID del producto debe ser mayor a 0' })
+  productId: number;
+
+  @ApiProperty({
+    description: 'Unidades a reembolsar',
+    example: 1,
+    minimum: 1,
+    maximum: 999,
+  })
+  @IsNotEmpty({ message: 'La cantidad es obligatoria' })
+  @IsNumber({}, { message: 'La cantidad debe ser un número válido' })
+  @Min(1, { message: 'La cantidad debe ser mayor a 0' })
+  @Max(999, { message: 'La cantidad no puede exceder 999' })
+  quantity: number;
+}
+
+export class CreateRefundDto {
+  @ApiPropertyOptional({
+    description:
+      'Líneas a reembolsar. Si se omite se reembolsa todo lo pendiente de la orden',
+    type: [RefundItemDto],
+  })
+  @IsOptional()
+  @IsArray({ message: 'Los items deben ser un array' })
+  @ArrayMinSize(1, { message: 'Debe incluir al menos un item' })
+  @ValidateNested({ each: true })
+  @Type(() => RefundItemDto)
+  items?: RefundItemDto[];
+
+  @ApiPropertyOptional({
+    description: 'Motivo del reembolso',
+    example: 'Producto dañado en el envío',
+    maxLength: 500,
+  })
+  @IsOptional()
+  @IsString({ message: 'El motivo debe ser texto' })
+  @MaxLength(500, { message: 'El motivo no debe exceder 500 caracteres' })
+  reason?: string;
+
+  @ApiPropertyOptional({
+    description:
+      'original devuelve por el proveedor de pagos; store_credit acredita al saldo a favor del cliente',
+    enum: RefundMethod,
+    default: RefundMethod.ORIGINAL,
+  })
+  @IsOptional()
+  @IsEnum(RefundMethod, {
+    message: 'El método debe ser original o store_credit',
+  })
+  method?: RefundMethod;
+}
+
+export class RefundLineResponseDto {
+  @ApiProperty({ description: 'ID del producto', example: 1 })
+  @Expose()
+  productId: number;
+
+  @ApiProperty({ description: 'Unidades reembolsadas', example: 1 })
+  @Expose()
+  quantity: number;
+
+  @ApiProperty({ description: 'Monto en centavos', example: 129999 })
+  @Expose()
+  amountInCents: number;
+}
+
+export class RefundResponseDto {
+  @ApiProperty({
+    description: 'ID del reembolso',
+    example: '550e8400-e29b-41d4-a716-446655440000',
+  })
+  @Expose()
+  id: string;
+
+  @ApiProperty({
+    description: 'ID de la orden',
+    example: '550e8400-e29b-41d4-a716-446655440000',
+  })
+  @Expose()
+  orderId: string;
+
+  @ApiProperty({
+    description: 'Monto reembolsado (formateado)',
+    example: '1299.99',
+  })
+  @Expose()
+  @Transform(({ obj }) => (obj.amountInCents / 100).toFixed(2))
+  amount: string;
+
+  @ApiProperty({ description: 'Monto en centavos', example: 129999 })
+  @Expose()
+  amountInCents: number;
+
+  @ApiProperty({ description: 'Estado del reembolso', enum: RefundStatus })
+  @Expose()
+  status: RefundStatus;
+
+  @ApiProperty({ description: 'Destino del reembolso', enum: RefundMethod })
+  @Expose()
+  method: RefundMethod;
+
+  @ApiProperty({
+    description: 'Estado de la orden tras el reembolso',
+    enum: OrderStatus,
+  })
+  @Expose()
+  orderStatus: OrderStatus;
+
+  @ApiProperty({
+    description: 'Líneas reembolsadas',
+    type: [RefundLineResponseDto],
+  })
+  @Expose()
+  @Type(() => RefundLineResponseDto)
+  items: RefundLineResponseDto[];
+
+  @ApiPropertyOptional({ description: 'Motivo del reembolso' })
+  @Expose()
+  reason: string | null;
+
+  @ApiProperty({ description: 'Fecha del reembolso' })
+  @Expose()
+  createdAt: Date;
+}
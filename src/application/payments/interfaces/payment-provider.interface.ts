@@ -0,0 +1,143 @@
+import { IncomingHttpHeaders } from 'http';
+
+/**
+ * Línea a cobrar en la sesión de pago (montos en centavos)
+ */
+export interface PaymentLineItem {
+  name: string;
+  description?: string; // p. ej. impuesto incluido en el precio
+  imageUrl?: string | null;
+  unitAmount: number;
+  quantity: number;
+}
+
+/**
+ * Descuento sobre el total de la sesión (cupón), en centavos
+ */
+export interface PaymentDiscount {
+  name: string;
+  amount: number;
+}
+
+export interface CreatePaymentSessionParams {
+  checkoutSessionId: string; // ID local, se devuelve en los eventos del webhook
+  currency: string;
+  lineItems: PaymentLineItem[];
+  discount?: PaymentDiscount;
+  successUrl: string;
+  cancelUrl: string;
+  expiresAt: Date; // vencimiento de la sesión local (y de su reserva de stock)
+}
+
+export interface PaymentSessionResult {
+  providerSessionId: string;
+  url: string;
+}
+
+export type PaymentStatus = 'pending' | 'paid' | 'failed' | 'expired';
+
+export interface PaymentStatusResult {
+  providerSessionId: string;
+  status: PaymentStatus;
+  paymentReference?: string; // payment intent / cargo capturado
+  amountTotal?: number;
+  currency?: string;
+}
+
+export interface RefundParams {
+  paymentReference: string;
+  amount: number; // en centavos
+  reason?: string;
+  refundId?: string; // ID local, se devuelve en los eventos del webhook
+}
+
+export type RefundProviderStatus = 'succeeded' | 'pending' | 'failed';
+
+export interface RefundResult {
+  refundId: string;
+  status: RefundProviderStatus;
+  amount: number;
+}
+
+/**
+ * Eventos de webhook normalizados, independientes del proveedor
+ */
+export type PaymentWebhookEvent =
+  | {
+      type: 'checkout.completed';
+      checkoutSessionId?: string;
+      providerSessionId: string;
+      paymentReference?: string;
+      paid: boolean;
+    }
+  | {
+      type: 'checkout.expired';
+      checkoutSessionId?: string;
+      providerSessionId: string;
+    }
+  | {
+      type: 'payment.failed';
+      checkoutSessionId?: string;
+      paymentReference: string;
+      errorMessage: string;
+    }
+  | {
+      type: 'refund.updated';
+      refundId?: string;
+      providerRefundId: string;
+      status: RefundProviderStatus;
+    }
+  | {
+      type: 'unhandled';
+      providerEventType: string;
+    };
+
+/**
+ * Abstracción del proveedor de pagos (DIP - Dependency Inversion Principle)
+ * Stripe es un adaptador más; en tests y desarrollo offline se usa el proveedor fake
+ */
+export interface IPaymentProvider {
+  /**
+   * Nombre del proveedor (se guarda junto a las referencias de pago)
+   */
+  readonly name: string;
+
+  /**
+   * Crea una sesión de pago alojada por el proveedor
+   * @param params Líneas, moneda y URLs de retorno
+   * @returns Promise con el ID de la sesión del proveedor y la URL de pago
+   */
+  createCheckoutSession(
+    params: CreatePaymentSessionParams,
+  ): Promise<PaymentSessionResult>;
+
+  /**
+   * Consulta el estado de pago de una sesión
+   * @param providerSessionId ID de la sesión en el proveedor
+   */
+  getPaymentStatus(providerSessionId: string): Promise<PaymentStatusResult>;
+
+  /**
+   * Expira una sesión abierta para que ya no pueda pagarse
+   * No falla si la sesión ya estaba expirada o cerrada
+   * @param providerSessionId ID de la sesión en el proveedor
+   */
+  expireCheckoutSession(providerSessionId: string): Promise<void>;
+
+  /**
+   * Reembolsa total o parcialmente un pago capturado
+   * @param params Referencia del pago y monto en centavos
+   */
+  refund(params: RefundParams): Promise<RefundResult>;
+
+  /**
+   * Verifica la firma del webhook y normaliza el evento
+   * @param rawBody Body crudo de la petición (necesario para la firma)
+   * @param headers Cabeceras de la petición
+   * @throws BadRequestException si la firma falta o es inválida
+   */
+  parseWebhookEvent(
+    rawBody: Buffer | undefined,
+    headers: IncomingHttpHeaders,
+  ): PaymentWebhookEvent;
+}
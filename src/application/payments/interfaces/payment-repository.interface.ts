@@ -0,0 +1,88 @@
+import { Payment } from '../../../domain/entities/payment.entity';
+import {
+  Refund,
+  RefundLine,
+  RefundMethod,
+  RefundStatus,
+} from '../../../domain/entities/refund.entity';
+
+export interface CreatePaymentData {
+  orderId: string;
+  provider: string;
+  providerSessionId?: string | null;
+  providerReference?: string | null;
+  amount: number;
+  storeCreditAmount?: number; // parte del total pagada con saldo a favor
+  currency: string;
+}
+
+export interface RefundDraft {
+  amount: number;
+  storeCreditAmount?: number; // parte de amount que vuelve al saldo a favor usado
+  items: RefundLine[];
+  reason?: string | null;
+  restock?: boolean;
+  method?: RefundMethod;
+  createdBy: string;
+}
+
+/**
+ * Abstracción del Repository Pattern para Payments y Refunds (DIP)
+ * Las operaciones de reembolso son transaccionales y bloquean la fila del pago
+ */
+export interface IPaymentRepository {
+  /**
+   * Registra el pago capturado de una orden
+   * @param data Datos del pago (montos en centavos)
+   * @returns Promise<Payment> Pago creado
+   */
+  create(data: CreatePaymentData): Promise<Payment>;
+
+  /**
+   * Encuentra el pago de una orden con sus reembolsos
+   * @param orderId UUID de la orden
+   * @returns Promise<Payment | null> Pago encontrado o null
+   */
+  findByOrderId(orderId: string): Promise<Payment | null>;
+
+  /**
+   * Encuentra un reembolso por su ID o por el ID que le asignó el proveedor
+   * @returns Promise<Refund | null> Reembolso encontrado o null
+   */
+  findRefund(where: {
+    id?: string;
+    providerRefundId?: string;
+  }): Promise<Refund | null>;
+
+  /**
+   * Reserva un reembolso con el pago bloqueado (SELECT ... FOR UPDATE)
+   * El callback recibe el pago con sus reembolsos no fallidos y devuelve el
+   * borrador a guardar; puede lanzar excepciones para rechazarlo
+   * @param orderId UUID de la orden
+   * @param buildDraft Valida y calcula el reembolso con datos consistentes
+   * @returns Promise<Refund> Reembolso en estado 'pending'
+   */
+  reserveRefund(
+    orderId: string,
+    buildDraft: (payment: Payment) => RefundDraft,
+  ): Promise<Refund>;
+
+  /**
+   * Cierra un reembolso reservado con el resultado del proveedor
+   * - succeeded: devuelve el stock (si el reembolso lo indica) y pasa la orden a Refunded o
+   *   PartiallyRefunded según el monto reembolsado (una orden cancelada conserva su estado);
+   *   acredita al cliente todo el monto si es a saldo a favor y, si no, la
+   *   parte pagada con saldo a favor
+   * - pending: solo guarda el ID del proveedor; el monto sigue reservado hasta
+   *   que el webhook del proveedor informe el resultado
+   * - failed: libera el monto reservado
+   * Un reembolso ya cerrado no cambia (el webhook puede llegar antes o repetirse)
+   * @param refundId UUID del reembolso
+   * @param result Resultado del proveedor
+   * @returns Promise<Refund> Reembolso actualizado
+   */
+  completeRefund(
+    refundId: string,
+    result: { status: RefundStatus; providerRefundId?: string | null },
+  ): Promise<Refund>;
+}
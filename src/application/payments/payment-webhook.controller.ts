@@ -0,0 +1,40 @@
+import {
+  Controller,
+  Post,
+  Req,
+  HttpCode,
+  HttpStatus,
+  RawBodyRequest,
+} from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse } from '@nestjs/swagger';
+import { Request } from 'express';
+import { CheckoutService } from './checkout.service';
+
+/**
+ * PaymentWebhookController - Recepción de eventos del proveedor de pagos
+ * Endpoint público (sin JWT): la autenticidad se garantiza verificando la
+ * firma del proveedor (p.ej. `stripe-signature`) sobre el body crudo
+ */
+@ApiTags('Payments')
+@Controller('payments')
+export class PaymentWebhookController {
+  constructor(private readonly checkoutService: CheckoutService) {}
+
+  @Post('webhook')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Webhook del proveedor de pagos (firma verificada)',
+  })
+  @ApiResponse({ status: 200, description: 'Evento procesado' })
+  @ApiResponse({ status: 400, description: 'Firma inválida o ausente' })
+  async handleWebhook(
+    @Req() req: RawBodyRequest<Request>,
+  ): Promise<{ received: boolean }> {
+    const event = this.checkoutService.constructWebhookEvent(
+      req.rawBody,
+      req.headers,
+    );
+    await this.checkoutService.handleWebhookEvent(event);
+    return { received: true };
+  }
+}
@@ -1,14 +1,53 @@
 import { Module } from '@nestjs/common';
 import { TypeOrmModule } from '@nestjs/typeorm';
-import { StripeService } from './stripe.service';
-import { StripeController } from './stripe.controller';
+import { CheckoutService } from './checkout.service';
+import { CheckoutSessionCleanupService } from './checkout-session-cleanup.service';
+import { CheckoutController } from './checkout.controller';
+import { PaymentWebhookController } from './payment-webhook.controller';
+import { RefundService } from './refund.service';
+import { RefundController } from './refund.controller';
 import { CheckoutSession } from '../../domain/entities/checkout-session.entity';
+import { Payment } from '../../domain/entities/payment.entity';
+import { Refund } from '../../domain/entities/refund.entity';
 import { ProductModule } from '../products/product.module';
+import { OrderModule } from '../orders/order.module';
+import { InvoicesModule } from '../invoices/invoices.module';
+import { TaxModule } from '../taxes/tax.module';
+import { ShippingModule } from '../shipping/shipping.module';
+import { PromotionsModule } from '../promotions/promotions.module';
+import { StoreCreditModule } from '../store-credit/store-credit.module';
+import { InventoryModule } from '../inventory/inventory.module';
+import { paymentProviderFactory } from '../../infrastructure/payments/payment-provider.factory';
+import { PaymentRepository } from '../../infrastructure/repositories/payment.repository';
 
 @Module({
-  imports: [TypeOrmModule.forFeature([CheckoutSession]), ProductModule],
-  controllers: [StripeController],
-  providers: [StripeService],
-  exports: [StripeService],
+  imports: [
+    TypeOrmModule.forFeature([CheckoutSession, Payment, Refund]),
+    ProductModule,
+    OrderModule,
+    InvoicesModule,
+    TaxModule,
+    ShippingModule,
+    PromotionsModule,
+    StoreCreditModule,
+    InventoryModule,
+  ],
+  controllers: [CheckoutController, PaymentWebhookController, RefundController],
+  providers: [
+    CheckoutService,
+    CheckoutSessionCleanupService,
+    RefundService,
+    paymentProviderFactory,
+    {
+      provide: 'IPaymentRepository',
+      useClass: PaymentRepository,
+    },
+  ],
+  exports: [
+    CheckoutService,
+    RefundService,
+    'IPaymentProvider',
+    'IPaymentRepository',
+  ],
 })
 export class PaymentsModule {}
@@ -0,0 +1,88 @@
+import {
+  Controller,
+  Post,
+  Body,
+  Param,
+  UseGuards,
+  HttpCode,
+  HttpStatus,
+  Logger,
+  ValidationPipe,
+  Request,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiParam,
+} from '@nestjs/swagger';
+import { RefundService } from './refund.service';
+import { CreateRefundDto, RefundResponseDto } from './dto/refund.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { UserRole } from '../../domain/entities/user.entity';
+
+/**
+ * RefundController - Reembolsos de órdenes pagadas (Solo Admin)
+ */
+@ApiTags('Órdenes')
+@Controller('orders')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@ApiBearerAuth()
+export class RefundController {
+  private readonly logger = new Logger(RefundController.name);
+
+  constructor(private readonly refundService: RefundService) {}
+
+  /**
+   * Reembolsar orden total o parcialmente
+   */
+  @Post(':id/refunds')
+  @Roles(UserRole.ADMIN)
+  @HttpCode(HttpStatus.CREATED)
+  @ApiOperation({
+    summary: 'Reembolsar orden',
+    description:
+      'Reembolsa la orden completa (sin items) o las líneas indicadas a través del proveedor de pagos. Las unidades reembolsadas vuelven al stock. De una orden cancelada solo se reembolsa, sin items, lo que queda capturado.',
+  })
+  @ApiParam({ name: 'id', type: 'string', description: 'ID de la orden' })
+  @ApiResponse({
+    status: 201,
+    description: 'Reembolso registrado',
+    type: RefundResponseDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'ID de orden o líneas inválidas',
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Acceso denegado - Se requieren permisos de administrador',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Orden no encontrada',
+  })
+  @ApiResponse({
+    status: 409,
+    description: 'La orden no admite reembolsos o el monto supera lo capturado',
+  })
+  async create(
+    @Param('id') id: string,
+    @Body(ValidationPipe) createRefundDto: CreateRefundDto,
+    @Request() req: any,
+  ): Promise<RefundResponseDto> {
+    const userRole = req.user.role;
+    const currentUserId = req.user.sub;
+
+    this.logger.log(`Admin ${currentUserId} reembolsando orden ${id}`);
+    return this.refundService.refund(
+      id,
+      createRefundDto,
+      userRole,
+      currentUserId,
+    );
+  }
+}
@@ -0,0 +1,478 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  UnprocessableEntityException,
+} from '@nestjs/common';
+import { RefundService } from './refund.service';
+import { Payment } from '../../domain/entities/payment.entity';
+import { RefundStatus } from '../../domain/entities/refund.entity';
+import { OrderStatus } from '../../domain/entities/order.entity';
+import { UserRole } from '../../domain/entities/user.entity';
+
+describe('RefundService', () => {
+  let service: RefundService;
+
+  const validOrderId = '550e8400-e29b-41d4-a716-446655440000';
+  const adminId = '550e8400-e29b-41d4-a716-446655440099';
+
+  const mockOrder = {
+    id: validOrderId,
+    status: OrderStatus.PROCESSING,
+    items: [
+      { id: 10, productId: 1, quantity: 2, priceAtPurchase: 1000 },
+      { id: 11, productId: 2, quantity: 1, priceAtPurchase: 500 },
+    ],
+  };
+
+  const buildPayment = (refunds = []) =>
+    Object.assign(new Payment(), {
+      id: 'payment-1',
+      orderId: validOrderId,
+      providerReference: 'pi_test_123',
+      amount: 2500,
+      refundedAmount: refunds.reduce((sum, r) => sum + r.amount, 0),
+      storeCreditAmount: 0,
+      storeCreditRefundedAmount: 0,
+      refunds,
+    });
+
+  const mockOrderRepository = {
+    findById: jest.fn(),
+  };
+
+  const mockPaymentRepository = {
+    findByOrderId: jest.fn(),
+    findRefund: jest.fn(),
+    reserveRefund: jest.fn(),
+    completeRefund: jest.fn(),
+  };
+
+  const mockPaymentProvider = {
+    name: 'fake',
+    refund: jest.fn(),
+  };
+
+  // Simula el repositorio: ejecuta el callback con el pago "bloqueado"
+  const reserveWith = (payment: Payment) =>
+    mockPaymentRepository.reserveRefund.mockImplementation(
+      async (_orderId, buildDraft) => ({
+        id: 'refund-1',
+        orderId: validOrderId,
+        ...buildDraft(payment),
+      }),
+    );
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        RefundService,
+        { provide: 'IOrderRepository', useValue: mockOrderRepository },
+        { provide: 'IPaymentRepository', useValue: mockPaymentRepository },
+        { provide: 'IPaymentProvider', useValue: mockPaymentProvider },
+      ],
+    }).compile();
+
+    service = module.get<RefundService>(RefundService);
+
+    jest.clearAllMocks();
+    mockPaymentRepository.completeRefund.mockImplementation(
+      async (_id, result) => ({
+        ...(await mockPaymentRepository.reserveRefund.mock.results[0].value),
+        ...result,
+      }),
+    );
+  });
+
+  it('should refund the remaining captured amount and every unit when no items are given', async () => {
+    // Arrange
+    const payment = buildPayment();
+    mockOrderRepository.findById
+      .mockResolvedValueOnce(mockOrder)
+      .mockResolvedValueOnce({ ...mockOrder, status: OrderStatus.REFUNDED });
+    mockPaymentRepository.findByOrderId.mockResolvedValue(payment);
+    reserveWith(payment);
+    mockPaymentProvider.refund.mockResolvedValue({
+      refundId: 're_1',
+      status: 'succeeded',
+      amount: 2500,
+    });
+
+    // Act
+    const result = await service.refund(
+      validOrderId,
+      {},
+      UserRole.ADMIN,
+      adminId,
+    );
+
+    // Assert
+    expect(mockPaymentProvider.refund).toHaveBeenCalledWith({
+      paymentReference: 'pi_test_123',
+      amount: 2500,
+      reason: undefined,
+      refundId: 'refund-1',
+    });
+    expect(mockPaymentRepository.completeRefund).toHaveBeenCalledWith(
+      'refund-1',
+      { status: RefundStatus.SUCCEEDED, providerRefundId: 're_1' },
+    );
+    expect(result.amountInCents).toBe(2500);
+    expect(result.orderStatus).toBe(OrderStatus.REFUNDED);
+    expect(result.items).toEqual([
+      { productId: 1, quantity: 2, amountInCents: 2000 },
+      { productId: 2, quantity: 1, amountInCents: 500 },
+    ]);
+  });
+
+  it('should refund an order paid entirely with store credit as credit without calling the provider', async () => {
+    // Arrange
+    const payment = Object.assign(buildPayment(), {
+      provider: 'store_credit',
+      providerReference: null,
+      amount: 0,
+      storeCreditAmount: 2500,
+    });
+    mockOrderRepository.findById
+      .mockResolvedValueOnce(mockOrder)
+      .mockResolvedValueOnce({ ...mockOrder, status: OrderStatus.REFUNDED });
+    mockPaymentRepository.findByOrderId.mockResolvedValue(payment);
+    reserveWith(payment);
+
+    // Act
+    const result = await service.refund(
+      validOrderId,
+      {},
+      UserRole.ADMIN,
+      adminId,
+    );
+
+    // Assert
+    expect(mockPaymentProvider.refund).not.toHaveBeenCalled();
+    const buildDraft = mockPaymentRepository.reserveRefund.mock.calls[0][1];
+    expect(buildDraft(payment)).toEqual(
+      expect.objectContaining({ amount: 2500, storeCreditAmount: 2500 }),
+    );
+    expect(mockPaymentRepository.completeRefund).toHaveBeenCalledWith(
+      'refund-1',
+      { status: RefundStatus.SUCCEEDED },
+    );
+    expect(result.amountInCents).toBe(2500);
+    expect(result.orderStatus).toBe(OrderStatus.REFUNDED);
+  });
+
+  it('should send only the provider part of a mixed-tender refund and return the rest as credit', async () => {
+    // Arrange
+    const payment = Object.assign(buildPayment(), {
+      amount: 1800,
+      storeCreditAmount: 700,
+    });
+    mockOrderRepository.findById
+      .mockResolvedValueOnce(mockOrder)
+      .mockResolvedValueOnce({ ...mockOrder, status: OrderStatus.REFUNDED });
+    mockPaymentRepository.findByOrderId.mockResolvedValue(payment);
+    reserveWith(payment);
+    mockPaymentProvider.refund.mockResolvedValue({
+      refundId: 're_1',
+      status: 'succeeded',
+      amount: 1800,
+    });
+
+    // Act
+    const result = await service.refund(
+      validOrderId,
+      {},
+      UserRole.ADMIN,
+      adminId,
+    );
+
+    // Assert
+    const buildDraft = mockPaymentRepository.reserveRefund.mock.calls[0][1];
+    expect(buildDraft(payment)).toEqual(
+      expect.objectContaining({ amount: 2500, storeCreditAmount: 700 }),
+    );
+    expect(mockPaymentProvider.refund).toHaveBeenCalledWith(
+      expect.objectContaining({
+        paymentReference: 'pi_test_123',
+        amount: 1800,
+      }),
+    );
+    expect(result.amountInCents).toBe(2500);
+    expect(result.orderStatus).toBe(OrderStatus.REFUNDED);
+  });
+
+  it('should refund only the requested lines on a partial refund', async () => {
+    // Arrange
+    const payment = buildPayment();
+    mockOrderRepository.findById.mockResolvedValue(mockOrder);
+    mockPaymentRepository.findByOrderId.mockResolvedValue(payment);
+    reserveWith(payment);
+    mockPaymentProvider.refund.mockResolvedValue({
+      refundId: 're_1',
+      status: 'succeeded',
+      amount: 1000,
+    });
+
+    // Act
+    const result = await service.refund(
+      validOrderId,
+      { items: [{ productId: 1, quantity: 1 }], reason: 'Dañado' },
+      UserRole.ADMIN,
+      adminId,
+    );
+
+    // Assert
+    expect(mockPaymentProvider.refund).toHaveBeenCalledWith(
+      expect.objectContaining({ amount: 1000, reason: 'Dañado' }),
+    );
+    expect(result.items).toEqual([
+      { productId: 1, quantity: 1, amountInCents: 1000 },
+    ]);
+  });
+
+  it('should reject refunding more units than remain on a line', async () => {
+    // Arrange
+    const payment = buildPayment([
+      {
+        amount: 1000,
+        items: [{ orderItemId: 10, productId: 1, quantity: 1, amount: 1000 }],
+      },
+    ]);
+    mockOrderRepository.findById.mockResolvedValue(mockOrder);
+    mockPaymentRepository.findByOrderId.mockResolvedValue(payment);
+    reserveWith(payment);
+
+    // Act & Assert
+    await expect(
+      service.refund(
+        validOrderId,
+        { items: [{ productId: 1, quantity: 2 }] },
+        UserRole.ADMIN,
+        adminId,
+      ),
+    ).rejects.toThrow(ConflictException);
+    expect(mockPaymentProvider.refund).not.toHaveBeenCalled();
+  });
+
+  it('should never refund more than the captured amount', async () => {
+    // Arrange
+    const payment = Object.assign(buildPayment(), { amount: 1500 });
+    mockOrderRepository.findById.mockResolvedValue(mockOrder);
+    mockPaymentRepository.findByOrderId.mockResolvedValue(payment);
+    reserveWith(payment);
+
+    // Act
+    const error = await service
+      .refund(
+        validOrderId,
+        { items: [{ productId: 1, quantity: 2 }] },
+        UserRole.ADMIN,
+        adminId,
+      )
+      .catch((e) => e);
+
+    // Assert
+    expect(error).toBeInstanceOf(ConflictException);
+    expect(error.getResponse()).toEqual(
+      expect.objectContaining({
+        code: 'REFUND_EXCEEDS_CAPTURED',
+        requested: 2000,
+        refundable: 1500,
+      }),
+    );
+  });
+
+  it('should release the reservation when the provider fails', async () => {
+    // Arrange
+    const payment = buildPayment();
+    mockOrderRepository.findById.mockResolvedValue(mockOrder);
+    mockPaymentRepository.findByOrderId.mockResolvedValue(payment);
+    reserveWith(payment);
+    mockPaymentProvider.refund.mockResolvedValue({
+      refundId: 're_1',
+      status: 'failed',
+      amount: 2500,
+    });
+
+    // Act & Assert
+    await expect(
+      service.refund(validOrderId, {}, UserRole.ADMIN, adminId),
+    ).rejects.toThrow(UnprocessableEntityException);
+    expect(mockPaymentRepository.completeRefund).toHaveBeenCalledWith(
+      'refund-1',
+      { status: RefundStatus.FAILED, providerRefundId: 're_1' },
+    );
+  });
+
+  it('should keep the order untouched while the provider has the refund pending', async () => {
+    // Arrange
+    const payment = buildPayment();
+    mockOrderRepository.findById.mockResolvedValue(mockOrder);
+    mockPaymentRepository.findByOrderId.mockResolvedValue(payment);
+    reserveWith(payment);
+    mockPaymentProvider.refund.mockResolvedValue({
+      refundId: 're_1',
+      status: 'pending',
+      amount: 2500,
+    });
+
+    // Act
+    const result = await service.refund(
+      validOrderId,
+      {},
+      UserRole.ADMIN,
+      adminId,
+    );
+
+    // Assert
+    expect(mockPaymentRepository.completeRefund).toHaveBeenCalledWith(
+      'refund-1',
+      { status: RefundStatus.PENDING, providerRefundId: 're_1' },
+    );
+    expect(result.status).toBe(RefundStatus.PENDING);
+    expect(result.orderStatus).toBe(OrderStatus.PROCESSING);
+  });
+
+  it('should refund what remains captured of a cancelled order without restocking', async () => {
+    // Arrange
+    const cancelled = { ...mockOrder, status: OrderStatus.CANCELLED };
+    const payment = buildPayment([{ amount: 500, items: [] }]);
+    mockOrderRepository.findById.mockResolvedValue(cancelled);
+    mockPaymentRepository.findByOrderId.mockResolvedValue(payment);
+    reserveWith(payment);
+    mockPaymentProvider.refund.mockResolvedValue({
+      refundId: 're_1',
+      status: 'succeeded',
+      amount: 2000,
+    });
+
+    // Act
+    const result = await service.refund(
+      validOrderId,
+      {},
+      UserRole.ADMIN,
+      adminId,
+    );
+
+    // Assert
+    expect(mockPaymentProvider.refund).toHaveBeenCalledWith(
+      expect.objectContaining({ amount: 2000 }),
+    );
+    expect(
+      await mockPaymentRepository.reserveRefund.mock.results[0].value,
+    ).toEqual(expect.objectContaining({ items: [], restock: false }));
+    expect(result.orderStatus).toBe(OrderStatus.CANCELLED);
+  });
+
+  it('should not refund lines of a cancelled order', async () => {
+    // Arrange
+    mockOrderRepository.findById.mockResolvedValue({
+      ...mockOrder,
+      status: OrderStatus.CANCELLED,
+    });
+
+    // Act & Assert
+    await expect(
+      service.refund(
+        validOrderId,
+        { items: [{ productId: 1, quantity: 1 }] },
+        UserRole.ADMIN,
+        adminId,
+      ),
+    ).rejects.toThrow(BadRequestException);
+    expect(mockPaymentRepository.reserveRefund).not.toHaveBeenCalled();
+  });
+
+  it('should reject orders without a captured payment', async () => {
+    // Arrange
+    mockOrderRepository.findById.mockResolvedValue(mockOrder);
+    mockPaymentRepository.findByOrderId.mockResolvedValue(null);
+
+    // Act & Assert
+    await expect(
+      service.refund(validOrderId, {}, UserRole.ADMIN, adminId),
+    ).rejects.toThrow(ConflictException);
+  });
+
+  it('should only allow administrators', async () => {
+    // Act & Assert
+    await expect(
+      service.refund(validOrderId, {}, UserRole.CLIENT, adminId),
+    ).rejects.toThrow(ForbiddenException);
+  });
+
+  describe('handleRefundUpdated', () => {
+    const pendingRefund = {
+      id: 'refund-1',
+      orderId: validOrderId,
+      status: RefundStatus.PENDING,
+    };
+
+    beforeEach(() => {
+      mockPaymentRepository.completeRefund.mockResolvedValue(pendingRefund);
+    });
+
+    it('should apply a pending refund once the provider confirms it', async () => {
+      // Arrange
+      mockPaymentRepository.findRefund.mockResolvedValue(pendingRefund);
+
+      // Act
+      await service.handleRefundUpdated({
+        type: 'refund.updated',
+        refundId: 'refund-1',
+        providerRefundId: 're_1',
+        status: 'succeeded',
+      });
+
+      // Assert
+      expect(mockPaymentRepository.findRefund).toHaveBeenCalledWith({
+        id: 'refund-1',
+      });
+      expect(mockPaymentRepository.completeRefund).toHaveBeenCalledWith(
+        'refund-1',
+        { status: RefundStatus.SUCCEEDED, providerRefundId: 're_1' },
+      );
+    });
+
+    it('should release a pending refund that the provider rejects', async () => {
+      // Arrange
+      mockPaymentRepository.findRefund.mockResolvedValue(pendingRefund);
+
+      // Act
+      await service.handleRefundUpdated({
+        type: 'refund.updated',
+        providerRefundId: 're_1',
+        status: 'failed',
+      });
+
+      // Assert
+      expect(mockPaymentRepository.findRefund).toHaveBeenCalledWith({
+        providerRefundId: 're_1',
+      });
+      expect(mockPaymentRepository.completeRefund).toHaveBeenCalledWith(
+        'refund-1',
+        { status: RefundStatus.FAILED, providerRefundId: 're_1' },
+      );
+    });
+
+    it('should ignore events for refunds that are already closed', async () => {
+      // Arrange
+      mockPaymentRepository.findRefund.mockResolvedValue({
+        ...pendingRefund,
+        status: RefundStatus.SUCCEEDED,
+      });
+
+      // Act
+      await service.handleRefundUpdated({
+        type: 'refund.updated',
+        refundId: 'refund-1',
+        providerRefundId: 're_1',
+        status: 'succeeded',
+      });
+
+      // Assert
+      expect(mockPaymentRepository.completeRefund).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,390 @@
+import {
+  Injectable,
+  Logger,
+  Inject,
+  NotFoundException,
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  UnprocessableEntityException,
+} from '@nestjs/common';
+import { plainToClass } from 'class-transformer';
+import { IOrderRepository } from '../orders/interfaces/order-repository.interface';
+import {
+  IPaymentRepository,
+  RefundDraft,
+} from './interfaces/payment-repository.interface';
+import {
+  IPaymentProvider,
+  PaymentWebhookEvent,
+  RefundProviderStatus,
+  RefundResult,
+} from './interfaces/payment-provider.interface';
+import { CreateRefundDto, RefundResponseDto } from './dto/refund.dto';
+import { Order, OrderStatus } from '../../domain/entities/order.entity';
+import { Payment } from '../../domain/entities/payment.entity';
+import {
+  Refund,
+  RefundLine,
+  RefundMethod,
+  RefundStatus,
+} from '../../domain/entities/refund.entity';
+import { UserRole } from '../../domain/entities/user.entity';
+
+type RefundUpdatedEvent = Extract<
+  PaymentWebhookEvent,
+  { type: 'refund.updated' }
+>;
+
+/**
+ * RefundService - Reembolsos totales y parciales de órdenes pagadas
+ *
+ * Flujo:
+ * 1. Reservar el monto con el pago bloqueado (nunca supera lo capturado)
+ * 2. Ejecutar el reembolso en el proveedor de pagos (no aplica si se
+ *    reembolsa a saldo a favor)
+ * 3. Aplicar efectos (stock, estado de la orden y saldo a favor) o liberar la
+ *    reserva si falla. Si el proveedor lo deja pendiente, el monto sigue
+ *    reservado y los efectos esperan al webhook con el resultado final
+ *
+ * La parte del pago hecha con saldo a favor vuelve siempre como saldo a favor
+ *
+ * Una orden cancelada ya devolvió su stock: solo admite reembolsar lo que
+ * quede capturado, sin líneas, y conserva su estado
+ */
+@Injectable()
+export class RefundService {
+  private readonly logger = new Logger(RefundService.name);
+
+  constructor(
+    @Inject('IOrderRepository')
+    private readonly orderRepository: IOrderRepository,
+    @Inject('IPaymentRepository')
+    private readonly paymentRepository: IPaymentRepository,
+    @Inject('IPaymentProvider')
+    private readonly paymentProvider: IPaymentProvider,
+  ) {}
+
+  /**
+   * Reembolsa una orden completa o por líneas
+   * @param orderId UUID de la orden
+   * @param dto Líneas a reembolsar (vacío = todo lo pendiente), motivo y destino
+   * @param userRole Rol del usuario
+   * @param currentUserId ID del administrador que solicita el reembolso
+   * @param options restock: false si las unidades no deben volver al stock
+   * @returns Promise<RefundResponseDto> Reembolso registrado
+   * @throws ForbiddenException si no es administrador
+   * @throws NotFoundException si la orden no existe
+   * @throws ConflictException si la orden no admite reembolsos o se supera lo capturado
+   * @throws UnprocessableEntityException si el proveedor rechaza el reembolso
+   */
+  async refund(
+    orderId: string,
+    dto: CreateRefundDto,
+    userRole: UserRole,
+    currentUserId: string,
+    options: { restock?: boolean } = {},
+  ): Promise<RefundResponseDto> {
+    this.logger.log(`Reembolsando orden ${orderId}`);
+
+    if (userRole !== UserRole.ADMIN) {
+      throw new ForbiddenException(
+        'Solo los administradores pueden reembolsar órdenes',
+      );
+    }
+
+    if (!this.isValidUUID(orderId)) {
+      throw new BadRequestException('ID de orden inválido');
+    }
+
+    const order = await this.orderRepository.findById(orderId);
+    if (!order) {
+      throw new NotFoundException(`Orden con ID ${orderId} no encontrada`);
+    }
+
+    if (order.status === OrderStatus.REFUNDED) {
+      throw new ConflictException(
+        `No se puede reembolsar una orden en estado ${order.status}`,
+      );
+    }
+
+    if (order.status === OrderStatus.CANCELLED && dto.items) {
+      throw new BadRequestException(
+        'Una orden cancelada solo admite reembolsar lo que queda capturado, sin líneas',
+      );
+    }
+
+    const method = dto.method ?? RefundMethod.ORIGINAL;
+    if (method === RefundMethod.STORE_CREDIT && !order.userId) {
+      throw new BadRequestException(
+        'Las órdenes de invitado no pueden reembolsarse a saldo a favor',
+      );
+    }
+    const payment = await this.paymentRepository.findByOrderId(orderId);
+    if (
+      !payment ||
+      (method === RefundMethod.ORIGINAL &&
+        payment.amount > 0 &&
+        !payment.providerReference)
+    ) {
+      throw new ConflictException('La orden no tiene un pago capturado');
+    }
+
+    // 1. Reservar el reembolso (valida contra el pago bloqueado)
+    const reserved = await this.paymentRepository.reserveRefund(
+      orderId,
+      (lockedPayment) =>
+        this.buildRefundDraft(
+          order,
+          lockedPayment,
+          dto,
+          currentUserId,
+          options,
+        ),
+    );
+
+    // 2. A saldo a favor (o si todo vuelve a la parte pagada con él) no pasa
+    // por el proveedor: se acredita al cerrarlo
+    const providerAmount = reserved.amount - reserved.storeCreditAmount;
+    if (method === RefundMethod.STORE_CREDIT || providerAmount === 0) {
+      const refund = await this.paymentRepository.completeRefund(reserved.id, {
+        status: RefundStatus.SUCCEEDED,
+      });
+      const updatedOrder = await this.orderRepository.findById(orderId);
+
+      this.logger.log(
+        `Reembolso ${refund.id} de ${refund.amount} centavos acreditado como saldo a favor (orden ${orderId})`,
+      );
+      return this.mapToRefundResponseDto(refund, updatedOrder.status);
+    }
+
+    // 2. Ejecutar en el proveedor
+    let result: RefundResult;
+    try {
+      result = await this.paymentProvider.refund({
+        paymentReference: payment.providerReference,
+        amount: providerAmount,
+        reason: dto.reason,
+        refundId: reserved.id,
+      });
+    } catch (error) {
+      await this.paymentRepository.completeRefund(reserved.id, {
+        status: RefundStatus.FAILED,
+      });
+      this.logger.error(`Error reembolsando orden ${orderId}`, error);
+      throw error;
+    }
+
+    // 3. Aplicar efectos o liberar la reserva
+    const refund = await this.paymentRepository.completeRefund(reserved.id, {
+      status: this.toRefundStatus(result.status),
+      providerRefundId: result.refundId,
+    });
+
+    if (refund.status === RefundStatus.FAILED) {
+      throw new UnprocessableEntityException(
+        'El proveedor de pagos rechazó el reembolso',
+      );
+    }
+
+    const updatedOrder = await this.orderRepository.findById(orderId);
+
+    this.logger.log(
+      refund.status === RefundStatus.PENDING
+        ? `Reembolso ${refund.id} de ${refund.amount} centavos pendiente en el proveedor (orden ${orderId})`
+        : `Reembolso ${refund.id} de ${refund.amount} centavos aplicado a orden ${orderId}`,
+    );
+
+    return this.mapToRefundResponseDto(refund, updatedOrder.status);
+  }
+
+  /**
+   * Cierra con el resultado final un reembolso que el proveedor dejó pendiente
+   * (webhook); los eventos repetidos o de reembolsos ya cerrados no cambian nada
+   */
+  async handleRefundUpdated(event: RefundUpdatedEvent): Promise<void> {
+    const refund = await this.paymentRepository.findRefund(
+      event.refundId
+        ? { id: event.refundId }
+        : { providerRefundId: event.providerRefundId },
+    );
+    if (!refund) {
+      this.logger.warn(
+        `No existe reembolso para el reembolso del proveedor ${event.providerRefundId}`,
+      );
+      return;
+    }
+
+    const status = this.toRefundStatus(event.status);
+    if (refund.status !== RefundStatus.PENDING || status === refund.status) {
+      return;
+    }
+
+    await this.paymentRepository.completeRefund(refund.id, {
+      status,
+      providerRefundId: event.providerRefundId,
+    });
+    this.logger.log(
+      `Reembolso ${refund.id} de la orden ${refund.orderId} cerrado por el proveedor: ${status}`,
+    );
+  }
+
+  /**
+   * Calcula el reembolso a partir de las líneas de la orden
+   * Se ejecuta con el pago bloqueado, por lo que los acumulados son consistentes
+   */
+  private buildRefundDraft(
+    order: Order,
+    payment: Payment,
+    dto: CreateRefundDto,
+    createdBy: string,
+    options: { restock?: boolean },
+  ): RefundDraft {
+    // Unidades ya reembolsadas (o reservadas) por línea de la orden
+    const refundedUnits = new Map<number, number>();
+    for (const previous of payment.refunds ?? []) {
+      for (const line of previous.items) {
+        refundedUnits.set(
+          line.orderItemId,
+          (refundedUnits.get(line.orderItemId) ?? 0) + line.quantity,
+        );
+      }
+    }
+
+    const isFullRefund = !dto.items;
+    // Las unidades de una orden cancelada ya volvieron al stock
+    const isCancelled = order.status === OrderStatus.CANCELLED;
+    const requested = isCancelled
+      ? []
+      : (dto.items ??
+        order.items
+          .map((item) => ({
+            productId: item.productId,
+            quantity: item.quantity - (refundedUnits.get(item.id) ?? 0),
+          }))
+          .filter((item) => item.quantity > 0));
+
+    const productIds = requested.map((item) => item.productId);
+    if (new Set(productIds).size !== productIds.length) {
+      throw new BadRequestException(
+        'No se pueden incluir productos duplicados en un reembolso',
+      );
+    }
+
+    const lines: RefundLine[] = requested.map((item) => {
+      const orderItem = order.items.find(
+        (line) => line.productId === item.productId,
+      );
+      if (!orderItem) {
+        throw new BadRequestException(
+          `El producto ${item.productId} no pertenece a la orden`,
+        );
+      }
+
+      const remaining =
+        orderItem.quantity - (refundedUnits.get(orderItem.id) ?? 0);
+      if (item.quantity > remaining) {
+        throw new ConflictException(
+          `Solo quedan ${remaining} unidades reembolsables del producto ${item.productId}`,
+        );
+      }
+
+      return {
+        orderItemId: orderItem.id,
+        productId: orderItem.productId,
+        quantity: item.quantity,
+        // Se devuelve la parte proporcional del bruto (impuestos incluidos)
+        amount: Math.round(
+          ((orderItem.grossAmount ??
+            orderItem.priceAtPurchase * orderItem.quantity) *
+            item.quantity) /
+            orderItem.quantity,
+        ),
+      };
+    });
+
+    const refundable = payment.getRefundableAmount();
+    // El reembolso total devuelve exactamente lo que queda capturado
+    const amount = isFullRefund
+      ? refundable
+      : lines.reduce((sum, line) => sum + line.amount, 0);
+
+    if (amount <= 0) {
+      throw new ConflictException('La orden ya fue reembolsada por completo');
+    }
+
+    if (amount > refundable) {
+      throw new ConflictException({
+        message: 'El reembolso supera el monto capturado',
+        code: 'REFUND_EXCEEDS_CAPTURED',
+        requested: amount,
+        refundable,
+      });
+    }
+
+    // Se devuelve primero lo cobrado por el proveedor y el resto, a la parte
+    // pagada con saldo a favor
+    const storeCreditAmount = Math.max(
+      0,
+      amount - payment.getProviderRefundableAmount(),
+    );
+
+    return {
+      amount,
+      storeCreditAmount,
+      items: lines,
+      reason: dto.reason ?? null,
+      restock: !isCancelled && (options.restock ?? true),
+      method: dto.method ?? RefundMethod.ORIGINAL,
+      createdBy,
+    };
+  }
+
+  private toRefundStatus(status: RefundProviderStatus): RefundStatus {
+    switch (status) {
+      case 'succeeded':
+        return RefundStatus.SUCCEEDED;
+      case 'failed':
+        return RefundStatus.FAILED;
+      default:
+        return RefundStatus.PENDING;
+    }
+  }
+
+  /**
+   * Mapea un reembolso a DTO de respuesta
+   */
+  private mapToRefundResponseDto(
+    refund: Refund,
+    orderStatus: OrderStatus,
+  ): RefundResponseDto {
+    return plainToClass(
+      RefundResponseDto,
+      {
+        id: refund.id,
+        orderId: refund.orderId,
+        amountInCents: refund.amount,
+        status: refund.status,
+        method: refund.method,
+        orderStatus,
+        items: refund.items.map((line) => ({
+          productId: line.productId,
+          quantity: line.quantity,
+          amountInCents: line.amount,
+        })),
+        reason: refund.reason,
+        createdAt: refund.createdAt,
+      },
+      { excludeExtraneousValues: true },
+    );
+  }
+
+  /**
+   * Valida si un string es un UUID válido
+   */
+  private isValidUUID(uuid: string): boolean {
+    const uuidRegex =
+      /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+    return uuidRegex.test(uuid);
+  }
+}
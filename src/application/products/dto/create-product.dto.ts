@@ -1,6 +1,7 @@
 import {
   IsString,
   IsNumber,
+  IsInt,
   IsOptional,
   IsBoolean,
   Min,
@@ -93,6 +94,34 @@ export class CreateProductDto {
   @Transform(({ value }) => value?.trim().toUpperCase())
   category: string;
 
+  @ApiProperty({
+    description: 'Categoría fiscal del producto (ver /tax-rates)',
+    example: 'standard',
+    default: 'standard',
+    required: false,
+    maxLength: 50,
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(50, {
+    message: 'La categoría fiscal no debe exceder 50 caracteres',
+  })
+  @Transform(({ value }) => value?.trim().toLowerCase())
+  taxCategory?: string;
+
+  @ApiProperty({
+    description: 'Peso unitario en gramos (tarifas de envío por peso)',
+    example: 221,
+    default: 0,
+    required: false,
+    minimum: 0,
+  })
+  @IsOptional()
+  @IsInt({ message: 'El peso debe ser un entero en gramos' })
+  @Min(0, { message: 'El peso no puede ser negativo' })
+  @Max(1000000, { message: 'El peso no puede exceder 1,000,000 gramos' })
+  weightGrams?: number;
+
   @ApiProperty({
     description: 'URL de la imagen principal del producto',
     example: 'https://example.com/images/iphone-15-pro-max.jpg',
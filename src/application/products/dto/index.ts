@@ -3,3 +3,12 @@ export { UpdateProductDto } from './update-product.dto';
 export { ProductResponseDto } from './product-response.dto';
 export { ProductQueryDto } from './product-query.dto';
 export { PaginatedProductResponseDto } from './paginated-product-response.dto';
+export {
+  UpdateStockDto,
+  StockMovementQueryDto,
+  StockMovementResponseDto,
+  PaginatedStockMovementResponseDto,
+  StockReconciliationDto,
+  MANUAL_STOCK_REASONS,
+  ManualStockReason,
+} from './stock-movement.dto';
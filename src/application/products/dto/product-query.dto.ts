@@ -95,7 +95,8 @@ export class ProductQueryDto {
   featured?: boolean;
 
   @ApiPropertyOptional({
-    description: 'Mostrar solo productos en stock',
+    description:
+      'Mostrar solo productos con stock disponible (descontando las reservas de checkouts en curso)',
     example: true,
   })
   @IsOptional()
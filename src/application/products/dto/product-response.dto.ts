@@ -46,7 +46,7 @@ export class ProductResponseDto {
   priceInCents: number;
 
   @ApiProperty({
-    description: 'Cantidad en stock',
+    description: 'Cantidad en stock (suma de todos los almacenes)',
     example: 50,
   })
   @Expose()
@@ -59,6 +59,20 @@ export class ProductResponseDto {
   @Expose()
   category: string;
 
+  @ApiProperty({
+    description: 'Categoría fiscal del producto',
+    example: 'standard',
+  })
+  @Expose()
+  taxCategory: string;
+
+  @ApiProperty({
+    description: 'Peso unitario en gramos',
+    example: 221,
+  })
+  @Expose()
+  weightGrams: number;
+
   @ApiProperty({
     description: 'URL de imagen del producto',
     example: 'https://example.com/image.jpg',
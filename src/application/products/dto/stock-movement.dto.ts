@@ -0,0 +1,233 @@
+import {
+  IsIn,
+  IsInt,
+  IsNumber,
+  IsOptional,
+  IsString,
+  IsUUID,
+  Max,
+  MaxLength,
+  Min,
+  NotEquals,
+} from 'class-validator';
+import { Expose, Type } from 'class-transformer';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { StockMovementReason } from '../../../domain/entities/stock-movement.entity';
+
+/**
+ * Motivos que un administrador puede registrar a mano; el resto los generan
+ * las órdenes, cancelaciones, reembolsos y devoluciones
+ */
+export const MANUAL_STOCK_REASONS = [
+  StockMovementReason.RESTOCK,
+  StockMovementReason.MANUAL_ADJUSTMENT,
+] as const;
+
+export type ManualStockReason = (typeof MANUAL_STOCK_REASONS)[number];
+
+export class UpdateStockDto {
+  @ApiProperty({
+    description: 'Cantidad a agregar (positiva) o quitar (negativa)',
+    example: 25,
+  })
+  @IsInt({ message: 'La cantidad debe ser un entero' })
+  @NotEquals(0, { message: 'La cantidad no puede ser 0' })
+  @Min(-999999, { message: 'La cantidad no puede ser menor a -999,999' })
+  @Max(999999, { message: 'La cantidad no puede exceder 999,999' })
+  quantity: number;
+
+  @ApiPropertyOptional({
+    description: 'Motivo del movimiento',
+    enum: MANUAL_STOCK_REASONS,
+    default: StockMovementReason.MANUAL_ADJUSTMENT,
+  })
+  @IsOptional()
+  @IsIn(MANUAL_STOCK_REASONS, {
+    message: 'El motivo debe ser restock o manual_adjustment',
+  })
+  reason?: ManualStockReason;
+
+  @ApiPropertyOptional({
+    description:
+      'Almacén del movimiento (por defecto el activo de mayor prioridad)',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @IsOptional()
+  @IsUUID('4', { message: 'El almacén debe ser un UUID válido' })
+  warehouseId?: string;
+
+  @ApiPropertyOptional({
+    description: 'Nota interna',
+    example: 'Recepción de la orden de compra OC-1042',
+    maxLength: 500,
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(500, { message: 'La nota no debe exceder 500 caracteres' })
+  note?: string;
+}
+
+export class StockMovementQueryDto {
+  @ApiPropertyOptional({
+    description: 'Número de página para paginación',
+    example: 1,
+    minimum: 1,
+    default: 1,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber({}, { message: 'La página debe ser un número' })
+  @Min(1, { message: 'La página debe ser mayor a 0' })
+  page?: number = 1;
+
+  @ApiPropertyOptional({
+    description: 'Cantidad de movimientos por página',
+    example: 50,
+    minimum: 1,
+    maximum: 200,
+    default: 50,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber({}, { message: 'El límite debe ser un número' })
+  @Min(1, { message: 'El límite debe ser mayor a 0' })
+  @Max(200, { message: 'El límite no puede exceder 200' })
+  limit?: number = 50;
+}
+
+export class StockMovementResponseDto {
+  @ApiProperty({ example: '123e4567-e89b-12d3-a456-426614174000' })
+  @Expose()
+  id: string;
+
+  @ApiProperty({ example: 1 })
+  @Expose()
+  productId: number;
+
+  @ApiProperty({
+    description: 'Unidades que entran (positivo) o salen (negativo)',
+    example: -2,
+  })
+  @Expose()
+  delta: number;
+
+  @ApiProperty({
+    description: 'Stock total resultante (todos los almacenes)',
+    example: 48,
+  })
+  @Expose()
+  quantityAfter: number;
+
+  @ApiProperty({
+    description:
+      'Almacén del movimiento (null en movimientos anteriores a los almacenes)',
+    nullable: true,
+  })
+  @Expose()
+  warehouseId: string | null;
+
+  @ApiProperty({
+    description: 'Stock resultante en el almacén',
+    nullable: true,
+    example: 20,
+  })
+  @Expose()
+  warehouseQuantityAfter: number | null;
+
+  @ApiProperty({ enum: StockMovementReason })
+  @Expose()
+  reason: StockMovementReason;
+
+  @ApiProperty({ nullable: true })
+  @Expose()
+  orderId: string | null;
+
+  @ApiProperty({
+    description:
+      'Referencia del origen (refund:<id>, return:<id>, transfer:<id>)',
+    nullable: true,
+  })
+  @Expose()
+  reference: string | null;
+
+  @ApiProperty({ nullable: true })
+  @Expose()
+  note: string | null;
+
+  @ApiProperty({
+    description: 'Usuario que originó el movimiento',
+    nullable: true,
+  })
+  @Expose()
+  actorId: string | null;
+
+  @ApiProperty({ example: '2026-12-01T10:30:00.000Z' })
+  @Expose()
+  createdAt: Date;
+}
+
+export class PaginatedStockMovementResponseDto {
+  @ApiProperty({
+    description: 'Movimientos, los más recientes primero',
+    type: [StockMovementResponseDto],
+  })
+  movements: StockMovementResponseDto[];
+
+  @ApiProperty({
+    description: 'Información de paginación',
+    example: {
+      page: 1,
+      limit: 50,
+      total: 120,
+      totalPages: 3,
+      hasNextPage: true,
+      hasPrevPage: false,
+    },
+  })
+  pagination: {
+    page: number;
+    limit: number;
+    total: number;
+    totalPages: number;
+    hasNextPage: boolean;
+    hasPrevPage: boolean;
+  };
+}
+
+export class StockDiscrepancyDto {
+  @ApiProperty({ example: 1 })
+  productId: number;
+
+  @ApiProperty({ example: 'iPhone 15 Pro Max' })
+  name: string;
+
+  @ApiProperty({ description: 'Stock actual del producto', example: 50 })
+  stock: number;
+
+  @ApiProperty({ description: 'Suma de los movimientos', example: 48 })
+  ledgerStock: number;
+
+  @ApiProperty({ description: 'stock - ledgerStock', example: 2 })
+  difference: number;
+
+  @ApiProperty({
+    description:
+      'Movimientos registrados (0 si el producto es anterior al ledger y aún no tuvo movimientos)',
+    example: 12,
+  })
+  movementCount: number;
+}
+
+export class StockReconciliationDto {
+  @ApiProperty({ example: '2026-12-01T10:30:00.000Z' })
+  checkedAt: Date;
+
+  @ApiProperty({ description: 'Productos revisados', example: 240 })
+  productsChecked: number;
+
+  @ApiProperty({
+    description: 'Productos cuyo stock no coincide con la suma del ledger',
+    type: [StockDiscrepancyDto],
+  })
+  discrepancies: StockDiscrepancyDto[];
+}
@@ -1,6 +1,17 @@
 import { Product } from '../../../domain/entities/product.entity';
+import { StockMovementReason } from '../../../domain/entities/stock-movement.entity';
 import { CreateProductDto, UpdateProductDto, ProductQueryDto } from '../dto';
 
+/**
+ * Motivo, almacén, nota y autor del movimiento de stock que genera una escritura
+ */
+export interface StockChangeContext {
+  reason?: StockMovementReason;
+  warehouseId?: string | null; // sin almacén se usa el de mayor prioridad
+  note?: string | null;
+  actorId?: string | null;
+}
+
 /**
  * Abstracción del Repository Pattern para Products (DIP - Dependency Inversion Principle)
  * Define el contrato para operaciones de persistencia de productos
@@ -41,19 +52,27 @@ export interface IProductRepository {
   findBySlug(slug: string): Promise<Product | null>;
 
   /**
-   * Crea un nuevo producto
+   * Crea un nuevo producto y registra su stock inicial en el ledger
    * @param createData Datos del producto a crear
+   * @param actorId Usuario que crea el producto
    * @returns Promise<Product> Producto creado
    */
-  create(createData: CreateProductDto): Promise<Product>;
+  create(createData: CreateProductDto, actorId?: string): Promise<Product>;
 
   /**
    * Actualiza un producto existente
+   * Un cambio de stock se registra como ajuste manual por la diferencia en
+   * el almacén del contexto
    * @param id ID numérico del producto
    * @param updateData Datos a actualizar
+   * @param context Almacén y usuario del ajuste de stock
    * @returns Promise<Product | null> Producto actualizado o null si no existe
    */
-  update(id: number, updateData: UpdateProductDto): Promise<Product | null>;
+  update(
+    id: number,
+    updateData: UpdateProductDto,
+    context?: StockChangeContext,
+  ): Promise<Product | null>;
 
   /**
    * Soft delete de un producto
@@ -63,12 +82,18 @@ export interface IProductRepository {
   softDelete(id: number): Promise<boolean>;
 
   /**
-   * Actualiza el stock de un producto
+   * Actualiza el stock de un producto y registra el movimiento
    * @param id ID numérico del producto
    * @param quantity Cantidad a agregar (positiva) o quitar (negativa)
+   * @param context Motivo (manual_adjustment por defecto), almacén, nota y autor
    * @returns Promise<Product | null> Producto con stock actualizado
+   * @throws Error si el stock del almacén quedaría negativo
    */
-  updateStock(id: number, quantity: number): Promise<Product | null>;
+  updateStock(
+    id: number,
+    quantity: number,
+    context?: StockChangeContext,
+  ): Promise<Product | null>;
 
   /**
    * Obtiene todas las categorías únicas de productos
@@ -0,0 +1,40 @@
+import { StockMovement } from '../../../domain/entities/stock-movement.entity';
+
+/**
+ * Producto cuyo stock no coincide con la suma de sus movimientos
+ */
+export interface StockDiscrepancy {
+  productId: number;
+  name: string;
+  stock: number;
+  ledgerStock: number;
+  movementCount: number;
+}
+
+/**
+ * Abstracción del Repository Pattern para el ledger de stock (DIP)
+ * Solo lectura: los movimientos se registran junto con cada escritura de
+ * Product.stock, en la transacción que la origina
+ */
+export interface IStockMovementRepository {
+  /**
+   * Movimientos de un producto, los más recientes primero
+   * @param productId ID del producto
+   * @param page Página (desde 1)
+   * @param limit Movimientos por página
+   */
+  findByProduct(
+    productId: number,
+    page: number,
+    limit: number,
+  ): Promise<{ movements: StockMovement[]; total: number }>;
+
+  /**
+   * Compara el stock de cada producto con la suma de sus movimientos
+   * @returns Promise con los productos revisados y los que no coinciden
+   */
+  reconcile(): Promise<{
+    productsChecked: number;
+    discrepancies: StockDiscrepancy[];
+  }>;
+}
@@ -15,6 +15,7 @@ import {
   ParseIntPipe,
   ValidationPipe,
   Header,
+  Request,
 } from '@nestjs/common';
 import {
   ApiTags,
@@ -31,6 +32,10 @@ import {
   ProductResponseDto,
   ProductQueryDto,
   PaginatedProductResponseDto,
+  UpdateStockDto,
+  StockMovementQueryDto,
+  PaginatedStockMovementResponseDto,
+  StockReconciliationDto,
 } from './dto';
 import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
 import { RolesGuard } from '../auth/guards/roles.guard';
@@ -90,9 +95,10 @@ export class ProductController {
   })
   async create(
     @Body(ValidationPipe) createProductDto: CreateProductDto,
+    @Request() req: any,
   ): Promise<ProductResponseDto> {
     this.logger.log(`Creando producto: ${createProductDto.name}`);
-    return this.productService.create(createProductDto);
+    return this.productService.create(createProductDto, req.user.sub);
   }
 
   /**
@@ -199,6 +205,35 @@ export class ProductController {
     return { categories };
   }
 
+  /**
+   * Conciliar stock con el ledger de movimientos (Solo Admin)
+   */
+  @Get('admin/stock-reconciliation')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN)
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'Conciliación de stock',
+    description:
+      'Compara el stock de cada producto con la suma de sus movimientos y lista los que no coinciden. Solo accesible por administradores.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Resultado de la conciliación',
+    type: StockReconciliationDto,
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'No autorizado',
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Acceso denegado - Se requieren permisos de administrador',
+  })
+  async reconcileStock(): Promise<StockReconciliationDto> {
+    return this.productService.reconcileStock();
+  }
+
   /**
    * Obtener estadísticas de productos (Solo Admin)
    */
@@ -343,7 +378,7 @@ export class ProductController {
   @ApiOperation({
     summary: 'Actualizar producto',
     description:
-      'Actualizar un producto existente. Solo accesible por administradores.',
+      'Actualizar un producto existente. Solo accesible por administradores. Cambiar stock solo se admite si todas sus unidades están en un almacén; si no, usar PATCH /products/:id/stock con warehouseId.',
   })
   @ApiParam({ name: 'id', type: 'string', description: 'ID del producto' })
   @ApiResponse({
@@ -369,16 +404,18 @@ export class ProductController {
   })
   @ApiResponse({
     status: 409,
-    description: 'Conflicto - El slug del producto ya existe',
+    description:
+      'Conflicto - El slug del producto ya existe o el stock está repartido en varios almacenes',
   })
   async update(
     @Param('id') id: string,
     @Body(ValidationPipe) updateProductDto: UpdateProductDto,
+    @Request() req: any,
   ): Promise<ProductResponseDto> {
     this.logger.log(
       `Actualizando producto ${id}: ${JSON.stringify(updateProductDto)}`,
     );
-    return this.productService.update(id, updateProductDto);
+    return this.productService.update(id, updateProductDto, req.user.sub);
   }
 
   /**
@@ -392,7 +429,7 @@ export class ProductController {
   @ApiOperation({
     summary: 'Actualizar stock',
     description:
-      'Actualizar el stock de un producto. Solo accesible por administradores.',
+      'Suma o resta unidades al stock y registra el movimiento (restock o manual_adjustment) con su nota. Solo accesible por administradores.',
   })
   @ApiParam({ name: 'id', type: 'string', description: 'ID del producto' })
   @ApiResponse({
@@ -416,16 +453,64 @@ export class ProductController {
     status: 404,
     description: 'Producto no encontrado',
   })
+  @ApiResponse({
+    status: 409,
+    description: 'El almacén está inactivo',
+  })
   @ApiResponse({
     status: 422,
     description: 'Stock insuficiente',
   })
   async updateStock(
     @Param('id') id: string,
-    @Body('quantity', ParseIntPipe) quantity: number,
+    @Body(ValidationPipe) updateStockDto: UpdateStockDto,
+    @Request() req: any,
   ): Promise<ProductResponseDto> {
-    this.logger.log(`Actualizando stock del producto ${id}: ${quantity}`);
-    return this.productService.updateStock(id, quantity);
+    this.logger.log(
+      `Actualizando stock del producto ${id}: ${updateStockDto.quantity}`,
+    );
+    return this.productService.updateStock(id, updateStockDto, req.user.sub);
+  }
+
+  /**
+   * Movimientos de stock de un producto (Solo Admin)
+   */
+  @Get(':id/stock-movements')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN)
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'Movimientos de stock',
+    description:
+      'Historial de movimientos de stock del producto (ventas, reposiciones, ajustes, devoluciones y cancelaciones), los más recientes primero. Solo accesible por administradores.',
+  })
+  @ApiParam({ name: 'id', type: 'string', description: 'ID del producto' })
+  @ApiResponse({
+    status: 200,
+    description: 'Movimientos del producto',
+    type: PaginatedStockMovementResponseDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'ID de producto inválido o paginación inválida',
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'No autorizado',
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Acceso denegado - Se requieren permisos de administrador',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Producto no encontrado',
+  })
+  async getStockMovements(
+    @Param('id') id: string,
+    @Query(ValidationPipe) query: StockMovementQueryDto,
+  ): Promise<PaginatedStockMovementResponseDto> {
+    return this.productService.getStockMovements(id, query);
   }
 
   /**
@@ -3,8 +3,11 @@ import { TypeOrmModule } from '@nestjs/typeorm';
 import { ProductService } from './product.service';
 import { ProductController } from './product.controller';
 import { ProductRepository } from '../../infrastructure/repositories/product.repository';
+import { StockMovementRepository } from '../../infrastructure/repositories/stock-movement.repository';
 import { Product } from '../../domain/entities/product.entity';
+import { StockMovement } from '../../domain/entities/stock-movement.entity';
 import { IProductRepository } from './interfaces/product-repository.interface';
+import { WarehousesModule } from '../warehouses/warehouses.module';
 
 /**
  * ProductModule - Módulo de gestión de productos
@@ -17,8 +20,10 @@ import { IProductRepository } from './interfaces/product-repository.interface';
  */
 @Module({
   imports: [
-    // Configuración de TypeORM para la entidad Product
-    TypeOrmModule.forFeature([Product]),
+    // Configuración de TypeORM para productos y su ledger de stock
+    TypeOrmModule.forFeature([Product, StockMovement]),
+    // Stock por almacén
+    WarehousesModule,
   ],
   controllers: [
     // REST API Controller con endpoints CRUD
@@ -32,6 +37,10 @@ import { IProductRepository } from './interfaces/product-repository.interface';
       provide: 'IProductRepository',
       useClass: ProductRepository,
     },
+    {
+      provide: 'IStockMovementRepository',
+      useClass: StockMovementRepository,
+    },
   ],
   exports: [
     // Exportar servicio para uso en otros módulos
@@ -0,0 +1,293 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConflictException, NotFoundException } from '@nestjs/common';
+import { ProductService } from './product.service';
+import { WarehouseService } from '../warehouses/warehouse.service';
+import { StockMovementReason } from '../../domain/entities/stock-movement.entity';
+
+describe('ProductService', () => {
+  let service: ProductService;
+
+  const adminId = '550e8400-e29b-41d4-a716-446655440001';
+  const orderId = '550e8400-e29b-41d4-a716-446655440002';
+  const warehouseId = '550e8400-e29b-41d4-a716-446655440003';
+
+  const mockProduct = {
+    id: 1,
+    name: 'iPhone 15 Pro Max',
+    slug: 'iphone-15-pro-max',
+    price: 129999,
+    stock: 48,
+    category: 'smartphones',
+  };
+
+  const mockProductRepository = {
+    findById: jest.fn(),
+    findBySlug: jest.fn(),
+    create: jest.fn(),
+    update: jest.fn(),
+    updateStock: jest.fn(),
+  };
+
+  const mockStockMovementRepository = {
+    findByProduct: jest.fn(),
+    reconcile: jest.fn(),
+  };
+
+  const mockWarehouseService = {
+    findOne: jest.fn(),
+    getProductStock: jest.fn(),
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ProductService,
+        { provide: 'IProductRepository', useValue: mockProductRepository },
+        {
+          provide: 'IStockMovementRepository',
+          useValue: mockStockMovementRepository,
+        },
+        { provide: WarehouseService, useValue: mockWarehouseService },
+      ],
+    }).compile();
+
+    service = module.get<ProductService>(ProductService);
+
+    jest.clearAllMocks();
+  });
+
+  describe('updateStock', () => {
+    it('should record the movement with its reason, note and actor', async () => {
+      // Arrange
+      mockProductRepository.updateStock.mockResolvedValue({
+        ...mockProduct,
+        stock: 73,
+      });
+
+      // Act
+      const result = await service.updateStock(
+        '1',
+        {
+          quantity: 25,
+          reason: StockMovementReason.RESTOCK,
+          note: 'OC-1042',
+        },
+        adminId,
+      );
+
+      // Assert
+      expect(result.stock).toBe(73);
+      expect(mockProductRepository.updateStock).toHaveBeenCalledWith(1, 25, {
+        reason: StockMovementReason.RESTOCK,
+        note: 'OC-1042',
+        actorId: adminId,
+      });
+    });
+
+    it('should apply the movement to the given warehouse', async () => {
+      // Arrange
+      mockWarehouseService.findOne.mockResolvedValue({
+        id: warehouseId,
+        isActive: true,
+      });
+      mockProductRepository.updateStock.mockResolvedValue({
+        ...mockProduct,
+        stock: 58,
+      });
+
+      // Act
+      const result = await service.updateStock(
+        '1',
+        { quantity: 10, warehouseId },
+        adminId,
+      );
+
+      // Assert
+      expect(result.stock).toBe(58);
+      expect(mockWarehouseService.findOne).toHaveBeenCalledWith(warehouseId);
+      expect(mockProductRepository.updateStock).toHaveBeenCalledWith(1, 10, {
+        warehouseId,
+        actorId: adminId,
+      });
+    });
+
+    it('should not touch the stock when the warehouse does not exist', async () => {
+      // Arrange
+      mockWarehouseService.findOne.mockRejectedValue(
+        new NotFoundException(`Almacén con ID ${warehouseId} no encontrado`),
+      );
+
+      // Act & Assert
+      await expect(
+        service.updateStock('1', { quantity: 10, warehouseId }, adminId),
+      ).rejects.toThrow(NotFoundException);
+      expect(mockProductRepository.updateStock).not.toHaveBeenCalled();
+    });
+
+    it('should not put stock in an inactive warehouse', async () => {
+      // Arrange
+      mockWarehouseService.findOne.mockResolvedValue({
+        id: warehouseId,
+        code: 'OLD-01',
+        isActive: false,
+      });
+
+      // Act & Assert
+      await expect(
+        service.updateStock('1', { quantity: 10, warehouseId }, adminId),
+      ).rejects.toThrow(ConflictException);
+      expect(mockProductRepository.updateStock).not.toHaveBeenCalled();
+    });
+
+    it('should throw NotFoundException when the product does not exist', async () => {
+      // Arrange
+      mockProductRepository.updateStock.mockResolvedValue(null);
+
+      // Act & Assert
+      await expect(
+        service.updateStock('99', { quantity: -1 }, adminId),
+      ).rejects.toThrow(NotFoundException);
+    });
+  });
+
+  describe('update', () => {
+    it('should pass the actor so a stock change is recorded as a manual adjustment', async () => {
+      // Arrange
+      mockProductRepository.findById.mockResolvedValue(mockProduct);
+      mockWarehouseService.getProductStock.mockResolvedValue([
+        { warehouseId, warehouseCode: 'BOG-01', quantity: 48 },
+      ]);
+      mockProductRepository.update.mockResolvedValue({
+        ...mockProduct,
+        stock: 40,
+      });
+
+      // Act
+      await service.update('1', { stock: 40 }, adminId);
+
+      // Assert
+      expect(mockProductRepository.update).toHaveBeenCalledWith(
+        1,
+        { stock: 40 },
+        { warehouseId, actorId: adminId },
+      );
+    });
+
+    it('should reject an absolute stock when the units are in several warehouses', async () => {
+      // Arrange
+      mockProductRepository.findById.mockResolvedValue(mockProduct);
+      mockWarehouseService.getProductStock.mockResolvedValue([
+        { warehouseId, warehouseCode: 'BOG-01', quantity: 40 },
+        {
+          warehouseId: '550e8400-e29b-41d4-a716-446655440004',
+          warehouseCode: 'MED-01',
+          quantity: 8,
+        },
+      ]);
+
+      // Act & Assert
+      await expect(service.update('1', { stock: 40 }, adminId)).rejects.toThrow(
+        ConflictException,
+      );
+      expect(mockProductRepository.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getStockMovements', () => {
+    it('should return the movements of the product with pagination', async () => {
+      // Arrange
+      mockProductRepository.findById.mockResolvedValue(mockProduct);
+      mockStockMovementRepository.findByProduct.mockResolvedValue({
+        movements: [
+          {
+            id: 'movement-2',
+            productId: 1,
+            delta: -2,
+            quantityAfter: 48,
+            reason: StockMovementReason.SALE,
+            orderId,
+            reference: null,
+            note: null,
+            actorId: null,
+            createdAt: new Date(),
+          },
+        ],
+        total: 3,
+      });
+
+      // Act
+      const result = await service.getStockMovements('1', {
+        page: 1,
+        limit: 1,
+      });
+
+      // Assert
+      expect(mockStockMovementRepository.findByProduct).toHaveBeenCalledWith(
+        1,
+        1,
+        1,
+      );
+      expect(result.movements).toHaveLength(1);
+      expect(result.movements[0]).toMatchObject({
+        delta: -2,
+        quantityAfter: 48,
+        reason: StockMovementReason.SALE,
+        orderId,
+      });
+      expect(result.pagination).toEqual({
+        page: 1,
+        limit: 1,
+        total: 3,
+        totalPages: 3,
+        hasNextPage: true,
+        hasPrevPage: false,
+      });
+    });
+
+    it('should throw NotFoundException when the product does not exist', async () => {
+      // Arrange
+      mockProductRepository.findById.mockResolvedValue(null);
+
+      // Act & Assert
+      await expect(service.getStockMovements('99', {})).rejects.toThrow(
+        NotFoundException,
+      );
+      expect(mockStockMovementRepository.findByProduct).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('reconcileStock', () => {
+    it('should flag the products whose stock differs from the ledger', async () => {
+      // Arrange
+      mockStockMovementRepository.reconcile.mockResolvedValue({
+        productsChecked: 12,
+        discrepancies: [
+          {
+            productId: 1,
+            name: mockProduct.name,
+            stock: 48,
+            ledgerStock: 50,
+            movementCount: 4,
+          },
+        ],
+      });
+
+      // Act
+      const result = await service.reconcileStock();
+
+      // Assert
+      expect(result.productsChecked).toBe(12);
+      expect(result.discrepancies).toEqual([
+        {
+          productId: 1,
+          name: mockProduct.name,
+          stock: 48,
+          ledgerStock: 50,
+          movementCount: 4,
+          difference: -2,
+        },
+      ]);
+      expect(result.checkedAt).toBeInstanceOf(Date);
+    });
+  });
+});
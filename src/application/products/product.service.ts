@@ -8,14 +8,21 @@ import {
 } from '@nestjs/common';
 import { plainToClass } from 'class-transformer';
 import { IProductRepository } from './interfaces/product-repository.interface';
+import { IStockMovementRepository } from './interfaces/stock-movement-repository.interface';
 import {
   CreateProductDto,
   UpdateProductDto,
   ProductResponseDto,
   ProductQueryDto,
   PaginatedProductResponseDto,
+  UpdateStockDto,
+  StockMovementQueryDto,
+  StockMovementResponseDto,
+  PaginatedStockMovementResponseDto,
+  StockReconciliationDto,
 } from './dto';
 import { Product } from '../../domain/entities/product.entity';
+import { WarehouseService } from '../warehouses/warehouse.service';
 
 /**
  * ProductService - Capa de Aplicación (Clean Architecture)
@@ -36,6 +43,9 @@ export class ProductService {
   constructor(
     @Inject('IProductRepository')
     private readonly productRepository: IProductRepository,
+    @Inject('IStockMovementRepository')
+    private readonly stockMovementRepository: IStockMovementRepository,
+    private readonly warehouseService: WarehouseService,
   ) {}
 
   /**
@@ -186,11 +196,13 @@ export class ProductService {
   /**
    * Crea un nuevo producto
    * @param createProductDto Datos del producto a crear
+   * @param actorId Usuario que crea el producto (queda en el movimiento de stock inicial)
    * @returns Promise<ProductResponseDto> Producto creado
    * @throws ConflictException si el slug ya existe
    */
   async create(
     createProductDto: CreateProductDto,
+    actorId?: string,
   ): Promise<ProductResponseDto> {
     this.logger.log(`Creando producto: ${createProductDto.name}`);
 
@@ -207,7 +219,10 @@ export class ProductService {
     // Validaciones de negocio adicionales
     this.validateBusinessRules(createProductDto);
 
-    const product = await this.productRepository.create(createProductDto);
+    const product = await this.productRepository.create(
+      createProductDto,
+      actorId,
+    );
 
     this.logger.log(`Producto creado exitosamente: ${product.id}`);
 
@@ -227,13 +242,16 @@ export class ProductService {
    * Actualiza un producto existente
    * @param id UUID del producto
    * @param updateProductDto Datos a actualizar
+   * @param actorId Usuario que actualiza (queda en el movimiento si cambia el stock)
    * @returns Promise<ProductResponseDto> Producto actualizado
    * @throws NotFoundException si el producto no existe
-   * @throws ConflictException si el slug ya está en uso
+   * @throws ConflictException si el slug ya está en uso o se cambia el stock
+   * de un producto guardado en varios almacenes
    */
   async update(
     id: string,
     updateProductDto: UpdateProductDto,
+    actorId?: string,
   ): Promise<ProductResponseDto> {
     this.logger.log(`Actualizando producto con ID: ${id}`);
 
@@ -268,10 +286,20 @@ export class ProductService {
       this.validateBusinessRules(updateProductDto);
     }
 
+    // Un stock absoluto solo tiene sentido si las unidades están en un almacén
+    let warehouseId: string | undefined;
+    if (
+      updateProductDto.stock !== undefined &&
+      updateProductDto.stock !== existingProduct.stock
+    ) {
+      warehouseId = await this.findSingleStockLocation(parseInt(id));
+    }
+
     // Realizar la actualización
     const updatedProduct = await this.productRepository.update(
       parseInt(id),
       updateProductDto,
+      { warehouseId, actorId },
     );
 
     if (!updatedProduct) {
@@ -361,10 +389,18 @@ export class ProductService {
   /**
    * Actualiza el stock de un producto
    * @param id ID del producto
-   * @param quantity Cantidad a agregar (positiva) o quitar (negativa)
+   * @param updateStockDto Cantidad a agregar (positiva) o quitar (negativa), motivo, almacén y nota
+   * @param actorId Administrador que registra el movimiento
    * @returns Promise<ProductResponseDto> Producto con stock actualizado
+   * @throws NotFoundException si el producto o el almacén no existen
+   * @throws ConflictException si el almacén está inactivo
    */
-  async updateStock(id: string, quantity: number): Promise<ProductResponseDto> {
+  async updateStock(
+    id: string,
+    updateStockDto: UpdateStockDto,
+    actorId?: string,
+  ): Promise<ProductResponseDto> {
+    const { quantity, reason, warehouseId, note } = updateStockDto;
     this.logger.log(`Actualizando stock del producto ${id}: ${quantity}`);
 
     if (!this.isValidId(id)) {
@@ -375,9 +411,19 @@ export class ProductService {
       throw new BadRequestException('La cantidad debe ser un número válido');
     }
 
+    if (warehouseId) {
+      const warehouse = await this.warehouseService.findOne(warehouseId);
+      if (!warehouse.isActive) {
+        throw new ConflictException(
+          `El almacén ${warehouse.code} está inactivo y no admite ajustes de stock`,
+        );
+      }
+    }
+
     const updatedProduct = await this.productRepository.updateStock(
       parseInt(id),
       quantity,
+      { reason, warehouseId, note, actorId },
     );
 
     if (!updatedProduct) {
@@ -398,6 +444,79 @@ export class ProductService {
     );
   }
 
+  /**
+   * Obtiene los movimientos de stock de un producto
+   * @param id ID del producto
+   * @param query Paginación
+   * @returns Promise<PaginatedStockMovementResponseDto> Movimientos, los más recientes primero
+   * @throws NotFoundException si el producto no existe
+   */
+  async getStockMovements(
+    id: string,
+    query: StockMovementQueryDto,
+  ): Promise<PaginatedStockMovementResponseDto> {
+    this.logger.log(`Obteniendo movimientos de stock del producto ${id}`);
+
+    if (!this.isValidId(id)) {
+      throw new BadRequestException('ID de producto inválido');
+    }
+
+    const product = await this.productRepository.findById(parseInt(id));
+    if (!product) {
+      throw new NotFoundException(`Producto con ID ${id} no encontrado`);
+    }
+
+    const page = query.page ?? 1;
+    const limit = query.limit ?? 50;
+    const { movements, total } =
+      await this.stockMovementRepository.findByProduct(product.id, page, limit);
+    const totalPages = Math.ceil(total / limit);
+
+    return {
+      movements: movements.map((movement) =>
+        plainToClass(StockMovementResponseDto, movement, {
+          excludeExtraneousValues: true,
+        }),
+      ),
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages,
+        hasNextPage: page < totalPages,
+        hasPrevPage: page > 1,
+      },
+    };
+  }
+
+  /**
+   * Concilia el stock de cada producto con la suma de sus movimientos
+   * @returns Promise<StockReconciliationDto> Productos cuyo stock no coincide
+   */
+  async reconcileStock(): Promise<StockReconciliationDto> {
+    this.logger.log('Conciliando stock de productos con el ledger');
+
+    const { productsChecked, discrepancies } =
+      await this.stockMovementRepository.reconcile();
+
+    if (discrepancies.length > 0) {
+      this.logger.warn(
+        `${discrepancies.length} productos con stock distinto al ledger: ${discrepancies
+          .map((row) => row.productId)
+          .join(', ')}`,
+      );
+    }
+
+    return {
+      checkedAt: new Date(),
+      productsChecked,
+      discrepancies: discrepancies.map((row) => ({
+        ...row,
+        difference: row.stock - row.ledgerStock,
+      })),
+    };
+  }
+
   /**
    * Obtiene estadísticas de productos
    * @returns Promise con estadísticas detalladas
@@ -441,6 +560,28 @@ export class ProductService {
     }
   }
 
+  /**
+   * Almacén que guarda todas las unidades del producto, donde se aplica un
+   * stock absoluto (undefined si aún no tiene stock: va al almacén por defecto)
+   * @throws ConflictException si las unidades están repartidas en varios almacenes
+   */
+  private async findSingleStockLocation(
+    productId: number,
+  ): Promise<string | undefined> {
+    const stocked = (
+      await this.warehouseService.getProductStock(productId)
+    ).filter((location) => location.quantity > 0);
+    if (stocked.length > 1) {
+      throw new ConflictException({
+        message:
+          'El producto tiene stock en varios almacenes: ajústalo con PATCH /products/:id/stock indicando el warehouseId',
+        code: 'MULTI_WAREHOUSE_STOCK',
+        locations: stocked.map((location) => location.warehouseCode),
+      });
+    }
+    return stocked[0]?.warehouseId;
+  }
+
   /**
    * Valida si un string es un ID numérico válido
    * @param id String a validar
@@ -0,0 +1,255 @@
+import {
+  IsBoolean,
+  IsDate,
+  IsEnum,
+  IsInt,
+  IsNotEmpty,
+  IsNumber,
+  IsOptional,
+  IsString,
+  Matches,
+  Max,
+  MaxLength,
+  Min,
+} from 'class-validator';
+import { Expose, Transform, Type } from 'class-transformer';
+import { ApiProperty, ApiPropertyOptional, PartialType } from '@nestjs/swagger';
+import { PromotionType } from '../../../domain/entities/promotion.entity';
+
+export class CreatePromotionDto {
+  @ApiProperty({
+    description: 'Código del cupón (se guarda en mayúsculas)',
+    example: 'VERANO10',
+    maxLength: 50,
+  })
+  @IsNotEmpty({ message: 'El código es obligatorio' })
+  @IsString()
+  @Matches(/^[A-Z0-9]+(?:[-_][A-Z0-9]+)*$/, {
+    message: 'El código debe contener solo letras, números, - y _',
+  })
+  @MaxLength(50, { message: 'El código no debe exceder 50 caracteres' })
+  @Transform(({ value }) => value?.trim().toUpperCase())
+  code: string;
+
+  @ApiProperty({
+    description: 'Nombre interno de la promoción',
+    example: 'Verano 10% en electrónicos',
+    maxLength: 100,
+  })
+  @IsNotEmpty({ message: 'El nombre es obligatorio' })
+  @IsString()
+  @MaxLength(100, { message: 'El nombre no debe exceder 100 caracteres' })
+  name: string;
+
+  @ApiProperty({
+    description: 'Tipo de promoción',
+    enum: PromotionType,
+    example: PromotionType.PERCENTAGE,
+  })
+  @IsEnum(PromotionType, {
+    message: 'El tipo debe ser percentage, fixed, free_shipping o buy_x_get_y',
+  })
+  type: PromotionType;
+
+  @ApiPropertyOptional({
+    description: 'Porcentaje (percentage) o monto en centavos (fixed)',
+    example: 10,
+    minimum: 0,
+  })
+  @IsOptional()
+  @IsNumber(
+    { allowNaN: false, allowInfinity: false, maxDecimalPlaces: 2 },
+    { message: 'El valor debe ser un número válido' },
+  )
+  @Min(0, { message: 'El valor no puede ser negativo' })
+  @Max(999999999, { message: 'El valor no puede exceder 999,999,999' })
+  value?: number;
+
+  @ApiPropertyOptional({
+    description: 'Categoría de producto elegible (vacío = todo el carrito)',
+    example: 'ELECTRONICOS',
+    maxLength: 100,
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(100, { message: 'La categoría no debe exceder 100 caracteres' })
+  @Transform(({ value }) => value?.trim().toUpperCase() || undefined)
+  category?: string;
+
+  @ApiPropertyOptional({
+    description: 'Unidades a comprar (buy_x_get_y)',
+    example: 2,
+    minimum: 1,
+  })
+  @IsOptional()
+  @IsInt({ message: 'Las unidades a comprar deben ser un entero' })
+  @Min(1, { message: 'Las unidades a comprar deben ser al menos 1' })
+  buyQuantity?: number;
+
+  @ApiPropertyOptional({
+    description: 'Unidades gratis (buy_x_get_y)',
+    example: 1,
+    minimum: 1,
+  })
+  @IsOptional()
+  @IsInt({ message: 'Las unidades gratis deben ser un entero' })
+  @Min(1, { message: 'Las unidades gratis deben ser al menos 1' })
+  getQuantity?: number;
+
+  @ApiPropertyOptional({
+    description: 'Subtotal mínimo del carrito en centavos',
+    example: 5000,
+    minimum: 0,
+  })
+  @IsOptional()
+  @IsInt({ message: 'El mínimo debe ser un entero en centavos' })
+  @Min(0, { message: 'El mínimo no puede ser negativo' })
+  minOrderAmount?: number;
+
+  @ApiPropertyOptional({
+    description: 'Inicio de vigencia',
+    example: '2026-12-01T00:00:00.000Z',
+  })
+  @IsOptional()
+  @Type(() => Date)
+  @IsDate({ message: 'La fecha de inicio no es válida' })
+  startsAt?: Date;
+
+  @ApiPropertyOptional({
+    description: 'Fin de vigencia',
+    example: '2027-01-01T00:00:00.000Z',
+  })
+  @IsOptional()
+  @Type(() => Date)
+  @IsDate({ message: 'La fecha de fin no es válida' })
+  endsAt?: Date;
+
+  @ApiPropertyOptional({
+    description: 'Usos totales del código (vacío = sin límite)',
+    example: 100,
+    minimum: 1,
+  })
+  @IsOptional()
+  @IsInt({ message: 'El límite de usos debe ser un entero' })
+  @Min(1, { message: 'El límite de usos debe ser al menos 1' })
+  usageLimit?: number;
+
+  @ApiPropertyOptional({
+    description: 'Usos por usuario (vacío = sin límite)',
+    example: 1,
+    minimum: 1,
+  })
+  @IsOptional()
+  @IsInt({ message: 'El límite por usuario debe ser un entero' })
+  @Min(1, { message: 'El límite por usuario debe ser al menos 1' })
+  usageLimitPerUser?: number;
+
+  @ApiPropertyOptional({
+    description: 'Indica si el cupón se puede usar',
+    default: true,
+  })
+  @IsOptional()
+  @IsBoolean({ message: 'El estado activo debe ser verdadero o falso' })
+  isActive?: boolean;
+}
+
+export class UpdatePromotionDto extends PartialType(CreatePromotionDto) {}
+
+export class PromotionResponseDto {
+  @ApiProperty({ example: '123e4567-e89b-12d3-a456-426614174000' })
+  @Expose()
+  id: string;
+
+  @ApiProperty({ example: 'VERANO10' })
+  @Expose()
+  code: string;
+
+  @ApiProperty({ example: 'Verano 10% en electrónicos' })
+  @Expose()
+  name: string;
+
+  @ApiProperty({ enum: PromotionType })
+  @Expose()
+  type: PromotionType;
+
+  @ApiProperty({ example: 10 })
+  @Expose()
+  value: number;
+
+  @ApiProperty({ example: 'ELECTRONICOS', nullable: true })
+  @Expose()
+  category: string | null;
+
+  @ApiProperty({ nullable: true })
+  @Expose()
+  buyQuantity: number | null;
+
+  @ApiProperty({ nullable: true })
+  @Expose()
+  getQuantity: number | null;
+
+  @ApiProperty({ description: 'En centavos', nullable: true })
+  @Expose()
+  minOrderAmount: number | null;
+
+  @ApiProperty({ nullable: true })
+  @Expose()
+  startsAt: Date | null;
+
+  @ApiProperty({ nullable: true })
+  @Expose()
+  endsAt: Date | null;
+
+  @ApiProperty({ nullable: true })
+  @Expose()
+  usageLimit: number | null;
+
+  @ApiProperty({ nullable: true })
+  @Expose()
+  usageLimitPerUser: number | null;
+
+  @ApiProperty({ example: true })
+  @Expose()
+  isActive: boolean;
+
+  @ApiProperty({ example: '2023-12-01T10:30:00.000Z' })
+  @Expose()
+  createdAt: Date;
+
+  @ApiProperty({ example: '2023-12-01T10:30:00.000Z' })
+  @Expose()
+  updatedAt: Date;
+}
+
+export class PromotionStatsDto {
+  @ApiProperty({ example: '123e4567-e89b-12d3-a456-426614174000' })
+  @Expose()
+  promotionId: string;
+
+  @ApiProperty({ example: 'VERANO10' })
+  @Expose()
+  code: string;
+
+  @ApiProperty({ description: 'Órdenes que usaron el cupón', example: 42 })
+  @Expose()
+  redemptions: number;
+
+  @ApiProperty({ example: 37 })
+  @Expose()
+  uniqueUsers: number;
+
+  @ApiProperty({ description: 'Descuento otorgado en centavos' })
+  @Expose()
+  totalDiscount: number;
+
+  @ApiProperty({
+    description: 'Usos restantes (null = sin límite)',
+    nullable: true,
+  })
+  @Expose()
+  remainingUses: number | null;
+
+  @ApiProperty({ nullable: true })
+  @Expose()
+  lastRedeemedAt: Date | null;
+}
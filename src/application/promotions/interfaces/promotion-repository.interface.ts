@@ -0,0 +1,79 @@
+import {
+  Promotion,
+  PromotionType,
+} from '../../../domain/entities/promotion.entity';
+
+export interface PromotionData {
+  code: string;
+  name: string;
+  type: PromotionType;
+  value: number;
+  category: string | null;
+  buyQuantity: number | null;
+  getQuantity: number | null;
+  minOrderAmount: number | null;
+  startsAt: Date | null;
+  endsAt: Date | null;
+  usageLimit: number | null;
+  usageLimitPerUser: number | null;
+  isActive: boolean;
+}
+
+/**
+ * Usos registrados de un cupón
+ */
+export interface PromotionUsage {
+  total: number;
+  byUser: number;
+}
+
+export interface PromotionRedemptionStats {
+  redemptions: number;
+  uniqueUsers: number;
+  totalDiscount: number;
+  lastRedeemedAt: Date | null;
+}
+
+/**
+ * Abstracción del Repository Pattern para promociones (DIP)
+ */
+export interface IPromotionRepository {
+  /**
+   * Lista las promociones
+   * @returns Promise<Promotion[]> Promociones, las más recientes primero
+   */
+  findAll(): Promise<Promotion[]>;
+
+  /**
+   * @returns Promise<Promotion | null> Promoción o null si no existe
+   */
+  findById(id: string): Promise<Promotion | null>;
+
+  /**
+   * Encuentra una promoción por código de cupón
+   * @param code Código en mayúsculas
+   */
+  findByCode(code: string): Promise<Promotion | null>;
+
+  create(data: PromotionData): Promise<Promotion>;
+
+  /**
+   * @returns Promise<Promotion | null> Promoción actualizada o null si no existe
+   */
+  update(id: string, data: Partial<PromotionData>): Promise<Promotion | null>;
+
+  /**
+   * @returns Promise<boolean> true si se eliminó
+   */
+  delete(id: string): Promise<boolean>;
+
+  /**
+   * Cuenta los usos de un cupón, en total y de un usuario
+   */
+  countUsage(promotionId: string, userId: string): Promise<PromotionUsage>;
+
+  /**
+   * Estadísticas de uso de un cupón (órdenes no canceladas)
+   */
+  getRedemptionStats(promotionId: string): Promise<PromotionRedemptionStats>;
+}
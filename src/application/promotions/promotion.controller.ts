@@ -0,0 +1,188 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Put,
+  Delete,
+  Body,
+  Param,
+  UseGuards,
+  HttpCode,
+  HttpStatus,
+  ValidationPipe,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiParam,
+} from '@nestjs/swagger';
+import { PromotionService } from './promotion.service';
+import {
+  CreatePromotionDto,
+  PromotionResponseDto,
+  PromotionStatsDto,
+  UpdatePromotionDto,
+} from './dto/promotion.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { UserRole } from '../../domain/entities/user.entity';
+
+/**
+ * PromotionController - Gestión de cupones y promociones (Solo Admin)
+ */
+@ApiTags('Promociones')
+@Controller('promotions')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Roles(UserRole.ADMIN)
+@ApiBearerAuth()
+export class PromotionController {
+  constructor(private readonly promotionService: PromotionService) {}
+
+  /**
+   * Listar promociones
+   */
+  @Get()
+  @ApiOperation({ summary: 'Listar promociones' })
+  @ApiResponse({
+    status: 200,
+    description: 'Promociones',
+    type: [PromotionResponseDto],
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Acceso denegado - Se requieren permisos de administrador',
+  })
+  async findAll(): Promise<PromotionResponseDto[]> {
+    return this.promotionService.findAll();
+  }
+
+  /**
+   * Obtener promoción
+   */
+  @Get(':id')
+  @ApiOperation({ summary: 'Obtener promoción' })
+  @ApiParam({ name: 'id', type: 'string', description: 'ID de la promoción' })
+  @ApiResponse({
+    status: 200,
+    description: 'Promoción',
+    type: PromotionResponseDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'ID de promoción inválido',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Promoción no encontrada',
+  })
+  async findOne(@Param('id') id: string): Promise<PromotionResponseDto> {
+    return this.promotionService.findOne(id);
+  }
+
+  /**
+   * Estadísticas de canje
+   */
+  @Get(':id/stats')
+  @ApiOperation({
+    summary: 'Estadísticas de canje',
+    description:
+      'Órdenes, usuarios y descuento otorgado. Las órdenes canceladas liberan el uso.',
+  })
+  @ApiParam({ name: 'id', type: 'string', description: 'ID de la promoción' })
+  @ApiResponse({
+    status: 200,
+    description: 'Estadísticas de la promoción',
+    type: PromotionStatsDto,
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Promoción no encontrada',
+  })
+  async getStats(@Param('id') id: string): Promise<PromotionStatsDto> {
+    return this.promotionService.getStats(id);
+  }
+
+  /**
+   * Crear promoción
+   */
+  @Post()
+  @HttpCode(HttpStatus.CREATED)
+  @ApiOperation({
+    summary: 'Crear promoción',
+    description:
+      'Tipos: percentage, fixed, free_shipping y buy_x_get_y, opcionalmente limitados a una categoría.',
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Promoción creada',
+    type: PromotionResponseDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Datos de entrada inválidos o regla incompleta',
+  })
+  @ApiResponse({
+    status: 409,
+    description: 'El código ya está en uso',
+  })
+  async create(
+    @Body(ValidationPipe) createPromotionDto: CreatePromotionDto,
+  ): Promise<PromotionResponseDto> {
+    return this.promotionService.create(createPromotionDto);
+  }
+
+  /**
+   * Actualizar promoción
+   */
+  @Put(':id')
+  @ApiOperation({
+    summary: 'Actualizar promoción',
+    description: 'Las órdenes existentes conservan su descuento.',
+  })
+  @ApiParam({ name: 'id', type: 'string', description: 'ID de la promoción' })
+  @ApiResponse({
+    status: 200,
+    description: 'Promoción actualizada',
+    type: PromotionResponseDto,
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Promoción no encontrada',
+  })
+  @ApiResponse({
+    status: 409,
+    description: 'El código ya está en uso',
+  })
+  async update(
+    @Param('id') id: string,
+    @Body(ValidationPipe) updatePromotionDto: UpdatePromotionDto,
+  ): Promise<PromotionResponseDto> {
+    return this.promotionService.update(id, updatePromotionDto);
+  }
+
+  /**
+   * Eliminar promoción
+   */
+  @Delete(':id')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({ summary: 'Eliminar promoción sin usos' })
+  @ApiParam({ name: 'id', type: 'string', description: 'ID de la promoción' })
+  @ApiResponse({
+    status: 204,
+    description: 'Promoción eliminada',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Promoción no encontrada',
+  })
+  @ApiResponse({
+    status: 409,
+    description: 'La promoción ya se usó; se debe desactivar',
+  })
+  async remove(@Param('id') id: string): Promise<void> {
+    return this.promotionService.remove(id);
+  }
+}
@@ -0,0 +1,250 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException, ConflictException } from '@nestjs/common';
+import { PromotionService } from './promotion.service';
+import {
+  Promotion,
+  PromotionType,
+} from '../../domain/entities/promotion.entity';
+
+describe('PromotionService', () => {
+  let service: PromotionService;
+
+  const userId = '550e8400-e29b-41d4-a716-446655440001';
+  const promotionId = '550e8400-e29b-41d4-a716-446655440050';
+
+  const buildPromotion = (overrides: Partial<Promotion> = {}): Promotion =>
+    Object.assign(new Promotion(), {
+      id: promotionId,
+      code: 'VERANO10',
+      name: 'Verano',
+      type: PromotionType.PERCENTAGE,
+      value: 10,
+      category: null,
+      buyQuantity: null,
+      getQuantity: null,
+      minOrderAmount: null,
+      startsAt: null,
+      endsAt: null,
+      usageLimit: null,
+      usageLimitPerUser: null,
+      isActive: true,
+      ...overrides,
+    });
+
+  const phone = { id: 1, price: 1000, category: 'ELECTRONICOS' };
+  const shirt = { id: 2, price: 500, category: 'ROPA' };
+  const lines = [
+    { product: phone as any, quantity: 2 },
+    { product: shirt as any, quantity: 3 },
+  ];
+
+  const mockPromotionRepository = {
+    findAll: jest.fn(),
+    findById: jest.fn(),
+    findByCode: jest.fn(),
+    create: jest.fn(),
+    update: jest.fn(),
+    delete: jest.fn(),
+    countUsage: jest.fn(),
+    getRedemptionStats: jest.fn(),
+  };
+
+  const mockProductRepository = {
+    findById: jest.fn(),
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        PromotionService,
+        { provide: 'IPromotionRepository', useValue: mockPromotionRepository },
+        { provide: 'IProductRepository', useValue: mockProductRepository },
+      ],
+    }).compile();
+
+    service = module.get<PromotionService>(PromotionService);
+
+    jest.clearAllMocks();
+
+    mockPromotionRepository.countUsage.mockResolvedValue({
+      total: 0,
+      byUser: 0,
+    });
+  });
+
+  describe('priceLines', () => {
+    it('should discount a percentage of every line', async () => {
+      // Arrange
+      mockPromotionRepository.findByCode.mockResolvedValue(buildPromotion());
+
+      // Act
+      const result = await service.priceLines('verano10', userId, lines, 0);
+
+      // Assert
+      expect(mockPromotionRepository.findByCode).toHaveBeenCalledWith(
+        'VERANO10',
+      );
+      expect(result.lines).toEqual([
+        { productId: 1, amount: 200 },
+        { productId: 2, amount: 150 },
+      ]);
+      expect(result.total).toBe(350);
+    });
+
+    it('should split a fixed discount among the lines of the category', async () => {
+      // Arrange
+      mockPromotionRepository.findByCode.mockResolvedValue(
+        buildPromotion({
+          type: PromotionType.FIXED,
+          value: 5000,
+          category: 'ROPA',
+        }),
+      );
+
+      // Act
+      const result = await service.priceLines('VERANO10', userId, lines, 0);
+
+      // Assert: el descuento no supera el importe elegible
+      expect(result.lines).toEqual([
+        { productId: 1, amount: 0 },
+        { productId: 2, amount: 1500 },
+      ]);
+    });
+
+    it('should give away units with buy X get Y', async () => {
+      // Arrange
+      mockPromotionRepository.findByCode.mockResolvedValue(
+        buildPromotion({
+          type: PromotionType.BUY_X_GET_Y,
+          buyQuantity: 2,
+          getQuantity: 1,
+        }),
+      );
+
+      // Act
+      const result = await service.priceLines('VERANO10', userId, lines, 0);
+
+      // Assert
+      expect(result.lines).toEqual([
+        { productId: 1, amount: 0 },
+        { productId: 2, amount: 500 },
+      ]);
+    });
+
+    it('should waive the shipping charge', async () => {
+      // Arrange
+      mockPromotionRepository.findByCode.mockResolvedValue(
+        buildPromotion({ type: PromotionType.FREE_SHIPPING, value: 0 }),
+      );
+
+      // Act
+      const result = await service.priceLines('VERANO10', userId, lines, 900);
+
+      // Assert
+      expect(result.shipping).toBe(900);
+      expect(result.total).toBe(900);
+    });
+
+    it('should reject carts under the minimum amount', async () => {
+      // Arrange
+      mockPromotionRepository.findByCode.mockResolvedValue(
+        buildPromotion({ minOrderAmount: 10000 }),
+      );
+
+      // Act & Assert
+      await expect(
+        service.priceLines('VERANO10', userId, lines, 0),
+      ).rejects.toThrow(BadRequestException);
+    });
+
+    it('should reject expired coupons', async () => {
+      // Arrange
+      mockPromotionRepository.findByCode.mockResolvedValue(
+        buildPromotion({ endsAt: new Date(Date.now() - 1000) }),
+      );
+
+      // Act & Assert
+      await expect(
+        service.priceLines('VERANO10', userId, lines, 0),
+      ).rejects.toThrow(BadRequestException);
+    });
+
+    it('should enforce the per-user usage limit', async () => {
+      // Arrange
+      mockPromotionRepository.findByCode.mockResolvedValue(
+        buildPromotion({ usageLimitPerUser: 1 }),
+      );
+      mockPromotionRepository.countUsage.mockResolvedValue({
+        total: 5,
+        byUser: 1,
+      });
+
+      // Act & Assert
+      await expect(
+        service.priceLines('VERANO10', userId, lines, 0),
+      ).rejects.toThrow(ConflictException);
+    });
+  });
+
+  describe('create', () => {
+    it('should reject a duplicate code', async () => {
+      // Arrange
+      mockPromotionRepository.findByCode.mockResolvedValue(buildPromotion());
+
+      // Act & Assert
+      await expect(
+        service.create({
+          code: 'VERANO10',
+          name: 'Verano',
+          type: PromotionType.PERCENTAGE,
+          value: 10,
+        }),
+      ).rejects.toThrow(ConflictException);
+      expect(mockPromotionRepository.create).not.toHaveBeenCalled();
+    });
+
+    it('should reject percentages over 100', async () => {
+      // Arrange
+      mockPromotionRepository.findByCode.mockResolvedValue(null);
+
+      // Act & Assert
+      await expect(
+        service.create({
+          code: 'TODO',
+          name: 'Todo gratis',
+          type: PromotionType.PERCENTAGE,
+          value: 150,
+        }),
+      ).rejects.toThrow(BadRequestException);
+    });
+  });
+
+  describe('getStats', () => {
+    it('should report redemptions and remaining uses', async () => {
+      // Arrange
+      mockPromotionRepository.findById.mockResolvedValue(
+        buildPromotion({ usageLimit: 10 }),
+      );
+      mockPromotionRepository.getRedemptionStats.mockResolvedValue({
+        redemptions: 4,
+        uniqueUsers: 3,
+        totalDiscount: 1200,
+        lastRedeemedAt: null,
+      });
+
+      // Act
+      const result = await service.getStats(promotionId);
+
+      // Assert
+      expect(result).toEqual(
+        expect.objectContaining({
+          code: 'VERANO10',
+          redemptions: 4,
+          uniqueUsers: 3,
+          totalDiscount: 1200,
+          remainingUses: 6,
+        }),
+      );
+    });
+  });
+});
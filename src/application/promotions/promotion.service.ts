@@ -0,0 +1,412 @@
+import {
+  Injectable,
+  Logger,
+  Inject,
+  NotFoundException,
+  BadRequestException,
+  ConflictException,
+} from '@nestjs/common';
+import { plainToClass } from 'class-transformer';
+import {
+  IPromotionRepository,
+  PromotionData,
+  PromotionUsage,
+} from './interfaces/promotion-repository.interface';
+import { IProductRepository } from '../products/interfaces/product-repository.interface';
+import {
+  CreatePromotionDto,
+  PromotionResponseDto,
+  PromotionStatsDto,
+  UpdatePromotionDto,
+} from './dto/promotion.dto';
+import { CreateOrderItemDto } from '../orders/dto/create-order.dto';
+import { Product } from '../../domain/entities/product.entity';
+import {
+  Promotion,
+  PromotionDiscount,
+  PromotionType,
+  calculatePromotionDiscount,
+} from '../../domain/entities/promotion.entity';
+
+/**
+ * Línea de carrito con el producto ya cargado
+ */
+export interface PromotableLine {
+  product: Product;
+  quantity: number;
+}
+
+/**
+ * PromotionService - Cupones, reglas de descuento y estadísticas de uso
+ *
+ * Los descuentos se calculan con el precio de catálogo, después del envío y
+ * antes de impuestos. El uso del cupón se registra con la orden
+ */
+@Injectable()
+export class PromotionService {
+  private readonly logger = new Logger(PromotionService.name);
+
+  constructor(
+    @Inject('IPromotionRepository')
+    private readonly promotionRepository: IPromotionRepository,
+    @Inject('IProductRepository')
+    private readonly productRepository: IProductRepository,
+  ) {}
+
+  /**
+   * Valida un cupón y calcula su descuento sobre los items de una orden
+   * @param code Código del cupón
+   * @param userId Usuario que lo usa
+   * @param items Items de la orden
+   * @param shippingAmount Envío a cobrar en centavos
+   * @returns Promise<PromotionDiscount> Descuento por línea y de envío
+   * @throws BadRequestException si el cupón no existe, no está vigente o no aplica
+   * @throws ConflictException si se alcanzó el límite de usos
+   */
+  async priceItems(
+    code: string,
+    userId: string,
+    items: CreateOrderItemDto[],
+    shippingAmount: number,
+  ): Promise<PromotionDiscount> {
+    return this.priceLines(
+      code,
+      userId,
+      await this.loadLines(items),
+      shippingAmount,
+    );
+  }
+
+  /**
+   * Valida un cupón y calcula su descuento con los productos ya cargados
+   * @throws BadRequestException si el cupón no existe, no está vigente o no aplica
+   * @throws ConflictException si se alcanzó el límite de usos
+   */
+  async priceLines(
+    code: string,
+    userId: string,
+    lines: PromotableLine[],
+    shippingAmount: number,
+  ): Promise<PromotionDiscount> {
+    const normalized = code.trim().toUpperCase();
+    const promotion = await this.promotionRepository.findByCode(normalized);
+    this.assertRedeemable(
+      promotion,
+      promotion
+        ? await this.promotionRepository.countUsage(promotion.id, userId)
+        : { total: 0, byUser: 0 },
+      normalized,
+    );
+
+    const discount = this.calculate(promotion, lines, shippingAmount);
+    if (!discount) {
+      throw new BadRequestException(
+        `El cupón ${normalized} requiere un pedido mínimo de ${(promotion.minOrderAmount / 100).toFixed(2)}`,
+      );
+    }
+    if (discount.total === 0) {
+      throw new BadRequestException(
+        `El cupón ${normalized} no aplica a este carrito`,
+      );
+    }
+    return discount;
+  }
+
+  /**
+   * Recalcula el descuento de una orden ya canjeada tras editar sus items
+   * Sin validar vigencia ni límites: el uso ya está registrado
+   * @returns Promise<PromotionDiscount | null> null si la promoción ya no
+   * existe o el carrito no alcanza el mínimo
+   */
+  async repriceItems(
+    promotionId: string,
+    items: CreateOrderItemDto[],
+    shippingAmount: number,
+  ): Promise<PromotionDiscount | null> {
+    const promotion = await this.promotionRepository.findById(promotionId);
+    if (!promotion) {
+      return null;
+    }
+    return this.calculate(
+      promotion,
+      await this.loadLines(items),
+      shippingAmount,
+    );
+  }
+
+  /**
+   * Verifica vigencia y límites de uso de un cupón; se repite con la
+   * promoción bloqueada al registrar el canje
+   * @throws BadRequestException si el cupón no existe o no está vigente
+   * @throws ConflictException si se alcanzó algún límite
+   */
+  assertRedeemable(
+    promotion: Promotion | null,
+    usage: PromotionUsage,
+    code = promotion?.code,
+  ): void {
+    if (!promotion || !promotion.isRunning()) {
+      throw new BadRequestException(
+        `El cupón ${code} no es válido o no está vigente`,
+      );
+    }
+
+    if (promotion.usageLimit !== null && usage.total >= promotion.usageLimit) {
+      throw new ConflictException(
+        `El cupón ${promotion.code} alcanzó su límite de usos`,
+      );
+    }
+
+    if (
+      promotion.usageLimitPerUser !== null &&
+      usage.byUser >= promotion.usageLimitPerUser
+    ) {
+      throw new ConflictException(
+        `Ya usaste el cupón ${promotion.code} el máximo de veces permitido`,
+      );
+    }
+  }
+
+  /**
+   * Lista las promociones
+   */
+  async findAll(): Promise<PromotionResponseDto[]> {
+    const promotions = await this.promotionRepository.findAll();
+    return promotions.map((promotion) => this.mapToResponseDto(promotion));
+  }
+
+  /**
+   * Obtiene una promoción
+   * @throws NotFoundException si no existe
+   */
+  async findOne(id: string): Promise<PromotionResponseDto> {
+    return this.mapToResponseDto(await this.findPromotion(id));
+  }
+
+  /**
+   * Crea una promoción
+   * @throws ConflictException si el código ya existe
+   * @throws BadRequestException si la regla es inconsistente
+   */
+  async create(dto: CreatePromotionDto): Promise<PromotionResponseDto> {
+    this.logger.log(`Creando promoción ${dto.code}`);
+
+    await this.assertCodeAvailable(dto.code);
+
+    const data: PromotionData = {
+      code: dto.code,
+      name: dto.name,
+      type: dto.type,
+      value: dto.value ?? 0,
+      category: dto.category ?? null,
+      buyQuantity: dto.buyQuantity ?? null,
+      getQuantity: dto.getQuantity ?? null,
+      minOrderAmount: dto.minOrderAmount ?? null,
+      startsAt: dto.startsAt ?? null,
+      endsAt: dto.endsAt ?? null,
+      usageLimit: dto.usageLimit ?? null,
+      usageLimitPerUser: dto.usageLimitPerUser ?? null,
+      isActive: dto.isActive ?? true,
+    };
+    this.validateRule(data);
+
+    const promotion = await this.promotionRepository.create(data);
+    return this.mapToResponseDto(promotion);
+  }
+
+  /**
+   * Actualiza una promoción (las órdenes existentes conservan su descuento)
+   * @throws NotFoundException si no existe
+   * @throws ConflictException si el código ya existe
+   */
+  async update(
+    id: string,
+    dto: UpdatePromotionDto,
+  ): Promise<PromotionResponseDto> {
+    const current = await this.findPromotion(id);
+    if (dto.code && dto.code !== current.code) {
+      await this.assertCodeAvailable(dto.code);
+    }
+    this.validateRule({ ...current, ...dto });
+
+    const promotion = await this.promotionRepository.update(id, dto);
+    if (!promotion) {
+      throw new NotFoundException(`Promoción con ID ${id} no encontrada`);
+    }
+    return this.mapToResponseDto(promotion);
+  }
+
+  /**
+   * Elimina una promoción sin usos
+   * @throws NotFoundException si no existe
+   * @throws ConflictException si ya se canjeó (se debe desactivar)
+   */
+  async remove(id: string): Promise<void> {
+    await this.findPromotion(id);
+
+    const stats = await this.promotionRepository.getRedemptionStats(id);
+    if (stats.redemptions > 0) {
+      throw new ConflictException(
+        'La promoción ya se usó en órdenes; desactívala en lugar de eliminarla',
+      );
+    }
+
+    if (!(await this.promotionRepository.delete(id))) {
+      throw new NotFoundException(`Promoción con ID ${id} no encontrada`);
+    }
+    this.logger.log(`Promoción ${id} eliminada`);
+  }
+
+  /**
+   * Estadísticas de canje de una promoción
+   * @throws NotFoundException si no existe
+   */
+  async getStats(id: string): Promise<PromotionStatsDto> {
+    const promotion = await this.findPromotion(id);
+    const stats = await this.promotionRepository.getRedemptionStats(id);
+
+    return plainToClass(
+      PromotionStatsDto,
+      {
+        promotionId: promotion.id,
+        code: promotion.code,
+        ...stats,
+        remainingUses:
+          promotion.usageLimit === null
+            ? null
+            : Math.max(promotion.usageLimit - stats.redemptions, 0),
+      },
+      { excludeExtraneousValues: true },
+    );
+  }
+
+  /**
+   * Descuento de la promoción, o null si el carrito no alcanza el mínimo
+   */
+  private calculate(
+    promotion: Promotion,
+    lines: PromotableLine[],
+    shippingAmount: number,
+  ): PromotionDiscount | null {
+    const subtotal = lines.reduce(
+      (sum, line) => sum + Math.round(line.product.price) * line.quantity,
+      0,
+    );
+    if (
+      promotion.minOrderAmount !== null &&
+      subtotal < promotion.minOrderAmount
+    ) {
+      return null;
+    }
+
+    return calculatePromotionDiscount(
+      promotion,
+      lines.map((line) => ({
+        productId: line.product.id,
+        category: line.product.category,
+        unitPrice: Math.round(line.product.price),
+        quantity: line.quantity,
+      })),
+      shippingAmount,
+    );
+  }
+
+  /**
+   * Cada tipo necesita sus parámetros
+   */
+  private validateRule(
+    promotion: Pick<
+      Promotion,
+      'type' | 'value' | 'buyQuantity' | 'getQuantity' | 'startsAt' | 'endsAt'
+    >,
+  ): void {
+    if (promotion.type === PromotionType.PERCENTAGE) {
+      if (!(promotion.value > 0 && promotion.value <= 100)) {
+        throw new BadRequestException(
+          'El porcentaje de descuento debe ser mayor a 0 y como máximo 100',
+        );
+      }
+    }
+
+    if (promotion.type === PromotionType.FIXED && !(promotion.value > 0)) {
+      throw new BadRequestException(
+        'El descuento fijo debe ser mayor a 0 centavos',
+      );
+    }
+
+    if (
+      promotion.type === PromotionType.BUY_X_GET_Y &&
+      (!promotion.buyQuantity || !promotion.getQuantity)
+    ) {
+      throw new BadRequestException(
+        'La promoción buy_x_get_y requiere buyQuantity y getQuantity',
+      );
+    }
+
+    if (
+      promotion.startsAt &&
+      promotion.endsAt &&
+      promotion.startsAt >= promotion.endsAt
+    ) {
+      throw new BadRequestException(
+        'La fecha de fin debe ser posterior a la de inicio',
+      );
+    }
+  }
+
+  private async loadLines(
+    items: CreateOrderItemDto[],
+  ): Promise<PromotableLine[]> {
+    const products = await Promise.all(
+      items.map((item) => this.productRepository.findById(item.productId)),
+    );
+
+    const missing = items.filter((_, index) => !products[index]);
+    if (missing.length > 0) {
+      throw new BadRequestException(
+        `Productos no encontrados: ${missing.map((i) => i.productId).join(', ')}`,
+      );
+    }
+
+    return items.map((item, index) => ({
+      product: products[index],
+      quantity: item.quantity,
+    }));
+  }
+
+  private async assertCodeAvailable(code: string): Promise<void> {
+    if (await this.promotionRepository.findByCode(code)) {
+      throw new ConflictException(`El código "${code}" ya está en uso`);
+    }
+  }
+
+  private async findPromotion(id: string): Promise<Promotion> {
+    if (!this.isValidUUID(id)) {
+      throw new BadRequestException('ID de promoción inválido');
+    }
+
+    const promotion = await this.promotionRepository.findById(id);
+    if (!promotion) {
+      throw new NotFoundException(`Promoción con ID ${id} no encontrada`);
+    }
+    return promotion;
+  }
+
+  /**
+   * Mapea una promoción a DTO de respuesta
+   */
+  private mapToResponseDto(promotion: Promotion): PromotionResponseDto {
+    return plainToClass(PromotionResponseDto, promotion, {
+      excludeExtraneousValues: true,
+    });
+  }
+
+  /**
+   * Valida si un string es un UUID válido
+   */
+  private isValidUUID(uuid: string): boolean {
+    const uuidRegex =
+      /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+    return uuidRegex.test(uuid);
+  }
+}
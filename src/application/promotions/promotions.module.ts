@@ -0,0 +1,25 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { PromotionService } from './promotion.service';
+import { PromotionController } from './promotion.controller';
+import { ProductModule } from '../products/product.module';
+import { Promotion } from '../../domain/entities/promotion.entity';
+import { PromotionRedemption } from '../../domain/entities/promotion-redemption.entity';
+import { PromotionRepository } from '../../infrastructure/repositories/promotion.repository';
+
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([Promotion, PromotionRedemption]),
+    ProductModule,
+  ],
+  controllers: [PromotionController],
+  providers: [
+    PromotionService,
+    {
+      provide: 'IPromotionRepository',
+      useClass: PromotionRepository,
+    },
+  ],
+  exports: [PromotionService],
+})
+export class PromotionsModule {}
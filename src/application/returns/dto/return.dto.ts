@@ -0,0 +1,155 @@
+import {
+  IsArray,
+  IsBoolean,
+  IsEnum,
+  IsString,
+  IsOptional,
+  IsNumber,
+  Min,
+  Max,
+  ValidateNested,
+  ArrayMinSize,
+  MaxLength,
+  IsNotEmpty,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  ReturnItemCondition,
+  ReturnReason,
+} from '../../../domain/entities/return-request.entity';
+import { RefundMethod } from '../../../domain/entities/refund.entity';
+
+export class ReturnItemDto {
+  @ApiProperty({
+    description: 'ID del producto de la orden a devolver',
+    example: 1,
+    minimum: 1,
+  })
+  @IsNotEmpty({ message: 'El ID del producto es obligatorio' })
+  @IsNumber({}, { message: 'El ID del producto debe ser un número válido' })
+  @Min(1, { message: 'El ID del producto debe ser mayor a 0' })
+  productId: number;
+
+  @ApiProperty({
+    description: 'Unidades a devolver',
+    example: 1,
+    minimum: 1,
+    maximum: 999,
+  })
+  @IsNotEmpty({ message: 'La cantidad es obligatoria' })
+  @IsNumber({}, { message: 'La cantidad debe ser un número válido' })
+  @Min(1, { message: 'La cantidad debe ser mayor a 0' })
+  @Max(999, { message: 'La cantidad no puede exceder 999' })
+  quantity: number;
+}
+
+export class CreateReturnDto {
+  @ApiProperty({
+    description: 'Unidades a devolver',
+    type: [ReturnItemDto],
+  })
+  @IsArray({ message: 'Los items deben ser un array' })
+  @ArrayMinSize(1, { message: 'Debe incluir al menos un item' })
+  @ValidateNested({ each: true })
+  @Type(() => ReturnItemDto)
+  items: ReturnItemDto[];
+
+  @ApiProperty({
+    description: 'Motivo de la devolución',
+    enum: ReturnReason,
+    example: ReturnReason.DAMAGED,
+  })
+  @IsEnum(ReturnReason, {
+    message: 'El motivo debe ser uno de los valores válidos',
+  })
+  reasonCode: ReturnReason;
+
+  @ApiPropertyOptional({
+    description: 'Comentario del cliente',
+    example: 'La caja llegó abierta',
+    maxLength: 500,
+  })
+  @IsOptional()
+  @IsString({ message: 'El comentario debe ser texto' })
+  @MaxLength(500, { message: 'El comentario no debe exceder 500 caracteres' })
+  comment?: string;
+}
+
+export class ReviewReturnDto {
+  @ApiPropertyOptional({
+    description: 'Nota de la revisión (se guarda en el historial)',
+    example: 'Fotos verificadas',
+    maxLength: 500,
+  })
+  @IsOptional()
+  @IsString({ message: 'La nota debe ser texto' })
+  @MaxLength(500, { message: 'La nota no debe exceder 500 caracteres' })
+  note?: string;
+}
+
+export class ReceivedItemDto {
+  @ApiProperty({ description: 'ID del producto devuelto', example: 1 })
+  @IsNotEmpty({ message: 'El ID del producto es obligatorio' })
+  @IsNumber({}, { message: 'El ID del producto debe ser un número válido' })
+  @Min(1, { message: 'El ID del producto debe ser mayor a 0' })
+  productId: number;
+
+  @ApiProperty({
+    description: 'restock vuelve al stock; damaged se descarta',
+    enum: ReturnItemCondition,
+    example: ReturnItemCondition.RESTOCK,
+  })
+  @IsEnum(ReturnItemCondition, {
+    message: 'La condición debe ser uno de los valores válidos',
+  })
+  condition: ReturnItemCondition;
+}
+
+export class ReceiveReturnDto extends ReviewReturnDto {
+  @ApiPropertyOptional({
+    description:
+      'Condición de cada producto recibido. Los omitidos vuelven al stock',
+    type: [ReceivedItemDto],
+  })
+  @IsOptional()
+  @IsArray({ message: 'Los items deben ser un array' })
+  @ValidateNested({ each: true })
+  @Type(() => ReceivedItemDto)
+  items?: ReceivedItemDto[];
+
+  @ApiPropertyOptional({
+    description: 'Reembolsar las unidades recibidas (ver refundMethod)',
+    example: true,
+    default: false,
+  })
+  @IsOptional()
+  @IsBoolean({ message: 'refund debe ser booleano' })
+  refund?: boolean;
+
+  @ApiPropertyOptional({
+    description:
+      'Destino del reembolso: original (proveedor de pagos) o store_credit (saldo a favor)',
+    enum: RefundMethod,
+    default: RefundMethod.ORIGINAL,
+  })
+  @IsOptional()
+  @IsEnum(RefundMethod, {
+    message: 'El método debe ser original o store_credit',
+  })
+  refundMethod?: RefundMethod;
+}
+
+export class RefundReturnDto {
+  @ApiPropertyOptional({
+    description:
+      'Destino del reembolso: original (proveedor de pagos) o store_credit (saldo a favor)',
+    enum: RefundMethod,
+    default: RefundMethod.ORIGINAL,
+  })
+  @IsOptional()
+  @IsEnum(RefundMethod, {
+    message: 'El método debe ser original o store_credit',
+  })
+  method?: RefundMethod;
+}
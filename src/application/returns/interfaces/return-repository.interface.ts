@@ -0,0 +1,102 @@
+import {
+  ReturnItemCondition,
+  ReturnLine,
+  ReturnReason,
+  ReturnRequest,
+  ReturnStatus,
+} from '../../../domain/entities/return-request.entity';
+
+/**
+ * Unidades de un item de la orden que todavía pueden devolverse
+ */
+export interface ReturnableLine {
+  orderItemId: number;
+  productId: number;
+  remaining: number;
+}
+
+export interface ReturnDraft {
+  items: ReturnLine[];
+  reasonCode: ReturnReason;
+  comment?: string | null;
+  requestedBy: string;
+}
+
+/**
+ * Autor y nota de un cambio de estado de la devolución
+ */
+export interface ReturnChangeContext {
+  actorId: string;
+  note?: string | null;
+}
+
+/**
+ * Abstracción del Repository Pattern para devoluciones (DIP)
+ * Las operaciones que cambian unidades bloquean la orden o la devolución
+ */
+export interface IReturnRepository {
+  /**
+   * Encuentra las devoluciones de una orden (más antigua primero)
+   * @param orderId UUID de la orden
+   * @returns Promise<ReturnRequest[]> Devoluciones de la orden
+   */
+  findByOrderId(orderId: string): Promise<ReturnRequest[]>;
+
+  /**
+   * Encuentra una devolución de una orden
+   * @param orderId UUID de la orden
+   * @param returnId UUID de la devolución
+   * @returns Promise<ReturnRequest | null> Devolución o null
+   */
+  findOne(orderId: string, returnId: string): Promise<ReturnRequest | null>;
+
+  /**
+   * Crea una devolución con la orden bloqueada (SELECT ... FOR UPDATE)
+   * El callback recibe las unidades devolvibles de cada item (descontando
+   * devoluciones no rechazadas y reembolsos) y puede lanzar excepciones
+   * @param orderId UUID de la orden
+   * @param buildDraft Valida y calcula la devolución con datos consistentes
+   * @returns Promise<ReturnRequest> Devolución en estado 'requested'
+   */
+  create(
+    orderId: string,
+    buildDraft: (returnable: ReturnableLine[]) => ReturnDraft,
+  ): Promise<ReturnRequest>;
+
+  /**
+   * Cambia el estado si la devolución sigue en el estado esperado y lo registra
+   * en su historial
+   * @param id UUID de la devolución
+   * @param from Estado esperado
+   * @param to Nuevo estado
+   * @param context Autor y nota
+   * @returns Promise<ReturnRequest | null> Devolución actualizada o null si cambió
+   */
+  updateStatus(
+    id: string,
+    from: ReturnStatus,
+    to: ReturnStatus,
+    context: ReturnChangeContext,
+  ): Promise<ReturnRequest | null>;
+
+  /**
+   * Marca una devolución aprobada como recibida en una transacción:
+   * asigna la condición de cada línea y devuelve al stock las que se reponen
+   * @param id UUID de la devolución
+   * @param conditions Condición por productId
+   * @param context Autor y nota
+   * @returns Promise<ReturnRequest | null> Devolución recibida o null si ya no estaba aprobada
+   */
+  receive(
+    id: string,
+    conditions: Map<number, ReturnItemCondition>,
+    context: ReturnChangeContext,
+  ): Promise<ReturnRequest | null>;
+
+  /**
+   * Asocia el reembolso generado por la devolución
+   * @param id UUID de la devolución
+   * @param refundId UUID del reembolso
+   */
+  setRefund(id: string, refundId: string): Promise<void>;
+}
@@ -0,0 +1,287 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Patch,
+  Body,
+  Param,
+  UseGuards,
+  HttpCode,
+  HttpStatus,
+  Logger,
+  ValidationPipe,
+  Request,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiParam,
+} from '@nestjs/swagger';
+import { ReturnService } from './return.service';
+import {
+  CreateReturnDto,
+  ReceiveReturnDto,
+  RefundReturnDto,
+  ReviewReturnDto,
+} from './dto/return.dto';
+import { OrderReturnDto } from '../orders/dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { UserRole } from '../../domain/entities/user.entity';
+
+/**
+ * ReturnController - Devoluciones (RMA) de órdenes entregadas
+ */
+@ApiTags('Órdenes')
+@Controller('orders')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@ApiBearerAuth()
+export class ReturnController {
+  private readonly logger = new Logger(ReturnController.name);
+
+  constructor(private readonly returnService: ReturnService) {}
+
+  /**
+   * Listar devoluciones de una orden
+   */
+  @Get(':id/returns')
+  @Roles(UserRole.ADMIN, UserRole.CLIENT)
+  @ApiOperation({
+    summary: 'Devoluciones de la orden',
+    description:
+      'Devoluciones con su estado e historial. Los clientes solo ven sus propias órdenes.',
+  })
+  @ApiParam({ name: 'id', type: 'string', description: 'ID de la orden' })
+  @ApiResponse({
+    status: 200,
+    description: 'Devoluciones de la orden',
+    type: [OrderReturnDto],
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'No tienes permisos para acceder a esta orden',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Orden no encontrada',
+  })
+  async findAll(
+    @Param('id') id: string,
+    @Request() req: any,
+  ): Promise<OrderReturnDto[]> {
+    const userRole = req.user.role;
+    const currentUserId = req.user.sub;
+
+    return this.returnService.findByOrder(id, userRole, currentUserId);
+  }
+
+  /**
+   * Solicitar devolución
+   */
+  @Post(':id/returns')
+  @Roles(UserRole.CLIENT, UserRole.ADMIN)
+  @HttpCode(HttpStatus.CREATED)
+  @ApiOperation({
+    summary: 'Solicitar devolución',
+    description:
+      'Solicita la devolución de unidades de una orden entregada dentro del plazo de devolución.',
+  })
+  @ApiParam({ name: 'id', type: 'string', description: 'ID de la orden' })
+  @ApiResponse({
+    status: 201,
+    description: 'Devolución solicitada',
+    type: OrderReturnDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Datos de entrada inválidos o productos ajenos a la orden',
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'No tienes permisos para acceder a esta orden',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Orden no encontrada',
+  })
+  @ApiResponse({
+    status: 409,
+    description:
+      'La orden no fue entregada, venció el plazo o las unidades superan lo devolvible',
+  })
+  async create(
+    @Param('id') id: string,
+    @Body(ValidationPipe) createReturnDto: CreateReturnDto,
+    @Request() req: any,
+  ): Promise<OrderReturnDto> {
+    const userRole = req.user.role;
+    const currentUserId = req.user.sub;
+
+    this.logger.log(`Usuario ${currentUserId} solicitando devolución de ${id}`);
+    return this.returnService.create(
+      id,
+      createReturnDto,
+      userRole,
+      currentUserId,
+    );
+  }
+
+  /**
+   * Aprobar devolución (Solo Admin)
+   */
+  @Patch(':id/returns/:returnId/approve')
+  @Roles(UserRole.ADMIN)
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Aprobar devolución' })
+  @ApiParam({ name: 'id', type: 'string', description: 'ID de la orden' })
+  @ApiParam({
+    name: 'returnId',
+    type: 'string',
+    description: 'ID de la devolución',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Devolución aprobada',
+    type: OrderReturnDto,
+  })
+  @ApiResponse({
+    status: 409,
+    description: 'La devolución no está en estado requested',
+  })
+  async approve(
+    @Param('id') id: string,
+    @Param('returnId') returnId: string,
+    @Body(ValidationPipe) reviewReturnDto: ReviewReturnDto,
+    @Request() req: any,
+  ): Promise<OrderReturnDto> {
+    return this.returnService.approve(
+      id,
+      returnId,
+      reviewReturnDto,
+      req.user.role,
+      req.user.sub,
+    );
+  }
+
+  /**
+   * Rechazar devolución (Solo Admin)
+   */
+  @Patch(':id/returns/:returnId/reject')
+  @Roles(UserRole.ADMIN)
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Rechazar devolución' })
+  @ApiParam({ name: 'id', type: 'string', description: 'ID de la orden' })
+  @ApiParam({
+    name: 'returnId',
+    type: 'string',
+    description: 'ID de la devolución',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Devolución rechazada',
+    type: OrderReturnDto,
+  })
+  @ApiResponse({
+    status: 409,
+    description: 'La devolución no está en estado requested',
+  })
+  async reject(
+    @Param('id') id: string,
+    @Param('returnId') returnId: string,
+    @Body(ValidationPipe) reviewReturnDto: ReviewReturnDto,
+    @Request() req: any,
+  ): Promise<OrderReturnDto> {
+    return this.returnService.reject(
+      id,
+      returnId,
+      reviewReturnDto,
+      req.user.role,
+      req.user.sub,
+    );
+  }
+
+  /**
+   * Recibir devolución (Solo Admin)
+   */
+  @Patch(':id/returns/:returnId/receive')
+  @Roles(UserRole.ADMIN)
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Recibir devolución',
+    description:
+      'Registra la recepción: cada producto vuelve al stock o se marca dañado. Con refund=true también se reembolsa.',
+  })
+  @ApiParam({ name: 'id', type: 'string', description: 'ID de la orden' })
+  @ApiParam({
+    name: 'returnId',
+    type: 'string',
+    description: 'ID de la devolución',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Devolución recibida',
+    type: OrderReturnDto,
+  })
+  @ApiResponse({
+    status: 409,
+    description: 'La devolución no está aprobada',
+  })
+  async receive(
+    @Param('id') id: string,
+    @Param('returnId') returnId: string,
+    @Body(ValidationPipe) receiveReturnDto: ReceiveReturnDto,
+    @Request() req: any,
+  ): Promise<OrderReturnDto> {
+    return this.returnService.receive(
+      id,
+      returnId,
+      receiveReturnDto,
+      req.user.role,
+      req.user.sub,
+    );
+  }
+
+  /**
+   * Reembolsar devolución recibida (Solo Admin)
+   */
+  @Post(':id/returns/:returnId/refund')
+  @Roles(UserRole.ADMIN)
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Reembolsar devolución',
+    description:
+      'Reembolsa las unidades de una devolución recibida que aún no fue reembolsada, por el proveedor de pagos o como saldo a favor.',
+  })
+  @ApiParam({ name: 'id', type: 'string', description: 'ID de la orden' })
+  @ApiParam({
+    name: 'returnId',
+    type: 'string',
+    description: 'ID de la devolución',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Devolución reembolsada',
+    type: OrderReturnDto,
+  })
+  @ApiResponse({
+    status: 409,
+    description: 'La devolución no está recibida o ya fue reembolsada',
+  })
+  async refund(
+    @Param('id') id: string,
+    @Param('returnId') returnId: string,
+    @Body(ValidationPipe) refundReturnDto: RefundReturnDto,
+    @Request() req: any,
+  ): Promise<OrderReturnDto> {
+    return this.returnService.refund(
+      id,
+      returnId,
+      req.user.role,
+      req.user.sub,
+      refundReturnDto.method,
+    );
+  }
+}
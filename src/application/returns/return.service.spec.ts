@@ -0,0 +1,243 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { ConflictException, ForbiddenException } from '@nestjs/common';
+import { ReturnService } from './return.service';
+import { RefundService } from '../payments/refund.service';
+import { OrderStatus } from '../../domain/entities/order.entity';
+import {
+  ReturnItemCondition,
+  ReturnReason,
+  ReturnStatus,
+} from '../../domain/entities/return-request.entity';
+import { UserRole } from '../../domain/entities/user.entity';
+
+describe('ReturnService', () => {
+  let service: ReturnService;
+
+  const orderId = '550e8400-e29b-41d4-a716-446655440000';
+  const returnId = '550e8400-e29b-41d4-a716-446655440020';
+  const refundId = '550e8400-e29b-41d4-a716-446655440030';
+  const clientId = '550e8400-e29b-41d4-a716-446655440001';
+  const adminId = '550e8400-e29b-41d4-a716-446655440003';
+
+  const deliveredOrder: any = {
+    id: orderId,
+    userId: clientId,
+    status: OrderStatus.DELIVERED,
+  };
+
+  const returnable = [
+    { orderItemId: 1, productId: 10, remaining: 2 },
+    { orderItemId: 2, productId: 20, remaining: 0 },
+  ];
+
+  const daysAgo = (days: number) =>
+    new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+
+  const mockOrderRepository = {
+    findById: jest.fn(),
+    findStatusHistory: jest.fn(),
+  };
+
+  const mockReturnRepository = {
+    findByOrderId: jest.fn(),
+    findOne: jest.fn(),
+    create: jest.fn(),
+    updateStatus: jest.fn(),
+    receive: jest.fn(),
+    setRefund: jest.fn(),
+  };
+
+  const mockRefundService = {
+    refund: jest.fn(),
+  };
+
+  const mockConfigService = {
+    get: jest.fn((key: string, defaultValue?: any) => defaultValue),
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ReturnService,
+        { provide: 'IOrderRepository', useValue: mockOrderRepository },
+        { provide: 'IReturnRepository', useValue: mockReturnRepository },
+        { provide: RefundService, useValue: mockRefundService },
+        { provide: ConfigService, useValue: mockConfigService },
+      ],
+    }).compile();
+
+    service = module.get<ReturnService>(ReturnService);
+
+    jest.clearAllMocks();
+
+    // El repositorio ejecuta el callback con las unidades devolvibles
+    mockReturnRepository.create.mockImplementation(
+      async (_orderId, buildDraft) => ({
+        id: returnId,
+        orderId,
+        status: ReturnStatus.REQUESTED,
+        history: [],
+        refundId: null,
+        ...buildDraft(returnable),
+      }),
+    );
+  });
+
+  describe('create', () => {
+    it('should open a return inside the return window', async () => {
+      // Arrange
+      mockOrderRepository.findById.mockResolvedValue(deliveredOrder);
+      mockOrderRepository.findStatusHistory.mockResolvedValue([
+        { toStatus: OrderStatus.DELIVERED, createdAt: daysAgo(5) },
+      ]);
+
+      // Act
+      const result = await service.create(
+        orderId,
+        {
+          items: [{ productId: 10, quantity: 1 }],
+          reasonCode: ReturnReason.DAMAGED,
+        },
+        UserRole.CLIENT,
+        clientId,
+      );
+
+      // Assert
+      expect(result.status).toBe(ReturnStatus.REQUESTED);
+      expect(result.items).toEqual([
+        expect.objectContaining({ productId: 10, quantity: 1 }),
+      ]);
+    });
+
+    it('should reject returns after the return window', async () => {
+      // Arrange
+      mockOrderRepository.findById.mockResolvedValue(deliveredOrder);
+      mockOrderRepository.findStatusHistory.mockResolvedValue([
+        { toStatus: OrderStatus.DELIVERED, createdAt: daysAgo(31) },
+      ]);
+
+      // Act & Assert
+      await expect(
+        service.create(
+          orderId,
+          {
+            items: [{ productId: 10, quantity: 1 }],
+            reasonCode: ReturnReason.NO_LONGER_NEEDED,
+          },
+          UserRole.CLIENT,
+          clientId,
+        ),
+      ).rejects.toThrow(ConflictException);
+      expect(mockReturnRepository.create).not.toHaveBeenCalled();
+    });
+
+    it('should reject more units than returnable', async () => {
+      // Arrange
+      mockOrderRepository.findById.mockResolvedValue(deliveredOrder);
+      mockOrderRepository.findStatusHistory.mockResolvedValue([
+        { toStatus: OrderStatus.DELIVERED, createdAt: daysAgo(1) },
+      ]);
+
+      // Act & Assert
+      await expect(
+        service.create(
+          orderId,
+          {
+            items: [{ productId: 20, quantity: 1 }],
+            reasonCode: ReturnReason.WRONG_ITEM,
+          },
+          UserRole.CLIENT,
+          clientId,
+        ),
+      ).rejects.toThrow(ConflictException);
+    });
+
+    it('should throw ForbiddenException for orders of another client', async () => {
+      // Arrange
+      mockOrderRepository.findById.mockResolvedValue({
+        ...deliveredOrder,
+        userId: '550e8400-e29b-41d4-a716-446655440099',
+      });
+
+      // Act & Assert
+      await expect(
+        service.create(
+          orderId,
+          {
+            items: [{ productId: 10, quantity: 1 }],
+            reasonCode: ReturnReason.OTHER,
+          },
+          UserRole.CLIENT,
+          clientId,
+        ),
+      ).rejects.toThrow(ForbiddenException);
+    });
+  });
+
+  describe('receive', () => {
+    const approvedReturn: any = {
+      id: returnId,
+      orderId,
+      status: ReturnStatus.APPROVED,
+      refundId: null,
+      items: [{ orderItemId: 1, productId: 10, quantity: 2 }],
+    };
+
+    it('should receive damaged units and refund them without restocking', async () => {
+      // Arrange
+      mockReturnRepository.findOne.mockResolvedValue(approvedReturn);
+      mockReturnRepository.receive.mockResolvedValue({
+        ...approvedReturn,
+        status: ReturnStatus.RECEIVED,
+      });
+      mockRefundService.refund.mockResolvedValue({ id: refundId });
+
+      // Act
+      const result = await service.receive(
+        orderId,
+        returnId,
+        {
+          items: [{ productId: 10, condition: ReturnItemCondition.DAMAGED }],
+          refund: true,
+        },
+        UserRole.ADMIN,
+        adminId,
+      );
+
+      // Assert
+      expect(mockReturnRepository.receive).toHaveBeenCalledWith(
+        returnId,
+        new Map([[10, ReturnItemCondition.DAMAGED]]),
+        { actorId: adminId, note: undefined },
+      );
+      expect(mockRefundService.refund).toHaveBeenCalledWith(
+        orderId,
+        expect.objectContaining({ items: [{ productId: 10, quantity: 2 }] }),
+        UserRole.ADMIN,
+        adminId,
+        { restock: false },
+      );
+      expect(mockReturnRepository.setRefund).toHaveBeenCalledWith(
+        returnId,
+        refundId,
+      );
+      expect(result.refundId).toBe(refundId);
+    });
+
+    it('should not receive returns that are not approved', async () => {
+      // Arrange
+      mockReturnRepository.findOne.mockResolvedValue({
+        ...approvedReturn,
+        status: ReturnStatus.REQUESTED,
+      });
+      mockReturnRepository.receive.mockResolvedValue(null);
+
+      // Act & Assert
+      await expect(
+        service.receive(orderId, returnId, {}, UserRole.ADMIN, adminId),
+      ).rejects.toThrow(ConflictException);
+      expect(mockRefundService.refund).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,449 @@
+import {
+  Injectable,
+  Logger,
+  Inject,
+  NotFoundException,
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { plainToClass } from 'class-transformer';
+import { IOrderRepository } from '../orders/interfaces/order-repository.interface';
+import {
+  IReturnRepository,
+  ReturnableLine,
+  ReturnDraft,
+} from './interfaces/return-repository.interface';
+import {
+  CreateReturnDto,
+  ReceiveReturnDto,
+  ReviewReturnDto,
+} from './dto/return.dto';
+import { OrderReturnDto } from '../orders/dto';
+import { RefundService } from '../payments/refund.service';
+import { Order, OrderStatus } from '../../domain/entities/order.entity';
+import {
+  ReturnItemCondition,
+  ReturnLine,
+  ReturnRequest,
+  ReturnStatus,
+} from '../../domain/entities/return-request.entity';
+import { RefundMethod } from '../../domain/entities/refund.entity';
+import { UserRole } from '../../domain/entities/user.entity';
+
+/**
+ * ReturnService - Devoluciones (RMA) de órdenes entregadas
+ *
+ * Flujo:
+ * 1. El cliente solicita la devolución dentro del plazo (RETURN_WINDOW_DAYS)
+ * 2. Un administrador la aprueba o rechaza
+ * 3. Al recibirla, cada unidad vuelve al stock o se marca dañada y,
+ *    opcionalmente, se reembolsa sin volver a tocar el stock
+ */
+@Injectable()
+export class ReturnService {
+  private readonly logger = new Logger(ReturnService.name);
+
+  private static readonly RETURNABLE_STATUSES = [
+    OrderStatus.DELIVERED,
+    OrderStatus.PARTIALLY_REFUNDED,
+  ];
+
+  constructor(
+    @Inject('IOrderRepository')
+    private readonly orderRepository: IOrderRepository,
+    @Inject('IReturnRepository')
+    private readonly returnRepository: IReturnRepository,
+    private readonly refundService: RefundService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  /**
+   * Lista las devoluciones de una orden
+   * @param orderId UUID de la orden
+   * @param userRole Rol del usuario
+   * @param currentUserId ID del usuario actual
+   * @returns Promise<OrderReturnDto[]> Devoluciones con su historial
+   * @throws NotFoundException si la orden no existe
+   * @throws ForbiddenException si el cliente intenta acceder a orden ajena
+   */
+  async findByOrder(
+    orderId: string,
+    userRole: UserRole,
+    currentUserId?: string,
+  ): Promise<OrderReturnDto[]> {
+    const order = await this.findOrder(orderId);
+    this.assertOwnerOrAdmin(order, userRole, currentUserId);
+
+    const returns = await this.returnRepository.findByOrderId(orderId);
+    return returns.map((returnRequest) => this.mapToReturnDto(returnRequest));
+  }
+
+  /**
+   * Solicita la devolución de unidades de una orden entregada
+   * @param orderId UUID de la orden
+   * @param dto Unidades, motivo y comentario
+   * @param userRole Rol del usuario
+   * @param currentUserId ID del usuario que solicita
+   * @returns Promise<OrderReturnDto> Devolución en estado 'requested'
+   * @throws ForbiddenException si el cliente intenta devolver una orden ajena
+   * @throws ConflictException si la orden no fue entregada, venció el plazo o
+   * se supera lo devolvible
+   */
+  async create(
+    orderId: string,
+    dto: CreateReturnDto,
+    userRole: UserRole,
+    currentUserId: string,
+  ): Promise<OrderReturnDto> {
+    this.logger.log(`Solicitando devolución de orden ${orderId}`);
+
+    const order = await this.findOrder(orderId);
+    this.assertOwnerOrAdmin(order, userRole, currentUserId);
+
+    if (!ReturnService.RETURNABLE_STATUSES.includes(order.status)) {
+      throw new ConflictException(
+        `No se puede devolver una orden en estado ${order.status}`,
+      );
+    }
+
+    await this.assertWithinReturnWindow(orderId);
+
+    const returnRequest = await this.returnRepository.create(
+      orderId,
+      (returnable) => this.buildReturnDraft(returnable, dto, currentUserId),
+    );
+
+    this.logger.log(
+      `Devolución ${returnRequest.id} solicitada para orden ${orderId}`,
+    );
+    return this.mapToReturnDto(returnRequest);
+  }
+
+  /**
+   * Aprueba una devolución solicitada
+   */
+  async approve(
+    orderId: string,
+    returnId: string,
+    dto: ReviewReturnDto,
+    userRole: UserRole,
+    currentUserId: string,
+  ): Promise<OrderReturnDto> {
+    return this.review(
+      orderId,
+      returnId,
+      ReturnStatus.APPROVED,
+      dto,
+      userRole,
+      currentUserId,
+    );
+  }
+
+  /**
+   * Rechaza una devolución solicitada; sus unidades vuelven a ser devolvibles
+   */
+  async reject(
+    orderId: string,
+    returnId: string,
+    dto: ReviewReturnDto,
+    userRole: UserRole,
+    currentUserId: string,
+  ): Promise<OrderReturnDto> {
+    return this.review(
+      orderId,
+      returnId,
+      ReturnStatus.REJECTED,
+      dto,
+      userRole,
+      currentUserId,
+    );
+  }
+
+  /**
+   * Registra la recepción de una devolución aprobada
+   * @param orderId UUID de la orden
+   * @param returnId UUID de la devolución
+   * @param dto Condición por producto, nota y si se reembolsa
+   * @param userRole Rol del usuario
+   * @param currentUserId ID del administrador
+   * @returns Promise<OrderReturnDto> Devolución recibida
+   * @throws BadRequestException si un producto no pertenece a la devolución
+   * @throws ConflictException si la devolución no está aprobada
+   */
+  async receive(
+    orderId: string,
+    returnId: string,
+    dto: ReceiveReturnDto,
+    userRole: UserRole,
+    currentUserId: string,
+  ): Promise<OrderReturnDto> {
+    this.logger.log(`Recibiendo devolución ${returnId} de orden ${orderId}`);
+
+    const returnRequest = await this.findReturnForAdmin(
+      orderId,
+      returnId,
+      userRole,
+    );
+
+    const conditions = new Map<number, ReturnItemCondition>();
+    for (const item of dto.items ?? []) {
+      if (!returnRequest.items.some((l) => l.productId === item.productId)) {
+        throw new BadRequestException(
+          `El producto ${item.productId} no pertenece a la devolución`,
+        );
+      }
+      conditions.set(item.productId, item.condition);
+    }
+
+    const received = await this.returnRepository.receive(returnId, conditions, {
+      actorId: currentUserId,
+      note: dto.note,
+    });
+    if (!received) {
+      throw new ConflictException(
+        `Solo se pueden recibir devoluciones aprobadas (estado actual: ${returnRequest.status})`,
+      );
+    }
+
+    if (dto.refund) {
+      return this.refundReturn(received, currentUserId, dto.refundMethod);
+    }
+
+    return this.mapToReturnDto(received);
+  }
+
+  /**
+   * Reembolsa una devolución recibida (p. ej. si el reembolso falló al recibirla)
+   * @throws ConflictException si no está recibida o ya fue reembolsada
+   */
+  async refund(
+    orderId: string,
+    returnId: string,
+    userRole: UserRole,
+    currentUserId: string,
+    method?: RefundMethod,
+  ): Promise<OrderReturnDto> {
+    const returnRequest = await this.findReturnForAdmin(
+      orderId,
+      returnId,
+      userRole,
+    );
+
+    if (returnRequest.status !== ReturnStatus.RECEIVED) {
+      throw new ConflictException(
+        'Solo se pueden reembolsar devoluciones recibidas',
+      );
+    }
+
+    return this.refundReturn(returnRequest, currentUserId, method);
+  }
+
+  /**
+   * Reembolsa las unidades de la devolución sin volver a reponer stock
+   * (las unidades en buen estado ya se repusieron al recibirla)
+   */
+  private async refundReturn(
+    returnRequest: ReturnRequest,
+    currentUserId: string,
+    method?: RefundMethod,
+  ): Promise<OrderReturnDto> {
+    if (returnRequest.refundId) {
+      throw new ConflictException('La devolución ya fue reembolsada');
+    }
+
+    const refund = await this.refundService.refund(
+      returnRequest.orderId,
+      {
+        items: returnRequest.items.map((line) => ({
+          productId: line.productId,
+          quantity: line.quantity,
+        })),
+        reason: `Devolución ${returnRequest.id}`,
+        method,
+      },
+      UserRole.ADMIN,
+      currentUserId,
+      { restock: false },
+    );
+
+    await this.returnRepository.setRefund(returnRequest.id, refund.id);
+    returnRequest.refundId = refund.id;
+
+    this.logger.log(
+      `Devolución ${returnRequest.id} reembolsada con ${refund.id}`,
+    );
+    return this.mapToReturnDto(returnRequest);
+  }
+
+  private async review(
+    orderId: string,
+    returnId: string,
+    to: ReturnStatus.APPROVED | ReturnStatus.REJECTED,
+    dto: ReviewReturnDto,
+    userRole: UserRole,
+    currentUserId: string,
+  ): Promise<OrderReturnDto> {
+    this.logger.log(`Devolución ${returnId} de orden ${orderId} → ${to}`);
+
+    const returnRequest = await this.findReturnForAdmin(
+      orderId,
+      returnId,
+      userRole,
+    );
+
+    const updated = await this.returnRepository.updateStatus(
+      returnId,
+      ReturnStatus.REQUESTED,
+      to,
+      { actorId: currentUserId, note: dto.note },
+    );
+    if (!updated) {
+      throw new ConflictException(
+        `Solo se pueden revisar devoluciones solicitadas (estado actual: ${returnRequest.status})`,
+      );
+    }
+
+    return this.mapToReturnDto(updated);
+  }
+
+  /**
+   * El plazo se cuenta desde la última vez que la orden pasó a Delivered
+   */
+  private async assertWithinReturnWindow(orderId: string): Promise<void> {
+    const history = await this.orderRepository.findStatusHistory(orderId);
+    const delivered = [...history]
+      .reverse()
+      .find((entry) => entry.toStatus === OrderStatus.DELIVERED);
+    if (!delivered) {
+      throw new ConflictException('Solo se pueden devolver órdenes entregadas');
+    }
+
+    const windowDays = this.configService.get<number>('RETURN_WINDOW_DAYS', 30);
+    const deadline = new Date(delivered.createdAt);
+    deadline.setDate(deadline.getDate() + windowDays);
+
+    if (new Date() > deadline) {
+      throw new ConflictException(
+        `El plazo de devolución de ${windowDays} días ya venció`,
+      );
+    }
+  }
+
+  /**
+   * Calcula las líneas de la devolución a partir de las unidades devolvibles
+   * Se ejecuta con la orden bloqueada, por lo que los acumulados son consistentes
+   */
+  private buildReturnDraft(
+    returnable: ReturnableLine[],
+    dto: CreateReturnDto,
+    requestedBy: string,
+  ): ReturnDraft {
+    const productIds = dto.items.map((item) => item.productId);
+    if (new Set(productIds).size !== productIds.length) {
+      throw new BadRequestException(
+        'No se pueden incluir productos duplicados en una devolución',
+      );
+    }
+
+    const lines: ReturnLine[] = dto.items.map((item) => {
+      const line = returnable.find((r) => r.productId === item.productId);
+      if (!line) {
+        throw new BadRequestException(
+          `El producto ${item.productId} no pertenece a la orden`,
+        );
+      }
+
+      if (item.quantity > line.remaining) {
+        throw new ConflictException(
+          `Solo quedan ${Math.max(line.remaining, 0)} unidades devolvibles del producto ${item.productId}`,
+        );
+      }
+
+      return {
+        orderItemId: line.orderItemId,
+        productId: line.productId,
+        quantity: item.quantity,
+      };
+    });
+
+    return {
+      items: lines,
+      reasonCode: dto.reasonCode,
+      comment: dto.comment ?? null,
+      requestedBy,
+    };
+  }
+
+  private async findReturnForAdmin(
+    orderId: string,
+    returnId: string,
+    userRole: UserRole,
+  ): Promise<ReturnRequest> {
+    if (userRole !== UserRole.ADMIN) {
+      throw new ForbiddenException(
+        'Solo los administradores pueden gestionar devoluciones',
+      );
+    }
+
+    if (!this.isValidUUID(orderId) || !this.isValidUUID(returnId)) {
+      throw new BadRequestException('ID de orden o devolución inválido');
+    }
+
+    const returnRequest = await this.returnRepository.findOne(
+      orderId,
+      returnId,
+    );
+    if (!returnRequest) {
+      throw new NotFoundException(
+        `Devolución con ID ${returnId} no encontrada`,
+      );
+    }
+    return returnRequest;
+  }
+
+  private async findOrder(orderId: string): Promise<Order> {
+    if (!this.isValidUUID(orderId)) {
+      throw new BadRequestException('ID de orden inválido');
+    }
+
+    const order = await this.orderRepository.findById(orderId);
+    if (!order) {
+      throw new NotFoundException(`Orden con ID ${orderId} no encontrada`);
+    }
+    return order;
+  }
+
+  private assertOwnerOrAdmin(
+    order: Order,
+    userRole: UserRole,
+    currentUserId?: string,
+  ): void {
+    if (userRole === UserRole.CLIENT) {
+      if (!currentUserId || order.userId !== currentUserId) {
+        throw new ForbiddenException(
+          'No tienes permisos para acceder a esta orden',
+        );
+      }
+    }
+  }
+
+  /**
+   * Mapea una devolución a DTO de respuesta
+   */
+  private mapToReturnDto(returnRequest: ReturnRequest): OrderReturnDto {
+    return plainToClass(OrderReturnDto, returnRequest, {
+      excludeExtraneousValues: true,
+    });
+  }
+
+  /**
+   * Valida si un string es un UUID válido
+   */
+  private isValidUUID(uuid: string): boolean {
+    const uuidRegex =
+      /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+    return uuidRegex.test(uuid);
+  }
+}
@@ -0,0 +1,26 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { ReturnService } from './return.service';
+import { ReturnController } from './return.controller';
+import { ReturnRequest } from '../../domain/entities/return-request.entity';
+import { OrderModule } from '../orders/order.module';
+import { PaymentsModule } from '../payments/payments.module';
+import { ReturnRepository } from '../../infrastructure/repositories/return.repository';
+
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([ReturnRequest]),
+    OrderModule,
+    PaymentsModule,
+  ],
+  controllers: [ReturnController],
+  providers: [
+    ReturnService,
+    {
+      provide: 'IReturnRepository',
+      useClass: ReturnRepository,
+    },
+  ],
+  exports: [ReturnService],
+})
+export class ReturnsModule {}
@@ -0,0 +1,111 @@
+import {
+  IsArray,
+  IsEnum,
+  IsString,
+  IsOptional,
+  IsNumber,
+  Min,
+  Max,
+  ValidateNested,
+  ArrayMinSize,
+  MaxLength,
+  IsNotEmpty,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { ShipmentStatus } from '../../../domain/entities/shipment.entity';
+
+export class ShipmentItemDto {
+  @ApiProperty({
+    description: 'ID del producto de la orden a enviar',
+    example: 1,
+    minimum: 1,
+  })
+  @IsNotEmpty({ message: 'El ID del producto es obligatorio' })
+  @IsNumber({}, { message: 'El ID del producto debe ser un número válido' })
+  @Min(1, { message: 'El ID del producto debe ser mayor a 0' })
+  productId: number;
+
+  @ApiProperty({
+    description: 'Unidades a enviar',
+    example: 1,
+    minimum: 1,
+    maximum: 999,
+  })
+  @IsNotEmpty({ message: 'La cantidad es obligatoria' })
+  @IsNumber({}, { message: 'La cantidad debe ser un número válido' })
+  @Min(1, { message: 'La cantidad debe ser mayor a 0' })
+  @Max(999, { message: 'La cantidad no puede exceder 999' })
+  quantity: number;
+}
+
+export class CreateShipmentDto {
+  @ApiProperty({
+    description: 'Transportista',
+    example: 'UPS',
+    maxLength: 50,
+  })
+  @IsNotEmpty({ message: 'El transportista es obligatorio' })
+  @IsString({ message: 'El transportista debe ser texto' })
+  @MaxLength(50, { message: 'El transportista no debe exceder 50 caracteres' })
+  carrier: string;
+
+  @ApiProperty({
+    description: 'Número de seguimiento',
+    example: '1Z999AA10123456784',
+    maxLength: 100,
+  })
+  @IsNotEmpty({ message: 'El número de seguimiento es obligatorio' })
+  @IsString({ message: 'El número de seguimiento debe ser texto' })
+  @MaxLength(100, {
+    message: 'El número de seguimiento no debe exceder 100 caracteres',
+  })
+  trackingNumber: string;
+
+  @ApiPropertyOptional({
+    description:
+      'Unidades a enviar. Si se omite se envía todo lo pendiente de la orden',
+    type: [ShipmentItemDto],
+  })
+  @IsOptional()
+  @IsArray({ message: 'Los items deben ser un array' })
+  @ArrayMinSize(1, { message: 'Debe incluir al menos un item' })
+  @ValidateNested({ each: true })
+  @Type(() => ShipmentItemDto)
+  items?: ShipmentItemDto[];
+}
+
+export class UpdateShipmentDto {
+  @ApiPropertyOptional({
+    description: 'Transportista',
+    example: 'FedEx',
+    maxLength: 50,
+  })
+  @IsOptional()
+  @IsString({ message: 'El transportista debe ser texto' })
+  @MaxLength(50, { message: 'El transportista no debe exceder 50 caracteres' })
+  carrier?: string;
+
+  @ApiPropertyOptional({
+    description: 'Número de seguimiento',
+    example: '7489201348',
+    maxLength: 100,
+  })
+  @IsOptional()
+  @IsString({ message: 'El número de seguimiento debe ser texto' })
+  @MaxLength(100, {
+    message: 'El número de seguimiento no debe exceder 100 caracteres',
+  })
+  trackingNumber?: string;
+
+  @ApiPropertyOptional({
+    description: 'Estado del envío (delivered registra la fecha de entrega)',
+    enum: ShipmentStatus,
+    example: ShipmentStatus.DELIVERED,
+  })
+  @IsOptional()
+  @IsEnum(ShipmentStatus, {
+    message: 'El estado debe ser uno de los valores válidos',
+  })
+  status?: ShipmentStatus;
+}
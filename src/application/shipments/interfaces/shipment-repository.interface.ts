@@ -0,0 +1,71 @@
+import {
+  Shipment,
+  ShipmentLine,
+  ShipmentStatus,
+} from '../../../domain/entities/shipment.entity';
+
+/**
+ * Unidades de un item de la orden que todavía no se enviaron
+ */
+export interface PendingShipmentLine {
+  orderItemId: number;
+  productId: number;
+  remaining: number;
+}
+
+export interface ShipmentDraft {
+  carrier: string;
+  trackingNumber: string;
+  items: ShipmentLine[];
+  createdBy: string;
+}
+
+export interface UpdateShipmentData {
+  carrier?: string;
+  trackingNumber?: string;
+  status?: ShipmentStatus;
+  deliveredAt?: Date | null;
+}
+
+/**
+ * Abstracción del Repository Pattern para Shipments (DIP)
+ * La creación bloquea la orden para que envíos concurrentes no superen lo pedido
+ */
+export interface IShipmentRepository {
+  /**
+   * Encuentra los envíos de una orden (más antiguo primero)
+   * @param orderId UUID de la orden
+   * @returns Promise<Shipment[]> Envíos de la orden
+   */
+  findByOrderId(orderId: string): Promise<Shipment[]>;
+
+  /**
+   * Encuentra un envío de una orden
+   * @param orderId UUID de la orden
+   * @param shipmentId UUID del envío
+   * @returns Promise<Shipment | null> Envío encontrado o null
+   */
+  findOne(orderId: string, shipmentId: string): Promise<Shipment | null>;
+
+  /**
+   * Crea un envío con la orden bloqueada (SELECT ... FOR UPDATE)
+   * El callback recibe las unidades pendientes de envío de cada item (descontando
+   * envíos previos y reembolsos) y devuelve el envío a guardar; puede lanzar
+   * excepciones para rechazarlo
+   * @param orderId UUID de la orden
+   * @param buildDraft Valida y calcula el envío con datos consistentes
+   * @returns Promise<Shipment> Envío creado
+   */
+  create(
+    orderId: string,
+    buildDraft: (pending: PendingShipmentLine[]) => ShipmentDraft,
+  ): Promise<Shipment>;
+
+  /**
+   * Actualiza transportista, seguimiento o estado de un envío
+   * @param id UUID del envío
+   * @param data Campos a actualizar
+   * @returns Promise<Shipment | null> Envío actualizado o null si no existe
+   */
+  update(id: string, data: UpdateShipmentData): Promise<Shipment | null>;
+}
@@ -0,0 +1,179 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Patch,
+  Body,
+  Param,
+  UseGuards,
+  HttpCode,
+  HttpStatus,
+  Logger,
+  ValidationPipe,
+  Request,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiParam,
+} from '@nestjs/swagger';
+import { ShipmentService } from './shipment.service';
+import { CreateShipmentDto, UpdateShipmentDto } from './dto/shipment.dto';
+import { OrderShipmentDto } from '../orders/dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { UserRole } from '../../domain/entities/user.entity';
+
+/**
+ * ShipmentController - Envíos y seguimiento de órdenes
+ */
+@ApiTags('Órdenes')
+@Controller('orders')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@ApiBearerAuth()
+export class ShipmentController {
+  private readonly logger = new Logger(ShipmentController.name);
+
+  constructor(private readonly shipmentService: ShipmentService) {}
+
+  /**
+   * Listar envíos de una orden
+   */
+  @Get(':id/shipments')
+  @Roles(UserRole.ADMIN, UserRole.CLIENT)
+  @ApiOperation({
+    summary: 'Envíos de la orden',
+    description:
+      'Envíos con transportista, número de seguimiento y unidades. Los clientes solo ven sus propias órdenes.',
+  })
+  @ApiParam({ name: 'id', type: 'string', description: 'ID de la orden' })
+  @ApiResponse({
+    status: 200,
+    description: 'Envíos de la orden',
+    type: [OrderShipmentDto],
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'No tienes permisos para ver esta orden',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Orden no encontrada',
+  })
+  async findAll(
+    @Param('id') id: string,
+    @Request() req: any,
+  ): Promise<OrderShipmentDto[]> {
+    const userRole = req.user.role;
+    const currentUserId = req.user.sub;
+
+    return this.shipmentService.findByOrder(id, userRole, currentUserId);
+  }
+
+  /**
+   * Registrar envío total o parcial
+   */
+  @Post(':id/shipments')
+  @Roles(UserRole.ADMIN)
+  @HttpCode(HttpStatus.CREATED)
+  @ApiOperation({
+    summary: 'Registrar envío',
+    description:
+      'Registra un envío con las unidades indicadas (sin items = todo lo pendiente). La orden pasa a Shipped cuando todas sus unidades están enviadas.',
+  })
+  @ApiParam({ name: 'id', type: 'string', description: 'ID de la orden' })
+  @ApiResponse({
+    status: 201,
+    description: 'Envío registrado',
+    type: OrderShipmentDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'ID de orden o líneas inválidas',
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Acceso denegado - Se requieren permisos de administrador',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Orden no encontrada',
+  })
+  @ApiResponse({
+    status: 409,
+    description:
+      'La orden no admite envíos o las unidades superan lo pendiente de envío',
+  })
+  async create(
+    @Param('id') id: string,
+    @Body(ValidationPipe) createShipmentDto: CreateShipmentDto,
+    @Request() req: any,
+  ): Promise<OrderShipmentDto> {
+    const userRole = req.user.role;
+    const currentUserId = req.user.sub;
+
+    this.logger.log(`Admin ${currentUserId} registrando envío de orden ${id}`);
+    return this.shipmentService.create(
+      id,
+      createShipmentDto,
+      userRole,
+      currentUserId,
+    );
+  }
+
+  /**
+   * Actualizar envío (seguimiento o entrega)
+   */
+  @Patch(':id/shipments/:shipmentId')
+  @Roles(UserRole.ADMIN)
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Actualizar envío',
+    description:
+      'Corrige transportista o número de seguimiento, o marca el envío como entregado. La orden pasa a Delivered cuando todos sus envíos se entregan.',
+  })
+  @ApiParam({ name: 'id', type: 'string', description: 'ID de la orden' })
+  @ApiParam({
+    name: 'shipmentId',
+    type: 'string',
+    description: 'ID del envío',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Envío actualizado',
+    type: OrderShipmentDto,
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Acceso denegado - Se requieren permisos de administrador',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Orden o envío no encontrado',
+  })
+  @ApiResponse({
+    status: 409,
+    description: 'El envío ya fue entregado',
+  })
+  async update(
+    @Param('id') id: string,
+    @Param('shipmentId') shipmentId: string,
+    @Body(ValidationPipe) updateShipmentDto: UpdateShipmentDto,
+    @Request() req: any,
+  ): Promise<OrderShipmentDto> {
+    const userRole = req.user.role;
+    const currentUserId = req.user.sub;
+
+    this.logger.log(`Admin ${currentUserId} actualizando envío ${shipmentId}`);
+    return this.shipmentService.update(
+      id,
+      shipmentId,
+      updateShipmentDto,
+      userRole,
+      currentUserId,
+    );
+  }
+}
@@ -0,0 +1,210 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConflictException, ForbiddenException } from '@nestjs/common';
+import { ShipmentService } from './shipment.service';
+import { OrderStateMachine } from '../orders/order-state-machine.service';
+import { OrderStatus } from '../../domain/entities/order.entity';
+import { ShipmentStatus } from '../../domain/entities/shipment.entity';
+import { UserRole } from '../../domain/entities/user.entity';
+
+describe('ShipmentService', () => {
+  let service: ShipmentService;
+
+  const orderId = '550e8400-e29b-41d4-a716-446655440000';
+  const shipmentId = '550e8400-e29b-41d4-a716-446655440010';
+  const adminId = '550e8400-e29b-41d4-a716-446655440003';
+
+  const processingOrder: any = {
+    id: orderId,
+    userId: '550e8400-e29b-41d4-a716-446655440001',
+    status: OrderStatus.PROCESSING,
+  };
+
+  const pending = [
+    { orderItemId: 1, productId: 10, remaining: 2 },
+    { orderItemId: 2, productId: 20, remaining: 1 },
+  ];
+
+  const mockOrderRepository = {
+    findById: jest.fn(),
+    isFullyShipped: jest.fn(),
+  };
+
+  const mockShipmentRepository = {
+    findByOrderId: jest.fn(),
+    findOne: jest.fn(),
+    create: jest.fn(),
+    update: jest.fn(),
+  };
+
+  const mockStateMachine = {
+    transition: jest.fn(),
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ShipmentService,
+        { provide: 'IOrderRepository', useValue: mockOrderRepository },
+        { provide: 'IShipmentRepository', useValue: mockShipmentRepository },
+        { provide: OrderStateMachine, useValue: mockStateMachine },
+      ],
+    }).compile();
+
+    service = module.get<ShipmentService>(ShipmentService);
+
+    jest.clearAllMocks();
+
+    // El repositorio ejecuta el callback con las unidades pendientes
+    mockShipmentRepository.create.mockImplementation(
+      async (_orderId, buildDraft) => ({
+        id: shipmentId,
+        status: ShipmentStatus.SHIPPED,
+        shippedAt: new Date(),
+        deliveredAt: null,
+        ...buildDraft(pending),
+      }),
+    );
+  });
+
+  describe('create', () => {
+    it('should ship part of the order without changing its status', async () => {
+      // Arrange
+      mockOrderRepository.findById.mockResolvedValue(processingOrder);
+      mockOrderRepository.isFullyShipped.mockResolvedValue(false);
+
+      // Act
+      const result = await service.create(
+        orderId,
+        {
+          carrier: 'UPS',
+          trackingNumber: '1Z999',
+          items: [{ productId: 10, quantity: 1 }],
+        },
+        UserRole.ADMIN,
+        adminId,
+      );
+
+      // Assert
+      expect(result.items).toEqual([{ productId: 10, quantity: 1 }]);
+      expect(result.trackingNumber).toBe('1Z999');
+      expect(mockStateMachine.transition).not.toHaveBeenCalled();
+    });
+
+    it('should ship every pending unit and move the order to Shipped', async () => {
+      // Arrange
+      mockOrderRepository.findById.mockResolvedValue(processingOrder);
+      mockOrderRepository.isFullyShipped.mockResolvedValue(true);
+
+      // Act
+      const result = await service.create(
+        orderId,
+        { carrier: 'UPS', trackingNumber: '1Z999' },
+        UserRole.ADMIN,
+        adminId,
+      );
+
+      // Assert
+      expect(result.items).toHaveLength(2);
+      expect(mockStateMachine.transition).toHaveBeenCalledWith(
+        processingOrder,
+        OrderStatus.SHIPPED,
+        expect.objectContaining({ actorId: adminId }),
+      );
+    });
+
+    it('should reject more units than pending shipment', async () => {
+      // Arrange
+      mockOrderRepository.findById.mockResolvedValue(processingOrder);
+
+      // Act & Assert
+      await expect(
+        service.create(
+          orderId,
+          {
+            carrier: 'UPS',
+            trackingNumber: '1Z999',
+            items: [{ productId: 20, quantity: 2 }],
+          },
+          UserRole.ADMIN,
+          adminId,
+        ),
+      ).rejects.toThrow(ConflictException);
+    });
+
+    it('should reject shipments for pending orders', async () => {
+      // Arrange
+      mockOrderRepository.findById.mockResolvedValue({
+        ...processingOrder,
+        status: OrderStatus.PENDING,
+      });
+
+      // Act & Assert
+      await expect(
+        service.create(
+          orderId,
+          { carrier: 'UPS', trackingNumber: '1Z999' },
+          UserRole.ADMIN,
+          adminId,
+        ),
+      ).rejects.toThrow(ConflictException);
+      expect(mockShipmentRepository.create).not.toHaveBeenCalled();
+    });
+
+    it('should throw ForbiddenException for clients', async () => {
+      // Act & Assert
+      await expect(
+        service.create(
+          orderId,
+          { carrier: 'UPS', trackingNumber: '1Z999' },
+          UserRole.CLIENT,
+          processingOrder.userId,
+        ),
+      ).rejects.toThrow(ForbiddenException);
+    });
+  });
+
+  describe('update', () => {
+    it('should deliver the order when its last shipment is delivered', async () => {
+      // Arrange
+      const shippedOrder = { ...processingOrder, status: OrderStatus.SHIPPED };
+      const shipment = {
+        id: shipmentId,
+        orderId,
+        status: ShipmentStatus.SHIPPED,
+        items: [],
+      };
+      mockOrderRepository.findById.mockResolvedValue(shippedOrder);
+      mockOrderRepository.isFullyShipped.mockResolvedValue(true);
+      mockShipmentRepository.findOne.mockResolvedValue(shipment);
+      mockShipmentRepository.update.mockResolvedValue({
+        ...shipment,
+        status: ShipmentStatus.DELIVERED,
+        deliveredAt: new Date(),
+      });
+      mockShipmentRepository.findByOrderId.mockResolvedValue([
+        { ...shipment, status: ShipmentStatus.DELIVERED },
+      ]);
+
+      // Act
+      const result = await service.update(
+        orderId,
+        shipmentId,
+        { status: ShipmentStatus.DELIVERED },
+        UserRole.ADMIN,
+        adminId,
+      );
+
+      // Assert
+      expect(result.status).toBe(ShipmentStatus.DELIVERED);
+      expect(mockShipmentRepository.update).toHaveBeenCalledWith(
+        shipmentId,
+        expect.objectContaining({ status: ShipmentStatus.DELIVERED }),
+      );
+      expect(mockStateMachine.transition).toHaveBeenCalledWith(
+        shippedOrder,
+        OrderStatus.DELIVERED,
+        expect.objectContaining({ actorId: adminId }),
+      );
+    });
+  });
+});
@@ -0,0 +1,315 @@
+import {
+  Injectable,
+  Logger,
+  Inject,
+  NotFoundException,
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+} from '@nestjs/common';
+import { plainToClass } from 'class-transformer';
+import { IOrderRepository } from '../orders/interfaces/order-repository.interface';
+import { OrderStateMachine } from '../orders/order-state-machine.service';
+import {
+  IShipmentRepository,
+  PendingShipmentLine,
+  ShipmentDraft,
+} from './interfaces/shipment-repository.interface';
+import { CreateShipmentDto, UpdateShipmentDto } from './dto/shipment.dto';
+import { OrderShipmentDto } from '../orders/dto';
+import { Order, OrderStatus } from '../../domain/entities/order.entity';
+import {
+  Shipment,
+  ShipmentLine,
+  ShipmentStatus,
+} from '../../domain/entities/shipment.entity';
+import { UserRole } from '../../domain/entities/user.entity';
+
+/**
+ * ShipmentService - Envíos totales y parciales de órdenes
+ *
+ * La orden pasa a Shipped (a través de la máquina de estados) cuando sus envíos
+ * cubren todas las unidades, y a Delivered cuando todos los envíos se entregan
+ */
+@Injectable()
+export class ShipmentService {
+  private readonly logger = new Logger(ShipmentService.name);
+
+  private static readonly SHIPPABLE_STATUSES = [
+    OrderStatus.PROCESSING,
+    OrderStatus.PARTIALLY_REFUNDED,
+  ];
+
+  constructor(
+    @Inject('IOrderRepository')
+    private readonly orderRepository: IOrderRepository,
+    @Inject('IShipmentRepository')
+    private readonly shipmentRepository: IShipmentRepository,
+    private readonly orderStateMachine: OrderStateMachine,
+  ) {}
+
+  /**
+   * Lista los envíos de una orden
+   * @param orderId UUID de la orden
+   * @param userRole Rol del usuario
+   * @param currentUserId ID del usuario actual
+   * @returns Promise<OrderShipmentDto[]> Envíos de la orden
+   * @throws NotFoundException si la orden no existe
+   * @throws ForbiddenException si el cliente intenta acceder a orden ajena
+   */
+  async findByOrder(
+    orderId: string,
+    userRole: UserRole,
+    currentUserId?: string,
+  ): Promise<OrderShipmentDto[]> {
+    const order = await this.findOrder(orderId);
+
+    // Verificar autorización para clientes
+    if (userRole === UserRole.CLIENT) {
+      if (!currentUserId || order.userId !== currentUserId) {
+        throw new ForbiddenException('No tienes permisos para ver esta orden');
+      }
+    }
+
+    const shipments = await this.shipmentRepository.findByOrderId(orderId);
+    return shipments.map((shipment) => this.mapToShipmentDto(shipment));
+  }
+
+  /**
+   * Registra un envío total o parcial
+   * @param orderId UUID de la orden
+   * @param dto Transportista, seguimiento y unidades (vacío = todo lo pendiente)
+   * @param userRole Rol del usuario
+   * @param currentUserId ID del administrador
+   * @returns Promise<OrderShipmentDto> Envío creado
+   * @throws ForbiddenException si no es administrador
+   * @throws NotFoundException si la orden no existe
+   * @throws ConflictException si la orden no admite envíos o se supera lo pendiente
+   */
+  async create(
+    orderId: string,
+    dto: CreateShipmentDto,
+    userRole: UserRole,
+    currentUserId: string,
+  ): Promise<OrderShipmentDto> {
+    this.logger.log(`Registrando envío de orden ${orderId}`);
+
+    if (userRole !== UserRole.ADMIN) {
+      throw new ForbiddenException(
+        'Solo los administradores pueden registrar envíos',
+      );
+    }
+
+    const order = await this.findOrder(orderId);
+    if (!ShipmentService.SHIPPABLE_STATUSES.includes(order.status)) {
+      throw new ConflictException(
+        `No se puede enviar una orden en estado ${order.status}`,
+      );
+    }
+
+    const shipment = await this.shipmentRepository.create(orderId, (pending) =>
+      this.buildShipmentDraft(pending, dto, currentUserId),
+    );
+
+    // La orden se marca Shipped cuando no quedan unidades pendientes
+    if (await this.orderRepository.isFullyShipped(orderId)) {
+      await this.orderStateMachine.transition(order, OrderStatus.SHIPPED, {
+        role: userRole,
+        actorId: currentUserId,
+        note: `Envío ${shipment.id}`,
+      });
+    }
+
+    this.logger.log(`Envío ${shipment.id} registrado para orden ${orderId}`);
+    return this.mapToShipmentDto(shipment);
+  }
+
+  /**
+   * Actualiza transportista, seguimiento o entrega de un envío
+   * @param orderId UUID de la orden
+   * @param shipmentId UUID del envío
+   * @param dto Campos a actualizar
+   * @param userRole Rol del usuario
+   * @param currentUserId ID del administrador
+   * @returns Promise<OrderShipmentDto> Envío actualizado
+   * @throws ForbiddenException si no es administrador
+   * @throws NotFoundException si la orden o el envío no existen
+   * @throws ConflictException si se intenta revertir un envío entregado
+   */
+  async update(
+    orderId: string,
+    shipmentId: string,
+    dto: UpdateShipmentDto,
+    userRole: UserRole,
+    currentUserId: string,
+  ): Promise<OrderShipmentDto> {
+    this.logger.log(`Actualizando envío ${shipmentId} de orden ${orderId}`);
+
+    if (userRole !== UserRole.ADMIN) {
+      throw new ForbiddenException(
+        'Solo los administradores pueden modificar envíos',
+      );
+    }
+
+    if (!this.isValidUUID(shipmentId)) {
+      throw new BadRequestException('ID de envío inválido');
+    }
+
+    const order = await this.findOrder(orderId);
+    const shipment = await this.shipmentRepository.findOne(orderId, shipmentId);
+    if (!shipment) {
+      throw new NotFoundException(`Envío con ID ${shipmentId} no encontrado`);
+    }
+
+    if (
+      shipment.status === ShipmentStatus.DELIVERED &&
+      dto.status === ShipmentStatus.SHIPPED
+    ) {
+      throw new ConflictException('El envío ya fue entregado');
+    }
+
+    const delivering =
+      dto.status === ShipmentStatus.DELIVERED &&
+      shipment.status !== ShipmentStatus.DELIVERED;
+
+    const updated = await this.shipmentRepository.update(shipmentId, {
+      ...(dto.carrier !== undefined && { carrier: dto.carrier }),
+      ...(dto.trackingNumber !== undefined && {
+        trackingNumber: dto.trackingNumber,
+      }),
+      ...(delivering && {
+        status: ShipmentStatus.DELIVERED,
+        deliveredAt: new Date(),
+      }),
+    });
+
+    if (delivering) {
+      await this.deliverOrderIfComplete(order, currentUserId);
+    }
+
+    return this.mapToShipmentDto(updated);
+  }
+
+  /**
+   * Marca la orden Delivered cuando todos sus envíos se entregaron
+   */
+  private async deliverOrderIfComplete(
+    order: Order,
+    currentUserId: string,
+  ): Promise<void> {
+    if (
+      ![OrderStatus.SHIPPED, OrderStatus.PARTIALLY_REFUNDED].includes(
+        order.status,
+      )
+    ) {
+      return;
+    }
+
+    const shipments = await this.shipmentRepository.findByOrderId(order.id);
+    const allDelivered = shipments.every(
+      (shipment) => shipment.status === ShipmentStatus.DELIVERED,
+    );
+    if (
+      !allDelivered ||
+      !(await this.orderRepository.isFullyShipped(order.id))
+    ) {
+      return;
+    }
+
+    await this.orderStateMachine.transition(order, OrderStatus.DELIVERED, {
+      role: UserRole.ADMIN,
+      actorId: currentUserId,
+      note: 'Todos los envíos fueron entregados',
+    });
+  }
+
+  /**
+   * Calcula las líneas del envío a partir de las unidades pendientes
+   * Se ejecuta con la orden bloqueada, por lo que los acumulados son consistentes
+   */
+  private buildShipmentDraft(
+    pending: PendingShipmentLine[],
+    dto: CreateShipmentDto,
+    createdBy: string,
+  ): ShipmentDraft {
+    const requested =
+      dto.items ??
+      pending
+        .filter((line) => line.remaining > 0)
+        .map((line) => ({
+          productId: line.productId,
+          quantity: line.remaining,
+        }));
+
+    if (requested.length === 0) {
+      throw new ConflictException(
+        'La orden no tiene unidades pendientes de envío',
+      );
+    }
+
+    const productIds = requested.map((item) => item.productId);
+    if (new Set(productIds).size !== productIds.length) {
+      throw new BadRequestException(
+        'No se pueden incluir productos duplicados en un envío',
+      );
+    }
+
+    const lines: ShipmentLine[] = requested.map((item) => {
+      const line = pending.find((p) => p.productId === item.productId);
+      if (!line) {
+        throw new BadRequestException(
+          `El producto ${item.productId} no pertenece a la orden`,
+        );
+      }
+
+      if (item.quantity > line.remaining) {
+        throw new ConflictException(
+          `Solo quedan ${Math.max(line.remaining, 0)} unidades pendientes de envío del producto ${item.productId}`,
+        );
+      }
+
+      return {
+        orderItemId: line.orderItemId,
+        productId: line.productId,
+        quantity: item.quantity,
+      };
+    });
+
+    return {
+      carrier: dto.carrier,
+      trackingNumber: dto.trackingNumber,
+      items: lines,
+      createdBy,
+    };
+  }
+
+  private async findOrder(orderId: string): Promise<Order> {
+    if (!this.isValidUUID(orderId)) {
+      throw new BadRequestException('ID de orden inválido');
+    }
+
+    const order = await this.orderRepository.findById(orderId);
+    if (!order) {
+      throw new NotFoundException(`Orden con ID ${orderId} no encontrada`);
+    }
+    return order;
+  }
+
+  /**
+   * Mapea un envío a DTO de respuesta
+   */
+  private mapToShipmentDto(shipment: Shipment): OrderShipmentDto {
+    return plainToClass(OrderShipmentDto, shipment, {
+      excludeExtraneousValues: true,
+    });
+  }
+
+  /**
+   * Valida si un string es un UUID válido
+   */
+  private isValidUUID(uuid: string): boolean {
+    const uuidRegex =
+      /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+    return uuidRegex.test(uuid);
+  }
+}
@@ -0,0 +1,21 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { ShipmentService } from './shipment.service';
+import { ShipmentController } from './shipment.controller';
+import { Shipment } from '../../domain/entities/shipment.entity';
+import { OrderModule } from '../orders/order.module';
+import { ShipmentRepository } from '../../infrastructure/repositories/shipment.repository';
+
+@Module({
+  imports: [TypeOrmModule.forFeature([Shipment]), OrderModule],
+  controllers: [ShipmentController],
+  providers: [
+    ShipmentService,
+    {
+      provide: 'IShipmentRepository',
+      useClass: ShipmentRepository,
+    },
+  ],
+  exports: [ShipmentService, 'IShipmentRepository'],
+})
+export class ShipmentsModule {}
@@ -0,0 +1,332 @@
+import {
+  IsArray,
+  IsBoolean,
+  IsEnum,
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  IsUUID,
+  ArrayMinSize,
+  Length,
+  Matches,
+  Max,
+  MaxLength,
+  Min,
+  ValidateNested,
+} from 'class-validator';
+import { Expose, Transform, Type, plainToClass } from 'class-transformer';
+import {
+  ApiProperty,
+  ApiPropertyOptional,
+  OmitType,
+  PartialType,
+} from '@nestjs/swagger';
+import { ShippingRateType } from '../../../domain/entities/shipping-method.entity';
+import { CreateOrderItemDto } from '../../orders/dto/create-order.dto';
+
+const toUpperList = ({ value }) =>
+  Array.isArray(value)
+    ? value.map((item) =>
+        typeof item === 'string' ? item.trim().toUpperCase() : item,
+      )
+    : value;
+
+export class CreateShippingZoneDto {
+  @ApiProperty({
+    description: 'Nombre de la zona',
+    example: 'Colombia - Nacional',
+    maxLength: 100,
+  })
+  @IsNotEmpty({ message: 'El nombre es obligatorio' })
+  @IsString()
+  @MaxLength(100, { message: 'El nombre no debe exceder 100 caracteres' })
+  name: string;
+
+  @ApiProperty({
+    description: 'Países cubiertos (ISO 3166-1 alfa-2)',
+    example: ['CO'],
+    type: [String],
+  })
+  @IsArray({ message: 'Los países deben ser un array' })
+  @ArrayMinSize(1, { message: 'Debe incluir al menos un país' })
+  @Matches(/^[A-Z]{2}$/, {
+    each: true,
+    message: 'Cada país debe ser un código ISO de 2 letras',
+  })
+  @Transform(toUpperList)
+  countries: string[];
+
+  @ApiPropertyOptional({
+    description: 'Regiones cubiertas (vacío = todo el país)',
+    example: ['ANTIOQUIA'],
+    type: [String],
+  })
+  @IsOptional()
+  @IsArray({ message: 'Las regiones deben ser un array' })
+  @IsString({ each: true })
+  @MaxLength(100, {
+    each: true,
+    message: 'Cada región no debe exceder 100 caracteres',
+  })
+  @Transform(toUpperList)
+  regions?: string[];
+}
+
+export class UpdateShippingZoneDto extends PartialType(CreateShippingZoneDto) {}
+
+export class CreateShippingMethodDto {
+  @ApiProperty({
+    description: 'ID de la zona de envío',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @IsUUID('4', { message: 'El ID de zona debe ser un UUID válido' })
+  zoneId: string;
+
+  @ApiProperty({
+    description: 'Código del método (único en la zona)',
+    example: 'express',
+    maxLength: 50,
+  })
+  @IsNotEmpty({ message: 'El código es obligatorio' })
+  @Matches(/^[a-z0-9]+(?:[-_][a-z0-9]+)*$/, {
+    message: 'El código debe contener solo minúsculas, números, - y _',
+  })
+  @MaxLength(50, { message: 'El código no debe exceder 50 caracteres' })
+  code: string;
+
+  @ApiProperty({
+    description: 'Nombre visible del método',
+    example: 'Envío express (24h)',
+    maxLength: 100,
+  })
+  @IsNotEmpty({ message: 'El nombre es obligatorio' })
+  @IsString()
+  @MaxLength(100, { message: 'El nombre no debe exceder 100 caracteres' })
+  name: string;
+
+  @ApiProperty({
+    description: 'Regla de tarifa',
+    enum: ShippingRateType,
+    example: ShippingRateType.FLAT,
+  })
+  @IsEnum(ShippingRateType, {
+    message: 'La regla debe ser flat, weight o free_over_threshold',
+  })
+  rateType: ShippingRateType;
+
+  @ApiProperty({
+    description:
+      'Monto en centavos: fijo, base por peso o costo bajo el umbral de envío gratis',
+    example: 1500,
+    minimum: 0,
+  })
+  @IsInt({ message: 'El monto debe ser un entero en centavos' })
+  @Min(0, { message: 'El monto no puede ser negativo' })
+  @Max(999999999, { message: 'El monto no puede exceder $9,999,999.99' })
+  amount: number;
+
+  @ApiPropertyOptional({
+    description: 'Centavos por kg o fracción (regla weight)',
+    example: 500,
+    minimum: 0,
+  })
+  @IsOptional()
+  @IsInt({ message: 'El monto por kg debe ser un entero en centavos' })
+  @Min(0, { message: 'El monto por kg no puede ser negativo' })
+  perKgAmount?: number;
+
+  @ApiPropertyOptional({
+    description: 'Subtotal en centavos desde el que el envío es gratis',
+    example: 20000,
+    minimum: 0,
+  })
+  @IsOptional()
+  @IsInt({ message: 'El umbral debe ser un entero en centavos' })
+  @Min(0, { message: 'El umbral no puede ser negativo' })
+  freeOverAmount?: number;
+
+  @ApiPropertyOptional({
+    description: 'Días estimados de entrega',
+    example: 3,
+    minimum: 0,
+  })
+  @IsOptional()
+  @IsInt({ message: 'Los días estimados deben ser un entero' })
+  @Min(0, { message: 'Los días estimados no pueden ser negativos' })
+  estimatedDays?: number;
+
+  @ApiPropertyOptional({
+    description: 'Indica si el método se ofrece',
+    default: true,
+  })
+  @IsOptional()
+  @IsBoolean({ message: 'El estado activo debe ser verdadero o falso' })
+  isActive?: boolean;
+}
+
+export class UpdateShippingMethodDto extends PartialType(
+  OmitType(CreateShippingMethodDto, ['zoneId'] as const),
+) {}
+
+/**
+ * Cotización de envío: carrito como "productId:cantidad" separados por comas
+ */
+export class ShippingQuoteQueryDto {
+  @ApiProperty({
+    description: 'Carrito: productId:cantidad separados por comas',
+    example: '1:2,5:1',
+    type: String,
+  })
+  @IsArray({ message: 'El carrito debe tener el formato productId:cantidad' })
+  @ArrayMinSize(1, { message: 'Debe incluir al menos un item' })
+  @ValidateNested({ each: true })
+  @Transform(({ value }) =>
+    typeof value === 'string'
+      ? value.split(',').map((entry) => {
+          const [productId, quantity] = entry.split(':').map(Number);
+          return plainToClass(CreateOrderItemDto, { productId, quantity });
+        })
+      : value,
+  )
+  items: CreateOrderItemDto[];
+
+  @ApiProperty({
+    description: 'País de entrega (ISO 3166-1 alfa-2)',
+    example: 'CO',
+  })
+  @IsString({ message: 'El país es obligatorio' })
+  @Length(2, 2, { message: 'El país debe ser un código ISO de 2 letras' })
+  @Transform(({ value }) => value?.trim().toUpperCase())
+  country: string;
+
+  @ApiPropertyOptional({
+    description: 'Región o estado de entrega',
+    example: 'ANTIOQUIA',
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(100, { message: 'La región no debe exceder 100 caracteres' })
+  @Transform(({ value }) => value?.trim().toUpperCase() || undefined)
+  region?: string;
+}
+
+export class ShippingMethodResponseDto {
+  @ApiProperty({ example: '123e4567-e89b-12d3-a456-426614174000' })
+  @Expose()
+  id: string;
+
+  @ApiProperty({ example: '123e4567-e89b-12d3-a456-426614174001' })
+  @Expose()
+  zoneId: string;
+
+  @ApiProperty({ example: 'express' })
+  @Expose()
+  code: string;
+
+  @ApiProperty({ example: 'Envío express (24h)' })
+  @Expose()
+  name: string;
+
+  @ApiProperty({ enum: ShippingRateType })
+  @Expose()
+  rateType: ShippingRateType;
+
+  @ApiProperty({ description: 'En centavos', example: 1500 })
+  @Expose()
+  amount: number;
+
+  @ApiProperty({ description: 'En centavos', nullable: true })
+  @Expose()
+  perKgAmount: number | null;
+
+  @ApiProperty({ description: 'En centavos', nullable: true })
+  @Expose()
+  freeOverAmount: number | null;
+
+  @ApiProperty({ example: 1, nullable: true })
+  @Expose()
+  estimatedDays: number | null;
+
+  @ApiProperty({ example: true })
+  @Expose()
+  isActive: boolean;
+}
+
+export class ShippingZoneResponseDto {
+  @ApiProperty({ example: '123e4567-e89b-12d3-a456-426614174001' })
+  @Expose()
+  id: string;
+
+  @ApiProperty({ example: 'Colombia - Nacional' })
+  @Expose()
+  name: string;
+
+  @ApiProperty({ example: ['CO'], type: [String] })
+  @Expose()
+  countries: string[];
+
+  @ApiProperty({ example: [], type: [String] })
+  @Expose()
+  regions: string[];
+
+  @ApiProperty({ type: [ShippingMethodResponseDto] })
+  @Expose()
+  @Type(() => ShippingMethodResponseDto)
+  methods: ShippingMethodResponseDto[];
+}
+
+export class ShippingQuoteMethodDto {
+  @ApiProperty({ example: '123e4567-e89b-12d3-a456-426614174000' })
+  @Expose()
+  methodId: string;
+
+  @ApiProperty({ example: 'express' })
+  @Expose()
+  code: string;
+
+  @ApiProperty({ example: 'Envío express (24h)' })
+  @Expose()
+  name: string;
+
+  @ApiProperty({ example: 'Colombia - Nacional' })
+  @Expose()
+  zoneName: string;
+
+  @ApiProperty({ description: 'Costo en centavos', example: 1500 })
+  @Expose()
+  amount: number;
+
+  @ApiProperty({ example: 1, nullable: true })
+  @Expose()
+  estimatedDays: number | null;
+}
+
+export class ShippingQuoteResponseDto {
+  @ApiProperty({ example: 'CO' })
+  @Expose()
+  country: string;
+
+  @ApiProperty({ example: 'ANTIOQUIA', nullable: true })
+  @Expose()
+  region: string | null;
+
+  @ApiProperty({
+    description: 'Subtotal del carrito en centavos (precio de catálogo)',
+    example: 25998,
+  })
+  @Expose()
+  subtotal: number;
+
+  @ApiProperty({ example: 1200 })
+  @Expose()
+  weightGrams: number;
+
+  @ApiProperty({
+    description: 'Métodos disponibles, del más barato al más caro',
+    type: [ShippingQuoteMethodDto],
+  })
+  @Expose()
+  @Type(() => ShippingQuoteMethodDto)
+  methods: ShippingQuoteMethodDto[];
+}
@@ -0,0 +1,94 @@
+import { ShippingZone } from '../../../domain/entities/shipping-zone.entity';
+import {
+  ShippingMethod,
+  ShippingRateType,
+} from '../../../domain/entities/shipping-method.entity';
+
+export interface ShippingZoneData {
+  name: string;
+  countries: string[];
+  regions: string[];
+}
+
+export interface ShippingMethodData {
+  zoneId: string;
+  code: string;
+  name: string;
+  rateType: ShippingRateType;
+  amount: number;
+  perKgAmount: number | null;
+  freeOverAmount: number | null;
+  estimatedDays: number | null;
+  isActive: boolean;
+}
+
+/**
+ * Abstracción del Repository Pattern para zonas y métodos de envío (DIP)
+ */
+export interface IShippingRepository {
+  /**
+   * Lista las zonas con sus métodos
+   * @returns Promise<ShippingZone[]> Zonas ordenadas por nombre
+   */
+  findZones(): Promise<ShippingZone[]>;
+
+  /**
+   * Encuentra una zona con sus métodos
+   * @param id UUID de la zona
+   * @returns Promise<ShippingZone | null> Zona o null si no existe
+   */
+  findZoneById(id: string): Promise<ShippingZone | null>;
+
+  /**
+   * Zonas que cubren un país (con cualquier región)
+   * @param country Código ISO del país
+   * @returns Promise<ShippingZone[]> Zonas con sus métodos activos
+   */
+  findZonesByCountry(country: string): Promise<ShippingZone[]>;
+
+  createZone(data: ShippingZoneData): Promise<ShippingZone>;
+
+  /**
+   * @returns Promise<ShippingZone | null> Zona actualizada o null si no existe
+   */
+  updateZone(
+    id: string,
+    data: Partial<ShippingZoneData>,
+  ): Promise<ShippingZone | null>;
+
+  /**
+   * Elimina una zona y sus métodos
+   * @returns Promise<boolean> true si se eliminó
+   */
+  deleteZone(id: string): Promise<boolean>;
+
+  /**
+   * Encuentra un método de envío con su zona
+   * @param id UUID del método
+   * @returns Promise<ShippingMethod | null> Método o null si no existe
+   */
+  findMethodById(id: string): Promise<ShippingMethod | null>;
+
+  /**
+   * Encuentra un método por zona y código
+   */
+  findMethodByCode(
+    zoneId: string,
+    code: string,
+  ): Promise<ShippingMethod | null>;
+
+  createMethod(data: ShippingMethodData): Promise<ShippingMethod>;
+
+  /**
+   * @returns Promise<ShippingMethod | null> Método actualizado o null si no existe
+   */
+  updateMethod(
+    id: string,
+    data: Partial<ShippingMethodData>,
+  ): Promise<ShippingMethod | null>;
+
+  /**
+   * @returns Promise<boolean> true si se eliminó
+   */
+  deleteMethod(id: string): Promise<boolean>;
+}
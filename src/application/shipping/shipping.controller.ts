@@ -0,0 +1,258 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Put,
+  Delete,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+  HttpCode,
+  HttpStatus,
+  ValidationPipe,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiParam,
+} from '@nestjs/swagger';
+import { ShippingService } from './shipping.service';
+import {
+  CreateShippingMethodDto,
+  CreateShippingZoneDto,
+  ShippingMethodResponseDto,
+  ShippingQuoteQueryDto,
+  ShippingQuoteResponseDto,
+  ShippingZoneResponseDto,
+  UpdateShippingMethodDto,
+  UpdateShippingZoneDto,
+} from './dto/shipping.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { UserRole } from '../../domain/entities/user.entity';
+
+/**
+ * ShippingController - Cotización pública y gestión de zonas y métodos (Admin)
+ */
+@ApiTags('Envíos')
+@Controller('shipping')
+export class ShippingController {
+  constructor(private readonly shippingService: ShippingService) {}
+
+  /**
+   * Cotizar envío
+   */
+  @Get('quote')
+  @ApiOperation({
+    summary: 'Cotizar envío',
+    description:
+      'Métodos disponibles para el carrito y el destino, con su costo en centavos.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Métodos disponibles',
+    type: ShippingQuoteResponseDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Carrito o destino inválido, o productos no encontrados',
+  })
+  async quote(
+    @Query(ValidationPipe) query: ShippingQuoteQueryDto,
+  ): Promise<ShippingQuoteResponseDto> {
+    return this.shippingService.quote(query);
+  }
+
+  /**
+   * Listar zonas de envío
+   */
+  @Get('zones')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Listar zonas de envío con sus métodos' })
+  @ApiResponse({
+    status: 200,
+    description: 'Zonas de envío',
+    type: [ShippingZoneResponseDto],
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Acceso denegado - Se requieren permisos de administrador',
+  })
+  async findZones(): Promise<ShippingZoneResponseDto[]> {
+    return this.shippingService.findZones();
+  }
+
+  /**
+   * Crear zona de envío
+   */
+  @Post('zones')
+  @HttpCode(HttpStatus.CREATED)
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN)
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'Crear zona de envío',
+    description:
+      'Sin regiones cubre todo el país; una zona de región tiene prioridad.',
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Zona creada',
+    type: ShippingZoneResponseDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Datos de entrada inválidos',
+  })
+  async createZone(
+    @Body(ValidationPipe) createZoneDto: CreateShippingZoneDto,
+  ): Promise<ShippingZoneResponseDto> {
+    return this.shippingService.createZone(createZoneDto);
+  }
+
+  /**
+   * Actualizar zona de envío
+   */
+  @Put('zones/:id')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Actualizar zona de envío' })
+  @ApiParam({ name: 'id', type: 'string', description: 'ID de la zona' })
+  @ApiResponse({
+    status: 200,
+    description: 'Zona actualizada',
+    type: ShippingZoneResponseDto,
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Zona no encontrada',
+  })
+  async updateZone(
+    @Param('id') id: string,
+    @Body(ValidationPipe) updateZoneDto: UpdateShippingZoneDto,
+  ): Promise<ShippingZoneResponseDto> {
+    return this.shippingService.updateZone(id, updateZoneDto);
+  }
+
+  /**
+   * Eliminar zona de envío
+   */
+  @Delete('zones/:id')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN)
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'Eliminar zona de envío',
+    description: 'Elimina también sus métodos.',
+  })
+  @ApiParam({ name: 'id', type: 'string', description: 'ID de la zona' })
+  @ApiResponse({
+    status: 204,
+    description: 'Zona eliminada',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Zona no encontrada',
+  })
+  async removeZone(@Param('id') id: string): Promise<void> {
+    return this.shippingService.removeZone(id);
+  }
+
+  /**
+   * Crear método de envío
+   */
+  @Post('methods')
+  @HttpCode(HttpStatus.CREATED)
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN)
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'Crear método de envío',
+    description:
+      'Reglas: flat, weight (por kg o fracción) y free_over_threshold.',
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Método creado',
+    type: ShippingMethodResponseDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Datos de entrada inválidos o regla incompleta',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Zona no encontrada',
+  })
+  @ApiResponse({
+    status: 409,
+    description: 'El código ya está en uso en la zona',
+  })
+  async createMethod(
+    @Body(ValidationPipe) createMethodDto: CreateShippingMethodDto,
+  ): Promise<ShippingMethodResponseDto> {
+    return this.shippingService.createMethod(createMethodDto);
+  }
+
+  /**
+   * Actualizar método de envío
+   */
+  @Put('methods/:id')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN)
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'Actualizar método de envío',
+    description: 'Las órdenes existentes conservan el costo cobrado.',
+  })
+  @ApiParam({ name: 'id', type: 'string', description: 'ID del método' })
+  @ApiResponse({
+    status: 200,
+    description: 'Método actualizado',
+    type: ShippingMethodResponseDto,
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Método no encontrado',
+  })
+  @ApiResponse({
+    status: 409,
+    description: 'El código ya está en uso en la zona',
+  })
+  async updateMethod(
+    @Param('id') id: string,
+    @Body(ValidationPipe) updateMethodDto: UpdateShippingMethodDto,
+  ): Promise<ShippingMethodResponseDto> {
+    return this.shippingService.updateMethod(id, updateMethodDto);
+  }
+
+  /**
+   * Eliminar método de envío
+   */
+  @Delete('methods/:id')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Eliminar método de envío' })
+  @ApiParam({ name: 'id', type: 'string', description: 'ID del método' })
+  @ApiResponse({
+    status: 204,
+    description: 'Método eliminado',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Método no encontrado',
+  })
+  async removeMethod(@Param('id') id: string): Promise<void> {
+    return this.shippingService.removeMethod(id);
+  }
+}
@@ -0,0 +1,25 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { ShippingService } from './shipping.service';
+import { ShippingController } from './shipping.controller';
+import { ProductModule } from '../products/product.module';
+import { ShippingZone } from '../../domain/entities/shipping-zone.entity';
+import { ShippingMethod } from '../../domain/entities/shipping-method.entity';
+import { ShippingRepository } from '../../infrastructure/repositories/shipping.repository';
+
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([ShippingZone, ShippingMethod]),
+    ProductModule,
+  ],
+  controllers: [ShippingController],
+  providers: [
+    ShippingService,
+    {
+      provide: 'IShippingRepository',
+      useClass: ShippingRepository,
+    },
+  ],
+  exports: [ShippingService],
+})
+export class ShippingModule {}
@@ -0,0 +1,242 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException, ConflictException } from '@nestjs/common';
+import { ShippingService } from './shipping.service';
+import { ShippingRateType } from '../../domain/entities/shipping-method.entity';
+
+describe('ShippingService', () => {
+  let service: ShippingService;
+
+  const zoneId = '550e8400-e29b-41d4-a716-446655440030';
+  const regionalZoneId = '550e8400-e29b-41d4-a716-446655440031';
+
+  const standard: any = {
+    id: '550e8400-e29b-41d4-a716-446655440040',
+    zoneId,
+    code: 'standard',
+    name: 'Estándar',
+    rateType: ShippingRateType.FREE_OVER_THRESHOLD,
+    amount: 800,
+    perKgAmount: null,
+    freeOverAmount: 5000,
+    estimatedDays: 5,
+    isActive: true,
+  };
+
+  const express: any = {
+    id: '550e8400-e29b-41d4-a716-446655440041',
+    zoneId,
+    code: 'express',
+    name: 'Express',
+    rateType: ShippingRateType.WEIGHT,
+    amount: 1000,
+    perKgAmount: 300,
+    freeOverAmount: null,
+    estimatedDays: 1,
+    isActive: true,
+  };
+
+  const courier: any = {
+    id: '550e8400-e29b-41d4-a716-446655440042',
+    zoneId: regionalZoneId,
+    code: 'courier',
+    name: 'Mensajería local',
+    rateType: ShippingRateType.FLAT,
+    amount: 400,
+    perKgAmount: null,
+    freeOverAmount: null,
+    estimatedDays: 0,
+    isActive: true,
+  };
+
+  const nationalZone = {
+    id: zoneId,
+    name: 'Colombia',
+    countries: ['CO'],
+    regions: [],
+    methods: [standard, express],
+  };
+
+  const regionalZone = {
+    id: regionalZoneId,
+    name: 'Antioquia',
+    countries: ['CO'],
+    regions: ['ANTIOQUIA'],
+    methods: [courier],
+  };
+
+  const product = { id: 1, price: 1500, weightGrams: 1200 };
+
+  const mockShippingRepository = {
+    findZones: jest.fn(),
+    findZoneById: jest.fn(),
+    findZonesByCountry: jest.fn(),
+    createZone: jest.fn(),
+    updateZone: jest.fn(),
+    deleteZone: jest.fn(),
+    findMethodById: jest.fn(),
+    findMethodByCode: jest.fn(),
+    createMethod: jest.fn(),
+    updateMethod: jest.fn(),
+    deleteMethod: jest.fn(),
+  };
+
+  const mockProductRepository = {
+    findById: jest.fn(),
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ShippingService,
+        { provide: 'IShippingRepository', useValue: mockShippingRepository },
+        { provide: 'IProductRepository', useValue: mockProductRepository },
+      ],
+    }).compile();
+
+    service = module.get<ShippingService>(ShippingService);
+
+    jest.clearAllMocks();
+
+    mockProductRepository.findById.mockResolvedValue(product);
+    mockShippingRepository.findZonesByCountry.mockResolvedValue([
+      nationalZone,
+      regionalZone,
+    ]);
+  });
+
+  describe('quote', () => {
+    it('should price country-wide methods from the cheapest', async () => {
+      // Act
+      const result = await service.quote({
+        items: [{ productId: 1, quantity: 2 }],
+        country: 'CO',
+      });
+
+      // Assert: 3000 < 5000 no es gratis; 2.4 kg = 3 kg
+      expect(result.subtotal).toBe(3000);
+      expect(result.weightGrams).toBe(2400);
+      expect(result.methods).toEqual([
+        expect.objectContaining({ code: 'standard', amount: 800 }),
+        expect.objectContaining({ code: 'express', amount: 1900 }),
+      ]);
+    });
+
+    it('should prefer zones that name the region', async () => {
+      // Act
+      const result = await service.quote({
+        items: [{ productId: 1, quantity: 4 }],
+        country: 'CO',
+        region: 'antioquia',
+      });
+
+      // Assert
+      expect(result.methods).toEqual([
+        expect.objectContaining({
+          code: 'courier',
+          zoneName: 'Antioquia',
+          amount: 400,
+        }),
+      ]);
+    });
+
+    it('should reject carts with unknown products', async () => {
+      // Arrange
+      mockProductRepository.findById.mockResolvedValue(null);
+
+      // Act & Assert
+      await expect(
+        service.quote({
+          items: [{ productId: 9, quantity: 1 }],
+          country: 'CO',
+        }),
+      ).rejects.toThrow(BadRequestException);
+    });
+  });
+
+  describe('priceItems', () => {
+    it('should ship for free over the threshold', async () => {
+      // Arrange
+      mockShippingRepository.findMethodById.mockResolvedValue(standard);
+
+      // Act
+      const result = await service.priceItems(
+        standard.id,
+        [{ productId: 1, quantity: 4 }],
+        { country: 'CO' },
+      );
+
+      // Assert
+      expect(result).toEqual({
+        methodId: standard.id,
+        name: 'Estándar',
+        amount: 0,
+      });
+    });
+
+    it('should reject a method outside the destination', async () => {
+      // Arrange
+      mockShippingRepository.findMethodById.mockResolvedValue(standard);
+      mockShippingRepository.findZonesByCountry.mockResolvedValue([]);
+
+      // Act & Assert
+      await expect(
+        service.priceItems(standard.id, [{ productId: 1, quantity: 1 }], {
+          country: 'MX',
+        }),
+      ).rejects.toThrow(BadRequestException);
+    });
+
+    it('should reprice without checking the zone when there is no destination', async () => {
+      // Arrange
+      mockShippingRepository.findMethodById.mockResolvedValue(express);
+
+      // Act
+      const result = await service.priceItems(
+        express.id,
+        [{ productId: 1, quantity: 1 }],
+        null,
+      );
+
+      // Assert
+      expect(result.amount).toBe(1600);
+      expect(mockShippingRepository.findZonesByCountry).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('createMethod', () => {
+    it('should reject a duplicate code in the zone', async () => {
+      // Arrange
+      mockShippingRepository.findZoneById.mockResolvedValue(nationalZone);
+      mockShippingRepository.findMethodByCode.mockResolvedValue(standard);
+
+      // Act & Assert
+      await expect(
+        service.createMethod({
+          zoneId,
+          code: 'standard',
+          name: 'Estándar',
+          rateType: ShippingRateType.FLAT,
+          amount: 800,
+        }),
+      ).rejects.toThrow(ConflictException);
+      expect(mockShippingRepository.createMethod).not.toHaveBeenCalled();
+    });
+
+    it('should require the per-kg amount for weight rates', async () => {
+      // Arrange
+      mockShippingRepository.findZoneById.mockResolvedValue(nationalZone);
+      mockShippingRepository.findMethodByCode.mockResolvedValue(null);
+
+      // Act & Assert
+      await expect(
+        service.createMethod({
+          zoneId,
+          code: 'heavy',
+          name: 'Carga pesada',
+          rateType: ShippingRateType.WEIGHT,
+          amount: 800,
+        }),
+      ).rejects.toThrow(BadRequestException);
+    });
+  });
+});
@@ -0,0 +1,417 @@
+import {
+  Injectable,
+  Logger,
+  Inject,
+  NotFoundException,
+  BadRequestException,
+  ConflictException,
+} from '@nestjs/common';
+import { plainToClass } from 'class-transformer';
+import { IShippingRepository } from './interfaces/shipping-repository.interface';
+import { IProductRepository } from '../products/interfaces/product-repository.interface';
+import {
+  CreateShippingMethodDto,
+  CreateShippingZoneDto,
+  ShippingMethodResponseDto,
+  ShippingQuoteQueryDto,
+  ShippingQuoteResponseDto,
+  ShippingZoneResponseDto,
+  UpdateShippingMethodDto,
+  UpdateShippingZoneDto,
+} from './dto/shipping.dto';
+import { CreateOrderItemDto } from '../orders/dto/create-order.dto';
+import { Product } from '../../domain/entities/product.entity';
+import { ShippingZone } from '../../domain/entities/shipping-zone.entity';
+import {
+  ShippingCart,
+  ShippingCharge,
+  ShippingMethod,
+  ShippingRateType,
+  calculateShippingAmount,
+} from '../../domain/entities/shipping-method.entity';
+
+/**
+ * Línea de carrito con el producto ya cargado
+ */
+export interface ShippableLine {
+  product: Product;
+  quantity: number;
+}
+
+export interface ShippingDestination {
+  country: string;
+  region?: string | null;
+}
+
+/**
+ * ShippingService - Zonas, métodos y tarifas de envío
+ *
+ * Un destino usa las zonas que nombran su región; si no hay ninguna, las que
+ * cubren el país completo. El envío no tributa
+ */
+@Injectable()
+export class ShippingService {
+  private readonly logger = new Logger(ShippingService.name);
+
+  constructor(
+    @Inject('IShippingRepository')
+    private readonly shippingRepository: IShippingRepository,
+    @Inject('IProductRepository')
+    private readonly productRepository: IProductRepository,
+  ) {}
+
+  /**
+   * Cotiza los métodos disponibles para un carrito y un destino
+   * @param query Carrito y destino
+   * @returns Promise<ShippingQuoteResponseDto> Métodos con su costo
+   * @throws BadRequestException si algún producto no existe
+   */
+  async quote(query: ShippingQuoteQueryDto): Promise<ShippingQuoteResponseDto> {
+    const lines = await this.loadLines(query.items);
+    const cart = this.buildCart(lines);
+    const methods = await this.findAvailableMethods({
+      country: query.country,
+      region: query.region,
+    });
+
+    const quotes = methods
+      .map((method) => ({
+        methodId: method.id,
+        code: method.code,
+        name: method.name,
+        zoneName: method.zone.name,
+        amount: calculateShippingAmount(method, cart),
+        estimatedDays: method.estimatedDays,
+      }))
+      .sort((a, b) => a.amount - b.amount);
+
+    return plainToClass(
+      ShippingQuoteResponseDto,
+      {
+        country: query.country,
+        region: query.region ?? null,
+        ...cart,
+        methods: quotes,
+      },
+      { excludeExtraneousValues: true },
+    );
+  }
+
+  /**
+   * Calcula el envío de los items de una orden
+   * @param methodId Método elegido
+   * @param items Items de la orden
+   * @param destination Destino (null = no se vuelve a validar la zona)
+   * @returns Promise<ShippingCharge> Método y costo
+   * @throws BadRequestException si el método no existe o no cubre el destino
+   */
+  async priceItems(
+    methodId: string,
+    items: CreateOrderItemDto[],
+    destination: ShippingDestination | null,
+  ): Promise<ShippingCharge> {
+    return this.priceLines(methodId, await this.loadLines(items), destination);
+  }
+
+  /**
+   * Calcula el envío de un carrito con los productos ya cargados
+   * @throws BadRequestException si el método no existe o no cubre el destino
+   */
+  async priceLines(
+    methodId: string,
+    lines: ShippableLine[],
+    destination: ShippingDestination | null,
+  ): Promise<ShippingCharge> {
+    const method = await this.shippingRepository.findMethodById(methodId);
+    if (!method || !method.isActive) {
+      throw new BadRequestException('El método de envío no está disponible');
+    }
+
+    if (destination) {
+      const available = await this.findAvailableMethods(destination);
+      if (!available.some((m) => m.id === method.id)) {
+        throw new BadRequestException(
+          `El método de envío ${method.name} no está disponible para ${destination.country}`,
+        );
+      }
+    }
+
+    return {
+      methodId: method.id,
+      name: method.name,
+      amount: calculateShippingAmount(method, this.buildCart(lines)),
+    };
+  }
+
+  /**
+   * Lista las zonas con sus métodos
+   */
+  async findZones(): Promise<ShippingZoneResponseDto[]> {
+    const zones = await this.shippingRepository.findZones();
+    return zones.map((zone) => this.mapToZoneDto(zone));
+  }
+
+  /**
+   * Crea una zona de envío
+   */
+  async createZone(
+    dto: CreateShippingZoneDto,
+  ): Promise<ShippingZoneResponseDto> {
+    this.logger.log(`Creando zona de envío ${dto.name}`);
+
+    const zone = await this.shippingRepository.createZone({
+      name: dto.name,
+      countries: [...new Set(dto.countries)],
+      regions: [...new Set(dto.regions ?? [])],
+    });
+    return this.mapToZoneDto(zone);
+  }
+
+  /**
+   * Actualiza una zona de envío
+   * @throws NotFoundException si la zona no existe
+   */
+  async updateZone(
+    id: string,
+    dto: UpdateShippingZoneDto,
+  ): Promise<ShippingZoneResponseDto> {
+    await this.findZone(id);
+
+    const zone = await this.shippingRepository.updateZone(id, {
+      ...(dto.name !== undefined && { name: dto.name }),
+      ...(dto.countries !== undefined && {
+        countries: [...new Set(dto.countries)],
+      }),
+      ...(dto.regions !== undefined && { regions: [...new Set(dto.regions)] }),
+    });
+    if (!zone) {
+      throw new NotFoundException(`Zona de envío con ID ${id} no encontrada`);
+    }
+    return this.mapToZoneDto(zone);
+  }
+
+  /**
+   * Elimina una zona y sus métodos (las órdenes conservan nombre y costo)
+   * @throws NotFoundException si la zona no existe
+   */
+  async removeZone(id: string): Promise<void> {
+    await this.findZone(id);
+    if (!(await this.shippingRepository.deleteZone(id))) {
+      throw new NotFoundException(`Zona de envío con ID ${id} no encontrada`);
+    }
+    this.logger.log(`Zona de envío ${id} eliminada`);
+  }
+
+  /**
+   * Crea un método de envío en una zona
+   * @throws NotFoundException si la zona no existe
+   * @throws ConflictException si el código ya existe en la zona
+   * @throws BadRequestException si la regla no tiene sus montos
+   */
+  async createMethod(
+    dto: CreateShippingMethodDto,
+  ): Promise<ShippingMethodResponseDto> {
+    this.logger.log(`Creando método de envío ${dto.code}`);
+
+    await this.findZone(dto.zoneId);
+    await this.assertCodeAvailable(dto.zoneId, dto.code);
+
+    const data = {
+      zoneId: dto.zoneId,
+      code: dto.code,
+      name: dto.name,
+      rateType: dto.rateType,
+      amount: dto.amount,
+      perKgAmount: dto.perKgAmount ?? null,
+      freeOverAmount: dto.freeOverAmount ?? null,
+      estimatedDays: dto.estimatedDays ?? null,
+      isActive: dto.isActive ?? true,
+    };
+    this.validateRateRule(data);
+
+    const method = await this.shippingRepository.createMethod(data);
+    return this.mapToMethodDto(method);
+  }
+
+  /**
+   * Actualiza un método de envío
+   * @throws NotFoundException si el método no existe
+   * @throws ConflictException si el código ya existe en la zona
+   */
+  async updateMethod(
+    id: string,
+    dto: UpdateShippingMethodDto,
+  ): Promise<ShippingMethodResponseDto> {
+    const current = await this.findMethod(id);
+    if (dto.code && dto.code !== current.code) {
+      await this.assertCodeAvailable(current.zoneId, dto.code);
+    }
+    this.validateRateRule({ ...current, ...dto });
+
+    const method = await this.shippingRepository.updateMethod(id, dto);
+    if (!method) {
+      throw new NotFoundException(`Método de envío con ID ${id} no encontrado`);
+    }
+    return this.mapToMethodDto(method);
+  }
+
+  /**
+   * Elimina un método de envío
+   * @throws NotFoundException si el método no existe
+   */
+  async removeMethod(id: string): Promise<void> {
+    await this.findMethod(id);
+    if (!(await this.shippingRepository.deleteMethod(id))) {
+      throw new NotFoundException(`Método de envío con ID ${id} no encontrado`);
+    }
+    this.logger.log(`Método de envío ${id} eliminado`);
+  }
+
+  /**
+   * Métodos activos de las zonas que cubren el destino
+   */
+  private async findAvailableMethods(
+    destination: ShippingDestination,
+  ): Promise<ShippingMethod[]> {
+    const region = destination.region?.toUpperCase() ?? null;
+    const zones = await this.shippingRepository.findZonesByCountry(
+      destination.country.toUpperCase(),
+    );
+
+    const regional = zones.filter(
+      (zone) => region !== null && zone.regions.includes(region),
+    );
+    const applicable =
+      regional.length > 0
+        ? regional
+        : zones.filter((zone) => zone.regions.length === 0);
+
+    return applicable.flatMap((zone) =>
+      (zone.methods ?? [])
+        .filter((method) => method.isActive)
+        .map((method) => Object.assign(method, { zone })),
+    );
+  }
+
+  private async loadLines(
+    items: CreateOrderItemDto[],
+  ): Promise<ShippableLine[]> {
+    const products = await Promise.all(
+      items.map((item) => this.productRepository.findById(item.productId)),
+    );
+
+    const missing = items.filter((_, index) => !products[index]);
+    if (missing.length > 0) {
+      throw new BadRequestException(
+        `Productos no encontrados: ${missing.map((i) => i.productId).join(', ')}`,
+      );
+    }
+
+    return items.map((item, index) => ({
+      product: products[index],
+      quantity: item.quantity,
+    }));
+  }
+
+  private buildCart(lines: ShippableLine[]): ShippingCart {
+    return {
+      subtotal: lines.reduce(
+        (sum, line) => sum + Math.round(line.product.price) * line.quantity,
+        0,
+      ),
+      weightGrams: lines.reduce(
+        (sum, line) => sum + (line.product.weightGrams ?? 0) * line.quantity,
+        0,
+      ),
+    };
+  }
+
+  /**
+   * Cada regla necesita sus montos
+   */
+  private validateRateRule(
+    method: Pick<ShippingMethod, 'rateType' | 'perKgAmount' | 'freeOverAmount'>,
+  ): void {
+    if (
+      method.rateType === ShippingRateType.WEIGHT &&
+      (method.perKgAmount === null || method.perKgAmount === undefined)
+    ) {
+      throw new BadRequestException(
+        'La regla por peso requiere el monto por kg (perKgAmount)',
+      );
+    }
+
+    if (
+      method.rateType === ShippingRateType.FREE_OVER_THRESHOLD &&
+      (method.freeOverAmount === null || method.freeOverAmount === undefined)
+    ) {
+      throw new BadRequestException(
+        'La regla de envío gratis requiere el umbral (freeOverAmount)',
+      );
+    }
+  }
+
+  private async assertCodeAvailable(
+    zoneId: string,
+    code: string,
+  ): Promise<void> {
+    if (await this.shippingRepository.findMethodByCode(zoneId, code)) {
+      throw new ConflictException(
+        `El código "${code}" ya está en uso en la zona`,
+      );
+    }
+  }
+
+  private async findZone(id: string): Promise<ShippingZone> {
+    if (!this.isValidUUID(id)) {
+      throw new BadRequestException('ID de zona de envío inválido');
+    }
+
+    const zone = await this.shippingRepository.findZoneById(id);
+    if (!zone) {
+      throw new NotFoundException(`Zona de envío con ID ${id} no encontrada`);
+    }
+    return zone;
+  }
+
+  private async findMethod(id: string): Promise<ShippingMethod> {
+    if (!this.isValidUUID(id)) {
+      throw new BadRequestException('ID de método de envío inválido');
+    }
+
+    const method = await this.shippingRepository.findMethodById(id);
+    if (!method) {
+      throw new NotFoundException(`Método de envío con ID ${id} no encontrado`);
+    }
+    return method;
+  }
+
+  /**
+   * Mapea una zona a DTO de respuesta
+   */
+  private mapToZoneDto(zone: ShippingZone): ShippingZoneResponseDto {
+    return plainToClass(
+      ShippingZoneResponseDto,
+      { ...zone, methods: zone.methods ?? [] },
+      { excludeExtraneousValues: true },
+    );
+  }
+
+  /**
+   * Mapea un método a DTO de respuesta
+   */
+  private mapToMethodDto(method: ShippingMethod): ShippingMethodResponseDto {
+    return plainToClass(ShippingMethodResponseDto, method, {
+      excludeExtraneousValues: true,
+    });
+  }
+
+  /**
+   * Valida si un string es un UUID válido
+   */
+  private isValidUUID(uuid: string): boolean {
+    const uuidRegex =
+      /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+    return uuidRegex.test(uuid);
+  }
+}
@@ -0,0 +1,275 @@
+import {
+  IsBoolean,
+  IsDate,
+  IsEnum,
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  IsUUID,
+  Matches,
+  Max,
+  MaxLength,
+  Min,
+  ValidateIf,
+} from 'class-validator';
+import { Expose, Transform, Type } from 'class-transformer';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { GiftCardSource } from '../../../domain/entities/gift-card.entity';
+import {
+  StoreCreditEntryType,
+  StoreCreditReason,
+} from '../../../domain/entities/store-credit-entry.entity';
+
+export class IssueGiftCardDto {
+  @ApiPropertyOptional({
+    description:
+      'Código de la tarjeta (se guarda en mayúsculas). Si se omite se genera uno aleatorio',
+    example: 'REGALO-NAVIDAD-2026',
+    maxLength: 32,
+  })
+  @IsOptional()
+  @IsString()
+  @Matches(/^[A-Z0-9]+(?:-[A-Z0-9]+)*$/, {
+    message: 'El código debe contener solo letras, números y -',
+  })
+  @MaxLength(32, { message: 'El código no debe exceder 32 caracteres' })
+  @Transform(({ value }) => value?.trim().toUpperCase())
+  code?: string;
+
+  @ApiProperty({
+    description: 'Monto de la tarjeta en centavos',
+    example: 5000,
+    minimum: 1,
+  })
+  @IsInt({ message: 'El monto debe ser un entero en centavos' })
+  @Min(1, { message: 'El monto debe ser mayor a 0' })
+  @Max(100000000, { message: 'El monto no puede exceder 100,000,000' })
+  amount: number;
+
+  @ApiPropertyOptional({
+    description: 'Origen de la tarjeta',
+    enum: GiftCardSource,
+    default: GiftCardSource.ADMIN,
+  })
+  @IsOptional()
+  @IsEnum(GiftCardSource, {
+    message: 'El origen debe ser admin o purchase',
+  })
+  source?: GiftCardSource;
+
+  @ApiPropertyOptional({
+    description:
+      'Cliente que compró la tarjeta (obligatorio si source=purchase)',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @ValidateIf((dto) => dto.source === GiftCardSource.PURCHASE)
+  @IsUUID('4', { message: 'El comprador debe ser un UUID válido' })
+  purchasedBy?: string;
+
+  @ApiPropertyOptional({
+    description: 'Nota interna',
+    example: 'Compensación por envío demorado',
+    maxLength: 500,
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(500, { message: 'La nota no debe exceder 500 caracteres' })
+  note?: string;
+
+  @ApiPropertyOptional({
+    description: 'Fecha hasta la que se puede canjear',
+    example: '2027-12-31T23:59:59.000Z',
+  })
+  @IsOptional()
+  @Type(() => Date)
+  @IsDate({ message: 'La fecha de vencimiento no es válida' })
+  expiresAt?: Date;
+}
+
+export class UpdateGiftCardDto {
+  @ApiPropertyOptional({
+    description: 'Indica si la tarjeta se puede canjear',
+  })
+  @IsOptional()
+  @IsBoolean({ message: 'El estado activo debe ser verdadero o falso' })
+  isActive?: boolean;
+
+  @ApiPropertyOptional({
+    description: 'Fecha hasta la que se puede canjear',
+    example: '2027-12-31T23:59:59.000Z',
+  })
+  @IsOptional()
+  @Type(() => Date)
+  @IsDate({ message: 'La fecha de vencimiento no es válida' })
+  expiresAt?: Date;
+
+  @ApiPropertyOptional({ description: 'Nota interna', maxLength: 500 })
+  @IsOptional()
+  @IsString()
+  @MaxLength(500, { message: 'La nota no debe exceder 500 caracteres' })
+  note?: string;
+}
+
+export class GiftCardResponseDto {
+  @ApiProperty({ example: '123e4567-e89b-12d3-a456-426614174000' })
+  @Expose()
+  id: string;
+
+  @ApiProperty({ example: 'K7QM-2XWP-9RTD-4HNC' })
+  @Expose()
+  code: string;
+
+  @ApiProperty({ description: 'En centavos', example: 5000 })
+  @Expose()
+  initialAmount: number;
+
+  @ApiProperty({ description: 'Saldo sin canjear en centavos', example: 5000 })
+  @Expose()
+  balance: number;
+
+  @ApiProperty({ enum: GiftCardSource })
+  @Expose()
+  source: GiftCardSource;
+
+  @ApiProperty({ nullable: true })
+  @Expose()
+  purchasedBy: string | null;
+
+  @ApiProperty({ nullable: true })
+  @Expose()
+  note: string | null;
+
+  @ApiProperty({ nullable: true })
+  @Expose()
+  expiresAt: Date | null;
+
+  @ApiProperty({ example: true })
+  @Expose()
+  isActive: boolean;
+
+  @ApiProperty({ nullable: true })
+  @Expose()
+  redeemedBy: string | null;
+
+  @ApiProperty({ nullable: true })
+  @Expose()
+  redeemedAt: Date | null;
+
+  @ApiProperty({ example: '2026-12-01T10:30:00.000Z' })
+  @Expose()
+  createdAt: Date;
+}
+
+export class RedeemGiftCardDto {
+  @ApiProperty({
+    description: 'Código de la tarjeta de regalo',
+    example: 'K7QM-2XWP-9RTD-4HNC',
+    maxLength: 32,
+  })
+  @IsNotEmpty({ message: 'El código es obligatorio' })
+  @IsString()
+  @MaxLength(32, { message: 'El código no debe exceder 32 caracteres' })
+  @Transform(({ value }) => value?.trim().toUpperCase())
+  code: string;
+}
+
+export class StoreCreditAdjustmentDto {
+  @ApiProperty({
+    description: 'credit suma saldo; debit lo descuenta',
+    enum: StoreCreditEntryType,
+    example: StoreCreditEntryType.CREDIT,
+  })
+  @IsEnum(StoreCreditEntryType, {
+    message: 'El tipo debe ser credit o debit',
+  })
+  type: StoreCreditEntryType;
+
+  @ApiProperty({
+    description: 'Monto en centavos',
+    example: 2000,
+    minimum: 1,
+  })
+  @IsInt({ message: 'El monto debe ser un entero en centavos' })
+  @Min(1, { message: 'El monto debe ser mayor a 0' })
+  @Max(100000000, { message: 'El monto no puede exceder 100,000,000' })
+  amount: number;
+
+  @ApiProperty({
+    description: 'Motivo del ajuste',
+    example: 'Compensación por producto faltante',
+    maxLength: 500,
+  })
+  @IsNotEmpty({ message: 'El motivo es obligatorio' })
+  @IsString()
+  @MaxLength(500, { message: 'El motivo no debe exceder 500 caracteres' })
+  note: string;
+}
+
+export class StoreCreditEntryDto {
+  @ApiProperty({ example: '123e4567-e89b-12d3-a456-426614174000' })
+  @Expose()
+  id: string;
+
+  @ApiProperty({ enum: StoreCreditEntryType })
+  @Expose()
+  type: StoreCreditEntryType;
+
+  @ApiProperty({ enum: StoreCreditReason })
+  @Expose()
+  reason: StoreCreditReason;
+
+  @ApiProperty({ description: 'Monto en centavos', example: 5000 })
+  @Expose()
+  amountInCents: number;
+
+  @ApiProperty({ description: 'Saldo resultante en centavos', example: 5000 })
+  @Expose()
+  balanceAfterInCents: number;
+
+  @ApiProperty({ nullable: true })
+  @Expose()
+  orderId: string | null;
+
+  @ApiProperty({ nullable: true })
+  @Expose()
+  refundId: string | null;
+
+  @ApiProperty({ nullable: true })
+  @Expose()
+  giftCardId: string | null;
+
+  @ApiProperty({ nullable: true })
+  @Expose()
+  note: string | null;
+
+  @ApiProperty({ example: '2026-12-01T10:30:00.000Z' })
+  @Expose()
+  createdAt: Date;
+}
+
+export class StoreCreditAccountDto {
+  @ApiProperty({ example: '123e4567-e89b-12d3-a456-426614174000' })
+  @Expose()
+  userId: string;
+
+  @ApiProperty({
+    description: 'Saldo disponible (formateado)',
+    example: '50.00',
+  })
+  @Expose()
+  @Transform(({ obj }) => (obj.balanceInCents / 100).toFixed(2))
+  balance: string;
+
+  @ApiProperty({ description: 'Saldo disponible en centavos', example: 5000 })
+  @Expose()
+  balanceInCents: number;
+
+  @ApiProperty({
+    description: 'Últimos movimientos, los más recientes primero',
+    type: [StoreCreditEntryDto],
+  })
+  @Expose()
+  @Type(() => StoreCreditEntryDto)
+  entries: StoreCreditEntryDto[];
+}
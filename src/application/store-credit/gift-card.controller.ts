@@ -0,0 +1,146 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Put,
+  Body,
+  Param,
+  Request,
+  UseGuards,
+  HttpCode,
+  HttpStatus,
+  ValidationPipe,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiParam,
+} from '@nestjs/swagger';
+import { StoreCreditService } from './store-credit.service';
+import {
+  GiftCardResponseDto,
+  IssueGiftCardDto,
+  UpdateGiftCardDto,
+} from './dto/store-credit.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { UserRole } from '../../domain/entities/user.entity';
+
+/**
+ * GiftCardController - Emisión de tarjetas de regalo (Solo Admin)
+ * Las tarjetas no se eliminan: se desactivan para conservar el historial
+ */
+@ApiTags('Tarjetas de regalo')
+@Controller('gift-cards')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Roles(UserRole.ADMIN)
+@ApiBearerAuth()
+export class GiftCardController {
+  constructor(private readonly storeCreditService: StoreCreditService) {}
+
+  /**
+   * Listar tarjetas de regalo
+   */
+  @Get()
+  @ApiOperation({ summary: 'Listar tarjetas de regalo' })
+  @ApiResponse({
+    status: 200,
+    description: 'Tarjetas de regalo',
+    type: [GiftCardResponseDto],
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Acceso denegado - Se requieren permisos de administrador',
+  })
+  async findAll(): Promise<GiftCardResponseDto[]> {
+    return this.storeCreditService.findGiftCards();
+  }
+
+  /**
+   * Obtener tarjeta de regalo
+   */
+  @Get(':id')
+  @ApiOperation({ summary: 'Obtener tarjeta de regalo' })
+  @ApiParam({ name: 'id', type: 'string', description: 'ID de la tarjeta' })
+  @ApiResponse({
+    status: 200,
+    description: 'Tarjeta de regalo',
+    type: GiftCardResponseDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'ID de tarjeta de regalo inválido',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Tarjeta de regalo no encontrada',
+  })
+  async findOne(@Param('id') id: string): Promise<GiftCardResponseDto> {
+    return this.storeCreditService.findGiftCard(id);
+  }
+
+  /**
+   * Emitir tarjeta de regalo
+   */
+  @Post()
+  @HttpCode(HttpStatus.CREATED)
+  @ApiOperation({
+    summary: 'Emitir tarjeta de regalo',
+    description:
+      'Emite un código por un monto en centavos. source=purchase registra la venta a un cliente (purchasedBy).',
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Tarjeta emitida',
+    type: GiftCardResponseDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Datos de entrada inválidos',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Comprador no encontrado',
+  })
+  @ApiResponse({
+    status: 409,
+    description: 'El código ya está en uso',
+  })
+  async issue(
+    @Body(ValidationPipe) issueGiftCardDto: IssueGiftCardDto,
+    @Request() req: any,
+  ): Promise<GiftCardResponseDto> {
+    return this.storeCreditService.issueGiftCard(
+      issueGiftCardDto,
+      req.user.sub,
+    );
+  }
+
+  /**
+   * Actualizar tarjeta de regalo
+   */
+  @Put(':id')
+  @ApiOperation({
+    summary: 'Actualizar tarjeta de regalo',
+    description: 'Activa/desactiva la tarjeta o cambia su vencimiento.',
+  })
+  @ApiParam({ name: 'id', type: 'string', description: 'ID de la tarjeta' })
+  @ApiResponse({
+    status: 200,
+    description: 'Tarjeta actualizada',
+    type: GiftCardResponseDto,
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Tarjeta de regalo no encontrada',
+  })
+  async update(
+    @Param('id') id: string,
+    @Body(ValidationPipe) updateGiftCardDto: UpdateGiftCardDto,
+  ): Promise<GiftCardResponseDto> {
+    return this.storeCreditService.updateGiftCard(id, updateGiftCardDto);
+  }
+}
@@ -0,0 +1,123 @@
+import {
+  GiftCard,
+  GiftCardSource,
+} from '../../../domain/entities/gift-card.entity';
+import { StoreCreditAccount } from '../../../domain/entities/store-credit-account.entity';
+import {
+  StoreCreditEntry,
+  StoreCreditReason,
+} from '../../../domain/entities/store-credit-entry.entity';
+
+export interface GiftCardData {
+  code: string;
+  initialAmount: number;
+  source: GiftCardSource;
+  purchasedBy: string | null;
+  note: string | null;
+  expiresAt: Date | null;
+  isActive: boolean;
+  createdBy: string | null;
+}
+
+/**
+ * Movimiento de saldo a favor (monto en centavos, siempre positivo)
+ */
+export interface StoreCreditMovement {
+  amount: number;
+  reason: StoreCreditReason;
+  orderId?: string | null;
+  refundId?: string | null;
+  checkoutSessionId?: string | null;
+  note?: string | null;
+  createdBy?: string | null;
+}
+
+/**
+ * Abstracción del Repository Pattern para tarjetas de regalo y saldo a favor (DIP)
+ * Todo cambio de saldo bloquea la cuenta y registra un movimiento
+ */
+export interface IStoreCreditRepository {
+  /**
+   * Lista las tarjetas de regalo
+   * @returns Promise<GiftCard[]> Tarjetas, las más recientes primero
+   */
+  findGiftCards(): Promise<GiftCard[]>;
+
+  /**
+   * @returns Promise<GiftCard | null> Tarjeta o null si no existe
+   */
+  findGiftCardById(id: string): Promise<GiftCard | null>;
+
+  /**
+   * Encuentra una tarjeta por código
+   * @param code Código en mayúsculas
+   */
+  findGiftCardByCode(code: string): Promise<GiftCard | null>;
+
+  /**
+   * Emite una tarjeta con todo su monto disponible
+   */
+  createGiftCard(data: GiftCardData): Promise<GiftCard>;
+
+  /**
+   * @returns Promise<GiftCard | null> Tarjeta actualizada o null si no existe
+   */
+  updateGiftCard(
+    id: string,
+    data: Partial<Pick<GiftCardData, 'isActive' | 'expiresAt' | 'note'>>,
+  ): Promise<GiftCard | null>;
+
+  /**
+   * Canjea una tarjeta: bloquea la tarjeta y pasa todo su saldo a la cuenta
+   * del usuario en una transacción
+   * @param code Código en mayúsculas
+   * @param userId Usuario que la canjea
+   * @param assertRedeemable Valida la tarjeta bloqueada (puede lanzar excepciones)
+   * @returns Promise<StoreCreditEntry> Crédito registrado
+   */
+  redeemGiftCard(
+    code: string,
+    userId: string,
+    assertRedeemable: (giftCard: GiftCard | null) => void,
+  ): Promise<StoreCreditEntry>;
+
+  /**
+   * @returns Promise<StoreCreditAccount | null> Cuenta o null si el usuario
+   * nunca tuvo saldo
+   */
+  findAccount(userId: string): Promise<StoreCreditAccount | null>;
+
+  /**
+   * Movimientos de la cuenta de un usuario
+   * @param limit Cantidad máxima, los más recientes primero
+   */
+  findEntries(userId: string, limit: number): Promise<StoreCreditEntry[]>;
+
+  /**
+   * Acredita saldo (crea la cuenta si no existe)
+   */
+  credit(
+    userId: string,
+    movement: StoreCreditMovement,
+  ): Promise<StoreCreditEntry>;
+
+  /**
+   * Debita saldo solo si alcanza
+   * @returns Promise<StoreCreditEntry | null> Débito registrado o null si el
+   * saldo es insuficiente
+   */
+  debit(
+    userId: string,
+    movement: StoreCreditMovement,
+  ): Promise<StoreCreditEntry | null>;
+
+  /**
+   * Devuelve a la cuenta el saldo reservado por una sesión de checkout
+   * Es idempotente: solo acredita lo que siga reservado
+   * @returns Promise<StoreCreditEntry | null> Crédito registrado o null si no
+   * había nada reservado
+   */
+  releaseCheckoutHold(
+    checkoutSessionId: string,
+  ): Promise<StoreCreditEntry | null>;
+}
@@ -0,0 +1,158 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Param,
+  Request,
+  UseGuards,
+  HttpCode,
+  HttpStatus,
+  ValidationPipe,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiParam,
+} from '@nestjs/swagger';
+import { StoreCreditService } from './store-credit.service';
+import {
+  RedeemGiftCardDto,
+  StoreCreditAccountDto,
+  StoreCreditAdjustmentDto,
+  StoreCreditEntryDto,
+} from './dto/store-credit.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { UserRole } from '../../domain/entities/user.entity';
+
+/**
+ * StoreCreditController - Saldo a favor
+ * Los clientes consultan su saldo y canjean tarjetas; los administradores
+ * consultan y ajustan el saldo de cualquier usuario
+ */
+@ApiTags('Saldo a favor')
+@Controller('store-credit')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@ApiBearerAuth()
+export class StoreCreditController {
+  constructor(private readonly storeCreditService: StoreCreditService) {}
+
+  /**
+   * Mi saldo a favor
+   */
+  @Get('me')
+  @Roles(UserRole.ADMIN, UserRole.CLIENT)
+  @ApiOperation({
+    summary: 'Mi saldo a favor',
+    description: 'Saldo disponible y últimos 50 movimientos.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Saldo y movimientos',
+    type: StoreCreditAccountDto,
+  })
+  async getMyAccount(@Request() req: any): Promise<StoreCreditAccountDto> {
+    return this.storeCreditService.getAccount(req.user.sub);
+  }
+
+  /**
+   * Canjear tarjeta de regalo
+   */
+  @Post('redeem')
+  @Roles(UserRole.ADMIN, UserRole.CLIENT)
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Canjear tarjeta de regalo',
+    description:
+      'Acredita todo el saldo de la tarjeta en la cuenta del usuario autenticado.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Tarjeta canjeada; saldo actualizado',
+    type: StoreCreditAccountDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Tarjeta inválida, inactiva, vencida o ya canjeada',
+  })
+  async redeem(
+    @Body(ValidationPipe) redeemGiftCardDto: RedeemGiftCardDto,
+    @Request() req: any,
+  ): Promise<StoreCreditAccountDto> {
+    return this.storeCreditService.redeemGiftCard(
+      req.user.sub,
+      redeemGiftCardDto.code,
+    );
+  }
+
+  /**
+   * Saldo a favor de un usuario
+   */
+  @Get('users/:userId')
+  @Roles(UserRole.ADMIN)
+  @ApiOperation({ summary: 'Saldo a favor de un usuario (Solo Admin)' })
+  @ApiParam({ name: 'userId', type: 'string', description: 'ID del usuario' })
+  @ApiResponse({
+    status: 200,
+    description: 'Saldo y movimientos',
+    type: StoreCreditAccountDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'ID de usuario inválido',
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Acceso denegado - Se requieren permisos de administrador',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Usuario no encontrado',
+  })
+  async getUserAccount(
+    @Param('userId') userId: string,
+  ): Promise<StoreCreditAccountDto> {
+    return this.storeCreditService.getUserAccount(userId);
+  }
+
+  /**
+   * Ajustar saldo a favor
+   */
+  @Post('users/:userId/adjustments')
+  @Roles(UserRole.ADMIN)
+  @HttpCode(HttpStatus.CREATED)
+  @ApiOperation({
+    summary: 'Ajustar saldo a favor (Solo Admin)',
+    description:
+      'Registra un crédito o débito manual con su motivo. Un débito nunca deja el saldo negativo.',
+  })
+  @ApiParam({ name: 'userId', type: 'string', description: 'ID del usuario' })
+  @ApiResponse({
+    status: 201,
+    description: 'Movimiento registrado',
+    type: StoreCreditEntryDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Datos de entrada inválidos',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Usuario no encontrado',
+  })
+  @ApiResponse({
+    status: 409,
+    description: 'El débito supera el saldo disponible',
+  })
+  async adjust(
+    @Param('userId') userId: string,
+    @Body(ValidationPipe) adjustmentDto: StoreCreditAdjustmentDto,
+    @Request() req: any,
+  ): Promise<StoreCreditEntryDto> {
+    return this.storeCreditService.adjust(userId, adjustmentDto, req.user.sub);
+  }
+}
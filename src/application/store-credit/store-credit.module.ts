@@ -0,0 +1,27 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { StoreCreditService } from './store-credit.service';
+import { StoreCreditController } from './store-credit.controller';
+import { GiftCardController } from './gift-card.controller';
+import { UserModule } from '../users/user.module';
+import { GiftCard } from '../../domain/entities/gift-card.entity';
+import { StoreCreditAccount } from '../../domain/entities/store-credit-account.entity';
+import { StoreCreditEntry } from '../../domain/entities/store-credit-entry.entity';
+import { StoreCreditRepository } from '../../infrastructure/repositories/store-credit.repository';
+
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([GiftCard, StoreCreditAccount, StoreCreditEntry]),
+    UserModule,
+  ],
+  controllers: [StoreCreditController, GiftCardController],
+  providers: [
+    StoreCreditService,
+    {
+      provide: 'IStoreCreditRepository',
+      useClass: StoreCreditRepository,
+    },
+  ],
+  exports: [StoreCreditService],
+})
+export class StoreCreditModule {}
@@ -0,0 +1,271 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import {
+  BadRequestException,
+  ConflictException,
+  NotFoundException,
+} from '@nestjs/common';
+import { StoreCreditService } from './store-credit.service';
+import {
+  GiftCard,
+  GiftCardSource,
+} from '../../domain/entities/gift-card.entity';
+import {
+  StoreCreditEntryType,
+  StoreCreditReason,
+} from '../../domain/entities/store-credit-entry.entity';
+
+describe('StoreCreditService', () => {
+  let service: StoreCreditService;
+
+  const userId = '550e8400-e29b-41d4-a716-446655440001';
+  const adminId = '550e8400-e29b-41d4-a716-446655440002';
+  const giftCardId = '550e8400-e29b-41d4-a716-446655440060';
+  const checkoutSessionId = '550e8400-e29b-41d4-a716-446655440010';
+
+  const buildGiftCard = (overrides: Partial<GiftCard> = {}): GiftCard =>
+    Object.assign(new GiftCard(), {
+      id: giftCardId,
+      code: 'K7QM-2XWP-9RTD-4HNC',
+      initialAmount: 5000,
+      balance: 5000,
+      source: GiftCardSource.ADMIN,
+      purchasedBy: null,
+      note: null,
+      expiresAt: null,
+      isActive: true,
+      redeemedBy: null,
+      redeemedAt: null,
+      ...overrides,
+    });
+
+  const mockStoreCreditRepository = {
+    findGiftCards: jest.fn(),
+    findGiftCardById: jest.fn(),
+    findGiftCardByCode: jest.fn(),
+    createGiftCard: jest.fn(),
+    updateGiftCard: jest.fn(),
+    redeemGiftCard: jest.fn(),
+    findAccount: jest.fn(),
+    findEntries: jest.fn(),
+    credit: jest.fn(),
+    debit: jest.fn(),
+    releaseCheckoutHold: jest.fn(),
+  };
+
+  const mockUserRepository = {
+    findById: jest.fn(),
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        StoreCreditService,
+        {
+          provide: 'IStoreCreditRepository',
+          useValue: mockStoreCreditRepository,
+        },
+        { provide: 'IUserRepository', useValue: mockUserRepository },
+      ],
+    }).compile();
+
+    service = module.get<StoreCreditService>(StoreCreditService);
+
+    jest.clearAllMocks();
+
+    mockStoreCreditRepository.findEntries.mockResolvedValue([]);
+  });
+
+  describe('issueGiftCard', () => {
+    it('should generate a free XXXX-XXXX-XXXX-XXXX code when none is given', async () => {
+      // Arrange
+      mockStoreCreditRepository.findGiftCardByCode.mockResolvedValue(null);
+      mockStoreCreditRepository.createGiftCard.mockImplementation(
+        async (data) => buildGiftCard({ ...data, balance: data.initialAmount }),
+      );
+
+      // Act
+      const result = await service.issueGiftCard({ amount: 5000 }, adminId);
+
+      // Assert
+      expect(result.code).toMatch(
+        /^[A-HJ-NP-Z2-9]{4}-[A-HJ-NP-Z2-9]{4}-[A-HJ-NP-Z2-9]{4}-[A-HJ-NP-Z2-9]{4}$/,
+      );
+      expect(mockStoreCreditRepository.createGiftCard).toHaveBeenCalledWith(
+        expect.objectContaining({
+          initialAmount: 5000,
+          source: GiftCardSource.ADMIN,
+          purchasedBy: null,
+          createdBy: adminId,
+        }),
+      );
+    });
+
+    it('should reject a code that is already in use', async () => {
+      // Arrange
+      mockStoreCreditRepository.findGiftCardByCode.mockResolvedValue(
+        buildGiftCard({ code: 'NAVIDAD' }),
+      );
+
+      // Act & Assert
+      await expect(
+        service.issueGiftCard({ code: 'NAVIDAD', amount: 5000 }, adminId),
+      ).rejects.toThrow(ConflictException);
+      expect(mockStoreCreditRepository.createGiftCard).not.toHaveBeenCalled();
+    });
+
+    it('should require an existing purchaser for purchased cards', async () => {
+      // Arrange
+      mockStoreCreditRepository.findGiftCardByCode.mockResolvedValue(null);
+      mockUserRepository.findById.mockResolvedValue(null);
+
+      // Act & Assert
+      await expect(
+        service.issueGiftCard(
+          {
+            amount: 5000,
+            source: GiftCardSource.PURCHASE,
+            purchasedBy: userId,
+          },
+          adminId,
+        ),
+      ).rejects.toThrow(NotFoundException);
+    });
+  });
+
+  describe('redeemGiftCard', () => {
+    it('should credit the whole card and return the updated account', async () => {
+      // Arrange
+      mockStoreCreditRepository.redeemGiftCard.mockImplementation(
+        async (_code, _userId, assertRedeemable) => {
+          assertRedeemable(buildGiftCard());
+          return { id: 'entry-1', giftCardId, amount: 5000 };
+        },
+      );
+      mockStoreCreditRepository.findAccount.mockResolvedValue({
+        userId,
+        balance: 5000,
+      });
+
+      // Act
+      const result = await service.redeemGiftCard(
+        userId,
+        ' k7qm-2xwp-9rtd-4hnc ',
+      );
+
+      // Assert
+      expect(mockStoreCreditRepository.redeemGiftCard).toHaveBeenCalledWith(
+        'K7QM-2XWP-9RTD-4HNC',
+        userId,
+        expect.any(Function),
+      );
+      expect(result.balanceInCents).toBe(5000);
+      expect(result.balance).toBe('50.00');
+    });
+
+    it('should reject cards that are expired or already redeemed', async () => {
+      // Arrange
+      const expired = buildGiftCard({ expiresAt: new Date('2020-01-01') });
+      const redeemed = buildGiftCard({ balance: 0, redeemedBy: userId });
+      for (const giftCard of [null, expired, redeemed]) {
+        mockStoreCreditRepository.redeemGiftCard.mockImplementationOnce(
+          async (_code, _userId, assertRedeemable) => {
+            assertRedeemable(giftCard);
+          },
+        );
+
+        // Act & Assert
+        await expect(
+          service.redeemGiftCard(userId, 'K7QM-2XWP-9RTD-4HNC'),
+        ).rejects.toThrow(BadRequestException);
+      }
+    });
+  });
+
+  describe('adjust', () => {
+    it('should record a manual credit with its reason', async () => {
+      // Arrange
+      mockUserRepository.findById.mockResolvedValue({ id: userId });
+      mockStoreCreditRepository.credit.mockResolvedValue({
+        id: 'entry-1',
+        type: StoreCreditEntryType.CREDIT,
+        reason: StoreCreditReason.ADJUSTMENT,
+        amount: 2000,
+        balanceAfter: 2000,
+      });
+
+      // Act
+      const result = await service.adjust(
+        userId,
+        {
+          type: StoreCreditEntryType.CREDIT,
+          amount: 2000,
+          note: 'Compensación',
+        },
+        adminId,
+      );
+
+      // Assert
+      expect(mockStoreCreditRepository.credit).toHaveBeenCalledWith(userId, {
+        amount: 2000,
+        reason: StoreCreditReason.ADJUSTMENT,
+        note: 'Compensación',
+        createdBy: adminId,
+      });
+      expect(result.amountInCents).toBe(2000);
+      expect(result.balanceAfterInCents).toBe(2000);
+    });
+
+    it('should throw ConflictException when a debit exceeds the balance', async () => {
+      // Arrange
+      mockUserRepository.findById.mockResolvedValue({ id: userId });
+      mockStoreCreditRepository.debit.mockResolvedValue(null);
+
+      // Act & Assert
+      await expect(
+        service.adjust(
+          userId,
+          { type: StoreCreditEntryType.DEBIT, amount: 2000, note: 'Error' },
+          adminId,
+        ),
+      ).rejects.toThrow(ConflictException);
+    });
+  });
+
+  describe('hold', () => {
+    it('should debit the amount against the checkout session', async () => {
+      // Arrange
+      mockStoreCreditRepository.debit.mockResolvedValue({ id: 'entry-1' });
+
+      // Act
+      await service.hold(userId, 1500, checkoutSessionId);
+
+      // Assert
+      expect(mockStoreCreditRepository.debit).toHaveBeenCalledWith(userId, {
+        amount: 1500,
+        reason: StoreCreditReason.CHECKOUT_HOLD,
+        checkoutSessionId,
+        createdBy: userId,
+      });
+    });
+
+    it('should report the available balance when it is not enough', async () => {
+      // Arrange
+      mockStoreCreditRepository.debit.mockResolvedValue(null);
+      mockStoreCreditRepository.findAccount.mockResolvedValue({
+        userId,
+        balance: 1000,
+      });
+
+      // Act & Assert
+      await expect(
+        service.hold(userId, 1500, checkoutSessionId),
+      ).rejects.toMatchObject({
+        response: {
+          code: 'INSUFFICIENT_STORE_CREDIT',
+          available: 1000,
+          requested: 1500,
+        },
+      });
+    });
+  });
+});
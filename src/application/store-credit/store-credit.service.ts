@@ -0,0 +1,364 @@
+import {
+  Injectable,
+  Logger,
+  Inject,
+  NotFoundException,
+  BadRequestException,
+  ConflictException,
+} from '@nestjs/common';
+import { plainToClass } from 'class-transformer';
+import { randomBytes } from 'crypto';
+import { IStoreCreditRepository } from './interfaces/store-credit-repository.interface';
+import { IUserRepository } from '../users/interfaces/user-repository.interface';
+import {
+  GiftCardResponseDto,
+  IssueGiftCardDto,
+  StoreCreditAccountDto,
+  StoreCreditAdjustmentDto,
+  StoreCreditEntryDto,
+  UpdateGiftCardDto,
+} from './dto/store-credit.dto';
+import {
+  GiftCard,
+  GiftCardSource,
+} from '../../domain/entities/gift-card.entity';
+import {
+  StoreCreditEntry,
+  StoreCreditEntryType,
+  StoreCreditReason,
+} from '../../domain/entities/store-credit-entry.entity';
+
+// Sin caracteres ambiguos (0/O, 1/I)
+const GIFT_CARD_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+const ACCOUNT_ENTRIES_LIMIT = 50;
+
+/**
+ * StoreCreditService - Tarjetas de regalo y saldo a favor
+ *
+ * Las tarjetas se canjean completas a la cuenta del usuario; el saldo se
+ * aplica total o parcialmente al crear órdenes y el resto se cobra con el
+ * proveedor de pagos. Cada cambio de saldo queda como un movimiento
+ */
+@Injectable()
+export class StoreCreditService {
+  private readonly logger = new Logger(StoreCreditService.name);
+
+  constructor(
+    @Inject('IStoreCreditRepository')
+    private readonly storeCreditRepository: IStoreCreditRepository,
+    @Inject('IUserRepository')
+    private readonly userRepository: IUserRepository,
+  ) {}
+
+  /**
+   * Lista las tarjetas de regalo
+   */
+  async findGiftCards(): Promise<GiftCardResponseDto[]> {
+    const giftCards = await this.storeCreditRepository.findGiftCards();
+    return giftCards.map((giftCard) => this.mapToGiftCardDto(giftCard));
+  }
+
+  /**
+   * Obtiene una tarjeta de regalo
+   * @throws NotFoundException si no existe
+   */
+  async findGiftCard(id: string): Promise<GiftCardResponseDto> {
+    return this.mapToGiftCardDto(await this.findGiftCardById(id));
+  }
+
+  /**
+   * Emite una tarjeta de regalo
+   * @param dto Monto, origen y vencimiento
+   * @param adminId Administrador que la emite
+   * @throws ConflictException si el código ya existe
+   * @throws NotFoundException si el comprador no existe
+   */
+  async issueGiftCard(
+    dto: IssueGiftCardDto,
+    adminId: string,
+  ): Promise<GiftCardResponseDto> {
+    const code = dto.code ?? (await this.generateGiftCardCode());
+    if (
+      dto.code &&
+      (await this.storeCreditRepository.findGiftCardByCode(dto.code))
+    ) {
+      throw new ConflictException(`El código "${dto.code}" ya está en uso`);
+    }
+
+    if (dto.expiresAt && dto.expiresAt <= new Date()) {
+      throw new BadRequestException('La fecha de vencimiento debe ser futura');
+    }
+
+    const source = dto.source ?? GiftCardSource.ADMIN;
+    if (source === GiftCardSource.PURCHASE) {
+      await this.findUser(dto.purchasedBy);
+    }
+
+    const giftCard = await this.storeCreditRepository.createGiftCard({
+      code,
+      initialAmount: dto.amount,
+      source,
+      purchasedBy: source === GiftCardSource.PURCHASE ? dto.purchasedBy : null,
+      note: dto.note ?? null,
+      expiresAt: dto.expiresAt ?? null,
+      isActive: true,
+      createdBy: adminId,
+    });
+
+    this.logger.log(
+      `Tarjeta de regalo ${giftCard.id} emitida por ${dto.amount} centavos`,
+    );
+    return this.mapToGiftCardDto(giftCard);
+  }
+
+  /**
+   * Activa/desactiva una tarjeta o cambia su vencimiento (el monto no cambia)
+   * @throws NotFoundException si no existe
+   */
+  async updateGiftCard(
+    id: string,
+    dto: UpdateGiftCardDto,
+  ): Promise<GiftCardResponseDto> {
+    await this.findGiftCardById(id);
+
+    const giftCard = await this.storeCreditRepository.updateGiftCard(id, dto);
+    if (!giftCard) {
+      throw new NotFoundException(
+        `Tarjeta de regalo con ID ${id} no encontrada`,
+      );
+    }
+    return this.mapToGiftCardDto(giftCard);
+  }
+
+  /**
+   * Canjea una tarjeta de regalo: todo su saldo pasa a la cuenta del usuario
+   * @param userId Usuario que la canjea
+   * @param code Código de la tarjeta
+   * @returns Promise<StoreCreditAccountDto> Cuenta con el saldo actualizado
+   * @throws BadRequestException si la tarjeta no existe, está inactiva,
+   * vencida o ya se canjeó
+   */
+  async redeemGiftCard(
+    userId: string,
+    code: string,
+  ): Promise<StoreCreditAccountDto> {
+    const normalized = code.trim().toUpperCase();
+
+    const entry = await this.storeCreditRepository.redeemGiftCard(
+      normalized,
+      userId,
+      (giftCard) => {
+        if (!giftCard || !giftCard.isRedeemable()) {
+          throw new BadRequestException(
+            `La tarjeta de regalo ${normalized} no es válida, está vencida o ya se canjeó`,
+          );
+        }
+      },
+    );
+
+    this.logger.log(
+      `Tarjeta de regalo ${entry.giftCardId} canjeada por usuario ${userId}`,
+    );
+    return this.getAccount(userId);
+  }
+
+  /**
+   * Saldo y últimos movimientos de un usuario
+   */
+  async getAccount(userId: string): Promise<StoreCreditAccountDto> {
+    const [account, entries] = await Promise.all([
+      this.storeCreditRepository.findAccount(userId),
+      this.storeCreditRepository.findEntries(userId, ACCOUNT_ENTRIES_LIMIT),
+    ]);
+
+    return plainToClass(
+      StoreCreditAccountDto,
+      {
+        userId,
+        balanceInCents: account?.balance ?? 0,
+        entries: entries.map((entry) => this.mapToEntryDto(entry)),
+      },
+      { excludeExtraneousValues: true },
+    );
+  }
+
+  /**
+   * Saldo y últimos movimientos de cualquier usuario (solo admin)
+   * @throws NotFoundException si el usuario no existe
+   */
+  async getUserAccount(userId: string): Promise<StoreCreditAccountDto> {
+    await this.findUser(userId);
+    return this.getAccount(userId);
+  }
+
+  /**
+   * Saldo disponible de un usuario en centavos
+   */
+  async getBalance(userId: string): Promise<number> {
+    const account = await this.storeCreditRepository.findAccount(userId);
+    return account?.balance ?? 0;
+  }
+
+  /**
+   * Ajuste manual del saldo (solo admin)
+   * @throws NotFoundException si el usuario no existe
+   * @throws ConflictException si un débito supera el saldo
+   */
+  async adjust(
+    userId: string,
+    dto: StoreCreditAdjustmentDto,
+    adminId: string,
+  ): Promise<StoreCreditEntryDto> {
+    await this.findUser(userId);
+
+    const movement = {
+      amount: dto.amount,
+      reason: StoreCreditReason.ADJUSTMENT,
+      note: dto.note,
+      createdBy: adminId,
+    };
+    const entry =
+      dto.type === StoreCreditEntryType.CREDIT
+        ? await this.storeCreditRepository.credit(userId, movement)
+        : await this.storeCreditRepository.debit(userId, movement);
+    if (!entry) {
+      throw new ConflictException(
+        'El débito supera el saldo a favor disponible',
+      );
+    }
+
+    this.logger.log(
+      `Ajuste de saldo ${entry.id} (${dto.type} ${dto.amount}) para usuario ${userId}`,
+    );
+    return this.mapToEntryDto(entry);
+  }
+
+  /**
+   * Verifica que el saldo alcance; se repite con la cuenta bloqueada al
+   * debitarlo con la orden
+   * @throws ConflictException si el saldo es insuficiente
+   */
+  assertBalance(balance: number, amount: number): void {
+    if (balance < amount) {
+      throw this.insufficientBalance(balance, amount);
+    }
+  }
+
+  /**
+   * Reserva saldo para una sesión de checkout (se debita al crearla)
+   * @throws ConflictException si el saldo es insuficiente
+   */
+  async hold(
+    userId: string,
+    amount: number,
+    checkoutSessionId: string,
+  ): Promise<void> {
+    const entry = await this.storeCreditRepository.debit(userId, {
+      amount,
+      reason: StoreCreditReason.CHECKOUT_HOLD,
+      checkoutSessionId,
+      createdBy: userId,
+    });
+    if (!entry) {
+      throw this.insufficientBalance(await this.getBalance(userId), amount);
+    }
+  }
+
+  /**
+   * Devuelve el saldo reservado por una sesión de checkout que no se pagó
+   */
+  async releaseHold(checkoutSessionId: string): Promise<void> {
+    const entry =
+      await this.storeCreditRepository.releaseCheckoutHold(checkoutSessionId);
+    if (entry) {
+      this.logger.log(
+        `Saldo reservado por checkout session ${checkoutSessionId} devuelto (${entry.amount} centavos)`,
+      );
+    }
+  }
+
+  private insufficientBalance(
+    balance: number,
+    amount: number,
+  ): ConflictException {
+    return new ConflictException({
+      message: 'Saldo a favor insuficiente',
+      code: 'INSUFFICIENT_STORE_CREDIT',
+      available: balance,
+      requested: amount,
+    });
+  }
+
+  /**
+   * Genera un código libre con formato XXXX-XXXX-XXXX-XXXX
+   */
+  private async generateGiftCardCode(): Promise<string> {
+    for (;;) {
+      const chars = Array.from(
+        randomBytes(16),
+        (byte) => GIFT_CARD_ALPHABET[byte % GIFT_CARD_ALPHABET.length],
+      ).join('');
+      const code = chars.match(/.{4}/g).join('-');
+      if (!(await this.storeCreditRepository.findGiftCardByCode(code))) {
+        return code;
+      }
+    }
+  }
+
+  private async findUser(userId: string): Promise<void> {
+    if (!this.isValidUUID(userId)) {
+      throw new BadRequestException('ID de usuario inválido');
+    }
+
+    if (!(await this.userRepository.findById(userId))) {
+      throw new NotFoundException(`Usuario con ID ${userId} no encontrado`);
+    }
+  }
+
+  private async findGiftCardById(id: string): Promise<GiftCard> {
+    if (!this.isValidUUID(id)) {
+      throw new BadRequestException('ID de tarjeta de regalo inválido');
+    }
+
+    const giftCard = await this.storeCreditRepository.findGiftCardById(id);
+    if (!giftCard) {
+      throw new NotFoundException(
+        `Tarjeta de regalo con ID ${id} no encontrada`,
+      );
+    }
+    return giftCard;
+  }
+
+  /**
+   * Mapea una tarjeta de regalo a DTO de respuesta
+   */
+  private mapToGiftCardDto(giftCard: GiftCard): GiftCardResponseDto {
+    return plainToClass(GiftCardResponseDto, giftCard, {
+      excludeExtraneousValues: true,
+    });
+  }
+
+  /**
+   * Mapea un movimiento a DTO de respuesta
+   */
+  private mapToEntryDto(entry: StoreCreditEntry): StoreCreditEntryDto {
+    return plainToClass(
+      StoreCreditEntryDto,
+      {
+        ...entry,
+        amountInCents: entry.amount,
+        balanceAfterInCents: entry.balanceAfter,
+      },
+      { excludeExtraneousValues: true },
+    );
+  }
+
+  /**
+   * Valida si un string es un UUID válido
+   */
+  private isValidUUID(uuid: string): boolean {
+    const uuidRegex =
+      /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+    return uuidRegex.test(uuid);
+  }
+}
@@ -0,0 +1,127 @@
+import {
+  IsString,
+  IsOptional,
+  IsNumber,
+  Min,
+  Max,
+  Length,
+  Matches,
+  MaxLength,
+  IsNotEmpty,
+} from 'class-validator';
+import { Expose, Transform } from 'class-transformer';
+import { ApiProperty, ApiPropertyOptional, PartialType } from '@nestjs/swagger';
+import { DEFAULT_TAX_CATEGORY } from '../../../domain/entities/tax-rate.entity';
+
+export class CreateTaxRateDto {
+  @ApiProperty({
+    description: 'País (ISO 3166-1 alfa-2)',
+    example: 'CO',
+  })
+  @IsNotEmpty({ message: 'El país es obligatorio' })
+  @IsString()
+  @Length(2, 2, { message: 'El país debe ser un código ISO de 2 letras' })
+  @Matches(/^[A-Za-z]{2}$/, {
+    message: 'El país debe ser un código ISO de 2 letras',
+  })
+  @Transform(({ value }) => value?.trim().toUpperCase())
+  country: string;
+
+  @ApiPropertyOptional({
+    description: 'Región o estado (vacío = todo el país)',
+    example: 'ANTIOQUIA',
+    maxLength: 100,
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(100, { message: 'La región no debe exceder 100 caracteres' })
+  @Transform(({ value }) => value?.trim().toUpperCase() || undefined)
+  region?: string;
+
+  @ApiPropertyOptional({
+    description: 'Categoría fiscal de producto',
+    example: DEFAULT_TAX_CATEGORY,
+    default: DEFAULT_TAX_CATEGORY,
+    maxLength: 50,
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(50, {
+    message: 'La categoría fiscal no debe exceder 50 caracteres',
+  })
+  @Transform(({ value }) => value?.trim().toLowerCase())
+  taxCategory?: string;
+
+  @ApiProperty({
+    description: 'Nombre del impuesto',
+    example: 'IVA',
+    maxLength: 100,
+  })
+  @IsNotEmpty({ message: 'El nombre es obligatorio' })
+  @IsString()
+  @MaxLength(100, { message: 'El nombre no debe exceder 100 caracteres' })
+  name: string;
+
+  @ApiProperty({
+    description: 'Porcentaje del impuesto',
+    example: 19,
+    minimum: 0,
+    maximum: 100,
+  })
+  @IsNotEmpty({ message: 'La tasa es obligatoria' })
+  @IsNumber(
+    { allowNaN: false, allowInfinity: false, maxDecimalPlaces: 2 },
+    { message: 'La tasa debe ser un número con hasta 2 decimales' },
+  )
+  @Min(0, { message: 'La tasa no puede ser negativa' })
+  @Max(100, { message: 'La tasa no puede exceder 100%' })
+  rate: number;
+}
+
+export class UpdateTaxRateDto extends PartialType(CreateTaxRateDto) {}
+
+export class TaxRateQueryDto {
+  @ApiPropertyOptional({
+    description: 'Filtrar por país (ISO 3166-1 alfa-2)',
+    example: 'CO',
+  })
+  @IsOptional()
+  @IsString()
+  @Length(2, 2, { message: 'El país debe ser un código ISO de 2 letras' })
+  @Transform(({ value }) => value?.trim().toUpperCase())
+  country?: string;
+}
+
+export class TaxRateResponseDto {
+  @ApiProperty({ example: '123e4567-e89b-12d3-a456-426614174000' })
+  @Expose()
+  id: string;
+
+  @ApiProperty({ example: 'CO' })
+  @Expose()
+  country: string;
+
+  @ApiProperty({ example: 'ANTIOQUIA', nullable: true })
+  @Expose()
+  region: string | null;
+
+  @ApiProperty({ example: DEFAULT_TAX_CATEGORY })
+  @Expose()
+  taxCategory: string;
+
+  @ApiProperty({ example: 'IVA' })
+  @Expose()
+  name: string;
+
+  @ApiProperty({ description: 'Porcentaje', example: 19 })
+  @Expose()
+  rate: number;
+
+  @ApiProperty({ example: '2023-12-01T10:30:00.000Z' })
+  @Expose()
+  createdAt: Date;
+
+  @ApiProperty({ example: '2023-12-01T10:30:00.000Z' })
+  @Expose()
+  updatedAt: Date;
+}
@@ -0,0 +1,63 @@
+import { TaxRate } from '../../../domain/entities/tax-rate.entity';
+
+export interface TaxRateData {
+  country: string;
+  region: string | null;
+  taxCategory: string;
+  name: string;
+  rate: number;
+}
+
+/**
+ * Abstracción del Repository Pattern para TaxRates (DIP)
+ */
+export interface ITaxRateRepository {
+  /**
+   * Lista las tasas, opcionalmente de un país
+   * @param country Código ISO del país
+   * @returns Promise<TaxRate[]> Tasas ordenadas por país, región y categoría
+   */
+  findAll(country?: string): Promise<TaxRate[]>;
+
+  /**
+   * Encuentra una tasa por ID
+   * @param id UUID de la tasa
+   * @returns Promise<TaxRate | null> Tasa o null si no existe
+   */
+  findById(id: string): Promise<TaxRate | null>;
+
+  /**
+   * Encuentra la tasa de un país/región y categoría exactos
+   * @returns Promise<TaxRate | null> Tasa o null si no existe
+   */
+  findByScope(
+    country: string,
+    region: string | null,
+    taxCategory: string,
+  ): Promise<TaxRate | null>;
+
+  /**
+   * Tasas aplicables a un destino: las del país sin región y las de la región
+   * @param country Código ISO del país
+   * @param region Región (null = solo las del país)
+   * @returns Promise<TaxRate[]> Tasas aplicables
+   */
+  findApplicable(country: string, region: string | null): Promise<TaxRate[]>;
+
+  /**
+   * Crea una tasa
+   */
+  create(data: TaxRateData): Promise<TaxRate>;
+
+  /**
+   * Actualiza una tasa
+   * @returns Promise<TaxRate | null> Tasa actualizada o null si no existe
+   */
+  update(id: string, data: Partial<TaxRateData>): Promise<TaxRate | null>;
+
+  /**
+   * Elimina una tasa
+   * @returns Promise<boolean> true si se eliminó
+   */
+  delete(id: string): Promise<boolean>;
+}
@@ -0,0 +1,167 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Put,
+  Delete,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+  HttpCode,
+  HttpStatus,
+  ValidationPipe,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiParam,
+} from '@nestjs/swagger';
+import { TaxService } from './tax.service';
+import {
+  CreateTaxRateDto,
+  TaxRateQueryDto,
+  TaxRateResponseDto,
+  UpdateTaxRateDto,
+} from './dto/tax-rate.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { UserRole } from '../../domain/entities/user.entity';
+
+/**
+ * TaxController - Gestión de tasas de impuesto (Solo Admin)
+ */
+@ApiTags('Impuestos')
+@Controller('tax-rates')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Roles(UserRole.ADMIN)
+@ApiBearerAuth()
+export class TaxController {
+  constructor(private readonly taxService: TaxService) {}
+
+  /**
+   * Listar tasas de impuesto
+   */
+  @Get()
+  @ApiOperation({
+    summary: 'Listar tasas de impuesto',
+    description: 'Tasas por país/región y categoría fiscal de producto.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Tasas de impuesto',
+    type: [TaxRateResponseDto],
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Acceso denegado - Se requieren permisos de administrador',
+  })
+  async findAll(
+    @Query(ValidationPipe) query: TaxRateQueryDto,
+  ): Promise<TaxRateResponseDto[]> {
+    return this.taxService.findAll(query);
+  }
+
+  /**
+   * Obtener tasa de impuesto
+   */
+  @Get(':id')
+  @ApiOperation({ summary: 'Obtener tasa de impuesto' })
+  @ApiParam({ name: 'id', type: 'string', description: 'ID de la tasa' })
+  @ApiResponse({
+    status: 200,
+    description: 'Tasa de impuesto',
+    type: TaxRateResponseDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'ID de tasa inválido',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Tasa no encontrada',
+  })
+  async findOne(@Param('id') id: string): Promise<TaxRateResponseDto> {
+    return this.taxService.findOne(id);
+  }
+
+  /**
+   * Crear tasa de impuesto
+   */
+  @Post()
+  @HttpCode(HttpStatus.CREATED)
+  @ApiOperation({
+    summary: 'Crear tasa de impuesto',
+    description:
+      'Sin región aplica a todo el país; una tasa de región tiene prioridad.',
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Tasa creada',
+    type: TaxRateResponseDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Datos de entrada inválidos',
+  })
+  @ApiResponse({
+    status: 409,
+    description: 'Ya existe una tasa para ese país/región y categoría',
+  })
+  async create(
+    @Body(ValidationPipe) createTaxRateDto: CreateTaxRateDto,
+  ): Promise<TaxRateResponseDto> {
+    return this.taxService.create(createTaxRateDto);
+  }
+
+  /**
+   * Actualizar tasa de impuesto
+   */
+  @Put(':id')
+  @ApiOperation({
+    summary: 'Actualizar tasa de impuesto',
+    description: 'Solo afecta a órdenes nuevas o a ítems editados.',
+  })
+  @ApiParam({ name: 'id', type: 'string', description: 'ID de la tasa' })
+  @ApiResponse({
+    status: 200,
+    description: 'Tasa actualizada',
+    type: TaxRateResponseDto,
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Tasa no encontrada',
+  })
+  @ApiResponse({
+    status: 409,
+    description: 'Ya existe una tasa para ese país/región y categoría',
+  })
+  async update(
+    @Param('id') id: string,
+    @Body(ValidationPipe) updateTaxRateDto: UpdateTaxRateDto,
+  ): Promise<TaxRateResponseDto> {
+    return this.taxService.update(id, updateTaxRateDto);
+  }
+
+  /**
+   * Eliminar tasa de impuesto
+   */
+  @Delete(':id')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({ summary: 'Eliminar tasa de impuesto' })
+  @ApiParam({ name: 'id', type: 'string', description: 'ID de la tasa' })
+  @ApiResponse({
+    status: 204,
+    description: 'Tasa eliminada',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Tasa no encontrada',
+  })
+  async remove(@Param('id') id: string): Promise<void> {
+    return this.taxService.remove(id);
+  }
+}
@@ -0,0 +1,20 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { TaxService } from './tax.service';
+import { TaxController } from './tax.controller';
+import { TaxRate } from '../../domain/entities/tax-rate.entity';
+import { TaxRateRepository } from '../../infrastructure/repositories/tax-rate.repository';
+
+@Module({
+  imports: [TypeOrmModule.forFeature([TaxRate])],
+  controllers: [TaxController],
+  providers: [
+    TaxService,
+    {
+      provide: 'ITaxRateRepository',
+      useClass: TaxRateRepository,
+    },
+  ],
+  exports: [TaxService],
+})
+export class TaxModule {}
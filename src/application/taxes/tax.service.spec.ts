@@ -0,0 +1,159 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { ConflictException } from '@nestjs/common';
+import { TaxService } from './tax.service';
+import {
+  TaxPricingMode,
+  calculateLineTax,
+} from '../../domain/entities/tax-rate.entity';
+
+describe('TaxService', () => {
+  let service: TaxService;
+
+  const config: Record<string, unknown> = {};
+
+  const mockTaxRateRepository = {
+    findAll: jest.fn(),
+    findById: jest.fn(),
+    findByScope: jest.fn(),
+    findApplicable: jest.fn(),
+    create: jest.fn(),
+    update: jest.fn(),
+    delete: jest.fn(),
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        TaxService,
+        { provide: 'ITaxRateRepository', useValue: mockTaxRateRepository },
+        {
+          provide: ConfigService,
+          useValue: {
+            get: jest.fn(
+              (key: string, defaultValue?: unknown) =>
+                config[key] ?? defaultValue,
+            ),
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get<TaxService>(TaxService);
+
+    jest.clearAllMocks();
+    delete config.TAX_DEFAULT_COUNTRY;
+    delete config.TAX_PRICING_MODE;
+  });
+
+  describe('resolveSchedule', () => {
+    it('should let regional rates override country rates', async () => {
+      // Arrange
+      mockTaxRateRepository.findApplicable.mockResolvedValue([
+        { country: 'US', region: 'CA', taxCategory: 'standard', rate: 7.25 },
+        { country: 'US', region: null, taxCategory: 'standard', rate: 0 },
+        { country: 'US', region: null, taxCategory: 'food', rate: 1 },
+      ]);
+
+      // Act
+      const schedule = await service.resolveSchedule('us', ' ca ');
+
+      // Assert
+      expect(mockTaxRateRepository.findApplicable).toHaveBeenCalledWith(
+        'US',
+        'CA',
+      );
+      expect(schedule).toEqual({
+        country: 'US',
+        region: 'CA',
+        mode: TaxPricingMode.EXCLUSIVE,
+        rates: { standard: 7.25, food: 1 },
+      });
+    });
+
+    it('should fall back to the default country and pricing mode', async () => {
+      // Arrange
+      config.TAX_DEFAULT_COUNTRY = 'co';
+      config.TAX_PRICING_MODE = TaxPricingMode.INCLUSIVE;
+      mockTaxRateRepository.findApplicable.mockResolvedValue([
+        { country: 'CO', region: null, taxCategory: 'standard', rate: 19 },
+      ]);
+
+      // Act
+      const schedule = await service.resolveSchedule();
+
+      // Assert
+      expect(schedule.country).toBe('CO');
+      expect(schedule.mode).toBe(TaxPricingMode.INCLUSIVE);
+      expect(schedule.rates).toEqual({ standard: 19 });
+    });
+
+    it('should not tax orders without destination country', async () => {
+      // Act
+      const schedule = await service.resolveSchedule();
+
+      // Assert
+      expect(schedule.rates).toEqual({});
+      expect(mockTaxRateRepository.findApplicable).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('create', () => {
+    it('should reject a second rate for the same scope', async () => {
+      // Arrange
+      mockTaxRateRepository.findByScope.mockResolvedValue({ id: 'existing' });
+
+      // Act & Assert
+      await expect(
+        service.create({ country: 'CO', name: 'IVA', rate: 19 }),
+      ).rejects.toThrow(ConflictException);
+      expect(mockTaxRateRepository.findByScope).toHaveBeenCalledWith(
+        'CO',
+        null,
+        'standard',
+      );
+      expect(mockTaxRateRepository.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('calculateLineTax', () => {
+    const schedule = {
+      country: 'CO',
+      region: null,
+      rates: { standard: 19 },
+    };
+
+    it('should add the tax on top of exclusive prices', () => {
+      expect(
+        calculateLineTax(
+          { ...schedule, mode: TaxPricingMode.EXCLUSIVE },
+          'standard',
+          1000,
+          3,
+        ),
+      ).toEqual({ rate: 19, net: 3000, tax: 570, gross: 3570 });
+    });
+
+    it('should extract the tax from inclusive prices', () => {
+      expect(
+        calculateLineTax(
+          { ...schedule, mode: TaxPricingMode.INCLUSIVE },
+          'standard',
+          1190,
+          2,
+        ),
+      ).toEqual({ rate: 19, net: 2000, tax: 380, gross: 2380 });
+    });
+
+    it('should not tax categories without rate', () => {
+      expect(
+        calculateLineTax(
+          { ...schedule, mode: TaxPricingMode.EXCLUSIVE },
+          'books',
+          1000,
+          1,
+        ),
+      ).toEqual({ rate: 0, net: 1000, tax: 0, gross: 1000 });
+    });
+  });
+});
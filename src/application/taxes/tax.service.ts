@@ -0,0 +1,210 @@
+import {
+  Injectable,
+  Logger,
+  Inject,
+  NotFoundException,
+  BadRequestException,
+  ConflictException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { plainToClass } from 'class-transformer';
+import {
+  ITaxRateRepository,
+  TaxRateData,
+} from './interfaces/tax-rate-repository.interface';
+import {
+  CreateTaxRateDto,
+  TaxRateQueryDto,
+  TaxRateResponseDto,
+  UpdateTaxRateDto,
+} from './dto/tax-rate.dto';
+import {
+  DEFAULT_TAX_CATEGORY,
+  TaxPricingMode,
+  TaxRate,
+  TaxSchedule,
+} from '../../domain/entities/tax-rate.entity';
+
+/**
+ * TaxService - Tasas de impuesto y resolución de las tasas de un destino
+ *
+ * El modo de precios (TAX_PRICING_MODE) es global: indica si Product.price
+ * incluye el impuesto. Sin país de destino ni TAX_DEFAULT_COUNTRY no se tributa
+ */
+@Injectable()
+export class TaxService {
+  private readonly logger = new Logger(TaxService.name);
+
+  constructor(
+    @Inject('ITaxRateRepository')
+    private readonly taxRateRepository: ITaxRateRepository,
+    private readonly configService: ConfigService,
+  ) {}
+
+  /**
+   * Lista las tasas configuradas
+   * @param query Filtro opcional por país
+   * @returns Promise<TaxRateResponseDto[]> Tasas
+   */
+  async findAll(query: TaxRateQueryDto = {}): Promise<TaxRateResponseDto[]> {
+    const taxRates = await this.taxRateRepository.findAll(query.country);
+    return taxRates.map((taxRate) => this.mapToTaxRateDto(taxRate));
+  }
+
+  /**
+   * Obtiene una tasa por ID
+   * @throws NotFoundException si la tasa no existe
+   */
+  async findOne(id: string): Promise<TaxRateResponseDto> {
+    return this.mapToTaxRateDto(await this.findTaxRate(id));
+  }
+
+  /**
+   * Crea una tasa para un país/región y categoría fiscal
+   * @throws ConflictException si ya existe una tasa para ese alcance
+   */
+  async create(dto: CreateTaxRateDto): Promise<TaxRateResponseDto> {
+    this.logger.log(`Creando tasa ${dto.name} para ${dto.country}`);
+
+    const data: TaxRateData = {
+      country: dto.country,
+      region: dto.region ?? null,
+      taxCategory: dto.taxCategory ?? DEFAULT_TAX_CATEGORY,
+      name: dto.name,
+      rate: dto.rate,
+    };
+    await this.assertScopeAvailable(data);
+
+    const taxRate = await this.taxRateRepository.create(data);
+    this.logger.log(`Tasa ${taxRate.id} creada`);
+    return this.mapToTaxRateDto(taxRate);
+  }
+
+  /**
+   * Actualiza una tasa
+   * @throws NotFoundException si la tasa no existe
+   * @throws ConflictException si el nuevo alcance ya tiene tasa
+   */
+  async update(id: string, dto: UpdateTaxRateDto): Promise<TaxRateResponseDto> {
+    this.logger.log(`Actualizando tasa ${id}`);
+
+    const current = await this.findTaxRate(id);
+    const data: TaxRateData = {
+      country: dto.country ?? current.country,
+      region: dto.region !== undefined ? dto.region : current.region,
+      taxCategory: dto.taxCategory ?? current.taxCategory,
+      name: dto.name ?? current.name,
+      rate: dto.rate ?? current.rate,
+    };
+    await this.assertScopeAvailable(data, id);
+
+    const updated = await this.taxRateRepository.update(id, data);
+    if (!updated) {
+      throw new NotFoundException(`Tasa con ID ${id} no encontrada`);
+    }
+    return this.mapToTaxRateDto(updated);
+  }
+
+  /**
+   * Elimina una tasa (las órdenes existentes conservan su desglose)
+   * @throws NotFoundException si la tasa no existe
+   */
+  async remove(id: string): Promise<void> {
+    this.logger.log(`Eliminando tasa ${id}`);
+
+    await this.findTaxRate(id);
+    if (!(await this.taxRateRepository.delete(id))) {
+      throw new NotFoundException(`Tasa con ID ${id} no encontrada`);
+    }
+  }
+
+  /**
+   * Resuelve las tasas de un destino; la región tiene prioridad sobre el país
+   * @param country País de destino (por defecto TAX_DEFAULT_COUNTRY)
+   * @param region Región de destino
+   * @returns Promise<TaxSchedule> Modo de precios y tasa por categoría fiscal
+   */
+  async resolveSchedule(
+    country?: string | null,
+    region?: string | null,
+  ): Promise<TaxSchedule> {
+    const mode = this.configService.get<TaxPricingMode>(
+      'TAX_PRICING_MODE',
+      TaxPricingMode.EXCLUSIVE,
+    );
+    const destination =
+      country?.trim().toUpperCase() ||
+      this.configService.get<string>('TAX_DEFAULT_COUNTRY')?.toUpperCase() ||
+      null;
+    const destinationRegion = region?.trim().toUpperCase() || null;
+
+    if (!destination) {
+      return { country: null, region: null, mode, rates: {} };
+    }
+
+    const taxRates = await this.taxRateRepository.findApplicable(
+      destination,
+      destinationRegion,
+    );
+    const rates: Record<string, number> = {};
+    for (const taxRate of taxRates.filter((t) => t.region === null)) {
+      rates[taxRate.taxCategory] = taxRate.rate;
+    }
+    for (const taxRate of taxRates.filter((t) => t.region !== null)) {
+      rates[taxRate.taxCategory] = taxRate.rate;
+    }
+
+    return {
+      country: destination,
+      region: destinationRegion,
+      mode,
+      rates,
+    };
+  }
+
+  private async assertScopeAvailable(
+    data: TaxRateData,
+    excludeId?: string,
+  ): Promise<void> {
+    const existing = await this.taxRateRepository.findByScope(
+      data.country,
+      data.region,
+      data.taxCategory,
+    );
+    if (existing && existing.id !== excludeId) {
+      throw new ConflictException(
+        `Ya existe una tasa para ${data.country}/${data.region ?? '*'} y la categoría ${data.taxCategory}`,
+      );
+    }
+  }
+
+  private async findTaxRate(id: string): Promise<TaxRate> {
+    if (!this.isValidUUID(id)) {
+      throw new BadRequestException('ID de tasa inválido');
+    }
+
+    const taxRate = await this.taxRateRepository.findById(id);
+    if (!taxRate) {
+      throw new NotFoundException(`Tasa con ID ${id} no encontrada`);
+    }
+    return taxRate;
+  }
+
+  /**
+   * Mapea una tasa a DTO de respuesta
+   */
+  private mapToTaxRateDto(taxRate: TaxRate): TaxRateResponseDto {
+    return plainToClass(TaxRateResponseDto, taxRate, {
+      excludeExtraneousValues: true,
+    });
+  }
+
+  /**
+   * Valida si un string es un UUID válido
+   */
+  private isValidUUID(uuid: string): boolean {
+    const uuidRegex =
+      /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+    return uuidRegex.test(uuid);
+  }
+}
@@ -0,0 +1,235 @@
+import {
+  IsBoolean,
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  IsUUID,
+  Matches,
+  Max,
+  MaxLength,
+  Min,
+} from 'class-validator';
+import { Expose, Transform, Type } from 'class-transformer';
+import { ApiProperty, ApiPropertyOptional, PartialType } from '@nestjs/swagger';
+
+export class CreateWarehouseDto {
+  @ApiProperty({
+    description: 'Código del almacén (se guarda en mayúsculas)',
+    example: 'BOG-01',
+    maxLength: 20,
+  })
+  @IsNotEmpty({ message: 'El código es obligatorio' })
+  @Matches(/^[A-Z0-9]+(?:[-_][A-Z0-9]+)*$/, {
+    message: 'El código debe contener solo letras, números, - y _',
+  })
+  @MaxLength(20, { message: 'El código no debe exceder 20 caracteres' })
+  @Transform(({ value }) =>
+    typeof value === 'string' ? value.trim().toUpperCase() : value,
+  )
+  code: string;
+
+  @ApiProperty({
+    description: 'Nombre del almacén',
+    example: 'Bodega Bogotá',
+    maxLength: 100,
+  })
+  @IsNotEmpty({ message: 'El nombre es obligatorio' })
+  @IsString()
+  @MaxLength(100, { message: 'El nombre no debe exceder 100 caracteres' })
+  name: string;
+
+  @ApiPropertyOptional({
+    description: 'País del almacén (ISO 3166-1 alfa-2)',
+    example: 'CO',
+  })
+  @IsOptional()
+  @Matches(/^[A-Z]{2}$/, {
+    message: 'El país debe ser un código ISO de 2 letras',
+  })
+  @Transform(({ value }) =>
+    typeof value === 'string' ? value.trim().toUpperCase() : value,
+  )
+  country?: string;
+
+  @ApiPropertyOptional({
+    description: 'Región del almacén',
+    example: 'CUNDINAMARCA',
+    maxLength: 100,
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(100, { message: 'La región no debe exceder 100 caracteres' })
+  region?: string;
+
+  @ApiPropertyOptional({
+    description: 'Prioridad al asignar órdenes (menor número = se usa primero)',
+    example: 10,
+    default: 100,
+  })
+  @IsOptional()
+  @IsInt({ message: 'La prioridad debe ser un entero' })
+  @Min(0, { message: 'La prioridad no puede ser negativa' })
+  @Max(10000, { message: 'La prioridad no puede exceder 10,000' })
+  priority?: number;
+
+  @ApiPropertyOptional({
+    description:
+      'Un almacén inactivo conserva su stock pero no recibe asignaciones',
+    default: true,
+  })
+  @IsOptional()
+  @IsBoolean({ message: 'El estado activo debe ser verdadero o falso' })
+  isActive?: boolean;
+}
+
+export class UpdateWarehouseDto extends PartialType(CreateWarehouseDto) {}
+
+export class WarehouseResponseDto {
+  @ApiProperty({ example: '123e4567-e89b-12d3-a456-426614174000' })
+  @Expose()
+  id: string;
+
+  @ApiProperty({ example: 'BOG-01' })
+  @Expose()
+  code: string;
+
+  @ApiProperty({ example: 'Bodega Bogotá' })
+  @Expose()
+  name: string;
+
+  @ApiProperty({ nullable: true, example: 'CO' })
+  @Expose()
+  country: string | null;
+
+  @ApiProperty({ nullable: true })
+  @Expose()
+  region: string | null;
+
+  @ApiProperty({ example: 10 })
+  @Expose()
+  priority: number;
+
+  @ApiProperty({ example: true })
+  @Expose()
+  isActive: boolean;
+
+  @ApiProperty()
+  @Expose()
+  createdAt: Date;
+
+  @ApiProperty()
+  @Expose()
+  updatedAt: Date;
+}
+
+export class WarehouseStockDto {
+  @ApiProperty({ example: '123e4567-e89b-12d3-a456-426614174000' })
+  @Expose()
+  warehouseId: string;
+
+  @ApiProperty({ example: 'BOG-01' })
+  @Expose()
+  warehouseCode: string;
+
+  @ApiProperty({ example: 'Bodega Bogotá' })
+  @Expose()
+  warehouseName: string;
+
+  @ApiProperty({ description: 'Unidades en el almacén', example: 30 })
+  @Expose()
+  quantity: number;
+
+  @ApiProperty({
+    description: 'Un almacén inactivo no recibe asignaciones',
+    example: true,
+  })
+  @Expose()
+  isActive: boolean;
+}
+
+export class CreateStockTransferDto {
+  @ApiProperty({ description: 'ID del producto', example: 1, minimum: 1 })
+  @IsInt({ message: 'El ID del producto debe ser un entero' })
+  @Min(1, { message: 'El ID del producto debe ser mayor a 0' })
+  productId: number;
+
+  @ApiProperty({ description: 'Almacén de origen' })
+  @IsUUID('4', { message: 'El almacén de origen debe ser un UUID válido' })
+  fromWarehouseId: string;
+
+  @ApiProperty({ description: 'Almacén de destino' })
+  @IsUUID('4', { message: 'El almacén de destino debe ser un UUID válido' })
+  toWarehouseId: string;
+
+  @ApiProperty({ description: 'Unidades a traspasar', example: 10 })
+  @IsInt({ message: 'La cantidad debe ser un entero' })
+  @Min(1, { message: 'La cantidad debe ser mayor a 0' })
+  @Max(999999, { message: 'La cantidad no puede exceder 999,999' })
+  quantity: number;
+
+  @ApiPropertyOptional({
+    description: 'Nota interna',
+    example: 'Reposición de la bodega de Medellín',
+    maxLength: 500,
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(500, { message: 'La nota no debe exceder 500 caracteres' })
+  note?: string;
+}
+
+export class StockTransferQueryDto {
+  @ApiPropertyOptional({ description: 'Solo los traspasos de este producto' })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt({ message: 'El ID del producto debe ser un entero' })
+  @Min(1, { message: 'El ID del producto debe ser mayor a 0' })
+  productId?: number;
+
+  @ApiPropertyOptional({
+    description: 'Cantidad máxima de traspasos',
+    default: 50,
+    maximum: 200,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt({ message: 'El límite debe ser un entero' })
+  @Min(1, { message: 'El límite debe ser mayor a 0' })
+  @Max(200, { message: 'El límite no puede exceder 200' })
+  limit?: number = 50;
+}
+
+export class StockTransferResponseDto {
+  @ApiProperty({ example: '123e4567-e89b-12d3-a456-426614174000' })
+  @Expose()
+  id: string;
+
+  @ApiProperty({ example: 1 })
+  @Expose()
+  productId: number;
+
+  @ApiProperty()
+  @Expose()
+  fromWarehouseId: string;
+
+  @ApiProperty()
+  @Expose()
+  toWarehouseId: string;
+
+  @ApiProperty({ example: 10 })
+  @Expose()
+  quantity: number;
+
+  @ApiProperty({ nullable: true })
+  @Expose()
+  note: string | null;
+
+  @ApiProperty({ nullable: true })
+  @Expose()
+  actorId: string | null;
+
+  @ApiProperty()
+  @Expose()
+  createdAt: Date;
+}
@@ -0,0 +1,95 @@
+import { Warehouse } from '../../../domain/entities/warehouse.entity';
+import { ProductStock } from '../../../domain/entities/product-stock.entity';
+import { StockTransfer } from '../../../domain/entities/stock-transfer.entity';
+
+export interface WarehouseData {
+  code: string;
+  name: string;
+  country: string | null;
+  region: string | null;
+  priority: number;
+  isActive: boolean;
+}
+
+export interface StockTransferData {
+  productId: number;
+  fromWarehouseId: string;
+  toWarehouseId: string;
+  quantity: number;
+  note: string | null;
+  actorId: string | null;
+}
+
+/**
+ * Resultado de desactivar un almacén
+ * - warehouse: almacén actualizado, o null si guarda unidades (no se desactiva)
+ * - units: unidades que guarda, sumando todos los productos
+ */
+export interface WarehouseDeactivationResult {
+  warehouse: Warehouse | null;
+  units: number;
+}
+
+/**
+ * Abstracción del Repository Pattern para almacenes y traspasos (DIP)
+ * El stock por almacén solo se escribe a través del ledger de stock
+ */
+export interface IWarehouseRepository {
+  /**
+   * Lista los almacenes
+   * @returns Promise<Warehouse[]> Almacenes por prioridad (menor número primero)
+   */
+  findAll(): Promise<Warehouse[]>;
+
+  /**
+   * @returns Promise<Warehouse | null> Almacén o null si no existe
+   */
+  findById(id: string): Promise<Warehouse | null>;
+
+  /**
+   * @param code Código en mayúsculas
+   */
+  findByCode(code: string): Promise<Warehouse | null>;
+
+  create(data: WarehouseData): Promise<Warehouse>;
+
+  /**
+   * @returns Promise<Warehouse | null> Almacén actualizado o null si no existe
+   */
+  update(id: string, data: Partial<WarehouseData>): Promise<Warehouse | null>;
+
+  /**
+   * Desactiva el almacén (aplicando el resto de cambios) solo si no guarda
+   * unidades; el conteo y la actualización van en una transacción con el
+   * almacén y su stock bloqueados, así ningún movimiento puede dejarle unidades
+   * @returns Promise<WarehouseDeactivationResult | null> Resultado, o null si
+   * el almacén no existe
+   */
+  deactivate(
+    id: string,
+    data: Partial<WarehouseData>,
+  ): Promise<WarehouseDeactivationResult | null>;
+
+  /**
+   * Stock del producto en cada almacén (ubicaciones con almacén cargado)
+   * @returns Promise<ProductStock[] | null> Ubicaciones, o null si el producto no existe
+   */
+  findProductStock(productId: number): Promise<ProductStock[] | null>;
+
+  /**
+   * Traspasa unidades entre almacenes y registra los movimientos en el ledger
+   * @returns Promise<StockTransfer | null> Traspaso, o null si el almacén de
+   * origen no tiene las unidades
+   */
+  transfer(data: StockTransferData): Promise<StockTransfer | null>;
+
+  /**
+   * Lista los traspasos, los más recientes primero
+   * @param productId Solo los de este producto
+   * @param limit Cantidad máxima
+   */
+  findTransfers(
+    productId: number | undefined,
+    limit: number,
+  ): Promise<StockTransfer[]>;
+}
@@ -0,0 +1,205 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Put,
+  Body,
+  Param,
+  Query,
+  Request,
+  UseGuards,
+  HttpCode,
+  HttpStatus,
+  ParseIntPipe,
+  ValidationPipe,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiParam,
+} from '@nestjs/swagger';
+import { WarehouseService } from './warehouse.service';
+import {
+  CreateStockTransferDto,
+  CreateWarehouseDto,
+  StockTransferQueryDto,
+  StockTransferResponseDto,
+  UpdateWarehouseDto,
+  WarehouseResponseDto,
+  WarehouseStockDto,
+} from './dto/warehouse.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { UserRole } from '../../domain/entities/user.entity';
+
+/**
+ * WarehouseController - Almacenes, stock por almacén y traspasos (Admin)
+ */
+@ApiTags('Almacenes')
+@Controller('warehouses')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Roles(UserRole.ADMIN)
+@ApiBearerAuth()
+export class WarehouseController {
+  constructor(private readonly warehouseService: WarehouseService) {}
+
+  /**
+   * Listar almacenes
+   */
+  @Get()
+  @ApiOperation({ summary: 'Listar almacenes por prioridad' })
+  @ApiResponse({
+    status: 200,
+    description: 'Almacenes',
+    type: [WarehouseResponseDto],
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Acceso denegado - Se requieren permisos de administrador',
+  })
+  async findAll(): Promise<WarehouseResponseDto[]> {
+    return this.warehouseService.findAll();
+  }
+
+  /**
+   * Crear almacén
+   */
+  @Post()
+  @HttpCode(HttpStatus.CREATED)
+  @ApiOperation({
+    summary: 'Crear almacén',
+    description:
+      'La prioridad decide el orden en que se asignan las órdenes (menor número primero).',
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Almacén creado',
+    type: WarehouseResponseDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Datos de entrada inválidos',
+  })
+  @ApiResponse({
+    status: 409,
+    description: 'El código ya está en uso',
+  })
+  async create(
+    @Body(ValidationPipe) createWarehouseDto: CreateWarehouseDto,
+  ): Promise<WarehouseResponseDto> {
+    return this.warehouseService.create(createWarehouseDto);
+  }
+
+  /**
+   * Listar traspasos entre almacenes
+   */
+  @Get('transfers')
+  @ApiOperation({ summary: 'Listar traspasos entre almacenes' })
+  @ApiResponse({
+    status: 200,
+    description: 'Traspasos, del más reciente al más antiguo',
+    type: [StockTransferResponseDto],
+  })
+  async findTransfers(
+    @Query(ValidationPipe) query: StockTransferQueryDto,
+  ): Promise<StockTransferResponseDto[]> {
+    return this.warehouseService.findTransfers(query);
+  }
+
+  /**
+   * Traspasar stock entre almacenes
+   */
+  @Post('transfers')
+  @HttpCode(HttpStatus.CREATED)
+  @ApiOperation({
+    summary: 'Traspasar stock entre almacenes',
+    description:
+      'Mueve unidades de un almacén a otro y lo registra en el historial de stock. El stock total no cambia.',
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Traspaso registrado',
+    type: StockTransferResponseDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Datos inválidos u origen igual al destino',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Almacén o producto no encontrado',
+  })
+  @ApiResponse({
+    status: 409,
+    description: 'El almacén de destino está inactivo',
+  })
+  @ApiResponse({
+    status: 422,
+    description: 'El almacén de origen no tiene unidades suficientes',
+  })
+  async transfer(
+    @Body(ValidationPipe) createTransferDto: CreateStockTransferDto,
+    @Request() req: any,
+  ): Promise<StockTransferResponseDto> {
+    return this.warehouseService.transfer(createTransferDto, req.user.sub);
+  }
+
+  /**
+   * Stock de un producto por almacén
+   */
+  @Get('stock/:productId')
+  @ApiOperation({ summary: 'Stock de un producto en cada almacén' })
+  @ApiParam({
+    name: 'productId',
+    type: 'number',
+    description: 'ID del producto',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Stock por almacén',
+    type: [WarehouseStockDto],
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Producto no encontrado',
+  })
+  async getProductStock(
+    @Param('productId', ParseIntPipe) productId: number,
+  ): Promise<WarehouseStockDto[]> {
+    return this.warehouseService.getProductStock(productId);
+  }
+
+  /**
+   * Actualizar almacén
+   */
+  @Put(':id')
+  @ApiOperation({
+    summary: 'Actualizar almacén',
+    description:
+      'Un almacén inactivo deja de recibir asignaciones, traspasos y ajustes. Solo se puede desactivar un almacén sin stock.',
+  })
+  @ApiParam({ name: 'id', type: 'string', description: 'ID del almacén' })
+  @ApiResponse({
+    status: 200,
+    description: 'Almacén actualizado',
+    type: WarehouseResponseDto,
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Almacén no encontrado',
+  })
+  @ApiResponse({
+    status: 409,
+    description:
+      'El código ya está en uso o el almacén a desactivar todavía tiene stock',
+  })
+  async update(
+    @Param('id') id: string,
+    @Body(ValidationPipe) updateWarehouseDto: UpdateWarehouseDto,
+  ): Promise<WarehouseResponseDto> {
+    return this.warehouseService.update(id, updateWarehouseDto);
+  }
+}
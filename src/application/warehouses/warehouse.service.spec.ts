@@ -0,0 +1,309 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import {
+  BadRequestException,
+  ConflictException,
+  NotFoundException,
+  UnprocessableEntityException,
+} from '@nestjs/common';
+import { WarehouseService } from './warehouse.service';
+import {
+  WarehouseAllocationStrategy,
+  allocateFromWarehouses,
+} from '../../domain/entities/warehouse.entity';
+
+describe('WarehouseService', () => {
+  let service: WarehouseService;
+
+  const adminId = '550e8400-e29b-41d4-a716-446655440001';
+
+  const bogota: any = {
+    id: '550e8400-e29b-41d4-a716-446655440010',
+    code: 'BOG-01',
+    name: 'Bodega Bogotá',
+    country: 'CO',
+    region: 'CUNDINAMARCA',
+    priority: 10,
+    isActive: true,
+  };
+
+  const medellin: any = {
+    id: '550e8400-e29b-41d4-a716-446655440011',
+    code: 'MED-01',
+    name: 'Bodega Medellín',
+    country: 'CO',
+    region: 'ANTIOQUIA',
+    priority: 20,
+    isActive: true,
+  };
+
+  const mockWarehouseRepository = {
+    findAll: jest.fn(),
+    findById: jest.fn(),
+    findByCode: jest.fn(),
+    create: jest.fn(),
+    update: jest.fn(),
+    deactivate: jest.fn(),
+    findProductStock: jest.fn(),
+    transfer: jest.fn(),
+    findTransfers: jest.fn(),
+  };
+
+  let config: Record<string, unknown>;
+  const mockConfigService = {
+    get: jest.fn((key: string, defaultValue?: unknown) =>
+      key in config ? config[key] : defaultValue,
+    ),
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        WarehouseService,
+        {
+          provide: 'IWarehouseRepository',
+          useValue: mockWarehouseRepository,
+        },
+        { provide: ConfigService, useValue: mockConfigService },
+      ],
+    }).compile();
+
+    service = module.get<WarehouseService>(WarehouseService);
+
+    jest.clearAllMocks();
+    config = {};
+  });
+
+  describe('allocationStrategy', () => {
+    it('should default to priority', () => {
+      expect(service.allocationStrategy()).toBe(
+        WarehouseAllocationStrategy.PRIORITY,
+      );
+    });
+
+    it('should read the configured strategy', () => {
+      // Arrange
+      config.WAREHOUSE_ALLOCATION_STRATEGY =
+        WarehouseAllocationStrategy.FEWEST_SHIPMENTS;
+
+      // Act & Assert
+      expect(service.allocationStrategy()).toBe(
+        WarehouseAllocationStrategy.FEWEST_SHIPMENTS,
+      );
+    });
+  });
+
+  describe('create', () => {
+    it('should reject a code already in use', async () => {
+      // Arrange
+      mockWarehouseRepository.findByCode.mockResolvedValue(bogota);
+
+      // Act & Assert
+      await expect(
+        service.create({ code: 'BOG-01', name: 'Otra bodega' }),
+      ).rejects.toThrow(ConflictException);
+      expect(mockWarehouseRepository.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('update', () => {
+    beforeEach(() => {
+      mockWarehouseRepository.findById.mockResolvedValue(bogota);
+    });
+
+    it('should not deactivate a warehouse that still holds stock', async () => {
+      // Arrange
+      mockWarehouseRepository.deactivate.mockResolvedValue({
+        warehouse: null,
+        units: 7,
+      });
+
+      // Act & Assert
+      await expect(
+        service.update(bogota.id, { isActive: false }),
+      ).rejects.toThrow(ConflictException);
+      expect(mockWarehouseRepository.deactivate).toHaveBeenCalledWith(
+        bogota.id,
+        { isActive: false },
+      );
+      expect(mockWarehouseRepository.update).not.toHaveBeenCalled();
+    });
+
+    it('should deactivate an empty warehouse', async () => {
+      // Arrange
+      mockWarehouseRepository.deactivate.mockResolvedValue({
+        warehouse: { ...bogota, isActive: false },
+        units: 0,
+      });
+
+      // Act
+      const result = await service.update(bogota.id, { isActive: false });
+
+      // Assert
+      expect(result.isActive).toBe(false);
+      expect(mockWarehouseRepository.deactivate).toHaveBeenCalledWith(
+        bogota.id,
+        { isActive: false },
+      );
+      expect(mockWarehouseRepository.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('transfer', () => {
+    const transferDto = {
+      productId: 1,
+      fromWarehouseId: bogota.id,
+      toWarehouseId: medellin.id,
+      quantity: 5,
+    };
+
+    beforeEach(() => {
+      mockWarehouseRepository.findById.mockImplementation(
+        async (id) =>
+          [bogota, medellin].find((warehouse) => warehouse.id === id) ?? null,
+      );
+      mockWarehouseRepository.findProductStock.mockResolvedValue([]);
+    });
+
+    it('should record the transfer with its actor', async () => {
+      // Arrange
+      mockWarehouseRepository.transfer.mockResolvedValue({
+        id: '550e8400-e29b-41d4-a716-446655440050',
+        ...transferDto,
+        note: null,
+        actorId: adminId,
+        createdAt: new Date(),
+      });
+
+      // Act
+      const result = await service.transfer(transferDto, adminId);
+
+      // Assert
+      expect(result.quantity).toBe(5);
+      expect(mockWarehouseRepository.transfer).toHaveBeenCalledWith({
+        ...transferDto,
+        note: null,
+        actorId: adminId,
+      });
+    });
+
+    it('should reject transfers to the same warehouse', async () => {
+      // Act & Assert
+      await expect(
+        service.transfer({ ...transferDto, toWarehouseId: bogota.id }, adminId),
+      ).rejects.toThrow(BadRequestException);
+      expect(mockWarehouseRepository.transfer).not.toHaveBeenCalled();
+    });
+
+    it('should reject transfers to an inactive warehouse', async () => {
+      // Arrange
+      mockWarehouseRepository.findById.mockImplementation(async (id) =>
+        id === medellin.id ? { ...medellin, isActive: false } : bogota,
+      );
+
+      // Act & Assert
+      await expect(service.transfer(transferDto, adminId)).rejects.toThrow(
+        ConflictException,
+      );
+      expect(mockWarehouseRepository.transfer).not.toHaveBeenCalled();
+    });
+
+    it('should throw NotFoundException when a warehouse does not exist', async () => {
+      // Act & Assert
+      await expect(
+        service.transfer(
+          {
+            ...transferDto,
+            toWarehouseId: '550e8400-e29b-41d4-a716-446655440099',
+          },
+          adminId,
+        ),
+      ).rejects.toThrow(NotFoundException);
+    });
+
+    it('should throw NotFoundException when the product does not exist', async () => {
+      // Arrange
+      mockWarehouseRepository.findProductStock.mockResolvedValue(null);
+
+      // Act & Assert
+      await expect(service.transfer(transferDto, adminId)).rejects.toThrow(
+        NotFoundException,
+      );
+      expect(mockWarehouseRepository.transfer).not.toHaveBeenCalled();
+    });
+
+    it('should reject transfers larger than the source stock', async () => {
+      // Arrange
+      mockWarehouseRepository.transfer.mockResolvedValue(null);
+
+      // Act & Assert
+      await expect(service.transfer(transferDto, adminId)).rejects.toThrow(
+        UnprocessableEntityException,
+      );
+    });
+  });
+
+  describe('allocateFromWarehouses', () => {
+    // Bogotá (prioridad 10) tiene solo el producto 1; Medellín (20) tiene ambos
+    const levels = [
+      { warehouseId: bogota.id, priority: 10, productId: 1, quantity: 5 },
+      { warehouseId: medellin.id, priority: 20, productId: 1, quantity: 5 },
+      { warehouseId: medellin.id, priority: 20, productId: 2, quantity: 5 },
+    ];
+    const lines = [
+      { productId: 1, quantity: 2 },
+      { productId: 2, quantity: 1 },
+    ];
+
+    it('should take each line from the highest priority warehouse', () => {
+      expect(
+        allocateFromWarehouses(
+          WarehouseAllocationStrategy.PRIORITY,
+          lines,
+          levels,
+        ),
+      ).toEqual([
+        { productId: 1, warehouseId: bogota.id, quantity: 2 },
+        { productId: 2, warehouseId: medellin.id, quantity: 1 },
+      ]);
+    });
+
+    it('should ship from a single warehouse when one covers the order', () => {
+      expect(
+        allocateFromWarehouses(
+          WarehouseAllocationStrategy.FEWEST_SHIPMENTS,
+          lines,
+          levels,
+        ),
+      ).toEqual([
+        { productId: 1, warehouseId: medellin.id, quantity: 2 },
+        { productId: 2, warehouseId: medellin.id, quantity: 1 },
+      ]);
+    });
+
+    it('should split a line when no warehouse has enough units', () => {
+      expect(
+        allocateFromWarehouses(
+          WarehouseAllocationStrategy.PRIORITY,
+          [{ productId: 1, quantity: 8 }],
+          levels,
+        ),
+      ).toEqual([
+        { productId: 1, warehouseId: bogota.id, quantity: 5 },
+        { productId: 1, warehouseId: medellin.id, quantity: 3 },
+      ]);
+    });
+
+    it('should leave uncovered units unallocated', () => {
+      const allocations = allocateFromWarehouses(
+        WarehouseAllocationStrategy.FEWEST_SHIPMENTS,
+        [{ productId: 2, quantity: 9 }],
+        levels,
+      );
+
+      expect(allocations).toEqual([
+        { productId: 2, warehouseId: medellin.id, quantity: 5 },
+      ]);
+    });
+  });
+});
@@ -0,0 +1,247 @@
+import {
+  Injectable,
+  Logger,
+  Inject,
+  NotFoundException,
+  BadRequestException,
+  ConflictException,
+  UnprocessableEntityException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { plainToClass } from 'class-transformer';
+import { IWarehouseRepository } from './interfaces/warehouse-repository.interface';
+import {
+  CreateStockTransferDto,
+  CreateWarehouseDto,
+  StockTransferQueryDto,
+  StockTransferResponseDto,
+  UpdateWarehouseDto,
+  WarehouseResponseDto,
+  WarehouseStockDto,
+} from './dto/warehouse.dto';
+import {
+  Warehouse,
+  WarehouseAllocationStrategy,
+} from '../../domain/entities/warehouse.entity';
+import { ProductStock } from '../../domain/entities/product-stock.entity';
+
+/**
+ * WarehouseService - Almacenes, stock por ubicación y traspasos
+ *
+ * Product.stock es la suma del stock de todos los almacenes. Las órdenes se
+ * reparten entre los almacenes activos según WAREHOUSE_ALLOCATION_STRATEGY,
+ * así que un almacén inactivo no guarda stock: para desactivarlo hay que
+ * traspasar antes sus unidades y no recibe traspasos ni ajustes
+ */
+@Injectable()
+export class WarehouseService {
+  private readonly logger = new Logger(WarehouseService.name);
+
+  constructor(
+    @Inject('IWarehouseRepository')
+    private readonly warehouseRepository: IWarehouseRepository,
+    private readonly configService: ConfigService,
+  ) {}
+
+  /**
+   * Estrategia configurada para repartir las órdenes entre almacenes
+   */
+  allocationStrategy(): WarehouseAllocationStrategy {
+    return this.configService.get<WarehouseAllocationStrategy>(
+      'WAREHOUSE_ALLOCATION_STRATEGY',
+      WarehouseAllocationStrategy.PRIORITY,
+    );
+  }
+
+  async findAll(): Promise<WarehouseResponseDto[]> {
+    const warehouses = await this.warehouseRepository.findAll();
+    return warehouses.map((warehouse) => this.mapToWarehouseDto(warehouse));
+  }
+
+  /**
+   * @throws BadRequestException si el ID no es un UUID
+   * @throws NotFoundException si el almacén no existe
+   */
+  async findOne(id: string): Promise<WarehouseResponseDto> {
+    return this.mapToWarehouseDto(await this.findWarehouse(id));
+  }
+
+  /**
+   * Crea un almacén
+   * @throws ConflictException si el código ya existe
+   */
+  async create(dto: CreateWarehouseDto): Promise<WarehouseResponseDto> {
+    this.logger.log(`Creando almacén ${dto.code}`);
+
+    await this.assertCodeAvailable(dto.code);
+    const warehouse = await this.warehouseRepository.create({
+      code: dto.code,
+      name: dto.name,
+      country: dto.country ?? null,
+      region: dto.region ?? null,
+      priority: dto.priority ?? 100,
+      isActive: dto.isActive ?? true,
+    });
+    return this.mapToWarehouseDto(warehouse);
+  }
+
+  /**
+   * Actualiza un almacén
+   * @throws NotFoundException si el almacén no existe
+   * @throws ConflictException si el código ya existe o se desactiva con stock
+   */
+  async update(
+    id: string,
+    dto: UpdateWarehouseDto,
+  ): Promise<WarehouseResponseDto> {
+    const current = await this.findWarehouse(id);
+    if (dto.code && dto.code !== current.code) {
+      await this.assertCodeAvailable(dto.code);
+    }
+
+    // Su stock seguiría contando como disponible sin que se pueda asignar
+    let warehouse: Warehouse | null;
+    if (dto.isActive === false && current.isActive) {
+      const result = await this.warehouseRepository.deactivate(id, dto);
+      if (result && !result.warehouse) {
+        throw new ConflictException({
+          message: `El almacén ${current.code} tiene ${result.units} unidades: traspásalas antes de desactivarlo`,
+          code: 'WAREHOUSE_HAS_STOCK',
+          units: result.units,
+        });
+      }
+      warehouse = result?.warehouse ?? null;
+    } else {
+      warehouse = await this.warehouseRepository.update(id, dto);
+    }
+    if (!warehouse) {
+      throw new NotFoundException(`Almacén con ID ${id} no encontrado`);
+    }
+    this.logger.log(`Almacén ${warehouse.code} actualizado`);
+    return this.mapToWarehouseDto(warehouse);
+  }
+
+  /**
+   * Stock del producto en cada almacén
+   * @throws NotFoundException si el producto no existe
+   */
+  async getProductStock(productId: number): Promise<WarehouseStockDto[]> {
+    const locations =
+      await this.warehouseRepository.findProductStock(productId);
+    if (!locations) {
+      throw new NotFoundException(`Producto con ID ${productId} no encontrado`);
+    }
+    return locations.map((location) => this.mapToStockDto(location));
+  }
+
+  /**
+   * Traspasa unidades de un almacén a otro (el stock total no cambia)
+   * @throws BadRequestException si origen y destino son el mismo almacén
+   * @throws NotFoundException si un almacén o el producto no existen
+   * @throws ConflictException si el almacén de destino está inactivo
+   * @throws UnprocessableEntityException si el origen no tiene las unidades
+   */
+  async transfer(
+    dto: CreateStockTransferDto,
+    actorId: string,
+  ): Promise<StockTransferResponseDto> {
+    if (dto.fromWarehouseId === dto.toWarehouseId) {
+      throw new BadRequestException(
+        'El almacén de origen y el de destino deben ser distintos',
+      );
+    }
+    await this.findWarehouse(dto.fromWarehouseId);
+    const target = await this.findWarehouse(dto.toWarehouseId);
+    if (!target.isActive) {
+      throw new ConflictException(
+        `El almacén ${target.code} está inactivo y no recibe stock`,
+      );
+    }
+    if (!(await this.warehouseRepository.findProductStock(dto.productId))) {
+      throw new NotFoundException(
+        `Producto con ID ${dto.productId} no encontrado`,
+      );
+    }
+
+    const transfer = await this.warehouseRepository.transfer({
+      productId: dto.productId,
+      fromWarehouseId: dto.fromWarehouseId,
+      toWarehouseId: dto.toWarehouseId,
+      quantity: dto.quantity,
+      note: dto.note ?? null,
+      actorId,
+    });
+    if (!transfer) {
+      throw new UnprocessableEntityException({
+        message: 'El almacén de origen no tiene unidades suficientes',
+        code: 'INSUFFICIENT_WAREHOUSE_STOCK',
+        requested: dto.quantity,
+      });
+    }
+
+    this.logger.log(
+      `Traspaso ${transfer.id}: ${transfer.quantity} unidades del producto ${transfer.productId}`,
+    );
+    return plainToClass(StockTransferResponseDto, transfer, {
+      excludeExtraneousValues: true,
+    });
+  }
+
+  async findTransfers(
+    query: StockTransferQueryDto,
+  ): Promise<StockTransferResponseDto[]> {
+    const transfers = await this.warehouseRepository.findTransfers(
+      query.productId,
+      query.limit ?? 50,
+    );
+    return transfers.map((transfer) =>
+      plainToClass(StockTransferResponseDto, transfer, {
+        excludeExtraneousValues: true,
+      }),
+    );
+  }
+
+  private async findWarehouse(id: string): Promise<Warehouse> {
+    if (!this.isValidUUID(id)) {
+      throw new BadRequestException('ID de almacén inválido');
+    }
+
+    const warehouse = await this.warehouseRepository.findById(id);
+    if (!warehouse) {
+      throw new NotFoundException(`Almacén con ID ${id} no encontrado`);
+    }
+    return warehouse;
+  }
+
+  private async assertCodeAvailable(code: string): Promise<void> {
+    if (await this.warehouseRepository.findByCode(code)) {
+      throw new ConflictException(`El código "${code}" ya está en uso`);
+    }
+  }
+
+  private mapToWarehouseDto(warehouse: Warehouse): WarehouseResponseDto {
+    return plainToClass(WarehouseResponseDto, warehouse, {
+      excludeExtraneousValues: true,
+    });
+  }
+
+  private mapToStockDto(location: ProductStock): WarehouseStockDto {
+    return plainToClass(
+      WarehouseStockDto,
+      {
+        warehouseId: location.warehouseId,
+        warehouseCode: location.warehouse.code,
+        warehouseName: location.warehouse.name,
+        quantity: location.quantity,
+        isActive: location.warehouse.isActive,
+      },
+      { excludeExtraneousValues: true },
+    );
+  }
+
+  private isValidUUID(uuid: string): boolean {
+    const uuidRegex =
+      /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+    return uuidRegex.test(uuid);
+  }
+}
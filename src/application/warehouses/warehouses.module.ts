@@ -0,0 +1,22 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { WarehouseService } from './warehouse.service';
+import { WarehouseController } from './warehouse.controller';
+import { Warehouse } from '../../domain/entities/warehouse.entity';
+import { ProductStock } from '../../domain/entities/product-stock.entity';
+import { StockTransfer } from '../../domain/entities/stock-transfer.entity';
+import { WarehouseRepository } from '../../infrastructure/repositories/warehouse.repository';
+
+@Module({
+  imports: [TypeOrmModule.forFeature([Warehouse, ProductStock, StockTransfer])],
+  controllers: [WarehouseController],
+  providers: [
+    WarehouseService,
+    {
+      provide: 'IWarehouseRepository',
+      useClass: WarehouseRepository,
+    },
+  ],
+  exports: [WarehouseService],
+})
+export class WarehousesModule {}
@@ -0,0 +1,82 @@
+import {
+  Entity,
+  Column,
+  ManyToOne,
+  JoinColumn,
+  CreateDateColumn,
+  UpdateDateColumn,
+  PrimaryGeneratedColumn,
+  Unique,
+} from 'typeorm';
+import { Cart } from './cart.entity';
+import { Product } from './product.entity';
+
+/**
+ * CartItem Entity - Línea del carrito
+ * unitPrice es el último precio que vio el cliente; si Product.price cambia,
+ * la siguiente lectura del carrito lo informa
+ */
+@Entity('cart_items')
+@Unique(['cartId', 'productId'])
+export class CartItem {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @ManyToOne(() => Cart, (cart) => cart.items, {
+    nullable: false,
+    onDelete: 'CASCADE',
+  })
+  @JoinColumn({ name: 'cart_id' })
+  cart: Cart;
+
+  @Column({
+    name: 'cart_id',
+    type: 'uuid',
+    nullable: false,
+  })
+  cartId: string;
+
+  @ManyToOne(() => Product, { nullable: false, onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'product_id' })
+  product: Product;
+
+  @Column({
+    name: 'product_id',
+    type: 'integer',
+    nullable: false,
+  })
+  productId: number;
+
+  @Column({
+    type: 'integer',
+    nullable: false,
+  })
+  quantity: number;
+
+  @Column({
+    name: 'unit_price',
+    type: 'numeric',
+    precision: 10,
+    scale: 2,
+    nullable: false,
+    transformer: {
+      to: (value: number) => value,
+      from: (value: string) => parseFloat(value),
+    },
+  })
+  unitPrice: number; // en centavos
+
+  @CreateDateColumn({
+    name: 'created_at',
+    type: 'timestamp with time zone',
+    default: () => 'CURRENT_TIMESTAMP',
+  })
+  createdAt: Date;
+
+  @UpdateDateColumn({
+    name: 'updated_at',
+    type: 'timestamp with time zone',
+    default: () => 'CURRENT_TIMESTAMP',
+  })
+  updatedAt: Date;
+}
@@ -0,0 +1,71 @@
+import {
+  Entity,
+  Column,
+  OneToOne,
+  OneToMany,
+  JoinColumn,
+  CreateDateColumn,
+  UpdateDateColumn,
+  PrimaryGeneratedColumn,
+  Index,
+} from 'typeorm';
+import { User } from './user.entity';
+import { CartItem } from './cart-item.entity';
+
+/**
+ * Cart Entity - Carrito persistente de un usuario (uno por usuario) o de un
+ * invitado (sin usuario, identificado por un cart token firmado)
+ * Los precios y el stock se revalidan contra Product en cada lectura
+ */
+@Entity('carts')
+export class Cart {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @OneToOne(() => User, { nullable: true, onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'user_id' })
+  user: User | null;
+
+  // null en carritos de invitado
+  @Column({
+    name: 'user_id',
+    type: 'uuid',
+    nullable: true,
+  })
+  @Index({ unique: true })
+  userId: string | null;
+
+  // Solo carritos de invitado: se extiende con cada uso y vencido se elimina
+  @Column({
+    name: 'expires_at',
+    type: 'timestamp with time zone',
+    nullable: true,
+  })
+  @Index()
+  expiresAt: Date | null;
+
+  // Sesión de pago abierta desde el carrito; al completarse el carrito se vacía
+  @Column({
+    name: 'checkout_session_id',
+    type: 'uuid',
+    nullable: true,
+  })
+  checkoutSessionId: string | null;
+
+  @OneToMany(() => CartItem, (item) => item.cart)
+  items: CartItem[];
+
+  @CreateDateColumn({
+    name: 'created_at',
+    type: 'timestamp with time zone',
+    default: () => 'CURRENT_TIMESTAMP',
+  })
+  createdAt: Date;
+
+  @UpdateDateColumn({
+    name: 'updated_at',
+    type: 'timestamp with time zone',
+    default: () => 'CURRENT_TIMESTAMP',
+  })
+  updatedAt: Date;
+}
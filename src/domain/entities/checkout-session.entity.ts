@@ -5,6 +5,9 @@ import {
   CreateDateColumn,
   Index,
 } from 'typeorm';
+import { TaxSchedule } from './tax-rate.entity';
+import { ShippingCharge } from './shipping-method.entity';
+import { PromotionDiscount } from './promotion.entity';
 
 /**
  * CheckoutSession - Entidad para almacenar datos temporales del carrito antes de Stripe
@@ -15,9 +18,13 @@ export class CheckoutSession {
   @PrimaryGeneratedColumn('uuid')
   id: string;
 
-  @Column({ name: 'user_id', type: 'uuid' })
+  // Nulo en compras de invitado
+  @Column({ name: 'user_id', type: 'uuid', nullable: true })
   @Index()
-  userId: string;
+  userId: string | null;
+
+  @Column({ name: 'guest_customer_id', type: 'uuid', nullable: true })
+  guestCustomerId: string | null;
 
   @Column({ name: 'stripe_session_id', type: 'varchar', nullable: true })
   stripeSessionId: string | null;
@@ -28,8 +35,23 @@ export class CheckoutSession {
       productId: number;
       quantity: number;
       price: number;
+      discountAmount?: number;
+      taxAmount?: number;
     }>;
-    total: number;
+    subtotal?: number;
+    taxAmount?: number;
+    shippingMethodId?: string;
+    shippingAmount?: number;
+    couponCode?: string;
+    discountAmount?: number;
+    storeCreditAmount?: number; // reservado de la cuenta, se descuenta del cobro
+    total: number; // con impuestos, envío y descuentos
+    // Tasas, envío y cupón con los que se cobró: la orden se crea con ellos
+    pricing?: {
+      taxes: TaxSchedule;
+      shipping: ShippingCharge | null;
+      promotion: PromotionDiscount | null;
+    };
   };
 
   @Column({ name: 'metadata', type: 'jsonb', nullable: true })
@@ -37,7 +59,7 @@ export class CheckoutSession {
 
   @Column({ name: 'status', type: 'varchar', default: 'pending' })
   @Index() // Índice para filtrar por estado
-  status: 'pending' | 'completed' | 'expired';
+  status: 'pending' | 'completed' | 'expired' | 'cancelled';
 
   @CreateDateColumn({ name: 'created_at' })
   createdAt: Date;
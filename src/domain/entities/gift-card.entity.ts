@@ -0,0 +1,144 @@
+import {
+  Entity,
+  Column,
+  Check,
+  CreateDateColumn,
+  UpdateDateColumn,
+  PrimaryGeneratedColumn,
+  Index,
+} from 'typeorm';
+
+/**
+ * Origen de una tarjeta de regalo
+ * - admin: emitida por un administrador (compensaciones, campañas)
+ * - purchase: vendida a un cliente (purchasedBy)
+ */
+export enum GiftCardSource {
+  ADMIN = 'admin',
+  PURCHASE = 'purchase',
+}
+
+/**
+ * GiftCard Entity - Código canjeable por saldo a favor
+ * Al canjearse, todo su saldo pasa a la cuenta de saldo a favor del usuario
+ */
+@Entity('gift_cards')
+@Check('"balance" >= 0')
+export class GiftCard {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  // Código de la tarjeta, en mayúsculas (XXXX-XXXX-XXXX-XXXX)
+  @Column({
+    type: 'varchar',
+    length: 32,
+    nullable: false,
+  })
+  @Index({ unique: true })
+  code: string;
+
+  @Column({
+    name: 'initial_amount',
+    type: 'numeric',
+    precision: 10,
+    scale: 2,
+    nullable: false,
+    transformer: {
+      to: (value: number) => value,
+      from: (value: string) => parseFloat(value),
+    },
+  })
+  initialAmount: number; // en centavos
+
+  @Column({
+    type: 'numeric',
+    precision: 10,
+    scale: 2,
+    nullable: false,
+    transformer: {
+      to: (value: number) => value,
+      from: (value: string) => parseFloat(value),
+    },
+  })
+  balance: number; // en centavos, 0 una vez canjeada
+
+  @Column({
+    type: 'varchar',
+    length: 20,
+    nullable: false,
+    default: GiftCardSource.ADMIN,
+  })
+  source: GiftCardSource;
+
+  @Column({
+    name: 'purchased_by',
+    type: 'uuid',
+    nullable: true,
+  })
+  purchasedBy: string | null;
+
+  @Column({
+    type: 'text',
+    nullable: true,
+  })
+  note: string | null;
+
+  @Column({
+    name: 'expires_at',
+    type: 'timestamp with time zone',
+    nullable: true,
+  })
+  expiresAt: Date | null;
+
+  @Column({
+    name: 'is_active',
+    type: 'boolean',
+    default: true,
+  })
+  isActive: boolean;
+
+  @Column({
+    name: 'redeemed_by',
+    type: 'uuid',
+    nullable: true,
+  })
+  @Index()
+  redeemedBy: string | null;
+
+  @Column({
+    name: 'redeemed_at',
+    type: 'timestamp with time zone',
+    nullable: true,
+  })
+  redeemedAt: Date | null;
+
+  @Column({
+    name: 'created_by',
+    type: 'uuid',
+    nullable: true,
+  })
+  createdBy: string | null;
+
+  @CreateDateColumn({
+    name: 'created_at',
+    type: 'timestamp with time zone',
+    default: () => 'CURRENT_TIMESTAMP',
+  })
+  createdAt: Date;
+
+  @UpdateDateColumn({
+    name: 'updated_at',
+    type: 'timestamp with time zone',
+    default: () => 'CURRENT_TIMESTAMP',
+  })
+  updatedAt: Date;
+
+  // Business logic methods
+  isRedeemable(now: Date = new Date()): boolean {
+    return (
+      this.isActive &&
+      this.balance > 0 &&
+      (!this.expiresAt || this.expiresAt > now)
+    );
+  }
+}
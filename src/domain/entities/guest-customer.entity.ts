@@ -0,0 +1,72 @@
+import {
+  Entity,
+  Column,
+  OneToMany,
+  CreateDateColumn,
+  UpdateDateColumn,
+  PrimaryGeneratedColumn,
+  Index,
+} from 'typeorm';
+import { Order } from './order.entity';
+
+/**
+ * GuestCustomer Entity - Comprador sin cuenta (uno por email)
+ * Cada orden pasa a un usuario con el mismo email cuando este la reclama con
+ * su order access token; claimedBy registra la primera cuenta que reclamó
+ */
+@Entity('guest_customers')
+export class GuestCustomer {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  // Normalizado en minúsculas
+  @Column({
+    type: 'varchar',
+    length: 255,
+    nullable: false,
+  })
+  @Index({ unique: true })
+  email: string;
+
+  // Último nombre usado en una compra
+  @Column({
+    name: 'full_name',
+    type: 'varchar',
+    length: 255,
+    nullable: false,
+  })
+  fullName: string;
+
+  // Usuario que reclamó las órdenes
+  @Column({
+    name: 'claimed_by',
+    type: 'uuid',
+    nullable: true,
+  })
+  @Index()
+  claimedBy: string | null;
+
+  @Column({
+    name: 'claimed_at',
+    type: 'timestamp with time zone',
+    nullable: true,
+  })
+  claimedAt: Date | null;
+
+  @OneToMany(() => Order, (order) => order.guestCustomer)
+  orders: Order[];
+
+  @CreateDateColumn({
+    name: 'created_at',
+    type: 'timestamp with time zone',
+    default: () => 'CURRENT_TIMESTAMP',
+  })
+  createdAt: Date;
+
+  @UpdateDateColumn({
+    name: 'updated_at',
+    type: 'timestamp with time zone',
+    default: () => 'CURRENT_TIMESTAMP',
+  })
+  updatedAt: Date;
+}
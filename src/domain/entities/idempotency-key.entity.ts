@@ -0,0 +1,44 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  Index,
+} from 'typeorm';
+
+/**
+ * IdempotencyKey - Respuesta guardada para un header Idempotency-Key
+ * Un mismo usuario no puede reutilizar la clave con otra petición mientras no expire
+ */
+@Entity('idempotency_keys')
+@Index(['userId', 'key'], { unique: true })
+export class IdempotencyKey {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ name: 'user_id', type: 'uuid' })
+  userId: string;
+
+  @Column({ type: 'varchar', length: 255 })
+  key: string;
+
+  // SHA-256 de método, ruta y cuerpo de la petición original
+  @Column({ type: 'varchar', length: 64 })
+  fingerprint: string;
+
+  @Column({ type: 'varchar', length: 20, default: 'in_progress' })
+  status: 'in_progress' | 'completed';
+
+  @Column({ name: 'response_status', type: 'integer', nullable: true })
+  responseStatus: number | null;
+
+  @Column({ name: 'response_body', type: 'jsonb', nullable: true })
+  responseBody: unknown;
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt: Date;
+
+  @Column({ name: 'expires_at', type: 'timestamp' })
+  @Index() // Índice para la purga de claves expiradas
+  expiresAt: Date;
+}
@@ -5,14 +5,135 @@ import { User } from './user.entity';
 import { Product } from './product.entity';
 import { Order } from './order.entity';
 import { OrderItem } from './order-item.entity';
+import { OrderStatusHistory } from './order-status-history.entity';
 import { CheckoutSession } from './checkout-session.entity';
+import { Payment } from './payment.entity';
+import { Refund } from './refund.entity';
+import { Shipment } from './shipment.entity';
+import { ReturnRequest } from './return-request.entity';
+import { IdempotencyKey } from './idempotency-key.entity';
+import { Invoice } from './invoice.entity';
+import { TaxRate } from './tax-rate.entity';
+import { ShippingZone } from './shipping-zone.entity';
+import { ShippingMethod } from './shipping-method.entity';
+import { Promotion } from './promotion.entity';
+import { PromotionRedemption } from './promotion-redemption.entity';
+import { GiftCard } from './gift-card.entity';
+import { StoreCreditAccount } from './store-credit-account.entity';
+import { StoreCreditEntry } from './store-credit-entry.entity';
+import { Cart } from './cart.entity';
+import { CartItem } from './cart-item.entity';
+import { GuestCustomer } from './guest-customer.entity';
+import { InventoryReservation } from './inventory-reservation.entity';
+import { StockMovement } from './stock-movement.entity';
+import { Warehouse } from './warehouse.entity';
+import { ProductStock } from './product-stock.entity';
+import { StockTransfer } from './stock-transfer.entity';
+import { OrderItemAllocation } from './order-item-allocation.entity';
 
 export { BaseEntity } from './base.entity';
 export { User, UserRole } from './user.entity';
 export { Product } from './product.entity';
 export { Order, OrderStatus } from './order.entity';
 export { OrderItem } from './order-item.entity';
+export { OrderStatusHistory } from './order-status-history.entity';
 export { CheckoutSession } from './checkout-session.entity';
+export { Payment, PaymentStatus } from './payment.entity';
+export {
+  Refund,
+  RefundStatus,
+  RefundMethod,
+  RefundLine,
+} from './refund.entity';
+export { Shipment, ShipmentStatus, ShipmentLine } from './shipment.entity';
+export {
+  ReturnRequest,
+  ReturnStatus,
+  ReturnReason,
+  ReturnItemCondition,
+  ReturnLine,
+  ReturnStatusChange,
+} from './return-request.entity';
+export { IdempotencyKey } from './idempotency-key.entity';
+export {
+  Invoice,
+  InvoiceType,
+  InvoiceParty,
+  InvoiceLine,
+} from './invoice.entity';
+export {
+  TaxRate,
+  TaxPricingMode,
+  TaxSchedule,
+  LineTax,
+} from './tax-rate.entity';
+export { ShippingZone } from './shipping-zone.entity';
+export {
+  ShippingMethod,
+  ShippingRateType,
+  ShippingCart,
+  ShippingCharge,
+} from './shipping-method.entity';
+export {
+  Promotion,
+  PromotionType,
+  PromotionLine,
+  PromotionDiscount,
+} from './promotion.entity';
+export { PromotionRedemption } from './promotion-redemption.entity';
+export { GiftCard, GiftCardSource } from './gift-card.entity';
+export { StoreCreditAccount } from './store-credit-account.entity';
+export {
+  StoreCreditEntry,
+  StoreCreditEntryType,
+  StoreCreditReason,
+} from './store-credit-entry.entity';
+export { Cart } from './cart.entity';
+export { CartItem } from './cart-item.entity';
+export { GuestCustomer } from './guest-customer.entity';
+export {
+  InventoryReservation,
+  InventoryReservationStatus,
+} from './inventory-reservation.entity';
+export { StockMovement, StockMovementReason } from './stock-movement.entity';
+export {
+  Warehouse,
+  WarehouseAllocationStrategy,
+  allocateFromWarehouses,
+} from './warehouse.entity';
+export { ProductStock } from './product-stock.entity';
+export { StockTransfer } from './stock-transfer.entity';
+export { OrderItemAllocation } from './order-item-allocation.entity';
 
 // Array of all entities for TypeORM configuration
-export const entities = [User, Product, Order, OrderItem, CheckoutSession];
+export const entities = [
+  User,
+  Product,
+  Order,
+  OrderItem,
+  OrderStatusHistory,
+  CheckoutSession,
+  Payment,
+  Refund,
+  Shipment,
+  ReturnRequest,
+  IdempotencyKey,
+  Invoice,
+  TaxRate,
+  ShippingZone,
+  ShippingMethod,
+  Promotion,
+  PromotionRedemption,
+  GiftCard,
+  StoreCreditAccount,
+  StoreCreditEntry,
+  Cart,
+  CartItem,
+  GuestCustomer,
+  InventoryReservation,
+  StockMovement,
+  Warehouse,
+  ProductStock,
+  StockTransfer,
+  OrderItemAllocation,
+];
@@ -0,0 +1,81 @@
+import {
+  Entity,
+  Column,
+  ManyToOne,
+  JoinColumn,
+  CreateDateColumn,
+  UpdateDateColumn,
+  PrimaryGeneratedColumn,
+  Index,
+} from 'typeorm';
+import { Product } from './product.entity';
+
+export enum InventoryReservationStatus {
+  ACTIVE = 'active', // descuenta del stock disponible hasta expiresAt
+  CONSUMED = 'consumed', // la orden creada descontó el stock
+  RELEASED = 'released', // la sesión o el carrito la liberó
+  EXPIRED = 'expired', // venció sin convertirse en orden
+}
+
+/**
+ * InventoryReservation - Unidades de un producto apartadas para una checkout
+ * session o un carrito durante un tiempo limitado
+ * El stock disponible es Product.stock menos las reservas activas no vencidas
+ */
+@Entity('inventory_reservations')
+@Index('idx_inventory_reservations_active', [
+  'productId',
+  'status',
+  'expiresAt',
+])
+export class InventoryReservation {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @ManyToOne(() => Product, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'product_id' })
+  product: Product;
+
+  @Column({ name: 'product_id', type: 'integer' })
+  productId: number;
+
+  @Column({ type: 'integer' })
+  quantity: number;
+
+  // Dueño de la reserva: una checkout session o un carrito
+  @Column({ name: 'checkout_session_id', type: 'uuid', nullable: true })
+  @Index()
+  checkoutSessionId: string | null;
+
+  @Column({ name: 'cart_id', type: 'uuid', nullable: true })
+  @Index()
+  cartId: string | null;
+
+  // Orden que consumió la reserva
+  @Column({ name: 'order_id', type: 'uuid', nullable: true })
+  orderId: string | null;
+
+  @Column({
+    type: 'varchar',
+    length: 20,
+    default: InventoryReservationStatus.ACTIVE,
+  })
+  status: InventoryReservationStatus;
+
+  @Column({ name: 'expires_at', type: 'timestamp with time zone' })
+  expiresAt: Date;
+
+  @CreateDateColumn({
+    name: 'created_at',
+    type: 'timestamp with time zone',
+    default: () => 'CURRENT_TIMESTAMP',
+  })
+  createdAt: Date;
+
+  @UpdateDateColumn({
+    name: 'updated_at',
+    type: 'timestamp with time zone',
+    default: () => 'CURRENT_TIMESTAMP',
+  })
+  updatedAt: Date;
+}
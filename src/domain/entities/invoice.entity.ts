@@ -0,0 +1,168 @@
+import {
+  Entity,
+  Column,
+  CreateDateColumn,
+  PrimaryGeneratedColumn,
+  Index,
+} from 'typeorm';
+
+export enum InvoiceType {
+  INVOICE = 'invoice',
+  CREDIT_NOTE = 'credit_note',
+}
+
+/**
+ * Prefijo de numeración por tipo: FAC-2026-000001 / NC-2026-000001
+ */
+export const INVOICE_NUMBER_PREFIX: Record<InvoiceType, string> = {
+  [InvoiceType.INVOICE]: 'FAC',
+  [InvoiceType.CREDIT_NOTE]: 'NC',
+};
+
+export function formatInvoiceNumber(
+  type: InvoiceType,
+  fiscalYear: number,
+  sequence: number,
+): string {
+  return `${INVOICE_NUMBER_PREFIX[type]}-${fiscalYear}-${String(sequence).padStart(6, '0')}`;
+}
+
+/**
+ * Datos del comprador congelados al emitir el documento
+ */
+export interface InvoiceParty {
+  userId: string | null; // null si compró un invitado
+  fullName: string;
+  email: string;
+  address: string | null;
+}
+
+/**
+ * Línea de factura o nota de crédito (montos en centavos)
+ * productId es null en líneas de ajuste
+ */
+export interface InvoiceLine {
+  productId: number | null;
+  description: string;
+  quantity: number;
+  unitPrice: number;
+  net: number;
+  tax: number;
+  gross: number;
+}
+
+const centsTransformer = {
+  to: (value: number) => value,
+  from: (value: string) => parseFloat(value),
+};
+
+/**
+ * Invoice Entity - Factura de una orden pagada o nota de crédito sobre ella
+ * Todo lo que se imprime queda congelado en el registro, por lo que volver a
+ * renderizar un documento siempre produce el mismo resultado
+ */
+@Entity('invoices')
+@Index(['type', 'fiscalYear', 'sequence'], { unique: true })
+@Index(['orderId'], { unique: true, where: `type = 'invoice'` })
+export class Invoice {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ type: 'varchar', length: 20, nullable: false })
+  type: InvoiceType;
+
+  @Column({ type: 'varchar', length: 30, nullable: false, unique: true })
+  number: string;
+
+  @Column({ name: 'fiscal_year', type: 'integer', nullable: false })
+  fiscalYear: number;
+
+  // Correlativo sin huecos por tipo y año
+  @Column({ type: 'integer', nullable: false })
+  sequence: number;
+
+  @Column({ name: 'order_id', type: 'uuid', nullable: false })
+  @Index()
+  orderId: string;
+
+  @Column({
+    name: 'order_number',
+    type: 'varchar',
+    length: 20,
+    nullable: true,
+  })
+  orderNumber: string | null;
+
+  // Factura acreditada (solo notas de crédito)
+  @Column({ name: 'invoice_id', type: 'uuid', nullable: true })
+  invoiceId: string | null;
+
+  @Column({
+    name: 'invoice_number',
+    type: 'varchar',
+    length: 30,
+    nullable: true,
+  })
+  invoiceNumber: string | null;
+
+  // Reembolso acreditado (notas de crédito por reembolso)
+  @Column({ name: 'refund_id', type: 'uuid', nullable: true, unique: true })
+  refundId: string | null;
+
+  @Column({ type: 'text', nullable: true })
+  reason: string | null;
+
+  @Column({ type: 'jsonb', nullable: false })
+  buyer: InvoiceParty;
+
+  @Column({ type: 'jsonb', nullable: false, default: () => "'[]'" })
+  lines: InvoiceLine[];
+
+  @Column({
+    type: 'numeric',
+    precision: 10,
+    scale: 2,
+    nullable: false,
+    transformer: centsTransformer,
+  })
+  subtotal: number; // en centavos
+
+  @Column({
+    name: 'tax_total',
+    type: 'numeric',
+    precision: 10,
+    scale: 2,
+    nullable: false,
+    transformer: centsTransformer,
+  })
+  taxTotal: number; // en centavos
+
+  @Column({
+    type: 'numeric',
+    precision: 10,
+    scale: 2,
+    nullable: false,
+    transformer: centsTransformer,
+  })
+  total: number; // en centavos
+
+  @Column({ type: 'varchar', length: 3, nullable: false })
+  currency: string;
+
+  @Column({
+    name: 'issued_at',
+    type: 'timestamp with time zone',
+    nullable: false,
+  })
+  issuedAt: Date;
+
+  @Column({ name: 'created_by', type: 'uuid', nullable: true })
+  createdBy: string | null;
+
+  @CreateDateColumn({
+    name: 'created_at',
+    type: 'timestamp with time zone',
+    default: () => 'CURRENT_TIMESTAMP',
+  })
+  createdAt: Date;
+}
@@ -0,0 +1,69 @@
+import {
+  Entity,
+  Column,
+  ManyToOne,
+  JoinColumn,
+  CreateDateColumn,
+  UpdateDateColumn,
+  PrimaryGeneratedColumn,
+  Unique,
+} from 'typeorm';
+import { OrderItem } from './order-item.entity';
+import { Warehouse } from './warehouse.entity';
+
+/**
+ * OrderItemAllocation Entity - Unidades de un item de orden que salen de un
+ * almacén. Cancelaciones, ediciones, reembolsos y devoluciones descuentan de
+ * aquí las unidades que vuelven al stock de ese almacén
+ */
+@Entity('order_item_allocations')
+@Unique(['orderItemId', 'warehouseId'])
+export class OrderItemAllocation {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @ManyToOne(() => OrderItem, (item) => item.allocations, {
+    nullable: false,
+    onDelete: 'CASCADE',
+  })
+  @JoinColumn({ name: 'order_item_id' })
+  orderItem: OrderItem;
+
+  @Column({
+    name: 'order_item_id',
+    type: 'int',
+    nullable: false,
+  })
+  orderItemId: number;
+
+  @ManyToOne(() => Warehouse, { nullable: false })
+  @JoinColumn({ name: 'warehouse_id' })
+  warehouse: Warehouse;
+
+  @Column({
+    name: 'warehouse_id',
+    type: 'uuid',
+    nullable: false,
+  })
+  warehouseId: string;
+
+  @Column({
+    type: 'int',
+    nullable: false,
+  })
+  quantity: number;
+
+  @CreateDateColumn({
+    name: 'created_at',
+    type: 'timestamp with time zone',
+    default: () => 'CURRENT_TIMESTAMP',
+  })
+  createdAt: Date;
+
+  @UpdateDateColumn({
+    name: 'updated_at',
+    type: 'timestamp with time zone',
+    default: () => 'CURRENT_TIMESTAMP',
+  })
+  updatedAt: Date;
+}
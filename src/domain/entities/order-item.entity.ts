@@ -2,12 +2,14 @@ import {
   Entity,
   Column,
   ManyToOne,
+  OneToMany,
   JoinColumn,
   PrimaryGeneratedColumn,
   Unique,
 } from 'typeorm';
 import { Order } from './order.entity';
 import { Product } from './product.entity';
+import { OrderItemAllocation } from './order-item-allocation.entity';
 
 /**
  * OrderItem Entity - Ítems individuales de un pedido
@@ -66,9 +68,84 @@ export class OrderItem {
   })
   priceAtPurchase: number;
 
+  // Descuento de promoción, aplicado antes de impuestos
+  @Column({
+    name: 'discount_amount',
+    type: 'numeric',
+    precision: 10,
+    scale: 2,
+    nullable: false,
+    default: 0,
+    transformer: {
+      to: (value: number) => value,
+      from: (value: string) => parseFloat(value),
+    },
+  })
+  discountAmount: number;
+
+  // Desglose fiscal (nulo en líneas anteriores al cálculo de impuestos)
+  @Column({
+    name: 'tax_rate',
+    type: 'numeric',
+    precision: 5,
+    scale: 2,
+    nullable: true,
+    transformer: {
+      to: (value: number | null) => value,
+      from: (value: string | null) =>
+        value === null ? null : parseFloat(value),
+    },
+  })
+  taxRate: number | null;
+
+  @Column({
+    name: 'net_amount',
+    type: 'numeric',
+    precision: 10,
+    scale: 2,
+    nullable: true,
+    transformer: {
+      to: (value: number | null) => value,
+      from: (value: string | null) =>
+        value === null ? null : parseFloat(value),
+    },
+  })
+  netAmount: number | null;
+
+  @Column({
+    name: 'tax_amount',
+    type: 'numeric',
+    precision: 10,
+    scale: 2,
+    nullable: true,
+    transformer: {
+      to: (value: number | null) => value,
+      from: (value: string | null) =>
+        value === null ? null : parseFloat(value),
+    },
+  })
+  taxAmount: number | null;
+
+  @Column({
+    name: 'gross_amount',
+    type: 'numeric',
+    precision: 10,
+    scale: 2,
+    nullable: true,
+    transformer: {
+      to: (value: number | null) => value,
+      from: (value: string | null) =>
+        value === null ? null : parseFloat(value),
+    },
+  })
+  grossAmount: number | null;
+
+  @OneToMany(() => OrderItemAllocation, (allocation) => allocation.orderItem)
+  allocations: OrderItemAllocation[]; // almacenes de los que salen las unidades
+
   // Business logic methods
   getTotalPrice(): number {
-    return this.priceAtPurchase * this.quantity;
+    return this.grossAmount ?? this.priceAtPurchase * this.quantity;
   }
 
   updateQuantity(newQuantity: number): void {
@@ -0,0 +1,69 @@
+import {
+  Entity,
+  Column,
+  ManyToOne,
+  JoinColumn,
+  CreateDateColumn,
+  PrimaryGeneratedColumn,
+  Index,
+} from 'typeorm';
+import { Order, OrderStatus } from './order.entity';
+
+/**
+ * OrderStatusHistory Entity - Auditoría de transiciones de estado
+ * Una fila por cada cambio de estado (fromStatus es null al crear la orden)
+ */
+@Entity('order_status_history')
+@Index('idx_order_status_history_order_created', ['orderId', 'createdAt'])
+export class OrderStatusHistory {
+  @PrimaryGeneratedColumn('increment')
+  id: number;
+
+  @ManyToOne(() => Order, {
+    nullable: false,
+    onDelete: 'CASCADE',
+  })
+  @JoinColumn({ name: 'order_id' })
+  order: Order;
+
+  @Column({
+    name: 'order_id',
+    type: 'uuid',
+    nullable: false,
+  })
+  orderId: string;
+
+  @Column({
+    name: 'from_status',
+    type: 'text',
+    nullable: true,
+  })
+  fromStatus: OrderStatus | null;
+
+  @Column({
+    name: 'to_status',
+    type: 'text',
+    nullable: false,
+  })
+  toStatus: OrderStatus;
+
+  @Column({
+    name: 'actor_id',
+    type: 'uuid',
+    nullable: true,
+  })
+  actorId: string | null; // null = sistema (webhook, scheduler)
+
+  @Column({
+    type: 'text',
+    nullable: true,
+  })
+  note: string | null;
+
+  @CreateDateColumn({
+    name: 'created_at',
+    type: 'timestamp with time zone',
+    default: () => 'CURRENT_TIMESTAMP',
+  })
+  createdAt: Date;
+}
@@ -7,9 +7,15 @@ import {
   CreateDateColumn,
   UpdateDateColumn,
   PrimaryGeneratedColumn,
+  Index,
 } from 'typeorm';
+import { createHash } from 'crypto';
 import { User } from './user.entity';
+import { GuestCustomer } from './guest-customer.entity';
 import { OrderItem } from './order-item.entity';
+import { Shipment } from './shipment.entity';
+import { ReturnRequest } from './return-request.entity';
+import { TaxPricingMode } from './tax-rate.entity';
 
 export enum OrderStatus {
   PENDING = 'Pending',
@@ -17,6 +23,26 @@ export enum OrderStatus {
   SHIPPED = 'Shipped',
   DELIVERED = 'Delivered',
   CANCELLED = 'Cancelled',
+  PARTIALLY_REFUNDED = 'PartiallyRefunded',
+  REFUNDED = 'Refunded',
+}
+
+/**
+ * Números de orden legibles: QC-<año>-<secuencia de 6+ dígitos>
+ * La secuencia es global y puede tener huecos (transacciones revertidas)
+ */
+export const ORDER_NUMBER_SEQUENCE = 'order_number_seq';
+export const ORDER_NUMBER_PATTERN = /^QC-\d{4}-\d{6,}$/;
+
+export function formatOrderNumber(sequence: number, date: Date): string {
+  return `QC-${date.getFullYear()}-${String(sequence).padStart(6, '0')}`;
+}
+
+/**
+ * Las órdenes de invitado guardan solo el hash de su order access token
+ */
+export function hashOrderAccessToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
 }
 
 /**
@@ -29,19 +55,169 @@ export class Order {
   @PrimaryGeneratedColumn('uuid')
   id: string;
 
+  // Nulo solo en órdenes anteriores a la numeración
+  @Column({
+    name: 'order_number',
+    type: 'varchar',
+    length: 20,
+    nullable: true,
+    unique: true,
+  })
+  orderNumber: string | null;
+
   @ManyToOne(() => User, (user) => user.orders, {
-    nullable: false,
+    nullable: true,
   })
   @JoinColumn({ name: 'user_id' })
-  user: User;
+  user: User | null;
 
+  // Nulo en órdenes de invitado hasta que un usuario las reclame
   @Column({
     name: 'user_id',
     type: 'uuid',
+    nullable: true,
+  })
+  userId: string | null;
+
+  // Comprador sin cuenta (se conserva después de reclamar la orden)
+  @ManyToOne(() => GuestCustomer, (guestCustomer) => guestCustomer.orders, {
+    nullable: true,
+    onDelete: 'RESTRICT',
+  })
+  @JoinColumn({ name: 'guest_customer_id' })
+  guestCustomer: GuestCustomer | null;
+
+  @Column({
+    name: 'guest_customer_id',
+    type: 'uuid',
+    nullable: true,
+  })
+  @Index()
+  guestCustomerId: string | null;
+
+  // SHA-256 del order access token para consultar la orden sin sesión
+  @Column({
+    name: 'access_token_hash',
+    type: 'varchar',
+    length: 64,
+    nullable: true,
+    select: false,
+  })
+  @Index({ unique: true })
+  accessTokenHash: string | null;
+
+  // Desglose fiscal (nulo en órdenes anteriores al cálculo de impuestos)
+  @Column({
+    name: 'subtotal_amount',
+    type: 'numeric',
+    precision: 10,
+    scale: 2,
+    nullable: true,
+    transformer: {
+      to: (value: number | null) => value,
+      from: (value: string | null) =>
+        value === null ? null : parseFloat(value),
+    },
+  })
+  subtotalAmount: number | null;
+
+  @Column({
+    name: 'tax_amount',
+    type: 'numeric',
+    precision: 10,
+    scale: 2,
+    nullable: true,
+    transformer: {
+      to: (value: number | null) => value,
+      from: (value: string | null) =>
+        value === null ? null : parseFloat(value),
+    },
+  })
+  taxAmount: number | null;
+
+  @Column({
+    name: 'tax_mode',
+    type: 'text',
+    nullable: true,
+  })
+  taxMode: TaxPricingMode | null;
+
+  @Column({
+    name: 'tax_country',
+    type: 'varchar',
+    length: 2,
+    nullable: true,
+  })
+  taxCountry: string | null;
+
+  @Column({
+    name: 'tax_region',
+    type: 'varchar',
+    length: 100,
+    nullable: true,
+  })
+  taxRegion: string | null;
+
+  // Cupón aplicado; discountAmount suma los descuentos de línea y de envío
+  @Column({
+    name: 'promotion_id',
+    type: 'uuid',
+    nullable: true,
+  })
+  promotionId: string | null;
+
+  @Column({
+    name: 'promotion_code',
+    type: 'varchar',
+    length: 50,
+    nullable: true,
+  })
+  promotionCode: string | null;
+
+  @Column({
+    name: 'discount_amount',
+    type: 'numeric',
+    precision: 10,
+    scale: 2,
     nullable: false,
+    default: 0,
+    transformer: {
+      to: (value: number) => value,
+      from: (value: string) => parseFloat(value),
+    },
+  })
+  discountAmount: number;
+
+  // Envío elegido (nombre y costo congelados al crear la orden)
+  @Column({
+    name: 'shipping_method_id',
+    type: 'uuid',
+    nullable: true,
+  })
+  shippingMethodId: string | null;
+
+  @Column({
+    name: 'shipping_method_name',
+    type: 'text',
+    nullable: true,
   })
-  userId: string;
+  shippingMethodName: string | null;
 
+  @Column({
+    name: 'shipping_amount',
+    type: 'numeric',
+    precision: 10,
+    scale: 2,
+    nullable: false,
+    default: 0,
+    transformer: {
+      to: (value: number) => value,
+      from: (value: string) => parseFloat(value),
+    },
+  })
+  shippingAmount: number;
+
+  // Total = subtotal + impuestos + envío, ya descontados
   @Column({
     name: 'total_amount',
     type: 'numeric',
@@ -55,6 +231,21 @@ export class Order {
   })
   totalAmount: number;
 
+  // Parte del total pagada con saldo a favor; el resto se cobra con el proveedor
+  @Column({
+    name: 'store_credit_amount',
+    type: 'numeric',
+    precision: 10,
+    scale: 2,
+    nullable: false,
+    default: 0,
+    transformer: {
+      to: (value: number) => value,
+      from: (value: string) => parseFloat(value),
+    },
+  })
+  storeCreditAmount: number;
+
   @Column({
     type: 'text',
     nullable: false,
@@ -69,6 +260,27 @@ export class Order {
   })
   deliveryAddress: string;
 
+  @Column({
+    name: 'cancelled_by',
+    type: 'uuid',
+    nullable: true,
+  })
+  cancelledBy: string | null;
+
+  @Column({
+    name: 'cancellation_reason',
+    type: 'text',
+    nullable: true,
+  })
+  cancellationReason: string | null;
+
+  @Column({
+    name: 'cancelled_at',
+    type: 'timestamp with time zone',
+    nullable: true,
+  })
+  cancelledAt: Date | null;
+
   @CreateDateColumn({
     name: 'created_at',
     type: 'timestamp with time zone',
@@ -87,6 +299,12 @@ export class Order {
   @OneToMany(() => OrderItem, (orderItem) => orderItem.order)
   items: OrderItem[];
 
+  @OneToMany(() => Shipment, (shipment) => shipment.order)
+  shipments: Shipment[];
+
+  @OneToMany(() => ReturnRequest, (returnRequest) => returnRequest.order)
+  returns: ReturnRequest[];
+
   // Business logic methods
   updateStatus(newStatus: OrderStatus): void {
     this.status = newStatus;
@@ -98,9 +316,11 @@ export class Order {
   }
 
   canBeCancelled(): boolean {
-    // Permitir cancelar si no está ya cancelada ni entregada
-    return ![OrderStatus.CANCELLED, OrderStatus.DELIVERED].includes(
-      this.status,
-    );
+    // Permitir cancelar si no está ya cancelada, entregada ni reembolsada
+    return ![
+      OrderStatus.CANCELLED,
+      OrderStatus.DELIVERED,
+      OrderStatus.REFUNDED,
+    ].includes(this.status);
   }
 }
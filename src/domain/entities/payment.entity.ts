@@ -0,0 +1,165 @@
+import {
+  Entity,
+  Column,
+  OneToOne,
+  OneToMany,
+  JoinColumn,
+  CreateDateColumn,
+  UpdateDateColumn,
+  PrimaryGeneratedColumn,
+  Index,
+} from 'typeorm';
+import { Order } from './order.entity';
+import { Refund } from './refund.entity';
+
+export enum PaymentStatus {
+  CAPTURED = 'captured',
+  PARTIALLY_REFUNDED = 'partially_refunded',
+  REFUNDED = 'refunded',
+}
+
+/**
+ * Proveedor del pago de una orden cubierta por completo con saldo a favor
+ */
+export const STORE_CREDIT_PAYMENT_PROVIDER = 'store_credit';
+
+/**
+ * Payment Entity - Pago capturado de una orden
+ * Guarda la referencia del proveedor (payment intent) necesaria para reembolsar
+ * y la parte del total pagada con saldo a favor, que se reembolsa como crédito
+ */
+@Entity('payments')
+export class Payment {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @OneToOne(() => Order, { nullable: false, onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'order_id' })
+  order: Order;
+
+  @Column({ name: 'order_id', type: 'uuid', nullable: false })
+  @Index({ unique: true })
+  orderId: string;
+
+  @Column({ type: 'varchar', length: 50, nullable: false })
+  provider: string;
+
+  @Column({
+    name: 'provider_session_id',
+    type: 'varchar',
+    nullable: true,
+  })
+  providerSessionId: string | null;
+
+  @Column({
+    name: 'provider_reference',
+    type: 'varchar',
+    nullable: true,
+  })
+  @Index()
+  providerReference: string | null;
+
+  @Column({
+    type: 'numeric',
+    precision: 10,
+    scale: 2,
+    nullable: false,
+    transformer: {
+      to: (value: number) => value,
+      from: (value: string) => parseFloat(value),
+    },
+  })
+  amount: number; // en centavos
+
+  @Column({
+    name: 'refunded_amount',
+    type: 'numeric',
+    precision: 10,
+    scale: 2,
+    nullable: false,
+    default: 0,
+    transformer: {
+      to: (value: number) => value,
+      from: (value: string) => parseFloat(value),
+    },
+  })
+  refundedAmount: number; // en centavos, incluye reembolsos pendientes
+
+  @Column({
+    name: 'store_credit_amount',
+    type: 'numeric',
+    precision: 10,
+    scale: 2,
+    nullable: false,
+    default: 0,
+    transformer: {
+      to: (value: number) => value,
+      from: (value: string) => parseFloat(value),
+    },
+  })
+  storeCreditAmount: number; // en centavos, no pasó por el proveedor
+
+  @Column({
+    name: 'store_credit_refunded_amount',
+    type: 'numeric',
+    precision: 10,
+    scale: 2,
+    nullable: false,
+    default: 0,
+    transformer: {
+      to: (value: number) => value,
+      from: (value: string) => parseFloat(value),
+    },
+  })
+  storeCreditRefundedAmount: number; // en centavos, incluye reembolsos pendientes
+
+  @Column({ type: 'varchar', length: 3, nullable: false })
+  currency: string;
+
+  @Column({
+    type: 'varchar',
+    length: 30,
+    nullable: false,
+    default: PaymentStatus.CAPTURED,
+  })
+  status: PaymentStatus;
+
+  @CreateDateColumn({
+    name: 'created_at',
+    type: 'timestamp with time zone',
+    default: () => 'CURRENT_TIMESTAMP',
+  })
+  createdAt: Date;
+
+  @UpdateDateColumn({
+    name: 'updated_at',
+    type: 'timestamp with time zone',
+    default: () => 'CURRENT_TIMESTAMP',
+  })
+  updatedAt: Date;
+
+  // Relations
+  @OneToMany(() => Refund, (refund) => refund.payment)
+  refunds: Refund[];
+
+  // Business logic methods
+  /**
+   * Lo que queda por reembolsar de ambas partes del pago
+   */
+  getRefundableAmount(): number {
+    return (
+      this.getProviderRefundableAmount() +
+      Math.max(
+        0,
+        (this.storeCreditAmount ?? 0) - (this.storeCreditRefundedAmount ?? 0),
+      )
+    );
+  }
+
+  /**
+   * Lo que queda por reembolsar de la parte cobrada por el proveedor
+   */
+  getProviderRefundableAmount(): number {
+    return Math.max(0, this.amount - this.refundedAmount);
+  }
+}
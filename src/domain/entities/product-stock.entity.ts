@@ -0,0 +1,62 @@
+import {
+  Entity,
+  Column,
+  ManyToOne,
+  JoinColumn,
+  UpdateDateColumn,
+  PrimaryGeneratedColumn,
+  Unique,
+} from 'typeorm';
+import { Product } from './product.entity';
+import { Warehouse } from './warehouse.entity';
+
+/**
+ * ProductStock Entity - Unidades de un producto en un almacén
+ * Product.stock es la suma de las ubicaciones; ambos se escriben solo a
+ * través del ledger de stock
+ */
+@Entity('product_stocks')
+@Unique(['productId', 'warehouseId'])
+export class ProductStock {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @ManyToOne(() => Product, (product) => product.stocks, {
+    nullable: false,
+    onDelete: 'CASCADE',
+  })
+  @JoinColumn({ name: 'product_id' })
+  product: Product;
+
+  @Column({
+    name: 'product_id',
+    type: 'int',
+    nullable: false,
+  })
+  productId: number;
+
+  @ManyToOne(() => Warehouse, { nullable: false })
+  @JoinColumn({ name: 'warehouse_id' })
+  warehouse: Warehouse;
+
+  @Column({
+    name: 'warehouse_id',
+    type: 'uuid',
+    nullable: false,
+  })
+  warehouseId: string;
+
+  @Column({
+    type: 'int',
+    nullable: false,
+    default: 0,
+  })
+  quantity: number;
+
+  @UpdateDateColumn({
+    name: 'updated_at',
+    type: 'timestamp with time zone',
+    default: () => 'CURRENT_TIMESTAMP',
+  })
+  updatedAt: Date;
+}
@@ -8,6 +8,8 @@ import {
   Index,
 } from 'typeorm';
 import { OrderItem } from './order-item.entity';
+import { ProductStock } from './product-stock.entity';
+import { DEFAULT_TAX_CATEGORY } from './tax-rate.entity';
 
 /**
  * Product Entity - Catálogo de productos
@@ -63,6 +65,25 @@ export class Product {
   })
   category: string;
 
+  // Peso unitario para tarifas de envío por peso
+  @Column({
+    name: 'weight_grams',
+    type: 'integer',
+    nullable: false,
+    default: 0,
+  })
+  weightGrams: number;
+
+  // Categoría fiscal (ver TaxRate)
+  @Column({
+    name: 'tax_category',
+    type: 'varchar',
+    length: 50,
+    nullable: false,
+    default: DEFAULT_TAX_CATEGORY,
+  })
+  taxCategory: string;
+
   @Column({
     name: 'image_url',
     type: 'text',
@@ -95,6 +116,9 @@ export class Product {
   @OneToMany(() => OrderItem, (orderItem) => orderItem.product)
   orderItems: OrderItem[];
 
+  @OneToMany(() => ProductStock, (stock) => stock.product)
+  stocks: ProductStock[]; // stock por almacén; stock es la suma
+
   // Virtual properties
   get isInStock(): boolean {
     return this.stock > 0;
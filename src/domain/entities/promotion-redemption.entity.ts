@@ -0,0 +1,72 @@
+import {
+  Entity,
+  Column,
+  ManyToOne,
+  JoinColumn,
+  CreateDateColumn,
+  PrimaryGeneratedColumn,
+  Index,
+} from 'typeorm';
+import { Promotion } from './promotion.entity';
+import { Order } from './order.entity';
+
+/**
+ * PromotionRedemption Entity - Uso de un cupón en una orden
+ * Cuenta para los límites de uso; se elimina si la orden se cancela
+ */
+@Entity('promotion_redemptions')
+@Index(['promotionId', 'userId'])
+export class PromotionRedemption {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @ManyToOne(() => Promotion, { nullable: false, onDelete: 'RESTRICT' })
+  @JoinColumn({ name: 'promotion_id' })
+  promotion: Promotion;
+
+  @Column({
+    name: 'promotion_id',
+    type: 'uuid',
+    nullable: false,
+  })
+  promotionId: string;
+
+  @Column({
+    name: 'user_id',
+    type: 'uuid',
+    nullable: false,
+  })
+  userId: string;
+
+  @ManyToOne(() => Order, { nullable: false, onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'order_id' })
+  order: Order;
+
+  @Column({
+    name: 'order_id',
+    type: 'uuid',
+    nullable: false,
+  })
+  @Index({ unique: true })
+  orderId: string;
+
+  @Column({
+    name: 'discount_amount',
+    type: 'numeric',
+    precision: 10,
+    scale: 2,
+    nullable: false,
+    transformer: {
+      to: (value: number) => value,
+      from: (value: string) => parseFloat(value),
+    },
+  })
+  discountAmount: number;
+
+  @CreateDateColumn({
+    name: 'created_at',
+    type: 'timestamp with time zone',
+    default: () => 'CURRENT_TIMESTAMP',
+  })
+  createdAt: Date;
+}
@@ -0,0 +1,264 @@
+import {
+  Entity,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  PrimaryGeneratedColumn,
+  Index,
+} from 'typeorm';
+
+/**
+ * Tipo de promoción
+ * - percentage: value% sobre las líneas elegibles
+ * - fixed: value centavos repartidos entre las líneas elegibles
+ * - free_shipping: el envío elegido no se cobra
+ * - buy_x_get_y: por cada buyQuantity + getQuantity unidades de un mismo
+ *   producto, getQuantity son gratis
+ */
+export enum PromotionType {
+  PERCENTAGE = 'percentage',
+  FIXED = 'fixed',
+  FREE_SHIPPING = 'free_shipping',
+  BUY_X_GET_Y = 'buy_x_get_y',
+}
+
+/**
+ * Línea de carrito a la que se aplica una promoción (montos en centavos)
+ */
+export interface PromotionLine {
+  productId: number;
+  category: string;
+  unitPrice: number;
+  quantity: number;
+}
+
+/**
+ * Descuento de una promoción sobre un carrito (montos en centavos)
+ * Los descuentos de línea se aplican antes de impuestos
+ */
+export interface PromotionDiscount {
+  promotionId: string;
+  code: string;
+  lines: { productId: number; amount: number }[];
+  shipping: number;
+  total: number;
+}
+
+const money = {
+  to: (value: number | null) => value,
+  from: (value: string | null) => (value === null ? null : parseFloat(value)),
+};
+
+/**
+ * Calcula el descuento de una promoción sobre las líneas y el envío
+ * Con categoría, solo las líneas de esa categoría son elegibles
+ */
+export function calculatePromotionDiscount(
+  promotion: Pick<
+    Promotion,
+    | 'id'
+    | 'code'
+    | 'type'
+    | 'value'
+    | 'category'
+    | 'buyQuantity'
+    | 'getQuantity'
+  >,
+  lines: PromotionLine[],
+  shippingAmount: number,
+): PromotionDiscount {
+  const eligible = lines.filter(
+    (line) => !promotion.category || line.category === promotion.category,
+  );
+  const amounts = new Map<number, number>();
+
+  switch (promotion.type) {
+    case PromotionType.PERCENTAGE:
+      for (const line of eligible) {
+        const amount = Math.round(line.unitPrice * line.quantity);
+        amounts.set(
+          line.productId,
+          Math.round((amount * promotion.value) / 100),
+        );
+      }
+      break;
+
+    case PromotionType.FIXED: {
+      // Reparto proporcional; la última línea absorbe el redondeo
+      const base = eligible.map((line) =>
+        Math.round(line.unitPrice * line.quantity),
+      );
+      const eligibleTotal = base.reduce((sum, amount) => sum + amount, 0);
+      const discount = Math.min(promotion.value, eligibleTotal);
+      let allocated = 0;
+      eligible.forEach((line, index) => {
+        const amount =
+          index === eligible.length - 1
+            ? discount - allocated
+            : Math.floor((discount * base[index]) / eligibleTotal);
+        allocated += amount;
+        amounts.set(line.productId, amount);
+      });
+      break;
+    }
+
+    case PromotionType.BUY_X_GET_Y: {
+      const buy = promotion.buyQuantity ?? 0;
+      const get = promotion.getQuantity ?? 0;
+      for (const line of eligible) {
+        const free =
+          get > 0 ? Math.floor(line.quantity / (buy + get)) * get : 0;
+        amounts.set(line.productId, Math.round(line.unitPrice * free));
+      }
+      break;
+    }
+  }
+
+  const shipping =
+    promotion.type === PromotionType.FREE_SHIPPING ? shippingAmount : 0;
+  const discountLines = lines.map((line) => ({
+    productId: line.productId,
+    amount: amounts.get(line.productId) ?? 0,
+  }));
+
+  return {
+    promotionId: promotion.id,
+    code: promotion.code,
+    lines: discountLines,
+    shipping,
+    total: discountLines.reduce((sum, line) => sum + line.amount, shipping),
+  };
+}
+
+/**
+ * Promotion Entity - Cupones y reglas de descuento
+ */
+@Entity('promotions')
+export class Promotion {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  // Código del cupón, en mayúsculas
+  @Column({
+    type: 'varchar',
+    length: 50,
+    nullable: false,
+  })
+  @Index({ unique: true })
+  code: string;
+
+  @Column({
+    type: 'text',
+    nullable: false,
+  })
+  name: string;
+
+  @Column({
+    type: 'text',
+    nullable: false,
+  })
+  type: PromotionType;
+
+  // Porcentaje (percentage) o centavos (fixed)
+  @Column({
+    type: 'numeric',
+    precision: 10,
+    scale: 2,
+    nullable: false,
+    default: 0,
+    transformer: money,
+  })
+  value: number;
+
+  // Categoría de producto elegible (null = todo el carrito)
+  @Column({
+    type: 'varchar',
+    length: 100,
+    nullable: true,
+  })
+  category: string | null;
+
+  @Column({
+    name: 'buy_quantity',
+    type: 'integer',
+    nullable: true,
+  })
+  buyQuantity: number | null;
+
+  @Column({
+    name: 'get_quantity',
+    type: 'integer',
+    nullable: true,
+  })
+  getQuantity: number | null;
+
+  // Subtotal mínimo del carrito a precio de catálogo
+  @Column({
+    name: 'min_order_amount',
+    type: 'numeric',
+    precision: 10,
+    scale: 2,
+    nullable: true,
+    transformer: money,
+  })
+  minOrderAmount: number | null;
+
+  @Column({
+    name: 'starts_at',
+    type: 'timestamp with time zone',
+    nullable: true,
+  })
+  startsAt: Date | null;
+
+  @Column({
+    name: 'ends_at',
+    type: 'timestamp with time zone',
+    nullable: true,
+  })
+  endsAt: Date | null;
+
+  // Usos totales del código (null = sin límite)
+  @Column({
+    name: 'usage_limit',
+    type: 'integer',
+    nullable: true,
+  })
+  usageLimit: number | null;
+
+  @Column({
+    name: 'usage_limit_per_user',
+    type: 'integer',
+    nullable: true,
+  })
+  usageLimitPerUser: number | null;
+
+  @Column({
+    name: 'is_active',
+    type: 'boolean',
+    default: true,
+  })
+  isActive: boolean;
+
+  @CreateDateColumn({
+    name: 'created_at',
+    type: 'timestamp with time zone',
+    default: () => 'CURRENT_TIMESTAMP',
+  })
+  createdAt: Date;
+
+  @UpdateDateColumn({
+    name: 'updated_at',
+    type: 'timestamp with time zone',
+    default: () => 'CURRENT_TIMESTAMP',
+  })
+  updatedAt: Date;
+
+  // Business logic methods
+  isRunning(now: Date = new Date()): boolean {
+    return (
+      this.isActive &&
+      (!this.startsAt || this.startsAt <= now) &&
+      (!this.endsAt || this.endsAt > now)
+    );
+  }
+}
@@ -0,0 +1,128 @@
+import {
+  Entity,
+  Column,
+  ManyToOne,
+  JoinColumn,
+  CreateDateColumn,
+  PrimaryGeneratedColumn,
+  Index,
+} from 'typeorm';
+import { Payment } from './payment.entity';
+
+export enum RefundStatus {
+  PENDING = 'pending',
+  SUCCEEDED = 'succeeded',
+  FAILED = 'failed',
+}
+
+/**
+ * Destino del reembolso
+ * - original: se devuelve por el proveedor de pagos
+ * - store_credit: se acredita al saldo a favor del cliente
+ */
+export enum RefundMethod {
+  ORIGINAL = 'original',
+  STORE_CREDIT = 'store_credit',
+}
+
+export interface RefundLine {
+  orderItemId: number;
+  productId: number;
+  quantity: number;
+  amount: number; // en centavos
+}
+
+/**
+ * Refund Entity - Reembolso total o parcial de un pago
+ * Se reserva como 'pending' antes de llamar al proveedor para que reembolsos
+ * concurrentes nunca superen el monto capturado
+ */
+@Entity('refunds')
+export class Refund {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @ManyToOne(() => Payment, (payment) => payment.refunds, {
+    nullable: false,
+    onDelete: 'CASCADE',
+  })
+  @JoinColumn({ name: 'payment_id' })
+  payment: Payment;
+
+  @Column({ name: 'payment_id', type: 'uuid', nullable: false })
+  @Index()
+  paymentId: string;
+
+  @Column({ name: 'order_id', type: 'uuid', nullable: false })
+  @Index()
+  orderId: string;
+
+  @Column({
+    type: 'numeric',
+    precision: 10,
+    scale: 2,
+    nullable: false,
+    transformer: {
+      to: (value: number) => value,
+      from: (value: string) => parseFloat(value),
+    },
+  })
+  amount: number; // en centavos
+
+  @Column({
+    name: 'store_credit_amount',
+    type: 'numeric',
+    precision: 10,
+    scale: 2,
+    nullable: false,
+    default: 0,
+    transformer: {
+      to: (value: number) => value,
+      from: (value: string) => parseFloat(value),
+    },
+  })
+  storeCreditAmount: number; // parte de amount pagada con saldo a favor: vuelve como crédito
+
+  @Column({ type: 'jsonb', nullable: false, default: () => "'[]'" })
+  items: RefundLine[];
+
+  @Column({ type: 'text', nullable: true })
+  reason: string | null;
+
+  // false cuando el stock lo gestiona otro flujo (p. ej. devoluciones)
+  @Column({ type: 'boolean', nullable: false, default: true })
+  restock: boolean;
+
+  @Column({
+    type: 'varchar',
+    length: 20,
+    nullable: false,
+    default: RefundStatus.PENDING,
+  })
+  status: RefundStatus;
+
+  @Column({
+    type: 'varchar',
+    length: 20,
+    nullable: false,
+    default: RefundMethod.ORIGINAL,
+  })
+  method: RefundMethod;
+
+  @Column({
+    name: 'provider_refund_id',
+    type: 'varchar',
+    nullable: true,
+  })
+  providerRefundId: string | null;
+
+  @Column({ name: 'created_by', type: 'uuid', nullable: false })
+  createdBy: string;
+
+  @CreateDateColumn({
+    name: 'created_at',
+    type: 'timestamp with time zone',
+    default: () => 'CURRENT_TIMESTAMP',
+  })
+  createdAt: Date;
+}
@@ -0,0 +1,116 @@
+import {
+  Entity,
+  Column,
+  ManyToOne,
+  JoinColumn,
+  CreateDateColumn,
+  UpdateDateColumn,
+  PrimaryGeneratedColumn,
+  Index,
+} from 'typeorm';
+import { Order } from './order.entity';
+
+export enum ReturnStatus {
+  REQUESTED = 'requested',
+  APPROVED = 'approved',
+  REJECTED = 'rejected',
+  RECEIVED = 'received',
+}
+
+export enum ReturnReason {
+  DAMAGED = 'damaged',
+  WRONG_ITEM = 'wrong_item',
+  NOT_AS_DESCRIBED = 'not_as_described',
+  NO_LONGER_NEEDED = 'no_longer_needed',
+  OTHER = 'other',
+}
+
+/**
+ * Destino de las unidades recibidas
+ * - restock: vuelven a Product.stock
+ * - damaged: se descartan
+ */
+export enum ReturnItemCondition {
+  RESTOCK = 'restock',
+  DAMAGED = 'damaged',
+}
+
+export interface ReturnLine {
+  orderItemId: number;
+  productId: number;
+  quantity: number;
+  condition?: ReturnItemCondition; // se asigna al recibir
+}
+
+export interface ReturnStatusChange {
+  status: ReturnStatus;
+  actorId: string;
+  note: string | null;
+  at: string; // ISO 8601
+}
+
+/**
+ * ReturnRequest Entity - Devolución (RMA) de unidades de una orden entregada
+ * Flujo: requested → approved | rejected; approved → received
+ */
+@Entity('return_requests')
+export class ReturnRequest {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @ManyToOne(() => Order, (order) => order.returns, {
+    nullable: false,
+    onDelete: 'CASCADE',
+  })
+  @JoinColumn({ name: 'order_id' })
+  order: Order;
+
+  @Column({ name: 'order_id', type: 'uuid', nullable: false })
+  @Index()
+  orderId: string;
+
+  @Column({ name: 'requested_by', type: 'uuid', nullable: false })
+  requestedBy: string;
+
+  @Column({ type: 'jsonb', nullable: false, default: () => "'[]'" })
+  items: ReturnLine[];
+
+  @Column({
+    name: 'reason_code',
+    type: 'varchar',
+    length: 30,
+    nullable: false,
+  })
+  reasonCode: ReturnReason;
+
+  @Column({ type: 'text', nullable: true })
+  comment: string | null;
+
+  @Column({
+    type: 'varchar',
+    length: 20,
+    nullable: false,
+    default: ReturnStatus.REQUESTED,
+  })
+  status: ReturnStatus;
+
+  @Column({ type: 'jsonb', nullable: false, default: () => "'[]'" })
+  history: ReturnStatusChange[];
+
+  @Column({ name: 'refund_id', type: 'uuid', nullable: true })
+  refundId: string | null;
+
+  @CreateDateColumn({
+    name: 'created_at',
+    type: 'timestamp with time zone',
+    default: () => 'CURRENT_TIMESTAMP',
+  })
+  createdAt: Date;
+
+  @UpdateDateColumn({
+    name: 'updated_at',
+    type: 'timestamp with time zone',
+    default: () => 'CURRENT_TIMESTAMP',
+  })
+  updatedAt: Date;
+}
@@ -0,0 +1,96 @@
+import {
+  Entity,
+  Column,
+  ManyToOne,
+  JoinColumn,
+  CreateDateColumn,
+  UpdateDateColumn,
+  PrimaryGeneratedColumn,
+  Index,
+} from 'typeorm';
+import { Order } from './order.entity';
+
+export enum ShipmentStatus {
+  SHIPPED = 'shipped',
+  DELIVERED = 'delivered',
+}
+
+export interface ShipmentLine {
+  orderItemId: number;
+  productId: number;
+  quantity: number;
+}
+
+/**
+ * Shipment Entity - Envío total o parcial de una orden
+ * La orden pasa a Shipped cuando sus envíos cubren todas las unidades
+ */
+@Entity('shipments')
+export class Shipment {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @ManyToOne(() => Order, (order) => order.shipments, {
+    nullable: false,
+    onDelete: 'CASCADE',
+  })
+  @JoinColumn({ name: 'order_id' })
+  order: Order;
+
+  @Column({ name: 'order_id', type: 'uuid', nullable: false })
+  @Index()
+  orderId: string;
+
+  @Column({ type: 'varchar', length: 50, nullable: false })
+  carrier: string;
+
+  @Column({
+    name: 'tracking_number',
+    type: 'varchar',
+    length: 100,
+    nullable: false,
+  })
+  trackingNumber: string;
+
+  @Column({ type: 'jsonb', nullable: false, default: () => "'[]'" })
+  items: ShipmentLine[];
+
+  @Column({
+    type: 'varchar',
+    length: 20,
+    nullable: false,
+    default: ShipmentStatus.SHIPPED,
+  })
+  status: ShipmentStatus;
+
+  @Column({
+    name: 'shipped_at',
+    type: 'timestamp with time zone',
+    nullable: false,
+  })
+  shippedAt: Date;
+
+  @Column({
+    name: 'delivered_at',
+    type: 'timestamp with time zone',
+    nullable: true,
+  })
+  deliveredAt: Date | null;
+
+  @Column({ name: 'created_by', type: 'uuid', nullable: false })
+  createdBy: string;
+
+  @CreateDateColumn({
+    name: 'created_at',
+    type: 'timestamp with time zone',
+    default: () => 'CURRENT_TIMESTAMP',
+  })
+  createdAt: Date;
+
+  @UpdateDateColumn({
+    name: 'updated_at',
+    type: 'timestamp with time zone',
+    default: () => 'CURRENT_TIMESTAMP',
+  })
+  updatedAt: Date;
+}
@@ -0,0 +1,173 @@
+import {
+  Entity,
+  Column,
+  ManyToOne,
+  JoinColumn,
+  CreateDateColumn,
+  UpdateDateColumn,
+  PrimaryGeneratedColumn,
+  Index,
+} from 'typeorm';
+import { ShippingZone } from './shipping-zone.entity';
+
+/**
+ * Regla de tarifa de un método de envío (montos en centavos)
+ * - flat: amount fijo
+ * - weight: amount + perKgAmount por cada kg o fracción
+ * - free_over_threshold: gratis desde freeOverAmount, si no amount
+ */
+export enum ShippingRateType {
+  FLAT = 'flat',
+  WEIGHT = 'weight',
+  FREE_OVER_THRESHOLD = 'free_over_threshold',
+}
+
+/**
+ * Datos del carrito que determinan la tarifa
+ */
+export interface ShippingCart {
+  subtotal: number; // en centavos, a precio de catálogo
+  weightGrams: number;
+}
+
+/**
+ * Envío elegido para una orden (costo en centavos)
+ */
+export interface ShippingCharge {
+  methodId: string;
+  name: string;
+  amount: number;
+}
+
+const money = {
+  to: (value: number | null) => value,
+  from: (value: string | null) => (value === null ? null : parseFloat(value)),
+};
+
+/**
+ * Calcula el costo de envío de un carrito con un método
+ */
+export function calculateShippingAmount(
+  method: Pick<
+    ShippingMethod,
+    'rateType' | 'amount' | 'perKgAmount' | 'freeOverAmount'
+  >,
+  cart: ShippingCart,
+): number {
+  switch (method.rateType) {
+    case ShippingRateType.WEIGHT:
+      return (
+        method.amount +
+        Math.ceil(cart.weightGrams / 1000) * (method.perKgAmount ?? 0)
+      );
+    case ShippingRateType.FREE_OVER_THRESHOLD:
+      return method.freeOverAmount !== null &&
+        cart.subtotal >= method.freeOverAmount
+        ? 0
+        : method.amount;
+    default:
+      return method.amount;
+  }
+}
+
+/**
+ * ShippingMethod Entity - Método de envío de una zona (standard, express...)
+ */
+@Entity('shipping_methods')
+@Index(['zoneId', 'code'], { unique: true })
+export class ShippingMethod {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @ManyToOne(() => ShippingZone, (zone) => zone.methods, {
+    nullable: false,
+    onDelete: 'CASCADE',
+  })
+  @JoinColumn({ name: 'zone_id' })
+  zone: ShippingZone;
+
+  @Column({
+    name: 'zone_id',
+    type: 'uuid',
+    nullable: false,
+  })
+  zoneId: string;
+
+  @Column({
+    type: 'varchar',
+    length: 50,
+    nullable: false,
+  })
+  code: string;
+
+  @Column({
+    type: 'text',
+    nullable: false,
+  })
+  name: string;
+
+  @Column({
+    name: 'rate_type',
+    type: 'text',
+    nullable: false,
+    default: ShippingRateType.FLAT,
+  })
+  rateType: ShippingRateType;
+
+  @Column({
+    type: 'numeric',
+    precision: 10,
+    scale: 2,
+    nullable: false,
+    transformer: money,
+  })
+  amount: number;
+
+  @Column({
+    name: 'per_kg_amount',
+    type: 'numeric',
+    precision: 10,
+    scale: 2,
+    nullable: true,
+    transformer: money,
+  })
+  perKgAmount: number | null;
+
+  @Column({
+    name: 'free_over_amount',
+    type: 'numeric',
+    precision: 10,
+    scale: 2,
+    nullable: true,
+    transformer: money,
+  })
+  freeOverAmount: number | null;
+
+  @Column({
+    name: 'estimated_days',
+    type: 'integer',
+    nullable: true,
+  })
+  estimatedDays: number | null;
+
+  @Column({
+    name: 'is_active',
+    type: 'boolean',
+    default: true,
+  })
+  isActive: boolean;
+
+  @CreateDateColumn({
+    name: 'created_at',
+    type: 'timestamp with time zone',
+    default: () => 'CURRENT_TIMESTAMP',
+  })
+  createdAt: Date;
+
+  @UpdateDateColumn({
+    name: 'updated_at',
+    type: 'timestamp with time zone',
+    default: () => 'CURRENT_TIMESTAMP',
+  })
+  updatedAt: Date;
+}
@@ -0,0 +1,59 @@
+import {
+  Entity,
+  Column,
+  OneToMany,
+  CreateDateColumn,
+  UpdateDateColumn,
+  PrimaryGeneratedColumn,
+} from 'typeorm';
+import { ShippingMethod } from './shipping-method.entity';
+
+/**
+ * ShippingZone Entity - Zona de envío (países y, opcionalmente, regiones)
+ * Una zona con regiones solo cubre esas regiones y tiene prioridad sobre las
+ * zonas que cubren el país completo
+ */
+@Entity('shipping_zones')
+export class ShippingZone {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({
+    type: 'text',
+    nullable: false,
+  })
+  name: string;
+
+  // Códigos ISO 3166-1 alfa-2
+  @Column({
+    type: 'jsonb',
+    nullable: false,
+  })
+  countries: string[];
+
+  // Vacío = todo el país
+  @Column({
+    type: 'jsonb',
+    nullable: false,
+    default: () => "'[]'",
+  })
+  regions: string[];
+
+  @CreateDateColumn({
+    name: 'created_at',
+    type: 'timestamp with time zone',
+    default: () => 'CURRENT_TIMESTAMP',
+  })
+  createdAt: Date;
+
+  @UpdateDateColumn({
+    name: 'updated_at',
+    type: 'timestamp with time zone',
+    default: () => 'CURRENT_TIMESTAMP',
+  })
+  updatedAt: Date;
+
+  // Relations
+  @OneToMany(() => ShippingMethod, (method) => method.zone)
+  methods: ShippingMethod[];
+}
@@ -0,0 +1,130 @@
+import {
+  Entity,
+  Column,
+  ManyToOne,
+  JoinColumn,
+  CreateDateColumn,
+  PrimaryGeneratedColumn,
+  Index,
+} from 'typeorm';
+import { Product } from './product.entity';
+import { Warehouse } from './warehouse.entity';
+
+/**
+ * Motivo de un movimiento de stock
+ * - initial: stock con el que se creó el producto (o el que tenía al
+ *   registrarse su primer movimiento, si es anterior al ledger)
+ * - sale: unidades vendidas al crear la orden o al agregarlas editándola
+ * - order_edit: unidades que vuelven al quitarlas de una orden pendiente
+ * - return: unidades que vuelven por un reembolso o una devolución recibida
+ * - transfer: par de movimientos de un traspaso entre almacenes (suman 0)
+ */
+export enum StockMovementReason {
+  INITIAL = 'initial',
+  SALE = 'sale',
+  RESTOCK = 'restock',
+  MANUAL_ADJUSTMENT = 'manual_adjustment',
+  RETURN = 'return',
+  CANCELLATION = 'cancellation',
+  ORDER_EDIT = 'order_edit',
+  TRANSFER = 'transfer',
+}
+
+/**
+ * StockMovement Entity - Movimiento de stock de un producto (solo inserción)
+ * Nunca se modifica ni se elimina: el stock del producto debe ser la suma de
+ * sus movimientos y quantityAfter guarda el stock resultante
+ */
+@Entity('stock_movements')
+@Index(['productId', 'createdAt'])
+export class StockMovement {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @ManyToOne(() => Product, {
+    nullable: false,
+    onDelete: 'CASCADE',
+  })
+  @JoinColumn({ name: 'product_id' })
+  product: Product;
+
+  @Column({
+    name: 'product_id',
+    type: 'int',
+    nullable: false,
+  })
+  productId: number;
+
+  @Column({
+    type: 'int',
+    nullable: false,
+  })
+  delta: number; // positivo si entran unidades, negativo si salen
+
+  @Column({
+    name: 'quantity_after',
+    type: 'int',
+    nullable: false,
+  })
+  quantityAfter: number; // stock total del producto
+
+  @ManyToOne(() => Warehouse, { nullable: true })
+  @JoinColumn({ name: 'warehouse_id' })
+  warehouse: Warehouse | null;
+
+  @Column({
+    name: 'warehouse_id',
+    type: 'uuid',
+    nullable: true,
+  })
+  warehouseId: string | null; // null en movimientos anteriores a los almacenes
+
+  @Column({
+    name: 'warehouse_quantity_after',
+    type: 'int',
+    nullable: true,
+  })
+  warehouseQuantityAfter: number | null;
+
+  @Column({
+    type: 'varchar',
+    length: 30,
+    nullable: false,
+  })
+  reason: StockMovementReason;
+
+  @Column({
+    name: 'order_id',
+    type: 'uuid',
+    nullable: true,
+  })
+  @Index()
+  orderId: string | null;
+
+  @Column({
+    type: 'varchar',
+    length: 100,
+    nullable: true,
+  })
+  reference: string | null; // p. ej. refund:<id>, return:<id> o transfer:<id>
+
+  @Column({
+    type: 'text',
+    nullable: true,
+  })
+  note: string | null;
+
+  @Column({
+    name: 'actor_id',
+    type: 'uuid',
+    nullable: true,
+  })
+  actorId: string | null;
+
+  @CreateDateColumn({
+    name: 'created_at',
+    type: 'timestamp with time zone',
+    default: () => 'CURRENT_TIMESTAMP',
+  })
+  createdAt: Date;
+}
@@ -0,0 +1,85 @@
+import {
+  Entity,
+  Column,
+  ManyToOne,
+  JoinColumn,
+  CreateDateColumn,
+  PrimaryGeneratedColumn,
+  Index,
+} from 'typeorm';
+import { Product } from './product.entity';
+import { Warehouse } from './warehouse.entity';
+
+/**
+ * StockTransfer Entity - Traspaso de unidades entre almacenes (solo inserción)
+ * Genera dos movimientos transfer en el ledger con la referencia
+ * transfer:<id>; el stock total del producto no cambia
+ */
+@Entity('stock_transfers')
+@Index(['productId', 'createdAt'])
+export class StockTransfer {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @ManyToOne(() => Product, {
+    nullable: false,
+    onDelete: 'CASCADE',
+  })
+  @JoinColumn({ name: 'product_id' })
+  product: Product;
+
+  @Column({
+    name: 'product_id',
+    type: 'int',
+    nullable: false,
+  })
+  productId: number;
+
+  @ManyToOne(() => Warehouse, { nullable: false })
+  @JoinColumn({ name: 'from_warehouse_id' })
+  fromWarehouse: Warehouse;
+
+  @Column({
+    name: 'from_warehouse_id',
+    type: 'uuid',
+    nullable: false,
+  })
+  fromWarehouseId: string;
+
+  @ManyToOne(() => Warehouse, { nullable: false })
+  @JoinColumn({ name: 'to_warehouse_id' })
+  toWarehouse: Warehouse;
+
+  @Column({
+    name: 'to_warehouse_id',
+    type: 'uuid',
+    nullable: false,
+  })
+  toWarehouseId: string;
+
+  @Column({
+    type: 'int',
+    nullable: false,
+  })
+  quantity: number;
+
+  @Column({
+    type: 'text',
+    nullable: true,
+  })
+  note: string | null;
+
+  @Column({
+    name: 'actor_id',
+    type: 'uuid',
+    nullable: true,
+  })
+  actorId: string | null;
+
+  @CreateDateColumn({
+    name: 'created_at',
+    type: 'timestamp with time zone',
+    default: () => 'CURRENT_TIMESTAMP',
+  })
+  createdAt: Date;
+}
@@ -0,0 +1,63 @@
+import {
+  Entity,
+  Column,
+  Check,
+  OneToOne,
+  JoinColumn,
+  CreateDateColumn,
+  UpdateDateColumn,
+  PrimaryGeneratedColumn,
+  Index,
+} from 'typeorm';
+import { User } from './user.entity';
+
+/**
+ * StoreCreditAccount Entity - Saldo a favor de un usuario
+ * El saldo solo cambia junto con un StoreCreditEntry y con la fila bloqueada;
+ * el CHECK impide que quede negativo
+ */
+@Entity('store_credit_accounts')
+@Check('"balance" >= 0')
+export class StoreCreditAccount {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @OneToOne(() => User, { nullable: false, onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'user_id' })
+  user: User;
+
+  @Column({
+    name: 'user_id',
+    type: 'uuid',
+    nullable: false,
+  })
+  @Index({ unique: true })
+  userId: string;
+
+  @Column({
+    type: 'numeric',
+    precision: 10,
+    scale: 2,
+    nullable: false,
+    default: 0,
+    transformer: {
+      to: (value: number) => value,
+      from: (value: string) => parseFloat(value),
+    },
+  })
+  balance: number; // en centavos
+
+  @CreateDateColumn({
+    name: 'created_at',
+    type: 'timestamp with time zone',
+    default: () => 'CURRENT_TIMESTAMP',
+  })
+  createdAt: Date;
+
+  @UpdateDateColumn({
+    name: 'updated_at',
+    type: 'timestamp with time zone',
+    default: () => 'CURRENT_TIMESTAMP',
+  })
+  updatedAt: Date;
+}
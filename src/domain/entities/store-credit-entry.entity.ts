@@ -0,0 +1,147 @@
+import {
+  Entity,
+  Column,
+  ManyToOne,
+  JoinColumn,
+  CreateDateColumn,
+  PrimaryGeneratedColumn,
+  Index,
+} from 'typeorm';
+import { StoreCreditAccount } from './store-credit-account.entity';
+
+export enum StoreCreditEntryType {
+  CREDIT = 'credit',
+  DEBIT = 'debit',
+}
+
+/**
+ * Motivo de un movimiento de saldo a favor
+ * - checkout_hold / checkout_release: saldo reservado por una sesión de pago
+ *   y devuelto si expira sin pagarse
+ * - order_adjustment: excedente devuelto al editar los items de la orden
+ */
+export enum StoreCreditReason {
+  GIFT_CARD = 'gift_card',
+  ORDER_PAYMENT = 'order_payment',
+  ORDER_CANCELLED = 'order_cancelled',
+  ORDER_ADJUSTMENT = 'order_adjustment',
+  CHECKOUT_HOLD = 'checkout_hold',
+  CHECKOUT_RELEASE = 'checkout_release',
+  REFUND = 'refund',
+  ADJUSTMENT = 'adjustment',
+}
+
+/**
+ * StoreCreditEntry Entity - Movimiento del saldo a favor (solo inserción)
+ * Nunca se modifica ni se elimina: el saldo de la cuenta es la suma de sus
+ * movimientos y balanceAfter guarda el saldo resultante
+ */
+@Entity('store_credit_entries')
+@Index(['accountId', 'createdAt'])
+export class StoreCreditEntry {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @ManyToOne(() => StoreCreditAccount, {
+    nullable: false,
+    onDelete: 'CASCADE',
+  })
+  @JoinColumn({ name: 'account_id' })
+  account: StoreCreditAccount;
+
+  @Column({
+    name: 'account_id',
+    type: 'uuid',
+    nullable: false,
+  })
+  accountId: string;
+
+  @Column({
+    type: 'varchar',
+    length: 10,
+    nullable: false,
+  })
+  type: StoreCreditEntryType;
+
+  @Column({
+    type: 'varchar',
+    length: 30,
+    nullable: false,
+  })
+  reason: StoreCreditReason;
+
+  @Column({
+    type: 'numeric',
+    precision: 10,
+    scale: 2,
+    nullable: false,
+    transformer: {
+      to: (value: number) => value,
+      from: (value: string) => parseFloat(value),
+    },
+  })
+  amount: number; // en centavos, siempre positivo
+
+  @Column({
+    name: 'balance_after',
+    type: 'numeric',
+    precision: 10,
+    scale: 2,
+    nullable: false,
+    transformer: {
+      to: (value: number) => value,
+      from: (value: string) => parseFloat(value),
+    },
+  })
+  balanceAfter: number; // en centavos
+
+  @Column({
+    name: 'order_id',
+    type: 'uuid',
+    nullable: true,
+  })
+  @Index()
+  orderId: string | null;
+
+  @Column({
+    name: 'refund_id',
+    type: 'uuid',
+    nullable: true,
+  })
+  refundId: string | null;
+
+  @Column({
+    name: 'gift_card_id',
+    type: 'uuid',
+    nullable: true,
+  })
+  giftCardId: string | null;
+
+  @Column({
+    name: 'checkout_session_id',
+    type: 'uuid',
+    nullable: true,
+  })
+  @Index()
+  checkoutSessionId: string | null;
+
+  @Column({
+    type: 'text',
+    nullable: true,
+  })
+  note: string | null;
+
+  @Column({
+    name: 'created_by',
+    type: 'uuid',
+    nullable: true,
+  })
+  createdBy: string | null;
+
+  @CreateDateColumn({
+    name: 'created_at',
+    type: 'timestamp with time zone',
+    default: () => 'CURRENT_TIMESTAMP',
+  })
+  createdAt: Date;
+}
@@ -0,0 +1,133 @@
+import {
+  Entity,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  PrimaryGeneratedColumn,
+  Index,
+} from 'typeorm';
+
+/**
+ * Modo de precios de la tienda
+ * - exclusive: Product.price es neto y el impuesto se suma
+ * - inclusive: Product.price ya incluye el impuesto
+ */
+export enum TaxPricingMode {
+  INCLUSIVE = 'inclusive',
+  EXCLUSIVE = 'exclusive',
+}
+
+export const DEFAULT_TAX_CATEGORY = 'standard';
+
+/**
+ * Tasas aplicables a una orden: porcentaje por categoría fiscal de producto
+ * Las categorías sin tasa tributan al 0%
+ */
+export interface TaxSchedule {
+  country: string | null;
+  region: string | null;
+  mode: TaxPricingMode;
+  rates: Record<string, number>;
+}
+
+export interface LineTax {
+  rate: number; // porcentaje
+  net: number; // en centavos
+  tax: number; // en centavos
+  gross: number; // en centavos
+}
+
+/**
+ * Desglosa una línea en neto, impuesto y bruto (redondeo por línea)
+ * El descuento se resta antes de calcular el impuesto
+ */
+export function calculateLineTax(
+  schedule: TaxSchedule,
+  taxCategory: string,
+  unitPrice: number,
+  quantity: number,
+  discount = 0,
+): LineTax {
+  const rate = schedule.rates[taxCategory] ?? 0;
+  const amount = Math.round(unitPrice * quantity) - discount;
+
+  if (schedule.mode === TaxPricingMode.INCLUSIVE) {
+    const net = Math.round((amount * 100) / (100 + rate));
+    return { rate, net, tax: amount - net, gross: amount };
+  }
+
+  const tax = Math.round((amount * rate) / 100);
+  return { rate, net: amount, tax, gross: amount + tax };
+}
+
+/**
+ * TaxRate Entity - Tasas de impuesto por país/región y categoría fiscal
+ * Una tasa sin región aplica a todo el país; la de la región tiene prioridad
+ */
+@Entity('tax_rates')
+@Index(['country', 'region', 'taxCategory'], { unique: true })
+@Index(['country', 'taxCategory'], {
+  unique: true,
+  where: 'region IS NULL',
+})
+export class TaxRate {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  // ISO 3166-1 alfa-2
+  @Column({
+    type: 'varchar',
+    length: 2,
+    nullable: false,
+  })
+  country: string;
+
+  @Column({
+    type: 'varchar',
+    length: 100,
+    nullable: true,
+  })
+  region: string | null;
+
+  @Column({
+    name: 'tax_category',
+    type: 'varchar',
+    length: 50,
+    nullable: false,
+    default: DEFAULT_TAX_CATEGORY,
+  })
+  taxCategory: string;
+
+  @Column({
+    type: 'text',
+    nullable: false,
+  })
+  name: string;
+
+  // Porcentaje (19.00 = 19%)
+  @Column({
+    type: 'numeric',
+    precision: 5,
+    scale: 2,
+    nullable: false,
+    transformer: {
+      to: (value: number) => value,
+      from: (value: string) => parseFloat(value),
+    },
+  })
+  rate: number;
+
+  @CreateDateColumn({
+    name: 'created_at',
+    type: 'timestamp with time zone',
+    default: () => 'CURRENT_TIMESTAMP',
+  })
+  createdAt: Date;
+
+  @UpdateDateColumn({
+    name: 'updated_at',
+    type: 'timestamp with time zone',
+    default: () => 'CURRENT_TIMESTAMP',
+  })
+  updatedAt: Date;
+}
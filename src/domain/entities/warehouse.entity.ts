@@ -0,0 +1,197 @@
+import {
+  Entity,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  PrimaryGeneratedColumn,
+} from 'typeorm';
+
+/**
+ * Estrategia para repartir las líneas de una orden entre almacenes
+ * - priority: cada línea sale del almacén de mayor prioridad con unidades y
+ *   se divide solo si ese almacén no alcanza
+ * - fewest_shipments: elige el menor conjunto de almacenes que cubre la
+ *   orden (desempata por prioridad) para minimizar los envíos separados
+ */
+export enum WarehouseAllocationStrategy {
+  PRIORITY = 'priority',
+  FEWEST_SHIPMENTS = 'fewest_shipments',
+}
+
+export const DEFAULT_WAREHOUSE_CODE = 'MAIN';
+
+export interface AllocationLine {
+  productId: number;
+  quantity: number;
+}
+
+/**
+ * Unidades de un producto en un almacén activo
+ */
+export interface WarehouseStockLevel {
+  warehouseId: string;
+  priority: number;
+  productId: number;
+  quantity: number;
+}
+
+export interface WarehouseAllocation {
+  productId: number;
+  warehouseId: string;
+  quantity: number;
+}
+
+/**
+ * Reparte las líneas entre almacenes según la estrategia
+ * Las unidades que ningún almacén puede cubrir quedan sin asignar: quien
+ * llama compara lo asignado con lo pedido
+ */
+export function allocateFromWarehouses(
+  strategy: WarehouseAllocationStrategy,
+  lines: AllocationLine[],
+  levels: WarehouseStockLevel[],
+): WarehouseAllocation[] {
+  const warehouses = [
+    ...new Map(
+      [...levels]
+        .sort(
+          (a, b) =>
+            a.priority - b.priority ||
+            a.warehouseId.localeCompare(b.warehouseId),
+        )
+        .map((level) => [level.warehouseId, level.priority]),
+    ).keys(),
+  ];
+  const stock = new Map(
+    levels.map((level) => [
+      `${level.warehouseId}:${level.productId}`,
+      level.quantity,
+    ]),
+  );
+  const unitsIn = (warehouseId: string, productId: number) =>
+    stock.get(`${warehouseId}:${productId}`) ?? 0;
+
+  // Con fewest_shipments se recorren primero los almacenes elegidos
+  let order = warehouses;
+  if (strategy === WarehouseAllocationStrategy.FEWEST_SHIPMENTS) {
+    const pending = new Map(
+      lines.map((line) => [line.productId, line.quantity]),
+    );
+    const chosen: string[] = [];
+    while ([...pending.values()].some((quantity) => quantity > 0)) {
+      // Almacén que más unidades pendientes cubre (en empate, el de mayor prioridad)
+      let best: string | null = null;
+      let bestUnits = 0;
+      for (const warehouseId of warehouses) {
+        if (chosen.includes(warehouseId)) continue;
+        const units = [...pending].reduce(
+          (sum, [productId, quantity]) =>
+            sum + Math.min(quantity, unitsIn(warehouseId, productId)),
+          0,
+        );
+        if (units > bestUnits) {
+          best = warehouseId;
+          bestUnits = units;
+        }
+      }
+      if (!best) break;
+
+      chosen.push(best);
+      for (const [productId, quantity] of pending) {
+        pending.set(
+          productId,
+          quantity - Math.min(quantity, unitsIn(best, productId)),
+        );
+      }
+    }
+    order = [
+      ...chosen,
+      ...warehouses.filter((warehouseId) => !chosen.includes(warehouseId)),
+    ];
+  }
+
+  const allocations: WarehouseAllocation[] = [];
+  for (const line of lines) {
+    let remaining = line.quantity;
+    for (const warehouseId of order) {
+      if (remaining === 0) break;
+      const quantity = Math.min(
+        remaining,
+        unitsIn(warehouseId, line.productId),
+      );
+      if (quantity > 0) {
+        allocations.push({ productId: line.productId, warehouseId, quantity });
+        remaining -= quantity;
+      }
+    }
+  }
+  return allocations;
+}
+
+/**
+ * Warehouse Entity - Almacén desde el que se despachan órdenes
+ * Un almacén inactivo conserva su stock pero no recibe asignaciones
+ */
+@Entity('warehouses')
+export class Warehouse {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({
+    type: 'varchar',
+    length: 20,
+    unique: true,
+    nullable: false,
+  })
+  code: string; // en mayúsculas
+
+  @Column({
+    type: 'varchar',
+    length: 100,
+    nullable: false,
+  })
+  name: string;
+
+  @Column({
+    type: 'varchar',
+    length: 2,
+    nullable: true,
+  })
+  country: string | null;
+
+  @Column({
+    type: 'varchar',
+    length: 100,
+    nullable: true,
+  })
+  region: string | null;
+
+  @Column({
+    type: 'int',
+    nullable: false,
+    default: 100,
+  })
+  priority: number; // menor número = se usa primero
+
+  @Column({
+    name: 'is_active',
+    type: 'boolean',
+    nullable: false,
+    default: true,
+  })
+  isActive: boolean;
+
+  @CreateDateColumn({
+    name: 'created_at',
+    type: 'timestamp with time zone',
+    default: () => 'CURRENT_TIMESTAMP',
+  })
+  createdAt: Date;
+
+  @UpdateDateColumn({
+    name: 'updated_at',
+    type: 'timestamp with time zone',
+    default: () => 'CURRENT_TIMESTAMP',
+  })
+  updatedAt: Date;
+}
@@ -0,0 +1,286 @@
+import { Injectable } from '@nestjs/common';
+import { Invoice, InvoiceType } from '../../domain/entities/invoice.entity';
+import {
+  IInvoiceRenderer,
+  RenderedInvoice,
+} from '../../application/invoices/interfaces/invoice-renderer.interface';
+
+type Font = 'F1' | 'F2';
+
+interface TextCell {
+  text: string;
+  x: number;
+  font?: Font;
+  size?: number;
+  align?: 'left' | 'right';
+}
+
+/**
+ * PdfInvoiceRenderer - Genera el PDF de una factura sin dependencias externas
+ *
+ * Escribe un PDF 1.4 mínimo con las fuentes estándar Helvetica/Helvetica-Bold
+ * (WinAnsiEncoding). Solo usa los datos congelados en la factura, por lo que el
+ * resultado es byte a byte idéntico en cada render
+ */
+@Injectable()
+export class PdfInvoiceRenderer implements IInvoiceRenderer {
+  private static readonly PAGE_WIDTH = 595; // A4
+  private static readonly PAGE_HEIGHT = 842;
+  private static readonly MARGIN = 50;
+  private static readonly ROWS_PER_PAGE = 28;
+
+  // Anchos Helvetica (1/1000 em) de los caracteres usados en importes
+  private static readonly NUMERIC_WIDTHS: Record<string, number> = {
+    '.': 278,
+    ',': 278,
+    '-': 333,
+    ' ': 278,
+  };
+  private static readonly DIGIT_WIDTH = 556;
+  private static readonly DEFAULT_WIDTH = 556;
+
+  private static readonly COLUMNS = {
+    description: 50,
+    quantity: 330,
+    unitPrice: 395,
+    net: 450,
+    tax: 500,
+    gross: 545,
+  };
+
+  render(invoice: Invoice): RenderedInvoice {
+    const pages = this.paginate(invoice);
+    return {
+      contentType: 'application/pdf',
+      filename: `${invoice.number}.pdf`,
+      content: this.buildPdf(pages, invoice.issuedAt),
+    };
+  }
+
+  /**
+   * Divide las líneas en páginas; la cabecera se repite y los totales van al final
+   */
+  private paginate(invoice: Invoice): string[] {
+    const chunks: Invoice['lines'][] = [];
+    for (
+      let i = 0;
+      i < Math.max(invoice.lines.length, 1);
+      i += PdfInvoiceRenderer.ROWS_PER_PAGE
+    ) {
+      chunks.push(invoice.lines.slice(i, i + PdfInvoiceRenderer.ROWS_PER_PAGE));
+    }
+
+    return chunks.map((lines, index) =>
+      this.buildPage(invoice, lines, index + 1, chunks.length),
+    );
+  }
+
+  private buildPage(
+    invoice: Invoice,
+    lines: Invoice['lines'],
+    pageNumber: number,
+    pageCount: number,
+  ): string {
+    const { MARGIN, PAGE_WIDTH, COLUMNS } = PdfInvoiceRenderer;
+    const ops: string[] = [];
+    let y = PdfInvoiceRenderer.PAGE_HEIGHT - MARGIN;
+
+    const title =
+      invoice.type === InvoiceType.CREDIT_NOTE ? 'NOTA DE CRÉDITO' : 'FACTURA';
+    this.row(ops, y, [{ text: 'QuickCart', x: MARGIN, font: 'F2', size: 16 }]);
+    this.row(ops, y, [
+      {
+        text: title,
+        x: PAGE_WIDTH - MARGIN,
+        font: 'F2',
+        size: 16,
+        align: 'right',
+      },
+    ]);
+    y -= 24;
+
+    const details = [
+      `Número: ${invoice.number}`,
+      `Fecha de emisión: ${invoice.issuedAt.toISOString().slice(0, 10)}`,
+      `Orden: ${invoice.orderNumber ?? invoice.orderId}`,
+      ...(invoice.invoiceNumber
+        ? [`Factura acreditada: ${invoice.invoiceNumber}`]
+        : []),
+      ...(invoice.reason
+        ? [`Motivo: ${this.truncate(invoice.reason, 80)}`]
+        : []),
+    ];
+    for (const detail of details) {
+      this.row(ops, y, [{ text: detail, x: MARGIN }]);
+      y -= 14;
+    }
+    y -= 10;
+
+    this.row(ops, y, [{ text: 'Cliente', x: MARGIN, font: 'F2' }]);
+    y -= 14;
+    for (const detail of [
+      invoice.buyer.fullName,
+      invoice.buyer.email,
+      ...(invoice.buyer.address
+        ? [this.truncate(invoice.buyer.address, 90)]
+        : []),
+    ]) {
+      this.row(ops, y, [{ text: detail, x: MARGIN }]);
+      y -= 14;
+    }
+    y -= 14;
+
+    this.row(ops, y, [
+      { text: 'Descripción', x: COLUMNS.description, font: 'F2' },
+      { text: 'Cant.', x: COLUMNS.quantity, font: 'F2', align: 'right' },
+      { text: 'P. unit.', x: COLUMNS.unitPrice, font: 'F2', align: 'right' },
+      { text: 'Neto', x: COLUMNS.net, font: 'F2', align: 'right' },
+      { text: 'Impuesto', x: COLUMNS.tax, font: 'F2', align: 'right' },
+      { text: 'Total', x: COLUMNS.gross, font: 'F2', align: 'right' },
+    ]);
+    y -= 6;
+    ops.push(this.rule(y));
+    y -= 14;
+
+    for (const line of lines) {
+      this.row(ops, y, [
+        { text: this.truncate(line.description, 48), x: COLUMNS.description },
+        { text: String(line.quantity), x: COLUMNS.quantity, align: 'right' },
+        {
+          text: this.money(line.unitPrice),
+          x: COLUMNS.unitPrice,
+          align: 'right',
+        },
+        { text: this.money(line.net), x: COLUMNS.net, align: 'right' },
+        { text: this.money(line.tax), x: COLUMNS.tax, align: 'right' },
+        { text: this.money(line.gross), x: COLUMNS.gross, align: 'right' },
+      ]);
+      y -= 16;
+    }
+
+    if (pageNumber === pageCount) {
+      ops.push(this.rule(y + 8));
+      y -= 8;
+      const currency = invoice.currency.toUpperCase();
+      for (const [label, amount, font] of [
+        ['Subtotal', invoice.subtotal, 'F1'],
+        ['Impuestos', invoice.taxTotal, 'F1'],
+        [`Total ${currency}`, invoice.total, 'F2'],
+      ] as [string, number, Font][]) {
+        this.row(ops, y, [
+          { text: label, x: COLUMNS.tax, font, align: 'right' },
+          { text: this.money(amount), x: COLUMNS.gross, font, align: 'right' },
+        ]);
+        y -= 16;
+      }
+    }
+
+    this.row(ops, MARGIN - 20, [
+      {
+        text: `Página ${pageNumber} de ${pageCount}`,
+        x: PAGE_WIDTH - MARGIN,
+        size: 8,
+        align: 'right',
+      },
+    ]);
+
+    return ops.join('\n');
+  }
+
+  private row(ops: string[], y: number, cells: TextCell[]): void {
+    for (const cell of cells) {
+      const font = cell.font ?? 'F1';
+      const size = cell.size ?? 10;
+      const x =
+        cell.align === 'right'
+          ? cell.x - this.textWidth(cell.text, size)
+          : cell.x;
+      ops.push(
+        `BT /${font} ${size} Tf ${x.toFixed(2)} ${y} Td (${this.escape(cell.text)}) Tj ET`,
+      );
+    }
+  }
+
+  private rule(y: number): string {
+    const { MARGIN, PAGE_WIDTH } = PdfInvoiceRenderer;
+    return `0.5 w ${MARGIN} ${y} m ${PAGE_WIDTH - MARGIN} ${y} l S`;
+  }
+
+  /**
+   * Ancho aproximado en puntos (exacto para importes y cantidades)
+   */
+  private textWidth(text: string, size: number): number {
+    let units = 0;
+    for (const char of text) {
+      units +=
+        PdfInvoiceRenderer.NUMERIC_WIDTHS[char] ??
+        (char >= '0' && char <= '9'
+          ? PdfInvoiceRenderer.DIGIT_WIDTH
+          : PdfInvoiceRenderer.DEFAULT_WIDTH);
+    }
+    return (units * size) / 1000;
+  }
+
+  private money(cents: number): string {
+    return (cents / 100).toFixed(2);
+  }
+
+  private truncate(text: string, max: number): string {
+    return text.length > max ? `${text.slice(0, max - 3)}...` : text;
+  }
+
+  /**
+   * Escapa el texto para un string literal PDF en WinAnsi (Latin-1)
+   */
+  private escape(text: string): string {
+    return text
+      .replace(/[^\x20-\x7e\xa0-\xff]/g, '?')
+      .replace(/([\\()])/g, '\\$1');
+  }
+
+  /**
+   * Ensambla los objetos PDF y la tabla xref con offsets en bytes
+   */
+  private buildPdf(pages: string[], issuedAt: Date): Buffer {
+    const objects: string[] = [];
+    const pageIds = pages.map((_, i) => 5 + i * 2);
+
+    objects[1] = '<< /Type /Catalog /Pages 2 0 R >>';
+    objects[2] = `<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(' ')}] /Count ${pages.length} >>`;
+    objects[3] =
+      '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>';
+    objects[4] =
+      '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>';
+
+    pages.forEach((content, i) => {
+      const pageId = pageIds[i];
+      objects[pageId] =
+        `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PdfInvoiceRenderer.PAGE_WIDTH} ${PdfInvoiceRenderer.PAGE_HEIGHT}] ` +
+        `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${pageId + 1} 0 R >>`;
+      objects[pageId + 1] =
+        `<< /Length ${Buffer.byteLength(content, 'latin1')} >>\nstream\n${content}\nendstream`;
+    });
+
+    const infoId = objects.length;
+    const date = issuedAt.toISOString().replace(/[-:T]/g, '').slice(0, 14);
+    objects[infoId] = `<< /Producer (QuickCart) /CreationDate (D:${date}Z) >>`;
+
+    let pdf = '%PDF-1.4\n';
+    const offsets: number[] = [];
+    for (let id = 1; id < objects.length; id++) {
+      offsets[id] = Buffer.byteLength(pdf, 'latin1');
+      pdf += `${id} 0 obj\n${objects[id]}\nendobj\n`;
+    }
+
+    const xrefOffset = Buffer.byteLength(pdf, 'latin1');
+    pdf += `xref\n0 ${objects.length}\n0000000000 65535 f \n`;
+    for (let id = 1; id < objects.length; id++) {
+      pdf += `${String(offsets[id]).padStart(10, '0')} 00000 n \n`;
+    }
+    pdf +=
+      `trailer\n<< /Size ${objects.length} /Root 1 0 R /Info ${infoId} 0 R >>\n` +
+      `startxref\n${xrefOffset}\n%%EOF\n`;
+
+    return Buffer.from(pdf, 'latin1');
+  }
+}
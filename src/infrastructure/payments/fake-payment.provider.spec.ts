@@ -0,0 +1,105 @@
+import { BadRequestException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import {
+  FAKE_SIGNATURE_HEADER,
+  FakePaymentProvider,
+} from './fake-payment.provider';
+
+describe('FakePaymentProvider', () => {
+  let provider: FakePaymentProvider;
+
+  const sessionParams = {
+    checkoutSessionId: 'local-session',
+    currency: 'usd',
+    lineItems: [{ name: 'Test Product', unitAmount: 1000, quantity: 2 }],
+    successUrl: 'http://localhost:3000/success',
+    cancelUrl: 'http://localhost:3000/cancel',
+    expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+  };
+
+  beforeEach(() => {
+    provider = new FakePaymentProvider({
+      get: jest.fn((_key: string, defaultValue?: string) => defaultValue),
+    } as unknown as ConfigService);
+  });
+
+  it('should generate deterministic session ids', async () => {
+    // Act
+    const first = await provider.createCheckoutSession(sessionParams);
+    const second = await provider.createCheckoutSession(sessionParams);
+
+    // Assert
+    expect(first.providerSessionId).toBe('fake_cs_000001');
+    expect(second.providerSessionId).toBe('fake_cs_000002');
+  });
+
+  it('should emit a signed checkout.completed event on success', async () => {
+    // Arrange
+    const { providerSessionId } =
+      await provider.createCheckoutSession(sessionParams);
+
+    // Act
+    const { rawBody, headers } = provider.simulate(
+      providerSessionId,
+      'success',
+    );
+    const event = provider.parseWebhookEvent(rawBody, headers);
+
+    // Assert
+    expect(event).toEqual({
+      type: 'checkout.completed',
+      checkoutSessionId: 'local-session',
+      providerSessionId,
+      paymentReference: 'fake_pi_000002',
+      paid: true,
+    });
+    await expect(provider.getPaymentStatus(providerSessionId)).resolves.toEqual(
+      expect.objectContaining({ status: 'paid', amountTotal: 2000 }),
+    );
+  });
+
+  it('should emit payment.failed on decline and checkout.expired on expiry', async () => {
+    // Arrange
+    const { providerSessionId } =
+      await provider.createCheckoutSession(sessionParams);
+
+    // Act
+    const declined = provider.simulate(providerSessionId, 'decline');
+    const expired = provider.simulate(providerSessionId, 'expire');
+
+    // Assert
+    expect(
+      provider.parseWebhookEvent(declined.rawBody, declined.headers).type,
+    ).toBe('payment.failed');
+    expect(
+      provider.parseWebhookEvent(expired.rawBody, expired.headers).type,
+    ).toBe('checkout.expired');
+  });
+
+  it('should reject webhooks with a tampered signature', () => {
+    // Act & Assert
+    expect(() =>
+      provider.parseWebhookEvent(Buffer.from('{"type":"checkout.expired"}'), {
+        [FAKE_SIGNATURE_HEADER]: 'invalid',
+      }),
+    ).toThrow(BadRequestException);
+  });
+
+  it('should not refund more than the captured amount', async () => {
+    // Arrange
+    const { providerSessionId } =
+      await provider.createCheckoutSession(sessionParams);
+    provider.simulate(providerSessionId, 'success');
+    const { paymentReference } =
+      await provider.getPaymentStatus(providerSessionId);
+
+    // Act
+    const refund = await provider.refund({ paymentReference, amount: 1500 });
+
+    // Assert
+    expect(refund.status).toBe('succeeded');
+    await expect(
+      provider.refund({ paymentReference, amount: 600 }),
+    ).rejects.toThrow(BadRequestException);
+  });
+});
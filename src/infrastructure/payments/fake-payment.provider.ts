@@ -0,0 +1,214 @@
+import { BadRequestException, Logger, NotFoundException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { createHmac, timingSafeEqual } from 'crypto';
+import { IncomingHttpHeaders } from 'http';
+import {
+  CreatePaymentSessionParams,
+  IPaymentProvider,
+  PaymentSessionResult,
+  PaymentStatus,
+  PaymentStatusResult,
+  PaymentWebhookEvent,
+  RefundParams,
+  RefundResult,
+} from '../../application/payments/interfaces/payment-provider.interface';
+
+export const FAKE_SIGNATURE_HEADER = 'x-fake-payment-signature';
+
+export type FakePaymentOutcome = 'success' | 'decline' | 'expire';
+
+interface FakeSession {
+  checkoutSessionId: string;
+  amountTotal: number;
+  currency: string;
+  status: PaymentStatus;
+  paymentReference?: string;
+  refunded: number;
+}
+
+/**
+ * FakePaymentProvider - Proveedor de pagos en memoria para tests y desarrollo offline
+ * Capa de Infraestructura (Clean Architecture)
+ *
+ * Es determinista: los IDs salen de contadores y el resultado de cada pago se
+ * decide con simulate(), que devuelve un webhook firmado listo para enviar a
+ * POST /payments/webhook. Nunca debe usarse en producción.
+ */
+export class FakePaymentProvider implements IPaymentProvider {
+  readonly name = 'fake';
+
+  private readonly logger = new Logger(FakePaymentProvider.name);
+  private readonly webhookSecret: string;
+  private readonly sessions = new Map<string, FakeSession>();
+  private sequence = 0;
+
+  constructor(configService: ConfigService) {
+    this.webhookSecret = configService.get<string>(
+      'FAKE_PAYMENT_WEBHOOK_SECRET',
+      'fake_webhook_secret',
+    );
+  }
+
+  async createCheckoutSession(
+    params: CreatePaymentSessionParams,
+  ): Promise<PaymentSessionResult> {
+    const providerSessionId = this.nextId('fake_cs');
+    this.sessions.set(providerSessionId, {
+      checkoutSessionId: params.checkoutSessionId,
+      amountTotal:
+        params.lineItems.reduce(
+          (sum, item) => sum + item.unitAmount * item.quantity,
+          0,
+        ) - (params.discount?.amount ?? 0),
+      currency: params.currency,
+      status: 'pending',
+      refunded: 0,
+    });
+
+    return {
+      providerSessionId,
+      url: `https://fake-payments.local/checkout/${providerSessionId}`,
+    };
+  }
+
+  async getPaymentStatus(
+    providerSessionId: string,
+  ): Promise<PaymentStatusResult> {
+    const session = this.getSession(providerSessionId);
+    return {
+      providerSessionId,
+      status: session.status,
+      paymentReference: session.paymentReference,
+      amountTotal: session.amountTotal,
+      currency: session.currency,
+    };
+  }
+
+  async expireCheckoutSession(providerSessionId: string): Promise<void> {
+    const session = this.getSession(providerSessionId);
+    if (session.status === 'pending') {
+      session.status = 'expired';
+    }
+  }
+
+  async refund(params: RefundParams): Promise<RefundResult> {
+    const session = [...this.sessions.values()].find(
+      (s) => s.paymentReference === params.paymentReference,
+    );
+    if (!session || session.status !== 'paid') {
+      throw new BadRequestException(
+        'Solicitud inválida: el pago no existe o no fue capturado',
+      );
+    }
+
+    if (session.refunded + params.amount > session.amountTotal) {
+      throw new BadRequestException(
+        'Solicitud inválida: el reembolso supera el monto capturado',
+      );
+    }
+
+    session.refunded += params.amount;
+    return {
+      refundId: this.nextId('fake_re'),
+      status: 'succeeded',
+      amount: params.amount,
+    };
+  }
+
+  parseWebhookEvent(
+    rawBody: Buffer | undefined,
+    headers: IncomingHttpHeaders,
+  ): PaymentWebhookEvent {
+    const signature = headers[FAKE_SIGNATURE_HEADER];
+    if (!rawBody || typeof signature !== 'string') {
+      throw new BadRequestException('Falta la firma o el body del webhook');
+    }
+
+    const expected = Buffer.from(this.sign(rawBody));
+    const received = Buffer.from(signature);
+    if (
+      expected.length !== received.length ||
+      !timingSafeEqual(expected, received)
+    ) {
+      throw new BadRequestException('Firma del webhook inválida');
+    }
+
+    return JSON.parse(rawBody.toString('utf8')) as PaymentWebhookEvent;
+  }
+
+  /**
+   * Simula el resultado del pago de una sesión y devuelve el webhook firmado
+   * - success: pago capturado → checkout.completed
+   * - decline: tarjeta rechazada → payment.failed (la sesión sigue abierta)
+   * - expire: el cliente abandonó el pago → checkout.expired
+   */
+  simulate(
+    providerSessionId: string,
+    outcome: FakePaymentOutcome,
+  ): { rawBody: Buffer; headers: Record<string, string> } {
+    const session = this.getSession(providerSessionId);
+    let event: PaymentWebhookEvent;
+
+    switch (outcome) {
+      case 'success':
+        session.status = 'paid';
+        session.paymentReference = this.nextId('fake_pi');
+        event = {
+          type: 'checkout.completed',
+          checkoutSessionId: session.checkoutSessionId,
+          providerSessionId,
+          paymentReference: session.paymentReference,
+          paid: true,
+        };
+        break;
+      case 'decline':
+        event = {
+          type: 'payment.failed',
+          checkoutSessionId: session.checkoutSessionId,
+          paymentReference: this.nextId('fake_pi'),
+          errorMessage: 'Your card was declined.',
+        };
+        break;
+      case 'expire':
+        session.status = 'expired';
+        event = {
+          type: 'checkout.expired',
+          checkoutSessionId: session.checkoutSessionId,
+          providerSessionId,
+        };
+        break;
+    }
+
+    this.logger.debug(`Pago simulado (${outcome}) para ${providerSessionId}`);
+
+    const rawBody = Buffer.from(JSON.stringify(event));
+    return {
+      rawBody,
+      headers: {
+        'content-type': 'application/json',
+        [FAKE_SIGNATURE_HEADER]: this.sign(rawBody),
+      },
+    };
+  }
+
+  private getSession(providerSessionId: string): FakeSession {
+    const session = this.sessions.get(providerSessionId);
+    if (!session) {
+      throw new NotFoundException(
+        `Sesión de pago ${providerSessionId} no encontrada`,
+      );
+    }
+    return session;
+  }
+
+  private nextId(prefix: string): string {
+    this.sequence += 1;
+    return `${prefix}_${String(this.sequence).padStart(6, '0')}`;
+  }
+
+  private sign(rawBody: Buffer): string {
+    return createHmac('sha256', this.webhookSecret)
+      .update(rawBody)
+      .digest('hex');
+  }
+}
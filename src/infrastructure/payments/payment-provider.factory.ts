@@ -0,0 +1,30 @@
+import { Logger, Provider } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { IPaymentProvider } from '../../application/payments/interfaces/payment-provider.interface';
+import { StripePaymentProvider } from './stripe-payment.provider';
+import { FakePaymentProvider } from './fake-payment.provider';
+
+/**
+ * Registra IPaymentProvider según PAYMENT_PROVIDER (stripe | fake)
+ * Solo se instancia el adaptador elegido, por lo que el proveedor fake no
+ * requiere STRIPE_SECRET_KEY
+ */
+export const paymentProviderFactory: Provider = {
+  provide: 'IPaymentProvider',
+  useFactory: (configService: ConfigService): IPaymentProvider => {
+    const provider = configService.get<string>('PAYMENT_PROVIDER', 'stripe');
+
+    if (provider === 'fake') {
+      if (configService.get<string>('NODE_ENV') === 'production') {
+        throw new Error('PAYMENT_PROVIDER=fake is not allowed in production');
+      }
+      new Logger('PaymentProvider').warn(
+        'Usando FakePaymentProvider: los pagos son simulados',
+      );
+      return new FakePaymentProvider(configService);
+    }
+
+    return new StripePaymentProvider(configService);
+  },
+  inject: [ConfigService],
+};
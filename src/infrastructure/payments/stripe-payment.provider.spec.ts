@@ -0,0 +1,144 @@
+import { BadRequestException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import Stripe from 'stripe';
+import { StripePaymentProvider } from './stripe-payment.provider';
+
+describe('StripePaymentProvider', () => {
+  const webhookSecret = 'whsec_test_secret';
+  let provider: StripePaymentProvider;
+
+  const buildConfig = (config: Record<string, string>) =>
+    ({
+      get: jest.fn((key: string) => config[key]),
+    }) as unknown as ConfigService;
+
+  const signedPayload = (event: Record<string, unknown>) => {
+    const payload = JSON.stringify({
+      id: 'evt_test',
+      object: 'event',
+      ...event,
+    });
+    const signature = Stripe.webhooks.generateTestHeaderString({
+      payload,
+      secret: webhookSecret,
+    });
+    return { rawBody: Buffer.from(payload), signature };
+  };
+
+  beforeEach(() => {
+    provider = new StripePaymentProvider(
+      buildConfig({
+        STRIPE_SECRET_KEY: 'sk_test_123',
+        STRIPE_WEBHOOK_SECRET: webhookSecret,
+      }),
+    );
+  });
+
+  it('should throw when STRIPE_SECRET_KEY is missing', () => {
+    // Act & Assert
+    expect(() => new StripePaymentProvider(buildConfig({}))).toThrow(
+      'STRIPE_SECRET_KEY',
+    );
+  });
+
+  describe('parseWebhookEvent', () => {
+    it('should normalize a signed checkout.session.completed event', () => {
+      // Arrange
+      const { rawBody, signature } = signedPayload({
+        type: 'checkout.session.completed',
+        data: {
+          object: {
+            id: 'cs_test_123',
+            client_reference_id: 'local-session',
+            payment_status: 'paid',
+            payment_intent: 'pi_test_123',
+          },
+        },
+      });
+
+      // Act
+      const event = provider.parseWebhookEvent(rawBody, {
+        'stripe-signature': signature,
+      });
+
+      // Assert
+      expect(event).toEqual({
+        type: 'checkout.completed',
+        checkoutSessionId: 'local-session',
+        providerSessionId: 'cs_test_123',
+        paymentReference: 'pi_test_123',
+        paid: true,
+      });
+    });
+
+    it('should normalize payment_intent.payment_failed events', () => {
+      // Arrange
+      const { rawBody, signature } = signedPayload({
+        type: 'payment_intent.payment_failed',
+        data: {
+          object: {
+            id: 'pi_test_123',
+            metadata: { checkoutSessionId: 'local-session' },
+            last_payment_error: { message: 'Your card was declined.' },
+          },
+        },
+      });
+
+      // Act
+      const event = provider.parseWebhookEvent(rawBody, {
+        'stripe-signature': signature,
+      });
+
+      // Assert
+      expect(event).toEqual({
+        type: 'payment.failed',
+        checkoutSessionId: 'local-session',
+        paymentReference: 'pi_test_123',
+        errorMessage: 'Your card was declined.',
+      });
+    });
+
+    it('should normalize refund.updated events with the local refund ID', () => {
+      // Arrange
+      const { rawBody, signature } = signedPayload({
+        type: 'refund.updated',
+        data: {
+          object: {
+            id: 're_test_123',
+            status: 'succeeded',
+            metadata: { refundId: 'local-refund' },
+          },
+        },
+      });
+
+      // Act
+      const event = provider.parseWebhookEvent(rawBody, {
+        'stripe-signature': signature,
+      });
+
+      // Assert
+      expect(event).toEqual({
+        type: 'refund.updated',
+        refundId: 'local-refund',
+        providerRefundId: 're_test_123',
+        status: 'succeeded',
+      });
+    });
+
+    it('should throw BadRequestException when the signature is invalid', () => {
+      // Act & Assert
+      expect(() =>
+        provider.parseWebhookEvent(Buffer.from('{}'), {
+          'stripe-signature': 't=1,v1=invalid',
+        }),
+      ).toThrow(BadRequestException);
+    });
+
+    it('should throw BadRequestException when the signature is missing', () => {
+      // Act & Assert
+      expect(() => provider.parseWebhookEvent(Buffer.from('{}'), {})).toThrow(
+        BadRequestException,
+      );
+    });
+  });
+});
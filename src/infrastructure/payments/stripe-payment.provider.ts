@@ -0,0 +1,288 @@
+import {
+  BadRequestException,
+  InternalServerErrorException,
+  Logger,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { IncomingHttpHeaders } from 'http';
+import Stripe from 'stripe';
+import {
+  CreatePaymentSessionParams,
+  IPaymentProvider,
+  PaymentSessionResult,
+  PaymentStatusResult,
+  PaymentWebhookEvent,
+  RefundParams,
+  RefundProviderStatus,
+  RefundResult,
+} from '../../application/payments/interfaces/payment-provider.interface';
+
+/**
+ * StripePaymentProvider - Adaptador de Stripe para IPaymentProvider
+ * Capa de Infraestructura (Clean Architecture)
+ *
+ * Responsabilidades:
+ * - Traducir las operaciones de pago al SDK de Stripe
+ * - Verificar la firma `stripe-signature` de los webhooks
+ * - Clasificar los errores de Stripe en excepciones HTTP
+ */
+export class StripePaymentProvider implements IPaymentProvider {
+  readonly name = 'stripe';
+
+  private readonly logger = new Logger(StripePaymentProvider.name);
+  private readonly stripe: Stripe;
+
+  constructor(private readonly configService: ConfigService) {
+    const stripeKey = this.configService.get<string>('STRIPE_SECRET_KEY');
+    if (!stripeKey) {
+      throw new Error(
+        'STRIPE_SECRET_KEY is not configured in environment variables',
+      );
+    }
+    this.stripe = new Stripe(stripeKey);
+  }
+
+  async createCheckoutSession(
+    params: CreatePaymentSessionParams,
+  ): Promise<PaymentSessionResult> {
+    try {
+      // Stripe no admite líneas negativas: el descuento va como cupón de un uso
+      const coupon = params.discount
+        ? await this.stripe.coupons.create({
+            amount_off: params.discount.amount,
+            currency: params.currency,
+            duration: 'once',
+            max_redemptions: 1,
+            name: params.discount.name,
+          })
+        : null;
+
+      const session = await this.stripe.checkout.sessions.create({
+        payment_method_types: ['card'],
+        line_items: params.lineItems.map((item) => ({
+          price_data: {
+            currency: params.currency,
+            product_data: {
+              name: item.name,
+              ...(item.description && { description: item.description }),
+              images: item.imageUrl ? [item.imageUrl] : [],
+            },
+            unit_amount: item.unitAmount,
+          },
+          quantity: item.quantity,
+        })),
+        ...(coupon && { discounts: [{ coupon: coupon.id }] }),
+        mode: 'payment',
+        success_url: params.successUrl,
+        cancel_url: params.cancelUrl,
+        // Que no se pueda pagar después de liberar la reserva de stock
+        expires_at: Math.floor(params.expiresAt.getTime() / 1000),
+        // Referencias para correlacionar los webhooks con la sesión local
+        client_reference_id: params.checkoutSessionId,
+        metadata: { checkoutSessionId: params.checkoutSessionId },
+        payment_intent_data: {
+          metadata: { checkoutSessionId: params.checkoutSessionId },
+        },
+      });
+
+      return { providerSessionId: session.id, url: session.url };
+    } catch (error) {
+      throw this.toHttpException(error);
+    }
+  }
+
+  async getPaymentStatus(
+    providerSessionId: string,
+  ): Promise<PaymentStatusResult> {
+    try {
+      const session =
+        await this.stripe.checkout.sessions.retrieve(providerSessionId);
+
+      let status: PaymentStatusResult['status'] = 'pending';
+      if (session.payment_status === 'paid') {
+        status = 'paid';
+      } else if (session.status === 'expired') {
+        status = 'expired';
+      }
+
+      return {
+        providerSessionId: session.id,
+        status,
+        paymentReference: this.paymentIntentId(session.payment_intent),
+        amountTotal: session.amount_total ?? undefined,
+        currency: session.currency ?? undefined,
+      };
+    } catch (error) {
+      throw this.toHttpException(error);
+    }
+  }
+
+  async expireCheckoutSession(providerSessionId: string): Promise<void> {
+    try {
+      const session =
+        await this.stripe.checkout.sessions.retrieve(providerSessionId);
+      if (session.status !== 'open') {
+        return;
+      }
+      await this.stripe.checkout.sessions.expire(providerSessionId);
+    } catch (error) {
+      throw this.toHttpException(error);
+    }
+  }
+
+  async refund(params: RefundParams): Promise<RefundResult> {
+    try {
+      const refund = await this.stripe.refunds.create({
+        payment_intent: params.paymentReference,
+        amount: params.amount,
+        metadata: {
+          ...(params.refundId && { refundId: params.refundId }),
+          ...(params.reason && { reason: params.reason }),
+        },
+      });
+
+      return {
+        refundId: refund.id,
+        status: this.refundStatus(refund),
+        amount: refund.amount,
+      };
+    } catch (error) {
+      throw this.toHttpException(error);
+    }
+  }
+
+  parseWebhookEvent(
+    rawBody: Buffer | undefined,
+    headers: IncomingHttpHeaders,
+  ): PaymentWebhookEvent {
+    const webhookSecret = this.configService.get<string>(
+      'STRIPE_WEBHOOK_SECRET',
+    );
+    if (!webhookSecret) {
+      this.logger.error('STRIPE_WEBHOOK_SECRET is not configured');
+      throw new InternalServerErrorException('Webhook de pagos no configurado');
+    }
+
+    const signature = headers['stripe-signature'];
+    if (!rawBody || typeof signature !== 'string') {
+      throw new BadRequestException('Falta la firma o el body del webhook');
+    }
+
+    let event: Stripe.Event;
+    try {
+      event = this.stripe.webhooks.constructEvent(
+        rawBody,
+        signature,
+        webhookSecret,
+      );
+    } catch (error) {
+      this.logger.warn(`Firma de webhook inválida: ${error.message}`);
+      throw new BadRequestException('Firma del webhook inválida');
+    }
+
+    switch (event.type) {
+      case 'checkout.session.completed': {
+        const session = event.data.object;
+        return {
+          type: 'checkout.completed',
+          checkoutSessionId:
+            session.client_reference_id ?? session.metadata?.checkoutSessionId,
+          providerSessionId: session.id,
+          paymentReference: this.paymentIntentId(session.payment_intent),
+          paid: session.payment_status === 'paid',
+        };
+      }
+      case 'checkout.session.expired': {
+        const session = event.data.object;
+        return {
+          type: 'checkout.expired',
+          checkoutSessionId:
+            session.client_reference_id ?? session.metadata?.checkoutSessionId,
+          providerSessionId: session.id,
+        };
+      }
+      case 'payment_intent.payment_failed': {
+        const paymentIntent = event.data.object;
+        return {
+          type: 'payment.failed',
+          checkoutSessionId: paymentIntent.metadata?.checkoutSessionId,
+          paymentReference: paymentIntent.id,
+          errorMessage:
+            paymentIntent.last_payment_error?.message ?? 'Pago rechazado',
+        };
+      }
+      case 'refund.updated':
+      case 'refund.failed':
+      case 'charge.refund.updated': {
+        const refund = event.data.object;
+        return {
+          type: 'refund.updated',
+          refundId: refund.metadata?.refundId,
+          providerRefundId: refund.id,
+          status: this.refundStatus(refund),
+        };
+      }
+      default:
+        return { type: 'unhandled', providerEventType: event.type };
+    }
+  }
+
+  private refundStatus(refund: Stripe.Refund): RefundProviderStatus {
+    if (refund.status === 'succeeded') {
+      return 'succeeded';
+    }
+    if (refund.status === 'failed' || refund.status === 'canceled') {
+      return 'failed';
+    }
+    return 'pending';
+  }
+
+  private paymentIntentId(
+    paymentIntent: string | Stripe.PaymentIntent | null,
+  ): string | undefined {
+    if (!paymentIntent) {
+      return undefined;
+    }
+    return typeof paymentIntent === 'string' ? paymentIntent : paymentIntent.id;
+  }
+
+  /**
+   * Clasificar errores de Stripe
+   */
+  private toHttpException(error: unknown): unknown {
+    if (!(error instanceof Stripe.errors.StripeError)) {
+      return error;
+    }
+
+    this.logger.error(`Stripe error (${error.type})`, error.message);
+
+    switch (error.type) {
+      case 'StripeCardError':
+        return new BadRequestException(
+          'Error con la tarjeta: ' + error.message,
+        );
+      case 'StripeRateLimitError':
+        return new BadRequestException(
+          'Demasiadas solicitudes, intente más tarde',
+        );
+      case 'StripeInvalidRequestError':
+        return new BadRequestException('Solicitud inválida: ' + error.message);
+      case 'StripeAPIError':
+        return new BadRequestException(
+          'Error del servicio de pagos, intente más tarde',
+        );
+      case 'StripeConnectionError':
+        return new BadRequestException(
+          'Error de conexión con el servicio de pagos',
+        );
+      case 'StripeAuthenticationError':
+        return new BadRequestException(
+          'Error de autenticación con el servicio de pagos',
+        );
+      default:
+        return new BadRequestException(
+          'Error procesando el pago: ' + error.message,
+        );
+    }
+  }
+}
@@ -0,0 +1,226 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import {
+  DataSource,
+  EntityManager,
+  IsNull,
+  LessThanOrEqual,
+  Repository,
+} from 'typeorm';
+import { Cart } from '../../domain/entities/cart.entity';
+import { CartItem } from '../../domain/entities/cart-item.entity';
+import { CheckoutSession } from '../../domain/entities/checkout-session.entity';
+import {
+  CartItemPrice,
+  CartMergeLine,
+  ICartRepository,
+} from '../../application/cart/interfaces/cart-repository.interface';
+
+/**
+ * CartRepository - Implementación concreta de ICartRepository
+ * Capa de Infraestructura (Clean Architecture)
+ */
+@Injectable()
+export class CartRepository implements ICartRepository {
+  private readonly logger = new Logger(CartRepository.name);
+
+  constructor(
+    @InjectRepository(Cart)
+    private readonly cartRepository: Repository<Cart>,
+    private readonly dataSource: DataSource,
+  ) {}
+
+  async findByUserId(userId: string): Promise<Cart | null> {
+    const cart = await this.cartRepository
+      .createQueryBuilder('cart')
+      .leftJoinAndSelect('cart.items', 'items')
+      .where('cart.userId = :userId', { userId })
+      .orderBy('items.createdAt', 'ASC')
+      .getOne();
+    return cart ? this.resolveCheckoutSession(cart) : null;
+  }
+
+  async findGuestCart(cartId: string): Promise<Cart | null> {
+    const cart = await this.cartRepository
+      .createQueryBuilder('cart')
+      .leftJoinAndSelect('cart.items', 'items')
+      .where('cart.id = :cartId', { cartId })
+      .andWhere('cart.userId IS NULL')
+      .andWhere('cart.expiresAt > :now', { now: new Date() })
+      .orderBy('items.createdAt', 'ASC')
+      .getOne();
+    return cart ? this.resolveCheckoutSession(cart) : null;
+  }
+
+  async findOrCreateUserCart(userId: string): Promise<Cart> {
+    await this.cartRepository
+      .createQueryBuilder()
+      .insert()
+      .into(Cart)
+      .values({ userId })
+      .orIgnore()
+      .execute();
+
+    return this.findByUserId(userId);
+  }
+
+  async createGuestCart(expiresAt: Date): Promise<Cart> {
+    const cart = await this.cartRepository.save(
+      this.cartRepository.create({ userId: null, expiresAt }),
+    );
+    cart.items = [];
+    return cart;
+  }
+
+  async touchGuestCart(cartId: string, expiresAt: Date): Promise<void> {
+    await this.cartRepository.update(
+      { id: cartId, userId: IsNull() },
+      { expiresAt },
+    );
+  }
+
+  async setItem(
+    cartId: string,
+    productId: number,
+    quantity: number,
+    unitPrice: number,
+  ): Promise<void> {
+    this.logger.debug(`Carrito ${cartId}: producto ${productId} x${quantity}`);
+
+    await this.dataSource.transaction(async (manager) => {
+      await this.upsertItems(manager, cartId, [
+        { productId, quantity, unitPrice },
+      ]);
+      await this.detach(manager, cartId);
+    });
+  }
+
+  async removeItem(cartId: string, productId: number): Promise<boolean> {
+    return this.dataSource.transaction(async (manager) => {
+      const result = await manager.delete(CartItem, { cartId, productId });
+      if (!result.affected) {
+        return false;
+      }
+      await this.detach(manager, cartId);
+      return true;
+    });
+  }
+
+  async clear(cartId: string): Promise<void> {
+    await this.dataSource.transaction(async (manager) => {
+      await manager.delete(CartItem, { cartId });
+      await this.detach(manager, cartId);
+    });
+  }
+
+  async updatePrices(cartId: string, prices: CartItemPrice[]): Promise<void> {
+    await this.dataSource.transaction(async (manager) => {
+      for (const { productId, unitPrice } of prices) {
+        await manager.update(CartItem, { cartId, productId }, { unitPrice });
+      }
+    });
+  }
+
+  async linkCheckoutSession(
+    cartId: string,
+    checkoutSessionId: string,
+  ): Promise<void> {
+    await this.cartRepository.update({ id: cartId }, { checkoutSessionId });
+  }
+
+  async mergeGuestCart(
+    guestCartId: string,
+    userCartId: string,
+    lines: CartMergeLine[],
+  ): Promise<boolean> {
+    return this.dataSource.transaction(async (manager) => {
+      // Borrar primero: si otro inicio de sesión ya lo combinó no se suma dos veces
+      const result = await manager.delete(Cart, {
+        id: guestCartId,
+        userId: IsNull(),
+      });
+      if (!result.affected) {
+        return false;
+      }
+
+      if (lines.length > 0) {
+        await this.upsertItems(manager, userCartId, lines);
+        await this.detach(manager, userCartId);
+      }
+      return true;
+    });
+  }
+
+  async deleteExpiredGuestCarts(now: Date): Promise<number> {
+    const result = await this.cartRepository.delete({
+      userId: IsNull(),
+      expiresAt: LessThanOrEqual(now),
+    });
+    return result.affected ?? 0;
+  }
+
+  /**
+   * Resuelve la sesión de pago abierta desde el carrito si cambió de estado
+   * desde la última lectura: la desvincula y, si se completó, vacía el carrito
+   */
+  private async resolveCheckoutSession(cart: Cart): Promise<Cart> {
+    if (!cart.checkoutSessionId) {
+      return cart;
+    }
+
+    const session = await this.dataSource
+      .getRepository(CheckoutSession)
+      .findOne({
+        where: { id: cart.checkoutSessionId },
+        select: ['id', 'status'],
+      });
+    if (session?.status === 'pending') {
+      return cart;
+    }
+
+    return this.dataSource.transaction(async (manager) => {
+      const result = await manager.update(
+        Cart,
+        { id: cart.id, checkoutSessionId: cart.checkoutSessionId },
+        { checkoutSessionId: null },
+      );
+      if (result.affected && session?.status === 'completed') {
+        this.logger.debug(
+          `Vaciando carrito ${cart.id}: checkout session ${session.id} completada`,
+        );
+        await manager.delete(CartItem, { cartId: cart.id });
+        cart.items = [];
+      }
+      cart.checkoutSessionId = null;
+      return cart;
+    });
+  }
+
+  private async upsertItems(
+    manager: EntityManager,
+    cartId: string,
+    lines: CartMergeLine[],
+  ): Promise<void> {
+    await manager
+      .createQueryBuilder()
+      .insert()
+      .into(CartItem)
+      .values(lines.map((line) => ({ cartId, ...line })))
+      .orUpdate(
+        ['quantity', 'unit_price', 'updated_at'],
+        ['cart_id', 'product_id'],
+      )
+      .execute();
+  }
+
+  /**
+   * Un carrito modificado ya no corresponde a la sesión de pago abierta
+   */
+  private async detach(manager: EntityManager, cartId: string): Promise<void> {
+    await manager.update(
+      Cart,
+      { id: cartId },
+      { checkoutSessionId: null, updatedAt: new Date() },
+    );
+  }
+}
@@ -0,0 +1,83 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { DataSource, IsNull, Repository } from 'typeorm';
+import { GuestCustomer } from '../../domain/entities/guest-customer.entity';
+import { Order } from '../../domain/entities/order.entity';
+import {
+  GuestClaimResult,
+  IGuestCustomerRepository,
+} from '../../application/guest-checkout/interfaces/guest-customer-repository.interface';
+
+/**
+ * GuestCustomerRepository - Implementación concreta de IGuestCustomerRepository
+ * Capa de Infraestructura (Clean Architecture)
+ */
+@Injectable()
+export class GuestCustomerRepository implements IGuestCustomerRepository {
+  private readonly logger = new Logger(GuestCustomerRepository.name);
+
+  constructor(
+    @InjectRepository(GuestCustomer)
+    private readonly guestCustomerRepository: Repository<GuestCustomer>,
+    private readonly dataSource: DataSource,
+  ) {}
+
+  async upsert(email: string, fullName: string): Promise<GuestCustomer> {
+    await this.guestCustomerRepository
+      .createQueryBuilder()
+      .insert()
+      .into(GuestCustomer)
+      .values({ email, fullName })
+      .orIgnore()
+      .execute();
+
+    return this.guestCustomerRepository.findOne({ where: { email } });
+  }
+
+  async findByOrderAccessTokenHash(
+    accessTokenHash: string,
+  ): Promise<GuestCustomer | null> {
+    return this.guestCustomerRepository
+      .createQueryBuilder('guest')
+      .innerJoin(Order, 'order', 'order.guestCustomerId = guest.id')
+      .where('order.accessTokenHash = :accessTokenHash', { accessTokenHash })
+      .getOne();
+  }
+
+  async claim(
+    guestCustomerId: string,
+    accessTokenHash: string,
+    userId: string,
+  ): Promise<GuestClaimResult> {
+    return this.dataSource.transaction(async (manager) => {
+      const order = await manager.findOne(Order, {
+        where: { guestCustomerId, accessTokenHash },
+        lock: { mode: 'pessimistic_write' },
+      });
+      if (!order || (order.userId && order.userId !== userId)) {
+        return { claimed: false, orders: 0 };
+      }
+
+      // Primera cuenta que reclama una orden del invitado
+      await manager.update(
+        GuestCustomer,
+        { id: guestCustomerId, claimedBy: IsNull() },
+        { claimedBy: userId, claimedAt: new Date() },
+      );
+
+      if (order.userId) {
+        return { claimed: true, orders: 0 };
+      }
+      await manager.update(
+        Order,
+        { id: order.id },
+        { userId, updatedAt: new Date() },
+      );
+
+      this.logger.debug(
+        `Invitado ${guestCustomerId}: orden ${order.id} asignada al usuario ${userId}`,
+      );
+      return { claimed: true, orders: 1 };
+    });
+  }
+}
@@ -0,0 +1,130 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { IdempotencyKeyRepository } from './idempotency-key.repository';
+import { IdempotencyKey } from '../../domain/entities/idempotency-key.entity';
+
+describe('IdempotencyKeyRepository', () => {
+  let repository: IdempotencyKeyRepository;
+
+  const userId = '550e8400-e29b-41d4-a716-446655440001';
+  const key = 'order-attempt-1';
+  const expiredLeaseId = '550e8400-e29b-41d4-a716-446655440090';
+  const newLeaseId = '550e8400-e29b-41d4-a716-446655440091';
+
+  // Fila de la reserva vigente: la anterior expiró y begin la reemplazó
+  let rows: Array<{ id: string; status: string }>;
+
+  const matches = (
+    row: { id: string; status: string },
+    where: { id: string; status: string },
+  ) => row.id === where.id && row.status === where.status;
+
+  const mockQueryBuilder = {
+    insert: jest.fn().mockReturnThis(),
+    into: jest.fn().mockReturnThis(),
+    values: jest.fn().mockReturnThis(),
+    orIgnore: jest.fn().mockReturnThis(),
+    execute: jest.fn(),
+  };
+
+  const mockTypeOrmRepository = {
+    findOne: jest.fn(),
+    delete: jest.fn(async (where) => {
+      const affected = rows.filter((row) => matches(row, where)).length;
+      rows = rows.filter((row) => !matches(row, where));
+      return { affected };
+    }),
+    update: jest.fn(async (where, data) => {
+      const matching = rows.filter((row) => matches(row, where));
+      matching.forEach((row) => Object.assign(row, data));
+      return { affected: matching.length };
+    }),
+    createQueryBuilder: jest.fn(() => mockQueryBuilder),
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        IdempotencyKeyRepository,
+        {
+          provide: getRepositoryToken(IdempotencyKey),
+          useValue: mockTypeOrmRepository,
+        },
+      ],
+    }).compile();
+
+    repository = module.get<IdempotencyKeyRepository>(IdempotencyKeyRepository);
+
+    jest.clearAllMocks();
+
+    rows = [{ id: newLeaseId, status: 'in_progress' }];
+  });
+
+  it('should return the id of the new row as the lease', async () => {
+    // Arrange
+    mockQueryBuilder.execute.mockResolvedValue({ raw: [{ id: newLeaseId }] });
+
+    // Act
+    const result = await repository.begin(
+      userId,
+      key,
+      'huella',
+      new Date(Date.now() + 60 * 1000),
+    );
+
+    // Assert
+    expect(result).toBe(newLeaseId);
+  });
+
+  it('should not take the key when another request holds it', async () => {
+    // Arrange
+    mockQueryBuilder.execute.mockResolvedValue({ raw: [] });
+
+    // Act
+    const result = await repository.begin(
+      userId,
+      key,
+      'huella',
+      new Date(Date.now() + 60 * 1000),
+    );
+
+    // Assert
+    expect(result).toBeNull();
+  });
+
+  it('should not complete the record of a newer request after its lease expired', async () => {
+    // Act
+    const completed = await repository.complete(
+      expiredLeaseId,
+      201,
+      { id: 'order-1' },
+      new Date(Date.now() + 24 * 60 * 60 * 1000),
+    );
+
+    // Assert
+    expect(completed).toBe(false);
+    expect(rows).toEqual([{ id: newLeaseId, status: 'in_progress' }]);
+  });
+
+  it('should not release the record of a newer request after its lease expired', async () => {
+    // Act
+    await repository.release(expiredLeaseId);
+
+    // Assert
+    expect(rows).toEqual([{ id: newLeaseId, status: 'in_progress' }]);
+  });
+
+  it('should complete its own lease', async () => {
+    // Act
+    const completed = await repository.complete(
+      newLeaseId,
+      201,
+      { id: 'order-2' },
+      new Date(Date.now() + 24 * 60 * 60 * 1000),
+    );
+
+    // Assert
+    expect(completed).toBe(true);
+    expect(rows[0].status).toBe('completed');
+  });
+});
@@ -0,0 +1,85 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { LessThanOrEqual, MoreThan, Repository } from 'typeorm';
+import { IdempotencyKey } from '../../domain/entities/idempotency-key.entity';
+import {
+  IdempotencyRecord,
+  IIdempotencyStore,
+} from '../../shared/idempotency/interfaces/idempotency-store.interface';
+
+/**
+ * IdempotencyKeyRepository - Almacén de claves de idempotencia en PostgreSQL
+ * La reserva usa el índice único (user_id, key) para que solo una de dos
+ * peticiones concurrentes con la misma clave llegue a ejecutarse
+ */
+@Injectable()
+export class IdempotencyKeyRepository implements IIdempotencyStore {
+  private readonly logger = new Logger(IdempotencyKeyRepository.name);
+
+  constructor(
+    @InjectRepository(IdempotencyKey)
+    private readonly idempotencyKeyRepository: Repository<IdempotencyKey>,
+  ) {}
+
+  async find(userId: string, key: string): Promise<IdempotencyRecord | null> {
+    return this.idempotencyKeyRepository.findOne({
+      where: { userId, key, expiresAt: MoreThan(new Date()) },
+    });
+  }
+
+  async begin(
+    userId: string,
+    key: string,
+    fingerprint: string,
+    expiresAt: Date,
+  ): Promise<string | null> {
+    this.logger.debug(`Reservando Idempotency-Key ${key} de usuario ${userId}`);
+
+    // Una clave expirada puede reutilizarse (también una reserva en curso
+    // abandonada, que vence a los pocos segundos)
+    await this.idempotencyKeyRepository.delete({
+      userId,
+      key,
+      expiresAt: LessThanOrEqual(new Date()),
+    });
+
+    const result = await this.idempotencyKeyRepository
+      .createQueryBuilder()
+      .insert()
+      .into(IdempotencyKey)
+      .values({ userId, key, fingerprint, status: 'in_progress', expiresAt })
+      .orIgnore()
+      .execute();
+
+    // El id de la fila identifica la reserva: una petición posterior con la
+    // misma clave inserta otra fila con otro id
+    return result.raw[0]?.id ?? null;
+  }
+
+  async complete(
+    leaseId: string,
+    responseStatus: number,
+    responseBody: unknown,
+    expiresAt: Date,
+  ): Promise<boolean> {
+    const result = await this.idempotencyKeyRepository.update(
+      { id: leaseId, status: 'in_progress' },
+      { status: 'completed', responseStatus, responseBody, expiresAt },
+    );
+    return (result.affected ?? 0) > 0;
+  }
+
+  async release(leaseId: string): Promise<void> {
+    await this.idempotencyKeyRepository.delete({
+      id: leaseId,
+      status: 'in_progress',
+    });
+  }
+
+  async purgeExpired(): Promise<number> {
+    const result = await this.idempotencyKeyRepository.delete({
+      expiresAt: LessThanOrEqual(new Date()),
+    });
+    return result.affected ?? 0;
+  }
+}
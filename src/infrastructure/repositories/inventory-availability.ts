@@ -0,0 +1,101 @@
+import { EntityManager, In } from 'typeorm';
+import { Product } from '../../domain/entities/product.entity';
+import {
+  InventoryReservation,
+  InventoryReservationStatus,
+} from '../../domain/entities/inventory-reservation.entity';
+import { ReservationOwner } from '../../application/inventory/interfaces/inventory-reservation-repository.interface';
+
+/**
+ * Expresión SQL con las unidades reservadas (reservas activas no vencidas)
+ * del producto con ese alias, para filtrar consultas de productos
+ */
+export function reservedStockSql(productAlias: string): string {
+  return `COALESCE((SELECT SUM(reservation.quantity) FROM inventory_reservations reservation WHERE reservation.product_id = ${productAlias}.id AND reservation.status = '${InventoryReservationStatus.ACTIVE}' AND reservation.expires_at > NOW()), 0)`;
+}
+
+/**
+ * Unidades reservadas por producto sin contar las de los dueños excluidos
+ */
+export async function findReservedQuantities(
+  manager: EntityManager,
+  productIds: number[],
+  exclude: ReservationOwner[] = [],
+): Promise<Map<number, number>> {
+  if (productIds.length === 0) {
+    return new Map();
+  }
+
+  const query = manager
+    .createQueryBuilder(InventoryReservation, 'reservation')
+    .select('reservation.productId', 'productId')
+    .addSelect('SUM(reservation.quantity)', 'reserved')
+    .where('reservation.productId IN (:...productIds)', { productIds })
+    .andWhere('reservation.status = :status', {
+      status: InventoryReservationStatus.ACTIVE,
+    })
+    .andWhere('reservation.expiresAt > NOW()')
+    .groupBy('reservation.productId');
+
+  exclude.forEach((owner, index) => {
+    const [column, id] =
+      'checkoutSessionId' in owner
+        ? ['checkout_session_id', owner.checkoutSessionId]
+        : ['cart_id', owner.cartId];
+    query.andWhere(`reservation.${column} IS DISTINCT FROM :excluded${index}`, {
+      [`excluded${index}`]: id,
+    });
+  });
+
+  const rows: { productId: number; reserved: string }[] =
+    await query.getRawMany();
+  return new Map(
+    rows.map((row) => [Number(row.productId), Number(row.reserved)]),
+  );
+}
+
+/**
+ * Bloquea (SELECT ... FOR UPDATE, en orden de ID) los productos y calcula su
+ * stock disponible: stock menos las reservas activas de otros dueños
+ */
+export async function lockAvailableStock(
+  manager: EntityManager,
+  productIds: number[],
+  exclude: ReservationOwner[] = [],
+): Promise<{ products: Product[]; available: Map<number, number> }> {
+  const products = await manager.find(Product, {
+    where: { id: In(productIds) },
+    order: { id: 'ASC' },
+    lock: { mode: 'pessimistic_write' },
+  });
+  const reserved = await findReservedQuantities(
+    manager,
+    products.map((product) => product.id),
+    exclude,
+  );
+
+  return {
+    products,
+    available: new Map(
+      products.map((product) => [
+        product.id,
+        Math.max(product.stock - (reserved.get(product.id) ?? 0), 0),
+      ]),
+    ),
+  };
+}
+
+/**
+ * Marca como consumidas por la orden las reservas activas del dueño
+ */
+export async function consumeReservations(
+  manager: EntityManager,
+  owner: ReservationOwner,
+  orderId: string,
+): Promise<void> {
+  await manager.update(
+    InventoryReservation,
+    { ...owner, status: InventoryReservationStatus.ACTIVE },
+    { status: InventoryReservationStatus.CONSUMED, orderId },
+  );
+}
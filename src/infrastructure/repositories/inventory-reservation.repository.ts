@@ -0,0 +1,128 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { DataSource, LessThanOrEqual, Repository } from 'typeorm';
+import {
+  InventoryReservation,
+  InventoryReservationStatus,
+} from '../../domain/entities/inventory-reservation.entity';
+import { Product } from '../../domain/entities/product.entity';
+import {
+  IInventoryReservationRepository,
+  ReservationLine,
+  ReservationOwner,
+  ReservationShortfall,
+} from '../../application/inventory/interfaces/inventory-reservation-repository.interface';
+import {
+  findReservedQuantities,
+  lockAvailableStock,
+} from './inventory-availability';
+
+/**
+ * InventoryReservationRepository - Implementación concreta de IInventoryReservationRepository
+ * Capa de Infraestructura (Clean Architecture)
+ */
+@Injectable()
+export class InventoryReservationRepository
+  implements IInventoryReservationRepository
+{
+  private readonly logger = new Logger(InventoryReservationRepository.name);
+
+  constructor(
+    @InjectRepository(InventoryReservation)
+    private readonly reservationRepository: Repository<InventoryReservation>,
+    private readonly dataSource: DataSource,
+  ) {}
+
+  async reserve(
+    owner: ReservationOwner,
+    lines: ReservationLine[],
+    expiresAt: Date,
+    transferFrom?: ReservationOwner,
+  ): Promise<ReservationShortfall[]> {
+    return this.dataSource.transaction(async (manager) => {
+      const exclude = transferFrom ? [owner, transferFrom] : [owner];
+      const { available } = await lockAvailableStock(
+        manager,
+        lines.map((line) => line.productId),
+        exclude,
+      );
+
+      const shortfalls = lines
+        .map((line) => ({
+          ...line,
+          available: available.get(line.productId) ?? 0,
+        }))
+        .filter((line) => line.available < line.quantity);
+      if (shortfalls.length > 0) {
+        return shortfalls;
+      }
+
+      for (const released of exclude) {
+        await manager.update(
+          InventoryReservation,
+          { ...released, status: InventoryReservationStatus.ACTIVE },
+          { status: InventoryReservationStatus.RELEASED },
+        );
+      }
+      if (lines.length > 0) {
+        await manager.insert(
+          InventoryReservation,
+          lines.map((line) => ({
+            ...line,
+            checkoutSessionId:
+              'checkoutSessionId' in owner ? owner.checkoutSessionId : null,
+            cartId: 'cartId' in owner ? owner.cartId : null,
+            expiresAt,
+          })),
+        );
+      }
+
+      this.logger.debug(
+        `Reservadas ${lines.length} líneas para ${'cartId' in owner ? `carrito ${owner.cartId}` : `checkout session ${owner.checkoutSessionId}`}`,
+      );
+      return [];
+    });
+  }
+
+  async release(owner: ReservationOwner): Promise<number> {
+    const result = await this.reservationRepository.update(
+      { ...owner, status: InventoryReservationStatus.ACTIVE },
+      { status: InventoryReservationStatus.RELEASED },
+    );
+    return result.affected ?? 0;
+  }
+
+  async findAvailableStock(
+    productIds: number[],
+    exclude: ReservationOwner[] = [],
+  ): Promise<Map<number, number>> {
+    if (productIds.length === 0) {
+      return new Map();
+    }
+
+    const [products, reserved] = await Promise.all([
+      this.dataSource.getRepository(Product).find({
+        where: productIds.map((id) => ({ id })),
+        select: ['id', 'stock'],
+      }),
+      findReservedQuantities(this.dataSource.manager, productIds, exclude),
+    ]);
+    return new Map(
+      products.map((product) => [
+        product.id,
+        Math.max(product.stock - (reserved.get(product.id) ?? 0), 0),
+      ]),
+    );
+  }
+
+  async expireOverdue(now: Date): Promise<number> {
+    const result = await this.reservationRepository.update(
+      {
+        status: InventoryReservationStatus.ACTIVE,
+        expiresAt: LessThanOrEqual(now),
+      },
+      { status: InventoryReservationStatus.EXPIRED },
+    );
+    return result.affected ?? 0;
+  }
+}
@@ -0,0 +1,184 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { DataSource, EntityManager, Not, Repository } from 'typeorm';
+import { Order } from '../../domain/entities/order.entity';
+import { Payment } from '../../domain/entities/payment.entity';
+import { Refund, RefundStatus } from '../../domain/entities/refund.entity';
+import {
+  Invoice,
+  InvoiceType,
+  formatInvoiceNumber,
+} from '../../domain/entities/invoice.entity';
+import {
+  IInvoiceRepository,
+  InvoiceDraft,
+  InvoiceSource,
+} from '../../application/invoices/interfaces/invoice-repository.interface';
+
+/**
+ * InvoiceRepository - Emisión de facturas y notas de crédito
+ *
+ * La numeración se asigna con un advisory lock por tipo dentro de la misma
+ * transacción que inserta el documento: si la transacción se revierte el número
+ * no se consume, por lo que el correlativo no tiene huecos
+ */
+@Injectable()
+export class InvoiceRepository implements IInvoiceRepository {
+  private readonly logger = new Logger(InvoiceRepository.name);
+
+  constructor(
+    @InjectRepository(Invoice)
+    private readonly invoiceRepository: Repository<Invoice>,
+    private readonly dataSource: DataSource,
+  ) {}
+
+  async findInvoiceByOrderId(orderId: string): Promise<Invoice | null> {
+    return this.invoiceRepository.findOne({
+      where: { orderId, type: InvoiceType.INVOICE },
+    });
+  }
+
+  async findCreditNotes(orderId: string): Promise<Invoice[]> {
+    return this.invoiceRepository.find({
+      where: { orderId, type: InvoiceType.CREDIT_NOTE },
+      order: { sequence: 'ASC' },
+    });
+  }
+
+  async findCreditNote(
+    orderId: string,
+    creditNoteId: string,
+  ): Promise<Invoice | null> {
+    return this.invoiceRepository.findOne({
+      where: { id: creditNoteId, orderId, type: InvoiceType.CREDIT_NOTE },
+    });
+  }
+
+  async issueInvoice(
+    orderId: string,
+    buildDraft: (source: InvoiceSource) => InvoiceDraft,
+  ): Promise<Invoice | null> {
+    this.logger.debug(`Emitiendo factura de orden ${orderId}`);
+
+    return this.dataSource.transaction(async (manager) => {
+      const source = await this.loadSource(manager, orderId);
+      if (!source) {
+        return null;
+      }
+
+      // Una orden tiene una sola factura
+      if (source.invoice) {
+        return source.invoice;
+      }
+
+      return this.insert(
+        manager,
+        InvoiceType.INVOICE,
+        orderId,
+        buildDraft(source),
+      );
+    });
+  }
+
+  async issueCreditNote(
+    orderId: string,
+    buildDraft: (source: InvoiceSource) => InvoiceDraft,
+  ): Promise<Invoice | null> {
+    this.logger.debug(`Emitiendo nota de crédito de orden ${orderId}`);
+
+    return this.dataSource.transaction(async (manager) => {
+      const source = await this.loadSource(manager, orderId);
+      if (!source) {
+        return null;
+      }
+
+      return this.insert(
+        manager,
+        InvoiceType.CREDIT_NOTE,
+        orderId,
+        buildDraft(source),
+      );
+    });
+  }
+
+  /**
+   * Bloquea la orden y carga lo necesario para emitir un documento
+   */
+  private async loadSource(
+    manager: EntityManager,
+    orderId: string,
+  ): Promise<InvoiceSource | null> {
+    const locked = await manager.findOne(Order, {
+      where: { id: orderId },
+      lock: { mode: 'pessimistic_write' },
+    });
+    if (!locked) {
+      return null;
+    }
+
+    const [order, payment, invoices, refunds] = await Promise.all([
+      manager.findOne(Order, {
+        where: { id: orderId },
+        relations: ['user', 'guestCustomer', 'items', 'items.product'],
+      }),
+      manager.findOne(Payment, { where: { orderId } }),
+      manager.find(Invoice, {
+        where: { orderId },
+        order: { sequence: 'ASC' },
+      }),
+      manager.find(Refund, {
+        where: { orderId, status: Not(RefundStatus.FAILED) },
+        order: { createdAt: 'ASC' },
+      }),
+    ]);
+
+    return {
+      order,
+      payment,
+      invoice: invoices.find((i) => i.type === InvoiceType.INVOICE) ?? null,
+      creditNotes: invoices.filter((i) => i.type === InvoiceType.CREDIT_NOTE),
+      refunds,
+    };
+  }
+
+  /**
+   * Asigna el siguiente número del tipo y año e inserta el documento
+   */
+  private async insert(
+    manager: EntityManager,
+    type: InvoiceType,
+    orderId: string,
+    draft: InvoiceDraft,
+  ): Promise<Invoice> {
+    const issuedAt = new Date();
+    const fiscalYear = issuedAt.getFullYear();
+
+    // Serializa la numeración del tipo hasta el fin de la transacción
+    await manager.query('SELECT pg_advisory_xact_lock(hashtext($1))', [
+      `invoices:${type}`,
+    ]);
+    const { last } = await manager
+      .createQueryBuilder(Invoice, 'invoice')
+      .select('COALESCE(MAX(invoice.sequence), 0)', 'last')
+      .where('invoice.type = :type', { type })
+      .andWhere('invoice.fiscalYear = :fiscalYear', { fiscalYear })
+      .getRawOne();
+    const sequence = Number(last) + 1;
+
+    const invoice = manager.create(Invoice, {
+      ...draft,
+      type,
+      orderId,
+      fiscalYear,
+      sequence,
+      number: formatInvoiceNumber(type, fiscalYear, sequence),
+      invoiceId: draft.invoiceId ?? null,
+      invoiceNumber: draft.invoiceNumber ?? null,
+      refundId: draft.refundId ?? null,
+      reason: draft.reason ?? null,
+      createdBy: draft.createdBy ?? null,
+      issuedAt,
+    });
+    return manager.save(invoice);
+  }
+}
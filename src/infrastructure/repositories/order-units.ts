@@ -0,0 +1,18 @@
+/**
+ * Suma las unidades por item de orden de un conjunto de líneas
+ * (reembolsos, envíos) guardadas como jsonb
+ */
+export function sumUnitsByOrderItem(
+  records: { items: { orderItemId: number; quantity: number }[] }[],
+): Map<number, number> {
+  const units = new Map<number, number>();
+  for (const record of records) {
+    for (const line of record.items) {
+      units.set(
+        line.orderItemId,
+        (units.get(line.orderItemId) ?? 0) + line.quantity,
+      );
+    }
+  }
+  return units;
+}
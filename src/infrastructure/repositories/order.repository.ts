@@ -1,16 +1,84 @@
-import { Injectable, Logger } from '@nestjs/common';
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
-import { Repository, SelectQueryBuilder, DataSource } from 'typeorm';
-import { Order, OrderStatus } from '../../domain/entities/order.entity';
+import {
+  Repository,
+  SelectQueryBuilder,
+  DataSource,
+  EntityManager,
+  In,
+  Not,
+} from 'typeorm';
+import {
+  Order,
+  OrderStatus,
+  ORDER_NUMBER_SEQUENCE,
+  formatOrderNumber,
+} from '../../domain/entities/order.entity';
 import { OrderItem } from '../../domain/entities/order-item.entity';
+import { OrderStatusHistory } from '../../domain/entities/order-status-history.entity';
 import { Product } from '../../domain/entities/product.entity';
 import { User } from '../../domain/entities/user.entity';
-import { IOrderRepository } from '../../application/orders/interfaces/order-repository.interface';
+import {
+  Refund,
+  RefundMethod,
+  RefundStatus,
+} from '../../domain/entities/refund.entity';
+import {
+  Payment,
+  PaymentStatus,
+  STORE_CREDIT_PAYMENT_PROVIDER,
+} from '../../domain/entities/payment.entity';
+import { Shipment } from '../../domain/entities/shipment.entity';
+import {
+  LineTax,
+  calculateLineTax,
+} from '../../domain/entities/tax-rate.entity';
+import { ShippingCharge } from '../../domain/entities/shipping-method.entity';
+import {
+  Promotion,
+  PromotionDiscount,
+} from '../../domain/entities/promotion.entity';
+import { PromotionRedemption } from '../../domain/entities/promotion-redemption.entity';
+import { StoreCreditAccount } from '../../domain/entities/store-credit-account.entity';
+import { PromotionUsage } from '../../application/promotions/interfaces/promotion-repository.interface';
+import {
+  StoreCreditEntryType,
+  StoreCreditReason,
+} from '../../domain/entities/store-credit-entry.entity';
+import { StockMovementReason } from '../../domain/entities/stock-movement.entity';
+import { WarehouseAllocationStrategy } from '../../domain/entities/warehouse.entity';
+import { sumUnitsByOrderItem } from './order-units';
+import {
+  consumeReservations,
+  findReservedQuantities,
+  lockAvailableStock,
+} from './inventory-availability';
+import {
+  lockStoreCreditAccount,
+  postStoreCreditEntry,
+} from './store-credit-ledger';
+import {
+  StockAllocationLine,
+  allocateStock,
+  releaseItemStock,
+} from './stock-ledger';
+import {
+  CancelOrderData,
+  IOrderRepository,
+  OrderGuest,
+  OrderItemChange,
+  OrderPricing,
+  OrderStoreCredit,
+  StatusChangeContext,
+  StatusUpdateOptions,
+} from '../../application/orders/interfaces/order-repository.interface';
 import {
   CreateOrderDto,
+  CreateOrderItemDto,
   OrderQueryDto,
   UpdateOrderDto,
 } from '../../application/orders/dto';
+import { ReservationOwner } from '../../application/inventory/interfaces/inventory-reservation-repository.interface';
 
 /**
  * OrderRepository - Implementación concreta del Repository Pattern
@@ -24,7 +92,7 @@ import {
  * - Manejar transacciones atómicas para órdenes
  */
 @Injectable()
-export class OrderRepository implements IOrderRepository {
+export class OrderRepository implements IOrderRepository, OnModuleInit {
   private readonly logger = new Logger(OrderRepository.name);
 
   constructor(
@@ -36,9 +104,20 @@ export class OrderRepository implements IOrderRepository {
     private readonly productRepository: Repository<Product>,
     @InjectRepository(User)
     private readonly userRepository: Repository<User>,
+    @InjectRepository(OrderStatusHistory)
+    private readonly statusHistoryRepository: Repository<OrderStatusHistory>,
     private readonly dataSource: DataSource,
   ) {}
 
+  /**
+   * Crea la secuencia de números de orden si no existe
+   */
+  async onModuleInit(): Promise<void> {
+    await this.dataSource.query(
+      `CREATE SEQUENCE IF NOT EXISTS ${ORDER_NUMBER_SEQUENCE}`,
+    );
+  }
+
   /**
    * Encuentra órdenes con filtros avanzados y paginación
    */
@@ -102,7 +181,53 @@ export class OrderRepository implements IOrderRepository {
 
     return this.orderRepository.findOne({
       where: { id },
-      relations: ['user', 'items', 'items.product'],
+      relations: [
+        'user',
+        'guestCustomer',
+        'items',
+        'items.product',
+        'items.allocations',
+        'shipments',
+        'returns',
+      ],
+    });
+  }
+
+  /**
+   * Encuentra una orden por su número legible
+   */
+  async findByOrderNumber(orderNumber: string): Promise<Order | null> {
+    this.logger.debug(`Buscando orden por número: ${orderNumber}`);
+
+    return this.orderRepository.findOne({
+      where: { orderNumber },
+      relations: [
+        'user',
+        'guestCustomer',
+        'items',
+        'items.product',
+        'items.allocations',
+        'shipments',
+        'returns',
+      ],
+    });
+  }
+
+  /**
+   * Encuentra una orden de invitado por el hash de su order access token
+   */
+  async findByAccessTokenHash(accessTokenHash: string): Promise<Order | null> {
+    return this.orderRepository.findOne({
+      where: { accessTokenHash },
+      relations: [
+        'user',
+        'guestCustomer',
+        'items',
+        'items.product',
+        'items.allocations',
+        'shipments',
+        'returns',
+      ],
     });
   }
 
@@ -127,21 +252,57 @@ export class OrderRepository implements IOrderRepository {
   /**
    * Crea una nueva orden con transacción atómica
    */
-  async create(userId: string, createData: CreateOrderDto): Promise<Order> {
-    this.logger.debug(`Creando nueva orden para usuario: ${userId}`);
+  async create(
+    userId: string | null,
+    createData: CreateOrderDto,
+    pricing: OrderPricing,
+    assertRedemption: (
+      promotion: Promotion | null,
+      usage: PromotionUsage,
+    ) => void = () => undefined,
+    storeCredit?: OrderStoreCredit,
+    guest?: OrderGuest,
+    reservation?: ReservationOwner,
+    allocation: WarehouseAllocationStrategy = WarehouseAllocationStrategy.PRIORITY,
+  ): Promise<Order> {
+    const { taxes, shipping, promotion } = pricing;
+    this.logger.debug(
+      `Creando nueva orden para ${userId ? `usuario: ${userId}` : `invitado: ${guest?.guestCustomerId}`}`,
+    );
 
     return this.dataSource.transaction(async (manager) => {
-      // 1. Verificar que el usuario existe
-      const user = await manager.findOne(User, { where: { id: userId } });
-      if (!user) {
+      // 1. Verificar que el usuario existe (las órdenes de invitado no tienen)
+      const user = userId
+        ? await manager.findOne(User, { where: { id: userId } })
+        : null;
+      if (userId && !user) {
         throw new Error('Usuario no encontrado');
       }
 
-      // 2. Obtener productos y verificar existencia/stock
+      // 1b. Con cupón, bloquear la promoción y validar sus usos
+      if (promotion) {
+        const locked = await manager.findOne(Promotion, {
+          where: { id: promotion.promotionId },
+          lock: { mode: 'pessimistic_write' },
+        });
+        const [total, byUser] = await Promise.all([
+          manager.count(PromotionRedemption, {
+            where: { promotionId: promotion.promotionId },
+          }),
+          manager.count(PromotionRedemption, {
+            where: { promotionId: promotion.promotionId, userId },
+          }),
+        ]);
+        assertRedemption(locked, { total, byUser });
+      }
+
+      // 2. Bloquear productos y calcular el stock no reservado por otros
       const productIds = createData.items.map((item) => item.productId);
-      const products = await manager.find(Product, {
-        where: productIds.map((id) => ({ id })),
-      });
+      const { products, available } = await lockAvailableStock(
+        manager,
+        productIds,
+        reservation ? [reservation] : [],
+      );
 
       if (products.length !== productIds.length) {
         const foundIds = products.map((p) => p.id);
@@ -149,13 +310,14 @@ export class OrderRepository implements IOrderRepository {
         throw new Error(`Productos no encontrados: ${missingIds.join(', ')}`);
       }
 
-      // 3. Verificar stock y calcular total
-      let totalAmount = 0;
+      // 3. Verificar stock y calcular descuento y desglose de impuestos
       const itemsWithPrices: Array<{
         productId: number;
         quantity: number;
         price: number;
         product: Product;
+        discount: number;
+        tax: LineTax;
       }> = [];
 
       for (const item of createData.items) {
@@ -164,34 +326,105 @@ export class OrderRepository implements IOrderRepository {
           throw new Error(`Producto ${item.productId} no encontrado`);
         }
 
-        if (product.stock < item.quantity) {
+        const availableStock = available.get(product.id) ?? 0;
+        if (availableStock < item.quantity) {
           throw new Error(
-            `Stock insuficiente para producto ${product.name}. Disponible: ${product.stock}, solicitado: ${item.quantity}`,
+            `Stock insuficiente para producto ${product.name}. Disponible: ${availableStock}, solicitado: ${item.quantity}`,
           );
         }
 
+        const discount = this.lineDiscount(promotion, item.productId);
+        const price = pricing.prices?.[item.productId] ?? product.price;
         itemsWithPrices.push({
           productId: item.productId,
           quantity: item.quantity,
-          price: product.price,
+          price,
           product,
+          discount,
+          tax: calculateLineTax(
+            taxes,
+            product.taxCategory,
+            price,
+            item.quantity,
+            discount,
+          ),
         });
-
-        totalAmount += product.price * item.quantity;
       }
 
-      // 4. Crear la orden
+      // 4. Crear la orden con el siguiente número de la secuencia
+      const [{ sequence }] = await manager.query(
+        `SELECT nextval('${ORDER_NUMBER_SEQUENCE}') AS sequence`,
+      );
+      const totals = this.calculateTotals(
+        itemsWithPrices.map((item) => item.tax),
+        shipping,
+        promotion,
+      );
+      const storeCreditAmount = storeCredit
+        ? Math.min(storeCredit.amount, totals.totalAmount)
+        : 0;
       const order = manager.create(Order, {
+        orderNumber: formatOrderNumber(Number(sequence), new Date()),
         userId: userId,
         user: user,
-        totalAmount,
+        guestCustomerId: guest?.guestCustomerId ?? null,
+        accessTokenHash: guest?.accessTokenHash ?? null,
+        ...totals,
+        storeCreditAmount,
+        taxMode: taxes.mode,
+        taxCountry: taxes.country,
+        taxRegion: taxes.region,
+        promotionId: promotion?.promotionId ?? null,
+        promotionCode: promotion?.code ?? null,
+        shippingMethodId: shipping?.methodId ?? null,
+        shippingMethodName: shipping?.name ?? null,
         status: OrderStatus.PENDING,
         deliveryAddress: createData.deliveryAddress || null,
       });
 
       const savedOrder = await manager.save(order);
+      await this.recordStatusChange(
+        manager,
+        savedOrder.id,
+        null,
+        OrderStatus.PENDING,
+        { actorId: userId },
+      );
+      if (promotion) {
+        await manager.insert(PromotionRedemption, {
+          promotionId: promotion.promotionId,
+          userId,
+          orderId: savedOrder.id,
+          discountAmount: promotion.total,
+        });
+      }
+      if (storeCredit) {
+        await this.chargeStoreCredit(
+          manager,
+          savedOrder,
+          storeCredit,
+          storeCreditAmount,
+        );
+      }
+      // Pagada por completo con saldo a favor: se registra el pago para que
+      // admita reembolsos
+      if (storeCreditAmount > 0 && storeCreditAmount >= totals.totalAmount) {
+        await manager.insert(Payment, {
+          orderId: savedOrder.id,
+          provider: STORE_CREDIT_PAYMENT_PROVIDER,
+          amount: 0,
+          refundedAmount: 0,
+          storeCreditAmount,
+          storeCreditRefundedAmount: 0,
+          currency: 'usd',
+          status: PaymentStatus.CAPTURED,
+        });
+      }
+      if (reservation) {
+        await consumeReservations(manager, reservation, savedOrder.id);
+      }
 
-      // 5. Crear los items de la orden y reducir stock
+      // 5. Crear los items de la orden y descontarlos de los almacenes
       const orderItems: OrderItem[] = [];
       for (const itemData of itemsWithPrices) {
         const orderItem = manager.create(OrderItem, {
@@ -199,23 +432,34 @@ export class OrderRepository implements IOrderRepository {
           productId: itemData.productId,
           quantity: itemData.quantity,
           priceAtPurchase: itemData.price,
+          discountAmount: itemData.discount,
+          ...this.toItemTaxColumns(itemData.tax),
         });
 
         const savedItem = await manager.save(orderItem);
         orderItems.push(savedItem);
-
-        // Reducir stock del producto
-        await manager.update(
-          Product,
-          { id: itemData.productId },
-          { stock: () => `stock - ${itemData.quantity}` },
-        );
       }
+      await allocateStock(
+        manager,
+        orderItems.map((item) => ({
+          productId: item.productId,
+          quantity: item.quantity,
+          orderItemId: item.id,
+        })),
+        allocation,
+        { orderId: savedOrder.id, actorId: userId },
+      );
 
       // 6. Retornar orden completa con relaciones
       return manager.findOne(Order, {
         where: { id: savedOrder.id },
-        relations: ['user', 'items', 'items.product'],
+        relations: [
+          'user',
+          'guestCustomer',
+          'items',
+          'items.product',
+          'items.allocations',
+        ],
       });
     });
   }
@@ -223,12 +467,215 @@ export class OrderRepository implements IOrderRepository {
   /**
    * Actualiza una orden existente
    */
-  async update(id: string, updateData: UpdateOrderDto): Promise<Order | null> {
+  async update(
+    id: string,
+    updateData: UpdateOrderDto,
+    context: StatusChangeContext = {},
+  ): Promise<Order | null> {
     this.logger.debug(`Actualizando orden ${id} en DB`);
 
-    const updateResult = await this.orderRepository.update({ id }, updateData);
+    const updated = await this.dataSource.transaction(async (manager) => {
+      const current = await manager.findOne(Order, {
+        where: { id },
+        lock: { mode: 'pessimistic_write' },
+      });
+      if (!current) {
+        return false;
+      }
 
-    if (updateResult.affected === 0) {
+      // Los items se editan con updateItems (requiere conciliar stock)
+      const { items, ...fields } = updateData;
+      await manager.update(Order, { id }, fields);
+
+      if (updateData.status && updateData.status !== current.status) {
+        await this.recordStatusChange(
+          manager,
+          id,
+          current.status,
+          updateData.status,
+          context,
+        );
+      }
+      return true;
+    });
+
+    if (!updated) {
+      return null;
+    }
+
+    return this.findById(id);
+  }
+
+  /**
+   * Reemplaza los items de una orden conciliando stock y total
+   */
+  async updateItems(
+    id: string,
+    items: CreateOrderItemDto[],
+    assertChanges: (changes: OrderItemChange[]) => void,
+    pricing: OrderPricing,
+    options: StatusUpdateOptions & StatusChangeContext = {},
+    allocation: WarehouseAllocationStrategy = WarehouseAllocationStrategy.PRIORITY,
+  ): Promise<Order | null> {
+    const { taxes, shipping, promotion } = pricing;
+    this.logger.debug(`Editando items de orden ${id}`);
+
+    const updated = await this.dataSource.transaction(async (manager) => {
+      // 1. Bloquear la orden para evitar ediciones/cancelaciones concurrentes
+      const order = await manager.findOne(Order, {
+        where: { id },
+        lock: { mode: 'pessimistic_write' },
+      });
+      if (
+        !order ||
+        (options.expectedStatus && order.status !== options.expectedStatus)
+      ) {
+        return false;
+      }
+
+      // 2. Bloquear los productos involucrados (actuales y nuevos)
+      const currentItems = await manager.find(OrderItem, {
+        where: { orderId: id },
+      });
+      const productIds = [
+        ...new Set([
+          ...currentItems.map((item) => item.productId),
+          ...items.map((item) => item.productId),
+        ]),
+      ];
+      const { products, available } = await lockAvailableStock(
+        manager,
+        productIds,
+      );
+
+      // 3. Calcular la diferencia y dejar que el servicio la valide
+      const changes: OrderItemChange[] = productIds.map((productId) => {
+        const product = products.find((p) => p.id === productId);
+        return {
+          productId,
+          previousQuantity:
+            currentItems.find((item) => item.productId === productId)
+              ?.quantity ?? 0,
+          quantity:
+            items.find((item) => item.productId === productId)?.quantity ?? 0,
+          stock: product ? available.get(productId) : null,
+          price: product?.price ?? null,
+        };
+      });
+      assertChanges(changes);
+
+      // 4. Ajustar stock y líneas con el precio, descuento e impuesto actuales
+      // Las unidades quitadas vuelven a su almacén; las agregadas se asignan
+      // todas juntas al final
+      const stockContext = {
+        orderId: id,
+        note: options.note,
+        actorId: options.actorId,
+      };
+      const added: StockAllocationLine[] = [];
+      const lineTaxes: LineTax[] = [];
+      for (const change of changes) {
+        const delta = change.quantity - change.previousQuantity;
+        const current = currentItems.find(
+          (item) => item.productId === change.productId,
+        );
+        if (delta < 0) {
+          await releaseItemStock(
+            manager,
+            current,
+            -delta,
+            StockMovementReason.ORDER_EDIT,
+            stockContext,
+          );
+        }
+
+        if (change.quantity === 0) {
+          await manager.delete(OrderItem, { id: current.id });
+          continue;
+        }
+
+        const product = products.find((p) => p.id === change.productId);
+        const discount = this.lineDiscount(promotion, change.productId);
+        const tax = calculateLineTax(
+          taxes,
+          product.taxCategory,
+          change.price,
+          change.quantity,
+          discount,
+        );
+        lineTaxes.push(tax);
+
+        let orderItemId = current?.id;
+        if (current) {
+          await manager.update(
+            OrderItem,
+            { id: current.id },
+            {
+              quantity: change.quantity,
+              priceAtPurchase: change.price,
+              discountAmount: discount,
+              ...this.toItemTaxColumns(tax),
+            },
+          );
+        } else {
+          const inserted = await manager.insert(OrderItem, {
+            orderId: id,
+            productId: change.productId,
+            quantity: change.quantity,
+            priceAtPurchase: change.price,
+            discountAmount: discount,
+            ...this.toItemTaxColumns(tax),
+          });
+          orderItemId = inserted.identifiers[0].id;
+        }
+        if (delta > 0) {
+          added.push({
+            productId: change.productId,
+            quantity: delta,
+            orderItemId,
+          });
+        }
+      }
+      await allocateStock(manager, added, allocation, stockContext);
+
+      // 5. Recalcular los totales de la orden (el envío depende del carrito)
+      const totals = this.calculateTotals(lineTaxes, shipping, promotion);
+      const storeCreditAmount = Math.min(
+        order.storeCreditAmount,
+        totals.totalAmount,
+      );
+      await manager.update(
+        Order,
+        { id },
+        {
+          ...totals,
+          storeCreditAmount,
+          taxMode: taxes.mode,
+          updatedAt: new Date(),
+        },
+      );
+
+      // 6. El saldo a favor que ya no se usa vuelve a la cuenta
+      if (storeCreditAmount < order.storeCreditAmount) {
+        const account = await lockStoreCreditAccount(manager, order.userId);
+        await postStoreCreditEntry(manager, account, {
+          type: StoreCreditEntryType.CREDIT,
+          reason: StoreCreditReason.ORDER_ADJUSTMENT,
+          amount: order.storeCreditAmount - storeCreditAmount,
+          orderId: id,
+        });
+      }
+      if (order.promotionId) {
+        await manager.update(
+          PromotionRedemption,
+          { orderId: id },
+          { discountAmount: promotion?.total ?? 0 },
+        );
+      }
+      return true;
+    });
+
+    if (!updated) {
       return null;
     }
 
@@ -238,15 +685,38 @@ export class OrderRepository implements IOrderRepository {
   /**
    * Actualiza el estado de una orden
    */
-  async updateStatus(id: string, status: OrderStatus): Promise<Order | null> {
+  async updateStatus(
+    id: string,
+    status: OrderStatus,
+    context: StatusChangeContext = {},
+    options: StatusUpdateOptions = {},
+  ): Promise<Order | null> {
     this.logger.debug(`Actualizando estado de orden ${id} a: ${status}`);
 
-    const updateResult = await this.orderRepository.update(
-      { id },
-      { status, updatedAt: new Date() },
-    );
+    const updated = await this.dataSource.transaction(async (manager) => {
+      const current = await manager.findOne(Order, {
+        where: { id },
+        lock: { mode: 'pessimistic_write' },
+      });
+      if (
+        !current ||
+        (options.expectedStatus && current.status !== options.expectedStatus)
+      ) {
+        return false;
+      }
+
+      await manager.update(Order, { id }, { status, updatedAt: new Date() });
+      await this.recordStatusChange(
+        manager,
+        id,
+        current.status,
+        status,
+        context,
+      );
+      return true;
+    });
 
-    if (updateResult.affected === 0) {
+    if (!updated) {
       return null;
     }
 
@@ -254,13 +724,183 @@ export class OrderRepository implements IOrderRepository {
   }
 
   /**
-   * Soft delete de una orden (cancelar)
+   * Obtiene el historial de estados de una orden
    */
-  async cancel(id: string): Promise<boolean> {
+  async findStatusHistory(orderId: string): Promise<OrderStatusHistory[]> {
+    this.logger.debug(`Obteniendo historial de estados de orden ${orderId}`);
+
+    return this.statusHistoryRepository.find({
+      where: { orderId },
+      order: { createdAt: 'ASC', id: 'ASC' },
+    });
+  }
+
+  /**
+   * Cancela una orden con transacción atómica y devuelve el stock
+   */
+  async cancel(id: string, data: CancelOrderData): Promise<boolean> {
     this.logger.debug(`Cancelando orden ${id}`);
 
-    const deleteResult = await this.orderRepository.softDelete(id);
-    return deleteResult.affected > 0;
+    return this.dataSource.transaction(async (manager) => {
+      // 1. Bloquear la orden para evitar cancelaciones/reembolsos concurrentes
+      const order = await manager.findOne(Order, {
+        where: { id },
+        lock: { mode: 'pessimistic_write' },
+      });
+      if (!order || !order.canBeCancelled()) {
+        return false;
+      }
+
+      // 2. Unidades que ya volvieron al stock por reembolsos
+      const refunds = await manager.find(Refund, {
+        where: { orderId: id, status: Not(RefundStatus.FAILED) },
+      });
+      const refundedUnits = sumUnitsByOrderItem(refunds);
+
+      // 3. Devolver el stock de cada item
+      const items = await manager.find(OrderItem, { where: { orderId: id } });
+      for (const item of items) {
+        const quantity = item.quantity - (refundedUnits.get(item.id) ?? 0);
+        if (quantity > 0) {
+          await releaseItemStock(
+            manager,
+            item,
+            quantity,
+            StockMovementReason.CANCELLATION,
+            { orderId: id, note: data.reason, actorId: data.cancelledBy },
+          );
+        }
+      }
+
+      // 4. Liberar el uso del cupón
+      await manager.delete(PromotionRedemption, { orderId: id });
+
+      // 5. Devolver el saldo a favor usado (salvo lo ya reembolsado) y, si se
+      // pidió, lo capturado
+      const payment = await manager.findOne(Payment, {
+        where: { orderId: id },
+        lock: { mode: 'pessimistic_write' },
+      });
+      const storeCreditAmount =
+        order.storeCreditAmount - (payment?.storeCreditRefundedAmount ?? 0);
+      if (storeCreditAmount > 0 || data.refundToStoreCredit) {
+        const account = await lockStoreCreditAccount(manager, order.userId);
+        if (storeCreditAmount > 0) {
+          await postStoreCreditEntry(manager, account, {
+            type: StoreCreditEntryType.CREDIT,
+            reason: StoreCreditReason.ORDER_CANCELLED,
+            amount: storeCreditAmount,
+            orderId: id,
+            createdBy: data.cancelledBy,
+          });
+        }
+        if (payment && payment.storeCreditAmount > 0) {
+          payment.storeCreditRefundedAmount = payment.storeCreditAmount;
+          await manager.update(
+            Payment,
+            { id: payment.id },
+            {
+              storeCreditRefundedAmount: payment.storeCreditRefundedAmount,
+              ...(payment.getRefundableAmount() === 0 && {
+                status: PaymentStatus.REFUNDED,
+              }),
+            },
+          );
+        }
+        if (data.refundToStoreCredit && payment) {
+          await this.refundPaymentToStoreCredit(
+            manager,
+            order,
+            payment,
+            account,
+            data,
+          );
+        }
+      }
+
+      // 6. Marcar la orden como cancelada
+      await manager.update(
+        Order,
+        { id },
+        {
+          status: OrderStatus.CANCELLED,
+          cancelledBy: data.cancelledBy ?? null,
+          cancellationReason: data.reason ?? null,
+          cancelledAt: new Date(),
+          updatedAt: new Date(),
+        },
+      );
+      await this.recordStatusChange(
+        manager,
+        id,
+        order.status,
+        OrderStatus.CANCELLED,
+        { actorId: data.cancelledBy, note: data.reason },
+      );
+
+      return true;
+    });
+  }
+
+  /**
+   * Verifica si la orden tiene un pago capturado
+   * Una orden pagada por completo con saldo a favor cuenta como pagada
+   */
+  async hasCapturedPayment(orderId: string): Promise<boolean> {
+    const order = await this.orderRepository.findOne({
+      where: { id: orderId },
+      select: ['id', 'totalAmount', 'storeCreditAmount'],
+    });
+    if (
+      order &&
+      order.storeCreditAmount > 0 &&
+      order.storeCreditAmount >= order.totalAmount
+    ) {
+      return true;
+    }
+
+    const count = await this.dataSource.getRepository(Payment).count({
+      where: {
+        orderId,
+        status: In([PaymentStatus.CAPTURED, PaymentStatus.PARTIALLY_REFUNDED]),
+      },
+    });
+    return count > 0;
+  }
+
+  /**
+   * Monto cobrado por el proveedor que todavía no se reembolsó (el saldo a
+   * favor lo devuelve la cancelación)
+   */
+  async getRefundablePaymentAmount(orderId: string): Promise<number> {
+    const payment = await this.dataSource
+      .getRepository(Payment)
+      .findOne({ where: { orderId } });
+    return payment?.getProviderRefundableAmount() ?? 0;
+  }
+
+  /**
+   * Verifica si los envíos cubren todas las unidades no reembolsadas
+   */
+  async isFullyShipped(orderId: string): Promise<boolean> {
+    const [items, shipments, refunds] = await Promise.all([
+      this.dataSource.getRepository(OrderItem).find({ where: { orderId } }),
+      this.dataSource.getRepository(Shipment).find({ where: { orderId } }),
+      this.dataSource.getRepository(Refund).find({
+        where: { orderId, status: Not(RefundStatus.FAILED) },
+      }),
+    ]);
+    if (shipments.length === 0) {
+      return false;
+    }
+
+    const shippedUnits = sumUnitsByOrderItem(shipments);
+    const refundedUnits = sumUnitsByOrderItem(refunds);
+    return items.every(
+      (item) =>
+        (shippedUnits.get(item.id) ?? 0) + (refundedUnits.get(item.id) ?? 0) >=
+        item.quantity,
+    );
   }
 
   /**
@@ -289,7 +929,10 @@ export class OrderRepository implements IOrderRepository {
 
     const result = await this.orderItemRepository
       .createQueryBuilder('item')
-      .select('SUM(item.priceAtPurchase * item.quantity)', 'total')
+      .select(
+        'SUM(COALESCE(item.grossAmount, item.priceAtPurchase * item.quantity))',
+        'total',
+      )
       .where('item.orderId = :orderId', { orderId })
       .getRawOne();
 
@@ -319,19 +962,28 @@ export class OrderRepository implements IOrderRepository {
     total: number;
     byStatus: { status: OrderStatus; count: number }[];
     totalRevenue: number;
+    netRevenue: number;
+    taxCollected: number;
+    shippingRevenue: number;
     averageOrderValue: number;
     recentOrders: number;
   }> {
     this.logger.debug('Obteniendo estadísticas de órdenes');
 
-    // Estadísticas básicas
-    const [total, totalRevenue, recentOrders] = await Promise.all([
+    // Estadísticas básicas (órdenes sin desglose: todo el total es neto)
+    // El neto incluye el envío, que no tributa
+    const [total, revenue, recentOrders] = await Promise.all([
       this.orderRepository.count(),
       this.orderRepository
         .createQueryBuilder('order')
         .select('COALESCE(SUM(order.totalAmount), 0)', 'total')
-        .getRawOne()
-        .then((result) => parseFloat(result.total)),
+        .addSelect(
+          'COALESCE(SUM(order.totalAmount - COALESCE(order.taxAmount, 0)), 0)',
+          'net',
+        )
+        .addSelect('COALESCE(SUM(order.taxAmount), 0)', 'tax')
+        .addSelect('COALESCE(SUM(order.shippingAmount), 0)', 'shipping')
+        .getRawOne(),
       this.orderRepository
         .createQueryBuilder('order')
         .where('order.createdAt >= :since', {
@@ -339,6 +991,7 @@ export class OrderRepository implements IOrderRepository {
         })
         .getCount(),
     ]);
+    const totalRevenue = parseFloat(revenue.total);
 
     // Estadísticas por estado
     const statusStats = await this.orderRepository
@@ -359,6 +1012,9 @@ export class OrderRepository implements IOrderRepository {
       total,
       byStatus,
       totalRevenue,
+      netRevenue: parseFloat(revenue.net),
+      taxCollected: parseFloat(revenue.tax),
+      shippingRevenue: parseFloat(revenue.shipping),
       averageOrderValue,
       recentOrders,
     };
@@ -410,20 +1066,30 @@ export class OrderRepository implements IOrderRepository {
    */
   async checkProductsAvailability(
     items: { productId: number; quantity: number }[],
+    reservation?: ReservationOwner,
   ): Promise<{ productId: number; available: number; requested: number }[]> {
     this.logger.debug('Verificando disponibilidad de productos');
 
     const productIds = items.map((item) => item.productId);
-    const products = await this.productRepository.find({
-      where: productIds.map((id) => ({ id })),
-      select: ['id', 'stock'],
-    });
+    const [products, reserved] = await Promise.all([
+      this.productRepository.find({
+        where: productIds.map((id) => ({ id })),
+        select: ['id', 'stock'],
+      }),
+      findReservedQuantities(
+        this.dataSource.manager,
+        productIds,
+        reservation ? [reservation] : [],
+      ),
+    ]);
 
     return items.map((item) => {
       const product = products.find((p) => p.id === item.productId);
       return {
         productId: item.productId,
-        available: product?.stock || 0,
+        available: product
+          ? Math.max(product.stock - (reserved.get(product.id) ?? 0), 0)
+          : 0,
         requested: item.quantity,
       };
     });
@@ -439,13 +1105,11 @@ export class OrderRepository implements IOrderRepository {
 
     try {
       await this.dataSource.transaction(async (manager) => {
-        for (const item of items) {
-          await manager.update(
-            Product,
-            { id: item.productId },
-            { stock: () => `stock - ${item.quantity}` },
-          );
-        }
+        await allocateStock(
+          manager,
+          items,
+          WarehouseAllocationStrategy.PRIORITY,
+        );
       });
       return true;
     } catch (error) {
@@ -454,6 +1118,165 @@ export class OrderRepository implements IOrderRepository {
     }
   }
 
+  /**
+   * Registra una transición en order_status_history dentro de la transacción
+   */
+  private async recordStatusChange(
+    manager: EntityManager,
+    orderId: string,
+    fromStatus: OrderStatus | null,
+    toStatus: OrderStatus,
+    context: StatusChangeContext,
+  ): Promise<void> {
+    await manager.insert(OrderStatusHistory, {
+      orderId,
+      fromStatus,
+      toStatus,
+      actorId: context.actorId ?? null,
+      note: context.note ?? null,
+    });
+  }
+
+  /**
+   * Columnas del desglose fiscal de un item
+   */
+  private toItemTaxColumns(
+    tax: LineTax,
+  ): Pick<OrderItem, 'taxRate' | 'netAmount' | 'taxAmount' | 'grossAmount'> {
+    return {
+      taxRate: tax.rate,
+      netAmount: tax.net,
+      taxAmount: tax.tax,
+      grossAmount: tax.gross,
+    };
+  }
+
+  /**
+   * Descuento del cupón para la línea de un producto
+   */
+  private lineDiscount(
+    promotion: PromotionDiscount | null,
+    productId: number,
+  ): number {
+    return (
+      promotion?.lines.find((line) => line.productId === productId)?.amount ?? 0
+    );
+  }
+
+  /**
+   * Totales de la orden a partir del desglose de sus líneas (ya descontadas),
+   * del envío y del descuento de envío
+   */
+  private calculateTotals(
+    lines: LineTax[],
+    shipping: ShippingCharge | null,
+    promotion: PromotionDiscount | null,
+  ): Pick<
+    Order,
+    | 'subtotalAmount'
+    | 'taxAmount'
+    | 'discountAmount'
+    | 'shippingAmount'
+    | 'totalAmount'
+  > {
+    const shippingAmount = Math.max(
+      (shipping?.amount ?? 0) - (promotion?.shipping ?? 0),
+      0,
+    );
+    return {
+      subtotalAmount: lines.reduce((sum, line) => sum + line.net, 0),
+      taxAmount: lines.reduce((sum, line) => sum + line.tax, 0),
+      discountAmount: promotion?.total ?? 0,
+      shippingAmount,
+      totalAmount:
+        lines.reduce((sum, line) => sum + line.gross, 0) + shippingAmount,
+    };
+  }
+
+  /**
+   * Debita el saldo a favor de una orden nueva con la cuenta bloqueada
+   * Si una sesión de checkout ya lo reservó, solo devuelve lo que no se usó
+   */
+  private async chargeStoreCredit(
+    manager: EntityManager,
+    order: Order,
+    storeCredit: OrderStoreCredit,
+    amount: number,
+  ): Promise<void> {
+    const account = await lockStoreCreditAccount(manager, order.userId);
+
+    if (storeCredit.checkoutSessionId) {
+      if (storeCredit.amount > amount) {
+        await postStoreCreditEntry(manager, account, {
+          type: StoreCreditEntryType.CREDIT,
+          reason: StoreCreditReason.CHECKOUT_RELEASE,
+          amount: storeCredit.amount - amount,
+          orderId: order.id,
+          checkoutSessionId: storeCredit.checkoutSessionId,
+        });
+      }
+      return;
+    }
+
+    storeCredit.assertBalance(account.balance, amount);
+    if (amount > 0) {
+      await postStoreCreditEntry(manager, account, {
+        type: StoreCreditEntryType.DEBIT,
+        reason: StoreCreditReason.ORDER_PAYMENT,
+        amount,
+        orderId: order.id,
+        createdBy: order.userId,
+      });
+    }
+  }
+
+  /**
+   * Reembolsa a saldo a favor lo que queda capturado del pago de una orden
+   * que se cancela (el stock lo devuelve la cancelación)
+   */
+  private async refundPaymentToStoreCredit(
+    manager: EntityManager,
+    order: Order,
+    payment: Payment,
+    account: StoreCreditAccount,
+    data: CancelOrderData,
+  ): Promise<void> {
+    const amount = payment.getProviderRefundableAmount();
+    if (amount <= 0) {
+      return;
+    }
+
+    const refund = await manager.save(
+      manager.create(Refund, {
+        paymentId: payment.id,
+        orderId: order.id,
+        amount,
+        items: [],
+        reason: data.reason ?? 'Cancelación de la orden',
+        restock: false,
+        status: RefundStatus.SUCCEEDED,
+        method: RefundMethod.STORE_CREDIT,
+        createdBy: data.cancelledBy ?? order.userId,
+      }),
+    );
+    await manager.update(
+      Payment,
+      { id: payment.id },
+      {
+        refundedAmount: payment.refundedAmount + amount,
+        status: PaymentStatus.REFUNDED,
+      },
+    );
+    await postStoreCreditEntry(manager, account, {
+      type: StoreCreditEntryType.CREDIT,
+      reason: StoreCreditReason.REFUND,
+      amount,
+      orderId: order.id,
+      refundId: refund.id,
+      createdBy: data.cancelledBy,
+    });
+  }
+
   /**
    * Crea un query builder base para órdenes con relaciones
    */
@@ -461,6 +1284,7 @@ export class OrderRepository implements IOrderRepository {
     return this.orderRepository
       .createQueryBuilder('order')
       .leftJoinAndSelect('order.user', 'user')
+      .leftJoinAndSelect('order.guestCustomer', 'guestCustomer')
       .leftJoinAndSelect('order.items', 'items')
       .leftJoinAndSelect('items.product', 'product');
   }
@@ -482,6 +1306,13 @@ export class OrderRepository implements IOrderRepository {
       queryBuilder.andWhere('order.userId = :userId', { userId: query.userId });
     }
 
+    // Búsqueda por número de orden (coincidencia parcial)
+    if (query.orderNumber) {
+      queryBuilder.andWhere('order.orderNumber ILIKE :orderNumber', {
+        orderNumber: `%${query.orderNumber.replace(/[%_\\]/g, '\\$&')}%`,
+      });
+    }
+
     // Filtro por rango de montos
     if (query.minAmount) {
       queryBuilder.andWhere('order.totalAmount >= :minAmount', {
@@ -0,0 +1,259 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { DataSource, Not, Repository } from 'typeorm';
+import { Payment, PaymentStatus } from '../../domain/entities/payment.entity';
+import {
+  Refund,
+  RefundMethod,
+  RefundStatus,
+} from '../../domain/entities/refund.entity';
+import { Order, OrderStatus } from '../../domain/entities/order.entity';
+import { OrderStatusHistory } from '../../domain/entities/order-status-history.entity';
+import { StockMovementReason } from '../../domain/entities/stock-movement.entity';
+import {
+  StoreCreditEntryType,
+  StoreCreditReason,
+} from '../../domain/entities/store-credit-entry.entity';
+import {
+  CreatePaymentData,
+  IPaymentRepository,
+  RefundDraft,
+} from '../../application/payments/interfaces/payment-repository.interface';
+import {
+  lockStoreCreditAccount,
+  postStoreCreditEntry,
+} from './store-credit-ledger';
+import { releaseItemStock } from './stock-ledger';
+
+/**
+ * PaymentRepository - Persistencia de pagos y reembolsos
+ * Capa de Infraestructura (Clean Architecture)
+ *
+ * Responsabilidades:
+ * - Registrar pagos capturados
+ * - Reservar reembolsos bajo bloqueo pesimista del pago
+ * - Aplicar efectos del reembolso (stock, estados, saldo a favor) de forma atómica
+ */
+@Injectable()
+export class PaymentRepository implements IPaymentRepository {
+  private readonly logger = new Logger(PaymentRepository.name);
+
+  constructor(
+    @InjectRepository(Payment)
+    private readonly paymentRepository: Repository<Payment>,
+    private readonly dataSource: DataSource,
+  ) {}
+
+  async create(data: CreatePaymentData): Promise<Payment> {
+    this.logger.debug(`Registrando pago para orden ${data.orderId}`);
+
+    const payment = this.paymentRepository.create({
+      ...data,
+      storeCreditAmount: data.storeCreditAmount ?? 0,
+      refundedAmount: 0,
+      storeCreditRefundedAmount: 0,
+      status: PaymentStatus.CAPTURED,
+    });
+    return this.paymentRepository.save(payment);
+  }
+
+  async findByOrderId(orderId: string): Promise<Payment | null> {
+    return this.paymentRepository.findOne({
+      where: { orderId },
+      relations: ['refunds'],
+    });
+  }
+
+  async findRefund(where: {
+    id?: string;
+    providerRefundId?: string;
+  }): Promise<Refund | null> {
+    if (!where.id && !where.providerRefundId) {
+      return null;
+    }
+    return this.dataSource.getRepository(Refund).findOne({
+      where: where.id
+        ? { id: where.id }
+        : { providerRefundId: where.providerRefundId },
+    });
+  }
+
+  async reserveRefund(
+    orderId: string,
+    buildDraft: (payment: Payment) => RefundDraft,
+  ): Promise<Refund> {
+    return this.dataSource.transaction(async (manager) => {
+      // 1. Bloquear el pago para serializar reembolsos concurrentes
+      const payment = await manager.findOne(Payment, {
+        where: { orderId },
+        lock: { mode: 'pessimistic_write' },
+      });
+      if (!payment) {
+        throw new Error(`Pago de la orden ${orderId} no encontrado`);
+      }
+
+      payment.refunds = await manager.find(Refund, {
+        where: { paymentId: payment.id, status: Not(RefundStatus.FAILED) },
+      });
+
+      // 2. Validar y calcular con datos consistentes
+      const draft = buildDraft(payment);
+
+      // 3. Reservar el monto en cada parte del pago
+      const storeCreditAmount = draft.storeCreditAmount ?? 0;
+      payment.refundedAmount += draft.amount - storeCreditAmount;
+      payment.storeCreditRefundedAmount += storeCreditAmount;
+      await manager.update(
+        Payment,
+        { id: payment.id },
+        {
+          refundedAmount: payment.refundedAmount,
+          storeCreditRefundedAmount: payment.storeCreditRefundedAmount,
+        },
+      );
+
+      const refund = manager.create(Refund, {
+        paymentId: payment.id,
+        orderId,
+        amount: draft.amount,
+        storeCreditAmount,
+        items: draft.items,
+        reason: draft.reason ?? null,
+        restock: draft.restock ?? true,
+        method: draft.method ?? RefundMethod.ORIGINAL,
+        createdBy: draft.createdBy,
+        status: RefundStatus.PENDING,
+      });
+      return manager.save(refund);
+    });
+  }
+
+  async completeRefund(
+    refundId: string,
+    result: { status: RefundStatus; providerRefundId?: string | null },
+  ): Promise<Refund> {
+    return this.dataSource.transaction(async (manager) => {
+      const refund = await manager.findOne(Refund, {
+        where: { id: refundId },
+        lock: { mode: 'pessimistic_write' },
+      });
+      if (!refund) {
+        throw new Error(`Reembolso ${refundId} no encontrado`);
+      }
+
+      // Ya cerrado (p. ej. por el webhook del proveedor): sus efectos no se
+      // aplican dos veces
+      if (refund.status !== RefundStatus.PENDING) {
+        return refund;
+      }
+
+      refund.providerRefundId =
+        result.providerRefundId ?? refund.providerRefundId;
+      if (result.status === RefundStatus.PENDING) {
+        return manager.save(refund);
+      }
+
+      const payment = await manager.findOne(Payment, {
+        where: { id: refund.paymentId },
+        lock: { mode: 'pessimistic_write' },
+      });
+
+      refund.status = result.status;
+
+      if (result.status === RefundStatus.FAILED) {
+        // Liberar el monto reservado
+        await manager.update(
+          Payment,
+          { id: payment.id },
+          {
+            refundedAmount: Math.max(
+              0,
+              payment.refundedAmount -
+                (refund.amount - refund.storeCreditAmount),
+            ),
+            storeCreditRefundedAmount: Math.max(
+              0,
+              payment.storeCreditRefundedAmount - refund.storeCreditAmount,
+            ),
+          },
+        );
+        return manager.save(refund);
+      }
+
+      // Devolver las unidades reembolsadas al stock
+      for (const line of refund.restock ? refund.items : []) {
+        await releaseItemStock(
+          manager,
+          { id: line.orderItemId, productId: line.productId },
+          line.quantity,
+          StockMovementReason.RETURN,
+          {
+            orderId: refund.orderId,
+            reference: `refund:${refund.id}`,
+            note: refund.reason,
+            actorId: refund.createdBy,
+          },
+        );
+      }
+
+      const fullyRefunded = payment.getRefundableAmount() === 0;
+      await manager.update(
+        Payment,
+        { id: payment.id },
+        {
+          status: fullyRefunded
+            ? PaymentStatus.REFUNDED
+            : PaymentStatus.PARTIALLY_REFUNDED,
+        },
+      );
+
+      const order = await manager.findOne(Order, {
+        where: { id: refund.orderId },
+      });
+
+      // Reembolso a saldo a favor (o parte pagada con él): se acredita en la
+      // misma transacción
+      const credited =
+        refund.method === RefundMethod.STORE_CREDIT
+          ? refund.amount
+          : refund.storeCreditAmount;
+      if (credited > 0) {
+        const account = await lockStoreCreditAccount(manager, order.userId);
+        await postStoreCreditEntry(manager, account, {
+          type: StoreCreditEntryType.CREDIT,
+          reason: StoreCreditReason.REFUND,
+          amount: credited,
+          orderId: refund.orderId,
+          refundId: refund.id,
+          note: refund.reason,
+          createdBy: refund.createdBy,
+        });
+      }
+
+      // Una orden cancelada sigue cancelada aunque se le devuelva el pago
+      if (order.status === OrderStatus.CANCELLED) {
+        return manager.save(refund);
+      }
+
+      const orderStatus = fullyRefunded
+        ? OrderStatus.REFUNDED
+        : OrderStatus.PARTIALLY_REFUNDED;
+      await manager.update(
+        Order,
+        { id: refund.orderId },
+        { status: orderStatus, updatedAt: new Date() },
+      );
+      if (order.status !== orderStatus) {
+        await manager.insert(OrderStatusHistory, {
+          orderId: refund.orderId,
+          fromStatus: order.status,
+          toStatus: orderStatus,
+          actorId: refund.createdBy,
+          note: `Reembolso ${refund.id}`,
+        });
+      }
+
+      return manager.save(refund);
+    });
+  }
+}
@@ -2,12 +2,18 @@ import { Injectable, Logger } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
 import { Repository, SelectQueryBuilder, Between } from 'typeorm';
 import { Product } from '../../domain/entities/product.entity';
-import { IProductRepository } from '../../application/products/interfaces/product-repository.interface';
+import { StockMovementReason } from '../../domain/entities/stock-movement.entity';
+import {
+  IProductRepository,
+  StockChangeContext,
+} from '../../application/products/interfaces/product-repository.interface';
 import {
   CreateProductDto,
   UpdateProductDto,
   ProductQueryDto,
 } from '../../application/products/dto';
+import { reservedStockSql } from './inventory-availability';
+import { postStockMovement } from './stock-ledger';
 
 /**
  * ProductRepository - Implementación concreta del Repository Pattern
@@ -107,11 +113,26 @@ export class ProductRepository implements IProductRepository {
   /**
    * Crea un nuevo producto
    */
-  async create(createData: CreateProductDto): Promise<Product> {
+  async create(
+    createData: CreateProductDto,
+    actorId?: string,
+  ): Promise<Product> {
     this.logger.debug(`Creando nuevo producto: ${createData.name}`);
 
-    const product = this.productRepository.create(createData);
-    return this.productRepository.save(product);
+    return this.productRepository.manager.transaction(async (manager) => {
+      // El stock inicial entra por el ledger como cualquier otro movimiento
+      const product = await manager.save(
+        manager.create(Product, { ...createData, stock: 0 }),
+      );
+      await postStockMovement(manager, {
+        productId: product.id,
+        delta: createData.stock,
+        reason: StockMovementReason.INITIAL,
+        actorId,
+      });
+
+      return manager.findOne(Product, { where: { id: product.id } });
+    });
   }
 
   /**
@@ -120,19 +141,36 @@ export class ProductRepository implements IProductRepository {
   async update(
     id: number,
     updateData: UpdateProductDto,
+    context: StockChangeContext = {},
   ): Promise<Product | null> {
     this.logger.debug(`Actualizando producto ${id} en DB`);
 
-    const updateResult = await this.productRepository.update(
-      { id },
-      updateData,
-    );
+    const { stock, ...changes } = updateData;
 
-    if (updateResult.affected === 0) {
-      return null;
-    }
+    return this.productRepository.manager.transaction(async (manager) => {
+      const product = await manager.findOne(Product, {
+        where: { id },
+        lock: { mode: 'pessimistic_write' },
+      });
+      if (!product) {
+        return null;
+      }
 
-    return this.findById(id);
+      if (stock !== undefined) {
+        await postStockMovement(manager, {
+          productId: id,
+          delta: stock - product.stock,
+          reason: StockMovementReason.MANUAL_ADJUSTMENT,
+          warehouseId: context.warehouseId,
+          actorId: context.actorId,
+        });
+      }
+      if (Object.keys(changes).length > 0) {
+        await manager.update(Product, { id }, changes);
+      }
+
+      return manager.findOne(Product, { where: { id } });
+    });
   }
 
   /**
@@ -148,33 +186,28 @@ export class ProductRepository implements IProductRepository {
   /**
    * Actualiza el stock de un producto
    */
-  async updateStock(id: number, quantity: number): Promise<Product | null> {
+  async updateStock(
+    id: number,
+    quantity: number,
+    context: StockChangeContext = {},
+  ): Promise<Product | null> {
     this.logger.debug(`Actualizando stock del producto ${id}: ${quantity}`);
 
     // Usar transaction para asegurar consistencia
     return this.productRepository.manager.transaction(async (manager) => {
-      const product = await manager.findOne(Product, {
-        where: { id },
-      });
-
-      if (!product) {
+      const exists = await manager.exists(Product, { where: { id } });
+      if (!exists) {
         return null;
       }
 
-      const newStock = product.stock + quantity;
-
-      // Validar que el stock no sea negativo
-      if (newStock < 0) {
-        throw new Error('Stock insuficiente');
-      }
-
-      await manager.update(
-        Product,
-        { id },
-        {
-          stock: newStock,
-        },
-      );
+      await postStockMovement(manager, {
+        productId: id,
+        delta: quantity,
+        reason: context.reason ?? StockMovementReason.MANUAL_ADJUSTMENT,
+        warehouseId: context.warehouseId,
+        note: context.note,
+        actorId: context.actorId,
+      });
 
       return manager.findOne(Product, { where: { id } });
     });
@@ -381,12 +414,13 @@ export class ProductRepository implements IProductRepository {
       });
     }
 
-    // Filtro de productos en stock
+    // Filtro de productos con stock disponible (sin las reservas activas)
     if (query.inStock !== undefined) {
+      const available = `product.stock - ${reservedStockSql('product')}`;
       if (query.inStock) {
-        queryBuilder.andWhere('product.stock > 0');
+        queryBuilder.andWhere(`${available} > 0`);
       } else {
-        queryBuilder.andWhere('product.stock = 0');
+        queryBuilder.andWhere(`${available} <= 0`);
       }
     }
   }
@@ -0,0 +1,95 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { Promotion } from '../../domain/entities/promotion.entity';
+import { PromotionRedemption } from '../../domain/entities/promotion-redemption.entity';
+import {
+  IPromotionRepository,
+  PromotionData,
+  PromotionRedemptionStats,
+  PromotionUsage,
+} from '../../application/promotions/interfaces/promotion-repository.interface';
+
+/**
+ * PromotionRepository - Implementación concreta de IPromotionRepository
+ * Capa de Infraestructura (Clean Architecture)
+ */
+@Injectable()
+export class PromotionRepository implements IPromotionRepository {
+  private readonly logger = new Logger(PromotionRepository.name);
+
+  constructor(
+    @InjectRepository(Promotion)
+    private readonly promotionRepository: Repository<Promotion>,
+    @InjectRepository(PromotionRedemption)
+    private readonly redemptionRepository: Repository<PromotionRedemption>,
+  ) {}
+
+  async findAll(): Promise<Promotion[]> {
+    return this.promotionRepository.find({ order: { createdAt: 'DESC' } });
+  }
+
+  async findById(id: string): Promise<Promotion | null> {
+    return this.promotionRepository.findOne({ where: { id } });
+  }
+
+  async findByCode(code: string): Promise<Promotion | null> {
+    return this.promotionRepository.findOne({ where: { code } });
+  }
+
+  async create(data: PromotionData): Promise<Promotion> {
+    this.logger.debug(`Creando promoción ${data.code}`);
+
+    const promotion = this.promotionRepository.create(data);
+    return this.promotionRepository.save(promotion);
+  }
+
+  async update(
+    id: string,
+    data: Partial<PromotionData>,
+  ): Promise<Promotion | null> {
+    this.logger.debug(`Actualizando promoción ${id}`);
+
+    const result = await this.promotionRepository.update({ id }, data);
+    if (result.affected === 0) {
+      return null;
+    }
+    return this.findById(id);
+  }
+
+  async delete(id: string): Promise<boolean> {
+    const result = await this.promotionRepository.delete({ id });
+    return (result.affected ?? 0) > 0;
+  }
+
+  async countUsage(
+    promotionId: string,
+    userId: string,
+  ): Promise<PromotionUsage> {
+    const [total, byUser] = await Promise.all([
+      this.redemptionRepository.count({ where: { promotionId } }),
+      this.redemptionRepository.count({ where: { promotionId, userId } }),
+    ]);
+    return { total, byUser };
+  }
+
+  async getRedemptionStats(
+    promotionId: string,
+  ): Promise<PromotionRedemptionStats> {
+    const row = await this.redemptionRepository
+      .createQueryBuilder('redemption')
+      .select('COUNT(*)', 'redemptions')
+      .addSelect('COUNT(DISTINCT redemption.userId)', 'uniqueUsers')
+      .addSelect('COALESCE(SUM(redemption.discountAmount), 0)', 'totalDiscount')
+      .addSelect('MAX(redemption.createdAt)', 'lastRedeemedAt')
+      .where('redemption.promotionId = :promotionId', { promotionId })
+      .getRawOne();
+
+    return {
+      redemptions: parseInt(row.redemptions),
+      uniqueUsers: parseInt(row.uniqueUsers),
+      totalDiscount: parseFloat(row.totalDiscount),
+      lastRedeemedAt: row.lastRedeemedAt ? new Date(row.lastRedeemedAt) : null,
+    };
+  }
+}
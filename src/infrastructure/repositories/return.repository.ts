@@ -0,0 +1,202 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { DataSource, Not, Repository } from 'typeorm';
+import {
+  ReturnItemCondition,
+  ReturnRequest,
+  ReturnStatus,
+} from '../../domain/entities/return-request.entity';
+import { Order } from '../../domain/entities/order.entity';
+import { OrderItem } from '../../domain/entities/order-item.entity';
+import { StockMovementReason } from '../../domain/entities/stock-movement.entity';
+import { Refund, RefundStatus } from '../../domain/entities/refund.entity';
+import {
+  IReturnRepository,
+  ReturnableLine,
+  ReturnChangeContext,
+  ReturnDraft,
+} from '../../application/returns/interfaces/return-repository.interface';
+import { sumUnitsByOrderItem } from './order-units';
+import { releaseItemStock } from './stock-ledger';
+
+/**
+ * ReturnRepository - Implementación concreta de IReturnRepository
+ * Capa de Infraestructura (Clean Architecture)
+ */
+@Injectable()
+export class ReturnRepository implements IReturnRepository {
+  private readonly logger = new Logger(ReturnRepository.name);
+
+  constructor(
+    @InjectRepository(ReturnRequest)
+    private readonly returnRepository: Repository<ReturnRequest>,
+    private readonly dataSource: DataSource,
+  ) {}
+
+  async findByOrderId(orderId: string): Promise<ReturnRequest[]> {
+    return this.returnRepository.find({
+      where: { orderId },
+      order: { createdAt: 'ASC' },
+    });
+  }
+
+  async findOne(
+    orderId: string,
+    returnId: string,
+  ): Promise<ReturnRequest | null> {
+    return this.returnRepository.findOne({
+      where: { id: returnId, orderId },
+    });
+  }
+
+  async create(
+    orderId: string,
+    buildDraft: (returnable: ReturnableLine[]) => ReturnDraft,
+  ): Promise<ReturnRequest> {
+    this.logger.debug(`Creando devolución para orden ${orderId}`);
+
+    return this.dataSource.transaction(async (manager) => {
+      // Bloquear la orden para serializar devoluciones y reembolsos
+      await manager.findOne(Order, {
+        where: { id: orderId },
+        lock: { mode: 'pessimistic_write' },
+      });
+
+      const [items, returns, refunds] = await Promise.all([
+        manager.find(OrderItem, { where: { orderId } }),
+        manager.find(ReturnRequest, {
+          where: { orderId, status: Not(ReturnStatus.REJECTED) },
+        }),
+        manager.find(Refund, {
+          where: { orderId, status: Not(RefundStatus.FAILED) },
+        }),
+      ]);
+      // Los reembolsos de devoluciones ya están contados en la devolución
+      const returnedUnits = sumUnitsByOrderItem(returns);
+      const refundedUnits = sumUnitsByOrderItem(
+        refunds.filter(
+          (refund) => !returns.some((r) => r.refundId === refund.id),
+        ),
+      );
+
+      const returnable = items.map((item) => ({
+        orderItemId: item.id,
+        productId: item.productId,
+        remaining:
+          item.quantity -
+          (returnedUnits.get(item.id) ?? 0) -
+          (refundedUnits.get(item.id) ?? 0),
+      }));
+
+      const draft = buildDraft(returnable);
+
+      return manager.save(
+        manager.create(ReturnRequest, {
+          orderId,
+          requestedBy: draft.requestedBy,
+          items: draft.items,
+          reasonCode: draft.reasonCode,
+          comment: draft.comment ?? null,
+          status: ReturnStatus.REQUESTED,
+          history: [
+            {
+              status: ReturnStatus.REQUESTED,
+              actorId: draft.requestedBy,
+              note: draft.comment ?? null,
+              at: new Date().toISOString(),
+            },
+          ],
+        }),
+      );
+    });
+  }
+
+  async updateStatus(
+    id: string,
+    from: ReturnStatus,
+    to: ReturnStatus,
+    context: ReturnChangeContext,
+  ): Promise<ReturnRequest | null> {
+    this.logger.debug(`Devolución ${id}: ${from} → ${to}`);
+
+    return this.dataSource.transaction(async (manager) => {
+      const returnRequest = await manager.findOne(ReturnRequest, {
+        where: { id },
+        lock: { mode: 'pessimistic_write' },
+      });
+      if (!returnRequest || returnRequest.status !== from) {
+        return null;
+      }
+
+      returnRequest.status = to;
+      returnRequest.history = [
+        ...returnRequest.history,
+        {
+          status: to,
+          actorId: context.actorId,
+          note: context.note ?? null,
+          at: new Date().toISOString(),
+        },
+      ];
+      return manager.save(returnRequest);
+    });
+  }
+
+  async receive(
+    id: string,
+    conditions: Map<number, ReturnItemCondition>,
+    context: ReturnChangeContext,
+  ): Promise<ReturnRequest | null> {
+    this.logger.debug(`Recibiendo devolución ${id}`);
+
+    return this.dataSource.transaction(async (manager) => {
+      const returnRequest = await manager.findOne(ReturnRequest, {
+        where: { id },
+        lock: { mode: 'pessimistic_write' },
+      });
+      if (!returnRequest || returnRequest.status !== ReturnStatus.APPROVED) {
+        return null;
+      }
+
+      returnRequest.items = returnRequest.items.map((line) => ({
+        ...line,
+        condition:
+          conditions.get(line.productId) ?? ReturnItemCondition.RESTOCK,
+      }));
+
+      // Las unidades en buen estado vuelven al stock; las dañadas se descartan
+      for (const line of returnRequest.items) {
+        if (line.condition === ReturnItemCondition.RESTOCK) {
+          await releaseItemStock(
+            manager,
+            { id: line.orderItemId, productId: line.productId },
+            line.quantity,
+            StockMovementReason.RETURN,
+            {
+              orderId: returnRequest.orderId,
+              reference: `return:${returnRequest.id}`,
+              note: context.note,
+              actorId: context.actorId,
+            },
+          );
+        }
+      }
+
+      returnRequest.status = ReturnStatus.RECEIVED;
+      returnRequest.history = [
+        ...returnRequest.history,
+        {
+          status: ReturnStatus.RECEIVED,
+          actorId: context.actorId,
+          note: context.note ?? null,
+          at: new Date().toISOString(),
+        },
+      ];
+      return manager.save(returnRequest);
+    });
+  }
+
+  async setRefund(id: string, refundId: string): Promise<void> {
+    await this.returnRepository.update({ id }, { refundId });
+  }
+}
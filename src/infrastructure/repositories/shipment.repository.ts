@@ -0,0 +1,100 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { DataSource, Not, Repository } from 'typeorm';
+import {
+  Shipment,
+  ShipmentStatus,
+} from '../../domain/entities/shipment.entity';
+import { Order } from '../../domain/entities/order.entity';
+import { OrderItem } from '../../domain/entities/order-item.entity';
+import { Refund, RefundStatus } from '../../domain/entities/refund.entity';
+import {
+  IShipmentRepository,
+  PendingShipmentLine,
+  ShipmentDraft,
+  UpdateShipmentData,
+} from '../../application/shipments/interfaces/shipment-repository.interface';
+import { sumUnitsByOrderItem } from './order-units';
+
+/**
+ * ShipmentRepository - Implementación concreta de IShipmentRepository
+ * Capa de Infraestructura (Clean Architecture)
+ */
+@Injectable()
+export class ShipmentRepository implements IShipmentRepository {
+  private readonly logger = new Logger(ShipmentRepository.name);
+
+  constructor(
+    @InjectRepository(Shipment)
+    private readonly shipmentRepository: Repository<Shipment>,
+    private readonly dataSource: DataSource,
+  ) {}
+
+  async findByOrderId(orderId: string): Promise<Shipment[]> {
+    return this.shipmentRepository.find({
+      where: { orderId },
+      order: { shippedAt: 'ASC' },
+    });
+  }
+
+  async findOne(orderId: string, shipmentId: string): Promise<Shipment | null> {
+    return this.shipmentRepository.findOne({
+      where: { id: shipmentId, orderId },
+    });
+  }
+
+  async create(
+    orderId: string,
+    buildDraft: (pending: PendingShipmentLine[]) => ShipmentDraft,
+  ): Promise<Shipment> {
+    this.logger.debug(`Creando envío para orden ${orderId}`);
+
+    return this.dataSource.transaction(async (manager) => {
+      // Bloquear la orden para serializar envíos, reembolsos y cancelaciones
+      await manager.findOne(Order, {
+        where: { id: orderId },
+        lock: { mode: 'pessimistic_write' },
+      });
+
+      const [items, shipments, refunds] = await Promise.all([
+        manager.find(OrderItem, { where: { orderId } }),
+        manager.find(Shipment, { where: { orderId } }),
+        manager.find(Refund, {
+          where: { orderId, status: Not(RefundStatus.FAILED) },
+        }),
+      ]);
+      const shippedUnits = sumUnitsByOrderItem(shipments);
+      const refundedUnits = sumUnitsByOrderItem(refunds);
+
+      const pending = items.map((item) => ({
+        orderItemId: item.id,
+        productId: item.productId,
+        remaining:
+          item.quantity -
+          (shippedUnits.get(item.id) ?? 0) -
+          (refundedUnits.get(item.id) ?? 0),
+      }));
+
+      const draft = buildDraft(pending);
+
+      return manager.save(
+        manager.create(Shipment, {
+          orderId,
+          carrier: draft.carrier,
+          trackingNumber: draft.trackingNumber,
+          items: draft.items,
+          status: ShipmentStatus.SHIPPED,
+          shippedAt: new Date(),
+          createdBy: draft.createdBy,
+        }),
+      );
+    });
+  }
+
+  async update(id: string, data: UpdateShipmentData): Promise<Shipment | null> {
+    this.logger.debug(`Actualizando envío ${id}`);
+
+    await this.shipmentRepository.update({ id }, data);
+    return this.shipmentRepository.findOne({ where: { id } });
+  }
+}
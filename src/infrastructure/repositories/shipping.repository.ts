@@ -0,0 +1,120 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { ShippingZone } from '../../domain/entities/shipping-zone.entity';
+import { ShippingMethod } from '../../domain/entities/shipping-method.entity';
+import {
+  IShippingRepository,
+  ShippingMethodData,
+  ShippingZoneData,
+} from '../../application/shipping/interfaces/shipping-repository.interface';
+
+/**
+ * ShippingRepository - Implementación concreta de IShippingRepository
+ * Capa de Infraestructura (Clean Architecture)
+ */
+@Injectable()
+export class ShippingRepository implements IShippingRepository {
+  private readonly logger = new Logger(ShippingRepository.name);
+
+  constructor(
+    @InjectRepository(ShippingZone)
+    private readonly zoneRepository: Repository<ShippingZone>,
+    @InjectRepository(ShippingMethod)
+    private readonly methodRepository: Repository<ShippingMethod>,
+  ) {}
+
+  async findZones(): Promise<ShippingZone[]> {
+    return this.zoneRepository.find({
+      relations: ['methods'],
+      order: { name: 'ASC', methods: { amount: 'ASC' } },
+    });
+  }
+
+  async findZoneById(id: string): Promise<ShippingZone | null> {
+    return this.zoneRepository.findOne({
+      where: { id },
+      relations: ['methods'],
+    });
+  }
+
+  async findZonesByCountry(country: string): Promise<ShippingZone[]> {
+    return this.zoneRepository
+      .createQueryBuilder('zone')
+      .leftJoinAndSelect(
+        'zone.methods',
+        'method',
+        'method.isActive = :isActive',
+        { isActive: true },
+      )
+      .where('zone.countries @> :country::jsonb', {
+        country: JSON.stringify([country]),
+      })
+      .orderBy('method.amount', 'ASC')
+      .getMany();
+  }
+
+  async createZone(data: ShippingZoneData): Promise<ShippingZone> {
+    this.logger.debug(`Creando zona de envío ${data.name}`);
+
+    const zone = await this.zoneRepository.save(
+      this.zoneRepository.create(data),
+    );
+    return this.findZoneById(zone.id);
+  }
+
+  async updateZone(
+    id: string,
+    data: Partial<ShippingZoneData>,
+  ): Promise<ShippingZone | null> {
+    const result = await this.zoneRepository.update({ id }, data);
+    if (result.affected === 0) {
+      return null;
+    }
+    return this.findZoneById(id);
+  }
+
+  async deleteZone(id: string): Promise<boolean> {
+    const result = await this.zoneRepository.delete({ id });
+    return (result.affected ?? 0) > 0;
+  }
+
+  async findMethodById(id: string): Promise<ShippingMethod | null> {
+    return this.methodRepository.findOne({
+      where: { id },
+      relations: ['zone'],
+    });
+  }
+
+  async findMethodByCode(
+    zoneId: string,
+    code: string,
+  ): Promise<ShippingMethod | null> {
+    return this.methodRepository.findOne({ where: { zoneId, code } });
+  }
+
+  async createMethod(data: ShippingMethodData): Promise<ShippingMethod> {
+    this.logger.debug(`Creando método de envío ${data.code}`);
+
+    const method = await this.methodRepository.save(
+      this.methodRepository.create(data),
+    );
+    return this.findMethodById(method.id);
+  }
+
+  async updateMethod(
+    id: string,
+    data: Partial<ShippingMethodData>,
+  ): Promise<ShippingMethod | null> {
+    const result = await this.methodRepository.update({ id }, data);
+    if (result.affected === 0) {
+      return null;
+    }
+    return this.findMethodById(id);
+  }
+
+  async deleteMethod(id: string): Promise<boolean> {
+    const result = await this.methodRepository.delete({ id });
+    return (result.affected ?? 0) > 0;
+  }
+}
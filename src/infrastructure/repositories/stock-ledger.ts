@@ -0,0 +1,475 @@
+import { EntityManager, In, MoreThan } from 'typeorm';
+import { Product } from '../../domain/entities/product.entity';
+import { ProductStock } from '../../domain/entities/product-stock.entity';
+import { OrderItemAllocation } from '../../domain/entities/order-item-allocation.entity';
+import { StockTransfer } from '../../domain/entities/stock-transfer.entity';
+import {
+  StockMovement,
+  StockMovementReason,
+} from '../../domain/entities/stock-movement.entity';
+import {
+  DEFAULT_WAREHOUSE_CODE,
+  Warehouse,
+  WarehouseAllocationStrategy,
+  allocateFromWarehouses,
+} from '../../domain/entities/warehouse.entity';
+
+/**
+ * Movimiento a registrar en el stock de un producto
+ * Sin warehouseId se aplica al almacén por defecto
+ */
+export interface StockPosting {
+  productId: number;
+  delta: number;
+  reason: StockMovementReason;
+  warehouseId?: string | null;
+  orderId?: string | null;
+  reference?: string | null;
+  note?: string | null;
+  actorId?: string | null;
+}
+
+/**
+ * Línea a descontar del stock; con orderItemId se guarda de qué almacenes sale
+ */
+export interface StockAllocationLine {
+  productId: number;
+  quantity: number;
+  orderItemId?: number;
+}
+
+export type StockPostingContext = Pick<
+  StockPosting,
+  'orderId' | 'reference' | 'note' | 'actorId'
+>;
+
+export interface StockTransferPosting {
+  productId: number;
+  fromWarehouseId: string;
+  toWarehouseId: string;
+  quantity: number;
+  note?: string | null;
+  actorId?: string | null;
+}
+
+/**
+ * Almacén activo de mayor prioridad; si todavía no hay ninguno crea el
+ * almacén principal, que recibe el stock anterior a los almacenes
+ * @throws Error si todos los almacenes están inactivos
+ */
+export async function findDefaultWarehouse(
+  manager: EntityManager,
+): Promise<Warehouse> {
+  if ((await manager.count(Warehouse)) === 0) {
+    await manager
+      .createQueryBuilder()
+      .insert()
+      .into(Warehouse)
+      .values({ code: DEFAULT_WAREHOUSE_CODE, name: 'Almacén principal' })
+      .orIgnore()
+      .execute();
+  }
+
+  // Si se desactiva mientras se espera el bloqueo se busca el siguiente
+  for (;;) {
+    const candidate = await manager.findOne(Warehouse, {
+      where: { isActive: true },
+      order: { priority: 'ASC', createdAt: 'ASC' },
+    });
+    if (!candidate) {
+      throw new Error('No hay almacenes activos');
+    }
+    const warehouse = await lockWarehouse(manager, candidate.id);
+    if (warehouse.isActive) {
+      return warehouse;
+    }
+  }
+}
+
+/**
+ * Único punto de escritura de Product.stock y ProductStock: bloquea el
+ * producto, el almacén y su ubicación, aplica el delta en ambos y registra el
+ * movimiento en la misma transacción
+ * @returns Movimiento registrado o null si el delta es 0
+ * @throws Error si el producto no existe, el stock del almacén quedaría
+ * negativo o se agregan unidades a un almacén inactivo
+ */
+export async function postStockMovement(
+  manager: EntityManager,
+  posting: StockPosting,
+): Promise<StockMovement | null> {
+  if (posting.delta === 0) {
+    return null;
+  }
+
+  const product = await lockProduct(manager, posting.productId);
+  const warehouse = posting.warehouseId
+    ? await lockWarehouse(manager, posting.warehouseId)
+    : await findDefaultWarehouse(manager);
+  if (posting.delta > 0 && !warehouse.isActive) {
+    throw new Error(`El almacén ${warehouse.code} está inactivo`);
+  }
+  const warehouseId = warehouse.id;
+  const location = await lockLocation(manager, product.id, warehouseId);
+
+  const quantityAfter = product.stock + posting.delta;
+  const warehouseQuantityAfter = location.quantity + posting.delta;
+  if (quantityAfter < 0 || warehouseQuantityAfter < 0) {
+    throw new Error(
+      `Stock insuficiente para el producto ${product.id} en el almacén ${warehouseId}: disponible ${location.quantity}, solicitado ${-posting.delta}`,
+    );
+  }
+
+  await manager.update(
+    ProductStock,
+    { id: location.id },
+    { quantity: warehouseQuantityAfter },
+  );
+  await manager.update(
+    Product,
+    { id: product.id },
+    { stock: quantityAfter, updatedAt: new Date() },
+  );
+
+  const movement = manager.create(StockMovement, {
+    productId: product.id,
+    delta: posting.delta,
+    quantityAfter,
+    warehouseId,
+    warehouseQuantityAfter,
+    reason: posting.reason,
+    orderId: posting.orderId ?? null,
+    reference: posting.reference ?? null,
+    note: posting.note ?? null,
+    actorId: posting.actorId ?? null,
+  });
+  return manager.save(movement);
+}
+
+/**
+ * Descuenta las líneas del stock de los almacenes activos según la estrategia
+ * y registra una venta por almacén
+ * @throws Error si los almacenes activos no cubren alguna línea
+ */
+export async function allocateStock(
+  manager: EntityManager,
+  lines: StockAllocationLine[],
+  strategy: WarehouseAllocationStrategy,
+  context: StockPostingContext = {},
+): Promise<void> {
+  const pending = lines.filter((line) => line.quantity > 0);
+  if (pending.length === 0) {
+    return;
+  }
+
+  const productIds = [...new Set(pending.map((line) => line.productId))].sort(
+    (a, b) => a - b,
+  );
+  for (const productId of productIds) {
+    await lockProduct(manager, productId);
+  }
+
+  const locations = await manager.find(ProductStock, {
+    where: {
+      productId: In(productIds),
+      quantity: MoreThan(0),
+      warehouse: { isActive: true },
+    },
+    relations: ['warehouse'],
+  });
+  const allocations = allocateFromWarehouses(
+    strategy,
+    pending,
+    locations.map((location) => ({
+      warehouseId: location.warehouseId,
+      priority: location.warehouse.priority,
+      productId: location.productId,
+      quantity: location.quantity,
+    })),
+  );
+
+  for (const line of pending) {
+    const lineAllocations = allocations.filter(
+      (allocation) => allocation.productId === line.productId,
+    );
+    const allocated = lineAllocations.reduce(
+      (sum, allocation) => sum + allocation.quantity,
+      0,
+    );
+    if (allocated < line.quantity) {
+      throw new Error(
+        `Stock insuficiente en los almacenes activos para el producto ${line.productId}: disponible ${allocated}, solicitado ${line.quantity}`,
+      );
+    }
+
+    for (const allocation of lineAllocations) {
+      await postStockMovement(manager, {
+        ...context,
+        productId: line.productId,
+        delta: -allocation.quantity,
+        reason: StockMovementReason.SALE,
+        warehouseId: allocation.warehouseId,
+      });
+      if (line.orderItemId) {
+        await addItemAllocation(
+          manager,
+          line.orderItemId,
+          allocation.warehouseId,
+          allocation.quantity,
+        );
+      }
+    }
+  }
+}
+
+/**
+ * Devuelve unidades de un item de orden a los almacenes de los que salieron
+ * (las últimas asignadas primero); las que no tienen asignación, de órdenes
+ * anteriores a los almacenes, y las de almacenes ya desactivados vuelven al
+ * almacén por defecto
+ */
+export async function releaseItemStock(
+  manager: EntityManager,
+  item: { id: number; productId: number },
+  quantity: number,
+  reason: StockMovementReason,
+  context: StockPostingContext = {},
+): Promise<void> {
+  let remaining = quantity;
+  const allocations = await manager.find(OrderItemAllocation, {
+    where: { orderItemId: item.id },
+    order: { updatedAt: 'DESC' },
+  });
+
+  for (const allocation of allocations) {
+    if (remaining === 0) break;
+    const units = Math.min(remaining, allocation.quantity);
+    const warehouse = await lockWarehouse(manager, allocation.warehouseId);
+    await postStockMovement(manager, {
+      ...context,
+      productId: item.productId,
+      delta: units,
+      reason,
+      warehouseId: warehouse.isActive ? warehouse.id : null,
+    });
+    if (units === allocation.quantity) {
+      await manager.delete(OrderItemAllocation, { id: allocation.id });
+    } else {
+      await manager.update(
+        OrderItemAllocation,
+        { id: allocation.id },
+        { quantity: allocation.quantity - units },
+      );
+    }
+    remaining -= units;
+  }
+
+  if (remaining > 0) {
+    await postStockMovement(manager, {
+      ...context,
+      productId: item.productId,
+      delta: remaining,
+      reason,
+    });
+  }
+}
+
+/**
+ * Traspasa unidades entre almacenes: registra el traspaso y un movimiento
+ * transfer en cada almacén; el stock total del producto no cambia
+ * @returns Traspaso registrado o null si el almacén de origen no tiene las unidades
+ * @throws Error si el producto no existe o el almacén de destino está inactivo
+ */
+export async function postStockTransfer(
+  manager: EntityManager,
+  posting: StockTransferPosting,
+): Promise<StockTransfer | null> {
+  const product = await lockProduct(manager, posting.productId);
+
+  // Bloquear los dos almacenes y sus ubicaciones siempre en el mismo orden
+  const [first, second] = [
+    posting.fromWarehouseId,
+    posting.toWarehouseId,
+  ].sort();
+  const warehouses = new Map([
+    [first, await lockWarehouse(manager, first)],
+    [second, await lockWarehouse(manager, second)],
+  ]);
+  const targetWarehouse = warehouses.get(posting.toWarehouseId);
+  if (!targetWarehouse.isActive) {
+    throw new Error(`El almacén ${targetWarehouse.code} está inactivo`);
+  }
+  const locations = new Map([
+    [first, await lockLocation(manager, product.id, first)],
+    [second, await lockLocation(manager, product.id, second)],
+  ]);
+  const source = locations.get(posting.fromWarehouseId);
+  const target = locations.get(posting.toWarehouseId);
+  if (source.quantity < posting.quantity) {
+    return null;
+  }
+
+  const transfer = await manager.save(
+    manager.create(StockTransfer, {
+      productId: product.id,
+      fromWarehouseId: posting.fromWarehouseId,
+      toWarehouseId: posting.toWarehouseId,
+      quantity: posting.quantity,
+      note: posting.note ?? null,
+      actorId: posting.actorId ?? null,
+    }),
+  );
+
+  for (const [location, delta] of [
+    [source, -posting.quantity],
+    [target, posting.quantity],
+  ] as const) {
+    const warehouseQuantityAfter = location.quantity + delta;
+    await manager.update(
+      ProductStock,
+      { id: location.id },
+      { quantity: warehouseQuantityAfter },
+    );
+    await manager.insert(StockMovement, {
+      productId: product.id,
+      delta,
+      quantityAfter: product.stock,
+      warehouseId: location.warehouseId,
+      warehouseQuantityAfter,
+      reason: StockMovementReason.TRANSFER,
+      reference: `transfer:${transfer.id}`,
+      note: posting.note ?? null,
+      actorId: posting.actorId ?? null,
+    });
+  }
+
+  return transfer;
+}
+
+/**
+ * Registra el stock de un producto anterior al ledger o a los almacenes
+ * (movimiento initial y stock del almacén por defecto); no hace nada si ya
+ * está registrado
+ * @throws Error si el producto no existe
+ */
+export async function backfillProductStock(
+  manager: EntityManager,
+  productId: number,
+): Promise<void> {
+  await lockProduct(manager, productId);
+}
+
+/**
+ * Bloquea el producto y, si es anterior al ledger o a los almacenes, registra
+ * su stock actual como movimiento initial y como stock del almacén por defecto
+ */
+async function lockProduct(
+  manager: EntityManager,
+  productId: number,
+): Promise<Product> {
+  const product = await manager.findOne(Product, {
+    where: { id: productId },
+    select: ['id', 'stock'],
+    lock: { mode: 'pessimistic_write' },
+  });
+  if (!product) {
+    throw new Error(`Producto ${productId} no encontrado`);
+  }
+  if (product.stock === 0) {
+    return product;
+  }
+
+  const [hasMovements, hasLocations] = await Promise.all([
+    manager.exists(StockMovement, { where: { productId } }),
+    manager.exists(ProductStock, { where: { productId } }),
+  ]);
+  if (hasMovements && hasLocations) {
+    return product;
+  }
+
+  const warehouse = hasLocations ? null : await findDefaultWarehouse(manager);
+  if (warehouse) {
+    await manager.insert(ProductStock, {
+      productId,
+      warehouseId: warehouse.id,
+      quantity: product.stock,
+    });
+  }
+  if (!hasMovements) {
+    await manager.insert(StockMovement, {
+      productId,
+      delta: product.stock,
+      quantityAfter: product.stock,
+      warehouseId: warehouse?.id ?? null,
+      warehouseQuantityAfter: warehouse ? product.stock : null,
+      reason: StockMovementReason.INITIAL,
+    });
+  }
+  return product;
+}
+
+/**
+ * Bloquea el almacén en modo compartido (SELECT ... FOR SHARE) para que no se
+ * desactive mientras la transacción mueve su stock
+ * @throws Error si el almacén no existe
+ */
+async function lockWarehouse(
+  manager: EntityManager,
+  warehouseId: string,
+): Promise<Warehouse> {
+  const warehouse = await manager.findOne(Warehouse, {
+    where: { id: warehouseId },
+    lock: { mode: 'pessimistic_read' },
+  });
+  if (!warehouse) {
+    throw new Error(`Almacén ${warehouseId} no encontrado`);
+  }
+  return warehouse;
+}
+
+/**
+ * Bloquea (SELECT ... FOR UPDATE) el stock del producto en el almacén,
+ * creándolo en 0 si todavía no existe
+ */
+async function lockLocation(
+  manager: EntityManager,
+  productId: number,
+  warehouseId: string,
+): Promise<ProductStock> {
+  await manager
+    .createQueryBuilder()
+    .insert()
+    .into(ProductStock)
+    .values({ productId, warehouseId, quantity: 0 })
+    .orIgnore()
+    .execute();
+
+  return manager.findOne(ProductStock, {
+    where: { productId, warehouseId },
+    lock: { mode: 'pessimistic_write' },
+  });
+}
+
+async function addItemAllocation(
+  manager: EntityManager,
+  orderItemId: number,
+  warehouseId: string,
+  quantity: number,
+): Promise<void> {
+  const existing = await manager.findOne(OrderItemAllocation, {
+    where: { orderItemId, warehouseId },
+  });
+  if (existing) {
+    await manager.update(
+      OrderItemAllocation,
+      { id: existing.id },
+      { quantity: existing.quantity + quantity },
+    );
+    return;
+  }
+  await manager.insert(OrderItemAllocation, {
+    orderItemId,
+    warehouseId,
+    quantity,
+  });
+}
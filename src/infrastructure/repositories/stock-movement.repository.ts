@@ -0,0 +1,117 @@
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { Product } from '../../domain/entities/product.entity';
+import { StockMovement } from '../../domain/entities/stock-movement.entity';
+import { ProductStock } from '../../domain/entities/product-stock.entity';
+import {
+  IStockMovementRepository,
+  StockDiscrepancy,
+} from '../../application/products/interfaces/stock-movement-repository.interface';
+import { backfillProductStock } from './stock-ledger';
+
+/**
+ * StockMovementRepository - Implementación concreta de IStockMovementRepository
+ * Capa de Infraestructura (Clean Architecture)
+ */
+@Injectable()
+export class StockMovementRepository
+  implements IStockMovementRepository, OnModuleInit
+{
+  private readonly logger = new Logger(StockMovementRepository.name);
+
+  constructor(
+    @InjectRepository(StockMovement)
+    private readonly stockMovementRepository: Repository<StockMovement>,
+  ) {}
+
+  /**
+   * Registra en el ledger el stock de los productos anteriores a él, para que
+   * la conciliación solo muestre diferencias reales
+   */
+  async onModuleInit(): Promise<void> {
+    const manager = this.stockMovementRepository.manager;
+    const subQuery = (entity: typeof StockMovement | typeof ProductStock) =>
+      manager
+        .createQueryBuilder()
+        .subQuery()
+        .select('1')
+        .from(entity, 'registered')
+        .where('registered.productId = product.id')
+        .getQuery();
+
+    const pending = await manager
+      .createQueryBuilder(Product, 'product')
+      .select('product.id', 'id')
+      .where('product.stock <> 0')
+      .andWhere(
+        `(NOT EXISTS ${subQuery(StockMovement)} OR NOT EXISTS ${subQuery(ProductStock)})`,
+      )
+      .getRawMany();
+
+    for (const { id } of pending) {
+      try {
+        await manager.transaction((transaction) =>
+          backfillProductStock(transaction, Number(id)),
+        );
+      } catch (error) {
+        this.logger.warn(
+          `No se pudo registrar el stock inicial del producto ${id}: ${error.message}`,
+        );
+      }
+    }
+    if (pending.length > 0) {
+      this.logger.log(
+        `Stock inicial registrado en el ledger para ${pending.length} productos`,
+      );
+    }
+  }
+
+  async findByProduct(
+    productId: number,
+    page: number,
+    limit: number,
+  ): Promise<{ movements: StockMovement[]; total: number }> {
+    const [movements, total] = await this.stockMovementRepository.findAndCount({
+      where: { productId },
+      order: { createdAt: 'DESC' },
+      skip: (page - 1) * limit,
+      take: limit,
+    });
+    return { movements, total };
+  }
+
+  async reconcile(): Promise<{
+    productsChecked: number;
+    discrepancies: StockDiscrepancy[];
+  }> {
+    this.logger.debug('Conciliando stock con el ledger de movimientos');
+
+    const manager = this.stockMovementRepository.manager;
+    const [productsChecked, rows] = await Promise.all([
+      manager.count(Product),
+      manager
+        .createQueryBuilder(Product, 'product')
+        .leftJoin(StockMovement, 'movement', 'movement.productId = product.id')
+        .select('product.id', 'productId')
+        .addSelect('product.name', 'name')
+        .addSelect('product.stock', 'stock')
+        .addSelect('COALESCE(SUM(movement.delta), 0)', 'ledgerStock')
+        .addSelect('COUNT(movement.id)', 'movementCount')
+        .groupBy('product.id')
+        .having('product.stock <> COALESCE(SUM(movement.delta), 0)')
+        .orderBy('product.id', 'ASC')
+        .getRawMany(),
+    ]);
+
+    const discrepancies = rows.map((row) => ({
+      productId: Number(row.productId),
+      name: row.name,
+      stock: Number(row.stock),
+      ledgerStock: Number(row.ledgerStock),
+      movementCount: Number(row.movementCount),
+    }));
+
+    return { productsChecked, discrepancies };
+  }
+}
@@ -0,0 +1,86 @@
+import { EntityManager } from 'typeorm';
+import { StoreCreditAccount } from '../../domain/entities/store-credit-account.entity';
+import {
+  StoreCreditEntry,
+  StoreCreditEntryType,
+  StoreCreditReason,
+} from '../../domain/entities/store-credit-entry.entity';
+
+/**
+ * Movimiento a registrar en una cuenta de saldo a favor (monto en centavos)
+ */
+export interface StoreCreditPosting {
+  type: StoreCreditEntryType;
+  reason: StoreCreditReason;
+  amount: number;
+  orderId?: string | null;
+  refundId?: string | null;
+  giftCardId?: string | null;
+  checkoutSessionId?: string | null;
+  note?: string | null;
+  createdBy?: string | null;
+}
+
+/**
+ * Bloquea (SELECT ... FOR UPDATE) la cuenta de saldo a favor del usuario,
+ * creándola vacía si todavía no existe
+ */
+export async function lockStoreCreditAccount(
+  manager: EntityManager,
+  userId: string,
+): Promise<StoreCreditAccount> {
+  await manager
+    .createQueryBuilder()
+    .insert()
+    .into(StoreCreditAccount)
+    .values({ userId, balance: 0 })
+    .orIgnore()
+    .execute();
+
+  return manager.findOne(StoreCreditAccount, {
+    where: { userId },
+    lock: { mode: 'pessimistic_write' },
+  });
+}
+
+/**
+ * Registra un movimiento en una cuenta ya bloqueada y actualiza su saldo
+ * @throws Error si un débito dejaría el saldo negativo
+ */
+export async function postStoreCreditEntry(
+  manager: EntityManager,
+  account: StoreCreditAccount,
+  posting: StoreCreditPosting,
+): Promise<StoreCreditEntry> {
+  const balanceAfter =
+    posting.type === StoreCreditEntryType.CREDIT
+      ? account.balance + posting.amount
+      : account.balance - posting.amount;
+  if (balanceAfter < 0) {
+    throw new Error(
+      `Saldo a favor insuficiente en la cuenta ${account.id}: disponible ${account.balance}, solicitado ${posting.amount}`,
+    );
+  }
+
+  await manager.update(
+    StoreCreditAccount,
+    { id: account.id },
+    { balance: balanceAfter, updatedAt: new Date() },
+  );
+  account.balance = balanceAfter;
+
+  const entry = manager.create(StoreCreditEntry, {
+    accountId: account.id,
+    type: posting.type,
+    reason: posting.reason,
+    amount: posting.amount,
+    balanceAfter,
+    orderId: posting.orderId ?? null,
+    refundId: posting.refundId ?? null,
+    giftCardId: posting.giftCardId ?? null,
+    checkoutSessionId: posting.checkoutSessionId ?? null,
+    note: posting.note ?? null,
+    createdBy: posting.createdBy ?? null,
+  });
+  return manager.save(entry);
+}
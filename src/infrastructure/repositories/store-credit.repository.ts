@@ -0,0 +1,203 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { DataSource, Repository } from 'typeorm';
+import { GiftCard } from '../../domain/entities/gift-card.entity';
+import { StoreCreditAccount } from '../../domain/entities/store-credit-account.entity';
+import {
+  StoreCreditEntry,
+  StoreCreditEntryType,
+  StoreCreditReason,
+} from '../../domain/entities/store-credit-entry.entity';
+import {
+  GiftCardData,
+  IStoreCreditRepository,
+  StoreCreditMovement,
+} from '../../application/store-credit/interfaces/store-credit-repository.interface';
+import {
+  lockStoreCreditAccount,
+  postStoreCreditEntry,
+} from './store-credit-ledger';
+
+/**
+ * StoreCreditRepository - Implementación concreta de IStoreCreditRepository
+ * Capa de Infraestructura (Clean Architecture)
+ *
+ * Los cambios de saldo se hacen con la cuenta bloqueada, por lo que canjes
+ * concurrentes se serializan y el saldo nunca queda negativo
+ */
+@Injectable()
+export class StoreCreditRepository implements IStoreCreditRepository {
+  private readonly logger = new Logger(StoreCreditRepository.name);
+
+  constructor(
+    @InjectRepository(GiftCard)
+    private readonly giftCardRepository: Repository<GiftCard>,
+    @InjectRepository(StoreCreditAccount)
+    private readonly accountRepository: Repository<StoreCreditAccount>,
+    @InjectRepository(StoreCreditEntry)
+    private readonly entryRepository: Repository<StoreCreditEntry>,
+    private readonly dataSource: DataSource,
+  ) {}
+
+  async findGiftCards(): Promise<GiftCard[]> {
+    return this.giftCardRepository.find({ order: { createdAt: 'DESC' } });
+  }
+
+  async findGiftCardById(id: string): Promise<GiftCard | null> {
+    return this.giftCardRepository.findOne({ where: { id } });
+  }
+
+  async findGiftCardByCode(code: string): Promise<GiftCard | null> {
+    return this.giftCardRepository.findOne({ where: { code } });
+  }
+
+  async createGiftCard(data: GiftCardData): Promise<GiftCard> {
+    this.logger.debug(`Emitiendo tarjeta de regalo ${data.code}`);
+
+    const giftCard = this.giftCardRepository.create({
+      ...data,
+      balance: data.initialAmount,
+    });
+    return this.giftCardRepository.save(giftCard);
+  }
+
+  async updateGiftCard(
+    id: string,
+    data: Partial<Pick<GiftCardData, 'isActive' | 'expiresAt' | 'note'>>,
+  ): Promise<GiftCard | null> {
+    this.logger.debug(`Actualizando tarjeta de regalo ${id}`);
+
+    const result = await this.giftCardRepository.update({ id }, data);
+    if (result.affected === 0) {
+      return null;
+    }
+    return this.findGiftCardById(id);
+  }
+
+  async redeemGiftCard(
+    code: string,
+    userId: string,
+    assertRedeemable: (giftCard: GiftCard | null) => void,
+  ): Promise<StoreCreditEntry> {
+    return this.dataSource.transaction(async (manager) => {
+      // 1. Bloquear la tarjeta para que dos canjes no la acrediten dos veces
+      const giftCard = await manager.findOne(GiftCard, {
+        where: { code },
+        lock: { mode: 'pessimistic_write' },
+      });
+      assertRedeemable(giftCard);
+
+      // 2. Vaciar la tarjeta
+      const amount = giftCard.balance;
+      await manager.update(
+        GiftCard,
+        { id: giftCard.id },
+        { balance: 0, redeemedBy: userId, redeemedAt: new Date() },
+      );
+
+      // 3. Acreditar el saldo en la cuenta del usuario
+      const account = await lockStoreCreditAccount(manager, userId);
+      return postStoreCreditEntry(manager, account, {
+        type: StoreCreditEntryType.CREDIT,
+        reason: StoreCreditReason.GIFT_CARD,
+        amount,
+        giftCardId: giftCard.id,
+        createdBy: userId,
+      });
+    });
+  }
+
+  async findAccount(userId: string): Promise<StoreCreditAccount | null> {
+    return this.accountRepository.findOne({ where: { userId } });
+  }
+
+  async findEntries(
+    userId: string,
+    limit: number,
+  ): Promise<StoreCreditEntry[]> {
+    return this.entryRepository
+      .createQueryBuilder('entry')
+      .innerJoin('entry.account', 'account')
+      .where('account.userId = :userId', { userId })
+      .orderBy('entry.createdAt', 'DESC')
+      .take(limit)
+      .getMany();
+  }
+
+  async credit(
+    userId: string,
+    movement: StoreCreditMovement,
+  ): Promise<StoreCreditEntry> {
+    this.logger.debug(
+      `Acreditando ${movement.amount} centavos a usuario ${userId}`,
+    );
+
+    return this.dataSource.transaction(async (manager) => {
+      const account = await lockStoreCreditAccount(manager, userId);
+      return postStoreCreditEntry(manager, account, {
+        type: StoreCreditEntryType.CREDIT,
+        ...movement,
+      });
+    });
+  }
+
+  async debit(
+    userId: string,
+    movement: StoreCreditMovement,
+  ): Promise<StoreCreditEntry | null> {
+    this.logger.debug(
+      `Debitando ${movement.amount} centavos a usuario ${userId}`,
+    );
+
+    return this.dataSource.transaction(async (manager) => {
+      const account = await lockStoreCreditAccount(manager, userId);
+      if (account.balance < movement.amount) {
+        return null;
+      }
+      return postStoreCreditEntry(manager, account, {
+        type: StoreCreditEntryType.DEBIT,
+        ...movement,
+      });
+    });
+  }
+
+  async releaseCheckoutHold(
+    checkoutSessionId: string,
+  ): Promise<StoreCreditEntry | null> {
+    return this.dataSource.transaction(async (manager) => {
+      const hold = await manager.findOne(StoreCreditEntry, {
+        where: { checkoutSessionId, reason: StoreCreditReason.CHECKOUT_HOLD },
+      });
+      if (!hold) {
+        return null;
+      }
+
+      const account = await manager.findOne(StoreCreditAccount, {
+        where: { id: hold.accountId },
+        lock: { mode: 'pessimistic_write' },
+      });
+
+      // Con la cuenta bloqueada, lo reservado menos lo ya devuelto
+      const entries = await manager.find(StoreCreditEntry, {
+        where: { accountId: account.id, checkoutSessionId },
+      });
+      const held = entries.reduce(
+        (sum, entry) =>
+          entry.type === StoreCreditEntryType.DEBIT
+            ? sum + entry.amount
+            : sum - entry.amount,
+        0,
+      );
+      if (held <= 0) {
+        return null;
+      }
+
+      return postStoreCreditEntry(manager, account, {
+        type: StoreCreditEntryType.CREDIT,
+        reason: StoreCreditReason.CHECKOUT_RELEASE,
+        amount: held,
+        checkoutSessionId,
+      });
+    });
+  }
+}
@@ -0,0 +1,82 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { IsNull, Repository } from 'typeorm';
+import { TaxRate } from '../../domain/entities/tax-rate.entity';
+import {
+  ITaxRateRepository,
+  TaxRateData,
+} from '../../application/taxes/interfaces/tax-rate-repository.interface';
+
+/**
+ * TaxRateRepository - Implementación concreta de ITaxRateRepository
+ * Capa de Infraestructura (Clean Architecture)
+ */
+@Injectable()
+export class TaxRateRepository implements ITaxRateRepository {
+  private readonly logger = new Logger(TaxRateRepository.name);
+
+  constructor(
+    @InjectRepository(TaxRate)
+    private readonly taxRateRepository: Repository<TaxRate>,
+  ) {}
+
+  async findAll(country?: string): Promise<TaxRate[]> {
+    return this.taxRateRepository.find({
+      where: country ? { country } : {},
+      order: { country: 'ASC', region: 'ASC', taxCategory: 'ASC' },
+    });
+  }
+
+  async findById(id: string): Promise<TaxRate | null> {
+    return this.taxRateRepository.findOne({ where: { id } });
+  }
+
+  async findByScope(
+    country: string,
+    region: string | null,
+    taxCategory: string,
+  ): Promise<TaxRate | null> {
+    return this.taxRateRepository.findOne({
+      where: { country, region: region ?? IsNull(), taxCategory },
+    });
+  }
+
+  async findApplicable(
+    country: string,
+    region: string | null,
+  ): Promise<TaxRate[]> {
+    return this.taxRateRepository.find({
+      where: [
+        { country, region: IsNull() },
+        ...(region ? [{ country, region }] : []),
+      ],
+    });
+  }
+
+  async create(data: TaxRateData): Promise<TaxRate> {
+    this.logger.debug(
+      `Creando tasa ${data.name} para ${data.country}/${data.region ?? '*'}`,
+    );
+
+    const taxRate = this.taxRateRepository.create(data);
+    return this.taxRateRepository.save(taxRate);
+  }
+
+  async update(
+    id: string,
+    data: Partial<TaxRateData>,
+  ): Promise<TaxRate | null> {
+    this.logger.debug(`Actualizando tasa ${id}`);
+
+    const result = await this.taxRateRepository.update({ id }, data);
+    if (result.affected === 0) {
+      return null;
+    }
+    return this.findById(id);
+  }
+
+  async delete(id: string): Promise<boolean> {
+    const result = await this.taxRateRepository.delete({ id });
+    return (result.affected ?? 0) > 0;
+  }
+}
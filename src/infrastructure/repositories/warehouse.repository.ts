@@ -0,0 +1,130 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { DataSource, Repository } from 'typeorm';
+import { Warehouse } from '../../domain/entities/warehouse.entity';
+import { Product } from '../../domain/entities/product.entity';
+import { ProductStock } from '../../domain/entities/product-stock.entity';
+import { StockTransfer } from '../../domain/entities/stock-transfer.entity';
+import {
+  IWarehouseRepository,
+  StockTransferData,
+  WarehouseData,
+  WarehouseDeactivationResult,
+} from '../../application/warehouses/interfaces/warehouse-repository.interface';
+import { postStockTransfer } from './stock-ledger';
+
+/**
+ * WarehouseRepository - Implementación concreta de IWarehouseRepository
+ * Capa de Infraestructura (Clean Architecture)
+ */
+@Injectable()
+export class WarehouseRepository implements IWarehouseRepository {
+  private readonly logger = new Logger(WarehouseRepository.name);
+
+  constructor(
+    @InjectRepository(Warehouse)
+    private readonly warehouseRepository: Repository<Warehouse>,
+    private readonly dataSource: DataSource,
+  ) {}
+
+  async findAll(): Promise<Warehouse[]> {
+    return this.warehouseRepository.find({
+      order: { priority: 'ASC', createdAt: 'ASC' },
+    });
+  }
+
+  async findById(id: string): Promise<Warehouse | null> {
+    return this.warehouseRepository.findOne({ where: { id } });
+  }
+
+  async findByCode(code: string): Promise<Warehouse | null> {
+    return this.warehouseRepository.findOne({ where: { code } });
+  }
+
+  async create(data: WarehouseData): Promise<Warehouse> {
+    return this.warehouseRepository.save(this.warehouseRepository.create(data));
+  }
+
+  async update(
+    id: string,
+    data: Partial<WarehouseData>,
+  ): Promise<Warehouse | null> {
+    const result = await this.warehouseRepository.update({ id }, data);
+    if (!result.affected) {
+      return null;
+    }
+    return this.findById(id);
+  }
+
+  async deactivate(
+    id: string,
+    data: Partial<WarehouseData>,
+  ): Promise<WarehouseDeactivationResult | null> {
+    return this.dataSource.transaction(async (manager) => {
+      // Los movimientos de stock bloquean el almacén en modo compartido antes
+      // que sus ubicaciones: con este bloqueo ninguno puede quedar a medias
+      const warehouse = await manager.findOne(Warehouse, {
+        where: { id },
+        lock: { mode: 'pessimistic_write' },
+      });
+      if (!warehouse) {
+        return null;
+      }
+
+      const locations = await manager.find(ProductStock, {
+        where: { warehouseId: id },
+        select: ['id', 'quantity'],
+        lock: { mode: 'pessimistic_write' },
+      });
+      const units = locations.reduce(
+        (sum, location) => sum + location.quantity,
+        0,
+      );
+      if (units > 0) {
+        return { warehouse: null, units };
+      }
+
+      await manager.update(Warehouse, { id }, { ...data, isActive: false });
+      return {
+        warehouse: await manager.findOne(Warehouse, { where: { id } }),
+        units,
+      };
+    });
+  }
+
+  async findProductStock(productId: number): Promise<ProductStock[] | null> {
+    const exists = await this.dataSource
+      .getRepository(Product)
+      .exists({ where: { id: productId } });
+    if (!exists) {
+      return null;
+    }
+
+    return this.dataSource.getRepository(ProductStock).find({
+      where: { productId },
+      relations: ['warehouse'],
+      order: { warehouse: { priority: 'ASC' } },
+    });
+  }
+
+  async transfer(data: StockTransferData): Promise<StockTransfer | null> {
+    this.logger.debug(
+      `Traspasando ${data.quantity} unidades del producto ${data.productId}: ${data.fromWarehouseId} -> ${data.toWarehouseId}`,
+    );
+
+    return this.dataSource.transaction((manager) =>
+      postStockTransfer(manager, data),
+    );
+  }
+
+  async findTransfers(
+    productId: number | undefined,
+    limit: number,
+  ): Promise<StockTransfer[]> {
+    return this.dataSource.getRepository(StockTransfer).find({
+      where: productId ? { productId } : {},
+      order: { createdAt: 'DESC' },
+      take: limit,
+    });
+  }
+}
@@ -11,6 +11,7 @@ import { AppModule } from './app.module';
 async function bootstrap() {
   const app = await NestFactory.create(AppModule, {
     logger: ['error', 'warn', 'log'], // Disable debug and verbose logs
+    rawBody: true, // Necesario para verificar la firma de los webhooks de Stripe
   });
   const configService = app.get(ConfigService);
 
@@ -68,8 +69,11 @@ async function bootstrap() {
             'Accept',
             'Origin',
             'X-Requested-With',
+            'Idempotency-Key',
+            'X-Cart-Token', // carrito de invitado (el token viaja en el body)
+            'X-Order-Token', // orden de invitado
           ],
-          exposedHeaders: ['Authorization'],
+          exposedHeaders: ['Authorization', 'Idempotent-Replayed'],
           credentials: true,
           optionsSuccessStatus: 200,
         }
@@ -82,8 +86,11 @@ async function bootstrap() {
             'Accept',
             'Origin',
             'X-Requested-With',
+            'Idempotency-Key',
+            'X-Cart-Token', // carrito de invitado (el token viaja en el body)
+            'X-Order-Token', // orden de invitado
           ],
-          exposedHeaders: ['Authorization'],
+          exposedHeaders: ['Authorization', 'Idempotent-Replayed'],
           credentials: true,
           optionsSuccessStatus: 200,
         };
@@ -33,10 +33,55 @@ export const configValidationSchema = Joi.object({
   // Security
   BCRYPT_SALT_ROUNDS: Joi.number().min(10).max(15).default(12),
 
+  // Payment provider (fake: pagos simulados en memoria, solo tests/desarrollo)
+  PAYMENT_PROVIDER: Joi.string()
+    .valid('stripe', 'fake')
+    .when('NODE_ENV', {
+      is: 'test',
+      then: Joi.string().default('fake'),
+      otherwise: Joi.string().default('stripe'),
+    }),
+  FAKE_PAYMENT_WEBHOOK_SECRET: Joi.string().optional(),
+
   // Stripe Payment
   STRIPE_SECRET_KEY: Joi.string().optional(),
   STRIPE_WEBHOOK_SECRET: Joi.string().optional(),
 
   // Checkout Session
-  SESSION_EXPIRATION_HOURS: Joi.number().positive().default(1),
+  // Stripe solo acepta vencimientos entre 30 minutos y 24 horas
+  SESSION_EXPIRATION_HOURS: Joi.number().min(0.5).max(24).default(1),
+  CHECKOUT_SESSION_RETENTION_DAYS: Joi.number()
+    .integer()
+    .positive()
+    .default(30),
+
+  // Returns
+  RETURN_WINDOW_DAYS: Joi.number().integer().positive().default(30),
+
+  // Taxes (inclusive: Product.price ya incluye el impuesto)
+  TAX_PRICING_MODE: Joi.string()
+    .valid('inclusive', 'exclusive')
+    .default('exclusive'),
+  TAX_DEFAULT_COUNTRY: Joi.string().length(2).optional(),
+
+  // Idempotency-Key (POST /orders, POST /payments/checkout)
+  IDEMPOTENCY_KEY_TTL_HOURS: Joi.number().positive().default(24),
+  IDEMPOTENCY_IN_PROGRESS_TTL_SECONDS: Joi.number()
+    .integer()
+    .positive()
+    .default(60),
+
+  // Guest carts (el cart token se firma con JWT_SECRET si no hay uno propio)
+  CART_TOKEN_SECRET: Joi.string().min(32).optional(),
+  GUEST_CART_IDLE_HOURS: Joi.number().positive().default(168),
+  CART_MERGE_STRATEGY: Joi.string().valid('sum', 'newest').default('sum'),
+  CART_MERGE_CAP_AT_STOCK: Joi.boolean().default(true),
+
+  // Inventory reservations
+  CART_RESERVATION_TTL_MINUTES: Joi.number().min(0).default(0),
+
+  // Warehouses
+  WAREHOUSE_ALLOCATION_STRATEGY: Joi.string()
+    .valid('priority', 'fewest_shipments')
+    .default('priority'),
 }).unknown(true); // Allow unknown environment variables
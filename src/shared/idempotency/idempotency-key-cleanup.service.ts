@@ -0,0 +1,28 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { IIdempotencyStore } from './interfaces/idempotency-store.interface';
+
+/**
+ * IdempotencyKeyCleanupService - Elimina periódicamente las claves expiradas
+ */
+@Injectable()
+export class IdempotencyKeyCleanupService {
+  private readonly logger = new Logger(IdempotencyKeyCleanupService.name);
+
+  constructor(
+    @Inject('IIdempotencyStore')
+    private readonly idempotencyStore: IIdempotencyStore,
+  ) {}
+
+  /**
+   * @returns Cantidad de claves eliminadas
+   */
+  @Cron(CronExpression.EVERY_HOUR)
+  async purgeExpiredKeys(): Promise<number> {
+    const purged = await this.idempotencyStore.purgeExpired();
+    if (purged > 0) {
+      this.logger.log(`${purged} Idempotency-Keys expiradas eliminadas`);
+    }
+    return purged;
+  }
+}
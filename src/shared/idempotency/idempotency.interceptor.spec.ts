@@ -0,0 +1,232 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import {
+  CallHandler,
+  ExecutionContext,
+  UnprocessableEntityException,
+} from '@nestjs/common';
+import { lastValueFrom, of, throwError } from 'rxjs';
+import { IdempotencyInterceptor } from './idempotency.interceptor';
+
+describe('IdempotencyInterceptor', () => {
+  let interceptor: IdempotencyInterceptor;
+
+  const userId = '550e8400-e29b-41d4-a716-446655440001';
+  const key = 'order-attempt-1';
+  const leaseId = '550e8400-e29b-41d4-a716-446655440090';
+
+  const mockIdempotencyStore = {
+    find: jest.fn(),
+    begin: jest.fn(),
+    complete: jest.fn(),
+    release: jest.fn(),
+    purgeExpired: jest.fn(),
+  };
+
+  const mockConfigService = {
+    get: jest.fn((key: string, defaultValue?: any) => defaultValue),
+  };
+
+  const buildContext = (
+    body: unknown,
+    headers = { 'idempotency-key': key },
+  ) => {
+    const response = {
+      statusCode: 201,
+      status: jest.fn(),
+      setHeader: jest.fn(),
+    };
+    const request = {
+      method: 'POST',
+      originalUrl: '/api/v1/orders',
+      headers,
+      body,
+      user: { sub: userId },
+    };
+    const context = {
+      switchToHttp: () => ({
+        getRequest: () => request,
+        getResponse: () => response,
+      }),
+    } as unknown as ExecutionContext;
+    return { context, response };
+  };
+
+  const handler = (result: any): CallHandler => ({
+    handle: jest.fn(() => result),
+  });
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        IdempotencyInterceptor,
+        { provide: 'IIdempotencyStore', useValue: mockIdempotencyStore },
+        { provide: ConfigService, useValue: mockConfigService },
+      ],
+    }).compile();
+
+    interceptor = module.get<IdempotencyInterceptor>(IdempotencyInterceptor);
+
+    jest.clearAllMocks();
+  });
+
+  it('should store the response of the first request', async () => {
+    // Arrange
+    const { context } = buildContext({
+      items: [{ productId: 1, quantity: 2 }],
+    });
+    mockIdempotencyStore.find.mockResolvedValue(null);
+    mockIdempotencyStore.begin.mockResolvedValue(leaseId);
+    const next = handler(of({ id: 'order-1' }));
+
+    // Act
+    const result = await lastValueFrom(
+      await interceptor.intercept(context, next),
+    );
+
+    // Assert
+    expect(result).toEqual({ id: 'order-1' });
+    expect(mockIdempotencyStore.begin).toHaveBeenCalledWith(
+      userId,
+      key,
+      expect.any(String),
+      expect.any(Date),
+    );
+    expect(mockIdempotencyStore.complete).toHaveBeenCalledWith(
+      leaseId,
+      201,
+      { id: 'order-1' },
+      expect.any(Date),
+    );
+  });
+
+  it('should hold the key briefly while in progress and keep the response for the full TTL', async () => {
+    // Arrange
+    const { context } = buildContext({ items: [] });
+    mockIdempotencyStore.find.mockResolvedValue(null);
+    mockIdempotencyStore.begin.mockResolvedValue(leaseId);
+    const before = Date.now();
+
+    // Act
+    await lastValueFrom(
+      await interceptor.intercept(context, handler(of({ id: 'order-1' }))),
+    );
+
+    // Assert
+    const leaseEnd: Date = mockIdempotencyStore.begin.mock.calls[0][3];
+    const expiresAt: Date = mockIdempotencyStore.complete.mock.calls[0][3];
+    expect(leaseEnd.getTime()).toBeLessThanOrEqual(Date.now() + 60 * 1000);
+    expect(expiresAt.getTime()).toBeGreaterThanOrEqual(
+      before + 24 * 60 * 60 * 1000,
+    );
+  });
+
+  it('should still respond when its lease expired and another request took the key', async () => {
+    // Arrange
+    const { context } = buildContext({ items: [] });
+    mockIdempotencyStore.find.mockResolvedValue(null);
+    mockIdempotencyStore.begin.mockResolvedValue(leaseId);
+    mockIdempotencyStore.complete.mockResolvedValue(false);
+
+    // Act
+    const result = await lastValueFrom(
+      await interceptor.intercept(context, handler(of({ id: 'order-1' }))),
+    );
+
+    // Assert
+    expect(result).toEqual({ id: 'order-1' });
+    expect(mockIdempotencyStore.complete).toHaveBeenCalledWith(
+      leaseId,
+      201,
+      { id: 'order-1' },
+      expect.any(Date),
+    );
+  });
+
+  it('should replay the stored response for the same request', async () => {
+    // Arrange
+    const body = { items: [{ productId: 1, quantity: 2 }] };
+    const first = buildContext(body);
+    mockIdempotencyStore.find.mockResolvedValueOnce(null);
+    mockIdempotencyStore.begin.mockResolvedValue(leaseId);
+    await lastValueFrom(
+      await interceptor.intercept(
+        first.context,
+        handler(of({ id: 'order-1' })),
+      ),
+    );
+    const fingerprint = mockIdempotencyStore.begin.mock.calls[0][2];
+
+    mockIdempotencyStore.find.mockResolvedValueOnce({
+      fingerprint,
+      status: 'completed',
+      responseStatus: 201,
+      responseBody: { id: 'order-1' },
+    });
+    const retry = buildContext({ items: [{ quantity: 2, productId: 1 }] });
+    const next = handler(of({ id: 'order-2' }));
+
+    // Act
+    const result = await lastValueFrom(
+      await interceptor.intercept(retry.context, next),
+    );
+
+    // Assert
+    expect(result).toEqual({ id: 'order-1' });
+    expect(next.handle).not.toHaveBeenCalled();
+    expect(retry.response.setHeader).toHaveBeenCalledWith(
+      'Idempotent-Replayed',
+      'true',
+    );
+  });
+
+  it('should reject the same key with a different payload', async () => {
+    // Arrange
+    const { context } = buildContext({
+      items: [{ productId: 1, quantity: 5 }],
+    });
+    mockIdempotencyStore.find.mockResolvedValue({
+      fingerprint: 'otra-huella',
+      status: 'completed',
+      responseStatus: 201,
+      responseBody: { id: 'order-1' },
+    });
+    const next = handler(of({ id: 'order-2' }));
+
+    // Act & Assert
+    await expect(interceptor.intercept(context, next)).rejects.toThrow(
+      UnprocessableEntityException,
+    );
+    expect(next.handle).not.toHaveBeenCalled();
+  });
+
+  it('should release the key when the request fails', async () => {
+    // Arrange
+    const { context } = buildContext({
+      items: [{ productId: 1, quantity: 2 }],
+    });
+    mockIdempotencyStore.find.mockResolvedValue(null);
+    mockIdempotencyStore.begin.mockResolvedValue(leaseId);
+    mockIdempotencyStore.release.mockResolvedValue(undefined);
+    const next = handler(throwError(() => new Error('Stock insuficiente')));
+
+    // Act & Assert
+    await expect(
+      lastValueFrom(await interceptor.intercept(context, next)),
+    ).rejects.toThrow('Stock insuficiente');
+    expect(mockIdempotencyStore.release).toHaveBeenCalledWith(leaseId);
+    expect(mockIdempotencyStore.complete).not.toHaveBeenCalled();
+  });
+
+  it('should pass through requests without the header', async () => {
+    // Arrange
+    const { context } = buildContext({}, {} as any);
+    const next = handler(of({ id: 'order-1' }));
+
+    // Act
+    await lastValueFrom(await interceptor.intercept(context, next));
+
+    // Assert
+    expect(mockIdempotencyStore.find).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,194 @@
+import {
+  BadRequestException,
+  CallHandler,
+  ConflictException,
+  ExecutionContext,
+  Inject,
+  Injectable,
+  Logger,
+  NestInterceptor,
+  UnprocessableEntityException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { createHash } from 'crypto';
+import { from, Observable, of, throwError } from 'rxjs';
+import { catchError, mergeMap } from 'rxjs/operators';
+import {
+  IdempotencyRecord,
+  IIdempotencyStore,
+} from './interfaces/idempotency-store.interface';
+
+export const IDEMPOTENCY_KEY_HEADER = 'Idempotency-Key';
+export const IDEMPOTENT_REPLAYED_HEADER = 'Idempotent-Replayed';
+
+/**
+ * IdempotencyInterceptor - Honra el header Idempotency-Key en endpoints que crean recursos
+ *
+ * - Sin header la petición se procesa normalmente
+ * - La primera petición con una clave guarda su huella y su respuesta
+ * - Un reintento idéntico repite la respuesta guardada sin volver a ejecutarse
+ * - La misma clave con otra petición responde 422
+ * - Si la petición original falla, la clave se libera para poder reintentar
+ * - Mientras se procesa, la clave solo se reserva por
+ *   IDEMPOTENCY_IN_PROGRESS_TTL_SECONDS: si el proceso muere sin completarla,
+ *   un reintento puede tomarla después de ese tiempo. Al completarse, la
+ *   respuesta se guarda IDEMPOTENCY_KEY_TTL_HOURS
+ * - Completar o liberar la clave solo afecta a la reserva propia: una petición
+ *   lenta cuya reserva expiró no pisa la de un reintento posterior
+ *
+ * Debe ejecutarse después de JwtAuthGuard: las claves se guardan por usuario
+ */
+@Injectable()
+export class IdempotencyInterceptor implements NestInterceptor {
+  private readonly logger = new Logger(IdempotencyInterceptor.name);
+  private static readonly MAX_KEY_LENGTH = 255;
+
+  constructor(
+    @Inject('IIdempotencyStore')
+    private readonly idempotencyStore: IIdempotencyStore,
+    private readonly configService: ConfigService,
+  ) {}
+
+  async intercept(
+    context: ExecutionContext,
+    next: CallHandler,
+  ): Promise<Observable<unknown>> {
+    const request = context.switchToHttp().getRequest();
+    const response = context.switchToHttp().getResponse();
+
+    const key = request.headers[IDEMPOTENCY_KEY_HEADER.toLowerCase()];
+    const userId: string | undefined = request.user?.sub;
+    if (key === undefined || !userId) {
+      return next.handle();
+    }
+
+    if (
+      typeof key !== 'string' ||
+      key.trim().length === 0 ||
+      key.length > IdempotencyInterceptor.MAX_KEY_LENGTH
+    ) {
+      throw new BadRequestException(
+        `El header ${IDEMPOTENCY_KEY_HEADER} debe tener entre 1 y ${IdempotencyInterceptor.MAX_KEY_LENGTH} caracteres`,
+      );
+    }
+
+    const fingerprint = this.fingerprint(request);
+
+    const existing = await this.idempotencyStore.find(userId, key);
+    if (existing) {
+      return this.replay(existing, fingerprint, response);
+    }
+
+    const leaseSeconds = this.configService.get<number>(
+      'IDEMPOTENCY_IN_PROGRESS_TTL_SECONDS',
+      60,
+    );
+    const leaseId = await this.idempotencyStore.begin(
+      userId,
+      key,
+      fingerprint,
+      new Date(Date.now() + leaseSeconds * 1000),
+    );
+    if (!leaseId) {
+      // Otra petición con la misma clave se registró al mismo tiempo
+      const concurrent = await this.idempotencyStore.find(userId, key);
+      if (concurrent) {
+        return this.replay(concurrent, fingerprint, response);
+      }
+      throw new ConflictException(
+        `Hay una petición en curso con este ${IDEMPOTENCY_KEY_HEADER}`,
+      );
+    }
+
+    return next.handle().pipe(
+      mergeMap(async (body) => {
+        try {
+          const ttlHours = this.configService.get<number>(
+            'IDEMPOTENCY_KEY_TTL_HOURS',
+            24,
+          );
+          const completed = await this.idempotencyStore.complete(
+            leaseId,
+            response.statusCode,
+            this.serialize(body),
+            new Date(Date.now() + ttlHours * 60 * 60 * 1000),
+          );
+          if (!completed) {
+            this.logger.warn(
+              `La reserva de ${IDEMPOTENCY_KEY_HEADER} ${key} expiró antes de completar la petición: su respuesta no se guarda`,
+            );
+          }
+        } catch (error) {
+          // La petición ya se ejecutó: se responde aunque no quede guardada
+          this.logger.error(
+            `Error guardando respuesta de ${IDEMPOTENCY_KEY_HEADER} ${key}`,
+            error,
+          );
+        }
+        return body;
+      }),
+      catchError((error) =>
+        from(this.idempotencyStore.release(leaseId)).pipe(
+          mergeMap(() => throwError(() => error)),
+        ),
+      ),
+    );
+  }
+
+  private replay(
+    record: IdempotencyRecord,
+    fingerprint: string,
+    response: any,
+  ): Observable<unknown> {
+    if (record.fingerprint !== fingerprint) {
+      throw new UnprocessableEntityException(
+        `El ${IDEMPOTENCY_KEY_HEADER} ya se usó con una petición distinta`,
+      );
+    }
+
+    if (record.status !== 'completed') {
+      throw new ConflictException(
+        `Hay una petición en curso con este ${IDEMPOTENCY_KEY_HEADER}`,
+      );
+    }
+
+    response.status(record.responseStatus);
+    response.setHeader(IDEMPOTENT_REPLAYED_HEADER, 'true');
+    return of(record.responseBody);
+  }
+
+  /**
+   * Huella de la petición: método, ruta y cuerpo con las claves ordenadas
+   */
+  private fingerprint(request: any): string {
+    return createHash('sha256')
+      .update(
+        stableStringify({
+          method: request.method,
+          url: request.originalUrl ?? request.url,
+          body: request.body ?? null,
+        }),
+      )
+      .digest('hex');
+  }
+
+  /**
+   * Serializa la respuesta igual que Express al enviarla
+   */
+  private serialize(body: unknown): unknown {
+    return body === undefined ? null : JSON.parse(JSON.stringify(body));
+  }
+}
+
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    return `{${Object.keys(value)
+      .sort()
+      .map((k) => `${JSON.stringify(k)}:${stableStringify(value[k])}`)
+      .join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+}
@@ -0,0 +1,72 @@
+/**
+ * Petición registrada bajo una Idempotency-Key
+ * - in_progress: la petición original todavía se está procesando
+ * - completed: responseStatus/responseBody contienen la respuesta a repetir
+ */
+export interface IdempotencyRecord {
+  fingerprint: string;
+  status: 'in_progress' | 'completed';
+  responseStatus: number | null;
+  responseBody: unknown;
+}
+
+/**
+ * Abstracción del almacén de claves de idempotencia (DIP)
+ * Las claves se guardan por usuario: dos usuarios pueden usar la misma clave
+ */
+export interface IIdempotencyStore {
+  /**
+   * Encuentra la petición registrada bajo una clave que no haya expirado
+   * @param userId UUID del usuario
+   * @param key Valor del header Idempotency-Key
+   * @returns Promise<IdempotencyRecord | null> Petición registrada o null
+   */
+  find(userId: string, key: string): Promise<IdempotencyRecord | null>;
+
+  /**
+   * Reserva una clave para una petición nueva (reemplaza la clave si expiró,
+   * también si quedó en curso porque su petición nunca terminó)
+   * @param userId UUID del usuario
+   * @param key Valor del header Idempotency-Key
+   * @param fingerprint Huella de la petición
+   * @param expiresAt Fin de la reserva mientras la petición está en curso
+   * @returns Promise<string | null> Identificador de la reserva, o null si
+   * otra petición ya tiene la clave
+   */
+  begin(
+    userId: string,
+    key: string,
+    fingerprint: string,
+    expiresAt: Date,
+  ): Promise<string | null>;
+
+  /**
+   * Guarda la respuesta de la petición para repetirla en los reintentos.
+   * Solo aplica si la reserva sigue en curso: si expiró y otra petición tomó
+   * la clave, su registro no se toca
+   * @param leaseId Identificador devuelto por begin
+   * @param responseStatus Código HTTP de la respuesta
+   * @param responseBody Cuerpo serializado de la respuesta
+   * @param expiresAt Fin de la validez de la clave (extiende la reserva)
+   * @returns Promise<boolean> false si la reserva ya no existía
+   */
+  complete(
+    leaseId: string,
+    responseStatus: number,
+    responseBody: unknown,
+    expiresAt: Date,
+  ): Promise<boolean>;
+
+  /**
+   * Libera una clave cuya petición falló, para que pueda reintentarse
+   * (solo si la reserva sigue en curso, como en complete)
+   * @param leaseId Identificador devuelto por begin
+   */
+  release(leaseId: string): Promise<void>;
+
+  /**
+   * Elimina las claves expiradas
+   * @returns Promise<number> Cantidad de claves eliminadas
+   */
+  purgeExpired(): Promise<number>;
+}
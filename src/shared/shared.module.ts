@@ -1,4 +1,9 @@
 import { Module, Global } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { IdempotencyKey } from '../domain/entities/idempotency-key.entity';
+import { IdempotencyKeyRepository } from '../infrastructure/repositories/idempotency-key.repository';
+import { IdempotencyInterceptor } from './idempotency/idempotency.interceptor';
+import { IdempotencyKeyCleanupService } from './idempotency/idempotency-key-cleanup.service';
 
 /**
  * SharedModule - Global utilities and services
@@ -6,12 +11,16 @@ import { Module, Global } from '@nestjs/common';
  */
 @Global()
 @Module({
-  imports: [],
+  imports: [TypeOrmModule.forFeature([IdempotencyKey])],
   providers: [
-    // Add shared services here (Logger, Cache, etc.)
-  ],
-  exports: [
-    // Export shared services to make them available globally
+    // Idempotency-Key para endpoints que crean recursos
+    {
+      provide: 'IIdempotencyStore',
+      useClass: IdempotencyKeyRepository,
+    },
+    IdempotencyInterceptor,
+    IdempotencyKeyCleanupService,
   ],
+  exports: ['IIdempotencyStore', IdempotencyInterceptor],
 })
 export class SharedModule {}